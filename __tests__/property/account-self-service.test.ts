@@ -0,0 +1,579 @@
+/**
+ * **Feature: travel-tour-booking, Property 59: Customers manage their own account, and deleting it keeps only what accounting needs**
+ *
+ * Property-based tests for the profile page's account self-service.
+ * For any profile edit, valid names and phone numbers are saved normalised and invalid ones
+ * change nothing; the password changes only given the current one; the email changes only
+ * through the link sent to the new address, once; and a deleted account keeps its bookings
+ * and payments but no personal details, not even in admin alerts or the audit trail, and
+ * can no longer sign in.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import bcrypt from 'bcryptjs'
+import { NextRequest } from 'next/server'
+import { AccountValidationError, DELETED_TRAVELER, DELETED_USER_NAME } from '@/app/lib/models/account'
+import { UserValidationError, UserValidator } from '@/app/lib/models/user'
+import { CaptureTransport, Mailer } from '@/app/lib/services/email-transports'
+
+interface FakeUser {
+  id: string
+  name: string
+  email: string
+  passwordHash: string
+  role: 'CUSTOMER' | 'STAFF' | 'ADMIN'
+  phone: string | null
+  sessionVersion: number
+  suspendedAt: Date | null
+  invitedAt: Date | null
+  deletedAt: Date | null
+  createdAt: Date
+}
+
+interface FakeToken {
+  id: string
+  userId: string
+  newEmail?: string
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+}
+
+interface FakeBooking {
+  id: string
+  userId: string
+  status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'EXPIRED' | 'COMPLETED' | 'NO_SHOW' | 'REFUNDED'
+  endDate: Date
+}
+
+interface FakeTraveler {
+  bookingId: string
+  firstName: string
+  lastName: string
+  dateOfBirth: Date
+  nationality: string | null
+  passportNumber: string | null
+  passportExpiry: string | null
+  dietaryRequirements: string | null
+  emergencyContactName: string | null
+  emergencyContactPhone: string | null
+}
+
+type Where = Record<string, unknown>
+type Owned = { userId: string | null; recipient?: string }
+type FakeNotification = Owned & { bookingId?: string; subject?: string; content?: string }
+
+interface FakeAuditEntry {
+  actorId: string | null
+  actorEmail: string
+  entityId: string
+  changes: unknown
+}
+
+const state = {
+  users: [] as FakeUser[],
+  emailTokens: [] as FakeToken[],
+  resetTokens: [] as FakeToken[],
+  bookings: [] as FakeBooking[],
+  payments: [] as { bookingId: string; amount: number }[],
+  travelers: [] as FakeTraveler[],
+  reviews: [] as (Owned & { id?: string })[],
+  notifications: [] as FakeNotification[],
+  auditLog: [] as FakeAuditEntry[],
+  resetRequests: [] as { email: string; ipAddress: string }[],
+  preferences: [] as Owned[],
+  session: null as { user: { email: string } } | null
+}
+
+// Just the token filters the account service writes: equality, null checks and expiry
+const tokenMatches = (token: FakeToken, where: Where) =>
+  Object.entries(where).every(([field, condition]) => {
+    const value = token[field as keyof FakeToken]
+    if (condition && typeof condition === 'object' && 'gt' in condition) {
+      return (value as Date) > (condition as { gt: Date }).gt
+    }
+    return value === condition
+  })
+
+const tokenModel = (tokens: () => FakeToken[], setTokens: (tokens: FakeToken[]) => void) => ({
+  create: jest.fn(async ({ data }: { data: Omit<FakeToken, 'id' | 'usedAt'> }) => {
+    const token = { id: `token-${tokens().length + 1}`, usedAt: null, ...data }
+    tokens().push(token)
+    return token
+  }),
+  findFirst: jest.fn(async ({ where }: { where: Where }) =>
+    [...tokens()].reverse().find(token => tokenMatches(token, where)) ?? null
+  ),
+  findUnique: jest.fn(async ({ where }: { where: { tokenHash: string } }) =>
+    tokens().find(token => token.tokenHash === where.tokenHash) ?? null
+  ),
+  // Check and write in one step, like the conditional UPDATE in Postgres
+  updateMany: jest.fn(async ({ where, data }: { where: Where; data: { usedAt: Date } }) => {
+    const matched = tokens().filter(token => tokenMatches(token, where))
+    matched.forEach(token => { token.usedAt = data.usedAt })
+    return { count: matched.length }
+  }),
+  deleteMany: jest.fn(async ({ where }: { where: { userId: string } }) => {
+    setTokens(tokens().filter(token => token.userId !== where.userId))
+  })
+})
+
+const pick = (user: FakeUser, select?: Record<string, unknown>) => {
+  if (!select) return { ...user }
+  return Object.fromEntries(Object.keys(select).map(field => [field, user[field as keyof FakeUser]]))
+}
+
+const findUser = (where: { id?: string; email?: string }) =>
+  state.users.find(user => (where.id !== undefined ? user.id === where.id : user.email === where.email))
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where, select }: { where: { id?: string; email?: string }; select?: Record<string, unknown> }) => {
+      const user = findUser(where)
+      return user ? pick(user, select) : null
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      const user = findUser(where)!
+      for (const [field, value] of Object.entries(data)) {
+        if (value && typeof value === 'object' && 'increment' in value) {
+          (user as unknown as Record<string, number>)[field] += (value as { increment: number }).increment
+        } else {
+          (user as unknown as Record<string, unknown>)[field] = value
+        }
+      }
+      return { ...user }
+    })
+  },
+  emailChangeToken: tokenModel(() => state.emailTokens, tokens => { state.emailTokens = tokens }),
+  passwordResetToken: tokenModel(() => state.resetTokens, tokens => { state.resetTokens = tokens }),
+  booking: {
+    findMany: jest.fn(async ({ where }: { where: { userId: string } }) =>
+      state.bookings.filter(booking => booking.userId === where.userId).map(booking => ({ id: booking.id, payments: [] }))
+    ),
+    count: jest.fn(async ({ where }: { where: { userId: string; status: { in: string[] }; availability: { endDate: { gte: Date } } } }) =>
+      state.bookings.filter(booking =>
+        booking.userId === where.userId &&
+        where.status.in.includes(booking.status) &&
+        booking.endDate >= where.availability.endDate.gte
+      ).length
+    )
+  },
+  waitlistEntry: {
+    findMany: jest.fn(async () => []),
+    deleteMany: jest.fn(async () => ({ count: 0 }))
+  },
+  review: {
+    findMany: jest.fn(async ({ where }: { where: { userId: string } }) =>
+      state.reviews.filter(review => review.userId === where.userId).map(review => ({ id: review.id }))
+    ),
+    deleteMany: jest.fn(async ({ where }: { where: { userId: string } }) => {
+      state.reviews = state.reviews.filter(review => review.userId !== where.userId)
+    })
+  },
+  notificationPreferences: {
+    deleteMany: jest.fn(async ({ where }: { where: { userId: string } }) => {
+      state.preferences = state.preferences.filter(preferences => preferences.userId !== where.userId)
+    })
+  },
+  notification: {
+    deleteMany: jest.fn(async ({ where }: { where: { OR: [{ userId: string }, { recipient: { in: string[] } }] } }) => {
+      const [{ userId }, { recipient }] = where.OR
+      state.notifications = state.notifications.filter(notification =>
+        notification.userId !== userId && !recipient.in.includes(notification.recipient!)
+      )
+    }),
+    // The account service only looks up notifications about the customer's bookings or quoting their email
+    findMany: jest.fn(async ({ where }: { where: { OR: [{ bookingId: { in: string[] } }, unknown, unknown, { content: { contains: string } }] } }) =>
+      state.notifications
+        .map((notification, index) => ({ id: String(index), ...notification }))
+        .filter(notification =>
+          where.OR[0].bookingId.in.includes(notification.bookingId!) ||
+          notification.content?.toLowerCase().includes(where.OR[3].content.contains.toLowerCase())
+        )
+    ),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<FakeNotification> }) =>
+      Object.assign(state.notifications[Number(where.id)], data)
+    )
+  },
+  auditLog: {
+    findMany: jest.fn(async ({ where }: { where: { OR: [{ entityId: { in: string[] } }, { actorId: string }] } }) =>
+      state.auditLog
+        .map((entry, index) => ({ id: String(index), ...entry }))
+        .filter(entry => where.OR[0].entityId.in.includes(entry.entityId) || entry.actorId === where.OR[1].actorId)
+    ),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<FakeAuditEntry> }) =>
+      Object.assign(state.auditLog[Number(where.id)], data)
+    )
+  },
+  passwordResetRequest: {
+    deleteMany: jest.fn(async ({ where }: { where: { email: { equals: string } } }) => {
+      state.resetRequests = state.resetRequests.filter(request => request.email.toLowerCase() !== where.email.equals.toLowerCase())
+    })
+  },
+  traveler: {
+    updateMany: jest.fn(async ({ where, data }: { where: { booking: { userId: string } }; data: Partial<FakeTraveler> }) => {
+      const bookingIds = state.bookings.filter(booking => booking.userId === where.booking.userId).map(booking => booking.id)
+      const matched = state.travelers.filter(traveler => bookingIds.includes(traveler.bookingId))
+      matched.forEach(traveler => Object.assign(traveler, data))
+      return { count: matched.length }
+    })
+  },
+  $transaction: jest.fn(async (run: (tx: unknown) => Promise<unknown>) => run(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(async () => state.session)
+}))
+
+let AccountService: typeof import('../../app/lib/services/account').AccountService
+let authOptions: typeof import('../../app/lib/auth').authOptions
+let profileRoute: typeof import('../../app/api/user/profile/route')
+let confirmRoute: typeof import('../../app/api/user/profile/email/confirm/route')
+
+const start = new Date('2027-01-01T00:00:00Z')
+const hours = (count: number) => new Date(start.getTime() + count * 60 * 60 * 1000)
+
+const addUser = async (overrides: Partial<FakeUser> & { password?: string } = {}) => {
+  const { password = 'secret-password', ...rest } = overrides
+  const user: FakeUser = {
+    id: `user-${state.users.length + 1}`,
+    name: 'Ama Owusu',
+    email: `user${state.users.length + 1}@example.com`,
+    passwordHash: password ? await bcrypt.hash(password, 4) : '',
+    role: 'CUSTOMER',
+    phone: null,
+    sessionVersion: 0,
+    suspendedAt: null,
+    invitedAt: null,
+    deletedAt: null,
+    createdAt: start,
+    ...rest
+  }
+  state.users.push(user)
+  return user
+}
+
+const authorize = (email: string, password: string) => {
+  const credentials = authOptions.providers[0] as unknown as {
+    options: { authorize: (credentials: { email: string; password: string }) => Promise<unknown> }
+  }
+  return credentials.options.authorize({ email, password })
+}
+
+const signIn = (user: FakeUser) =>
+  authOptions.callbacks!.jwt!({ token: { sub: user.id, email: user.email }, user: { id: user.id, role: user.role } } as never)
+
+// The token from the link in the latest email to an address; captured emails are newest first
+const linkSentTo = (email: string) =>
+  CaptureTransport.messages().find(message => message.to === email)?.text.match(/token=([0-9a-f]+)/)?.[1]
+
+const jsonRequest = (method: string, body: unknown) =>
+  new NextRequest('http://localhost/api/user/profile', { method, body: JSON.stringify(body) })
+
+const bookingStatusArbitrary = fc.constantFrom(
+  'PENDING', 'CONFIRMED', 'CANCELLED', 'EXPIRED', 'COMPLETED', 'NO_SHOW', 'REFUNDED'
+) as fc.Arbitrary<FakeBooking['status']>
+
+describe('Account Self-Service Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ AccountService } = await import('../../app/lib/services/account'));
+    ({ authOptions } = await import('../../app/lib/auth'))
+    profileRoute = await import('../../app/api/user/profile/route')
+    confirmRoute = await import('../../app/api/user/profile/email/confirm/route')
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    state.users = []
+    state.emailTokens = []
+    state.resetTokens = []
+    state.bookings = []
+    state.payments = []
+    state.travelers = []
+    state.reviews = []
+    state.notifications = []
+    state.auditLog = []
+    state.resetRequests = []
+    state.preferences = []
+    state.session = null
+    Mailer.use(null)
+    CaptureTransport.clear()
+  })
+
+  it('should save valid names and phone numbers normalised, and nothing when either is invalid', async () => {
+    const user = await addUser({ name: 'Ama Owusu', phone: '+233241234567', password: '' })
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.option(fc.constantFrom('Kofi Mensah', '  Efua Asante ', 'Y', '   '), { nil: undefined }),
+        fc.option(fc.constantFrom('+44 (0)20 7946 0958', '0044 20 7946 0958', '', '0241234567', '+12'), { nil: undefined }),
+        async (name, phone) => {
+          user.name = 'Ama Owusu'
+          user.phone = '+233241234567'
+
+          const nameValid = name === undefined || name.trim().length >= 2
+          const phoneValid = phone === undefined || phone === '' || phone.startsWith('+44') || phone.startsWith('0044')
+
+          if (!nameValid || !phoneValid) {
+            await expect(AccountService.updateProfile(user.id, { name, phone })).rejects.toThrow(UserValidationError)
+            expect(user.name).toBe('Ama Owusu')
+            expect(user.phone).toBe('+233241234567')
+            return
+          }
+
+          const profile = await AccountService.updateProfile(user.id, { name, phone })
+          expect(profile.name).toBe(name === undefined ? 'Ama Owusu' : name.trim())
+          expect(profile.phone).toBe(phone === undefined ? '+233241234567' : phone === '' ? null : '+442079460958')
+          expect(profile).not.toHaveProperty('passwordHash')
+          expect(profile.hasPassword).toBe(false)
+        }
+      ),
+      { numRuns: 50 }
+    )
+
+    // Signed-out requests are refused
+    const refused = await profileRoute.PATCH(jsonRequest('PATCH', { name: 'Kofi Mensah' }))
+    expect(refused.status).toBe(401)
+  })
+
+  it('should change the password only given the current one, signing out every session', async () => {
+    const user = await addUser({ email: 'ama@example.com', password: 'secret-password' })
+    const signedIn = await signIn(user)
+    state.resetTokens.push({ id: 'reset-1', userId: user.id, tokenHash: 'hash', expiresAt: hours(1), usedAt: null, createdAt: start })
+
+    await expect(AccountService.changePassword(user.id, 'wrong-password', 'new-password', start))
+      .rejects.toThrow('Current password is incorrect')
+    await expect(AccountService.changePassword(user.id, 'secret-password', 'short', start))
+      .rejects.toThrow(AccountValidationError)
+    await expect(AccountService.changePassword(user.id, 'secret-password', 'secret-password', start))
+      .rejects.toThrow('New password must be different from the current one')
+    expect(user.sessionVersion).toBe(0)
+    await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).resolves.toEqual(signedIn)
+
+    await AccountService.changePassword(user.id, 'secret-password', 'new-password', start)
+
+    expect(await bcrypt.compare('new-password', user.passwordHash)).toBe(true)
+    expect(state.resetTokens.every(token => token.usedAt !== null)).toBe(true)
+    await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).rejects.toThrow('Session has been revoked')
+    await expect(authorize('ama@example.com', 'secret-password')).resolves.toBeNull()
+    await expect(authorize('ama@example.com', 'new-password')).resolves.toMatchObject({ id: user.id })
+
+    // Accounts made through Google have no password to change
+    const googleUser = await addUser({ password: '' })
+    await expect(AccountService.changePassword(googleUser.id, '', 'new-password', start)).rejects.toThrow(AccountValidationError)
+  }, 30000)
+
+  it('should change the email only through the latest link sent to the new address, once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 3 }),
+        fc.integer({ min: 0, max: 30 }),
+        fc.boolean(),
+        async (requests, hoursLater, takenMeanwhile) => {
+          state.users = []
+          state.emailTokens = []
+          CaptureTransport.clear()
+          const user = await addUser({ email: 'ama@example.com', password: 'secret-password' })
+          const signedIn = await signIn(user)
+
+          await expect(AccountService.requestEmailChange(user.id, 'new@example.com', 'wrong-password', start))
+            .rejects.toThrow('Current password is incorrect')
+          await expect(AccountService.requestEmailChange(user.id, 'AMA@example.com', 'secret-password', start))
+            .rejects.toThrow('That is already your email address')
+
+          const links: string[] = []
+          for (let index = 0; index < requests; index++) {
+            const result = await AccountService.requestEmailChange(user.id, ' New@Example.com ', 'secret-password', start)
+            expect(result).toEqual({ pendingEmail: 'new@example.com', emailSent: true })
+            links.push(linkSentTo('new@example.com')!)
+          }
+
+          // Nothing changes until the link is used, and only hashes are stored
+          expect(user.email).toBe('ama@example.com')
+          expect(linkSentTo('ama@example.com')).toBeUndefined()
+          expect((await AccountService.getProfile(user.id, start)).pendingEmail).toBe('new@example.com')
+          for (const link of links) {
+            expect(state.emailTokens.some(token => token.tokenHash === link)).toBe(false)
+          }
+
+          if (takenMeanwhile) {
+            await addUser({ email: 'new@example.com' })
+          }
+
+          const latest = links[links.length - 1]
+          const confirming = AccountService.confirmEmailChange(latest, hours(hoursLater))
+
+          if (hoursLater >= 24) {
+            await expect(confirming).rejects.toThrow('Invalid or expired verification link')
+          } else if (takenMeanwhile) {
+            await expect(confirming).rejects.toThrow('That email address is already in use')
+          } else {
+            await expect(confirming).resolves.toEqual({ email: 'new@example.com' })
+            expect(user.email).toBe('new@example.com')
+
+            // The old address is told, open sessions end and only the new address signs in
+            expect(CaptureTransport.messages()[0].to).toBe('ama@example.com')
+            await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).rejects.toThrow('Session has been revoked')
+            await expect(authorize('ama@example.com', 'secret-password')).resolves.toBeNull()
+            await expect(authorize('new@example.com', 'secret-password')).resolves.toMatchObject({ id: user.id })
+
+            await expect(AccountService.confirmEmailChange(latest, hours(hoursLater))).rejects.toThrow('This link has already been used')
+          }
+
+          // Links replaced by a later request never work
+          for (const earlier of links.slice(0, -1)) {
+            await expect(AccountService.confirmEmailChange(earlier, start)).rejects.toThrow(AccountValidationError)
+          }
+        }
+      ),
+      { numRuns: 10 }
+    )
+  }, 60000)
+
+  it('should delete an account without upcoming bookings, keeping its bookings and payments anonymised', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.record({ status: bookingStatusArbitrary, daysAway: fc.integer({ min: -60, max: 60 }).filter(days => days !== 0) }), { maxLength: 5 }),
+        async (bookings) => {
+          state.users = []
+          state.bookings = []
+          state.payments = []
+          state.travelers = []
+          const user = await addUser({ email: 'ama@example.com', phone: '+233241234567', password: 'secret-password' })
+          const other = await addUser({ email: 'kofi@example.com' })
+          const signedIn = await signIn(user)
+
+          // The route deletes as of now, so departures end around the real time
+          bookings.forEach((booking, index) => {
+            const id = `booking-${index + 1}`
+            state.bookings.push({ id, userId: user.id, status: booking.status, endDate: new Date(Date.now() + booking.daysAway * 86_400_000) })
+            state.payments.push({ bookingId: id, amount: 10_000 })
+            state.travelers.push({
+              bookingId: id,
+              firstName: 'Ama',
+              lastName: 'Owusu',
+              dateOfBirth: new Date('1990-05-17T00:00:00Z'),
+              nationality: 'GH',
+              passportNumber: 'v1:key:passport',
+              passportExpiry: 'v1:key:expiry',
+              dietaryRequirements: 'Vegetarian',
+              emergencyContactName: 'Kofi',
+              emergencyContactPhone: '+233201234567'
+            })
+          })
+          state.reviews = [{ id: 'review-1', userId: user.id }, { id: 'review-2', userId: other.id }]
+          state.preferences = [{ userId: user.id }, { userId: other.id }]
+          state.notifications = [
+            { userId: user.id, recipient: 'ama@example.com' },
+            { userId: null, recipient: '+233241234567' },
+            { userId: other.id, recipient: 'kofi@example.com' },
+            {
+              userId: 'admin-1',
+              recipient: 'admin@example.com',
+              subject: 'New booking - Gold Coast',
+              content: 'Customer: Ama Owusu (AMA@example.com), tour Gold Coast'
+            },
+            { userId: 'admin-1', recipient: 'admin@example.com', subject: 'New booking', content: 'Customer: Kofi (kofi@example.com)' }
+          ]
+          state.auditLog = [
+            {
+              actorId: 'admin-1',
+              actorEmail: 'admin@example.com',
+              entityId: user.id,
+              changes: { email: { before: 'ama@example.com', after: 'ama@example.com' }, name: { before: 'Ama', after: 'Ama Owusu' } }
+            },
+            { actorId: 'admin-1', actorEmail: 'admin@example.com', entityId: other.id, changes: { email: { before: 'kofi@example.com' } } }
+          ]
+          state.resetRequests = [
+            { email: 'ama@example.com', ipAddress: '203.0.113.7' },
+            { email: 'kofi@example.com', ipAddress: '203.0.113.8' }
+          ]
+
+          await expect(AccountService.deleteAccount(user.id, 'wrong-password', start)).rejects.toThrow('Current password is incorrect')
+
+          const upcoming = bookings.some(booking => ['PENDING', 'CONFIRMED'].includes(booking.status) && booking.daysAway > 0)
+          state.session = { user: { email: 'ama@example.com' } }
+          const response = await profileRoute.DELETE(jsonRequest('DELETE', { password: 'secret-password' }))
+
+          if (upcoming) {
+            expect(response.status).toBe(400)
+            expect((await response.json()).error).toBe('Cancel your upcoming bookings before deleting your account')
+            expect(user.deletedAt).toBeNull()
+            expect(user.email).toBe('ama@example.com')
+            return
+          }
+
+          expect(response.status).toBe(200)
+          expect(user).toMatchObject({
+            name: DELETED_USER_NAME,
+            email: `deleted-${user.id}@deleted.invalid`,
+            phone: null,
+            passwordHash: ''
+          })
+          expect(UserValidator.accountStatus(user)).toBe('deleted')
+
+          // Bookings and payments stay on the anonymised account, without travel documents
+          expect(state.bookings).toHaveLength(bookings.length)
+          expect(state.bookings.every(booking => booking.userId === user.id)).toBe(true)
+          expect(state.payments).toHaveLength(bookings.length)
+          for (const traveler of state.travelers) {
+            expect(traveler).toEqual({
+              bookingId: traveler.bookingId,
+              ...DELETED_TRAVELER,
+              nationality: null,
+              passportNumber: null,
+              passportExpiry: null,
+              dietaryRequirements: null,
+              emergencyContactName: null,
+              emergencyContactPhone: null
+            })
+          }
+
+          // Everything else personal is gone, and only this user's
+          expect(state.reviews).toEqual([{ id: 'review-2', userId: other.id }])
+          expect(state.preferences).toEqual([{ userId: other.id }])
+          expect(state.resetRequests).toEqual([{ email: 'kofi@example.com', ipAddress: '203.0.113.8' }])
+          expect(state.notifications).toEqual([
+            { userId: other.id, recipient: 'kofi@example.com' },
+            {
+              userId: 'admin-1',
+              recipient: 'admin@example.com',
+              subject: 'New booking - Gold Coast',
+              content: `Customer: ${DELETED_USER_NAME} (deleted-${user.id}@deleted.invalid), tour Gold Coast`
+            },
+            { userId: 'admin-1', recipient: 'admin@example.com', subject: 'New booking', content: 'Customer: Kofi (kofi@example.com)' }
+          ])
+
+          // The audit trail keeps the changes, without the customer's details in them
+          expect(JSON.stringify(state.auditLog[0])).not.toMatch(/ama@example\.com|Ama Owusu/i)
+          expect(state.auditLog[0].changes).toMatchObject({ email: { before: `deleted-${user.id}@deleted.invalid` } })
+          expect(state.auditLog[1].changes).toEqual({ email: { before: 'kofi@example.com' } })
+
+          await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).rejects.toThrow('Session has been revoked')
+          await expect(authorize('ama@example.com', 'secret-password')).resolves.toBeNull()
+        }
+      ),
+      { numRuns: 20 }
+    )
+
+    // Staff and admins are closed by an admin, not by themselves
+    const staff = await addUser({ role: 'STAFF', password: 'secret-password' })
+    await expect(AccountService.deleteAccount(staff.id, 'secret-password', start))
+      .rejects.toThrow('Staff and admin accounts are closed by an admin')
+
+    // Confirming needs no session, only a valid token
+    const response = await confirmRoute.POST(new NextRequest('http://localhost/api/user/profile/email/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ token: 'not-a-token' })
+    }))
+    expect(response.status).toBe(400)
+  }, 60000)
+})
@@ -0,0 +1,364 @@
+/**
+ * **Feature: travel-tour-booking, Property 58: Every admin change is recorded with who made it, from where, and what changed**
+ *
+ * Property-based tests for the audit log.
+ * For any change to a record, the log holds exactly the fields that changed with their values
+ * before and after, leaving out related records and the values of secrets; an admin change
+ * made through the API is recorded against the admin, their address and browser without ever
+ * failing the change itself; and the viewer lists and exports exactly the matching entries.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import { NextRequest } from 'next/server'
+import {
+  AuditLogValidationError,
+  AuditLogValidator,
+  AuditRules,
+  type AuditChanges,
+} from '@/app/lib/models/audit-log'
+
+interface FakeAuditLog {
+  id: string
+  actorId: string | null
+  actorEmail: string
+  action: string
+  entityType: string
+  entityId: string
+  changes: AuditChanges | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date
+}
+
+type Where = Record<string, unknown>
+
+const tour = {
+  id: 'tour-1',
+  destinationId: 'dest-1',
+  title: 'Cape Coast Heritage Walk',
+  pricePerPerson: 25000,
+  currency: 'USD',
+  maxGroupSize: 12,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z')
+}
+
+const state = {
+  session: null as { user: { email: string } } | null,
+  users: [] as Array<{ id: string; email: string; role: string; suspendedAt: Date | null }>,
+  tour: { ...tour },
+  logs: [] as FakeAuditLog[],
+  failWrites: false
+}
+
+// Just the filters the audit log service writes: equality, contains and a time range
+const matches = (log: FakeAuditLog, where: Where): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    const value = log[field as keyof FakeAuditLog]
+    if (typeof condition === 'string') return value === condition
+
+    const { contains, gte, lt } = condition as { contains?: string; gte?: Date; lt?: Date }
+    if (contains !== undefined) return String(value).toLowerCase().includes(contains.toLowerCase())
+    return (!gte || (value as Date) >= gte) && (!lt || (value as Date) < lt)
+  })
+
+const newestFirst = (a: FakeAuditLog, b: FakeAuditLog) => b.createdAt.getTime() - a.createdAt.getTime()
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where }: { where: { email: string } }) =>
+      state.users.find(user => user.email === where.email) ?? null
+    )
+  },
+  tour: {
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) =>
+      where.id === state.tour.id ? { ...state.tour, bookings: [] } : null
+    ),
+    update: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      state.tour = { ...state.tour, ...data, updatedAt: new Date() }
+      return { ...state.tour, destination: { id: 'dest-1', name: 'Ghana' } }
+    })
+  },
+  destination: {
+    findUnique: jest.fn(async () => ({ id: 'dest-1', name: 'Ghana' }))
+  },
+  auditLog: {
+    create: jest.fn(async ({ data }: { data: Omit<FakeAuditLog, 'id' | 'createdAt'> }) => {
+      if (state.failWrites) throw new Error('connection lost')
+      const log = {
+        id: `log-${state.logs.length + 1}`,
+        ...data,
+        changes: data.changes && typeof data.changes === 'object' ? data.changes : null,
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null,
+        createdAt: new Date()
+      }
+      state.logs.push(log)
+      return log
+    }),
+    findMany: jest.fn(async ({ where, skip = 0, take }: { where: Where; skip?: number; take: number }) =>
+      state.logs.filter(log => matches(log, where)).sort(newestFirst).slice(skip, skip + take)
+    ),
+    count: jest.fn(async ({ where }: { where: Where }) =>
+      state.logs.filter(log => matches(log, where)).length
+    )
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(async () => state.session)
+}))
+
+let AuditLogService: typeof import('../../app/lib/services/audit-log').AuditLogService
+let updateTour: typeof import('../../app/api/admin/tours/[id]/route').PUT
+let viewAuditLog: typeof import('../../app/api/admin/audit-logs/route').GET
+
+const signIn = (role: string) => {
+  state.users = [{ id: 'admin-1', email: 'ama@example.com', role, suspendedAt: null }]
+  state.session = { user: { email: 'ama@example.com' } }
+}
+
+const start = new Date('2027-03-01T00:00:00Z')
+const day = 24 * 60 * 60 * 1000
+
+const fieldsArbitrary = fc.record({
+  title: fc.constantFrom('Volta Lake Cruise', 'Kakum Canopy Walk', 'Mole Safari'),
+  pricePerPerson: fc.integer({ min: 100, max: 500000 }),
+  active: fc.boolean(),
+  startsAt: fc.date({ min: new Date('2026-01-01'), max: new Date('2028-01-01'), noInvalidDate: true }),
+  inclusions: fc.array(fc.constantFrom('Lunch', 'Guide', 'Transport'), { maxLength: 3 }),
+  notes: fc.option(fc.constantFrom('Bring water', 'Early start'), { nil: null })
+})
+
+describe('Audit Log Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ AuditLogService } = await import('../../app/lib/services/audit-log'));
+    ({ PUT: updateTour } = await import('../../app/api/admin/tours/[id]/route'));
+    ({ GET: viewAuditLog } = await import('../../app/api/admin/audit-logs/route'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.session = null
+    state.users = []
+    state.tour = { ...tour }
+    state.logs = []
+    state.failWrites = false
+  })
+
+  it('should record exactly the fields that changed, leaving out related records and secret values', () => {
+    fc.assert(
+      fc.property(fieldsArbitrary, fieldsArbitrary, fc.boolean(), (beforeFields, afterFields, passwordChanged) => {
+        const before = {
+          id: 'tour-1',
+          ...beforeFields,
+          passwordHash: 'old-hash',
+          updatedAt: start,
+          bookings: [{ id: 'booking-1', status: 'CONFIRMED' }]
+        }
+        const after = {
+          id: 'tour-1',
+          ...afterFields,
+          passwordHash: passwordChanged ? 'new-hash' : 'old-hash',
+          updatedAt: new Date(start.getTime() + day),
+          destination: { id: 'dest-1', name: 'Ghana' }
+        }
+
+        const changes = AuditRules.diff(before, after)
+
+        // Values as they are stored, with dates as ISO strings
+        const stored = (value: unknown) => JSON.parse(JSON.stringify(value))
+        const changed = (Object.keys(beforeFields) as Array<keyof typeof beforeFields>)
+          .filter(field => JSON.stringify(beforeFields[field]) !== JSON.stringify(afterFields[field]))
+
+        expect(Object.keys(changes).sort()).toEqual(
+          [...changed, ...(passwordChanged ? ['passwordHash'] : [])].sort()
+        )
+        for (const field of changed) {
+          expect(changes[field]).toEqual({ before: stored(beforeFields[field]), after: stored(afterFields[field]) })
+        }
+        if (passwordChanged) {
+          expect(changes.passwordHash).toEqual({ before: '[REDACTED]', after: '[REDACTED]' })
+        }
+
+        // Something created or deleted is recorded field by field against nothing
+        const created = AuditRules.diff(null, after)
+        const deleted = AuditRules.diff(before, undefined)
+        for (const [field, value] of Object.entries(afterFields)) {
+          expect(created[field]).toEqual(value === null ? undefined : { before: null, after: stored(value) })
+        }
+        for (const [field, value] of Object.entries(beforeFields)) {
+          expect(deleted[field]).toEqual(value === null ? undefined : { before: stored(value), after: null })
+        }
+        expect(created.id).toBeUndefined()
+        expect(created.destination).toBeUndefined()
+        expect(deleted.bookings).toBeUndefined()
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should record money columns read as bigint as whole minor units', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 15_000_000_000 }), fc.integer({ min: 0, max: 15_000_000_000 }), (before, after) => {
+        fc.pre(before !== after)
+        expect(AuditRules.diff(
+          { id: 'tour-1', pricePerPerson: BigInt(before) },
+          { id: 'tour-1', pricePerPerson: BigInt(after) }
+        )).toEqual({ pricePerPerson: { before, after } })
+      })
+    )
+  })
+
+  it('should record who changed a tour price and from where without failing the change', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 100, max: 10000000 }),
+        fc.ipV4(),
+        fc.constantFrom('Mozilla/5.0 (Macintosh)', 'Mozilla/5.0 (Windows NT 10.0)'),
+        fc.boolean(),
+        async (price, clientIp, userAgent, failWrites) => {
+          state.tour = { ...tour }
+          state.logs = []
+          state.failWrites = failWrites
+          signIn('ADMIN')
+
+          const response = await updateTour(
+            new NextRequest('http://localhost/api/admin/tours/tour-1', {
+              method: 'PUT',
+              body: JSON.stringify({ pricePerPerson: price }),
+              headers: {
+                'x-forwarded-for': `${clientIp}, 10.0.0.1`,
+                'user-agent': userAgent
+              }
+            }),
+            { params: Promise.resolve({ id: 'tour-1' }) }
+          )
+
+          // The price changed whether or not the change could be recorded
+          expect(response.status).toBe(200)
+          expect(state.tour.pricePerPerson).toBe(price)
+
+          if (failWrites) {
+            expect(state.logs).toHaveLength(0)
+            return
+          }
+
+          expect(state.logs).toHaveLength(1)
+          expect(state.logs[0]).toMatchObject({
+            actorId: 'admin-1',
+            actorEmail: 'ama@example.com',
+            action: 'tour.update',
+            entityType: 'Tour',
+            entityId: 'tour-1',
+            changes: price === tour.pricePerPerson
+              ? null
+              : { pricePerPerson: { before: tour.pricePerPerson, after: price } },
+            ipAddress: clientIp,
+            userAgent
+          })
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should list and export exactly the matching entries, newest first', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            actorEmail: fc.constantFrom('ama@example.com', 'kofi@example.com'),
+            action: fc.constantFrom('tour.update', 'booking.cancel', 'promoCode.delete'),
+            entityId: fc.constantFrom('entity-1', 'entity-2'),
+            daysAfterStart: fc.integer({ min: 0, max: 9 }),
+            note: fc.constantFrom('plain', '=SUM(A1:A2)', 'with, comma')
+          }),
+          { maxLength: 20 }
+        ),
+        fc.record({
+          actor: fc.option(fc.constantFrom('AMA', 'kofi@'), { nil: undefined }),
+          action: fc.option(fc.constantFrom('tour.update', 'booking.cancel'), { nil: undefined }),
+          from: fc.option(fc.integer({ min: 0, max: 9 }), { nil: undefined }),
+          to: fc.option(fc.integer({ min: 0, max: 9 }), { nil: undefined }),
+          limit: fc.integer({ min: 1, max: 10 })
+        }),
+        async (entries, query) => {
+          fc.pre(query.from === undefined || query.to === undefined || query.from <= query.to)
+          state.logs = entries.map((entry, index) => ({
+            id: `log-${index + 1}`,
+            actorId: null,
+            actorEmail: entry.actorEmail,
+            action: entry.action,
+            entityType: 'Tour',
+            entityId: entry.entityId,
+            changes: { notes: { before: null, after: entry.note } },
+            ipAddress: '203.0.113.7',
+            userAgent: null,
+            // Apart within a day, so the newest-first order is always clear
+            createdAt: new Date(start.getTime() + entry.daysAfterStart * day + index * 1000)
+          }))
+
+          const isoDay = (days: number) => new Date(start.getTime() + days * day).toISOString().slice(0, 10)
+          const filters = AuditLogValidator.validateFilters({
+            actor: query.actor,
+            action: query.action,
+            from: query.from === undefined ? undefined : isoDay(query.from),
+            to: query.to === undefined ? undefined : isoDay(query.to),
+            limit: String(query.limit)
+          })
+
+          // A date-only "to" takes in the whole of that day
+          const expected = state.logs
+            .filter(log =>
+              (!query.actor || log.actorEmail.toLowerCase().includes(query.actor.toLowerCase())) &&
+              (!query.action || log.action === query.action) &&
+              (query.from === undefined || log.createdAt.getTime() >= start.getTime() + query.from * day) &&
+              (query.to === undefined || log.createdAt.getTime() < start.getTime() + (query.to + 1) * day)
+            )
+            .sort(newestFirst)
+
+          const { entries: page, pagination } = await AuditLogService.list(filters)
+          expect(page.map(log => log.id)).toEqual(expected.slice(0, query.limit).map(log => log.id))
+          expect(pagination).toEqual({
+            page: 1,
+            limit: query.limit,
+            total: expected.length,
+            totalPages: Math.ceil(expected.length / query.limit)
+          })
+
+          // The export holds every match, not just the first page
+          const csv = await AuditLogService.exportCsv(filters)
+          const rows = csv.split('\r\n').filter(row => row.length > 0)
+          expect(rows[0]).toBe('Time,Actor,Action,Entity type,Entity id,Changes,IP address,User agent')
+          expect(rows.slice(1).map(row => row.slice(0, 24))).toEqual(expected.map(log => log.createdAt.toISOString()))
+          expect(csv).not.toMatch(/(^|,)=SUM/m)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should show the audit log to admins only and reject filters it cannot apply', async () => {
+    const view = (query = '') => viewAuditLog(new NextRequest(`http://localhost/api/admin/audit-logs${query}`))
+
+    signIn('STAFF')
+    expect((await view()).status).toBe(403)
+
+    signIn('ADMIN')
+    const csv = await view('?format=csv&action=tour.update')
+    expect(csv.status).toBe(200)
+    expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8')
+
+    for (const query of ['?from=someday', '?from=2027-03-05&to=2027-03-01', '?limit=500', '?format=xml']) {
+      expect((await view(query)).status).toBe(400)
+    }
+    expect(() => AuditLogValidator.validateFilters({ page: '0' })).toThrow(AuditLogValidationError)
+  })
+})
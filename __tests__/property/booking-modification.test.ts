@@ -0,0 +1,323 @@
+/**
+ * **Feature: travel-tour-booking, Property 48: Changing a booking moves its seats and settles the price difference**
+ *
+ * Property-based tests for booking changes.
+ * For any change of departure or travelers, the booking's seats move between departures
+ * without any being lost or oversold, the new price is settled against what was paid, and
+ * no change is allowed inside the tour's cutoff.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus, PromoCode } from '@prisma/client'
+import {
+  BookingModificationRules,
+  BookingModificationValidationError,
+  DEFAULT_MODIFICATION_CUTOFF_DAYS,
+  Money,
+} from '@/app/lib/models'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PRICE = 10000 // Minor units per person
+
+interface FakeDeparture {
+  id: string
+  tourId: string
+  startDate: Date
+  endDate: Date
+  availableSlots: number
+  cancelledAt: Date | null
+}
+
+interface FakeBooking {
+  id: string
+  tourId: string
+  availabilityId: string
+  status: BookingStatus
+  holdExpiresAt: Date | null
+  updatedAt: Date
+  travelersCount: number
+  childrenCount: number
+  seniorsCount: number
+  totalPrice: number
+  discountAmount: number
+  currency: string
+  baseCurrency: string
+  exchangeRate: number
+}
+
+const departure = (id: string, daysAway: number, availableSlots: number): FakeDeparture => ({
+  id,
+  tourId: 'tour-1',
+  startDate: new Date(Date.now() + daysAway * DAY_MS),
+  endDate: new Date(Date.now() + (daysAway + 5) * DAY_MS),
+  availableSlots,
+  cancelledAt: null
+})
+
+const state = {
+  departures: new Map<string, FakeDeparture>(),
+  booking: null as FakeBooking | null,
+  paid: 0,
+  staleWrite: false
+}
+
+const mockPrisma = {
+  booking: {
+    findUnique: jest.fn(async () => state.booking && {
+      ...state.booking,
+      availability: { ...state.departures.get(state.booking.availabilityId)! },
+      tour: { id: 'tour-1', pricePerPerson: PRICE, currency: 'USD', modificationCutoffDays: null },
+      promoCode: null,
+      payments: state.paid > 0 ? [{ id: 'payment-1', amount: state.paid, status: 'SUCCESS', refunds: [] }] : [],
+      _count: { travelers: 0 }
+    }),
+    updateMany: jest.fn(async ({ data }: { data: Partial<FakeBooking> }) => {
+      if (state.staleWrite || !state.booking) return { count: 0 }
+      Object.assign(state.booking, data)
+      return { count: 1 }
+    })
+  },
+  tourAvailability: {
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const found = state.departures.get(where.id)
+      return found ? { ...found } : null
+    }),
+    updateMany: jest.fn(async ({ where, data }: {
+      where: { id: string; availableSlots: { gte: number } }
+      data: { availableSlots: { decrement: number } }
+    }) => {
+      const found = state.departures.get(where.id)
+      if (!found || found.availableSlots < where.availableSlots.gte) return { count: 0 }
+      found.availableSlots -= data.availableSlots.decrement
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: { availableSlots: { increment: number } } }) => {
+      state.departures.get(where.id)!.availableSlots += data.availableSlots.increment
+      return {}
+    })
+  },
+  pricingRule: {
+    findMany: jest.fn(async () => [])
+  },
+  payment: {
+    findMany: jest.fn(async () => [{ id: 'payment-1', amount: state.paid, status: 'SUCCESS', refunds: [] }])
+  },
+  bookingEvent: {
+    create: jest.fn(async () => ({}))
+  },
+  waitlistEntry: {
+    findMany: jest.fn(async () => [])
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
+    // Roll back the fake departures if the transaction fails
+    const snapshot = [...state.departures.values()].map(found => ({ ...found }))
+    const booking = state.booking && { ...state.booking }
+    try {
+      return await fn(mockPrisma)
+    } catch (error) {
+      snapshot.forEach(found => state.departures.set(found.id, found))
+      state.booking = booking
+      throw error
+    }
+  })
+}
+
+const refundPayment = jest.fn(async (...args: [string, number, string, { actorId?: string }]) => ({ amount: args[1] }))
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/payment', () => ({
+  PaymentService: { refundPayment }
+}))
+
+let BookingModificationService: typeof import('../../app/lib/services/booking-modification').BookingModificationService
+
+const reset = (status: BookingStatus, travelersCount: number, paid: number, slots: [number, number]) => {
+  state.departures = new Map([
+    ['avail-1', departure('avail-1', 60, slots[0])],
+    ['avail-2', departure('avail-2', 90, slots[1])]
+  ])
+  state.booking = {
+    id: 'booking-1',
+    tourId: 'tour-1',
+    availabilityId: 'avail-1',
+    status,
+    holdExpiresAt: status === 'PENDING' ? new Date(Date.now() + 10 * 60 * 1000) : null,
+    updatedAt: new Date(),
+    travelersCount,
+    childrenCount: 0,
+    seniorsCount: 0,
+    totalPrice: travelersCount * PRICE,
+    discountAmount: 0,
+    currency: 'USD',
+    baseCurrency: 'USD',
+    exchangeRate: 1
+  }
+  state.paid = paid
+  state.staleWrite = false
+  refundPayment.mockClear()
+}
+
+const seatsOf = (id: string) => state.departures.get(id)!.availableSlots
+
+const promo = (overrides: Partial<PromoCode>): PromoCode => ({
+  discountType: 'PERCENTAGE',
+  discountValue: 10,
+  currency: null,
+  minTravelers: 1,
+  ...overrides
+} as PromoCode)
+
+describe('Booking Modification Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ BookingModificationService } = await import('../../app/lib/services/booking-modification'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should settle a paid booking against what was paid and an unpaid one not at all', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1_000_000 }),
+        fc.integer({ min: 0, max: 1_000_000 }),
+        fc.constantFrom<BookingStatus>('PENDING', 'CONFIRMED'),
+        (newTotal, paid, status) => {
+          const { balance, settlement } = BookingModificationRules.settlement(newTotal, paid, status)
+
+          if (status !== 'CONFIRMED') {
+            expect(settlement).toBe('NONE')
+            expect(balance).toBe(0)
+            return
+          }
+
+          expect(balance).toBe(newTotal - paid)
+          expect(settlement).toBe(balance > 0 ? 'PAYMENT_DUE' : balance < 0 ? 'REFUND_DUE' : 'NONE')
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should keep the promo code for the changed booking while the group still qualifies', () => {
+    const previous = Money.of(3000, 'USD')
+
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100_000 }), fc.integer({ min: 1, max: 10 }), (subtotalAmount, travelers) => {
+        const subtotal = Money.of(subtotalAmount, 'USD')
+        const percentage = BookingModificationRules.discount(promo({ minTravelers: 3 }), previous, subtotal, travelers)
+        const fixed = BookingModificationRules.discount(promo({ discountType: 'FIXED_AMOUNT', discountValue: BigInt(3000), currency: 'USD' }), previous, subtotal, travelers)
+
+        expect(percentage.amount).toBe(travelers < 3 ? 0 : subtotal.percent(10).amount)
+        expect(fixed.amount).toBe(Math.min(3000, subtotalAmount))
+      }),
+      { numRuns: 200 }
+    )
+
+    expect(BookingModificationRules.discount(null, previous, Money.of(5000, 'USD'), 2).amount).toBe(0)
+  })
+
+  it('should refuse changes inside the cutoff and to bookings that are no longer going ahead', () => {
+    const now = new Date('2027-03-01T00:00:00Z')
+    const hold = { status: 'CONFIRMED' as BookingStatus, holdExpiresAt: null }
+    const startIn = (days: number) => new Date(now.getTime() + days * DAY_MS)
+
+    expect(BookingModificationRules.cutoffDays({ modificationCutoffDays: null })).toBe(DEFAULT_MODIFICATION_CUTOFF_DAYS)
+    expect(BookingModificationRules.cutoffDays({ modificationCutoffDays: 0 })).toBe(0)
+
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 60 }), fc.integer({ min: -5, max: 90 }), (cutoff, daysAway) => {
+        const attempt = () => BookingModificationRules.assertModifiable(hold, startIn(daysAway), cutoff, now)
+
+        if (daysAway >= cutoff) {
+          expect(attempt).not.toThrow()
+        } else {
+          expect(attempt).toThrow(BookingModificationValidationError)
+        }
+      }),
+      { numRuns: 200 }
+    )
+
+    expect(() => BookingModificationRules.assertModifiable({ status: 'CANCELLED', holdExpiresAt: null }, startIn(60), 7, now))
+      .toThrow('cancelled booking cannot be changed')
+    expect(() => BookingModificationRules.assertModifiable({ status: 'PENDING', holdExpiresAt: startIn(-1) }, startIn(60), 7, now))
+      .toThrow('seat hold on this booking has expired')
+  })
+
+  it('should move seats between departures without losing or overselling any', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 8 }),
+        fc.integer({ min: 0, max: 8 }),
+        fc.integer({ min: 0, max: 8 }),
+        fc.boolean(),
+        async (booked, wanted, freeHere, freeThere, move) => {
+          reset('PENDING', booked, 0, [freeHere, freeThere])
+          const target = move ? 'avail-2' : 'avail-1'
+          const seatsBefore = seatsOf('avail-1') + seatsOf('avail-2') + booked
+
+          let changed = true
+          try {
+            await BookingModificationService.modifyBooking('booking-1', { availabilityId: target, travelersCount: wanted })
+          } catch (error) {
+            changed = false
+            expect(error).toBeInstanceOf(Error)
+          }
+
+          const unchanged = !move && wanted === booked
+          const fits = move ? freeThere >= wanted : freeHere + booked >= wanted
+          expect(changed).toBe(!unchanged && fits)
+
+          const held = state.booking!.travelersCount
+          expect(seatsOf('avail-1') + seatsOf('avail-2') + held).toBe(seatsBefore)
+          expect(seatsOf('avail-1')).toBeGreaterThanOrEqual(0)
+          expect(seatsOf('avail-2')).toBeGreaterThanOrEqual(0)
+
+          if (changed) {
+            expect(state.booking).toMatchObject({ availabilityId: target, travelersCount: wanted, totalPrice: wanted * PRICE })
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should refund the difference when a paid booking gets cheaper and leave a balance when it costs more', async () => {
+    reset('CONFIRMED', 3, 3 * PRICE, [5, 5])
+    const cheaper = await BookingModificationService.modifyBooking('booking-1', { travelersCount: 2 })
+
+    expect(cheaper.quote).toMatchObject({ settlement: 'REFUND_DUE', balance: -PRICE, priceDifference: -PRICE })
+    expect(cheaper.refundedAmount).toBe(PRICE)
+    expect(refundPayment).toHaveBeenCalledWith('payment-1', PRICE, 'Price difference after booking change', { actorId: undefined })
+    expect(seatsOf('avail-1')).toBe(6)
+
+    reset('CONFIRMED', 2, 2 * PRICE, [5, 5])
+    const dearer = await BookingModificationService.modifyBooking('booking-1', { availabilityId: 'avail-2', travelersCount: 4 })
+
+    expect(dearer.quote).toMatchObject({ settlement: 'PAYMENT_DUE', balance: 2 * PRICE })
+    expect(dearer.refundedAmount).toBe(0)
+    expect(refundPayment).not.toHaveBeenCalled()
+    expect([seatsOf('avail-1'), seatsOf('avail-2')]).toEqual([7, 1])
+  })
+
+  it('should not overwrite a booking that changed while the change was being made', async () => {
+    reset('CONFIRMED', 2, 2 * PRICE, [5, 5])
+    state.staleWrite = true
+
+    await expect(BookingModificationService.modifyBooking('booking-1', { availabilityId: 'avail-2' }))
+      .rejects.toThrow('modified concurrently')
+    expect([seatsOf('avail-1'), seatsOf('avail-2')]).toEqual([5, 5])
+
+    state.staleWrite = false
+    await expect(BookingModificationService.modifyBooking('booking-1', { travelersCount: 2 }))
+      .rejects.toThrow('leaves the booking as it is')
+    await expect(BookingModificationService.modifyBooking('booking-1', { availabilityId: 'avail-9' }))
+      .rejects.toThrow('Tour availability not found')
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * **Feature: travel-tour-booking, Property 38: Booking state transitions keep seats consistent**
+ *
+ * Property-based tests for the booking state machine.
+ * For any sequence of requested status changes, only allowed transitions apply and
+ * the seats taken by a booking always match the state it ends up in.
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus } from '@prisma/client'
+import { BOOKED_STATUSES, BookingStateMachine, BookingTransitionError } from '@/app/lib/models'
+
+const statuses = Object.values(BookingStatus)
+const statusArb = fc.constantFrom(...statuses)
+
+describe('Booking State Machine Properties', () => {
+  it('should keep seats in step with the status for any sequence of transitions', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(statusArb, { maxLength: 12 }),
+        (travelersCount, requested) => {
+          // A new booking starts pending and holds its seats
+          let booking = { status: BookingStatus.PENDING as BookingStatus, holdExpiresAt: new Date() as Date | null, travelersCount }
+          let seatsTaken = travelersCount
+
+          for (const to of requested) {
+            if (!BookingStateMachine.canTransition(booking.status, to)) {
+              expect(() => BookingStateMachine.assertTransition(booking.status, to)).toThrow(BookingTransitionError)
+              continue
+            }
+
+            seatsTaken += BookingStateMachine.seatDelta(booking, to)
+            booking = { ...booking, status: to, holdExpiresAt: null }
+
+            expect(seatsTaken).toBe(BookingStateMachine.takesSeats(booking) ? travelersCount : 0)
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should not allow any transition out of a final status', () => {
+    for (const final of [BookingStatus.COMPLETED, BookingStatus.NO_SHOW, BookingStatus.REFUNDED]) {
+      expect(BookingStateMachine.allowedTransitions(final)).toEqual([])
+      for (const to of statuses) {
+        expect(BookingStateMachine.canTransition(final, to)).toBe(false)
+      }
+    }
+  })
+
+  it('should never allow a booking to move back to pending', () => {
+    fc.assert(
+      fc.property(statusArb, (from) => {
+        expect(BookingStateMachine.canTransition(from, BookingStatus.PENDING)).toBe(false)
+      })
+    )
+  })
+
+  it('should only take seats for an expired booking when it is confirmed late', () => {
+    const expired = { status: BookingStatus.EXPIRED, holdExpiresAt: null, travelersCount: 3 }
+
+    expect(BookingStateMachine.seatDelta(expired, BookingStatus.CONFIRMED)).toBe(3)
+    expect(BookingStateMachine.seatDelta(expired, BookingStatus.CANCELLED)).toBe(0)
+  })
+
+  it('should keep counting a confirmed booking as booked once its departure has run', () => {
+    expect(BOOKED_STATUSES).toContain(BookingStatus.CONFIRMED)
+    for (const to of BookingStateMachine.allowedTransitions(BookingStatus.CONFIRMED)) {
+      expect(BOOKED_STATUSES.includes(to)).toBe(to !== BookingStatus.CANCELLED && to !== BookingStatus.REFUNDED)
+    }
+  })
+
+  it('should recognise status strings', () => {
+    fc.assert(
+      fc.property(fc.string(), (value) => {
+        expect(BookingStateMachine.isStatus(value)).toBe((statuses as string[]).includes(value))
+      })
+    )
+  })
+})
@@ -8,7 +8,7 @@
 
 import { describe, it, expect } from '@jest/globals'
 import * as fc from 'fast-check'
-import { BusinessRuleValidator, BusinessRuleError, ItineraryDay } from '@/app/lib/models'
+import { BusinessRuleValidator, BusinessRuleError, ItineraryDay, MONEY_LIMITS } from '@/app/lib/models'
 import { UserRole } from '@prisma/client'
 
 // Mock types for testing
@@ -19,6 +19,11 @@ interface MockUser {
   passwordHash: string
   role: UserRole
   phone: string | null
+  sessionVersion: number
+  suspendedAt: Date | null
+  suspensionReason: string | null
+  invitedAt: Date | null
+  deletedAt: Date | null
   createdAt: Date
   updatedAt: Date
 }
@@ -59,6 +64,11 @@ function createMockUser(role: UserRole): MockUser {
     passwordHash: 'hashed-password',
     role,
     phone: null,
+    sessionVersion: 0,
+    suspendedAt: null,
+    suspensionReason: null,
+    invitedAt: null,
+    deletedAt: null,
     createdAt: new Date(),
     updatedAt: new Date()
   }
@@ -154,16 +164,21 @@ describe('Business Rule Enforcement Properties', () => {
     await fc.assert(
       fc.property(
         fc.record({
-          pricePerPerson: fc.float({ min: -1000, max: 200000, noNaN: true }),
+          // Prices are in minor units; fractional ones are never valid
+          pricePerPerson: fc.oneof(
+            fc.integer({ min: -100000, max: 20000000 }),
+            fc.double({ min: -1000, max: 200000, noNaN: true })
+          ),
           maxGroupSize: fc.integer({ min: -10, max: 200 })
         }),
         (data) => {
           // Property: Valid pricing should pass validation
-          if (data.pricePerPerson >= 1 && 
-              data.pricePerPerson <= 100000 && 
+          if (Number.isInteger(data.pricePerPerson) &&
+              data.pricePerPerson >= 100 && 
+              data.pricePerPerson <= 10000000 && 
               data.maxGroupSize >= 1 && 
               data.maxGroupSize <= 100 &&
-              (data.pricePerPerson * data.maxGroupSize) <= 1000000) {
+              (data.pricePerPerson * data.maxGroupSize) <= 100000000) {
             expect(() => BusinessRuleValidator.validatePricing(data.pricePerPerson, data.maxGroupSize))
               .not.toThrow()
           } else {
@@ -181,7 +196,11 @@ describe('Business Rule Enforcement Properties', () => {
     await fc.assert(
       fc.property(
         fc.record({
-          amount: fc.float({ min: -100, max: 2000000, noNaN: true }),
+          amount: fc.oneof(
+            fc.integer({ min: -10000, max: 200000000 }),
+            fc.integer({ min: 1, max: 200_000_000_000 }),
+            fc.double({ min: -100, max: 2000000, noNaN: true })
+          ),
           currency: fc.constantFrom('USD', 'EUR', 'GBP', 'NGN', 'GHS', 'KES', 'JPY', 'INVALID'),
           method: fc.constantFrom('CARD', 'MOBILE_MONEY', 'BANK', 'CRYPTO'),
           provider: fc.constantFrom('STRIPE', 'PAYSTACK', 'FLUTTERWAVE', 'UNKNOWN')
@@ -195,9 +214,11 @@ describe('Business Rule Enforcement Properties', () => {
           }
 
           // Property: Valid payment should pass validation
-          if (data.amount > 0 && 
-              data.amount <= 1000000 &&
+          // Limits are per currency: a kobo is worth far less than a cent
+          if (Number.isInteger(data.amount) &&
+              data.amount > 0 && 
               supportedCurrencies.includes(data.currency) &&
+              data.amount <= MONEY_LIMITS[data.currency].payment &&
               validCombinations[data.provider as keyof typeof validCombinations] &&
               validCombinations[data.provider as keyof typeof validCombinations].includes(data.method)) {
             expect(() => BusinessRuleValidator.validatePayment(
@@ -215,6 +236,20 @@ describe('Business Rule Enforcement Properties', () => {
     )
   })
 
+  it('should let a booking worth the same be paid in any supported currency', () => {
+    // About $15,000 in each currency, in minor units
+    const amounts = { USD: 1_500_000, EUR: 1_400_000, GBP: 1_200_000, GHS: 22_500_000, KES: 225_000_000, NGN: 2_250_000_000 }
+
+    for (const [currency, amount] of Object.entries(amounts)) {
+      expect(() => BusinessRuleValidator.validatePayment(amount, currency, 'CARD', 'PAYSTACK')).not.toThrow()
+      expect(() => BusinessRuleValidator.validatePricing(Math.round(amount / 10), 10, currency)).not.toThrow()
+    }
+
+    expect(() => BusinessRuleValidator.validatePayment(2_250_000_000, 'USD', 'CARD', 'PAYSTACK'))
+      .toThrow('Payment amount cannot exceed $1,000,000.00')
+    expect(() => BusinessRuleValidator.validatePricing(100_000, 10, 'XYZ')).toThrow('Unsupported currency: XYZ')
+  })
+
   it('should enforce content management business rules', async () => {
     await fc.assert(
       fc.property(
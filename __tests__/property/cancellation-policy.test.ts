@@ -0,0 +1,106 @@
+/**
+ * **Feature: travel-tour-booking, Property 39: Cancellation refunds follow the tour policy**
+ *
+ * Property-based tests for cancellation policies.
+ * For any valid policy and cancellation date, the refund is the matching tier's share of
+ * what was paid, and cancelling earlier never refunds less than cancelling later.
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  CancellationPolicy,
+  CancellationPolicyValidator,
+  CancellationPolicyValidationError,
+  CancellationTier,
+  DEFAULT_CANCELLATION_TIERS,
+} from '@/app/lib/models'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Valid policies: distinct day thresholds whose refunds never increase closer to departure
+const policyArb = fc
+  .uniqueArray(fc.integer({ min: 0, max: 120 }), { minLength: 1, maxLength: 5 })
+  .chain(days => fc.array(fc.integer({ min: 0, max: 100 }), { minLength: days.length, maxLength: days.length })
+    .map(percents => {
+      const sortedDays = [...days].sort((a, b) => b - a)
+      const sortedPercents = [...percents].sort((a, b) => b - a)
+      return sortedDays.map((minDaysBefore, i) => ({ minDaysBefore, refundPercent: sortedPercents[i] }))
+    }))
+
+// Amounts are in minor units
+const paidArb = fc.integer({ min: 0, max: 1_000_000 })
+
+describe('Cancellation Policy Properties', () => {
+  it('should refund the default tiers at 100%, 50% and 0%', () => {
+    const start = new Date('2026-12-01T00:00:00Z')
+    const quoteAt = (daysBefore: number) =>
+      CancellationPolicy.quote(DEFAULT_CANCELLATION_TIERS, 20000, start, new Date(start.getTime() - daysBefore * DAY_MS))
+
+    expect(quoteAt(45).refundAmount).toBe(20000)
+    expect(quoteAt(31).refundPercent).toBe(100)
+    expect(quoteAt(30).refundPercent).toBe(50)
+    expect(quoteAt(7).refundAmount).toBe(10000)
+    expect(quoteAt(6).refundAmount).toBe(0)
+    expect(quoteAt(-1).refundAmount).toBe(0)
+  })
+
+  it('should accept generated policies and never refund more than was paid', () => {
+    fc.assert(
+      fc.property(policyArb, paidArb, fc.integer({ min: -10, max: 200 }), (tiers, paid, daysBefore) => {
+        expect(() => CancellationPolicyValidator.validateTiers(tiers)).not.toThrow()
+
+        const start = new Date('2027-01-01T00:00:00Z')
+        const quote = CancellationPolicy.quote(tiers, paid, start, new Date(start.getTime() - daysBefore * DAY_MS))
+
+        expect(quote.daysBeforeStart).toBe(daysBefore)
+        expect(quote.refundAmount).toBeGreaterThanOrEqual(0)
+        expect(quote.refundAmount).toBeLessThanOrEqual(paid)
+        expect(Number.isInteger(quote.refundAmount)).toBe(true)
+        expect(Math.abs(quote.refundAmount - paid * quote.refundPercent / 100)).toBeLessThanOrEqual(0.5)
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should never refund less for cancelling earlier', () => {
+    fc.assert(
+      fc.property(policyArb, fc.integer({ min: -10, max: 200 }), fc.integer({ min: -10, max: 200 }), (tiers, a, b) => {
+        const earlier = Math.max(a, b)
+        const later = Math.min(a, b)
+
+        expect(CancellationPolicy.refundPercent(tiers, earlier))
+          .toBeGreaterThanOrEqual(CancellationPolicy.refundPercent(tiers, later))
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should reject policies that refund more closer to departure', () => {
+    const tiers: CancellationTier[] = [
+      { minDaysBefore: 30, refundPercent: 50 },
+      { minDaysBefore: 7, refundPercent: 80 }
+    ]
+
+    expect(() => CancellationPolicyValidator.validateTiers(tiers)).toThrow(CancellationPolicyValidationError)
+    expect(() => CancellationPolicyValidator.validateTiers([])).toThrow(CancellationPolicyValidationError)
+    expect(() => CancellationPolicyValidator.validateTiers([{ minDaysBefore: 1, refundPercent: 120 }]))
+      .toThrow(CancellationPolicyValidationError)
+  })
+
+  it('should require a reason and a refund within the paid amount to override', () => {
+    fc.assert(
+      fc.property(paidArb, fc.oneof(fc.integer({ min: 0, max: 2_000_000 }), fc.double({ min: 0, max: 20_000, noNaN: true })), (paid, refund) => {
+        const attempt = () => CancellationPolicyValidator.validateOverride(refund, paid, 'Goodwill gesture')
+
+        if (Number.isInteger(refund) && refund <= paid) {
+          expect(attempt).not.toThrow()
+        } else {
+          expect(attempt).toThrow(CancellationPolicyValidationError)
+        }
+        expect(() => CancellationPolicyValidator.validateOverride(0, paid, '  ')).toThrow(CancellationPolicyValidationError)
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
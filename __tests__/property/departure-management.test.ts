@@ -0,0 +1,250 @@
+/**
+ * **Feature: travel-tour-booking, Property 61: Editing a departure never oversells it**
+ *
+ * Property-based tests for departure management.
+ * For any capacity change racing a booking that reserves seats, the departure ends up
+ * with exactly the capacity one of them intended: seats taken by the booking are never
+ * handed out again. Cancelling a departure cancels every active booking through the
+ * booking state machine, or nothing at all.
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus } from '@prisma/client'
+
+interface FakeBooking {
+  id: string
+  status: BookingStatus
+  holdExpiresAt: Date | null
+  travelersCount: number
+  paid: number
+  refundAmount: number | null
+}
+
+type Race = 'none' | 'beforeRead' | 'beforeCount' | 'beforeWrite'
+
+const state = {
+  availableSlots: 0,
+  takenSlots: 0, // Seats held by bookings and waitlist offers
+  race: 'none' as Race,
+  racingSeats: 0,
+  cancelledAt: null as Date | null,
+  deleted: false,
+  bookings: new Map<string, FakeBooking>(),
+  events: [] as { bookingId: string; fromStatus: BookingStatus; toStatus: BookingStatus }[],
+  notifications: [] as { kind: string; bookingId: string }[]
+}
+
+// Another request reserving seats the way reserveSlots does
+const reserveConcurrently = (when: Race) => {
+  if (state.race !== when || state.availableSlots < state.racingSeats) return
+  state.availableSlots -= state.racingSeats
+  state.takenSlots += state.racingSeats
+}
+
+const departure = () => ({
+  id: 'avail-1',
+  tourId: 'tour-1',
+  startDate: new Date('2099-01-01T00:00:00Z'),
+  endDate: new Date('2099-01-05T00:00:00Z'),
+  availableSlots: state.availableSlots,
+  scheduleId: null,
+  cancelledAt: state.cancelledAt
+})
+
+const bookingRow = (booking: FakeBooking) => ({
+  ...booking,
+  availabilityId: 'avail-1',
+  payments: booking.paid > 0 ? [{ amount: booking.paid, refunds: [] }] : []
+})
+
+// In-memory Prisma double whose updateMany honours the conditional where clause
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => {
+      reserveConcurrently('beforeRead')
+      return departure()
+    }),
+    findUniqueOrThrow: jest.fn(async () => departure()),
+    updateMany: jest.fn(async ({ where, data }: { where: { availableSlots?: number }; data: { availableSlots?: number } }) => {
+      reserveConcurrently('beforeWrite')
+      if (where.availableSlots !== undefined && where.availableSlots !== state.availableSlots) return { count: 0 }
+      state.availableSlots = data.availableSlots ?? state.availableSlots
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ data }: { data: { availableSlots?: number | { increment: number }; cancelledAt?: Date } }) => {
+      if (typeof data.availableSlots === 'number') state.availableSlots = data.availableSlots
+      else if (data.availableSlots) state.availableSlots += data.availableSlots.increment
+      state.cancelledAt = data.cancelledAt ?? state.cancelledAt
+      return departure()
+    }),
+    delete: jest.fn(async () => {
+      state.deleted = true
+      return departure()
+    })
+  },
+  booking: {
+    aggregate: jest.fn(async () => {
+      reserveConcurrently('beforeCount')
+      return { _sum: { travelersCount: state.takenSlots } }
+    }),
+    findMany: jest.fn(async () => [...state.bookings.values()].map(bookingRow)),
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const booking = state.bookings.get(where.id)
+      return booking ? bookingRow(booking) : null
+    }),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => bookingRow(state.bookings.get(where.id)!)),
+    updateMany: jest.fn(async ({ where, data }: { where: { id: string; status: BookingStatus }; data: Partial<FakeBooking> }) => {
+      const booking = state.bookings.get(where.id)
+      if (!booking || booking.status !== where.status) return { count: 0 }
+      Object.assign(booking, data)
+      return { count: 1 }
+    })
+  },
+  bookingEvent: {
+    create: jest.fn(async ({ data }: { data: { bookingId: string; fromStatus: BookingStatus; toStatus: BookingStatus } }) => {
+      state.events.push(data)
+      return data
+    })
+  },
+  waitlistEntry: {
+    aggregate: jest.fn(async () => ({ _sum: { travelersCount: 0 } })),
+    updateMany: jest.fn(async () => ({ count: 0 }))
+  },
+  // Rolls the fake tables back when the callback throws, like a failed transaction. Seats a
+  // concurrent booking reserved meanwhile were committed by its own transaction and stay taken.
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
+    const saved = structuredClone(state)
+    try {
+      return await fn(mockPrisma)
+    } catch (error) {
+      const raced = state.takenSlots - saved.takenSlots
+      Object.assign(state, saved, { availableSlots: saved.availableSlots - raced, takenSlots: saved.takenSlots + raced })
+      throw error
+    }
+  })
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: {
+    enqueue: jest.fn(async (data: { kind: string; bookingId: string }) => {
+      state.notifications.push({ kind: data.kind, bookingId: data.bookingId })
+    }),
+    deliverQueuedQuietly: jest.fn()
+  }
+}))
+
+let AvailabilityService: typeof import('../../app/lib/services/availability').AvailabilityService
+let DepartureHasBookingsError: typeof import('../../app/lib/services/availability').DepartureHasBookingsError
+
+describe('Departure Management Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ AvailabilityService, DepartureHasBookingsError } = await import('../../app/lib/services/availability'))
+  })
+
+  it('should never hand out seats a concurrent booking reserved while the capacity changed', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 20 }),
+        fc.integer({ min: 0, max: 20 }),
+        fc.integer({ min: 0, max: 40 }),
+        fc.constantFrom<Race>('none', 'beforeRead', 'beforeCount', 'beforeWrite'),
+        fc.integer({ min: 1, max: 6 }),
+        async (availableSlots, takenSlots, capacity, race, racingSeats) => {
+          Object.assign(state, { availableSlots, takenSlots, race, racingSeats })
+          const originalCapacity = availableSlots + takenSlots
+
+          const outcome = await AvailabilityService.updateDeparture('tour-1', 'avail-1', { capacity })
+            .then(() => 'updated', (error: Error) => error.message)
+
+          expect(state.availableSlots).toBeGreaterThanOrEqual(0)
+          if (outcome === 'updated') {
+            expect(state.availableSlots + state.takenSlots).toBe(capacity)
+          } else {
+            expect(state.availableSlots + state.takenSlots).toBe(originalCapacity)
+            expect(outcome).toMatch(/^(Departure was modified concurrently, please retry|Capacity cannot be lower than)/)
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should apply a capacity change when nothing races it', async () => {
+    Object.assign(state, { availableSlots: 4, takenSlots: 6, race: 'none', racingSeats: 0 })
+
+    const updated = await AvailabilityService.updateDeparture('tour-1', 'avail-1', { capacity: 15 })
+
+    expect(updated.availableSlots).toBe(9)
+    await expect(AvailabilityService.updateDeparture('tour-1', 'avail-1', { capacity: 5 }))
+      .rejects.toThrow('Capacity cannot be lower than the 6 seats taken by bookings, holds and waitlist offers')
+  })
+
+  it('should cancel every active booking through the state machine, or none when not asked to', async () => {
+    const statuses: BookingStatus[] = ['PENDING', 'CONFIRMED', 'CANCELLED', 'EXPIRED', 'COMPLETED']
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            status: fc.constantFrom(...statuses),
+            held: fc.boolean(),
+            travelersCount: fc.integer({ min: 1, max: 4 }),
+            paid: fc.integer({ min: 0, max: 100000 })
+          }),
+          { minLength: 1, maxLength: 6 }
+        ),
+        fc.boolean(),
+        async (bookings, cancelBookings) => {
+          Object.assign(state, { availableSlots: 10, race: 'none', cancelledAt: null, deleted: false, events: [], notifications: [] })
+          state.bookings = new Map(bookings.map((booking, index) => [`booking-${index}`, {
+            id: `booking-${index}`,
+            status: booking.status,
+            holdExpiresAt: booking.status === 'PENDING' && booking.held ? new Date('2099-01-01T00:00:00Z') : null,
+            travelersCount: booking.travelersCount,
+            paid: booking.paid,
+            refundAmount: null
+          }]))
+          const before = structuredClone(state.bookings)
+          const active = [...before.values()].filter(booking => booking.status === 'PENDING' || booking.status === 'CONFIRMED')
+
+          const outcome = await AvailabilityService.deleteDeparture('tour-1', 'avail-1', { cancelBookings, actorId: 'admin-1' })
+            .catch((error: Error) => error)
+
+          if (active.length > 0 && !cancelBookings) {
+            expect(outcome).toBeInstanceOf(DepartureHasBookingsError)
+            expect(state.bookings).toEqual(before)
+            expect(state.availableSlots).toBe(10)
+            expect(state.cancelledAt).toBeNull()
+            return
+          }
+
+          expect(outcome).toEqual({ deleted: false, cancelledBookings: active.length })
+          expect(state.cancelledAt).not.toBeNull()
+          expect(state.availableSlots).toBe(0)
+          expect(state.events).toEqual(active.map(booking => expect.objectContaining({
+            bookingId: booking.id,
+            fromStatus: booking.status,
+            toStatus: 'CANCELLED'
+          })))
+          expect(state.notifications).toEqual(active.map(booking => ({ kind: 'BOOKING_CANCELLATION', bookingId: booking.id })))
+
+          for (const booking of before.values()) {
+            const after = state.bookings.get(booking.id)!
+            if (active.includes(booking)) {
+              expect(after).toMatchObject({ status: 'CANCELLED', holdExpiresAt: null, refundAmount: booking.paid })
+            } else {
+              expect(after).toEqual(booking)
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * **Feature: travel-tour-booking, Property 36: Recurring departure generation**
+ *
+ * Property-based tests for recurring departure schedules.
+ * For any weekly or monthly rule, expanded departures fall on the requested days,
+ * stay inside the horizon and skip blackout dates.
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  ScheduleRecurrence,
+  DepartureScheduleValidator,
+  DepartureScheduleValidationError,
+  RecurrenceRule,
+} from '@/app/lib/models'
+import { ScheduleFrequency } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BASE = Date.UTC(2026, 0, 1)
+
+const dayArb = fc.integer({ min: 0, max: 365 }).map(offset => new Date(BASE + offset * DAY_MS))
+
+describe('Departure Schedule Properties', () => {
+  it('should only generate weekly departures on the selected weekdays within the horizon', () => {
+    fc.assert(
+      fc.property(
+        dayArb,
+        fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+        fc.integer({ min: 1, max: 4 }),
+        fc.integer({ min: 1, max: 180 }),
+        (startDate, byWeekday, interval, horizonDays) => {
+          const rule: RecurrenceRule = {
+            frequency: ScheduleFrequency.WEEKLY,
+            interval,
+            byWeekday,
+            byMonthDay: [],
+            startDate,
+            until: null,
+            blackoutDates: []
+          }
+          const to = new Date(startDate.getTime() + horizonDays * DAY_MS)
+          const dates = ScheduleRecurrence.expand(rule, startDate, to)
+
+          for (const date of dates) {
+            expect(byWeekday).toContain(date.getUTCDay())
+            expect(date.getTime()).toBeGreaterThanOrEqual(startDate.getTime())
+            expect(date.getTime()).toBeLessThanOrEqual(to.getTime())
+          }
+
+          // A full week of a weekly rule contains every selected weekday
+          if (interval === 1 && horizonDays >= 7) {
+            expect(dates.length).toBeGreaterThanOrEqual(byWeekday.length)
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should generate the 1st and 15th of each month for a monthly rule', () => {
+    const rule: RecurrenceRule = {
+      frequency: ScheduleFrequency.MONTHLY,
+      interval: 1,
+      byWeekday: [],
+      byMonthDay: [1, 15],
+      startDate: new Date(Date.UTC(2026, 2, 1)),
+      until: null,
+      blackoutDates: []
+    }
+
+    const dates = ScheduleRecurrence.expand(rule, rule.startDate, new Date(Date.UTC(2026, 4, 31)))
+
+    expect(dates.map(date => date.toISOString().slice(0, 10))).toEqual([
+      '2026-03-01', '2026-03-15',
+      '2026-04-01', '2026-04-15',
+      '2026-05-01', '2026-05-15'
+    ])
+  })
+
+  it('should skip blackout dates and stop at the until date', () => {
+    fc.assert(
+      fc.property(
+        dayArb,
+        fc.array(fc.integer({ min: 0, max: 60 }), { maxLength: 10 }),
+        fc.integer({ min: 1, max: 60 }),
+        (startDate, blackoutOffsets, untilOffset) => {
+          const blackoutDates = blackoutOffsets.map(offset => new Date(startDate.getTime() + offset * DAY_MS))
+          const until = new Date(startDate.getTime() + untilOffset * DAY_MS)
+          const rule: RecurrenceRule = {
+            frequency: ScheduleFrequency.WEEKLY,
+            interval: 1,
+            byWeekday: [0, 1, 2, 3, 4, 5, 6],
+            byMonthDay: [],
+            startDate,
+            until,
+            blackoutDates
+          }
+
+          const dates = ScheduleRecurrence.expand(rule, startDate, new Date(startDate.getTime() + 90 * DAY_MS))
+          const blackouts = new Set(blackoutDates.map(date => date.getTime()))
+
+          expect(dates.every(date => !blackouts.has(date.getTime()))).toBe(true)
+          expect(dates.every(date => date <= until)).toBe(true)
+          expect(dates.length).toBe(untilOffset + 1 - new Set(blackoutOffsets.filter(o => o <= untilOffset)).size)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should produce the same departures when expanded repeatedly', () => {
+    fc.assert(
+      fc.property(dayArb, fc.integer({ min: 1, max: 3 }), (startDate, interval) => {
+        const rule: RecurrenceRule = {
+          frequency: ScheduleFrequency.WEEKLY,
+          interval,
+          byWeekday: [6],
+          byMonthDay: [],
+          startDate,
+          until: null,
+          blackoutDates: []
+        }
+        const to = new Date(startDate.getTime() + 120 * DAY_MS)
+
+        const first = ScheduleRecurrence.expand(rule, startDate, to).map(date => date.getTime())
+        const second = ScheduleRecurrence.expand(rule, startDate, to).map(date => date.getTime())
+
+        expect(second).toEqual(first)
+        expect(new Set(first).size).toBe(first.length)
+      }),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should end departures durationDays after they start', () => {
+    fc.assert(
+      fc.property(dayArb, fc.integer({ min: 1, max: 365 }), (startDate, durationDays) => {
+        const endDate = ScheduleRecurrence.computeEndDate(startDate, durationDays)
+        expect((endDate.getTime() - startDate.getTime()) / DAY_MS).toBe(durationDays)
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should reject rules without days to repeat on', () => {
+    expect(() => DepartureScheduleValidator.validateCreateData({
+      tourId: 'tour-1',
+      frequency: ScheduleFrequency.WEEKLY,
+      startDate: new Date(BASE),
+      byWeekday: []
+    })).toThrow(DepartureScheduleValidationError)
+
+    expect(() => DepartureScheduleValidator.validateCreateData({
+      tourId: 'tour-1',
+      frequency: ScheduleFrequency.MONTHLY,
+      startDate: new Date(BASE),
+      byMonthDay: [32]
+    })).toThrow(DepartureScheduleValidationError)
+  })
+})
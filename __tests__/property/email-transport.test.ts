@@ -0,0 +1,274 @@
+/**
+ * **Feature: travel-tour-booking, Property 51: Every email carries both its HTML and plain-text bodies intact**
+ *
+ * Property-based tests for the email transports.
+ * For any subject and bodies, the MIME document decodes back to exactly the HTML and text that
+ * were sent, an SMTP relay receives the same document, and a failed delivery is recorded as such.
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll, afterEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import net from 'net'
+import {
+  buildMimeMessage,
+  CaptureTransport,
+  CAPTURE_LIMIT,
+  EmailHeaderError,
+  EmailMessage,
+  Mailer,
+  SmtpError,
+  SmtpTransport,
+} from '@/app/lib/services/email-transports'
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async () => ({
+      id: 'user-1',
+      notificationPreferences: { paymentUpdates: true }
+    }))
+  },
+  notification: {
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => data)
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+const FROM = 'Travel & Tour Team <no-reply@example.com>'
+
+interface ParsedEmail {
+  headers: Record<string, string>
+  parts: Record<string, string>
+}
+
+// Read back a document built by buildMimeMessage
+const parseMime = (document: string): ParsedEmail => {
+  const [head, ...rest] = document.split('\r\n\r\n')
+  const headers = Object.fromEntries(head.split('\r\n').map(line => {
+    const colon = line.indexOf(':')
+    return [line.slice(0, colon), line.slice(colon + 2)]
+  }))
+  const boundary = headers['Content-Type'].match(/boundary="([^"]+)"/)![1]
+  const parts: Record<string, string> = {}
+
+  for (const section of rest.join('\r\n\r\n').split(`--${boundary}`)) {
+    const [partHead, body] = section.split('\r\n\r\n')
+    const type = partHead?.match(/Content-Type: (text\/\w+)/)?.[1]
+    if (type && body !== undefined) {
+      parts[type] = Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')
+    }
+  }
+
+  return { headers, parts }
+}
+
+const decodeHeader = (value: string) => {
+  const encoded = value.match(/^=\?UTF-8\?B\?(.*)\?=$/)
+  return encoded ? Buffer.from(encoded[1], 'base64').toString('utf8') : value
+}
+
+const singleLine = fc.string({ unit: 'grapheme', minLength: 1, maxLength: 60 }).filter(value => !/[\r\n]/.test(value))
+
+const messageArbitrary: fc.Arbitrary<EmailMessage> = fc.record({
+  to: fc.constant('ama@example.com'),
+  subject: singleLine,
+  html: fc.string({ unit: 'grapheme', maxLength: 300 }),
+  text: fc.string({ unit: 'grapheme', maxLength: 300 })
+})
+
+// A minimal SMTP relay that records what each client sent, and each message it accepted
+const sessions: { commands: string[]; data: string }[] = []
+const received: { commands: string[]; data: string }[] = []
+let server: net.Server
+let port: number
+
+const startRelay = () => new Promise<void>((resolve) => {
+  server = net.createServer((socket) => {
+    const session = { commands: [] as string[], data: '' }
+    sessions.push(session)
+    let buffer = ''
+    let inData = false
+
+    socket.setEncoding('utf8')
+    socket.write('220 relay.test ESMTP\r\n')
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let end: number
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            received.push(session)
+            socket.write('250 2.0.0 queued\r\n')
+          } else {
+            session.data += `${line.startsWith('..') ? line.slice(1) : line}\r\n`
+          }
+          continue
+        }
+
+        session.commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-relay.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n')
+        else if (line.startsWith('AUTH PLAIN')) socket.write('235 2.7.0 accepted\r\n')
+        else if (line.startsWith('RCPT TO:<blocked@')) socket.write('550 5.1.1 mailbox unavailable\r\n')
+        else if (line === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  server.listen(0, '127.0.0.1', () => {
+    port = (server.address() as net.AddressInfo).port
+    resolve()
+  })
+})
+
+// The test relay has no TLS, so authenticating needs the insecure opt-in
+const relayTransport = (user?: string, allowInsecureAuth = true) => new SmtpTransport({
+  host: '127.0.0.1',
+  port,
+  secure: false,
+  user,
+  password: user ? 's3cret' : undefined,
+  allowInsecureAuth,
+  from: FROM,
+  timeoutMs: 5_000
+})
+
+describe('Email Transport Properties', () => {
+  beforeAll(async () => {
+    await startRelay()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  afterEach(() => {
+    Mailer.use(null)
+    CaptureTransport.clear()
+  })
+
+  it('should build a MIME document that decodes back to the exact subject and bodies', () => {
+    fc.assert(
+      fc.property(messageArbitrary, (message) => {
+        const document = buildMimeMessage(message, FROM, '<id@example.com>')
+        const parsed = parseMime(document)
+
+        expect(decodeHeader(parsed.headers.Subject)).toBe(message.subject)
+        expect(parsed.headers.To).toBe(message.to)
+        expect(parsed.parts['text/plain']).toBe(message.text)
+        expect(parsed.parts['text/html']).toBe(message.html)
+        expect(document.split('\r\n').every(line => line.length <= 998)).toBe(true)
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should refuse header values that would start a new header', () => {
+    const message = { to: 'ama@example.com', subject: 'Hello\r\nBcc: everyone@example.com', html: '', text: '' }
+    expect(() => buildMimeMessage(message, FROM, '<id@example.com>')).toThrow(EmailHeaderError)
+  })
+
+  it('should hand an SMTP relay the same document, authenticating when configured', async () => {
+    await fc.assert(
+      fc.asyncProperty(messageArbitrary, fc.boolean(), async (message, authenticate) => {
+        received.length = 0
+
+        const delivery = await relayTransport(authenticate ? 'mailer' : undefined).send(message)
+
+        expect(received).toHaveLength(1)
+        const [session] = received
+        expect(session.commands).toContain('MAIL FROM:<no-reply@example.com>')
+        expect(session.commands).toContain('RCPT TO:<ama@example.com>')
+        expect(session.commands.some(command => command.startsWith('AUTH PLAIN'))).toBe(authenticate)
+
+        const parsed = parseMime(session.data)
+        expect(parsed.headers['Message-ID']).toBe(delivery.messageId)
+        expect(parsed.parts['text/plain']).toBe(message.text)
+        expect(parsed.parts['text/html']).toBe(message.html)
+      }),
+      { numRuns: 15 }
+    )
+  })
+
+  it('should not send credentials over a connection that never became encrypted', async () => {
+    received.length = 0
+    const sessionsBefore = sessions.length
+
+    await expect(relayTransport('mailer', false).send({ to: 'ama@example.com', subject: 'Hi', html: '<p>Hi</p>', text: 'Hi' }))
+      .rejects.toThrow('refusing to send credentials unencrypted')
+
+    expect(received).toHaveLength(0)
+    expect(sessions.slice(sessionsBefore).flatMap(session => session.commands).some(command => command.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('should fail the send when the relay refuses the recipient', async () => {
+    await expect(relayTransport().send({ to: 'blocked@example.com', subject: 'Hi', html: '<p>Hi</p>', text: 'Hi' }))
+      .rejects.toThrow(SmtpError)
+  })
+
+  it('should keep the newest captured emails first, up to the limit', async () => {
+    const transport = new CaptureTransport(FROM)
+
+    for (let index = 0; index < CAPTURE_LIMIT + 5; index++) {
+      await transport.send({ to: 'ama@example.com', subject: `Email ${index}`, html: '', text: '' })
+    }
+
+    const messages = CaptureTransport.messages()
+    expect(messages).toHaveLength(CAPTURE_LIMIT)
+    expect(messages[0].subject).toBe(`Email ${CAPTURE_LIMIT + 4}`)
+    expect(CaptureTransport.find(messages[1].id)?.subject).toBe(`Email ${CAPTURE_LIMIT + 3}`)
+  })
+
+  it('should record an email the transport could not deliver as failed', async () => {
+    const { NotificationService } = await import('../../app/lib/services/notification')
+    Mailer.use({ name: 'broken', send: async () => { throw new SmtpError('SMTP server replied 451 try later', 451) } })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(NotificationService.sendRefundEmail({
+      customerEmail: 'ama@example.com',
+      customerName: 'Ama <script>',
+      refundId: 'refund-1',
+      paymentId: 'payment-1',
+      bookingId: 'booking-1',
+      tourTitle: 'Kakum Canopy Walk',
+      amount: 2500,
+      currency: 'USD',
+      reason: 'Cancelled by customer'
+    })).rejects.toThrow(SmtpError)
+
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'REFUND', status: 'FAILED', sentAt: null, channel: 'EMAIL' })
+    })
+  })
+
+  it('should escape names in the HTML body but keep them as written in the text body', async () => {
+    const { NotificationService } = await import('../../app/lib/services/notification')
+
+    await NotificationService.sendRefundEmail({
+      customerEmail: 'ama@example.com',
+      customerName: 'Ama <script>',
+      refundId: 'refund-1',
+      paymentId: 'payment-1',
+      bookingId: 'booking-1',
+      tourTitle: 'Kakum Canopy Walk',
+      amount: 2500,
+      currency: 'USD',
+      reason: 'Cancelled by customer'
+    })
+
+    const [email] = CaptureTransport.messages()
+    expect(email.html).toContain('Ama &lt;script&gt;')
+    expect(email.html).not.toContain('<script>')
+    expect(email.text).toContain('Dear Ama <script>,')
+    expect(email.text).toContain('$25.00')
+  })
+})
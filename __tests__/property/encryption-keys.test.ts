@@ -0,0 +1,216 @@
+/**
+ * **Feature: travel-tour-booking, Property 55: Encrypted data stays readable across key rotation until its key is retired**
+ *
+ * Property-based tests for envelope encryption with key ids.
+ * For any text and key ring, data reads back under any ring that still holds its key, including
+ * data written before envelopes; the re-encryption job moves every readable passport onto the
+ * newest key without changing it; and a production server without a key refuses to start.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach, afterEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import crypto from 'crypto'
+import {
+  assertEncryptionConfigured,
+  currentKeyId,
+  decrypt,
+  encrypt,
+  EncryptionConfigError,
+  isEncrypted,
+  needsReencryption,
+  reencrypt,
+  configureEncryptionKeys,
+} from '@/app/lib/utils/encryption'
+
+interface FakeTraveler {
+  id: string
+  passportNumber: string | null
+  passportExpiry: string | null
+}
+
+interface FakeWhere {
+  id?: { gt: string }
+  OR: { passportNumber?: unknown; passportExpiry?: unknown; NOT: { passportNumber?: { startsWith: string }; passportExpiry?: { startsWith: string } } }[]
+}
+
+const state = {
+  travelers: [] as FakeTraveler[]
+}
+
+const mockPrisma = {
+  traveler: {
+    findMany: jest.fn(async ({ where, take }: { where: FakeWhere; take: number }) => {
+      const prefix = where.OR[0].NOT.passportNumber!.startsWith
+      const stale = (value: string | null) => value !== null && !value.startsWith(prefix)
+
+      return state.travelers
+        .filter(traveler => !where.id || traveler.id > where.id.gt)
+        .filter(traveler => stale(traveler.passportNumber) || stale(traveler.passportExpiry))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, take)
+        .map(traveler => ({ ...traveler }))
+    }),
+    // Check and write in one step, like the conditional UPDATE in Postgres
+    updateMany: jest.fn(async ({ where, data }: { where: FakeTraveler; data: Omit<FakeTraveler, 'id'> }) => {
+      const traveler = state.travelers.find(candidate => candidate.id === where.id)
+      if (!traveler || traveler.passportNumber !== where.passportNumber || traveler.passportExpiry !== where.passportExpiry) {
+        return { count: 0 }
+      }
+      Object.assign(traveler, data)
+      return { count: 1 }
+    })
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let TravelerService: typeof import('../../app/lib/services/traveler').TravelerService
+
+// The iv:ciphertext+tag format written before envelopes, with the key hashed from the secret
+const legacyEncrypt = (text: string, secret: string) => {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.createHash('sha256').update(secret).digest(), iv)
+  const encrypted = cipher.update(text, 'utf8', 'hex') + cipher.final('hex')
+  return `${iv.toString('hex')}:${encrypted}${cipher.getAuthTag().toString('hex')}`
+}
+
+// Secrets may hold colons, as base64 and passphrases do; commas separate the keys
+const secretArbitrary = fc.stringMatching(/^[A-Za-z0-9+/=!@#$%^&*:._-]{1,40}$/)
+const keyRingArbitrary = fc.uniqueArray(
+  fc.record({ id: fc.stringMatching(/^[A-Za-z0-9_-]{1,12}$/), secret: secretArbitrary }),
+  { minLength: 1, maxLength: 4, selector: key => key.id }
+)
+const ring = (keys: { id: string; secret: string }[]) => keys.map(key => `${key.id}:${key.secret}`).join(',')
+
+describe('Encryption Key Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ TravelerService } = await import('../../app/lib/services/traveler'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.travelers = []
+  })
+
+  afterEach(() => {
+    configureEncryptionKeys(null)
+  })
+
+  it('should read data back under any key ring that still holds its key', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 100 }), keyRingArbitrary, keyRingArbitrary, (text, older, newer) => {
+        configureEncryptionKeys(ring(older))
+        const encrypted = encrypt(text)
+        const legacy = legacyEncrypt(text, older[older.length - 1].secret)
+
+        expect(encrypted.startsWith(`v1:${older[0].id}:`)).toBe(true)
+        expect(isEncrypted(encrypted) && isEncrypted(legacy)).toBe(true)
+        expect(needsReencryption(encrypted)).toBe(false)
+        expect(needsReencryption(legacy)).toBe(true)
+
+        // A newer key in front of the older ones encrypts, while the older ones still decrypt
+        const rotated = [...newer.filter(key => !older.some(old => old.id === key.id)), ...older]
+        configureEncryptionKeys(ring(rotated))
+        expect(decrypt(encrypted)).toBe(text)
+        expect(decrypt(legacy)).toBe(text)
+        expect(decrypt(reencrypt(legacy))).toBe(text)
+        expect(needsReencryption(reencrypt(encrypted))).toBe(false)
+
+        // Once its key is retired, the data can no longer be read
+        configureEncryptionKeys(ring([...older.slice(1), { id: 'retired-check', secret: 'unrelated' }]))
+        expect(() => decrypt(encrypted)).toThrow('Failed to decrypt data')
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should refuse an envelope relabelled with another configured key id', () => {
+    configureEncryptionKeys('new:secret-one,old:secret-two')
+    const [, , iv, encrypted, tag] = encrypt('G1234567').split(':')
+
+    expect(() => decrypt(['v1', 'old', iv, encrypted, tag].join(':'))).toThrow('Failed to decrypt data')
+  })
+
+  it('should move every readable passport onto the newest key without changing it', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            passport: fc.option(fc.stringMatching(/^[A-Z0-9]{6,9}$/), { nil: null }),
+            written: fc.constantFrom('legacy', 'old', 'current', 'lost')
+          }),
+          { maxLength: 12 }
+        ),
+        fc.integer({ min: 1, max: 5 }),
+        async (travelers, batchSize) => {
+          const seal = (text: string, written: string) => {
+            if (written === 'legacy') return legacyEncrypt(text, 'old-secret')
+            configureEncryptionKeys(written === 'old' ? 'old:old-secret' : written === 'lost' ? 'gone:gone-secret' : 'new:new-secret')
+            return encrypt(text)
+          }
+
+          state.travelers = travelers.map(({ passport, written }, index) => ({
+            id: `traveler-${String(index).padStart(2, '0')}`,
+            passportNumber: passport && seal(passport, written),
+            passportExpiry: passport && seal('2030-01-01T00:00:00.000Z', written)
+          }))
+
+          configureEncryptionKeys('new:new-secret,old:old-secret')
+          const summary = await TravelerService.reencryptPassports(batchSize)
+
+          const lost = travelers.filter(({ passport, written }) => passport && written === 'lost').length
+          const moved = travelers.filter(({ passport, written }) => passport && (written === 'legacy' || written === 'old')).length
+          expect(summary).toEqual({ reencrypted: moved, skipped: 0, failed: lost })
+
+          travelers.forEach(({ passport, written }, index) => {
+            const stored = state.travelers[index]
+            if (!passport || written === 'lost') return
+            expect(stored.passportNumber!.startsWith('v1:new:')).toBe(true)
+            expect(decrypt(stored.passportNumber!)).toBe(passport)
+            expect(decrypt(stored.passportExpiry!)).toBe('2030-01-01T00:00:00.000Z')
+          })
+
+          // A second run has nothing left to move
+          expect(await TravelerService.reencryptPassports(batchSize)).toEqual({ reencrypted: 0, skipped: 0, failed: lost })
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should refuse to start in production without a key, and reject malformed keys anywhere', () => {
+    const env = process.env as Record<string, string | undefined>
+    const saved = { NODE_ENV: env.NODE_ENV, ENCRYPTION_KEYS: env.ENCRYPTION_KEYS, ENCRYPTION_KEY: env.ENCRYPTION_KEY }
+
+    try {
+      delete env.ENCRYPTION_KEYS
+      delete env.ENCRYPTION_KEY
+      configureEncryptionKeys(null)
+      expect(currentKeyId()).toBe('default')
+
+      env.NODE_ENV = 'production'
+      configureEncryptionKeys(null)
+      expect(() => assertEncryptionConfigured()).toThrow(EncryptionConfigError)
+      expect(() => encrypt('G1234567')).toThrow(EncryptionConfigError)
+
+      env.ENCRYPTION_KEYS = 'k2027:new-secret'
+      env.ENCRYPTION_KEY = 'old-secret'
+      configureEncryptionKeys(null)
+      expect(() => assertEncryptionConfigured()).not.toThrow()
+      expect(currentKeyId()).toBe('k2027')
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete env[name]
+        else env[name] = value
+      }
+    }
+
+    for (const malformed of ['no-separator', ':secret', 'bad id:secret', 'a:one,a:two']) {
+      configureEncryptionKeys(malformed)
+      expect(() => assertEncryptionConfigured()).toThrow(EncryptionConfigError)
+    }
+  })
+})
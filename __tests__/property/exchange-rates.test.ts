@@ -0,0 +1,187 @@
+/**
+ * **Feature: travel-tour-booking, Property 43: Bookings are priced at the exchange rate in effect when they are made**
+ *
+ * Property-based tests for multi-currency pricing.
+ * For any history of exchange rates, the rate used is the latest one in effect at that
+ * moment, whichever way round it was entered, and a booking made in another currency
+ * records the converted total together with the rate it was converted at.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  CurrencyConverter,
+  ExchangeRateQuote,
+  ExchangeRateValidationError,
+  PIVOT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from '@/app/lib/models'
+
+const state = {
+  tourCurrency: 'USD',
+  pricePerPerson: 10000,
+  quotes: [] as ExchangeRateQuote[]
+}
+
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      startDate: new Date('2027-01-01T00:00:00Z'),
+      tour: {
+        pricePerPerson: state.pricePerPerson,
+        currency: state.tourCurrency,
+        destination: { id: 'dest-1', name: 'Accra', country: 'Ghana' }
+      }
+    })),
+    updateMany: jest.fn(async () => ({ count: 1 }))
+  },
+  exchangeRate: {
+    findMany: jest.fn(async () => state.quotes)
+  },
+  pricingRule: {
+    findMany: jest.fn(async () => [])
+  },
+  booking: {
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'booking-1', ...data }))
+  },
+  bookingEvent: {
+    create: jest.fn(async () => ({}))
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: { enqueue: jest.fn(), deliverQueuedQuietly: jest.fn() }
+}))
+
+let BookingService: typeof import('../../app/lib/services/booking').BookingService
+
+const currencyArb = fc.constantFrom(...SUPPORTED_CURRENCIES)
+const rateArb = fc.double({ min: 0.001, max: 5000, noNaN: true })
+const dateArb = fc.date({ min: new Date('2026-01-01T00:00:00Z'), max: new Date('2026-12-31T00:00:00Z'), noInvalidDate: true })
+
+const book = (currency?: string, travelersCount = 2) => BookingService.createBooking({
+  userId: 'user-1',
+  tourId: 'tour-1',
+  availabilityId: 'avail-1',
+  travelersCount,
+  currency
+})
+
+describe('Exchange Rate Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ BookingService } = await import('../../app/lib/services/booking'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should use the latest rate in effect and ignore rates scheduled for later', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ rate: rateArb, effectiveFrom: dateArb, inverted: fc.boolean() }), { maxLength: 10 }),
+        dateArb,
+        (entries, at) => {
+          const quotes = entries.map(entry => entry.inverted
+            ? { baseCurrency: 'GHS', quoteCurrency: 'EUR', rate: entry.rate, effectiveFrom: entry.effectiveFrom }
+            : { baseCurrency: 'EUR', quoteCurrency: 'GHS', rate: entry.rate, effectiveFrom: entry.effectiveFrom })
+
+          const inEffect = entries
+            .filter(entry => entry.effectiveFrom <= at)
+            .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+          const rate = CurrencyConverter.rateAt(quotes, 'EUR', 'GHS', at)
+
+          if (inEffect.length === 0) {
+            expect(rate).toBeNull()
+            return
+          }
+
+          // Entries sharing the latest date may come from either direction; any of them is in effect
+          const latest = inEffect.filter(entry => entry.effectiveFrom.getTime() === inEffect[0].effectiveFrom.getTime())
+          const candidates = latest.map(entry => (entry.inverted ? 1 / entry.rate : entry.rate))
+          expect(candidates).toContain(rate)
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should convert both ways consistently and through the pivot currency', () => {
+    fc.assert(
+      fc.property(currencyArb, currencyArb, rateArb, rateArb, (from, to, fromRate, toRate) => {
+        fc.pre(from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY && from !== to)
+        const effectiveFrom = new Date('2026-01-01T00:00:00Z')
+        const quotes = [
+          { baseCurrency: PIVOT_CURRENCY, quoteCurrency: from, rate: fromRate, effectiveFrom },
+          { baseCurrency: PIVOT_CURRENCY, quoteCurrency: to, rate: toRate, effectiveFrom }
+        ]
+
+        const forward = CurrencyConverter.rateAt(quotes, from, to)!
+        const backward = CurrencyConverter.rateAt(quotes, to, from)!
+
+        expect(forward).toBeCloseTo(toRate / fromRate, 8)
+        expect(forward * backward).toBeCloseTo(1, 8)
+        expect(CurrencyConverter.rateAt(quotes, from, from)).toBe(1)
+        expect(CurrencyConverter.rateAt([], from, to)).toBeNull()
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should lock the converted price and rate onto a new booking', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 100, max: 500000 }),
+        rateArb,
+        fc.integer({ min: 1, max: 10 }),
+        currencyArb,
+        async (pricePerPerson, rate, travelersCount, currency) => {
+          fc.pre(currency !== 'USD')
+          state.tourCurrency = 'USD'
+          state.pricePerPerson = pricePerPerson
+          state.quotes = [{ baseCurrency: 'USD', quoteCurrency: currency, rate, effectiveFrom: new Date('2026-01-01T00:00:00Z') }]
+
+          const booking = await book(currency, travelersCount)
+          const unitPrice = Math.round(pricePerPerson * rate)
+
+          expect(booking.currency).toBe(currency)
+          expect(booking.exchangeRate).toBe(rate)
+          expect(booking.baseCurrency).toBe('USD')
+          expect(booking.baseTotalPrice).toBe(pricePerPerson * travelersCount)
+          expect(booking.totalPrice).toBe(unitPrice * travelersCount)
+          expect(Number.isInteger(booking.totalPrice)).toBe(true)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should book in the tour currency without looking up a rate', async () => {
+    state.tourCurrency = 'KES'
+    state.pricePerPerson = 150000
+    state.quotes = []
+    mockPrisma.exchangeRate.findMany.mockClear()
+
+    const booking = await book(undefined, 3)
+
+    expect(booking).toMatchObject({ currency: 'KES', baseCurrency: 'KES', exchangeRate: 1, totalPrice: 450000 })
+    expect(mockPrisma.exchangeRate.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should refuse unsupported currencies and pairs without a rate', async () => {
+    state.tourCurrency = 'USD'
+    state.quotes = []
+    mockPrisma.booking.create.mockClear()
+
+    await expect(book('JPY')).rejects.toThrow(ExchangeRateValidationError)
+    await expect(book('GHS')).rejects.toThrow('No exchange rate from USD to GHS')
+    expect(mockPrisma.booking.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * **Feature: travel-tour-booking, Property 60: A payment that arrives after its seats are gone is not lost**
+ *
+ * Property-based tests for payments that succeed after the booking's hold expired.
+ * For any provider, a successful payment whose expired booking can no longer be confirmed
+ * is accepted, admins are alerted, and the money is refunded wherever the provider can.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus, PaymentProvider } from '@prisma/client'
+
+// The sandbox is only registered with a secret to sign its webhooks
+process.env.SANDBOX_WEBHOOK_SECRET = 'test-secret'
+
+const state = {
+  bookingStatus: 'EXPIRED' as BookingStatus,
+  provider: 'SANDBOX' as PaymentProvider
+}
+
+const payment = () => ({
+  id: 'payment-1',
+  bookingId: 'booking-1',
+  amount: 25000,
+  currency: 'USD',
+  method: 'CARD',
+  provider: state.provider,
+  status: 'SUCCESS',
+  providerTransactionId: 'txn-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  booking: { id: 'booking-1', status: state.bookingStatus }
+})
+
+const mockPrisma = {
+  payment: {
+    updateMany: jest.fn(async () => ({ count: 1 })),
+    findUniqueOrThrow: jest.fn(async () => payment())
+  },
+  booking: {
+    findUniqueOrThrow: jest.fn(async () => ({ status: state.bookingStatus }))
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+const confirmBooking = jest.fn<(bookingId: string, options: { reason?: string }) => Promise<unknown>>(async () => {
+  throw new Error('Not enough available slots for this booking')
+})
+const enqueue = jest.fn(async (data: { kind: string }) => data)
+
+jest.mock('../../app/lib/prisma', () => ({ prisma: mockPrisma }))
+jest.mock('../../app/lib/services/booking', () => ({ BookingService: { confirmBooking } }))
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: { enqueue, deliverQueuedQuietly: jest.fn(async () => undefined) }
+}))
+
+let PaymentService: typeof import('../../app/lib/services/payment').PaymentService
+let PaymentProviderRegistry: typeof import('../../app/lib/services/payment-providers').PaymentProviderRegistry
+
+const enqueuedKinds = () => enqueue.mock.calls.map(([data]) => data.kind)
+
+describe('Late Payment Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ PaymentService } = await import('../../app/lib/services/payment'));
+    ({ PaymentProviderRegistry } = await import('../../app/lib/services/payment-providers'))
+  })
+
+  beforeEach(() => {
+    jest.restoreAllMocks()
+    enqueue.mockClear()
+    confirmBooking.mockClear()
+  })
+
+  it('should accept a payment whose seats are gone, alert admins and refund it where the provider can', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom<PaymentProvider>('STRIPE', 'PAYSTACK', 'FLUTTERWAVE', 'SANDBOX'),
+        async (provider) => {
+          state.bookingStatus = 'EXPIRED'
+          state.provider = provider
+          enqueue.mockClear()
+          const refundPayment = jest.spyOn(PaymentService, 'refundPayment').mockImplementation(async () => {
+            throw new Error('Provider unavailable')
+          })
+          refundPayment.mockClear()
+
+          const updated = await PaymentService.updatePaymentStatus('payment-1', 'SUCCESS', 'txn-1')
+
+          expect(updated.status).toBe('SUCCESS')
+          expect(enqueuedKinds()).toContain('ADMIN_LATE_PAYMENT')
+          if (PaymentProviderRegistry.get(provider).supportsRefunds) {
+            expect(refundPayment).toHaveBeenCalledWith('payment-1', 25000, 'Seats were released before the payment arrived')
+          } else {
+            expect(refundPayment).not.toHaveBeenCalled()
+          }
+        }
+      ),
+      { numRuns: 20 }
+    )
+  })
+
+  it('should still fail a confirmation that went wrong for a booking that had not expired', async () => {
+    state.bookingStatus = 'PENDING'
+    state.provider = 'SANDBOX'
+    const refundPayment = jest.spyOn(PaymentService, 'refundPayment')
+
+    await expect(PaymentService.updatePaymentStatus('payment-1', 'SUCCESS', 'txn-1'))
+      .rejects.toThrow('Not enough available slots for this booking')
+    expect(enqueuedKinds()).not.toContain('ADMIN_LATE_PAYMENT')
+    expect(refundPayment).not.toHaveBeenCalled()
+  })
+
+  it('should leave a late payment alone once its booking confirms', async () => {
+    state.bookingStatus = 'EXPIRED'
+    state.provider = 'SANDBOX'
+    confirmBooking.mockImplementationOnce(async () => ({ id: 'booking-1', status: 'CONFIRMED' }))
+    const refundPayment = jest.spyOn(PaymentService, 'refundPayment')
+
+    await PaymentService.updatePaymentStatus('payment-1', 'SUCCESS', 'txn-1')
+
+    expect(confirmBooking).toHaveBeenCalledWith('booking-1', { reason: 'Payment payment-1 succeeded' })
+    expect(enqueuedKinds()).not.toContain('ADMIN_LATE_PAYMENT')
+    expect(refundPayment).not.toHaveBeenCalled()
+  })
+})
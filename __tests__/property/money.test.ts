@@ -0,0 +1,266 @@
+/**
+ * **Feature: travel-tour-booking, Property 44: Money arithmetic is exact to the minor unit**
+ *
+ * Property-based tests for the Money value type.
+ * For any collection of amounts, totals are exact whole numbers of minor units whatever the
+ * order they are added in, amounts in different currencies are never mixed, and revenue
+ * reports total and rank each currency separately, net of refunds.
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals'
+import * as fc from 'fast-check'
+import { PaymentStatus } from '@prisma/client'
+import { MONEY_LIMITS, Money, MoneyError, SUPPORTED_CURRENCIES, minorUnitsAsNumbers } from '@/app/lib/models'
+
+// refunded is the total of the payment's successful refunds
+type PaymentRow = { amount: number; currency: string; status: PaymentStatus; refunded: number }
+type PaymentFilter = { status: { in: PaymentStatus[] } }
+type TourRow = { tourId: string; currency: string; _sum: { totalPrice: number }; _count: { id: number } }
+type TourOrder = { currency: 'asc' } | { _sum: { totalPrice: 'desc' } }
+
+const state = {
+  payments: [] as PaymentRow[],
+  tours: [] as TourRow[]
+}
+
+// Sorts by each orderBy key in turn, as the database does
+const sortTours = (rows: TourRow[], orderBy: TourOrder | TourOrder[]) =>
+  [...rows].sort((a, b) => {
+    for (const order of [orderBy].flat()) {
+      const difference = 'currency' in order
+        ? a.currency.localeCompare(b.currency)
+        : b._sum.totalPrice - a._sum.totalPrice
+      if (difference !== 0) return difference
+    }
+    return 0
+  })
+
+// Sums whole minor units per currency, as the database does
+const sumByCurrency = (payments: PaymentRow[], amount: (payment: PaymentRow) => number) => {
+  const groups = new Map<string, { currency: string; _sum: { amount: number }; _count: { id: number } }>()
+  for (const payment of payments) {
+    const group = groups.get(payment.currency) ?? { currency: payment.currency, _sum: { amount: 0 }, _count: { id: 0 } }
+    group._sum.amount += amount(payment)
+    group._count.id += 1
+    groups.set(payment.currency, group)
+  }
+  return Array.from(groups.values())
+}
+
+const matching = (filter: PaymentFilter) => state.payments.filter(payment => filter.status.in.includes(payment.status))
+
+const mockPrisma = {
+  payment: {
+    groupBy: jest.fn(async ({ where }: { where: PaymentFilter }) => sumByCurrency(matching(where), payment => payment.amount))
+  },
+  refund: {
+    groupBy: jest.fn(async ({ where }: { where: { payment: PaymentFilter } }) =>
+      sumByCurrency(matching(where.payment).filter(payment => payment.refunded > 0), payment => payment.refunded)
+    )
+  },
+  booking: {
+    groupBy: jest.fn(async ({ orderBy }: { orderBy: TourOrder | TourOrder[] }) => sortTours(state.tours, orderBy))
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let RevenueService: typeof import('../../app/lib/services/revenue').RevenueService
+
+const currencyArb = fc.constantFrom(...SUPPORTED_CURRENCIES)
+const centsArb = fc.integer({ min: 1, max: 10_000_000 })
+
+describe('Money Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ RevenueService } = await import('../../app/lib/services/revenue'))
+  })
+
+  it('should sum any number of amounts exactly, in any order', () => {
+    fc.assert(
+      fc.property(fc.array(centsArb, { maxLength: 5000 }), (cents) => {
+        const amounts = cents.map(amount => Money.of(amount, 'USD'))
+        const total = Money.sum(amounts, 'USD')
+        const reversed = Money.sum([...amounts].reverse(), 'USD')
+
+        expect(total.amount).toBe(cents.reduce((sum, amount) => sum + amount, 0))
+        expect(reversed.amount).toBe(total.amount)
+        expect(Number.isInteger(total.amount)).toBe(true)
+      }),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should round-trip major units and format with the currency', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -10_000_000, max: 10_000_000 }), currencyArb, (cents, currency) => {
+        const money = Money.of(cents, currency)
+
+        expect(Money.fromMajor(money.toMajor(), currency).amount).toBe(cents)
+        expect(money.toJSON()).toEqual({ amount: cents, currency })
+      }),
+      { numRuns: 200 }
+    )
+
+    expect(Money.of(123456, 'USD').format()).toBe('$1,234.56')
+    expect(Money.of(5, 'EUR').format()).toBe('€0.05')
+    expect(Money.fromMajor(19.99, 'GBP').amount).toBe(1999)
+  })
+
+  it('should round multiplication and conversion to whole minor units', () => {
+    fc.assert(
+      fc.property(centsArb, fc.double({ min: 0.001, max: 5000, noNaN: true }), fc.integer({ min: 1, max: 20 }), (cents, rate, count) => {
+        const converted = Money.of(cents, 'USD').convert(rate, 'KES')
+
+        expect(converted.currency).toBe('KES')
+        expect(converted.amount).toBe(Math.round(cents * rate))
+        expect(converted.multiply(count).amount).toBe(converted.amount * count)
+        expect(Money.of(cents, 'USD').percent(50).amount).toBe(Math.round(cents / 2))
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should refuse fractional minor units and mixing currencies', () => {
+    expect(() => Money.of(10.5, 'USD')).toThrow(MoneyError)
+    expect(() => Money.of(NaN, 'USD')).toThrow(MoneyError)
+    expect(() => Money.of(100, 'USD').add(Money.of(100, 'EUR'))).toThrow(MoneyError)
+    expect(() => Money.sum([Money.of(100, 'GHS')], 'USD')).toThrow(MoneyError)
+  })
+
+  it('should send money columns as exact numbers, and refuse amounts a number cannot hold', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: MONEY_LIMITS.NGN.payment }),
+        fc.integer({ min: 0, max: MONEY_LIMITS.NGN.payment }),
+        (totalPrice, amount) => {
+          const createdAt = new Date()
+          const booking = {
+            id: 'booking-1',
+            totalPrice: BigInt(totalPrice),
+            refundAmount: null,
+            createdAt,
+            payments: [{ id: 'payment-1', amount: BigInt(amount), refunds: [] }],
+            total: Money.of(totalPrice, 'NGN')
+          }
+
+          const sent = minorUnitsAsNumbers(booking)
+
+          expect(sent).toEqual({
+            id: 'booking-1',
+            totalPrice,
+            refundAmount: null,
+            createdAt,
+            payments: [{ id: 'payment-1', amount, refunds: [] }],
+            total: booking.total
+          })
+          expect(sent.createdAt).toBe(createdAt)
+          expect(JSON.parse(JSON.stringify(sent)).payments[0].amount).toBe(amount)
+        }
+      ),
+      { numRuns: 200 }
+    )
+
+    expect(() => minorUnitsAsNumbers({ amount: BigInt(Number.MAX_SAFE_INTEGER) * BigInt(2) })).toThrow(MoneyError)
+  })
+
+  it('should report revenue per currency, exact to the cent', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.record({ amount: centsArb, currency: currencyArb }), { minLength: 1, maxLength: 3000 }),
+        async (payments) => {
+          state.payments = payments.map(payment => ({ ...payment, status: 'SUCCESS', refunded: 0 }))
+
+          const revenue = await RevenueService.paymentRevenue()
+
+          expect(revenue.reduce((count, entry) => count + entry.transactions, 0)).toBe(payments.length)
+          for (const entry of revenue) {
+            const inCurrency = payments.filter(payment => payment.currency === entry.currency)
+            const expected = inCurrency.reduce((sum, payment) => sum + payment.amount, 0)
+
+            expect(entry.total).toEqual(Money.of(expected, entry.currency))
+            expect(entry.transactions).toBe(inCurrency.length)
+            expect(entry.average.amount).toBe(Math.round(expected / inCurrency.length))
+          }
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should count refunded payments at what was kept, and leave out payments never captured', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            amount: centsArb,
+            currency: currencyArb,
+            status: fc.constantFrom<PaymentStatus>('PENDING', 'SUCCESS', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED'),
+            refundedShare: fc.double({ min: 0, max: 1, noNaN: true })
+          }),
+          { minLength: 1, maxLength: 200 }
+        ),
+        async (payments) => {
+          state.payments = payments.map(({ refundedShare, ...payment }) => ({
+            ...payment,
+            refunded: payment.status === 'REFUNDED' ? payment.amount
+              : payment.status === 'PARTIALLY_REFUNDED' ? Math.floor(payment.amount * refundedShare)
+              : 0
+          }))
+
+          const revenue = await RevenueService.paymentRevenue()
+          const captured = state.payments.filter(payment => ['SUCCESS', 'PARTIALLY_REFUNDED', 'REFUNDED'].includes(payment.status))
+
+          expect(revenue.map(entry => entry.currency).sort()).toEqual([...new Set(captured.map(payment => payment.currency))].sort())
+          for (const entry of revenue) {
+            const inCurrency = captured.filter(payment => payment.currency === entry.currency)
+            const kept = inCurrency.reduce((sum, payment) => sum + payment.amount - payment.refunded, 0)
+
+            expect(entry.total).toEqual(Money.of(kept, entry.currency))
+            expect(entry.transactions).toBe(inCurrency.length)
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should rank tours only against tours earning in the same currency', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.record({ currency: currencyArb, revenue: centsArb, bookings: fc.integer({ min: 1, max: 20 }) }), { maxLength: 20 }),
+        async (tours) => {
+          state.tours = tours.map((tour, index) => ({
+            tourId: `tour-${index}`,
+            currency: tour.currency,
+            _sum: { totalPrice: tour.revenue },
+            _count: { id: tour.bookings }
+          }))
+
+          const ranking = await RevenueService.tourRevenue()
+          const currencies = ranking.map(tour => tour.currency)
+
+          expect(ranking).toHaveLength(tours.length)
+          // Each currency's tours come together, highest revenue first
+          expect(currencies).toEqual([...currencies].sort())
+          ranking.forEach((tour, index) => {
+            const next = ranking[index + 1]
+            if (next?.currency === tour.currency) {
+              expect(tour.revenue.amount).toBeGreaterThanOrEqual(next.revenue.amount)
+            }
+            expect(tour.revenue.currency).toBe(tour.currency)
+          })
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should measure growth within a currency', () => {
+    expect(RevenueService.growth(Money.of(15000, 'USD'), Money.of(10000, 'USD'))).toBe(50)
+    expect(RevenueService.growth(Money.of(5000, 'USD'), Money.of(10000, 'USD'))).toBe(-50)
+    expect(RevenueService.growth(Money.of(5000, 'USD'), Money.zero('USD'))).toBe(0)
+  })
+})
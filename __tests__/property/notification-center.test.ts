@@ -0,0 +1,229 @@
+/**
+ * **Feature: travel-tour-booking, Property 50: Every sent notification is recorded for its recipient**
+ *
+ * Property-based tests for the persistent notification center.
+ * For any mix of customer emails and admin alerts, each send leaves one record per recipient,
+ * and a user's unread count only ever covers their own notifications that they have not read.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+
+interface FakeNotification {
+  id: string
+  userId?: string
+  recipient: string
+  type: string
+  channel: string
+  bookingId?: string
+  subject: string
+  readAt: Date | null
+  createdAt: Date
+}
+
+interface FakeWhere {
+  userId?: string
+  readAt?: null
+  id?: { in: string[] }
+}
+
+const customers = ['ama@example.com', 'kofi@example.com', 'esi@example.com']
+const admins = [
+  { id: 'admin-1', email: 'ops@example.com', name: 'Ops' },
+  { id: 'admin-2', email: 'finance@example.com', name: 'Finance' }
+]
+
+const state = {
+  notifications: [] as FakeNotification[]
+}
+
+const userId = (email: string) => `user-${customers.indexOf(email) + 1}`
+
+const matches = (notification: FakeNotification, where: FakeWhere) => {
+  if (where.userId !== undefined && notification.userId !== where.userId) return false
+  if (where.readAt === null && notification.readAt !== null) return false
+  if (where.id && !where.id.in.includes(notification.id)) return false
+  return true
+}
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where }: { where: { email: string } }) => ({
+      id: userId(where.email),
+      email: where.email,
+      notificationPreferences: { bookingConfirmations: true, paymentUpdates: true, tourReminders: true }
+    })),
+    findMany: jest.fn(async () => admins)
+  },
+  notification: {
+    create: jest.fn(async ({ data }: { data: Omit<FakeNotification, 'id' | 'readAt' | 'createdAt'> }) => {
+      const notification = {
+        id: `notification-${state.notifications.length + 1}`,
+        ...data,
+        readAt: null,
+        createdAt: new Date(Date.UTC(2027, 0, 1, 0, state.notifications.length))
+      }
+      state.notifications.push(notification)
+      return notification
+    }),
+    findMany: jest.fn(async ({ where, take }: { where: FakeWhere; take: number }) =>
+      state.notifications
+        .filter(notification => matches(notification, where))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, take)
+    ),
+    count: jest.fn(async ({ where }: { where: FakeWhere }) =>
+      state.notifications.filter(notification => matches(notification, where)).length
+    ),
+    updateMany: jest.fn(async ({ where, data }: { where: FakeWhere; data: { readAt: Date } }) => {
+      const marked = state.notifications.filter(notification => matches(notification, where))
+      marked.forEach(notification => { notification.readAt = data.readAt })
+      return { count: marked.length }
+    })
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let NotificationService: typeof import('../../app/lib/services/notification').NotificationService
+let AdminNotificationService: typeof import('../../app/lib/services/admin-notification').AdminNotificationService
+let NotificationCenterService: typeof import('../../app/lib/services/notification-center').NotificationCenterService
+
+type Send = { kind: 'refund'; customer: string } | { kind: 'cancellation'; customer: string } | { kind: 'alert' }
+
+const sendArbitrary: fc.Arbitrary<Send> = fc.oneof(
+  fc.record({ kind: fc.constant('refund' as const), customer: fc.constantFrom(...customers) }),
+  fc.record({ kind: fc.constant('cancellation' as const), customer: fc.constantFrom(...customers) }),
+  fc.record({ kind: fc.constant('alert' as const) })
+)
+
+const send = async (message: Send, index: number) => {
+  const bookingId = `booking-${index}`
+
+  switch (message.kind) {
+    case 'refund':
+      return NotificationService.sendRefundEmail({
+        customerEmail: message.customer,
+        customerName: 'Customer',
+        refundId: `refund-${index}`,
+        paymentId: `payment-${index}`,
+        bookingId,
+        tourTitle: 'Volta Lake Cruise',
+        amount: 5000,
+        currency: 'USD',
+        reason: 'Cancelled by customer'
+      })
+    case 'cancellation':
+      return NotificationService.sendBookingCancellationEmail({
+        customerEmail: message.customer,
+        customerName: 'Customer',
+        bookingId,
+        tourTitle: 'Volta Lake Cruise',
+        tourStartDate: new Date('2027-02-01T00:00:00Z'),
+        reason: 'Departure cancelled'
+      })
+    case 'alert':
+      return AdminNotificationService.sendPaymentFailureNotification({
+        type: 'PAYMENT_FAILURE',
+        bookingId,
+        paymentId: `payment-${index}`,
+        amount: 5000,
+        currency: 'USD',
+        customerName: 'Customer',
+        customerEmail: customers[0],
+        tourTitle: 'Volta Lake Cruise',
+        provider: 'PAYSTACK'
+      })
+  }
+}
+
+describe('Notification Center Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ NotificationService } = await import('../../app/lib/services/notification'));
+    ({ AdminNotificationService } = await import('../../app/lib/services/admin-notification'));
+    ({ NotificationCenterService } = await import('../../app/lib/services/notification-center'))
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    state.notifications = []
+  })
+
+  it('should record one notification per recipient for every send', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(sendArbitrary, { maxLength: 10 }),
+        async (messages) => {
+          state.notifications = []
+          for (const [index, message] of messages.entries()) {
+            await send(message, index)
+          }
+
+          const alerts = messages.filter(message => message.kind === 'alert').length
+          expect(state.notifications).toHaveLength(messages.length - alerts + alerts * admins.length)
+
+          for (const [index, message] of messages.entries()) {
+            const records = state.notifications.filter(notification => notification.bookingId === `booking-${index}`)
+
+            if (message.kind === 'alert') {
+              expect(records.map(record => record.userId).sort()).toEqual(admins.map(admin => admin.id))
+              expect(records.every(record => record.channel === 'EMAIL' && record.type === 'PAYMENT_FAILURE')).toBe(true)
+            } else {
+              expect(records).toHaveLength(1)
+              expect(records[0]).toMatchObject({ userId: userId(message.customer), recipient: message.customer, channel: 'EMAIL' })
+              expect(records[0].subject).toContain('Volta Lake Cruise')
+            }
+          }
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should only count and mark a user\'s own unread notifications', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(sendArbitrary, { minLength: 1, maxLength: 10 }),
+        fc.array(fc.nat(), { maxLength: 5 }),
+        async (messages, picks) => {
+          state.notifications = []
+          for (const [index, message] of messages.entries()) {
+            await send(message, index)
+          }
+
+          const reader = userId(customers[0])
+          const others = state.notifications.filter(notification => notification.userId !== reader)
+          const own = state.notifications.filter(notification => notification.userId === reader)
+
+          // Picks may point at other users' notifications, which must stay unread
+          const ids = picks.map(pick => state.notifications[pick % state.notifications.length].id)
+          const marked = await NotificationCenterService.markRead(reader, ids)
+          const readIds = new Set(own.filter(notification => ids.includes(notification.id)).map(notification => notification.id))
+
+          expect(marked).toBe(readIds.size)
+          expect(others.every(notification => notification.readAt === null)).toBe(true)
+
+          const page = await NotificationCenterService.listNotifications(reader)
+          expect(page.unreadCount).toBe(own.length - readIds.size)
+          expect(page.notifications.every(notification => notification.userId === reader)).toBe(true)
+
+          await NotificationCenterService.markRead(reader)
+          expect(await NotificationCenterService.unreadCount(reader)).toBe(0)
+          expect(await NotificationCenterService.markRead(reader)).toBe(0)
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should keep sending when a notification cannot be recorded', async () => {
+    mockPrisma.notification.create.mockRejectedValueOnce(new Error('connection lost'))
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {})
+
+    await expect(send({ kind: 'refund', customer: customers[1] }, 0)).resolves.toBeUndefined()
+    expect(state.notifications).toHaveLength(0)
+  })
+})
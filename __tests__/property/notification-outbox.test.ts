@@ -0,0 +1,266 @@
+/**
+ * **Feature: travel-tour-booking, Property 52: A queued notification is delivered once or dead-lettered, never lost**
+ *
+ * Property-based tests for the notification outbox.
+ * For any run of delivery failures, a queued message is retried with growing delays until it
+ * is sent or runs out of attempts, concurrent workers never send it twice, and an admin can
+ * send a dead message again.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  OUTBOX_LEASE_MS,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_CAP_MS,
+  OutboxRules,
+  OutboxValidationError,
+} from '@/app/lib/models/outbox'
+
+interface FakeMessage {
+  id: string
+  kind: string
+  payload: unknown
+  bookingId: string | null
+  status: string
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  sentAt: Date | null
+  createdAt: Date
+}
+
+interface FakeWhere {
+  id?: string
+  status?: string
+  bookingId?: string
+  nextAttemptAt?: Date | { lte: Date }
+}
+
+interface FakeData {
+  status?: string
+  attempts?: number | { increment: number }
+  nextAttemptAt?: Date
+  lastError?: string | null
+  sentAt?: Date
+}
+
+const state = {
+  messages: new Map<string, FakeMessage>()
+}
+
+const matches = (message: FakeMessage, where: FakeWhere) => {
+  if (where.id !== undefined && message.id !== where.id) return false
+  if (where.status !== undefined && message.status !== where.status) return false
+  if (where.bookingId !== undefined && message.bookingId !== where.bookingId) return false
+  if (where.nextAttemptAt instanceof Date && message.nextAttemptAt.getTime() !== where.nextAttemptAt.getTime()) return false
+  if (where.nextAttemptAt && 'lte' in where.nextAttemptAt && message.nextAttemptAt > where.nextAttemptAt.lte) return false
+  return true
+}
+
+const apply = (message: FakeMessage, data: FakeData) => {
+  const { attempts, ...rest } = data
+  Object.assign(message, rest)
+  if (typeof attempts === 'number') message.attempts = attempts
+  if (typeof attempts === 'object') message.attempts += attempts.increment
+}
+
+const mockPrisma = {
+  outboxMessage: {
+    create: jest.fn(async ({ data }: { data: { kind: string; bookingId: string; payload: unknown } }) => {
+      const message: FakeMessage = {
+        id: `message-${state.messages.size + 1}`,
+        ...data,
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(start),
+        lastError: null,
+        sentAt: null,
+        createdAt: new Date(start)
+      }
+      state.messages.set(message.id, message)
+      return { ...message }
+    }),
+    findMany: jest.fn(async ({ where, take }: { where: FakeWhere; take: number }) =>
+      [...state.messages.values()]
+        .filter(message => matches(message, where))
+        .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+        .slice(0, take)
+        .map(message => ({ ...message }))
+    ),
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const message = state.messages.get(where.id)
+      return message ? { ...message } : null
+    }),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => ({ ...state.messages.get(where.id)! })),
+    // Check and write in one step, like the conditional UPDATE in Postgres
+    updateMany: jest.fn(async ({ where, data }: { where: FakeWhere; data: FakeData }) => {
+      const message = state.messages.get(where.id!)
+      if (!message || !matches(message, where)) return { count: 0 }
+      apply(message, data)
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: FakeData }) => {
+      const message = state.messages.get(where.id)!
+      apply(message, data)
+      return { ...message }
+    }),
+    count: jest.fn(async ({ where }: { where: FakeWhere }) =>
+      [...state.messages.values()].filter(message => matches(message, where)).length
+    )
+  }
+}
+
+const sendNewBookingNotification = jest.fn(async (bookingId: string) => {
+  void bookingId
+})
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/admin-notification', () => ({
+  AdminNotificationService: { sendNewBookingNotification }
+}))
+
+jest.mock('../../app/lib/services/notification', () => ({
+  NotificationService: {}
+}))
+
+let OutboxService: typeof import('../../app/lib/services/outbox').OutboxService
+
+const start = new Date('2027-01-01T00:00:00Z')
+
+const queue = (bookingId = 'booking-1') => OutboxService.enqueue(
+  { kind: 'ADMIN_NEW_BOOKING', bookingId, payload: { bookingId } },
+  mockPrisma as never
+)
+
+// Fail the first `failures` sends, then succeed
+const failFirst = (failures: number) => {
+  let calls = 0
+  sendNewBookingNotification.mockImplementation(async () => {
+    calls++
+    if (calls <= failures) throw new Error(`SMTP server replied 451 (call ${calls})`)
+  })
+}
+
+describe('Notification Outbox Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ OutboxService } = await import('../../app/lib/services/outbox'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    state.messages.clear()
+    sendNewBookingNotification.mockReset()
+  })
+
+  it('should back off exponentially up to the cap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 40 }), (attempts) => {
+        const delay = OutboxRules.retryDelayMs(attempts)
+
+        expect(delay).toBeGreaterThanOrEqual(OUTBOX_RETRY_BASE_MS)
+        expect(delay).toBeLessThanOrEqual(OUTBOX_RETRY_CAP_MS)
+        expect(OutboxRules.retryDelayMs(attempts + 1)).toBe(Math.min(delay * 2, OUTBOX_RETRY_CAP_MS))
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should retry a failing message until it is sent or dead-lettered after the last attempt', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: OUTBOX_MAX_ATTEMPTS + 3 }), async (failures) => {
+        state.messages.clear()
+        sendNewBookingNotification.mockReset()
+        failFirst(failures)
+
+        const { id } = await queue()
+        let now = start
+        const delays: number[] = []
+
+        for (let run = 0; run < OUTBOX_MAX_ATTEMPTS + 3; run++) {
+          // Nothing is tried before it is due
+          const early = await OutboxService.deliverDue(new Date(now.getTime() - 1))
+          expect(early).toEqual({ sent: 0, retrying: 0, dead: 0 })
+
+          await OutboxService.deliverDue(now)
+          const message = state.messages.get(id)!
+          if (message.status !== 'PENDING') break
+
+          delays.push(message.nextAttemptAt.getTime() - now.getTime())
+          now = message.nextAttemptAt
+        }
+
+        const message = state.messages.get(id)!
+        const attempts = Math.min(failures + 1, OUTBOX_MAX_ATTEMPTS)
+
+        expect(sendNewBookingNotification).toHaveBeenCalledTimes(attempts)
+        expect(message.attempts).toBe(attempts)
+        expect(message.status).toBe(failures < OUTBOX_MAX_ATTEMPTS ? 'SENT' : 'DEAD')
+        expect(message.lastError === null).toBe(message.status === 'SENT')
+        expect(delays).toEqual(delays.map((_, index) => OutboxRules.retryDelayMs(index + 1)))
+
+        // A finished message is never picked up again
+        await OutboxService.deliverDue(new Date(now.getTime() + OUTBOX_RETRY_CAP_MS))
+        expect(sendNewBookingNotification).toHaveBeenCalledTimes(attempts)
+      }),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should send each message once even when workers run at the same time', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 8 }),
+        fc.integer({ min: 2, max: 4 }),
+        async (queued, workers) => {
+          state.messages.clear()
+          sendNewBookingNotification.mockReset()
+
+          for (let index = 0; index < queued; index++) {
+            await queue(`booking-${index}`)
+          }
+
+          const runs = await Promise.all(Array.from({ length: workers }, () => OutboxService.deliverDue(start)))
+
+          expect(runs.reduce((sum, run) => sum + run.sent, 0)).toBe(queued)
+          expect(sendNewBookingNotification).toHaveBeenCalledTimes(queued)
+          expect(new Set(sendNewBookingNotification.mock.calls.map(([bookingId]) => bookingId)).size).toBe(queued)
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should leave a claimed message to its worker until the lease runs out', async () => {
+    sendNewBookingNotification.mockImplementation(async () => {
+      // Another worker looking while this one is still sending
+      expect(await OutboxService.deliverDue(new Date(start.getTime() + OUTBOX_LEASE_MS - 1))).toEqual({ sent: 0, retrying: 0, dead: 0 })
+    })
+
+    await queue()
+    expect(await OutboxService.deliverDue(start)).toEqual({ sent: 1, retrying: 0, dead: 0 })
+  })
+
+  it('should send a dead message again on request, but never a sent one', async () => {
+    failFirst(OUTBOX_MAX_ATTEMPTS)
+    const { id } = await queue()
+
+    let now = start
+    while (state.messages.get(id)!.status === 'PENDING') {
+      await OutboxService.deliverDue(now)
+      now = state.messages.get(id)!.nextAttemptAt
+    }
+    expect(state.messages.get(id)!.status).toBe('DEAD')
+
+    const resent = await OutboxService.resend(id, now)
+    expect(resent).toMatchObject({ status: 'SENT', attempts: 1, lastError: null })
+
+    await expect(OutboxService.resend(id, now)).rejects.toThrow(OutboxValidationError)
+    await expect(OutboxService.resend('missing', now)).rejects.toThrow('Outbox message not found')
+  })
+})
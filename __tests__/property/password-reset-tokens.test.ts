@@ -0,0 +1,318 @@
+/**
+ * **Feature: travel-tour-booking, Property 54: A password reset link works once, and only for as many requests as the rate limit allows**
+ *
+ * Property-based tests for database-backed password reset tokens.
+ * For any run of reset requests, each email and IP address is turned away once it reaches its
+ * limit within the window, whether or not the email has an account; a link resets the password
+ * at most once, only a hash of its token is stored, and using it ends every other link and
+ * every open session.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import bcrypt from 'bcryptjs'
+import { NextRequest } from 'next/server'
+import {
+  PASSWORD_RESET_MAX_PER_EMAIL,
+  PASSWORD_RESET_MAX_PER_IP,
+  PASSWORD_RESET_TOKEN_MINUTES,
+  PASSWORD_RESET_WINDOW_MINUTES,
+  PasswordResetRateLimitError,
+  PasswordResetRules,
+  PasswordResetValidationError,
+} from '@/app/lib/models/password-reset'
+import { CaptureTransport, Mailer } from '@/app/lib/services/email-transports'
+
+interface FakeUser {
+  id: string
+  name: string
+  email: string
+  passwordHash: string
+  sessionVersion: number
+}
+
+interface FakeToken {
+  id: string
+  userId: string
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+}
+
+interface FakeRequest {
+  email: string
+  ipAddress: string
+  createdAt: Date
+}
+
+interface FakeTokenWhere {
+  tokenHash?: string
+  userId?: string
+  usedAt?: null
+  expiresAt?: { gt: Date }
+}
+
+const state = {
+  users: [] as FakeUser[],
+  tokens: [] as FakeToken[],
+  requests: [] as FakeRequest[]
+}
+
+const tokenMatches = (token: FakeToken, where: FakeTokenWhere) => {
+  if (where.tokenHash !== undefined && token.tokenHash !== where.tokenHash) return false
+  if (where.userId !== undefined && token.userId !== where.userId) return false
+  if (where.usedAt === null && token.usedAt !== null) return false
+  if (where.expiresAt && token.expiresAt <= where.expiresAt.gt) return false
+  return true
+}
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where }: { where: { email?: string; id?: string } }) =>
+      state.users.find(user => user.email === where.email || user.id === where.id) ?? null
+    ),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: { passwordHash: string; sessionVersion: { increment: number } } }) => {
+      const user = state.users.find(candidate => candidate.id === where.id)!
+      user.passwordHash = data.passwordHash
+      user.sessionVersion += data.sessionVersion.increment
+      return user
+    })
+  },
+  passwordResetRequest: {
+    findMany: jest.fn(async ({ where }: { where: { email?: string; ipAddress?: string; createdAt: { gt: Date } } }) =>
+      state.requests.filter(request =>
+        (where.email === undefined || request.email === where.email) &&
+        (where.ipAddress === undefined || request.ipAddress === where.ipAddress) &&
+        request.createdAt > where.createdAt.gt
+      )
+    ),
+    deleteMany: jest.fn(async ({ where }: { where: { createdAt: { lte: Date } } }) => {
+      const before = state.requests.length
+      state.requests = state.requests.filter(request => request.createdAt > where.createdAt.lte)
+      return { count: before - state.requests.length }
+    }),
+    create: jest.fn(async ({ data }: { data: FakeRequest }) => {
+      state.requests.push({ ...data })
+      return data
+    })
+  },
+  passwordResetToken: {
+    create: jest.fn(async ({ data }: { data: Omit<FakeToken, 'id' | 'usedAt'> }) => {
+      const token = { id: `token-${state.tokens.length + 1}`, usedAt: null, ...data }
+      state.tokens.push(token)
+      return token
+    }),
+    findUnique: jest.fn(async ({ where }: { where: { tokenHash: string } }) =>
+      state.tokens.find(token => token.tokenHash === where.tokenHash) ?? null
+    ),
+    // Check and write in one step, like the conditional UPDATE in Postgres
+    updateMany: jest.fn(async ({ where, data }: { where: FakeTokenWhere; data: { usedAt: Date } }) => {
+      const matched = state.tokens.filter(token => tokenMatches(token, where))
+      matched.forEach(token => { token.usedAt = data.usedAt })
+      return { count: matched.length }
+    })
+  },
+  $transaction: jest.fn(async (run: (tx: unknown) => Promise<unknown>) => run(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let PasswordResetService: typeof import('../../app/lib/services/password-reset').PasswordResetService
+let authOptions: typeof import('../../app/lib/auth').authOptions
+
+const start = new Date('2027-01-01T00:00:00Z')
+const minutes = (count: number) => new Date(start.getTime() + count * 60 * 1000)
+
+// The token from the link in the latest reset email to an address; captured emails are newest first
+const tokenSentTo = (email: string) =>
+  CaptureTransport.messages().find(message => message.to === email)?.text.match(/token=([0-9a-f]+)/)?.[1]
+
+const addUser = (email: string) => {
+  const user = { id: `user-${state.users.length + 1}`, name: 'Kofi', email, passwordHash: 'old-hash', sessionVersion: 0 }
+  state.users.push(user)
+  return user
+}
+
+describe('Password Reset Token Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ PasswordResetService } = await import('../../app/lib/services/password-reset'));
+    ({ authOptions } = await import('../../app/lib/auth'))
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    state.users = []
+    state.tokens = []
+    state.requests = []
+    Mailer.use(null)
+    CaptureTransport.clear()
+  })
+
+  it('should allow another request exactly when enough earlier ones have left the window', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: PASSWORD_RESET_WINDOW_MINUTES * 60 - 1 }), { maxLength: 15 }),
+        fc.integer({ min: 1, max: 10 }),
+        (secondsAgo, limit) => {
+          const now = minutes(PASSWORD_RESET_WINDOW_MINUTES)
+          const requests = secondsAgo.map(seconds => new Date(now.getTime() - seconds * 1000))
+          const wait = PasswordResetRules.retryAfterSeconds(requests, limit, now)
+
+          expect(wait === 0).toBe(requests.length < limit)
+
+          // After waiting, fewer than the limit are still in the window
+          const later = new Date(now.getTime() + wait * 1000)
+          const windowStart = PasswordResetRules.windowStart(later)
+          expect(requests.filter(request => request > windowStart).length).toBeLessThan(limit)
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should turn away requests past the per-email and per-IP limits, registered or not', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            email: fc.constantFrom('kofi@example.com', 'KOFI@example.com', 'nobody@example.com'),
+            ip: fc.constantFrom('203.0.113.7', '198.51.100.2'),
+            minute: fc.integer({ min: 0, max: 150 })
+          }),
+          { maxLength: 25 }
+        ),
+        async (attempts) => {
+          state.users = []
+          state.tokens = []
+          state.requests = []
+          CaptureTransport.clear()
+          addUser('kofi@example.com')
+
+          const accepted: { email: string; ip: string; at: Date }[] = []
+          for (const attempt of [...attempts].sort((a, b) => a.minute - b.minute)) {
+            const at = minutes(attempt.minute)
+            const email = attempt.email.toLowerCase()
+            const windowStart = PasswordResetRules.windowStart(at)
+            const recent = accepted.filter(request => request.at > windowStart)
+            const allowed =
+              recent.filter(request => request.email === email).length < PASSWORD_RESET_MAX_PER_EMAIL &&
+              recent.filter(request => request.ip === attempt.ip).length < PASSWORD_RESET_MAX_PER_IP
+
+            const result = PasswordResetService.requestReset(attempt.email, attempt.ip, at)
+            if (allowed) {
+              await expect(result).resolves.toBeUndefined()
+              accepted.push({ email, ip: attempt.ip, at })
+            } else {
+              await expect(result).rejects.toThrow(PasswordResetRateLimitError)
+            }
+          }
+
+          // Only accepted requests for the registered address sent a link
+          const registered = accepted.filter(request => request.email === 'kofi@example.com').length
+          expect(CaptureTransport.messages()).toHaveLength(registered)
+          expect(state.tokens).toHaveLength(registered)
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should count requests against the address the proxy saw, whatever hops the client forwards', async () => {
+    const { POST } = await import('../../app/api/auth/reset-password/route')
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.ipV4(), { minLength: PASSWORD_RESET_MAX_PER_IP + 1, maxLength: PASSWORD_RESET_MAX_PER_IP + 3 }),
+        async (spoofed) => {
+          state.requests = []
+
+          const statuses: number[] = []
+          for (const [index, hop] of spoofed.entries()) {
+            const response = await POST(new NextRequest('http://localhost/api/auth/reset-password', {
+              method: 'POST',
+              headers: { 'x-forwarded-for': `${hop}, 203.0.113.7` },
+              body: JSON.stringify({ email: `user${index}@example.com` })
+            }))
+            statuses.push(response.status)
+          }
+
+          expect(state.requests.every(request => request.ipAddress === '203.0.113.7')).toBe(true)
+          expect(statuses.slice(0, PASSWORD_RESET_MAX_PER_IP).every(status => status === 200)).toBe(true)
+          expect(statuses.slice(PASSWORD_RESET_MAX_PER_IP).every(status => status === 429)).toBe(true)
+        }
+      ),
+      { numRuns: 10 }
+    )
+  })
+
+  it('should reset the password once per link and end every other link and session', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: PASSWORD_RESET_MAX_PER_EMAIL }),
+        fc.string({ minLength: 6, maxLength: 30 }).filter(password => password.trim().length >= 6),
+        async (links, newPassword) => {
+          state.users = []
+          state.tokens = []
+          state.requests = []
+          CaptureTransport.clear()
+          const user = addUser('ama@example.com')
+
+          const tokens: string[] = []
+          for (let index = 0; index < links; index++) {
+            await PasswordResetService.requestReset('ama@example.com', '203.0.113.7', minutes(index))
+            tokens.push(tokenSentTo('ama@example.com')!)
+          }
+
+          // Each request sent its own link, and only hashes are stored
+          expect(new Set(tokens).size).toBe(links)
+          for (const token of tokens) {
+            expect(state.tokens.some(stored => stored.tokenHash === token)).toBe(false)
+          }
+
+          const session = { sub: user.id, email: user.email, role: 'CUSTOMER' }
+          const signedIn = await authOptions.callbacks!.jwt!({ token: session, user: { id: user.id, role: 'CUSTOMER' } } as never)
+          await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).resolves.toEqual(signedIn)
+
+          const used = tokens[tokens.length - 1]
+          await PasswordResetService.resetPassword(used, newPassword, minutes(links))
+
+          expect(await bcrypt.compare(newPassword, user.passwordHash)).toBe(true)
+          expect(user.sessionVersion).toBe(1)
+          expect(state.tokens.every(token => token.usedAt !== null)).toBe(true)
+
+          await expect(PasswordResetService.resetPassword(used, 'another-password', minutes(links))).rejects.toThrow('Reset token has already been used')
+          for (const other of tokens.slice(0, -1)) {
+            await expect(PasswordResetService.resetPassword(other, 'another-password', minutes(links))).rejects.toThrow(PasswordResetValidationError)
+          }
+
+          // Sessions signed in before the reset are signed out
+          await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).rejects.toThrow('Session has been revoked')
+        }
+      ),
+      { numRuns: 5 }
+    )
+  }, 30000)
+
+  it('should reject expired, unknown and badly formed requests', async () => {
+    addUser('ama@example.com')
+    await PasswordResetService.requestReset('ama@example.com', '203.0.113.7', start)
+    const token = tokenSentTo('ama@example.com')!
+
+    await expect(PasswordResetService.resetPassword(token, 'new-password', minutes(PASSWORD_RESET_TOKEN_MINUTES)))
+      .rejects.toThrow('Invalid or expired reset token')
+    await expect(PasswordResetService.resetPassword('not-a-token', 'new-password', start))
+      .rejects.toThrow('Invalid or expired reset token')
+    await expect(PasswordResetService.resetPassword(token, '12345', start))
+      .rejects.toThrow('Password must be at least 6 characters')
+    await expect(PasswordResetService.resetPassword('', 'new-password', start))
+      .rejects.toThrow('Token and new password are required')
+    await expect(PasswordResetService.requestReset('not-an-email', '203.0.113.7', start))
+      .rejects.toThrow('Valid email address is required')
+
+    expect(state.users[0].passwordHash).toBe('old-hash')
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * **Feature: travel-tour-booking, Property 63: A payment is only started for what the booking owes**
+ *
+ * Property-based tests for payment initialization.
+ * For any amount, a pending booking only takes a payment of its full total and a confirmed
+ * one only of the balance still due, and the payment is recorded in the booking's currency.
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus } from '@prisma/client'
+
+// The sandbox is only registered with a secret to sign its webhooks
+process.env.SANDBOX_WEBHOOK_SECRET = 'test-secret'
+
+const state = {
+  status: 'PENDING' as BookingStatus,
+  totalPrice: 0,
+  paid: 0,
+  currency: 'USD'
+}
+
+const mockPrisma = {
+  booking: {
+    findUnique: jest.fn(async () => ({
+      id: 'booking-1',
+      status: state.status,
+      totalPrice: BigInt(state.totalPrice),
+      currency: state.currency,
+      holdExpiresAt: null,
+      payments: state.paid > 0 ? [{ amount: BigInt(state.paid), status: 'SUCCESS', refunds: [] }] : []
+    }))
+  },
+  payment: {
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+      id: 'payment-1',
+      ...data,
+      providerTransactionId: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })),
+    update: jest.fn(async () => ({}))
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({ prisma: mockPrisma }))
+
+let PaymentService: typeof import('../../app/lib/services/payment').PaymentService
+
+describe('Payment Initialization Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ PaymentService } = await import('../../app/lib/services/payment'))
+  })
+
+  it('should only start a payment for the booking total, or the balance due once confirmed', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom<BookingStatus>('PENDING', 'CONFIRMED'),
+        fc.integer({ min: 1, max: 1_000_000 }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.constantFrom('USD', 'NGN', 'GHS'),
+        fc.boolean(),
+        fc.option(fc.integer({ min: 1, max: 2_000_000 })),
+        async (status, totalPrice, paidShare, currency, lowerCase, otherAmount) => {
+          const paid = status === 'CONFIRMED' ? Math.floor(totalPrice * paidShare) : 0
+          Object.assign(state, { status, totalPrice, paid, currency })
+          mockPrisma.payment.create.mockClear()
+
+          const owed = totalPrice - paid
+          const amount = otherAmount ?? owed
+
+          const outcome = await PaymentService.initializePayment({
+            bookingId: 'booking-1',
+            amount,
+            currency: lowerCase ? currency.toLowerCase() : currency,
+            method: 'CARD',
+            provider: 'SANDBOX'
+          }).catch((error: Error) => error)
+
+          if (owed <= 0) {
+            expect(outcome).toEqual(new Error('Booking is not in pending status'))
+          } else if (amount !== owed) {
+            expect(outcome).toBeInstanceOf(Error)
+            expect((outcome as Error).message).toMatch(/^Payment amount must match the (booking total|balance due)/)
+          } else {
+            expect(outcome).toMatchObject({ id: 'payment-1', status: 'PENDING' })
+            expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+              data: expect.objectContaining({ amount, currency })
+            })
+            return
+          }
+          expect(mockPrisma.payment.create).not.toHaveBeenCalled()
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+})
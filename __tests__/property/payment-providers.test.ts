@@ -0,0 +1,216 @@
+/**
+ * **Feature: travel-tour-booking, Property 41: Sandbox webhooks round-trip through the provider adapter**
+ *
+ * Property-based tests for payment provider adapters.
+ * For any sandbox checkout outcome, the webhook the sandbox sends is accepted by its own
+ * signature check and parses back to the matching payment status, while any tampering
+ * with the body is rejected.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, jest } from '@jest/globals'
+import * as fc from 'fast-check'
+import crypto from 'crypto'
+import { Payment } from '@prisma/client'
+
+type Providers = typeof import('@/app/lib/services/payment-providers')
+
+let PaymentProviderRegistry: Providers['PaymentProviderRegistry']
+let SandboxProvider: Providers['SandboxProvider']
+let SANDBOX_SIGNATURE_HEADER: Providers['SANDBOX_SIGNATURE_HEADER']
+
+const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'pay_1',
+  bookingId: 'booking_1',
+  amount: BigInt(120),
+  currency: 'USD',
+  method: 'CARD',
+  provider: 'SANDBOX',
+  status: 'PENDING',
+  providerTransactionId: 'sandbox_pay_1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+})
+
+describe('Payment Provider Properties', () => {
+  const originalFetch = global.fetch
+
+  beforeAll(async () => {
+    // The sandbox is only registered with a secret to sign its webhooks
+    process.env.SANDBOX_WEBHOOK_SECRET = 'test-secret';
+    ({ PaymentProviderRegistry, SandboxProvider, SANDBOX_SIGNATURE_HEADER } = await import('@/app/lib/services/payment-providers'))
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should register every provider including the sandbox outside production', () => {
+    for (const provider of ['STRIPE', 'PAYSTACK', 'FLUTTERWAVE', 'SANDBOX'] as const) {
+      expect(PaymentProviderRegistry.has(provider)).toBe(true)
+      expect(PaymentProviderRegistry.get(provider).provider).toBe(provider)
+    }
+    expect(PaymentProviderRegistry.has('PAYPAL')).toBe(false)
+  })
+
+  it('should leave the sandbox off, and refuse its webhooks, without a webhook secret', async () => {
+    const secret = process.env.SANDBOX_WEBHOOK_SECRET
+    delete process.env.SANDBOX_WEBHOOK_SECRET
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const providers: Providers = await import('@/app/lib/services/payment-providers')
+        expect(providers.PaymentProviderRegistry.has('SANDBOX')).toBe(false)
+
+        // A body signed with an empty key, as a guessed default would be
+        const sandbox = new providers.SandboxProvider()
+        const body = JSON.stringify({ id: 'evt_1', type: 'payment.succeeded', data: { paymentId: 'pay_1' } })
+        const timestamp = Math.floor(Date.now() / 1000)
+        const signature = crypto.createHmac('sha256', '').update(`${timestamp}.${body}`).digest('hex')
+        const headers = new Headers({ [SANDBOX_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` })
+
+        expect(sandbox.verifySignature(body, headers)).toEqual({ valid: false, reason: 'Sandbox webhook secret is not configured' })
+        expect(() => sandbox.sign(body)).toThrow('Sandbox webhook secret is not configured')
+      })
+    } finally {
+      process.env.SANDBOX_WEBHOOK_SECRET = secret
+      consoleError.mockRestore()
+    }
+  })
+
+  it('should accept only bodies signed with the sandbox secret', () => {
+    const sandbox = new SandboxProvider('test-secret', 'http://localhost/webhook')
+    const impostor = new SandboxProvider('other-secret', 'http://localhost/webhook')
+
+    fc.assert(
+      fc.property(fc.string(), fc.string({ minLength: 1 }), (body, suffix) => {
+        const headers = new Headers({ [SANDBOX_SIGNATURE_HEADER]: sandbox.sign(body) })
+
+        expect(sandbox.verifySignature(body, headers).valid).toBe(true)
+        expect(sandbox.verifySignature(body + suffix, headers).valid).toBe(false)
+        expect(impostor.verifySignature(body, headers).valid).toBe(false)
+        expect(sandbox.verifySignature(body, new Headers()).valid).toBe(false)
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should send a signed webhook that parses back to the checkout outcome', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), fc.uuid(), async (approved, paymentId) => {
+        const sandbox = new SandboxProvider('test-secret', 'http://localhost/webhook')
+        const sent: { body: string; headers: Headers }[] = []
+
+        const fetchMock = jest.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+          sent.push({ body: init?.body as string, headers: new Headers(init?.headers) })
+          return new Response(JSON.stringify({ success: true }), { status: 200 })
+        })
+        global.fetch = fetchMock as unknown as typeof fetch
+
+        await sandbox.completeCheckout(payment({ id: paymentId }), approved)
+
+        expect(sent).toHaveLength(1)
+        expect(sandbox.verifySignature(sent[0].body, sent[0].headers).valid).toBe(true)
+
+        const event = sandbox.parseWebhook(JSON.parse(sent[0].body))
+        expect(event?.eventType).toBe(approved ? 'payment.succeeded' : 'payment.failed')
+        expect(event?.update).toEqual({
+          kind: 'payment',
+          data: {
+            paymentId,
+            status: approved ? 'SUCCESS' : 'FAILED',
+            providerTransactionId: 'sandbox_pay_1',
+            provider: 'SANDBOX'
+          }
+        })
+        expect(await sandbox.verify(payment({ id: paymentId }))).toBe(approved ? 'SUCCESS' : 'FAILED')
+      }),
+      { numRuns: 25 }
+    )
+  })
+
+  it('should report sandbox refunds as pending and settle them by webhook', async () => {
+    const sandbox = new SandboxProvider('test-secret', 'http://localhost/webhook')
+    const sent: string[] = []
+    global.fetch = jest.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      sent.push(init?.body as string)
+      return new Response('{}', { status: 200 })
+    }) as unknown as typeof fetch
+
+    const result = await sandbox.refund(payment({ status: 'SUCCESS' }), {
+      id: 'refund_1',
+      paymentId: 'pay_1',
+      amount: BigInt(50),
+      currency: 'USD',
+      reason: 'Booking cancelled',
+      status: 'PENDING',
+      providerRefundId: null,
+      actorId: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })
+    await new Promise(resolve => setImmediate(resolve))
+
+    expect(result).toEqual({ status: 'PENDING', providerRefundId: 'sandbox_rf_refund_1' })
+    expect(sandbox.parseWebhook(JSON.parse(sent[0]))?.update).toEqual({
+      kind: 'refund',
+      data: {
+        refundId: 'refund_1',
+        status: 'SUCCESS',
+        providerRefundId: 'sandbox_rf_refund_1',
+        provider: 'SANDBOX'
+      }
+    })
+  })
+
+  it('should not pretend to refund through providers whose refund API is not wired up', async () => {
+    expect(PaymentProviderRegistry.get('SANDBOX').supportsRefunds).toBe(true)
+
+    for (const provider of ['STRIPE', 'PAYSTACK', 'FLUTTERWAVE'] as const) {
+      const adapter = PaymentProviderRegistry.get(provider)
+      expect(adapter.supportsRefunds).toBe(false)
+      await expect(adapter.refund(payment({ provider, status: 'SUCCESS' }), {
+        id: 'refund_1',
+        paymentId: 'pay_1',
+        amount: BigInt(50),
+        currency: 'USD',
+        reason: 'Booking cancelled',
+        status: 'PENDING',
+        providerRefundId: null,
+        actorId: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })).rejects.toThrow('refunds are not implemented')
+    }
+  })
+
+  it('should refuse checkouts through providers whose checkout API is not wired up', async () => {
+    expect(PaymentProviderRegistry.get('SANDBOX').supportsCheckout).toBe(true)
+
+    for (const provider of ['STRIPE', 'PAYSTACK', 'FLUTTERWAVE'] as const) {
+      const adapter = PaymentProviderRegistry.get(provider)
+      expect(adapter.supportsCheckout).toBe(false)
+      await expect(adapter.initialize(payment({ provider }), {
+        bookingId: 'booking_1',
+        amount: 120,
+        currency: 'USD',
+        method: 'CARD',
+        provider
+      })).rejects.toThrow('checkout is not implemented')
+      await expect(adapter.verify(payment({ provider }))).rejects.toThrow('verification is not implemented')
+    }
+  })
+
+  it('should ignore webhook bodies that are not payment or refund events', () => {
+    const sandbox = new SandboxProvider('test-secret')
+
+    fc.assert(
+      fc.property(fc.string({ minLength: 1 }), (type) => {
+        fc.pre(!['payment.succeeded', 'payment.failed', 'refund.succeeded', 'refund.failed'].includes(type))
+        expect(sandbox.parseWebhook({ id: 'evt_1', type, data: { paymentId: 'pay_1', refundId: 'refund_1' } })?.update).toBeNull()
+      })
+    )
+    expect(sandbox.parseWebhook({ type: 'payment.succeeded', data: { paymentId: 'pay_1' } })).toBeNull()
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * **Feature: travel-tour-booking, Property 56: Admin routes let a user through exactly when their role grants the route's permission**
+ *
+ * Property-based tests for role permissions.
+ * For any role and permission, the permission check agrees with the role's permission table,
+ * using the role stored for the user rather than the one in their session; staff can run
+ * bookings but cannot refund, change prices, publish or see revenue.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import { NextRequest } from 'next/server'
+import {
+  PERMISSIONS,
+  PermissionRules,
+  ROLE_PERMISSIONS,
+  type Permission,
+} from '@/app/lib/models/permission'
+
+interface FakeUser {
+  id: string
+  email: string
+  role: string
+}
+
+const state = {
+  session: null as { user: { email: string; role: string } } | null,
+  users: [] as FakeUser[]
+}
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where }: { where: { email: string } }) =>
+      state.users.find(user => user.email === where.email) ?? null
+    )
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(async () => state.session)
+}))
+
+let requirePermission: typeof import('../../app/lib/middleware/auth-middleware').requirePermission
+
+const roles = ['ADMIN', 'STAFF', 'CUSTOMER'] as const
+const request = (path = '/api/admin') => new NextRequest(`http://localhost${path}`)
+
+const signIn = (storedRole: string, sessionRole = storedRole) => {
+  state.users = [{ id: 'user-1', email: 'ama@example.com', role: storedRole }]
+  state.session = { user: { email: 'ama@example.com', role: sessionRole } }
+}
+
+describe('Permission Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ requirePermission } = await import('../../app/lib/middleware/auth-middleware'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.session = null
+    state.users = []
+    mockPrisma.user.findUnique.mockClear()
+  })
+
+  it('should grant admins everything, customers nothing and staff only day-to-day operations', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.constantFrom(...roles, 'toString', 'constructor'), fc.string({ maxLength: 10 })),
+        fc.constantFrom(...PERMISSIONS),
+        (role, permission) => {
+          const granted: readonly Permission[] = Object.hasOwn(ROLE_PERMISSIONS, role)
+            ? ROLE_PERMISSIONS[role as keyof typeof ROLE_PERMISSIONS]
+            : []
+
+          expect(PermissionRules.can(role, permission)).toBe(granted.includes(permission))
+          expect(PermissionRules.hasAdminAccess(role)).toBe(role === 'ADMIN' || role === 'STAFF')
+
+          // Whatever staff may do, admins may do too
+          if (PermissionRules.can('STAFF', permission)) {
+            expect(PermissionRules.can('ADMIN', permission)).toBe(true)
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+
+    expect(PermissionRules.permissionsFor('ADMIN')).toEqual(PERMISSIONS)
+    expect(PermissionRules.permissionsFor(null)).toEqual([])
+    for (const permission of ['payments:refund', 'pricing:manage', 'content:publish', 'reports:view', 'tours:write'] as const) {
+      expect(PermissionRules.can('STAFF', permission)).toBe(false)
+    }
+  })
+
+  it('should let a request through exactly when the stored role grants the permission', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...roles),
+        fc.constantFrom(...roles),
+        fc.constantFrom(...PERMISSIONS),
+        async (storedRole, sessionRole, permission) => {
+          signIn(storedRole, sessionRole)
+
+          const response = await requirePermission(request(), permission)
+
+          // A role changed since sign-in takes effect on the next request
+          if (PermissionRules.can(storedRole, permission)) {
+            expect(response).toBeNull()
+          } else {
+            expect(response!.status).toBe(403)
+            const body = await response!.json()
+            expect(body).toEqual({
+              success: false,
+              error: `You do not have permission to do this (${permission})`,
+              code: 'PERMISSION_REQUIRED'
+            })
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should turn away signed-out users and users who no longer exist', async () => {
+    const signedOut = await requirePermission(request(), 'bookings:read')
+    expect(signedOut!.status).toBe(401)
+
+    state.session = { user: { email: 'gone@example.com', role: 'ADMIN' } }
+    const deleted = await requirePermission(request(), 'bookings:read')
+    expect(deleted!.status).toBe(401)
+  })
+
+  it('should keep staff out of refunds, pricing and reports before touching any of their data', async () => {
+    const { POST: refund } = await import('../../app/api/admin/payments/[id]/refunds/route')
+    const { GET: exchangeRates } = await import('../../app/api/admin/exchange-rates/route')
+    const { GET: reports } = await import('../../app/api/admin/reports/route')
+
+    signIn('STAFF')
+    const responses = [
+      await refund(request('/api/admin/payments/payment-1/refunds'), { params: Promise.resolve({ id: 'payment-1' }) }),
+      await exchangeRates(request('/api/admin/exchange-rates')),
+      await reports(request('/api/admin/reports'))
+    ]
+
+    expect(responses.map(response => response.status)).toEqual([403, 403, 403])
+    // Only the user's own record was read
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledTimes(3)
+  })
+})
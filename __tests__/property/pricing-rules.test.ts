@@ -0,0 +1,262 @@
+/**
+ * **Feature: travel-tour-booking, Property 46: A departure costs the same on the tour page and in the booking**
+ *
+ * Property-based tests for per-departure pricing rules.
+ * For any set of rules, departure and traveler mix, the most specific rule of each type
+ * applies, prices never go below zero, and a booking stores exactly the unit prices and
+ * subtotal the tour page computes with the same pricing function.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  Money,
+  PricingRuleTerms,
+  PricingRuleValidator,
+  PricingRuleValidationError,
+  TourPricing,
+} from '@/app/lib/models'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const bookedAt = new Date('2027-01-01T12:00:00Z')
+const daysOut = (days: number) => new Date(bookedAt.getTime() + days * DAY_MS)
+
+const rule = (overrides: Partial<PricingRuleTerms>): PricingRuleTerms => ({
+  type: 'SEASONAL',
+  adjustmentPercent: -10,
+  startDate: null,
+  endDate: null,
+  minDaysBefore: null,
+  maxDaysBefore: null,
+  travelerType: null,
+  minTravelers: null,
+  isActive: true,
+  ...overrides
+})
+
+const state = {
+  rules: [] as PricingRuleTerms[],
+  startDate: daysOut(60),
+  created: null as Record<string, unknown> | null
+}
+
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      tourId: 'tour-1',
+      startDate: state.startDate,
+      tour: {
+        id: 'tour-1',
+        destinationId: 'dest-1',
+        pricePerPerson: 12345,
+        currency: 'USD'
+      }
+    })),
+    updateMany: jest.fn(async () => ({ count: 1 }))
+  },
+  pricingRule: {
+    findMany: jest.fn(async () => state.rules)
+  },
+  exchangeRate: {
+    findMany: jest.fn(async () => [
+      { baseCurrency: 'USD', quoteCurrency: 'GHS', rate: 15.37, effectiveFrom: new Date('2026-01-01T00:00:00Z') }
+    ])
+  },
+  booking: {
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      state.created = data
+      return { id: 'booking-1', ...data }
+    })
+  },
+  bookingEvent: {
+    create: jest.fn(async () => ({}))
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: { enqueue: jest.fn(), deliverQueuedQuietly: jest.fn() }
+}))
+
+let BookingService: typeof import('../../app/lib/services/booking').BookingService
+
+const ruleArb = fc.oneof(
+  fc.record({
+    type: fc.constant('SEASONAL' as const),
+    adjustmentPercent: fc.integer({ min: -50, max: 100 }),
+    startDate: fc.integer({ min: 0, max: 120 }).map(daysOut),
+    endDate: fc.integer({ min: 120, max: 240 }).map(daysOut)
+  }),
+  fc.record({ type: fc.constant('EARLY_BIRD' as const), adjustmentPercent: fc.integer({ min: -50, max: -1 }), minDaysBefore: fc.integer({ min: 1, max: 180 }) }),
+  fc.record({ type: fc.constant('LAST_MINUTE' as const), adjustmentPercent: fc.integer({ min: -50, max: 50 }), maxDaysBefore: fc.integer({ min: 0, max: 30 }) }),
+  fc.record({ type: fc.constant('GROUP' as const), adjustmentPercent: fc.integer({ min: -30, max: -1 }), minTravelers: fc.integer({ min: 2, max: 10 }) }),
+  fc.record({
+    type: fc.constant('TRAVELER_TYPE' as const),
+    adjustmentPercent: fc.integer({ min: -100, max: -1 }),
+    travelerType: fc.constantFrom('CHILD' as const, 'SENIOR' as const)
+  })
+).map(rule)
+
+const mixArb = fc.integer({ min: 1, max: 10 }).chain(travelersCount =>
+  fc.tuple(fc.constant(travelersCount), fc.integer({ min: 0, max: travelersCount })).chain(([count, children]) =>
+    fc.record({
+      travelersCount: fc.constant(count),
+      children: fc.constant(children),
+      seniors: fc.integer({ min: 0, max: count - children })
+    })
+  )
+)
+
+describe('Pricing Rule Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ BookingService } = await import('../../app/lib/services/booking'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.rules = []
+    state.startDate = daysOut(60)
+    state.created = null
+  })
+
+  it('should charge the tour price when no rule applies', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 100, max: 10_000_000 }), fc.integer({ min: 0, max: 365 }), (amount, days) => {
+        const price = Money.of(amount, 'USD')
+        const departure = TourPricing.departurePrice(price, [rule({ isActive: false })], {
+          departureDate: daysOut(days), travelersCount: 1, bookedAt
+        })
+
+        expect(departure.unitPrices).toEqual({ ADULT: price, CHILD: price, SENIOR: price })
+        expect(departure.rules).toEqual([])
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should apply the most specific rule of each type', () => {
+    const tiers = [
+      rule({ type: 'EARLY_BIRD', minDaysBefore: 30, adjustmentPercent: -5 }),
+      rule({ type: 'EARLY_BIRD', minDaysBefore: 90, adjustmentPercent: -15 }),
+      rule({ type: 'GROUP', minTravelers: 4, adjustmentPercent: -5 }),
+      rule({ type: 'GROUP', minTravelers: 8, adjustmentPercent: -10 }),
+      rule({ type: 'SEASONAL', startDate: daysOut(0), endDate: daysOut(365), adjustmentPercent: 10 }),
+      rule({ type: 'SEASONAL', startDate: daysOut(95), endDate: daysOut(105), adjustmentPercent: 40 })
+    ]
+
+    const price = (days: number, travelersCount: number) => TourPricing.departurePrice(
+      Money.of(10000, 'USD'), tiers, { departureDate: daysOut(days), travelersCount, bookedAt }
+    )
+
+    expect(price(100, 8).adjustmentPercent).toBe(-15 + -10 + 40)
+    expect(price(60, 5).adjustmentPercent).toBe(-5 + -5 + 10)
+    expect(price(10, 1).adjustmentPercent).toBe(10)
+    expect(price(100, 8).unitPrices.ADULT).toEqual(Money.of(11500, 'USD'))
+
+    // Seasons include the whole of their first and last day
+    const season = [rule({ type: 'SEASONAL', startDate: new Date('2027-03-01T00:00:00Z'), endDate: new Date('2027-03-31T00:00:00Z') })]
+    const departing = (date: string) => TourPricing.applicableRules(season, {
+      departureDate: new Date(date), travelersCount: 1, bookedAt
+    }).length
+    expect(departing('2027-03-31T18:00:00Z')).toBe(1)
+    expect(departing('2027-04-01T00:00:00Z')).toBe(0)
+  })
+
+  it('should never price a traveler below zero and apply traveler types on top', () => {
+    fc.assert(
+      fc.property(fc.array(ruleArb, { maxLength: 8 }), fc.integer({ min: 0, max: 240 }), mixArb, (rules, days, mix) => {
+        const departure = TourPricing.departurePrice(Money.of(12345, 'USD'), rules, {
+          departureDate: daysOut(days), travelersCount: mix.travelersCount, bookedAt
+        })
+        const { ADULT, CHILD, SENIOR } = departure.unitPrices
+
+        expect(ADULT.amount).toBeGreaterThanOrEqual(0)
+        expect(ADULT.amount).toBe(Math.round(12345 * (100 + departure.adjustmentPercent) / 100))
+        expect(CHILD.amount).toBeLessThanOrEqual(ADULT.amount)
+        expect(SENIOR.amount).toBeLessThanOrEqual(ADULT.amount)
+
+        // At most one rule of each type, and one per traveler type
+        const keys = departure.rules.map(applied => `${applied.type}:${applied.travelerType}`)
+        expect(new Set(keys).size).toBe(keys.length)
+
+        const travelers = TourPricing.travelerMix(mix.travelersCount, mix.children, mix.seniors)
+        const lines = TourPricing.lines(departure.unitPrices, travelers)
+        expect(lines.reduce((count, line) => count + line.count, 0)).toBe(mix.travelersCount)
+        expect(TourPricing.subtotal(departure.unitPrices, travelers).amount)
+          .toBe(lines.reduce((sum, line) => sum + line.unitPrice * line.count, 0))
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should book at exactly the price the tour page shows', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(ruleArb, { maxLength: 6 }),
+        fc.integer({ min: 1, max: 240 }),
+        mixArb,
+        fc.constantFrom('USD', 'GHS'),
+        async (rules, days, mix, currency) => {
+          state.rules = rules
+          state.startDate = daysOut(days)
+          const rate = currency === 'USD' ? 1 : 15.37
+
+          await BookingService.createBooking({
+            userId: 'user-1',
+            tourId: 'tour-1',
+            availabilityId: 'avail-1',
+            travelersCount: mix.travelersCount,
+            childrenCount: mix.children,
+            seniorsCount: mix.seniors,
+            currency
+          })
+
+          // What the tour page computes: the same function, each unit price converted for display
+          const departure = TourPricing.departurePrice(Money.of(12345, 'USD'), rules, {
+            departureDate: state.startDate, travelersCount: mix.travelersCount
+          })
+          const shown = TourPricing.convert(departure.unitPrices, rate, currency)
+          const travelers = TourPricing.travelerMix(mix.travelersCount, mix.children, mix.seniors)
+
+          expect(state.created).toMatchObject({
+            subtotalPrice: TourPricing.subtotal(shown, travelers).amount,
+            totalPrice: TourPricing.subtotal(shown, travelers).amount,
+            childrenCount: mix.children,
+            seniorsCount: mix.seniors,
+            priceLines: TourPricing.lines(shown, travelers),
+            baseTotalPrice: TourPricing.subtotal(departure.unitPrices, travelers).amount
+          })
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should refuse impossible traveler mixes and rules', async () => {
+    expect(() => TourPricing.travelerMix(2, 2, 1)).toThrow(PricingRuleValidationError)
+    expect(() => TourPricing.travelerMix(2, -1, 0)).toThrow(PricingRuleValidationError)
+    await expect(BookingService.createBooking({
+      userId: 'user-1', tourId: 'tour-1', availabilityId: 'avail-1', travelersCount: 1, childrenCount: 2
+    })).rejects.toThrow('cannot outnumber')
+
+    const valid = { name: 'Summer', type: 'SEASONAL' as const, adjustmentPercent: 20, startDate: daysOut(0), endDate: daysOut(30) }
+    expect(() => PricingRuleValidator.validateCreateData(valid)).not.toThrow()
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, adjustmentPercent: 0 })).toThrow(PricingRuleValidationError)
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, adjustmentPercent: -101 })).toThrow(PricingRuleValidationError)
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, endDate: daysOut(-1) })).toThrow('cannot end before')
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, type: 'EARLY_BIRD' })).toThrow(PricingRuleValidationError)
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, type: 'TRAVELER_TYPE', travelerType: 'ADULT' })).toThrow(PricingRuleValidationError)
+    expect(() => PricingRuleValidator.validateCreateData({ ...valid, type: 'GROUP', minTravelers: 1 })).toThrow(PricingRuleValidationError)
+
+    // Only the fields of the rule's type are kept
+    expect(PricingRuleValidator.termsFor({ ...valid, type: 'GROUP', minTravelers: 6 })).toMatchObject({
+      startDate: null, endDate: null, minTravelers: 6
+    })
+  })
+})
@@ -0,0 +1,255 @@
+/**
+ * **Feature: travel-tour-booking, Property 45: Promo codes discount only the bookings they apply to, never below zero**
+ *
+ * Property-based tests for promo codes.
+ * For any code and booking, the code is only accepted inside its scope, validity window,
+ * group size and redemption limits; its discount never exceeds the subtotal; and the
+ * booking stores a breakdown whose total is the subtotal less the discount.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  Money,
+  PromoCode,
+  PromoCodeRules,
+  PromoCodeValidator,
+  PromoCodeValidationError,
+} from '@/app/lib/models'
+
+const basePromo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  id: 'promo-1',
+  code: 'SUMMER',
+  description: null,
+  discountType: 'PERCENTAGE',
+  discountValue: BigInt(10),
+  currency: null,
+  tourId: null,
+  destinationId: null,
+  minTravelers: 1,
+  validFrom: null,
+  validUntil: null,
+  maxRedemptions: null,
+  maxRedemptionsPerUser: null,
+  isActive: true,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+})
+
+const state = {
+  promo: null as PromoCode | null,
+  redemptions: 0,
+  claimed: true,
+  claimedWhere: null as Record<string, unknown> | null,
+  created: null as Record<string, unknown> | null
+}
+
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      startDate: new Date('2027-01-01T00:00:00Z'),
+      tourId: 'tour-1',
+      tour: {
+        id: 'tour-1',
+        destinationId: 'dest-1',
+        pricePerPerson: 12345,
+        currency: 'USD'
+      }
+    })),
+    updateMany: jest.fn(async () => ({ count: 1 }))
+  },
+  promoCode: {
+    findUnique: jest.fn(async () => state.promo),
+    updateMany: jest.fn(async ({ where }: { where: Record<string, unknown> }) => {
+      state.claimedWhere = where
+      return { count: state.claimed ? 1 : 0 }
+    })
+  },
+  pricingRule: {
+    findMany: jest.fn(async () => [])
+  },
+  booking: {
+    count: jest.fn(async () => state.redemptions),
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      state.created = data
+      return { id: 'booking-1', ...data }
+    })
+  },
+  bookingEvent: {
+    create: jest.fn(async () => ({}))
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: { enqueue: jest.fn(), deliverQueuedQuietly: jest.fn() }
+}))
+
+let BookingService: typeof import('../../app/lib/services/booking').BookingService
+
+const context = { tourId: 'tour-1', destinationId: 'dest-1', travelersCount: 2, now: new Date('2026-06-01T00:00:00Z') }
+const noUsage = { total: 0, byUser: 0 }
+const subtotalArb = fc.integer({ min: 1, max: 10_000_000 }).map(amount => Money.of(amount, 'USD'))
+
+const book = (promoCode?: string) => BookingService.createBooking({
+  userId: 'user-1',
+  tourId: 'tour-1',
+  availabilityId: 'avail-1',
+  travelersCount: 2,
+  promoCode
+})
+
+describe('Promo Code Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ BookingService } = await import('../../app/lib/services/booking'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.promo = null
+    state.redemptions = 0
+    state.claimed = true
+    state.claimedWhere = null
+    state.created = null
+  })
+
+  it('should never discount more than the subtotal, and total the rest', () => {
+    fc.assert(
+      fc.property(
+        subtotalArb,
+        fc.oneof(
+          fc.record({ discountType: fc.constant('PERCENTAGE' as const), discountValue: fc.integer({ min: 1, max: 100 }), currency: fc.constant(null) }),
+          fc.record({ discountType: fc.constant('FIXED_AMOUNT' as const), discountValue: fc.integer({ min: 1, max: 20_000_000 }), currency: fc.constant('USD') })
+        ),
+        (subtotal, terms) => {
+          const discount = PromoCodeRules.discount(basePromo({ ...terms, discountValue: BigInt(terms.discountValue) }), subtotal)
+          const breakdown = PromoCodeRules.breakdown(subtotal, discount)
+
+          expect(discount.currency).toBe('USD')
+          expect(discount.amount).toBeGreaterThanOrEqual(0)
+          expect(discount.amount).toBeLessThanOrEqual(subtotal.amount)
+          expect(breakdown.total.amount).toBe(subtotal.amount - discount.amount)
+          expect(breakdown.total.amount).toBeGreaterThanOrEqual(0)
+
+          if (terms.discountType === 'PERCENTAGE') {
+            expect(discount.amount).toBe(Math.round(subtotal.amount * terms.discountValue / 100))
+          } else {
+            expect(discount.amount).toBe(Math.min(terms.discountValue, subtotal.amount))
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should convert fixed discounts into the booking currency', () => {
+    const promo = basePromo({ discountType: 'FIXED_AMOUNT', discountValue: BigInt(1000), currency: 'USD' })
+
+    expect(PromoCodeRules.discount(promo, Money.of(100000, 'GHS'), 15.5)).toEqual(Money.of(15500, 'GHS'))
+    expect(PromoCodeRules.discount(promo, Money.of(100000, 'JPY'), 150)).toEqual(Money.of(1500, 'JPY'))
+  })
+
+  it('should only accept a code inside its scope, window and group size', () => {
+    const rejects = (promo: PromoCode, message: string, usage = noUsage) => {
+      expect(() => PromoCodeRules.assertApplicable(promo, context, usage)).toThrow(PromoCodeValidationError)
+      expect(() => PromoCodeRules.assertApplicable(promo, context, usage)).toThrow(message)
+    }
+
+    expect(() => PromoCodeRules.assertApplicable(basePromo({ tourId: 'tour-1' }), context, noUsage)).not.toThrow()
+    expect(() => PromoCodeRules.assertApplicable(basePromo({ destinationId: 'dest-1' }), context, noUsage)).not.toThrow()
+
+    rejects(basePromo({ isActive: false }), 'no longer active')
+    rejects(basePromo({ validFrom: new Date('2026-07-01T00:00:00Z') }), 'not valid yet')
+    rejects(basePromo({ validUntil: new Date('2026-05-31T00:00:00Z') }), 'has expired')
+    rejects(basePromo({ tourId: 'tour-2' }), 'does not apply to this tour')
+    rejects(basePromo({ destinationId: 'dest-2' }), 'does not apply to this tour')
+    rejects(basePromo({ minTravelers: 3 }), 'at least 3 travelers')
+  })
+
+  it('should stop accepting a code once its redemption limits are reached', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 50 }),
+        fc.integer({ min: 0, max: 60 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 0, max: 6 }),
+        (maxRedemptions, total, maxPerUser, byUser) => {
+          const promo = basePromo({ maxRedemptions, maxRedemptionsPerUser: maxPerUser })
+          const apply = () => PromoCodeRules.assertApplicable(promo, context, { total, byUser: Math.min(byUser, total) })
+
+          if (total >= maxRedemptions || Math.min(byUser, total) >= maxPerUser) {
+            expect(apply).toThrow(PromoCodeValidationError)
+          } else {
+            expect(apply).not.toThrow()
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should reject codes with impossible terms', () => {
+    const valid = { code: 'summer-26', discountType: 'PERCENTAGE' as const, discountValue: 15 }
+
+    expect(() => PromoCodeValidator.validateCreateData(valid)).not.toThrow()
+    expect(PromoCodeValidator.normalizeCode(' summer-26 ')).toBe('SUMMER-26')
+    expect(() => PromoCodeValidator.validateCreateData({ ...valid, code: 'no' })).toThrow(PromoCodeValidationError)
+    expect(() => PromoCodeValidator.validateCreateData({ ...valid, discountValue: 101 })).toThrow(PromoCodeValidationError)
+    expect(() => PromoCodeValidator.validateCreateData({ ...valid, discountType: 'FIXED_AMOUNT', discountValue: 500 })).toThrow('supported currency')
+    expect(() => PromoCodeValidator.validateCreateData({ ...valid, tourId: 'tour-1', destinationId: 'dest-1' })).toThrow(PromoCodeValidationError)
+    expect(() => PromoCodeValidator.validateCreateData({
+      ...valid,
+      validFrom: new Date('2026-07-01T00:00:00Z'),
+      validUntil: new Date('2026-06-01T00:00:00Z')
+    })).toThrow('end after it starts')
+    expect(() => PromoCodeValidator.validateCreateData({ ...valid, maxRedemptions: 0 })).toThrow(PromoCodeValidationError)
+  })
+
+  it('should store the price breakdown and redeem the code on the booking', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 100 }), async (percent) => {
+        state.promo = basePromo({ discountValue: BigInt(percent) })
+
+        await book('summer')
+
+        const subtotal = 12345 * 2
+        const discount = Math.round(subtotal * percent / 100)
+        expect(state.created).toMatchObject({
+          subtotalPrice: subtotal,
+          discountAmount: discount,
+          totalPrice: subtotal - discount,
+          promoCodeId: 'promo-1',
+          baseTotalPrice: subtotal
+        })
+      }),
+      { numRuns: 50 }
+    )
+
+    expect(state.claimedWhere).toEqual({ id: 'promo-1', updatedAt: state.promo!.updatedAt })
+  })
+
+  it('should book at full price without a code and refuse unknown or used-up codes', async () => {
+    await book()
+    expect(state.created).toMatchObject({ subtotalPrice: 24690, discountAmount: 0, totalPrice: 24690, promoCodeId: null })
+
+    state.created = null
+    await expect(book('NOPE')).rejects.toThrow('Promo code not found')
+
+    state.promo = basePromo({ maxRedemptions: 5 })
+    state.redemptions = 5
+    await expect(book('SUMMER')).rejects.toThrow('fully redeemed')
+
+    // Another booking redeemed the code between counting and claiming
+    state.redemptions = 4
+    state.claimed = false
+    await expect(book('SUMMER')).rejects.toThrow('modified concurrently')
+    expect(state.created).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * **Feature: travel-tour-booking, Property 40: Refunds never exceed what was captured**
+ *
+ * Property-based tests for refunds.
+ * For any sequence of refund attempts against a payment, only amounts within the
+ * refundable balance are accepted, and the payment status reflects what was paid back.
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import * as fc from 'fast-check'
+import { RefundStatus } from '@prisma/client'
+import {
+  PaymentRefunds,
+  RefundAmounts,
+  RefundValidator,
+  RefundValidationError,
+} from '@/app/lib/models'
+
+// Amounts are in minor units
+const centsArb = (max: number) => fc.integer({ min: 1, max })
+
+describe('Refund Properties', () => {
+  it('should never commit more than the payment amount for any sequence of refund attempts', () => {
+    fc.assert(
+      fc.property(
+        centsArb(500_000),
+        fc.array(
+          fc.record({
+            amount: centsArb(600_000),
+            outcome: fc.constantFrom<RefundStatus>('PENDING', 'SUCCESS', 'FAILED')
+          }),
+          { maxLength: 10 }
+        ),
+        (paymentAmount, attempts) => {
+          const refunds: RefundAmounts[] = []
+
+          for (const attempt of attempts) {
+            const payment = { amount: paymentAmount, status: PaymentRefunds.paymentStatus({ amount: paymentAmount, status: 'SUCCESS' }, refunds) }
+            const refundable = PaymentRefunds.refundableAmount(payment, refunds)
+
+            if (attempt.amount > refundable) {
+              expect(() => RefundValidator.validateRefund(attempt.amount, refundable, 'Goodwill')).toThrow(RefundValidationError)
+              continue
+            }
+
+            RefundValidator.validateRefund(attempt.amount, refundable, 'Goodwill')
+            refunds.push({ amount: attempt.amount, status: attempt.outcome })
+
+            expect(PaymentRefunds.committedAmount(refunds)).toBeLessThanOrEqual(paymentAmount)
+            expect(PaymentRefunds.refundedAmount(refunds)).toBeLessThanOrEqual(PaymentRefunds.committedAmount(refunds))
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should derive the payment status from successful refunds only', () => {
+    fc.assert(
+      fc.property(
+        centsArb(100_000),
+        fc.array(fc.record({ amount: centsArb(100_000), status: fc.constantFrom<RefundStatus>('PENDING', 'SUCCESS', 'FAILED') }), { maxLength: 6 }),
+        (amount, refunds) => {
+          const status = PaymentRefunds.paymentStatus({ amount, status: 'SUCCESS' }, refunds)
+          const refunded = PaymentRefunds.refundedAmount(refunds)
+
+          if (refunded === 0) {
+            expect(status).toBe('SUCCESS')
+          } else if (refunded >= amount) {
+            expect(status).toBe('REFUNDED')
+          } else {
+            expect(status).toBe('PARTIALLY_REFUNDED')
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should not refund payments that never captured money', () => {
+    for (const status of ['PENDING', 'FAILED'] as const) {
+      expect(PaymentRefunds.refundableAmount({ amount: 100, status }, [])).toBe(0)
+      expect(PaymentRefunds.paymentStatus({ amount: 100, status }, [])).toBe(status)
+    }
+  })
+
+  it('should settle a cancelled booking once the refund due has been paid back', () => {
+    const cancelled = { status: 'CANCELLED' as const, refundAmount: 5000 }
+
+    expect(PaymentRefunds.settlesBooking(cancelled, 10000, 4999)).toBe(false)
+    expect(PaymentRefunds.settlesBooking(cancelled, 10000, 5000)).toBe(true)
+    expect(PaymentRefunds.settlesBooking({ status: 'CONFIRMED', refundAmount: null }, 10000, 5000)).toBe(false)
+    expect(PaymentRefunds.settlesBooking({ status: 'CONFIRMED', refundAmount: null }, 10000, 10000)).toBe(true)
+    expect(PaymentRefunds.settlesBooking({ status: 'COMPLETED', refundAmount: null }, 10000, 10000)).toBe(false)
+  })
+
+  it('should require a reason and whole cents', () => {
+    expect(() => RefundValidator.validateRefund(1000, 10000, ' ')).toThrow(RefundValidationError)
+    expect(() => RefundValidator.validateRefund(1000.5, 10000, 'Goodwill')).toThrow(RefundValidationError)
+    expect(() => RefundValidator.validateRefund(0, 10000, 'Goodwill')).toThrow(RefundValidationError)
+    expect(() => RefundValidator.validateRefund(1005, 10000, 'Goodwill')).not.toThrow()
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * **Feature: travel-tour-booking, Property 37: Seat holds never oversell a departure**
+ *
+ * Property-based tests for time-limited seat holds.
+ * For any set of concurrent booking requests, held and confirmed seats never exceed
+ * the departure's capacity and availableSlots never drops below zero.
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus } from '@prisma/client'
+import { BookingStateMachine } from '@/app/lib/models'
+
+interface FakeBooking {
+  id: string
+  availabilityId: string
+  travelersCount: number
+  status: BookingStatus
+  holdExpiresAt: Date | null
+}
+
+interface FakeWhere {
+  id: string
+  status?: string
+  holdExpiresAt?: Date | null | { lt: Date }
+  availableSlots?: { gte: number }
+}
+
+interface FakeArgs {
+  where: FakeWhere
+  data: Record<string, unknown> & { availableSlots?: { increment?: number; decrement?: number } }
+}
+
+const state = {
+  availableSlots: 0,
+  bookings: new Map<string, FakeBooking>()
+}
+
+const isExpiredBefore = (booking: FakeBooking, cutoff: Date) =>
+  booking.holdExpiresAt !== null && booking.holdExpiresAt < cutoff
+
+const matches = (booking: FakeBooking, where: FakeWhere) => {
+  if (booking.id !== where.id) return false
+  if (where.status !== undefined && booking.status !== where.status) return false
+  if (where.holdExpiresAt === undefined) return true
+  if (where.holdExpiresAt !== null && 'lt' in where.holdExpiresAt) {
+    return isExpiredBefore(booking, where.holdExpiresAt.lt)
+  }
+  return booking.holdExpiresAt?.getTime() === where.holdExpiresAt?.getTime()
+}
+
+// In-memory Prisma double whose updateMany honours the conditional where clause
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      startDate: new Date('2027-01-01T00:00:00Z'),
+      tour: { pricePerPerson: 100, destination: { id: 'dest-1', name: 'Accra', country: 'Ghana' } }
+    })),
+    updateMany: jest.fn(async ({ where, data }: FakeArgs) => {
+      // Check and write in one step, like the conditional UPDATE in Postgres
+      if (state.availableSlots < (where.availableSlots?.gte ?? 0)) return { count: 0 }
+      state.availableSlots -= data.availableSlots?.decrement ?? 0
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ data }: FakeArgs) => {
+      state.availableSlots += data.availableSlots?.increment ?? 0
+      return {}
+    })
+  },
+  pricingRule: {
+    findMany: jest.fn(async () => [])
+  },
+  booking: {
+    create: jest.fn(async ({ data }: { data: Omit<FakeBooking, 'id'> }) => {
+      const booking = { id: `booking-${state.bookings.size + 1}`, ...data }
+      state.bookings.set(booking.id, booking)
+      return booking
+    }),
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const booking = state.bookings.get(where.id)
+      return booking ? { ...booking } : null
+    }),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => ({
+      ...state.bookings.get(where.id),
+      payments: []
+    })),
+    findMany: jest.fn(async ({ where }: { where: { status: string; holdExpiresAt: { lt: Date } } }) =>
+      [...state.bookings.values()].filter(booking =>
+        booking.status === where.status && isExpiredBefore(booking, where.holdExpiresAt.lt)
+      )
+    ),
+    updateMany: jest.fn(async ({ where, data }: FakeArgs) => {
+      const booking = state.bookings.get(where.id)
+      if (!booking || !matches(booking, where)) return { count: 0 }
+      Object.assign(booking, data)
+      return { count: 1 }
+    })
+  },
+  bookingEvent: {
+    create: jest.fn(async () => ({}))
+  },
+  waitlistEntry: {
+    findMany: jest.fn(async () => [])
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/outbox', () => ({
+  OutboxService: { enqueue: jest.fn(), deliverQueuedQuietly: jest.fn() }
+}))
+
+let BookingService: typeof import('../../app/lib/services/booking').BookingService
+
+const reset = (availableSlots: number) => {
+  state.availableSlots = availableSlots
+  state.bookings.clear()
+}
+
+const book = (travelersCount: number) => BookingService.createBooking({
+  userId: 'user-1',
+  tourId: 'tour-1',
+  availabilityId: 'avail-1',
+  travelersCount
+})
+
+describe('Seat Hold Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ BookingService } = await import('../../app/lib/services/booking'))
+  })
+
+  it('should never hold more seats than a departure has, even for concurrent requests', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 20 }),
+        fc.array(fc.integer({ min: 1, max: 6 }), { minLength: 1, maxLength: 10 }),
+        async (capacity, requests) => {
+          reset(capacity)
+
+          const results = await Promise.allSettled(requests.map(book))
+          const heldSeats = results
+            .map((result, index) => (result.status === 'fulfilled' ? requests[index] : 0))
+            .reduce((sum, seats) => sum + seats, 0)
+
+          expect(state.availableSlots).toBeGreaterThanOrEqual(0)
+          expect(heldSeats + state.availableSlots).toBe(capacity)
+
+          for (const result of results) {
+            if (result.status === 'fulfilled') {
+              expect(result.value.status).toBe('PENDING')
+              expect(result.value.holdExpiresAt?.getTime() ?? 0).toBeGreaterThan(Date.now())
+            } else {
+              expect(result.reason.message).toBe('Not enough available slots for this booking')
+            }
+          }
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should release expired holds exactly once and leave live holds alone', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(fc.integer({ min: 1, max: 4 }), fc.boolean()), { minLength: 1, maxLength: 8 }),
+        async (holds) => {
+          reset(100)
+          const now = new Date()
+
+          for (const [travelersCount, expired] of holds) {
+            const booking = await book(travelersCount)
+            booking.holdExpiresAt = new Date(now.getTime() + (expired ? -60_000 : 60_000))
+          }
+          const heldBefore = 100 - state.availableSlots
+          const expiredSeats = holds
+            .filter(([, expired]) => expired)
+            .reduce((sum, [travelersCount]) => sum + travelersCount, 0)
+
+          const expiredCount = await BookingService.expireHolds(now)
+          const secondRun = await BookingService.expireHolds(now)
+
+          expect(expiredCount).toBe(holds.filter(([, expired]) => expired).length)
+          expect(secondRun).toBe(0)
+          expect(100 - state.availableSlots).toBe(heldBefore - expiredSeats)
+
+          for (const booking of state.bookings.values()) {
+            expect(['PENDING', 'EXPIRED']).toContain(booking.status)
+            expect(BookingStateMachine.takesSeats(booking)).toBe(booking.status === 'PENDING')
+          }
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should confirm a held booking without taking its seats twice', async () => {
+    reset(5)
+    const booking = await book(3)
+    expect(state.availableSlots).toBe(2)
+
+    await BookingService.confirmBooking(booking.id)
+
+    expect(state.bookings.get(booking.id)?.status).toBe('CONFIRMED')
+    expect(state.bookings.get(booking.id)?.holdExpiresAt).toBeNull()
+    expect(state.availableSlots).toBe(2)
+  })
+
+  it('should only confirm an expired booking while its seats are still free', async () => {
+    reset(3)
+    const late = await book(3)
+    late.holdExpiresAt = new Date(Date.now() - 60_000)
+    await BookingService.expireHolds()
+    expect(state.availableSlots).toBe(3)
+
+    // Someone else takes the seats before the late payment arrives
+    await book(2)
+    await expect(BookingService.confirmBooking(late.id)).rejects.toThrow('Not enough available slots for this booking')
+    expect(state.availableSlots).toBe(1)
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * **Feature: travel-tour-booking, Property 53: Text messages reach only opted-in customers and fit their part budget**
+ *
+ * Property-based tests for the SMS channel.
+ * For any way of writing a phone number, it normalises to the same E.164 number; for any tour
+ * title, every text message fits the parts allowed for it; and a customer is only texted
+ * when they opted in to SMS and to that kind of update.
+ */
+
+import { describe, it, expect, jest, beforeAll, afterEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import { UserValidationError, UserValidator } from '@/app/lib/models/user'
+import { FakeSmsGateway, measureSms, SmsSender, truncateSms } from '@/app/lib/services/sms-gateways'
+import { SmsTemplates } from '@/app/lib/templates/sms-templates'
+
+interface FakePreferences {
+  smsNotifications: boolean
+  bookingConfirmations: boolean
+  paymentUpdates: boolean
+  tourReminders: boolean
+}
+
+const state = {
+  phone: null as string | null,
+  preferences: null as FakePreferences | null
+}
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async () => ({
+      id: 'user-1',
+      email: 'ama@example.com',
+      phone: state.phone,
+      notificationPreferences: state.preferences
+    }))
+  },
+  notification: {
+    create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => data)
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let NotificationService: typeof import('../../app/lib/services/notification').NotificationService
+
+// A country code and a subscriber number that together make a valid E.164 number
+const phoneArbitrary = fc.record({
+  countryCode: fc.stringMatching(/^[1-9]\d{0,2}$/),
+  subscriber: fc.stringMatching(/^[1-9]\d{6,10}$/)
+}).filter(({ countryCode, subscriber }) => countryCode.length + subscriber.length <= 15)
+
+// Ways people write the same number
+const written = (countryCode: string, subscriber: string, style: number) => {
+  const grouped = subscriber.replace(/(\d{3})(?=\d)/g, '$1 ')
+  switch (style) {
+    case 0: return `+${countryCode}${subscriber}`
+    case 1: return `+${countryCode} ${grouped}`
+    case 2: return `00${countryCode}-${subscriber}`
+    case 3: return ` +${countryCode} (0)${subscriber.slice(0, 2)}.${subscriber.slice(2)} `
+    default: return `(+${countryCode}) ${grouped}`
+  }
+}
+
+const titleArbitrary = fc.oneof(
+  fc.string({ minLength: 1, maxLength: 200 }),
+  fc.string({ unit: 'grapheme', minLength: 1, maxLength: 200 })
+).filter(title => title.trim().length > 0)
+
+const confirmation = (tourTitle: string) => ({
+  customerEmail: 'ama@example.com',
+  customerName: 'Ama',
+  bookingId: 'cm1booking0000000000000001',
+  tourTitle,
+  travelersCount: 2,
+  totalPrice: 250000,
+  tourStartDate: new Date('2027-03-01T00:00:00Z'),
+  paymentReceipt: { id: 'payment-1', amount: 250000, currency: 'GHS', method: 'MOBILE_MONEY', provider: 'PAYSTACK' }
+})
+
+describe('SMS Notification Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ NotificationService } = await import('../../app/lib/services/notification'))
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    SmsSender.use(null)
+    FakeSmsGateway.clear()
+    mockPrisma.notification.create.mockClear()
+  })
+
+  it('should normalise every way of writing a number to the same E.164 number', () => {
+    fc.assert(
+      fc.property(phoneArbitrary, fc.integer({ min: 0, max: 4 }), ({ countryCode, subscriber }, style) => {
+        const phone = written(countryCode, subscriber, style)
+        expect(UserValidator.normalizePhone(phone)).toBe(`+${countryCode}${subscriber}`)
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should read a number without a country code as local only when a default is given', () => {
+    fc.assert(
+      fc.property(fc.stringMatching(/^[1-9]\d{8}$/), (subscriber) => {
+        expect(UserValidator.normalizePhone(`0${subscriber}`, '233')).toBe(`+233${subscriber}`)
+        expect(() => UserValidator.normalizePhone(`0${subscriber}`)).toThrow(UserValidationError)
+      }),
+      { numRuns: 100 }
+    )
+
+    expect(() => UserValidator.normalizePhone('call me')).toThrow(UserValidationError)
+    expect(() => UserValidator.normalizePhone('+0244123456')).toThrow(UserValidationError)
+    expect(() => UserValidator.normalizePhone('+1234567890123456')).toThrow(UserValidationError)
+  })
+
+  it('should count parts by encoding and cut long messages to their budget', () => {
+    fc.assert(
+      fc.property(fc.string({ unit: 'grapheme', maxLength: 600 }), fc.integer({ min: 1, max: 4 }), (body, maxSegments) => {
+        const length = measureSms(body)
+        const [single, part] = length.encoding === 'GSM-7' ? [160, 153] : [70, 67]
+
+        expect(length.segments).toBe(length.units <= single ? 1 : Math.ceil(length.units / part))
+        expect(measureSms(truncateSms(body, maxSegments)).segments).toBeLessThanOrEqual(maxSegments)
+      }),
+      { numRuns: 200 }
+    )
+
+    expect(measureSms('a'.repeat(160))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 })
+    expect(measureSms('a'.repeat(161)).segments).toBe(2)
+    expect(measureSms('€'.repeat(80))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 })
+    expect(measureSms(`${'a'.repeat(69)}ɔ`)).toEqual({ encoding: 'UCS-2', units: 70, segments: 1 })
+  })
+
+  it('should fit every template in its parts, keeping a title that fits whole', () => {
+    fc.assert(
+      fc.property(titleArbitrary, (tourTitle) => {
+        const messages = [
+          [SmsTemplates.bookingConfirmation({ ...confirmation(tourTitle), currency: 'GHS', tourStartDate: 'Mon Mar 01 2027' }), 2],
+          [SmsTemplates.paymentStatus({ tourTitle, amount: 250000, currency: 'GHS', status: 'SUCCESS' }), 1],
+          [SmsTemplates.tourReminder({ bookingId: 'cm1booking0000000000000001', tourTitle, tourStartDate: 'Mon Mar 01 2027' }), 1]
+        ] as const
+
+        for (const [sms, budget] of messages) {
+          expect(measureSms(sms.body).segments).toBeLessThanOrEqual(budget)
+          expect(sms.subject).toContain(tourTitle)
+        }
+      }),
+      { numRuns: 200 }
+    )
+
+    const short = SmsTemplates.tourReminder({ bookingId: 'booking-1', tourTitle: 'Kakum Canopy Walk', tourStartDate: 'Mon Mar 01 2027' })
+    expect(short.body).toContain('Kakum Canopy Walk starts tomorrow')
+  })
+
+  it('should only text customers who opted in to SMS and to that kind of update', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.option(fc.constantFrom('+233 24 123 4567', '0244 123 456', 'not a number'), { nil: null }),
+        fc.option(fc.record({
+          smsNotifications: fc.boolean(),
+          bookingConfirmations: fc.boolean(),
+          paymentUpdates: fc.boolean(),
+          tourReminders: fc.boolean()
+        }), { nil: null }),
+        async (phone, preferences) => {
+          state.phone = phone
+          state.preferences = preferences
+          FakeSmsGateway.clear()
+          mockPrisma.notification.create.mockClear()
+
+          await NotificationService.sendBookingConfirmationSms(confirmation('Volta Lake Cruise'))
+
+          // Without SMS_DEFAULT_COUNTRY_CODE only the international number is usable
+          const texted = phone === '+233 24 123 4567' && !!preferences?.smsNotifications && preferences.bookingConfirmations
+          const sent = FakeSmsGateway.messages()
+
+          expect(sent).toHaveLength(texted ? 1 : 0)
+          if (texted) {
+            expect(sent[0].to).toBe('+233241234567')
+            expect(sent[0].body).toContain('Volta Lake Cruise')
+            expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+              data: expect.objectContaining({ channel: 'SMS', recipient: '+233241234567', type: 'BOOKING_CONFIRMATION', status: 'SENT' })
+            })
+          } else {
+            expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+          }
+        }
+      ),
+      { numRuns: 60 }
+    )
+  })
+
+  it('should record a text message the gateway refused as failed', async () => {
+    state.phone = '+233241234567'
+    state.preferences = { smsNotifications: true, bookingConfirmations: true, paymentUpdates: true, tourReminders: true }
+    SmsSender.use({ name: 'broken', send: async () => { throw new Error('Gateway unavailable') } })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(NotificationService.sendTourReminderSms({
+      customerEmail: 'ama@example.com',
+      customerName: 'Ama',
+      bookingId: 'booking-1',
+      tourTitle: 'Kakum Canopy Walk',
+      tourStartDate: new Date('2027-03-01T00:00:00Z'),
+      daysUntilTour: 1
+    })).rejects.toThrow('Gateway unavailable')
+
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ channel: 'SMS', type: 'TOUR_REMINDER', status: 'FAILED', sentAt: null })
+    })
+  })
+})
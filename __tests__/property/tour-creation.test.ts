@@ -20,7 +20,7 @@ describe('Tour Creation Validation Properties', () => {
           title: fc.string({ minLength: 5, maxLength: 100 }).filter(s => s.trim().length >= 5),
           description: fc.string({ minLength: 20, maxLength: 500 }).filter(s => s.trim().length >= 20),
           durationDays: fc.integer({ min: 1, max: 365 }),
-          pricePerPerson: fc.float({ min: 1, max: 100000, noNaN: true }),
+          pricePerPerson: fc.integer({ min: 100, max: 10000000 }), // Minor units
           maxGroupSize: fc.integer({ min: 1, max: 100 }),
           difficulty: fc.constantFrom(Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD),
           inclusions: fc.array(fc.string({ minLength: 1, maxLength: 100 }).filter(s => s.trim().length > 0), { minLength: 1, maxLength: 10 }),
@@ -128,7 +128,8 @@ describe('Tour Creation Validation Properties', () => {
         fc.record({
           invalidPrice: fc.oneof(
             fc.float({ max: 0 }), // negative or zero
-            fc.float({ min: 100001 }), // too high
+            fc.integer({ min: 10000001 }), // too high
+            fc.double({ min: 1.01, max: 99.99 }).filter(n => !Number.isInteger(n)), // fractional minor units
             fc.constant(NaN),
             fc.constant(Infinity),
             fc.constant(-Infinity)
@@ -162,6 +163,32 @@ describe('Tour Creation Validation Properties', () => {
     )
   })
 
+  it('should limit prices by the currency they are set in', () => {
+    const tourData: CreateTourData = {
+      destinationId: 'valid-destination-id-123',
+      title: 'Valid Tour Title',
+      description: 'This is a valid tour description with enough characters',
+      durationDays: 1,
+      pricePerPerson: 500_000_000, // 5,000,000.00
+      currency: 'NGN',
+      maxGroupSize: 10,
+      inclusions: ['Accommodation'],
+      exclusions: ['Flights'],
+      itinerary: [{ day: 1, title: 'Day 1', description: 'Day 1 activities' }],
+      images: ['https://example.com/image.jpg']
+    }
+
+    expect(() => TourValidator.validateCreateData(tourData)).not.toThrow()
+    expect(() => TourValidator.validateCreateData({ ...tourData, currency: 'USD' }))
+      .toThrow('Price per person cannot exceed $100,000.00')
+
+    // Moving a tour to another currency checks its current price against the new limit
+    const current = { pricePerPerson: BigInt(500_000_000), currency: 'NGN' }
+    expect(() => TourValidator.validateUpdateData({ title: 'Renamed Tour' }, current)).not.toThrow()
+    expect(() => TourValidator.validateUpdateData({ currency: 'USD' }, current)).toThrow(TourValidationError)
+    expect(() => TourValidator.validateUpdateData({ currency: 'USD', pricePerPerson: 500_000 }, current)).not.toThrow()
+  })
+
   it('should validate itinerary consistency with duration', async () => {
     await fc.assert(
       fc.property(
@@ -0,0 +1,173 @@
+/**
+ * **Feature: travel-tour-booking, Property 62: Each tour reminder is queued once and sent on its own**
+ *
+ * Property-based tests for tour reminders.
+ * For any set of upcoming bookings and any reminders that fail to send, every confirmed
+ * booking due a reminder gets exactly one message per channel however often the job runs,
+ * and a reminder that fails stays queued for a retry without stopping the others.
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals'
+import * as fc from 'fast-check'
+import { BookingStatus } from '@prisma/client'
+
+interface FakeBooking {
+  id: string
+  status: BookingStatus
+  startDate: Date
+  emailFails: boolean
+  smsFails: boolean
+}
+
+interface FakeMessage {
+  id: string
+  kind: string
+  bookingId: string
+  payload: { bookingId: string; daysUntilTour: number }
+  dedupeKey: string
+  status: 'PENDING' | 'SENT' | 'DEAD'
+  attempts: number
+  nextAttemptAt: Date
+}
+
+const now = new Date('2027-01-15T12:00:00Z')
+
+const state = {
+  bookings: new Map<string, FakeBooking>(),
+  outbox: [] as FakeMessage[]
+}
+
+// A departure the given number of days after now, in the morning local time
+const daysAhead = (days: number) => {
+  const startDate = new Date(now)
+  startDate.setDate(startDate.getDate() + days)
+  startDate.setHours(9, 0, 0, 0)
+  return startDate
+}
+
+const mockPrisma = {
+  booking: {
+    findMany: jest.fn(async ({ where }: { where: { status: BookingStatus; availability: { startDate: { gte: Date; lt: Date } } } }) =>
+      [...state.bookings.values()]
+        .filter(booking => booking.status === where.status)
+        .filter(booking => booking.startDate >= where.availability.startDate.gte && booking.startDate < where.availability.startDate.lt)
+        .map(booking => ({ id: booking.id }))
+    ),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const booking = state.bookings.get(where.id)!
+      return {
+        id: booking.id,
+        status: booking.status,
+        user: { name: `Customer ${booking.id}`, email: `${booking.id}@example.com` },
+        tour: { title: 'Cape Coast Heritage Trail' },
+        availability: { startDate: booking.startDate }
+      }
+    })
+  },
+  outboxMessage: {
+    // Skips rows whose dedupe key is taken, like the unique index does
+    createManyAndReturn: jest.fn(async ({ data }: { data: Pick<FakeMessage, 'kind' | 'bookingId' | 'payload' | 'dedupeKey'>[] }) =>
+      data
+        .filter(row => !state.outbox.some(message => message.dedupeKey === row.dedupeKey))
+        .map(row => {
+          const message: FakeMessage = { id: `message-${state.outbox.length + 1}`, status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), ...row }
+          state.outbox.push(message)
+          return { ...message }
+        })
+    ),
+    findMany: jest.fn(async ({ where, take }: { where: { nextAttemptAt: { lte: Date }; id?: { in: string[] } }; take: number }) =>
+      state.outbox
+        .filter(message => message.status === 'PENDING' && message.nextAttemptAt <= where.nextAttemptAt.lte)
+        .filter(message => !where.id || where.id.in.includes(message.id))
+        .slice(0, take)
+        .map(message => ({ ...message }))
+    ),
+    updateMany: jest.fn(async ({ where, data }: { where: { id: string; nextAttemptAt: Date }; data: { nextAttemptAt: Date } }) => {
+      const message = state.outbox.find(candidate => candidate.id === where.id)
+      if (!message || message.status !== 'PENDING' || message.nextAttemptAt.getTime() !== where.nextAttemptAt.getTime()) {
+        return { count: 0 }
+      }
+      message.attempts++
+      message.nextAttemptAt = data.nextAttemptAt
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<FakeMessage> }) =>
+      Object.assign(state.outbox.find(message => message.id === where.id)!, data)
+    )
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let NotificationService: typeof import('../../app/lib/services/notification').NotificationService
+
+describe('Tour Reminder Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ NotificationService } = await import('../../app/lib/services/notification'))
+  })
+
+  it('should queue one reminder per booking and channel, and keep failed ones for a retry', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            days: fc.integer({ min: 0, max: 8 }),
+            status: fc.constantFrom<BookingStatus>('CONFIRMED', 'CANCELLED', 'PENDING'),
+            emailFails: fc.boolean(),
+            smsFails: fc.boolean()
+          }),
+          { maxLength: 8 }
+        ),
+        async (bookings) => {
+          state.outbox = []
+          state.bookings = new Map(bookings.map((booking, index) => [`booking-${index}`, {
+            id: `booking-${index}`,
+            status: booking.status,
+            startDate: daysAhead(booking.days),
+            emailFails: booking.emailFails,
+            smsFails: booking.smsFails
+          }]))
+
+          const sendEmail = jest.spyOn(NotificationService, 'sendTourReminderEmail').mockImplementation(async (reminder) => {
+            if (state.bookings.get(reminder.bookingId)!.emailFails) throw new Error('SMTP unavailable')
+          })
+          const sendSms = jest.spyOn(NotificationService, 'sendTourReminderSms').mockImplementation(async (reminder) => {
+            if (state.bookings.get(reminder.bookingId)!.smsFails) throw new Error('Gateway unavailable')
+          })
+
+          const due = bookings
+            .map((booking, index) => ({ ...booking, id: `booking-${index}` }))
+            .filter(booking => booking.status === 'CONFIRMED' && [7, 3, 1].includes(booking.days))
+          const expected = due.flatMap(booking => [
+            { kind: 'TOUR_REMINDER', bookingId: booking.id, fails: booking.emailFails },
+            ...(booking.days === 1 ? [{ kind: 'TOUR_REMINDER_SMS', bookingId: booking.id, fails: booking.smsFails }] : [])
+          ])
+
+          expect(await NotificationService.sendTourReminders(now)).toBe(expected.length)
+          // Running again, as a retried cron call would, queues nothing new
+          expect(await NotificationService.sendTourReminders(now)).toBe(0)
+
+          expect(state.outbox).toHaveLength(expected.length)
+          for (const { kind, bookingId, fails } of expected) {
+            const messages = state.outbox.filter(message => message.kind === kind && message.bookingId === bookingId)
+            expect(messages).toHaveLength(1)
+            expect(messages[0]).toMatchObject({ status: fails ? 'PENDING' : 'SENT', attempts: 1 })
+          }
+
+          expect(sendEmail).toHaveBeenCalledTimes(due.length)
+          expect(sendSms).toHaveBeenCalledTimes(due.filter(booking => booking.days === 1).length)
+          for (const booking of due) {
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ bookingId: booking.id, daysUntilTour: booking.days }))
+          }
+
+          sendEmail.mockRestore()
+          sendSms.mockRestore()
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * **Feature: travel-tour-booking, Property 47: Every traveler on a booking appears on its departure manifest**
+ *
+ * Property-based tests for travelers and departure manifests.
+ * For any booking, traveler details must match the booked traveler mix and ages, passport
+ * details are stored encrypted and read back unchanged, and the manifest lists every
+ * traveler of the departure's active bookings in a CSV that spreadsheets cannot execute.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import {
+  TravelerDetails,
+  TravelerValidator,
+  TravelerValidationError,
+} from '@/app/lib/models'
+import { encrypt, decrypt, isEncrypted } from '@/app/lib/utils/encryption'
+import { csvCell, toCsv } from '@/app/lib/utils/csv'
+
+const departure = {
+  startDate: new Date('2027-06-01T00:00:00Z'),
+  endDate: new Date('2027-06-10T00:00:00Z')
+}
+
+const traveler = (overrides: Partial<TravelerDetails> = {}): TravelerDetails => ({
+  travelerType: 'ADULT',
+  firstName: 'Ama',
+  lastName: 'Mensah',
+  dateOfBirth: new Date('1990-03-15T00:00:00Z'),
+  passportNumber: 'G1234567',
+  passportExpiry: new Date('2030-01-01T00:00:00Z'),
+  ...overrides
+})
+
+const state = {
+  stored: [] as Record<string, unknown>[]
+}
+
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      tourId: 'tour-1',
+      startDate: departure.startDate,
+      endDate: departure.endDate,
+      tour: { title: 'Cape Coast Heritage' },
+      bookings: [
+        {
+          id: 'booking-1',
+          status: 'CONFIRMED',
+          travelersCount: 3,
+          travelers: state.stored,
+          user: { name: 'Kofi', email: 'kofi@example.com' }
+        }
+      ]
+    }))
+  },
+  traveler: {
+    createMany: jest.fn(async ({ data }: { data: Record<string, unknown>[] }) => {
+      state.stored.push(...data)
+      return { count: data.length }
+    })
+  }
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+let TravelerService: typeof import('../../app/lib/services/traveler').TravelerService
+
+describe('Traveler Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ TravelerService } = await import('../../app/lib/services/traveler'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    state.stored = []
+  })
+
+  it('should read back exactly what was encrypted', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (text) => {
+        const encrypted = encrypt(text)
+
+        expect(isEncrypted(encrypted)).toBe(true)
+        expect(decrypt(encrypted)).toBe(text)
+      }),
+      { numRuns: 100 }
+    )
+
+    // Tampered ciphertext is refused rather than decrypted to garbage
+    const encrypted = encrypt('G1234567')
+    const tampered = encrypted.slice(0, -1) + (encrypted.endsWith('0') ? '1' : '0')
+    expect(() => decrypt(tampered)).toThrow('Failed to decrypt data')
+  })
+
+  it('should need one set of details per booked traveler, of the booked types', () => {
+    const mix = { adults: 1, children: 1, seniors: 1 }
+    const family = [
+      traveler(),
+      traveler({ travelerType: 'CHILD', dateOfBirth: new Date('2015-01-01T00:00:00Z') }),
+      traveler({ travelerType: 'SENIOR', dateOfBirth: new Date('1950-01-01T00:00:00Z') })
+    ]
+
+    expect(() => TravelerValidator.validateTravelers(family, mix, departure)).not.toThrow()
+    expect(() => TravelerValidator.validateTravelers(family.slice(0, 2), mix, departure)).toThrow('each of the 3 travelers')
+    expect(() => TravelerValidator.validateTravelers([family[0], family[0], family[2]], mix, departure)).toThrow('as booked')
+  })
+
+  it('should check ages on the departure date', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 100 }), fc.integer({ min: -5, max: 5 }), (years, dayOffset) => {
+        const born = new Date(Date.UTC(2027 - years, 5, 1 + dayOffset))
+        const age = TravelerValidator.ageOn(born, departure.startDate)
+        const check = (travelerType: TravelerDetails['travelerType']) => () =>
+          TravelerValidator.validateTraveler(traveler({ travelerType, dateOfBirth: born }), departure)
+
+        expect(age).toBe(dayOffset > 0 ? years - 1 : years)
+        if (age < 18) {
+          expect(check('CHILD')).not.toThrow()
+          expect(check('ADULT')).toThrow(TravelerValidationError)
+        } else {
+          expect(check('CHILD')).toThrow(TravelerValidationError)
+          expect(check('ADULT')).not.toThrow()
+        }
+        if (age < 65) {
+          expect(check('SENIOR')).toThrow(TravelerValidationError)
+        }
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should only accept passports valid until after the tour', () => {
+    const check = (overrides: Partial<TravelerDetails>) => () => TravelerValidator.validateTraveler(traveler(overrides), departure)
+
+    expect(check({ passportNumber: 'g 123-4567' })).not.toThrow()
+    expect(TravelerValidator.normalize(traveler({ passportNumber: 'g 123-4567' })).passportNumber).toBe('G1234567')
+    expect(check({ passportNumber: null, passportExpiry: null })).not.toThrow()
+    expect(check({ passportNumber: 'AB!12345' })).toThrow('letters and digits')
+    expect(check({ passportExpiry: null })).toThrow('expiry date is required')
+    expect(check({ passportExpiry: departure.endDate })).toThrow('until after the tour ends')
+    expect(check({ passportNumber: null })).toThrow('without a passport number')
+    expect(check({ firstName: '  ' })).toThrow('First name is required')
+    expect(check({ dateOfBirth: new Date(Date.now() + 24 * 60 * 60 * 1000) })).toThrow('in the past')
+    expect(check({ emergencyContactPhone: 'call me' })).toThrow('not a valid phone number')
+    expect(TravelerValidator.maskPassportNumber('G1234567')).toBe('•••••567')
+  })
+
+  it('should store passports encrypted and list every traveler on the manifest', async () => {
+    const family = [
+      traveler({ lastName: 'Owusu' }),
+      traveler({ firstName: 'Esi', passportNumber: 'H7654321', dietaryRequirements: 'vegetarian' })
+    ]
+
+    await TravelerService.createTravelers('booking-1', family)
+
+    expect(state.stored).toHaveLength(2)
+    for (const stored of state.stored) {
+      expect(String(stored.passportNumber)).not.toMatch(/[GH]\d{7}/)
+      expect(isEncrypted(String(stored.passportNumber))).toBe(true)
+      expect(isEncrypted(String(stored.passportExpiry))).toBe(true)
+    }
+
+    const manifest = await TravelerService.manifest('tour-1', 'avail-1')
+
+    expect(manifest.missingTravelers).toBe(1)
+    expect(manifest.travelers.map(entry => `${entry.lastName}, ${entry.firstName}`)).toEqual(['Mensah, Esi', 'Owusu, Ama'])
+    expect(manifest.travelers[0]).toMatchObject({
+      passportNumber: 'H7654321',
+      passportExpiry: new Date('2030-01-01T00:00:00Z'),
+      dietaryRequirements: 'vegetarian',
+      bookedBy: 'Kofi <kofi@example.com>'
+    })
+
+    const csv = TravelerService.manifestCsv(manifest).split('\r\n')
+    expect(csv[0]).toMatch(/^Last name,First name,Type,Date of birth/)
+    expect(csv[1]).toContain('Mensah,Esi,ADULT,1990-03-15')
+
+    const pdf = TravelerService.manifestPdf(manifest).toString('ascii')
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf).toContain('Cape Coast Heritage')
+
+    await expect(TravelerService.manifest('tour-2', 'avail-1')).rejects.toThrow('Departure not found')
+  })
+
+  it('should write CSV that round-trips and never starts a formula', () => {
+    fc.assert(
+      fc.property(fc.array(fc.string({ maxLength: 20 }), { minLength: 1, maxLength: 5 }), (cells) => {
+        for (const cell of cells) {
+          const written = csvCell(cell)
+          const unquoted = written.startsWith('"') ? written.slice(1, -1).replace(/""/g, '"') : written
+
+          expect(/^[=+\-@\t\r]/.test(unquoted)).toBe(false)
+          expect(unquoted.replace(/^'(?='*[=+\-@\t\r])/, '')).toBe(cell)
+        }
+        expect(toCsv(['a'], [cells.slice(0, 1)]).endsWith('\r\n')).toBe(true)
+      }),
+      { numRuns: 200 }
+    )
+
+    expect(csvCell('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"')
+    expect(csvCell('Smith, Jr.')).toBe('"Smith, Jr."')
+    expect(csvCell("'-")).toBe('"\'\'-"')
+  })
+})
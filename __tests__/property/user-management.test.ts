@@ -0,0 +1,381 @@
+/**
+ * **Feature: travel-tour-booking, Property 57: Admins manage accounts without locking anyone in or themselves out**
+ *
+ * Property-based tests for the admin user console.
+ * For any set of users and filters, the console lists exactly the matching accounts a page at a
+ * time; a suspended user cannot sign in or use an open session until reactivated; an invited
+ * member of staff becomes active by choosing a password from the latest link; and admins
+ * cannot demote, suspend or delete themselves, or delete a user with bookings.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import bcrypt from 'bcryptjs'
+import { NextRequest } from 'next/server'
+import {
+  AccountSuspendedError,
+  UserValidationError,
+  UserValidator,
+  type UserAccountStatus,
+} from '@/app/lib/models/user'
+import { PasswordResetValidationError } from '@/app/lib/models/password-reset'
+import { CaptureTransport, Mailer } from '@/app/lib/services/email-transports'
+
+interface FakeUser {
+  id: string
+  name: string
+  email: string
+  passwordHash: string
+  role: 'CUSTOMER' | 'STAFF' | 'ADMIN'
+  phone: string | null
+  sessionVersion: number
+  suspendedAt: Date | null
+  suspensionReason: string | null
+  invitedAt: Date | null
+  deletedAt: Date | null
+  createdAt: Date
+  bookings: number
+}
+
+interface FakeToken {
+  id: string
+  userId: string
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+}
+
+type Where = Record<string, unknown>
+
+const state = {
+  users: [] as FakeUser[],
+  tokens: [] as FakeToken[],
+  session: null as { user: { email: string } } | null
+}
+
+// Just the filters the user service writes: equality, null checks, contains, NOT and OR
+const matches = (record: Record<string, unknown>, where: Where = {}): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return (condition as Where[]).some(option => matches(record, option))
+    if (field === 'NOT') return !matches(record, condition as Where)
+
+    const value = record[field]
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return value === condition
+    }
+
+    const { not, contains, gt } = condition as { not?: null; contains?: string; gt?: Date }
+    if (not === null) return value !== null
+    if (contains !== undefined) return String(value).toLowerCase().includes(contains.toLowerCase())
+    if (gt !== undefined) return (value as Date) > gt
+    return true
+  })
+
+const pick = (user: FakeUser, select?: Record<string, unknown>) => {
+  if (!select) return { ...user }
+  const picked: Record<string, unknown> = {}
+  for (const field of Object.keys(select)) {
+    if (field === '_count') picked._count = { bookings: user.bookings }
+    else if (field === 'bookings' || field === 'reviews') picked[field] = []
+    else picked[field] = user[field as keyof FakeUser]
+  }
+  return picked
+}
+
+const findUser = (where: { id?: string; email?: string }) =>
+  state.users.find(user => (where.id !== undefined ? user.id === where.id : user.email === where.email))
+
+const applyUpdate = (user: FakeUser, data: Record<string, unknown>) => {
+  for (const [field, value] of Object.entries(data)) {
+    if (value && typeof value === 'object' && 'increment' in value) {
+      (user as unknown as Record<string, number>)[field] += (value as { increment: number }).increment
+    } else {
+      (user as unknown as Record<string, unknown>)[field] = value
+    }
+  }
+}
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(async ({ where, select }: { where: { id?: string; email?: string }; select?: Record<string, unknown> }) => {
+      const user = findUser(where)
+      return user ? pick(user, select) : null
+    }),
+    findMany: jest.fn(async ({ where, select, skip, take }: { where: Where; select: Record<string, unknown>; skip: number; take: number }) =>
+      state.users
+        .filter(user => matches(user as unknown as Record<string, unknown>, where))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(skip, skip + take)
+        .map(user => pick(user, select))
+    ),
+    count: jest.fn(async ({ where }: { where: Where }) =>
+      state.users.filter(user => matches(user as unknown as Record<string, unknown>, where)).length
+    ),
+    create: jest.fn(async ({ data, select }: { data: Partial<FakeUser>; select?: Record<string, unknown> }) => {
+      const user: FakeUser = {
+        id: `user-${state.users.length + 1}`,
+        phone: null,
+        sessionVersion: 0,
+        suspendedAt: null,
+        suspensionReason: null,
+        invitedAt: null,
+        deletedAt: null,
+        createdAt: new Date(),
+        bookings: 0,
+        role: 'CUSTOMER',
+        name: '',
+        email: '',
+        passwordHash: '',
+        ...data
+      }
+      state.users.push(user)
+      return pick(user, select)
+    }),
+    update: jest.fn(async ({ where, data, select }: { where: { id: string }; data: Record<string, unknown>; select?: Record<string, unknown> }) => {
+      const user = findUser(where)!
+      applyUpdate(user, data)
+      return pick(user, select)
+    }),
+    // Check and write in one step, like the conditional UPDATE in Postgres
+    updateMany: jest.fn(async ({ where, data }: { where: Where; data: Record<string, unknown> }) => {
+      const matched = state.users.filter(user => matches(user as unknown as Record<string, unknown>, where))
+      matched.forEach(user => applyUpdate(user, data))
+      return { count: matched.length }
+    }),
+    delete: jest.fn(async ({ where }: { where: { id: string } }) => {
+      state.users = state.users.filter(user => user.id !== where.id)
+      state.tokens = state.tokens.filter(token => token.userId !== where.id)
+    })
+  },
+  payment: {
+    findMany: jest.fn(async () => [])
+  },
+  passwordResetToken: {
+    create: jest.fn(async ({ data }: { data: Omit<FakeToken, 'id' | 'usedAt'> }) => {
+      const token = { id: `token-${state.tokens.length + 1}`, usedAt: null, ...data }
+      state.tokens.push(token)
+      return token
+    }),
+    findUnique: jest.fn(async ({ where }: { where: { tokenHash: string } }) =>
+      state.tokens.find(token => token.tokenHash === where.tokenHash) ?? null
+    ),
+    updateMany: jest.fn(async ({ where, data }: { where: Where; data: { usedAt: Date } }) => {
+      const matched = state.tokens.filter(token => matches(token as unknown as Record<string, unknown>, where))
+      matched.forEach(token => { token.usedAt = data.usedAt })
+      return { count: matched.length }
+    })
+  },
+  $transaction: jest.fn(async (run: (tx: unknown) => Promise<unknown>) => run(mockPrisma))
+}
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(async () => state.session)
+}))
+
+let UserService: typeof import('../../app/lib/services/user').UserService
+let PasswordResetService: typeof import('../../app/lib/services/password-reset').PasswordResetService
+let authOptions: typeof import('../../app/lib/auth').authOptions
+let requireAuth: typeof import('../../app/lib/middleware/auth-middleware').requireAuth
+
+const start = new Date('2027-01-01T00:00:00Z')
+
+const addUser = (overrides: Partial<FakeUser> = {}) => {
+  const user: FakeUser = {
+    id: `user-${state.users.length + 1}`,
+    name: 'Kofi Mensah',
+    email: `user${state.users.length + 1}@example.com`,
+    passwordHash: '',
+    role: 'CUSTOMER',
+    phone: null,
+    sessionVersion: 0,
+    suspendedAt: null,
+    suspensionReason: null,
+    invitedAt: null,
+    deletedAt: null,
+    createdAt: new Date(start.getTime() + state.users.length * 1000),
+    bookings: 0,
+    ...overrides
+  }
+  state.users.push(user)
+  return user
+}
+
+const authorize = (email: string, password: string) => {
+  const credentials = authOptions.providers[0] as unknown as {
+    options: { authorize: (credentials: { email: string; password: string }) => Promise<unknown> }
+  }
+  return credentials.options.authorize({ email, password })
+}
+
+// The token from the link in the latest email to an address; captured emails are newest first
+const linkSentTo = (email: string) =>
+  CaptureTransport.messages().find(message => message.to === email)?.text.match(/token=([0-9a-f]+)/)?.[1]
+
+const userArbitrary = fc.record({
+  name: fc.constantFrom('Ama Owusu', 'Kofi Mensah', 'Yaw Boateng', 'Efua Asante'),
+  role: fc.constantFrom('CUSTOMER', 'STAFF', 'ADMIN') as fc.Arbitrary<FakeUser['role']>,
+  suspended: fc.boolean(),
+  invited: fc.boolean(),
+  hasPassword: fc.boolean()
+})
+
+describe('User Management Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ UserService } = await import('../../app/lib/services/user'));
+    ({ PasswordResetService } = await import('../../app/lib/services/password-reset'));
+    ({ authOptions } = await import('../../app/lib/auth'));
+    ({ requireAuth } = await import('../../app/lib/middleware/auth-middleware'))
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    state.users = []
+    state.tokens = []
+    state.session = null
+    Mailer.use(null)
+    CaptureTransport.clear()
+  })
+
+  it('should list exactly the matching users a page at a time', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(userArbitrary, { maxLength: 25 }),
+        fc.record({
+          search: fc.option(fc.constantFrom('ama', 'MENSAH', 'user1', 'example'), { nil: undefined }),
+          role: fc.option(fc.constantFrom('CUSTOMER', 'STAFF', 'ADMIN') as fc.Arbitrary<FakeUser['role']>, { nil: undefined }),
+          status: fc.option(fc.constantFrom('active', 'suspended', 'invited') as fc.Arbitrary<UserAccountStatus>, { nil: undefined }),
+          limit: fc.integer({ min: 1, max: 10 })
+        }),
+        async (users, filters) => {
+          state.users = []
+          users.forEach(user => addUser({
+            name: user.name,
+            role: user.role,
+            suspendedAt: user.suspended ? start : null,
+            invitedAt: user.invited ? start : null,
+            passwordHash: user.hasPassword ? 'hash' : ''
+          }))
+
+          const expected = state.users
+            .filter(user => !filters.role || user.role === filters.role)
+            .filter(user => !filters.status || UserValidator.accountStatus(user) === filters.status)
+            .filter(user => !filters.search || `${user.name} ${user.email}`.toLowerCase().includes(filters.search.toLowerCase()))
+            .map(user => user.id)
+            .reverse()
+
+          const listed: string[] = []
+          let totalPages = 1
+          for (let page = 1; page <= totalPages; page++) {
+            const result = await UserService.listUsers({ ...filters, page, limit: filters.limit })
+            expect(result.pagination.total).toBe(expected.length)
+            totalPages = result.pagination.totalPages
+
+            for (const user of result.users) {
+              expect(user).not.toHaveProperty('passwordHash')
+              expect(user.status).toBe(UserValidator.accountStatus(state.users.find(stored => stored.id === user.id)!))
+              listed.push(user.id)
+            }
+          }
+
+          expect(listed).toEqual(expected)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should keep a suspended user out of sign-in and open sessions until reactivated', async () => {
+    const admin = addUser({ role: 'ADMIN', email: 'admin@example.com' })
+    const user = addUser({ email: 'ama@example.com', passwordHash: await bcrypt.hash('secret-password', 4) })
+
+    const token = { sub: user.id, email: user.email, role: 'CUSTOMER' }
+    const signedIn = await authOptions.callbacks!.jwt!({ token, user: { id: user.id, role: 'CUSTOMER' } } as never)
+    state.session = { user: { email: user.email } }
+    expect(await requireAuth(new NextRequest('http://localhost/api/bookings'))).toBeNull()
+
+    await UserService.suspend(admin.id, user.id, 'Chargeback fraud', start)
+
+    // The open session ends and the account is refused on every request and sign-in
+    await expect(authOptions.callbacks!.jwt!({ token: signedIn } as never)).rejects.toThrow('Session has been revoked')
+    const refused = await requireAuth(new NextRequest('http://localhost/api/bookings'))
+    expect(refused!.status).toBe(403)
+    expect((await refused!.json()).code).toBe('ACCOUNT_SUSPENDED')
+    await expect(authorize('ama@example.com', 'secret-password')).rejects.toThrow(AccountSuspendedError)
+    await expect(authorize('ama@example.com', 'wrong-password')).resolves.toBeNull()
+    await expect(UserService.suspend(admin.id, user.id, 'Again', start)).rejects.toThrow('This account is already suspended')
+
+    await UserService.reactivate(user.id)
+    expect(await requireAuth(new NextRequest('http://localhost/api/bookings'))).toBeNull()
+    await expect(authorize('ama@example.com', 'secret-password')).resolves.toMatchObject({ id: user.id })
+  })
+
+  it('should make an invited member of staff active only through the latest link', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 3 }),
+        fc.constantFrom('STAFF', 'ADMIN'),
+        async (resends, role) => {
+          state.users = []
+          state.tokens = []
+          CaptureTransport.clear()
+
+          const { user, emailSent } = await UserService.inviteUser({ name: 'Efua Asante', email: 'Efua@Example.com', role: role as FakeUser['role'] }, start)
+          expect(emailSent).toBe(true)
+          expect(user).toMatchObject({ email: 'efua@example.com', role, status: 'invited' })
+
+          const links = [linkSentTo('efua@example.com')!]
+          for (let index = 0; index < resends; index++) {
+            await UserService.resendInvite(user.id, start)
+            links.push(linkSentTo('efua@example.com')!)
+          }
+
+          // Links replaced by a later one no longer work
+          expect(new Set(links).size).toBe(resends + 1)
+          for (const stale of links.slice(0, -1)) {
+            await expect(PasswordResetService.resetPassword(stale, 'first-password', start)).rejects.toThrow(PasswordResetValidationError)
+          }
+
+          await PasswordResetService.resetPassword(links[links.length - 1], 'first-password', start)
+          const [summary] = (await UserService.listUsers({ page: 1, limit: 10 })).users
+          expect(summary.status).toBe('active')
+          await expect(UserService.resendInvite(user.id, start)).rejects.toThrow('Only pending invites can be sent again')
+          await expect(authorize('efua@example.com', 'first-password')).resolves.toMatchObject({ role })
+        }
+      ),
+      { numRuns: 4 }
+    )
+
+    await expect(UserService.inviteUser({ name: 'Efua Asante', email: 'efua@example.com', role: 'STAFF' }, start))
+      .rejects.toThrow('A user with this email already exists')
+    await expect(UserService.inviteUser({ name: 'Yaw Boateng', email: 'yaw@example.com', role: 'CUSTOMER' }, start))
+      .rejects.toThrow('Only staff and admins can be invited')
+  }, 30000)
+
+  it('should not let admins lock themselves out or delete users with bookings', async () => {
+    const admin = addUser({ role: 'ADMIN' })
+    const customer = addUser({ bookings: 2 })
+    const newcomer = addUser()
+
+    await expect(UserService.changeRole(admin.id, admin.id, 'CUSTOMER')).rejects.toThrow('You cannot change the role of your own account')
+    await expect(UserService.suspend(admin.id, admin.id, 'Leaving', start)).rejects.toThrow('You cannot suspend your own account')
+    await expect(UserService.deleteUser(admin.id, admin.id)).rejects.toThrow('You cannot delete your own account')
+    await expect(UserService.deleteUser(admin.id, customer.id)).rejects.toThrow('Users with bookings cannot be deleted')
+    await expect(UserService.changeRole(admin.id, customer.id, 'OWNER')).rejects.toThrow(UserValidationError)
+
+    // A role change signs the user out so the new role applies from their next sign-in
+    const promoted = await UserService.changeRole(admin.id, customer.id, 'staff')
+    expect(promoted.role).toBe('STAFF')
+    expect(customer.sessionVersion).toBe(1)
+
+    await UserService.deleteUser(admin.id, newcomer.id)
+    expect(state.users.map(user => user.id)).toEqual([admin.id, customer.id])
+    expect(admin.role).toBe('ADMIN')
+  })
+})
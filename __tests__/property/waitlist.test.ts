@@ -0,0 +1,369 @@
+/**
+ * **Feature: travel-tour-booking, Property 49: Released seats go to the waitlist first come first served**
+ *
+ * Property-based tests for departure waitlists.
+ * For any line of waiting groups and any number of released seats, offers go to the earliest
+ * groups that fit, the seats held for offers never exceed the seats released, and a lapsed or
+ * turned-down offer hands its seats on to the next in line. Offer emails go through the
+ * outbox, so one that fails is retried with a link that works.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals'
+import * as fc from 'fast-check'
+import crypto from 'crypto'
+import { WaitlistStatus } from '@prisma/client'
+import { WaitlistRules, WaitlistValidationError, WAITLIST_OFFER_HOURS } from '@/app/lib/models'
+
+interface FakeEntry {
+  id: string
+  userId: string
+  availabilityId: string
+  travelersCount: number
+  status: WaitlistStatus
+  claimTokenHash: string | null
+  offerExpiresAt: Date | null
+  bookingId: string | null
+  createdAt: Date
+}
+
+interface FakeWhere {
+  id?: string
+  status?: WaitlistStatus
+  offerExpiresAt?: { lt?: Date; gt?: Date }
+  userId?: string
+  availabilityId?: string
+  travelersCount?: number
+}
+
+const departureStart = new Date('2099-03-01T00:00:00Z')
+const now = new Date('2027-01-15T12:00:00Z')
+
+interface FakeMessage {
+  id: string
+  kind: string
+  payload: { entryId: string }
+  status: 'PENDING' | 'SENT' | 'DEAD'
+  attempts: number
+  nextAttemptAt: Date
+}
+
+const state = {
+  availableSlots: 0,
+  entries: new Map<string, FakeEntry>(),
+  outbox: [] as FakeMessage[]
+}
+
+const matches = (entry: FakeEntry, where: FakeWhere) => {
+  if (where.id !== undefined && entry.id !== where.id) return false
+  if (where.status !== undefined && entry.status !== where.status) return false
+  if (where.userId !== undefined && entry.userId !== where.userId) return false
+  if (where.availabilityId !== undefined && entry.availabilityId !== where.availabilityId) return false
+  if (where.travelersCount !== undefined && entry.travelersCount !== where.travelersCount) return false
+  if (where.offerExpiresAt?.lt && !(entry.offerExpiresAt && entry.offerExpiresAt < where.offerExpiresAt.lt)) return false
+  if (where.offerExpiresAt?.gt && !(entry.offerExpiresAt && entry.offerExpiresAt > where.offerExpiresAt.gt)) return false
+  return true
+}
+
+const inLine = (where: FakeWhere) =>
+  [...state.entries.values()]
+    .filter(entry => matches(entry, where))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+// In-memory Prisma double whose updateMany calls honour their conditional where clause
+const mockPrisma = {
+  tourAvailability: {
+    findUnique: jest.fn(async () => ({
+      id: 'avail-1',
+      tourId: 'tour-1',
+      startDate: departureStart,
+      cancelledAt: null,
+      availableSlots: state.availableSlots,
+      tour: { title: 'Cape Coast Heritage Trail' }
+    })),
+    updateMany: jest.fn(async ({ where, data }: {
+      where: { availableSlots: { gte: number } }
+      data: { availableSlots: { decrement: number } }
+    }) => {
+      if (state.availableSlots < where.availableSlots.gte) return { count: 0 }
+      state.availableSlots -= data.availableSlots.decrement
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ data }: { data: { availableSlots: { increment: number } } }) => {
+      state.availableSlots += data.availableSlots.increment
+      return {}
+    })
+  },
+  waitlistEntry: {
+    findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const entry = state.entries.get(where.id)
+      return entry ? {
+        ...entry,
+        user: { name: `Customer ${entry.userId}`, email: `${entry.userId}@example.com` },
+        tour: { title: 'Cape Coast Heritage Trail' },
+        availability: { startDate: departureStart }
+      } : null
+    }),
+    findMany: jest.fn(async ({ where }: { where: FakeWhere }) => inLine(where).map(entry => ({ ...entry }))),
+    updateMany: jest.fn(async ({ where, data }: { where: FakeWhere; data: Partial<FakeEntry> }) => {
+      const entry = where.id ? state.entries.get(where.id) : undefined
+      if (!entry || !matches(entry, where)) return { count: 0 }
+      Object.assign(entry, data)
+      return { count: 1 }
+    })
+  },
+  outboxMessage: {
+    create: jest.fn(async ({ data }: { data: Pick<FakeMessage, 'kind' | 'payload'> }) => {
+      const message: FakeMessage = { id: `message-${state.outbox.length + 1}`, status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), ...data }
+      state.outbox.push(message)
+      return { ...message }
+    }),
+    findMany: jest.fn(async ({ where }: { where: { nextAttemptAt: { lte: Date }; id?: { in: string[] } } }) =>
+      state.outbox
+        .filter(message => message.status === 'PENDING' && message.nextAttemptAt <= where.nextAttemptAt.lte)
+        .filter(message => !where.id || where.id.in.includes(message.id))
+        .map(message => ({ ...message }))
+    ),
+    // Claims the message only if nobody else has since it was read
+    updateMany: jest.fn(async ({ where, data }: { where: { id: string; nextAttemptAt: Date }; data: { nextAttemptAt: Date } }) => {
+      const message = state.outbox.find(candidate => candidate.id === where.id)
+      if (!message || message.status !== 'PENDING' || message.nextAttemptAt.getTime() !== where.nextAttemptAt.getTime()) {
+        return { count: 0 }
+      }
+      message.attempts++
+      message.nextAttemptAt = data.nextAttemptAt
+      return { count: 1 }
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<FakeMessage> }) =>
+      Object.assign(state.outbox.find(message => message.id === where.id)!, data)
+    )
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+}
+
+const sendWaitlistOfferEmail = jest.fn<(offer: { claimUrl: string }) => Promise<void>>(async () => undefined)
+
+jest.mock('../../app/lib/prisma', () => ({
+  prisma: mockPrisma
+}))
+
+jest.mock('../../app/lib/services/notification', () => ({
+  NotificationService: { sendWaitlistOfferEmail }
+}))
+
+let WaitlistService: typeof import('../../app/lib/services/waitlist').WaitlistService
+
+const reset = (availableSlots: number, groups: number[]) => {
+  state.availableSlots = availableSlots
+  state.entries.clear()
+  state.outbox = []
+  groups.forEach((travelersCount, index) => {
+    const id = `entry-${index + 1}`
+    state.entries.set(id, {
+      id,
+      userId: `user-${index + 1}`,
+      availabilityId: 'avail-1',
+      travelersCount,
+      status: 'WAITING',
+      claimTokenHash: null,
+      offerExpiresAt: null,
+      bookingId: null,
+      createdAt: new Date(Date.UTC(2027, 0, 1, 0, index))
+    })
+  })
+}
+
+const withStatus = (status: WaitlistStatus) => [...state.entries.values()].filter(entry => entry.status === status)
+
+const seatsOffered = () => withStatus('OFFERED').reduce((sum, entry) => sum + entry.travelersCount, 0)
+
+
+describe('Waitlist Properties', () => {
+  beforeAll(async () => {
+    // Import after mocking
+    ({ WaitlistService } = await import('../../app/lib/services/waitlist'))
+  })
+
+  beforeEach(() => {
+    sendWaitlistOfferEmail.mockClear()
+  })
+
+  it('should offer seats first come first served and never offer more seats than are free', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 6 }), { maxLength: 12 }),
+        fc.integer({ min: 0, max: 20 }),
+        (groups, availableSlots) => {
+          const waiting = groups.map((travelersCount, position) => ({ position, travelersCount }))
+          const offers = WaitlistRules.nextOffers(waiting, availableSlots)
+          const offeredSeats = offers.reduce((sum, entry) => sum + entry.travelersCount, 0)
+
+          expect(offeredSeats).toBeLessThanOrEqual(availableSlots)
+
+          // Offers keep the order of the line
+          const positions = offers.map(entry => entry.position)
+          expect(positions).toEqual([...positions].sort((a, b) => a - b))
+
+          // A group is only passed over when it did not fit the seats left at its turn
+          let seatsLeft = availableSlots
+          for (const entry of waiting) {
+            if (offers.includes(entry)) {
+              seatsLeft -= entry.travelersCount
+            } else {
+              expect(entry.travelersCount).toBeGreaterThan(seatsLeft)
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should only let customers wait for departures that are going ahead without room for them', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 10 }),
+        fc.integer({ min: 1, max: 10 }),
+        (availableSlots, travelersCount) => {
+          const departure = { availableSlots, startDate: departureStart, cancelledAt: null }
+          const join = () => WaitlistRules.assertCanJoin(departure, travelersCount, now)
+
+          if (availableSlots >= travelersCount) {
+            expect(join).toThrow(WaitlistValidationError)
+          } else {
+            expect(join).not.toThrow()
+          }
+
+          expect(() => WaitlistRules.assertCanJoin({ ...departure, cancelledAt: now }, travelersCount, now))
+            .toThrow('This departure has been cancelled')
+          expect(() => WaitlistRules.assertCanJoin(departure, travelersCount, departureStart))
+            .toThrow('This departure has already left')
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should never let an offer run past the departure', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 24 * 60 * 10 }),
+        (minutesToDeparture) => {
+          const start = new Date(now.getTime() + minutesToDeparture * 60_000)
+          const expiresAt = WaitlistRules.offerExpiresAt(start, now)
+          const offerWindow = WAITLIST_OFFER_HOURS * 60 * 60 * 1000
+
+          expect(expiresAt.getTime()).toBe(Math.min(now.getTime() + offerWindow, start.getTime()))
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should hold released seats for the offers it makes and email each customer once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.integer({ min: 1, max: 5 }), { minLength: 1, maxLength: 8 }),
+        fc.integer({ min: 0, max: 15 }),
+        async (groups, released) => {
+          reset(released, groups)
+          sendWaitlistOfferEmail.mockClear()
+
+          const offers = await WaitlistService.offerReleasedSeats('avail-1', now)
+          const offered = withStatus('OFFERED')
+
+          expect(offers).toBe(offered.length)
+          expect(seatsOffered() + state.availableSlots).toBe(released)
+          expect(state.availableSlots).toBeGreaterThanOrEqual(0)
+          expect(sendWaitlistOfferEmail).toHaveBeenCalledTimes(offers)
+
+          for (const entry of offered) {
+            expect(entry.claimTokenHash).toMatch(/^[0-9a-f]{64}$/)
+            expect(entry.offerExpiresAt?.getTime()).toBe(WaitlistRules.offerExpiresAt(departureStart, now).getTime())
+          }
+
+          // Running again offers nothing more: the released seats are already held
+          expect(await WaitlistService.offerReleasedSeats('avail-1', now)).toBe(0)
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it('should keep an offer email that failed queued and send a working link when it is retried or asked for', async () => {
+    reset(2, [2])
+    sendWaitlistOfferEmail.mockImplementationOnce(async () => {
+      throw new Error('SMTP unavailable')
+    })
+
+    expect(await WaitlistService.offerReleasedSeats('avail-1', now)).toBe(1)
+    const failedHash = state.entries.get('entry-1')?.claimTokenHash
+    expect(state.entries.get('entry-1')?.status).toBe('OFFERED')
+    expect(state.outbox).toEqual([expect.objectContaining({ kind: 'WAITLIST_OFFER', status: 'PENDING', attempts: 1 })])
+
+    // The scheduler retries once the backoff has passed
+    const { OutboxService } = await import('../../app/lib/services/outbox')
+    await OutboxService.deliverDue(state.outbox[0].nextAttemptAt)
+
+    expect(state.outbox[0].status).toBe('SENT')
+    expect(sendWaitlistOfferEmail).toHaveBeenCalledTimes(2)
+    const token = new URL(sendWaitlistOfferEmail.mock.calls[1][0].claimUrl).searchParams.get('token')!
+    const hash = state.entries.get('entry-1')?.claimTokenHash
+    expect(hash).toBe(crypto.createHash('sha256').update(token).digest('hex'))
+    expect(hash).not.toBe(failedHash)
+
+    // Only the customer the offer was made to can ask for a new link, and only while it stands
+    await expect(WaitlistService.resendOffer('entry-1', 'user-2')).rejects.toThrow('Waitlist entry not found')
+    await WaitlistService.resendOffer('entry-1', 'user-1')
+    expect(sendWaitlistOfferEmail).toHaveBeenCalledTimes(3)
+    expect(state.entries.get('entry-1')?.claimTokenHash).not.toBe(hash)
+
+    await WaitlistService.leaveWaitlist('entry-1', 'user-1')
+    await expect(WaitlistService.resendOffer('entry-1', 'user-1')).rejects.toThrow('This waitlist offer is no longer available')
+  })
+
+  it('should give the seats of lapsed offers to the next in line exactly once', async () => {
+    reset(4, [4, 4, 2])
+    await WaitlistService.offerReleasedSeats('avail-1', now)
+    expect(state.entries.get('entry-1')?.status).toBe('OFFERED')
+    expect(state.availableSlots).toBe(0)
+
+    const later = new Date(now.getTime() + (WAITLIST_OFFER_HOURS + 1) * 60 * 60 * 1000)
+    expect(await WaitlistService.expireOffers(later)).toBe(1)
+    expect(await WaitlistService.expireOffers(later)).toBe(0)
+
+    expect(state.entries.get('entry-1')?.status).toBe('EXPIRED')
+    expect(state.entries.get('entry-1')?.claimTokenHash).toBeNull()
+    expect(state.entries.get('entry-2')?.status).toBe('OFFERED')
+    expect(state.entries.get('entry-3')?.status).toBe('WAITING')
+    expect(state.availableSlots).toBe(0)
+  })
+
+  it('should pass turned-down seats on, and only let the offered customer claim them', async () => {
+    // Turning an offer down re-offers its seats from the current time
+    reset(3, [3, 2])
+    await WaitlistService.offerReleasedSeats('avail-1')
+
+    await expect(WaitlistService.leaveWaitlist('entry-1', 'user-2')).rejects.toThrow('Waitlist entry not found')
+    await WaitlistService.leaveWaitlist('entry-1', 'user-1')
+
+    expect(state.entries.get('entry-1')?.status).toBe('LEFT')
+    expect(state.entries.get('entry-2')?.status).toBe('OFFERED')
+    expect(state.availableSlots).toBe(1)
+
+    const booking = { id: 'booking-1', userId: 'user-2', availabilityId: 'avail-1', travelersCount: 2 }
+    const tx = mockPrisma as unknown as Parameters<typeof WaitlistService.claimSeats>[2]
+
+    await expect(WaitlistService.claimSeats('entry-2', { ...booking, userId: 'user-1' }, tx))
+      .rejects.toThrow('This waitlist offer is no longer available')
+    await expect(WaitlistService.claimSeats('entry-2', { ...booking, travelersCount: 3 }, tx))
+      .rejects.toThrow('This waitlist offer is no longer available')
+
+    await WaitlistService.claimSeats('entry-2', booking, tx)
+    expect(state.entries.get('entry-2')).toMatchObject({ status: 'CLAIMED', bookingId: 'booking-1', claimTokenHash: null })
+
+    // The seats now belong to the booking and cannot be claimed twice
+    await expect(WaitlistService.claimSeats('entry-2', booking, tx))
+      .rejects.toThrow('This waitlist offer is no longer available')
+    expect(state.availableSlots).toBe(1)
+  })
+})
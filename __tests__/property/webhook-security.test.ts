@@ -0,0 +1,224 @@
+/**
+ * **Feature: travel-tour-booking, Property 42: Webhooks are authentic, applied once and in order**
+ *
+ * Property-based tests for webhook handling.
+ * For any webhook body, only a valid signature over the exact bytes within the replay
+ * tolerance is accepted; for any sequence of deliveries, each event is applied once; and
+ * for any order of provider reports, a successful payment never goes back to failed.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals'
+import * as fc from 'fast-check'
+import crypto from 'crypto'
+import { PaymentStatus, Prisma, WebhookEventStatus } from '@prisma/client'
+import { PaymentStateMachine } from '@/app/lib/models'
+import {
+  FlutterwaveProvider,
+  PaystackProvider,
+  ProviderWebhookEvent,
+  StripeProvider,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from '@/app/lib/services/payment-providers'
+import type { WebhookService as WebhookServiceType } from '@/app/lib/services/webhook'
+
+interface StoredEvent {
+  provider: string
+  eventId: string
+  status: WebhookEventStatus
+  updatedAt: Date
+}
+
+const store = new Map<string, StoredEvent>()
+const key = (provider: string, eventId: string) => `${provider}:${eventId}`
+
+const mockPrisma = {
+  webhookEvent: {
+    create: async ({ data }: { data: { provider: string; eventId: string } }) => {
+      if (store.has(key(data.provider, data.eventId))) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      }
+      const row = { provider: data.provider, eventId: data.eventId, status: 'RECEIVED' as WebhookEventStatus, updatedAt: new Date() }
+      store.set(key(data.provider, data.eventId), row)
+      return row
+    },
+    update: async ({ where, data }: { where: { provider_eventId: { provider: string; eventId: string } }; data: { status: WebhookEventStatus } }) => {
+      const row = store.get(key(where.provider_eventId.provider, where.provider_eventId.eventId))!
+      row.status = data.status
+      row.updatedAt = new Date()
+      return row
+    },
+    updateMany: async ({ where }: { where: { provider: string; eventId: string; OR: { status: WebhookEventStatus; updatedAt?: { lt: Date } }[] } }) => {
+      const row = store.get(key(where.provider, where.eventId))
+      const matches = row && where.OR.some(condition =>
+        row.status === condition.status && (!condition.updatedAt || row.updatedAt < condition.updatedAt.lt))
+      if (!row || !matches) return { count: 0 }
+      row.status = 'RECEIVED'
+      row.updatedAt = new Date()
+      return { count: 1 }
+    },
+    findUnique: async ({ where }: { where: { provider_eventId: { provider: string; eventId: string } } }) =>
+      store.get(key(where.provider_eventId.provider, where.provider_eventId.eventId)) ?? null
+  }
+}
+
+const processWebhook = jest.fn(async () => undefined)
+
+jest.mock('../../app/lib/prisma', () => ({ prisma: mockPrisma }))
+jest.mock('../../app/lib/services/payment', () => ({
+  PaymentService: {
+    processWebhook,
+    processRefundWebhook: jest.fn(async () => undefined)
+  }
+}))
+
+let WebhookService: typeof WebhookServiceType
+
+beforeAll(async () => {
+  ({ WebhookService } = await import('@/app/lib/services/webhook'))
+})
+
+const stripeHeader = (secret: string, body: string, timestamp: number) => {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return new Headers({ 'stripe-signature': `t=${timestamp},v1=${signature}` })
+}
+
+describe('Webhook Security Properties', () => {
+  beforeEach(() => {
+    store.clear()
+    processWebhook.mockClear()
+  })
+
+  it('should accept Stripe signatures only over the exact body and within the tolerance', () => {
+    const stripe = new StripeProvider('whsec_test')
+    const now = new Date('2026-10-19T12:00:00Z')
+    const nowSeconds = Math.floor(now.getTime() / 1000)
+
+    fc.assert(
+      fc.property(
+        fc.string(),
+        fc.integer({ min: -3 * WEBHOOK_TOLERANCE_SECONDS, max: 3 * WEBHOOK_TOLERANCE_SECONDS }),
+        (body, drift) => {
+          const headers = stripeHeader('whsec_test', body, nowSeconds + drift)
+          const result = stripe.verifySignature(body, headers, now)
+
+          expect(result.valid).toBe(Math.abs(drift) <= WEBHOOK_TOLERANCE_SECONDS)
+          expect(stripe.verifySignature(`${body} `, headers, now).valid).toBe(false)
+          expect(stripe.verifySignature(body, stripeHeader('whsec_other', body, nowSeconds), now).valid).toBe(false)
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should check Paystack and Flutterwave HMACs over the raw body', () => {
+    const paystack = new PaystackProvider('sk_test')
+    const flutterwave = new FlutterwaveProvider('flw_hash')
+
+    fc.assert(
+      fc.property(fc.string(), fc.string({ minLength: 1 }), (body, tamper) => {
+        const paystackHeaders = new Headers({
+          'x-paystack-signature': crypto.createHmac('sha512', 'sk_test').update(body).digest('hex')
+        })
+        const flutterwaveHeaders = new Headers({
+          'flutterwave-signature': crypto.createHmac('sha256', 'flw_hash').update(body).digest('base64')
+        })
+
+        expect(paystack.verifySignature(body, paystackHeaders).valid).toBe(true)
+        expect(paystack.verifySignature(body + tamper, paystackHeaders).valid).toBe(false)
+        expect(flutterwave.verifySignature(body, flutterwaveHeaders).valid).toBe(true)
+        expect(flutterwave.verifySignature(body + tamper, flutterwaveHeaders).valid).toBe(false)
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it('should reject every webhook when no secret is configured', () => {
+    const headers = stripeHeader('', '{}', Math.floor(Date.now() / 1000))
+    expect(new StripeProvider('').verifySignature('{}', headers).valid).toBe(false)
+    expect(new PaystackProvider('').verifySignature('{}', new Headers()).valid).toBe(false)
+    expect(new FlutterwaveProvider('').verifySignature('{}', new Headers()).valid).toBe(false)
+  })
+
+  it('should only map known Stripe event types and ignore the rest', () => {
+    const stripe = new StripeProvider('whsec_test')
+    const body = (type: string) => ({
+      id: 'evt_1',
+      type,
+      data: { object: { id: 'pi_1', metadata: { paymentId: 'pay_1' } } }
+    })
+
+    expect(stripe.parseWebhook(body('payment_intent.succeeded'))?.update?.data).toMatchObject({ status: 'SUCCESS' })
+    expect(stripe.parseWebhook(body('payment_intent.payment_failed'))?.update?.data).toMatchObject({ status: 'FAILED' })
+    expect(stripe.parseWebhook(body('payment_intent.processing'))?.update?.data).toMatchObject({ status: 'PENDING' })
+    expect(stripe.parseWebhook(body('customer.created'))).toEqual({ eventId: 'evt_1', eventType: 'customer.created', update: null })
+  })
+
+  it('should never let a provider report move a successful payment', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom<PaymentStatus>('PENDING', 'SUCCESS', 'FAILED'), { maxLength: 12 }),
+        (reports) => {
+          let status: PaymentStatus = 'PENDING'
+          let succeeded = false
+
+          for (const report of reports) {
+            const applies = PaymentStateMachine.providerSourcesFor(report).includes(status)
+            expect(applies).toBe(PaymentStateMachine.canApplyProviderStatus(status, report))
+            if (applies) status = report
+            if (status === 'SUCCESS') succeeded = true
+            if (succeeded) expect(status).toBe('SUCCESS')
+          }
+        }
+      ),
+      { numRuns: 200 }
+    )
+  })
+
+  it('should apply each event once however many times it is delivered', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.constantFrom('evt_a', 'evt_b', 'evt_c'), { minLength: 1, maxLength: 15 }),
+        async (deliveries) => {
+          store.clear()
+          processWebhook.mockClear()
+
+          for (const eventId of deliveries) {
+            const event: ProviderWebhookEvent = {
+              eventId,
+              eventType: 'payment.succeeded',
+              update: {
+                kind: 'payment',
+                data: { paymentId: 'pay_1', status: 'SUCCESS', providerTransactionId: 'tx', provider: 'SANDBOX' }
+              }
+            }
+            const outcome = await WebhookService.receive('SANDBOX', event, { id: eventId })
+            expect(['processed', 'duplicate']).toContain(outcome)
+          }
+
+          expect(processWebhook).toHaveBeenCalledTimes(new Set(deliveries).size)
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should retry an event whose processing failed', async () => {
+    const event: ProviderWebhookEvent = {
+      eventId: 'evt_retry',
+      eventType: 'payment.succeeded',
+      update: {
+        kind: 'payment',
+        data: { paymentId: 'pay_1', status: 'SUCCESS', providerTransactionId: 'tx', provider: 'SANDBOX' }
+      }
+    }
+
+    processWebhook.mockImplementationOnce(async () => { throw new Error('Database unavailable') })
+
+    await expect(WebhookService.receive('SANDBOX', event, {})).rejects.toThrow('Database unavailable')
+    expect(store.get(key('SANDBOX', 'evt_retry'))?.status).toBe('FAILED')
+
+    await expect(WebhookService.receive('SANDBOX', event, {})).resolves.toBe('processed')
+    await expect(WebhookService.receive('SANDBOX', event, {})).resolves.toBe('duplicate')
+    expect(processWebhook).toHaveBeenCalledTimes(2)
+  })
+})
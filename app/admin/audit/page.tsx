@@ -0,0 +1,340 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+type AuditValue = string | number | boolean | null | AuditValue[] | { [key: string]: AuditValue }
+
+interface AuditEntry {
+  id: string
+  actorId: string | null
+  actorEmail: string
+  action: string
+  entityType: string
+  entityId: string
+  changes: Record<string, { before: AuditValue; after: AuditValue }> | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+interface Filters {
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  from: string
+  to: string
+}
+
+const ENTITY_TYPES = [
+  'Booking',
+  'Content',
+  'DepartureSchedule',
+  'Destination',
+  'ExchangeRate',
+  'OutboxMessage',
+  'PricingRule',
+  'PromoCode',
+  'Refund',
+  'Review',
+  'Tour',
+  'TourAvailability',
+  'User'
+]
+
+const EMPTY_FILTERS: Filters = { actor: '', action: '', entityType: '', entityId: '', from: '', to: '' }
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+const formatValue = (value: AuditValue) => {
+  if (value === null) return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+const filterParams = (filters: Filters) => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.append(key, value.trim())
+  }
+  return params
+}
+
+export default function AdminAuditPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [form, setForm] = useState<Filters>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = filterParams(filters)
+      params.append('page', String(page))
+
+      const response = await fetch(`/api/admin/audit-logs?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch audit log')
+
+      setEntries(data.data.entries)
+      setPagination(data.data.pagination)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, filters])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'audit:view')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchEntries()
+  }, [session, status, router, fetchEntries])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'audit:view')) {
+    return null // Will redirect
+  }
+
+  const csvParams = filterParams(filters)
+  csvParams.append('format', 'csv')
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/admin" className="text-primary hover:text-primary/80 flex items-center gap-2">
+                <ArrowLeftIcon className="w-4 h-4" />
+                <span>Admin Dashboard</span>
+              </Link>
+              <h1 className="text-xl font-semibold text-gray-900">Audit Log</h1>
+            </div>
+            <a
+              href={`/api/admin/audit-logs?${csvParams.toString()}`}
+              className="bg-white text-gray-700 border border-gray-300 px-3 py-2 rounded-md text-sm font-medium flex items-center gap-2"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              CSV
+            </a>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            setPage(1)
+            setFilters(form)
+          }}
+          className="bg-white shadow sm:rounded-md p-4 mb-6 flex flex-wrap items-end gap-3"
+        >
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Actor email</label>
+            <input
+              value={form.actor}
+              onChange={(e) => setForm({ ...form, actor: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Action</label>
+            <input
+              value={form.action}
+              onChange={(e) => setForm({ ...form, action: e.target.value })}
+              placeholder="tour.update"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm w-40"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Entity</label>
+            <select
+              value={form.entityType}
+              onChange={(e) => setForm({ ...form, entityType: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All</option>
+              {ENTITY_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Entity ID</label>
+            <input
+              value={form.entityId}
+              onChange={(e) => setForm({ ...form, entityId: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+            <input
+              type="date"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+            <input
+              type="date"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <button type="submit" className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium">
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPage(1)
+              setForm(EMPTY_FILTERS)
+              setFilters(EMPTY_FILTERS)
+            }}
+            className="bg-white text-gray-700 border border-gray-300 px-3 py-2 rounded-md text-sm font-medium"
+          >
+            Clear
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchEntries}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No audit log entries found</div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Time</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Actor</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Action</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Entity</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-6 py-4 text-gray-700 whitespace-nowrap">{formatDateTime(entry.createdAt)}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-gray-900">{entry.actorEmail}</p>
+                      <p className="text-xs text-gray-400" title={entry.userAgent || undefined}>{entry.ipAddress || '—'}</p>
+                    </td>
+                    <td className="px-6 py-4 font-mono text-gray-700">{entry.action}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-gray-900">{entry.entityType}</p>
+                      <p className="text-xs text-gray-400 font-mono">{entry.entityId}</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      {entry.changes ? (
+                        <ul className="space-y-1">
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <li key={field} className="text-gray-700 break-all">
+                              <span className="font-medium">{field}:</span>{' '}
+                              <span className="text-red-600">{formatValue(change.before)}</span>
+                              {' → '}
+                              <span className="text-green-700">{formatValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="bg-white border border-gray-300 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+                className="bg-white border border-gray-300 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
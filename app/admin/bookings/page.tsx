@@ -5,12 +5,15 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules } from '@/app/lib/models/permission'
 
 interface Booking {
   id: string
   travelersCount: number
   totalPrice: number
-  status: 'pending' | 'confirmed' | 'cancelled'
+  currency: string
+  status: 'pending' | 'confirmed' | 'cancelled' | 'expired' | 'completed' | 'no_show' | 'refunded'
   createdAt: string
   user: {
     id: string
@@ -34,11 +37,43 @@ interface Booking {
     status: 'pending' | 'success' | 'failed'
     amount: number
   }
+  refundAmount: number | null
+  payments: {
+    id: string
+    status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'REFUNDED' | 'PARTIALLY_REFUNDED'
+    amount: number
+    currency: string
+    refunds: {
+      id: string
+      amount: number
+      status: 'PENDING' | 'SUCCESS' | 'FAILED'
+    }[]
+  }[]
+}
+
+type BookingPayment = Booking['payments'][number]
+
+// Left on a payment once pending and completed refunds are taken off
+const getRefundable = (payment: BookingPayment) => {
+  if (payment.status !== 'SUCCESS' && payment.status !== 'PARTIALLY_REFUNDED') return 0
+  const committed = payment.refunds
+    .filter(refund => refund.status !== 'FAILED')
+    .reduce((sum, refund) => sum + refund.amount, 0)
+  return Math.max(0, payment.amount - committed)
 }
 
+const getRefunded = (booking: Booking) =>
+  (booking.payments || []).reduce(
+    (sum, payment) => sum + payment.refunds
+      .filter(refund => refund.status === 'SUCCESS')
+      .reduce((total, refund) => total + refund.amount, 0),
+    0
+  )
+
 export default function AdminBookingsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const canRefund = PermissionRules.can(session?.user?.role, 'payments:refund')
   const [bookings, setBookings] = useState<Booking[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -69,7 +104,7 @@ export default function AdminBookingsPage() {
       router.push('/auth/signin')
       return
     }
-    if (session.user?.role !== 'ADMIN') {
+    if (!PermissionRules.can(session.user?.role, 'bookings:read')) {
       router.push('/dashboard')
       return
     }
@@ -82,12 +117,12 @@ export default function AdminBookingsPage() {
     }
 
     try {
-      const response = await fetch(`/api/admin/bookings/${bookingId}`, {
-        method: 'PATCH',
+      const response = await fetch('/api/admin/bookings', {
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ status: newStatus })
+        body: JSON.stringify({ bookingId, status: newStatus })
       })
 
       if (!response.ok) throw new Error('Failed to update booking status')
@@ -100,6 +135,99 @@ export default function AdminBookingsPage() {
     }
   }
 
+  const handleCancel = async (bookingId: string) => {
+    try {
+      const quoteResponse = await fetch(`/api/bookings/${bookingId}/cancellation`)
+      if (!quoteResponse.ok) throw new Error('Failed to quote cancellation')
+      const { quote } = await quoteResponse.json()
+
+      const policyRefund = Money.of(quote.refundAmount, quote.currency)
+      const policySummary = `Policy refund: ${policyRefund.format()} (${quote.refundPercent}% of ${Money.of(quote.paidAmount, quote.currency).format()} paid, ` +
+        `${quote.daysBeforeStart} days before departure).`
+
+      // Only roles that may refund can record a different amount from the policy's
+      const input = canRefund
+        ? prompt(`${policySummary}\n\nRefund amount to record:`, String(policyRefund.toMajor()))
+        : confirm(`${policySummary}\n\nCancel this booking?`) ? String(policyRefund.toMajor()) : null
+      if (input === null) return
+
+      // Typed in major units, sent in minor units
+      const refundAmount = Money.fromMajor(parseFloat(input), quote.currency).amount
+      const body: { bookingId: string; status: string; refundAmount?: number; reason?: string } = {
+        bookingId,
+        status: 'cancelled'
+      }
+
+      // Anything other than the policy amount is an override and needs a reason
+      if (refundAmount !== quote.refundAmount) {
+        const reason = prompt('Reason for overriding the cancellation policy:')
+        if (!reason) return
+        body.refundAmount = refundAmount
+        body.reason = reason
+      }
+
+      const response = await fetch('/api/admin/bookings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel booking')
+
+      // Refresh bookings
+      fetchBookings()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel booking')
+      console.error(err)
+    }
+  }
+
+  const handleRefund = async (booking: Booking) => {
+    const payment = (booking.payments || []).find(p => getRefundable(p) > 0)
+    if (!payment) return
+
+    const refundable = getRefundable(payment)
+    // Suggest whatever is still owed on a cancellation, otherwise the full balance
+    const owed = booking.refundAmount !== null
+      ? Math.max(0, booking.refundAmount - getRefunded(booking))
+      : refundable
+    const suggested = Math.min(refundable, owed)
+
+    const input = prompt(
+      `Up to ${Money.of(refundable, payment.currency).format()} of this payment can be refunded.\n\nAmount to refund:`,
+      String(Money.of(suggested, payment.currency).toMajor())
+    )
+    if (input === null) return
+
+    const reason = prompt('Reason for the refund:', booking.refundAmount !== null ? 'Booking cancelled' : '')
+    if (!reason) return
+
+    try {
+      // Typed in major units, sent in minor units
+      const amount = Money.fromMajor(parseFloat(input), payment.currency).amount
+      const response = await fetch(`/api/admin/payments/${payment.id}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ amount, reason })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to refund payment')
+
+      alert(data.message)
+      // Refresh bookings
+      fetchBookings()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to refund payment')
+      console.error(err)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800'
@@ -143,7 +271,7 @@ export default function AdminBookingsPage() {
     )
   }
 
-  if (!session || session.user?.role !== 'ADMIN') {
+  if (!session || !PermissionRules.can(session.user?.role, 'bookings:read')) {
     return null // Will redirect
   }
 
@@ -288,7 +416,10 @@ export default function AdminBookingsPage() {
                           <div>
                             <p><span className="font-medium">Destination:</span> {booking.tour.destination.name}, {booking.tour.destination.country}</p>
                             <p><span className="font-medium">Tour Dates:</span> {formatTourDate(booking.availability.startDate)} - {formatTourDate(booking.availability.endDate)}</p>
-                            <p><span className="font-medium">Total Price:</span> <span className="text-lg font-bold text-primary">${booking.totalPrice}</span></p>
+                            <p><span className="font-medium">Total Price:</span> <span className="text-lg font-bold text-primary">{Money.of(booking.totalPrice, booking.currency).format()}</span></p>
+                            {getRefunded(booking) > 0 && (
+                              <p><span className="font-medium">Refunded:</span> {Money.of(getRefunded(booking), booking.currency).format()}</p>
+                            )}
                           </div>
                         </div>
                         
@@ -315,7 +446,7 @@ export default function AdminBookingsPage() {
                                   Confirm
                                 </button>
                                 <button
-                                  onClick={() => handleStatusUpdate(booking.id, 'cancelled')}
+                                  onClick={() => handleCancel(booking.id)}
                                   className="text-red-600 hover:text-red-500 text-sm font-medium"
                                 >
                                   Cancel
@@ -324,11 +455,34 @@ export default function AdminBookingsPage() {
                             )}
                             
                             {booking.status === 'confirmed' && (
+                              <>
+                                <button
+                                  onClick={() => handleStatusUpdate(booking.id, 'completed')}
+                                  className="text-green-600 hover:text-green-500 text-sm font-medium"
+                                >
+                                  Complete
+                                </button>
+                                <button
+                                  onClick={() => handleStatusUpdate(booking.id, 'no_show')}
+                                  className="text-yellow-600 hover:text-yellow-500 text-sm font-medium"
+                                >
+                                  No-show
+                                </button>
+                                <button
+                                  onClick={() => handleCancel(booking.id)}
+                                  className="text-red-600 hover:text-red-500 text-sm font-medium"
+                                >
+                                  Cancel
+                                </button>
+                              </>
+                            )}
+                            
+                            {canRefund && (booking.payments || []).some(payment => getRefundable(payment) > 0) && (
                               <button
-                                onClick={() => handleStatusUpdate(booking.id, 'cancelled')}
-                                className="text-red-600 hover:text-red-500 text-sm font-medium"
+                                onClick={() => handleRefund(booking)}
+                                className="text-purple-600 hover:text-purple-500 text-sm font-medium"
                               >
-                                Cancel
+                                Refund
                               </button>
                             )}
                             
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { CurrencyConverter, SUPPORTED_CURRENCIES } from '@/app/lib/models/exchange-rate'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+interface ExchangeRate {
+  id: string
+  baseCurrency: string
+  quoteCurrency: string
+  rate: number
+  effectiveFrom: string
+  createdAt: string
+  createdBy?: {
+    id: string
+    name: string
+  } | null
+}
+
+export default function AdminExchangeRatesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    baseCurrency: 'USD',
+    quoteCurrency: 'EUR',
+    rate: '',
+    effectiveFrom: ''
+  })
+
+  const fetchRates = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/exchange-rates')
+      if (!response.ok) throw new Error('Failed to fetch exchange rates')
+
+      const data = await response.json()
+      setRates(data.data || [])
+      setError('')
+    } catch (err) {
+      setError('Failed to load exchange rates')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'pricing:manage')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchRates()
+  }, [session, status, router, fetchRates])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/admin/exchange-rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          baseCurrency: form.baseCurrency,
+          quoteCurrency: form.quoteCurrency,
+          rate: parseFloat(form.rate),
+          effectiveFrom: form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : undefined
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add exchange rate')
+
+      setForm({ ...form, rate: '', effectiveFrom: '' })
+      fetchRates()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add exchange rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm('Withdraw this scheduled exchange rate?')) return
+
+    try {
+      const response = await fetch(`/api/admin/exchange-rates/${rateId}`, {
+        method: 'DELETE'
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete exchange rate')
+
+      fetchRates()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete exchange rate')
+    }
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  // The newest rate already in effect for each pair is the one bookings use today
+  const now = new Date()
+  const currentRateIds = new Set(
+    CurrencyConverter.currentQuotes(
+      rates.map((rate) => ({ ...rate, effectiveFrom: new Date(rate.effectiveFrom) })),
+      now
+    ).map((rate) => rate.id)
+  )
+
+  const getRateStatus = (rate: ExchangeRate) => {
+    if (new Date(rate.effectiveFrom) > now) return { text: 'scheduled', className: 'bg-blue-100 text-blue-800' }
+    if (currentRateIds.has(rate.id)) return { text: 'current', className: 'bg-green-100 text-green-800' }
+    return { text: 'superseded', className: 'bg-gray-100 text-gray-800' }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'pricing:manage')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Admin Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Exchange Rates</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Add Rate */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-medium text-gray-900 mb-1">Add Rate</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Rates are kept as history. To change a rate, add a new one; bookings keep the rate they were made at.
+          </p>
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-4 text-sm">
+            <div>
+              <label className="block text-gray-700 mb-1">1 unit of</label>
+              <select
+                value={form.baseCurrency}
+                onChange={(e) => setForm({ ...form, baseCurrency: e.target.value })}
+                className="border border-gray-300 rounded-md px-3 py-2"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Equals</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                required
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className="border border-gray-300 rounded-md px-3 py-2 w-36"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Units of</label>
+              <select
+                value={form.quoteCurrency}
+                onChange={(e) => setForm({ ...form, quoteCurrency: e.target.value })}
+                className="border border-gray-300 rounded-md px-3 py-2"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Effective from (blank for now)</label>
+              <input
+                type="datetime-local"
+                value={form.effectiveFrom}
+                onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                className="border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-2 rounded-md font-medium"
+            >
+              {saving ? 'Saving...' : 'Add Rate'}
+            </button>
+          </form>
+        </div>
+
+        {/* Rate History */}
+        {error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchRates}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : rates.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No exchange rates yet. Tours can only be booked in their own currency until a rate is added.
+          </div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Pair</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Rate</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Effective From</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Added By</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rates.map((rate) => {
+                  const rateStatus = getRateStatus(rate)
+                  return (
+                    <tr key={rate.id}>
+                      <td className="px-6 py-4 font-medium text-gray-900">
+                        {rate.baseCurrency} → {rate.quoteCurrency}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">{rate.rate}</td>
+                      <td className="px-6 py-4 text-gray-700">{formatDateTime(rate.effectiveFrom)}</td>
+                      <td className="px-6 py-4 text-gray-500">{rate.createdBy?.name || '—'}</td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${rateStatus.className}`}>
+                          {rateStatus.text}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        {rateStatus.text === 'scheduled' && (
+                          <button
+                            onClick={() => handleDelete(rate.id)}
+                            className="text-red-600 hover:text-red-500 font-medium"
+                          >
+                            Withdraw
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
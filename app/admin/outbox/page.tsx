@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+type OutboxStatus = 'PENDING' | 'SENT' | 'DEAD'
+
+interface OutboxMessage {
+  id: string
+  kind: string
+  payload: Record<string, string>
+  bookingId: string | null
+  status: OutboxStatus
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  sentAt: string | null
+  createdAt: string
+}
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SENT: 'bg-green-100 text-green-800',
+  DEAD: 'bg-red-100 text-red-800'
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const formatKind = (kind: string) => kind.toLowerCase().replace(/_/g, ' ')
+
+export default function AdminOutboxPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [messages, setMessages] = useState<OutboxMessage[]>([])
+  const [counts, setCounts] = useState<Record<OutboxStatus, number>>({ PENDING: 0, SENT: 0, DEAD: 0 })
+  const [filter, setFilter] = useState<OutboxStatus | ''>('DEAD')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [resending, setResending] = useState<string | null>(null)
+
+  const fetchOutbox = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/outbox${filter ? `?status=${filter}` : ''}`)
+      if (!response.ok) throw new Error('Failed to fetch outbox')
+
+      const data = await response.json()
+      setMessages(data.data.messages)
+      setCounts(data.data.counts)
+      setError('')
+    } catch (err) {
+      setError('Failed to load queued notifications')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'notifications:manage')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchOutbox()
+  }, [session, status, router, fetchOutbox])
+
+  const handleResend = async (messageId: string) => {
+    setResending(messageId)
+
+    try {
+      const response = await fetch(`/api/admin/outbox/${messageId}/resend`, {
+        method: 'POST'
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to re-send notification')
+
+      alert(data.message)
+      fetchOutbox()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to re-send notification')
+    } finally {
+      setResending(null)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'notifications:manage')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Admin Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Notification Outbox</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-sm text-gray-500 mb-4">
+          Notifications are queued with the booking or payment change they report and retried with increasing
+          delays when sending fails. Dead notifications ran out of attempts and are only sent again from here.
+        </p>
+
+        {/* Status Filter */}
+        <div className="flex gap-2 mb-6">
+          {([['DEAD', 'Dead'], ['PENDING', 'Pending'], ['SENT', 'Sent'], ['', 'All']] as const).map(([value, label]) => (
+            <button
+              key={label}
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${filter === value ? 'bg-primary text-white' : 'bg-white text-gray-700 border border-gray-300'}`}
+            >
+              {label}{value ? ` (${counts[value]})` : ''}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchOutbox}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No notifications here</div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Notification</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Booking</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Queued</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Attempts</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Last Error</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {messages.map((message) => (
+                  <tr key={message.id}>
+                    <td className="px-6 py-4 font-medium text-gray-900 capitalize">{formatKind(message.kind)}</td>
+                    <td className="px-6 py-4 text-gray-500 font-mono text-xs">{message.bookingId || '—'}</td>
+                    <td className="px-6 py-4 text-gray-700">{formatDateTime(message.createdAt)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[message.status]}`}>
+                        {message.status.toLowerCase()}
+                      </span>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {message.status === 'SENT' && message.sentAt && `at ${formatDateTime(message.sentAt)}`}
+                        {message.status === 'PENDING' && `next try ${formatDateTime(message.nextAttemptAt)}`}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">{message.attempts}</td>
+                    <td className="px-6 py-4 text-gray-500 max-w-xs truncate" title={message.lastError || undefined}>
+                      {message.lastError || '—'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {message.status !== 'SENT' && (
+                        <button
+                          onClick={() => handleResend(message.id)}
+                          disabled={resending === message.id}
+                          className="text-primary hover:text-primary/80 font-medium disabled:opacity-50"
+                        >
+                          {resending === message.id ? 'Sending...' : 'Re-send'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
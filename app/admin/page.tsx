@@ -4,18 +4,27 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import NotificationBell from '@/components/NotificationBell'
 import { 
   CurrencyDollarIcon, 
   CalendarIcon, 
   MapIcon, 
   UserGroupIcon, 
   GlobeAltIcon, 
-  DocumentTextIcon 
+  DocumentTextIcon,
+  TicketIcon,
+  EnvelopeIcon,
+  ClipboardDocumentListIcon
 } from '@heroicons/react/24/outline'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules, type Permission } from '@/app/lib/models/permission'
 
 interface DashboardStats {
   totalBookings: number
-  totalRevenue: number
+  revenueByCurrency: Array<{
+    currency: string
+    totalRevenue: { amount: number; currency: string }
+  }>
   pendingBookings: number
   confirmedBookings: number
   totalTours: number
@@ -26,11 +35,25 @@ interface DashboardStats {
     tour: { title: string }
     user: { name: string }
     totalPrice: number
+    currency: string
     status: string
     createdAt: string
   }>
 }
 
+// Each section is offered only to roles that may use it
+const quickActions: Array<{ href: string; label: string; icon: typeof MapIcon; permission: Permission }> = [
+  { href: '/admin/tours', label: 'Manage Tours', icon: MapIcon, permission: 'tours:read' },
+  { href: '/admin/bookings', label: 'View Bookings', icon: CalendarIcon, permission: 'bookings:read' },
+  { href: '/admin/destinations', label: 'Destinations', icon: GlobeAltIcon, permission: 'tours:read' },
+  { href: '/admin/content', label: 'Content', icon: DocumentTextIcon, permission: 'content:write' },
+  { href: '/admin/exchange-rates', label: 'Exchange Rates', icon: CurrencyDollarIcon, permission: 'pricing:manage' },
+  { href: '/admin/promo-codes', label: 'Promo Codes', icon: TicketIcon, permission: 'pricing:manage' },
+  { href: '/admin/outbox', label: 'Notification Outbox', icon: EnvelopeIcon, permission: 'notifications:manage' },
+  { href: '/admin/users', label: 'Users', icon: UserGroupIcon, permission: 'users:manage' },
+  { href: '/admin/audit', label: 'Audit Log', icon: ClipboardDocumentListIcon, permission: 'audit:view' }
+]
+
 export default function AdminDashboard() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -44,10 +67,14 @@ export default function AdminDashboard() {
       router.push('/auth/signin')
       return
     }
-    if (session.user?.role !== 'ADMIN') {
+    if (!PermissionRules.hasAdminAccess(session.user?.role)) {
       router.push('/dashboard')
       return
     }
+    if (!PermissionRules.can(session.user?.role, 'reports:view')) {
+      setLoading(false)
+      return
+    }
     fetchDashboardStats()
   }, [session, status, router])
 
@@ -92,10 +119,12 @@ export default function AdminDashboard() {
     )
   }
 
-  if (!session || session.user?.role !== 'ADMIN') {
+  if (!session || !PermissionRules.hasAdminAccess(session.user?.role)) {
     return null // Will redirect
   }
 
+  const canViewReports = PermissionRules.can(session.user?.role, 'reports:view')
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -104,6 +133,7 @@ export default function AdminDashboard() {
           <div className="flex justify-between items-center h-16">
             <h1 className="text-xl font-semibold text-gray-900">Admin Dashboard</h1>
             <div className="flex items-center space-x-4">
+              <NotificationBell />
               <span className="text-gray-700">Welcome, {session.user?.name}</span>
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary">
                 {session.user?.role}
@@ -114,7 +144,26 @@ export default function AdminDashboard() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {error ? (
+        {/* Quick Actions */}
+        <div className="mb-8">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Quick Actions</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {quickActions
+              .filter(action => PermissionRules.can(session.user?.role, action.permission))
+              .map(({ href, label, icon: Icon }) => (
+                <Link
+                  key={href}
+                  href={href}
+                  className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow text-center flex flex-col items-center"
+                >
+                  <Icon className="w-8 h-8 text-primary mb-2" />
+                  <div className="font-medium text-gray-900">{label}</div>
+                </Link>
+              ))}
+          </div>
+        </div>
+
+        {!canViewReports ? null : error ? (
           <div className="text-center py-12">
             <p className="text-red-600 mb-4">{error}</p>
             <button
@@ -130,41 +179,6 @@ export default function AdminDashboard() {
           </div>
         ) : (
           <>
-            {/* Quick Actions */}
-            <div className="mb-8">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Quick Actions</h2>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <Link
-                  href="/admin/tours"
-                  className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow text-center flex flex-col items-center"
-                >
-                  <MapIcon className="w-8 h-8 text-primary mb-2" />
-                  <div className="font-medium text-gray-900">Manage Tours</div>
-                </Link>
-                <Link
-                  href="/admin/bookings"
-                  className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow text-center flex flex-col items-center"
-                >
-                  <CalendarIcon className="w-8 h-8 text-primary mb-2" />
-                  <div className="font-medium text-gray-900">View Bookings</div>
-                </Link>
-                <Link
-                  href="/admin/destinations"
-                  className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow text-center flex flex-col items-center"
-                >
-                  <GlobeAltIcon className="w-8 h-8 text-primary mb-2" />
-                  <div className="font-medium text-gray-900">Destinations</div>
-                </Link>
-                <Link
-                  href="/admin/content"
-                  className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow text-center flex flex-col items-center"
-                >
-                  <DocumentTextIcon className="w-8 h-8 text-primary mb-2" />
-                  <div className="font-medium text-gray-900">Content</div>
-                </Link>
-              </div>
-            </div>
-
             {/* Stats Overview */}
             <div className="mb-8">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Overview</h2>
@@ -178,7 +192,15 @@ export default function AdminDashboard() {
                     </div>
                     <div className="ml-4">
                       <p className="text-sm font-medium text-gray-500">Total Revenue</p>
-                      <p className="text-2xl font-semibold text-gray-900">${stats.totalRevenue.toLocaleString()}</p>
+                      {stats.revenueByCurrency.length > 0 ? (
+                        stats.revenueByCurrency.map((revenue) => (
+                          <p key={revenue.currency} className="text-2xl font-semibold text-gray-900">
+                            {Money.of(revenue.totalRevenue.amount, revenue.currency).format()}
+                          </p>
+                        ))
+                      ) : (
+                        <p className="text-2xl font-semibold text-gray-900">{Money.zero('USD').format()}</p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -304,7 +326,7 @@ export default function AdminDashboard() {
                                 {formatDate(booking.createdAt)}
                               </p>
                               <p className="text-sm font-medium text-primary">
-                                ${booking.totalPrice}
+                                {Money.of(booking.totalPrice, booking.currency).format()}
                               </p>
                             </div>
                           </div>
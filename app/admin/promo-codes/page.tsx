@@ -0,0 +1,521 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { SUPPORTED_CURRENCIES } from '@/app/lib/models/exchange-rate'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+interface PromoCode {
+  id: string
+  code: string
+  description?: string | null
+  discountType: 'PERCENTAGE' | 'FIXED_AMOUNT'
+  discountValue: number
+  currency?: string | null
+  minTravelers: number
+  validFrom?: string | null
+  validUntil?: string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  isActive: boolean
+  redemptions: number
+  tour?: { id: string; title: string } | null
+  destination?: { id: string; name: string } | null
+}
+
+interface RedemptionReport {
+  promoCodeId: string
+  code: string
+  isActive: boolean
+  redemptions: number
+  customers: number
+  byCurrency: Array<{
+    currency: string
+    bookings: number
+    discount: { amount: number; currency: string }
+    revenue: { amount: number; currency: string }
+  }>
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discountType: 'PERCENTAGE',
+  discountValue: '',
+  currency: 'USD',
+  scope: '',
+  minTravelers: '1',
+  validFrom: '',
+  validUntil: '',
+  maxRedemptions: '',
+  maxRedemptionsPerUser: ''
+}
+
+export default function AdminPromoCodesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [codes, setCodes] = useState<PromoCode[]>([])
+  const [report, setReport] = useState<RedemptionReport[]>([])
+  const [tours, setTours] = useState<Option[]>([])
+  const [destinations, setDestinations] = useState<Option[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+
+  const fetchCodes = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [codesResponse, reportResponse] = await Promise.all([
+        fetch('/api/admin/promo-codes'),
+        fetch('/api/admin/promo-codes/report')
+      ])
+      if (!codesResponse.ok || !reportResponse.ok) throw new Error('Failed to fetch promo codes')
+
+      const [codesData, reportData] = await Promise.all([codesResponse.json(), reportResponse.json()])
+      setCodes(codesData.data || [])
+      setReport(reportData.data || [])
+      setError('')
+    } catch (err) {
+      setError('Failed to load promo codes')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchScopes = useCallback(async () => {
+    try {
+      const [toursResponse, destinationsResponse] = await Promise.all([
+        fetch('/api/admin/tours'),
+        fetch('/api/admin/destinations')
+      ])
+      const [toursData, destinationsData] = await Promise.all([toursResponse.json(), destinationsResponse.json()])
+      setTours((toursData.data || []).map((tour: { id: string; title: string }) => ({ id: tour.id, name: tour.title })))
+      setDestinations((destinationsData.data || []).map((destination: Option) => ({ id: destination.id, name: destination.name })))
+    } catch (err) {
+      console.error(err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'pricing:manage')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchCodes()
+    fetchScopes()
+  }, [session, status, router, fetchCodes, fetchScopes])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const isFixed = form.discountType === 'FIXED_AMOUNT'
+      const [scopeType, scopeId] = form.scope.split(':')
+
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          discountType: form.discountType,
+          discountValue: isFixed
+            ? Money.fromMajor(parseFloat(form.discountValue), form.currency).amount
+            : parseInt(form.discountValue, 10),
+          currency: isFixed ? form.currency : null,
+          tourId: scopeType === 'tour' ? scopeId : null,
+          destinationId: scopeType === 'destination' ? scopeId : null,
+          minTravelers: parseInt(form.minTravelers, 10),
+          validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : null,
+          validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : null,
+          maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions, 10) : null,
+          maxRedemptionsPerUser: form.maxRedemptionsPerUser ? parseInt(form.maxRedemptionsPerUser, 10) : null
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create promo code')
+
+      setForm(emptyForm)
+      fetchCodes()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create promo code')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (code: PromoCode) => {
+    try {
+      const response = await fetch(`/api/admin/promo-codes/${code.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ isActive: !code.isActive })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update promo code')
+
+      fetchCodes()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update promo code')
+    }
+  }
+
+  const handleDelete = async (codeId: string) => {
+    if (!confirm('Delete this promo code?')) return
+
+    try {
+      const response = await fetch(`/api/admin/promo-codes/${codeId}`, {
+        method: 'DELETE'
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete promo code')
+
+      fetchCodes()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete promo code')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  const formatDiscount = (code: PromoCode) => {
+    return code.discountType === 'PERCENTAGE'
+      ? `${code.discountValue}%`
+      : Money.of(code.discountValue, code.currency || 'USD').format()
+  }
+
+  const formatValidity = (code: PromoCode) => {
+    if (!code.validFrom && !code.validUntil) return 'Always'
+    return `${code.validFrom ? formatDate(code.validFrom) : '…'} – ${code.validUntil ? formatDate(code.validUntil) : '…'}`
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'pricing:manage')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Admin Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Promo Codes</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Create Code */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-medium text-gray-900 mb-1">New Promo Code</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Leave limits and dates blank for none. Bookings keep the discount they were made with if a code changes later.
+          </p>
+          <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <label className="block text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                required
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Discount type</label>
+              <select
+                value={form.discountType}
+                onChange={(e) => setForm({ ...form, discountType: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="PERCENTAGE">Percentage</option>
+                <option value="FIXED_AMOUNT">Fixed amount</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">
+                {form.discountType === 'PERCENTAGE' ? 'Percent off' : 'Amount off'}
+              </label>
+              <input
+                type="number"
+                min={form.discountType === 'PERCENTAGE' ? 1 : 0.01}
+                max={form.discountType === 'PERCENTAGE' ? 100 : undefined}
+                step={form.discountType === 'PERCENTAGE' ? 1 : 'any'}
+                required
+                value={form.discountValue}
+                onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            {form.discountType === 'FIXED_AMOUNT' && (
+              <div>
+                <label className="block text-gray-700 mb-1">Currency</label>
+                <select
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-gray-700 mb-1">Applies to</label>
+              <select
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="">All tours</option>
+                <optgroup label="Destination">
+                  {destinations.map((destination) => (
+                    <option key={destination.id} value={`destination:${destination.id}`}>{destination.name}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="Tour">
+                  {tours.map((tour) => (
+                    <option key={tour.id} value={`tour:${tour.id}`}>{tour.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Minimum travelers</label>
+              <input
+                type="number"
+                min={1}
+                required
+                value={form.minTravelers}
+                onChange={(e) => setForm({ ...form, minTravelers: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Valid from</label>
+              <input
+                type="datetime-local"
+                value={form.validFrom}
+                onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Valid until</label>
+              <input
+                type="datetime-local"
+                value={form.validUntil}
+                onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Total redemptions</label>
+              <input
+                type="number"
+                min={1}
+                value={form.maxRedemptions}
+                onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1">Redemptions per customer</label>
+              <input
+                type="number"
+                min={1}
+                value={form.maxRedemptionsPerUser}
+                onChange={(e) => setForm({ ...form, maxRedemptionsPerUser: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-2 rounded-md font-medium"
+              >
+                {saving ? 'Saving...' : 'Create Code'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchCodes}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : codes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No promo codes yet.
+          </div>
+        ) : (
+          <>
+            {/* Codes */}
+            <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Code</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Discount</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Applies To</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Valid</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Redemptions</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {codes.map((code) => (
+                    <tr key={code.id}>
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">{code.code}</div>
+                        {code.description && <div className="text-gray-500">{code.description}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {formatDiscount(code)}
+                        {code.minTravelers > 1 && (
+                          <div className="text-gray-500">{code.minTravelers}+ travelers</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {code.tour?.title || code.destination?.name || 'All tours'}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">{formatValidity(code)}</td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {code.redemptions}{code.maxRedemptions ? ` / ${code.maxRedemptions}` : ''}
+                        {code.maxRedemptionsPerUser && (
+                          <div className="text-gray-500">{code.maxRedemptionsPerUser} per customer</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          code.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {code.isActive ? 'active' : 'inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right space-x-4">
+                        <button
+                          onClick={() => handleToggle(code)}
+                          className="text-primary hover:text-primary/80 font-medium"
+                        >
+                          {code.isActive ? 'Deactivate' : 'Activate'}
+                        </button>
+                        {code.redemptions === 0 && (
+                          <button
+                            onClick={() => handleDelete(code.id)}
+                            className="text-red-600 hover:text-red-500 font-medium"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Redemption Report */}
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Redemption Report</h2>
+            <div className="bg-white shadow overflow-hidden sm:rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Code</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Redemptions</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Customers</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Discount Given</th>
+                    <th className="px-6 py-3 text-left font-medium text-gray-500">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.map((entry) => (
+                    <tr key={entry.promoCodeId}>
+                      <td className="px-6 py-4 font-medium text-gray-900">{entry.code}</td>
+                      <td className="px-6 py-4 text-gray-700">{entry.redemptions}</td>
+                      <td className="px-6 py-4 text-gray-700">{entry.customers}</td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {entry.byCurrency.length === 0 ? '—' : entry.byCurrency.map((total) => (
+                          <div key={total.currency}>{Money.of(total.discount.amount, total.currency).format()}</div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {entry.byCurrency.length === 0 ? '—' : entry.byCurrency.map((total) => (
+                          <div key={total.currency}>
+                            {Money.of(total.revenue.amount, total.currency).format()}
+                            <span className="text-gray-500"> ({total.bookings} bookings)</span>
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+interface ManifestEntry {
+  travelerType: 'ADULT' | 'CHILD' | 'SENIOR'
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  nationality: string | null
+  passportNumber: string | null
+  passportExpiry: string | null
+  dietaryRequirements: string | null
+  emergencyContactName: string | null
+  emergencyContactPhone: string | null
+  bookingId: string
+  bookingStatus: string
+  bookedBy: string
+}
+
+interface Manifest {
+  departure: {
+    id: string
+    tourTitle: string
+    startDate: string
+    endDate: string
+  }
+  travelers: ManifestEntry[]
+  missingTravelers: number
+}
+
+export default function AdminManifestPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const params = useParams()
+  const tourId = params.id as string
+  const availabilityId = params.availabilityId as string
+  const [manifest, setManifest] = useState<Manifest | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const manifestUrl = `/api/admin/tours/${tourId}/availability/${availabilityId}/manifest`
+
+  const fetchManifest = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(manifestUrl)
+      if (!response.ok) throw new Error('Failed to fetch manifest')
+
+      const data = await response.json()
+      setManifest(data.data)
+      setError('')
+    } catch (err) {
+      setError('Failed to load manifest')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [manifestUrl])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'tours:read')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchManifest()
+  }, [session, status, router, fetchManifest])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  if (status === 'loading' || (loading && !manifest)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'tours:read')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin/tours" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Tours</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Departure Manifest</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error || !manifest ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error || 'Departure not found'}</p>
+            <button
+              onClick={fetchManifest}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">{manifest.departure.tourTitle}</h2>
+                <p className="text-sm text-gray-500">
+                  {formatDate(manifest.departure.startDate)} – {formatDate(manifest.departure.endDate)} · {manifest.travelers.length} travelers
+                </p>
+                {manifest.missingTravelers > 0 && (
+                  <p className="text-sm text-amber-700 mt-1">
+                    {manifest.missingTravelers} booked seats have no traveler details yet.
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <a
+                  href={`${manifestUrl}?format=csv`}
+                  className="flex items-center gap-2 border border-primary text-primary px-4 py-2 rounded-md text-sm font-medium hover:bg-primary/5"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4" />
+                  CSV
+                </a>
+                <a
+                  href={`${manifestUrl}?format=pdf`}
+                  className="flex items-center gap-2 border border-primary text-primary px-4 py-2 rounded-md text-sm font-medium hover:bg-primary/5"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4" />
+                  PDF
+                </a>
+              </div>
+            </div>
+
+            {manifest.travelers.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                No travelers on this departure yet.
+              </div>
+            ) : (
+              <div className="bg-white shadow overflow-x-auto sm:rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Name</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Type</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Date of Birth</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Nationality</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Passport</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Dietary</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Emergency Contact</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Booked By</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {manifest.travelers.map((traveler, index) => (
+                      <tr key={`${traveler.bookingId}-${index}`}>
+                        <td className="px-4 py-3 font-medium text-gray-900">
+                          {traveler.lastName}, {traveler.firstName}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700">{traveler.travelerType.toLowerCase()}</td>
+                        <td className="px-4 py-3 text-gray-700">{formatDate(traveler.dateOfBirth)}</td>
+                        <td className="px-4 py-3 text-gray-700">{traveler.nationality || '—'}</td>
+                        <td className="px-4 py-3 text-gray-700">
+                          {traveler.passportNumber ? (
+                            <>
+                              {traveler.passportNumber}
+                              <span className="block text-xs text-gray-500">
+                                expires {formatDate(traveler.passportExpiry!)}
+                              </span>
+                            </>
+                          ) : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700">{traveler.dietaryRequirements || '—'}</td>
+                        <td className="px-4 py-3 text-gray-700">
+                          {traveler.emergencyContactName || '—'}
+                          {traveler.emergencyContactPhone && (
+                            <span className="block text-xs text-gray-500">{traveler.emergencyContactPhone}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-500">
+                          {traveler.bookedBy}
+                          {traveler.bookingStatus === 'PENDING' && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              unpaid
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
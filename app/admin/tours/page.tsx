@@ -5,14 +5,21 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { ArrowLeftIcon, PlusIcon } from '@heroicons/react/24/outline'
+import DeparturesPanel from '@/components/DeparturesPanel'
+import CancellationPolicyPanel from '@/components/CancellationPolicyPanel'
+import PricingRulesPanel from '@/components/PricingRulesPanel'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules } from '@/app/lib/models/permission'
 
 interface Tour {
   id: string
   title: string
   description: string
   pricePerPerson: number
+  currency: string
   durationDays: number
   maxGroupSize: number
+  modificationCutoffDays: number | null
   difficulty?: 'easy' | 'medium' | 'hard'
   status: 'active' | 'inactive'
   destination: {
@@ -32,6 +39,9 @@ export default function AdminToursPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [filter, setFilter] = useState<'all' | 'active' | 'inactive'>('all')
+  const [openDeparturesId, setOpenDeparturesId] = useState<string | null>(null)
+  const [openPolicyId, setOpenPolicyId] = useState<string | null>(null)
+  const [openPricingId, setOpenPricingId] = useState<string | null>(null)
 
   const fetchTours = useCallback(async () => {
     try {
@@ -58,7 +68,7 @@ export default function AdminToursPage() {
       router.push('/auth/signin')
       return
     }
-    if (session.user?.role !== 'ADMIN') {
+    if (!PermissionRules.can(session.user?.role, 'tours:read')) {
       router.push('/dashboard')
       return
     }
@@ -138,10 +148,13 @@ export default function AdminToursPage() {
     )
   }
 
-  if (!session || session.user?.role !== 'ADMIN') {
+  if (!session || !PermissionRules.can(session.user?.role, 'tours:read')) {
     return null // Will redirect
   }
 
+  const canWrite = PermissionRules.can(session.user?.role, 'tours:write')
+  const canManagePricing = PermissionRules.can(session.user?.role, 'pricing:manage')
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -155,13 +168,15 @@ export default function AdminToursPage() {
               </Link>
               <h1 className="text-xl font-semibold text-gray-900">Tour Management</h1>
             </div>
-            <Link
-              href="/admin/tours/new"
-              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2"
-            >
-              <PlusIcon className="w-5 h-5" />
-              <span>Add New Tour</span>
-            </Link>
+            {canWrite && (
+              <Link
+                href="/admin/tours/new"
+                className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2"
+              >
+                <PlusIcon className="w-5 h-5" />
+                <span>Add New Tour</span>
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -222,12 +237,14 @@ export default function AdminToursPage() {
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No tours found</h3>
             <p className="text-gray-500 mb-6">Get started by creating your first tour.</p>
-            <Link
-              href="/admin/tours/new"
-              className="bg-primary hover:bg-primary/90 text-white px-6 py-3 rounded-md font-medium"
-            >
-              Add New Tour
-            </Link>
+            {canWrite && (
+              <Link
+                href="/admin/tours/new"
+                className="bg-primary hover:bg-primary/90 text-white px-6 py-3 rounded-md font-medium"
+              >
+                Add New Tour
+              </Link>
+            )}
           </div>
         ) : (
           <div className="bg-white shadow overflow-hidden sm:rounded-md">
@@ -263,7 +280,7 @@ export default function AdminToursPage() {
                         
                         <div className="flex items-center justify-between mt-4">
                           <div className="flex items-center space-x-6 text-sm text-gray-500">
-                            <span>${tour.pricePerPerson}/person</span>
+                            <span>{Money.of(tour.pricePerPerson, tour.currency).format()}/person</span>
                             <span>{tour.durationDays} days</span>
                             <span>Max {tour.maxGroupSize} people</span>
                             <span>{tour._count?.bookings || 0} bookings</span>
@@ -278,26 +295,68 @@ export default function AdminToursPage() {
                             >
                               View
                             </Link>
-                            <Link
-                              href={`/admin/tours/${tour.id}/edit`}
-                              className="text-primary hover:text-primary/80 text-sm font-medium"
-                            >
-                              Edit
-                            </Link>
-                            <button
-                              onClick={() => handleStatusToggle(tour.id, tour.status)}
-                              className="text-yellow-600 hover:text-yellow-500 text-sm font-medium"
-                            >
-                              {tour.status === 'active' ? 'Deactivate' : 'Activate'}
-                            </button>
+                            {canWrite && (
+                              <Link
+                                href={`/admin/tours/${tour.id}/edit`}
+                                className="text-primary hover:text-primary/80 text-sm font-medium"
+                              >
+                                Edit
+                              </Link>
+                            )}
                             <button
-                              onClick={() => handleDeleteTour(tour.id)}
-                              className="text-red-600 hover:text-red-500 text-sm font-medium"
+                              onClick={() => setOpenDeparturesId(openDeparturesId === tour.id ? null : tour.id)}
+                              className="text-primary hover:text-primary/80 text-sm font-medium"
                             >
-                              Delete
+                              Departures
                             </button>
+                            {canManagePricing && (
+                              <button
+                                onClick={() => setOpenPricingId(openPricingId === tour.id ? null : tour.id)}
+                                className="text-primary hover:text-primary/80 text-sm font-medium"
+                              >
+                                Pricing
+                              </button>
+                            )}
+                            {canWrite && (
+                              <>
+                                <button
+                                  onClick={() => setOpenPolicyId(openPolicyId === tour.id ? null : tour.id)}
+                                  className="text-primary hover:text-primary/80 text-sm font-medium"
+                                >
+                                  Cancellation
+                                </button>
+                                <button
+                                  onClick={() => handleStatusToggle(tour.id, tour.status)}
+                                  className="text-yellow-600 hover:text-yellow-500 text-sm font-medium"
+                                >
+                                  {tour.status === 'active' ? 'Deactivate' : 'Activate'}
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteTour(tour.id)}
+                                  className="text-red-600 hover:text-red-500 text-sm font-medium"
+                                >
+                                  Delete
+                                </button>
+                              </>
+                            )}
                           </div>
                         </div>
+
+                        {openDeparturesId === tour.id && (
+                          <DeparturesPanel
+                            tourId={tour.id}
+                            durationDays={tour.durationDays}
+                            maxGroupSize={tour.maxGroupSize}
+                          />
+                        )}
+
+                        {openPricingId === tour.id && (
+                          <PricingRulesPanel tourId={tour.id} />
+                        )}
+
+                        {openPolicyId === tour.id && (
+                          <CancellationPolicyPanel tourId={tour.id} modificationCutoffDays={tour.modificationCutoffDays} />
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+interface UserDetail {
+  user: {
+    id: string
+    name: string
+    email: string
+    role: string
+    phone: string | null
+    suspendedAt: string | null
+    suspensionReason: string | null
+    invitedAt: string | null
+    deletedAt: string | null
+    createdAt: string
+    status: 'active' | 'suspended' | 'invited' | 'deleted'
+  }
+  bookings: Array<{
+    id: string
+    status: string
+    travelersCount: number
+    totalPrice: number
+    currency: string
+    createdAt: string
+    tour: { id: string; title: string }
+    availability: { startDate: string; endDate: string }
+  }>
+  payments: Array<{
+    id: string
+    amount: number
+    currency: string
+    provider: string
+    status: string
+    createdAt: string
+    refunds: Array<{ amount: number; status: string }>
+    booking: { id: string; tour: { title: string } }
+  }>
+  reviews: Array<{
+    id: string
+    rating: number
+    comment: string
+    approved: boolean
+    createdAt: string
+    tour: { id: string; title: string }
+  }>
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+export default function AdminUserDetailPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const { id } = useParams<{ id: string }>()
+  const [detail, setDetail] = useState<UserDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const fetchUser = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/users/${id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch user')
+
+      setDetail(data.data)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load user')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'users:manage')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchUser()
+  }, [session, status, router, fetchUser])
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'users:manage')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin/users" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Users</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">{detail?.user.name || 'User'}</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error || !detail ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error || 'User not found'}</p>
+            <button
+              onClick={fetchUser}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Account */}
+            <div className="bg-white shadow sm:rounded-md p-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+              <div>
+                <p><span className="font-medium">Email:</span> {detail.user.email}</p>
+                <p><span className="font-medium">Phone:</span> {detail.user.phone || '—'}</p>
+                <p><span className="font-medium">Role:</span> {detail.user.role.toLowerCase()}</p>
+              </div>
+              <div>
+                <p><span className="font-medium">Status:</span> {detail.user.status}</p>
+                {detail.user.suspendedAt && (
+                  <p>
+                    <span className="font-medium">Suspended:</span> {formatDate(detail.user.suspendedAt)} — {detail.user.suspensionReason}
+                  </p>
+                )}
+                {detail.user.invitedAt && (
+                  <p><span className="font-medium">Invited:</span> {formatDate(detail.user.invitedAt)}</p>
+                )}
+                {detail.user.deletedAt && (
+                  <p><span className="font-medium">Deleted:</span> {formatDate(detail.user.deletedAt)}</p>
+                )}
+                <p><span className="font-medium">Joined:</span> {formatDate(detail.user.createdAt)}</p>
+              </div>
+            </div>
+
+            {/* Bookings */}
+            <section>
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Bookings ({detail.bookings.length})</h2>
+              {detail.bookings.length === 0 ? (
+                <p className="text-gray-500 text-sm">No bookings</p>
+              ) : (
+                <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Tour</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Departure</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Travelers</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Total</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Booked</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {detail.bookings.map((booking) => (
+                        <tr key={booking.id}>
+                          <td className="px-6 py-4">
+                            <Link href={`/bookings/${booking.id}`} target="_blank" className="text-primary hover:text-primary/80 font-medium">
+                              {booking.tour.title}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 text-gray-700">{formatDate(booking.availability.startDate)}</td>
+                          <td className="px-6 py-4 text-gray-700">{booking.travelersCount}</td>
+                          <td className="px-6 py-4 text-gray-700">{Money.of(booking.totalPrice, booking.currency).format()}</td>
+                          <td className="px-6 py-4 text-gray-700">{booking.status.toLowerCase()}</td>
+                          <td className="px-6 py-4 text-gray-700">{formatDate(booking.createdAt)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            {/* Payments */}
+            <section>
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Payments ({detail.payments.length})</h2>
+              {detail.payments.length === 0 ? (
+                <p className="text-gray-500 text-sm">No payments</p>
+              ) : (
+                <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Tour</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Amount</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Refunded</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Provider</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-6 py-3 text-left font-medium text-gray-500">Date</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {detail.payments.map((payment) => (
+                        <tr key={payment.id}>
+                          <td className="px-6 py-4 text-gray-900">{payment.booking.tour.title}</td>
+                          <td className="px-6 py-4 text-gray-700">{Money.of(payment.amount, payment.currency).format()}</td>
+                          <td className="px-6 py-4 text-gray-700">
+                            {Money.of(
+                              payment.refunds
+                                .filter(refund => refund.status === 'SUCCESS')
+                                .reduce((total, refund) => total + refund.amount, 0),
+                              payment.currency
+                            ).format()}
+                          </td>
+                          <td className="px-6 py-4 text-gray-700">{payment.provider.toLowerCase()}</td>
+                          <td className="px-6 py-4 text-gray-700">{payment.status.toLowerCase()}</td>
+                          <td className="px-6 py-4 text-gray-700">{formatDate(payment.createdAt)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            {/* Reviews */}
+            <section>
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Reviews ({detail.reviews.length})</h2>
+              {detail.reviews.length === 0 ? (
+                <p className="text-gray-500 text-sm">No reviews</p>
+              ) : (
+                <ul className="bg-white shadow sm:rounded-md divide-y divide-gray-200">
+                  {detail.reviews.map((review) => (
+                    <li key={review.id} className="p-6 text-sm">
+                      <div className="flex justify-between">
+                        <p className="font-medium text-gray-900">{review.tour.title}</p>
+                        <p className="text-gray-500">
+                          {review.rating}/5 · {review.approved ? 'approved' : 'awaiting approval'} · {formatDate(review.createdAt)}
+                        </p>
+                      </div>
+                      <p className="text-gray-600 mt-2">{review.comment}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,416 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+type Role = 'CUSTOMER' | 'STAFF' | 'ADMIN'
+type AccountStatus = 'active' | 'suspended' | 'invited' | 'deleted'
+
+interface UserSummary {
+  id: string
+  name: string
+  email: string
+  role: Role
+  phone: string | null
+  suspendedAt: string | null
+  suspensionReason: string | null
+  invitedAt: string | null
+  deletedAt: string | null
+  createdAt: string
+  status: AccountStatus
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+const ROLES: Role[] = ['CUSTOMER', 'STAFF', 'ADMIN']
+
+const STATUS_STYLES: Record<AccountStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  suspended: 'bg-red-100 text-red-800',
+  invited: 'bg-yellow-100 text-yellow-800',
+  deleted: 'bg-gray-100 text-gray-600'
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+export default function AdminUsersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [users, setUsers] = useState<UserSummary[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [search, setSearch] = useState('')
+  const [query, setQuery] = useState('')
+  const [roleFilter, setRoleFilter] = useState<Role | ''>('')
+  const [statusFilter, setStatusFilter] = useState<AccountStatus | ''>('')
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [invite, setInvite] = useState({ name: '', email: '', role: 'STAFF' as Role })
+  const [inviting, setInviting] = useState(false)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page) })
+      if (query) params.append('search', query)
+      if (roleFilter) params.append('role', roleFilter)
+      if (statusFilter) params.append('status', statusFilter)
+
+      const response = await fetch(`/api/admin/users?${params.toString()}`)
+      if (!response.ok) throw new Error('Failed to fetch users')
+
+      const data = await response.json()
+      setUsers(data.data.users)
+      setPagination(data.data.pagination)
+      setError('')
+    } catch (err) {
+      setError('Failed to load users')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, query, roleFilter, statusFilter])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!PermissionRules.can(session.user?.role, 'users:manage')) {
+      router.push('/dashboard')
+      return
+    }
+    fetchUsers()
+  }, [session, status, router, fetchUsers])
+
+  // Runs an action against one user, reports its outcome and reloads the page of users
+  const runAction = async (url: string, init: RequestInit, fallbackError: string) => {
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || fallbackError)
+
+      alert(data.message)
+      fetchUsers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallbackError)
+    }
+  }
+
+  const handleRoleChange = (user: UserSummary, role: Role) => {
+    if (!confirm(`Make ${user.name} ${role.toLowerCase()}? They will be signed out and see the change when they sign in again.`)) {
+      fetchUsers()
+      return
+    }
+
+    runAction(`/api/admin/users/${user.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role })
+    }, 'Failed to change role')
+  }
+
+  const handleSuspend = (user: UserSummary) => {
+    const reason = prompt(`Why is ${user.name}'s account being suspended?`)
+    if (!reason) return
+
+    runAction(`/api/admin/users/${user.id}/suspension`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason })
+    }, 'Failed to suspend user')
+  }
+
+  const handleReactivate = (user: UserSummary) => {
+    if (!confirm(`Reactivate ${user.name}'s account?`)) return
+    runAction(`/api/admin/users/${user.id}/suspension`, { method: 'DELETE' }, 'Failed to reactivate user')
+  }
+
+  const handleResendInvite = (user: UserSummary) => {
+    runAction(`/api/admin/users/${user.id}/invite`, { method: 'POST' }, 'Failed to send invite')
+  }
+
+  const handleDelete = (user: UserSummary) => {
+    if (!confirm(`Delete ${user.name}'s account? This cannot be undone.`)) return
+    runAction(`/api/admin/users/${user.id}`, { method: 'DELETE' }, 'Failed to delete user')
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setInviting(true)
+
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(invite)
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to invite user')
+
+      alert(data.message)
+      setInvite({ name: '', email: '', role: 'STAFF' })
+      fetchUsers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to invite user')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session || !PermissionRules.can(session.user?.role, 'users:manage')) {
+    return null // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <Link href="/admin" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Admin Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Users</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Invite */}
+        <form onSubmit={handleInvite} className="bg-white shadow sm:rounded-md p-4 mb-6 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+            <input
+              value={invite.name}
+              onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+              required
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Email</label>
+            <input
+              type="email"
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              required
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Role</label>
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value as Role })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="STAFF">Staff</option>
+              <option value="ADMIN">Admin</option>
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={inviting}
+            className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+          >
+            {inviting ? 'Inviting...' : 'Invite Staff'}
+          </button>
+        </form>
+
+        {/* Filters */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            setPage(1)
+            setQuery(search.trim())
+          }}
+          className="flex flex-wrap gap-2 mb-6"
+        >
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email"
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm w-64"
+          />
+          <select
+            value={roleFilter}
+            onChange={(e) => {
+              setPage(1)
+              setRoleFilter(e.target.value as Role | '')
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All roles</option>
+            {ROLES.map(role => (
+              <option key={role} value={role}>{role.toLowerCase()}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setPage(1)
+              setStatusFilter(e.target.value as AccountStatus | '')
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="active">Active</option>
+            <option value="suspended">Suspended</option>
+            <option value="invited">Invited</option>
+            <option value="deleted">Deleted</option>
+          </select>
+          <button type="submit" className="bg-white text-gray-700 border border-gray-300 px-3 py-2 rounded-md text-sm font-medium">
+            Search
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchUsers}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : users.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No users found</div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">User</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Role</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Joined</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map((user) => {
+                  const isSelf = user.id === session.user?.id
+
+                  return (
+                    <tr key={user.id}>
+                      <td className="px-6 py-4">
+                        <Link href={`/admin/users/${user.id}`} className="font-medium text-gray-900 hover:text-primary">
+                          {user.name}
+                        </Link>
+                        <p className="text-gray-500">{user.email}</p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <select
+                          value={user.role}
+                          disabled={isSelf || user.status === 'deleted'}
+                          onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-sm disabled:opacity-50"
+                        >
+                          {ROLES.map(role => (
+                            <option key={role} value={role}>{role.toLowerCase()}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[user.status]}`}>
+                          {user.status}
+                        </span>
+                        {user.suspensionReason && (
+                          <p className="text-xs text-gray-400 mt-1 max-w-xs truncate" title={user.suspensionReason}>
+                            {user.suspensionReason}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">{formatDate(user.createdAt)}</td>
+                      <td className="px-6 py-4 text-right space-x-3 whitespace-nowrap">
+                        <Link href={`/admin/users/${user.id}`} className="text-primary hover:text-primary/80 font-medium">
+                          View
+                        </Link>
+                        {user.status === 'invited' && (
+                          <button onClick={() => handleResendInvite(user)} className="text-primary hover:text-primary/80 font-medium">
+                            Re-send Invite
+                          </button>
+                        )}
+                        {!isSelf && user.status !== 'deleted' && (user.status === 'suspended' ? (
+                          <button onClick={() => handleReactivate(user)} className="text-green-600 hover:text-green-500 font-medium">
+                            Reactivate
+                          </button>
+                        ) : (
+                          <button onClick={() => handleSuspend(user)} className="text-yellow-600 hover:text-yellow-500 font-medium">
+                            Suspend
+                          </button>
+                        ))}
+                        {!isSelf && (
+                          <button onClick={() => handleDelete(user)} className="text-red-600 hover:text-red-500 font-medium">
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} users)
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="bg-white border border-gray-300 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+                className="bg-white border border-gray-300 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
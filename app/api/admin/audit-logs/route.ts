@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { AuditLogValidationError, AuditLogValidator } from '@/app/lib/models'
+
+// GET - Audit log entries a page at a time, or all of them as CSV with ?format=csv
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'audit:view')
+  if (authError) return authError
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+
+    if (!['json', 'csv'].includes(format)) {
+      return NextResponse.json(
+        { success: false, error: 'Format must be json or csv' },
+        { status: 400 }
+      )
+    }
+
+    const filters = AuditLogValidator.validateFilters({
+      actor: searchParams.get('actor'),
+      action: searchParams.get('action'),
+      entityType: searchParams.get('entityType'),
+      entityId: searchParams.get('entityId'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      page: searchParams.get('page'),
+      limit: searchParams.get('limit')
+    })
+
+    if (format === 'csv') {
+      return new NextResponse(await AuditLogService.exportCsv(filters), {
+        headers: {
+          'Cache-Control': 'no-store',
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await AuditLogService.list(filters)
+    })
+
+  } catch (error) {
+    if (error instanceof AuditLogValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,34 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/lib/auth';
+import { requirePermission, getCurrentUser, getAuditContext } from '@/app/lib/middleware/auth-middleware';
 import { BookingStatus } from '@prisma/client';
-import { AdminNotificationService } from '@/app/lib/services/admin-notification';
+import { BookingService } from '@/app/lib/services/booking';
+import { AuditLogService } from '@/app/lib/services/audit-log';
+import { BookingStateMachine, BookingTransitionError } from '@/app/lib/models/booking';
+import { CancellationPolicyValidationError } from '@/app/lib/models/cancellation-policy';
+import { minorUnitsAsNumbers } from '@/app/lib/models/money';
+import { PermissionRules } from '@/app/lib/models/permission';
 import { prisma } from '@/app/lib/prisma';
 
-// GET /api/admin/bookings - Get all bookings (admin only)
+// GET /api/admin/bookings - Get all bookings
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (user?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'bookings:read');
+  if (authError) return authError;
 
+  try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
     const tourId = searchParams.get('tourId');
@@ -41,8 +27,8 @@ export async function GET(request: NextRequest) {
       status?: BookingStatus;
       tourId?: string;
     } = {};
-    if (status && ['PENDING', 'CONFIRMED', 'CANCELLED'].includes(status)) {
-      whereClause.status = status as BookingStatus;
+    if (status && BookingStateMachine.isStatus(status.toUpperCase())) {
+      whereClause.status = status.toUpperCase() as BookingStatus;
     }
     if (tourId) {
       whereClause.tourId = tourId;
@@ -66,7 +52,10 @@ export async function GET(request: NextRequest) {
             }
           },
           availability: true,
-          payments: true
+          payments: {
+            include: { refunds: true },
+            orderBy: { createdAt: 'desc' }
+          }
         },
         orderBy: {
           createdAt: 'desc'
@@ -80,7 +69,7 @@ export async function GET(request: NextRequest) {
     ]);
 
     return NextResponse.json({
-      bookings,
+      bookings: minorUnitsAsNumbers(bookings),
       pagination: {
         page,
         limit,
@@ -97,32 +86,15 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT /api/admin/bookings - Update booking status (admin only)
+// PUT /api/admin/bookings - Update booking status
 export async function PUT(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (user?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'bookings:write');
+  if (authError) return authError;
 
+  try {
     const body = await request.json();
-    const { bookingId, status, reason } = body;
+    const { bookingId, reason, refundAmount } = body;
+    const status = typeof body.status === 'string' ? body.status.toUpperCase() : '';
 
     if (!bookingId || !status) {
       return NextResponse.json(
@@ -131,21 +103,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    if (!['PENDING', 'CONFIRMED', 'CANCELLED'].includes(status)) {
+    if (!BookingStateMachine.isStatus(status)) {
       return NextResponse.json(
-        { error: 'Invalid status. Must be PENDING, CONFIRMED, or CANCELLED' },
+        { error: `Invalid status. Must be one of ${Object.values(BookingStatus).join(', ')}` },
         { status: 400 }
       );
     }
 
     // Get current booking
     const currentBooking = await prisma.booking.findUnique({
-      where: { id: bookingId },
-      include: {
-        user: { select: { name: true, email: true } },
-        tour: { select: { title: true } },
-        availability: true
-      }
+      where: { id: bookingId }
     });
 
     if (!currentBooking) {
@@ -155,104 +122,70 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Handle slot management for status changes
-    let updatedBooking;
-    
-    if (status === 'CONFIRMED' && currentBooking.status !== 'CONFIRMED') {
-      // Confirming booking - reduce available slots
-      await prisma.$transaction(async (tx) => {
-        // Update booking status
-        updatedBooking = await tx.booking.update({
-          where: { id: bookingId },
-          data: { 
-            status: status as BookingStatus,
-            updatedAt: new Date()
-          },
-          include: {
-            user: { select: { name: true, email: true } },
-            tour: { select: { title: true } },
-            availability: true
-          }
-        });
+    // The state machine checks the move and handles slot management
+    // A refund amount overrides the cancellation policy and needs a reason
+    const refundOverride = refundAmount !== undefined && refundAmount !== null && refundAmount !== ''
+      ? { refundAmount: Number(refundAmount), reason }
+      : undefined;
 
-        // Reduce available slots
-        if (currentBooking.availability) {
-          await tx.tourAvailability.update({
-            where: { id: currentBooking.availabilityId },
-            data: {
-              availableSlots: {
-                decrement: currentBooking.travelersCount
-              }
-            }
-          });
-        }
-      });
-    } else if (status === 'CANCELLED' && currentBooking.status === 'CONFIRMED') {
-      // Cancelling confirmed booking - restore available slots
-      await prisma.$transaction(async (tx) => {
-        // Update booking status
-        updatedBooking = await tx.booking.update({
-          where: { id: bookingId },
-          data: { 
-            status: status as BookingStatus,
-            updatedAt: new Date()
-          },
-          include: {
-            user: { select: { name: true, email: true } },
-            tour: { select: { title: true } },
-            availability: true
-          }
-        });
+    const user = getCurrentUser(request)!;
+    if (refundOverride && !PermissionRules.can(user.role, 'payments:refund')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to override the refund amount' },
+        { status: 403 }
+      );
+    }
 
-        // Restore available slots
-        if (currentBooking.availability) {
-          await tx.tourAvailability.update({
-            where: { id: currentBooking.availabilityId },
-            data: {
-              availableSlots: {
-                increment: currentBooking.travelersCount
-              }
-            }
-          });
-        }
-      });
+    await BookingService.updateBookingStatus(bookingId, status, {
+      actorId: user.id,
+      reason: reason || undefined
+    }, refundOverride);
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: status === 'CANCELLED' ? 'booking.cancel' : 'booking.status',
+      entityType: 'Booking',
+      entityId: bookingId,
+      before: currentBooking,
+      after: {
+        status,
+        reason: reason || null,
+        ...(refundOverride ? { refundAmount: refundOverride.refundAmount } : {})
+      }
+    });
 
-      // Send cancellation notification
-      try {
-        await AdminNotificationService.sendPaymentFailureNotification({
-          type: 'BOOKING_CANCELLATION',
-          bookingId: bookingId,
-          customerName: currentBooking.user.name || 'Unknown',
-          customerEmail: currentBooking.user.email,
-          tourTitle: currentBooking.tour.title,
-          reason: reason || 'Manual admin cancellation'
-        });
-      } catch (notificationError) {
-        console.error('Failed to send cancellation notification:', notificationError);
-        // Don't fail the request if notification fails
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        user: { select: { name: true, email: true } },
+        tour: { select: { title: true } },
+        availability: true
       }
-    } else {
-      // Simple status update without slot changes
-      updatedBooking = await prisma.booking.update({
-        where: { id: bookingId },
-        data: { 
-          status: status as BookingStatus,
-          updatedAt: new Date()
-        },
-        include: {
-          user: { select: { name: true, email: true } },
-          tour: { select: { title: true } },
-          availability: true
-        }
-      });
-    }
+    });
 
     return NextResponse.json({
       message: 'Booking status updated successfully',
-      booking: updatedBooking
+      booking: minorUnitsAsNumbers(updatedBooking)
     });
   } catch (error) {
     console.error('Error updating booking status:', error);
+
+    if (error instanceof BookingTransitionError || error instanceof CancellationPolicyValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Not enough available slots for this booking' ||
+      error.message === 'Booking was modified concurrently, please retry'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to update booking status' },
       { status: 500 }
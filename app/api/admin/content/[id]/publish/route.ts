@@ -1,25 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 import { ContentService } from '@/app/lib/services/content'
 
-// POST /api/admin/content/[id]/publish - Publish content (admin only)
+// POST /api/admin/content/[id]/publish - Publish content
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:publish')
+  if (authError) return authError
 
+  try {
     const { id } = await params
+    const existingContent = await ContentService.getContent(id)
     const content = await ContentService.publishContent(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'content.publish',
+      entityType: 'Content',
+      entityId: id,
+      before: existingContent,
+      after: content
+    })
+
     return NextResponse.json(content)
 
   } catch (error: unknown) {
@@ -39,23 +43,27 @@ export async function POST(
   }
 }
 
-// DELETE /api/admin/content/[id]/publish - Unpublish content (admin only)
+// DELETE /api/admin/content/[id]/publish - Unpublish content
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:publish')
+  if (authError) return authError
 
+  try {
     const { id } = await params
+    const existingContent = await ContentService.getContent(id)
     const content = await ContentService.unpublishContent(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'content.unpublish',
+      entityType: 'Content',
+      entityId: id,
+      before: existingContent,
+      after: content
+    })
+
     return NextResponse.json(content)
 
   } catch (error: unknown) {
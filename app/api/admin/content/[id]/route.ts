@@ -1,24 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 import { ContentService } from '@/app/lib/services/content'
 import { UpdateContentData, ContentValidationError } from '@/app/lib/models/content'
 
-// GET /api/admin/content/[id] - Get content by ID (admin only)
+// GET /api/admin/content/[id] - Get content by ID
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:write')
+  if (authError) return authError
 
+  try {
     const { id } = await params
     const content = await ContentService.getContent(id)
     
@@ -40,21 +34,15 @@ export async function GET(
   }
 }
 
-// PUT /api/admin/content/[id] - Update content (admin only)
+// PUT /api/admin/content/[id] - Update content
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:write')
+  if (authError) return authError
 
+  try {
     const body = await request.json()
     const updateData: UpdateContentData = {}
     
@@ -64,7 +52,17 @@ export async function PUT(
     if (body.published !== undefined) updateData.published = body.published
 
     const { id } = await params
+    const existingContent = await ContentService.getContent(id)
     const content = await ContentService.updateContent(id, updateData)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'content.update',
+      entityType: 'Content',
+      entityId: id,
+      before: existingContent,
+      after: content
+    })
+
     return NextResponse.json(content)
 
   } catch (error: unknown) {
@@ -91,23 +89,26 @@ export async function PUT(
   }
 }
 
-// DELETE /api/admin/content/[id] - Delete content (admin only)
+// DELETE /api/admin/content/[id] - Delete content
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:publish')
+  if (authError) return authError
 
+  try {
     const { id } = await params
+    const existingContent = await ContentService.getContent(id)
     await ContentService.deleteContent(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'content.delete',
+      entityType: 'Content',
+      entityId: id,
+      before: existingContent
+    })
+
     return NextResponse.json({ message: 'Content deleted successfully' })
 
   } catch (error: unknown) {
@@ -1,23 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { requirePermission } from '@/app/lib/middleware/auth-middleware'
 import { ContentService } from '@/app/lib/services/content'
 
-// GET /api/admin/content/[id]/versions - Get content version history (admin only)
+// GET /api/admin/content/[id]/versions - Get content version history
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:write')
+  if (authError) return authError
 
+  try {
     const { id } = await params
     
     // Check if content exists
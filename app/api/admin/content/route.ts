@@ -1,22 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 import { ContentService, ContentFilters } from '@/app/lib/services/content'
 import { ContentValidator, CreateContentData, ContentValidationError } from '@/app/lib/models/content'
 import { ContentType } from '@prisma/client'
 
-// GET /api/admin/content - List all content (admin only)
+// GET /api/admin/content - List all content
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:write')
+  if (authError) return authError
 
+  try {
     const { searchParams } = new URL(request.url)
     const type = searchParams.get('type') as ContentType | null
     const published = searchParams.get('published')
@@ -52,18 +46,12 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/admin/content - Create new content (admin only)
+// POST /api/admin/content - Create new content
 export async function POST(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { code: 'UNAUTHORIZED', message: 'Admin access required' } },
-        { status: 401 }
-      )
-    }
+  const authError = await requirePermission(request, 'content:write')
+  if (authError) return authError
 
+  try {
     const body = await request.json()
     const contentData: CreateContentData = {
       type: body.type,
@@ -73,6 +61,14 @@ export async function POST(request: NextRequest) {
     }
 
     const content = await ContentService.createContent(contentData)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'content.create',
+      entityType: 'Content',
+      entityId: content.id,
+      after: content
+    })
+
     return NextResponse.json(content, { status: 201 })
 
   } catch (error: unknown) {
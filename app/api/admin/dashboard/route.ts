@@ -1,32 +1,15 @@
-import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/app/lib/middleware/auth-middleware';
 import { prisma } from '@/app/lib/prisma';
+import { RevenueService } from '@/app/lib/services/revenue';
+import { BOOKED_STATUSES } from '@/app/lib/models/booking';
 
-// GET /api/admin/dashboard - Get dashboard statistics and recent activity (admin only)
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (user?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+// GET /api/admin/dashboard - Get dashboard statistics and recent activity
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'reports:view');
+  if (authError) return authError;
 
+  try {
     // Get date range for recent activity (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -46,16 +29,11 @@ export async function GET() {
       // Booking statistics
       prisma.booking.count(),
       prisma.booking.count({ where: { status: 'PENDING' } }),
-      prisma.booking.count({ where: { status: 'CONFIRMED' } }),
+      prisma.booking.count({ where: { status: { in: BOOKED_STATUSES } } }),
       prisma.booking.count({ where: { status: 'CANCELLED' } }),
       
-      // Revenue data
-      prisma.payment.aggregate({
-        _sum: { amount: true },
-        _count: { id: true },
-        _avg: { amount: true },
-        where: { status: 'SUCCESS' }
-      }),
+      // Revenue data, per currency
+      RevenueService.paymentRevenue(),
       
       // Recent bookings (last 10)
       prisma.booking.findMany({
@@ -126,9 +104,13 @@ export async function GET() {
         pendingBookings,
         confirmedBookings,
         cancelledBookings,
-        totalRevenue: revenueData._sum.amount || 0,
-        successfulPayments: revenueData._count.id || 0,
-        averageBookingValue: revenueData._avg.amount || 0,
+        revenueByCurrency: revenueData.map(revenue => ({
+          currency: revenue.currency,
+          totalRevenue: revenue.total,
+          successfulPayments: revenue.transactions,
+          averageBookingValue: revenue.average
+        })),
+        successfulPayments: revenueData.reduce((sum, revenue) => sum + revenue.transactions, 0),
         totalTours,
         totalUsers,
         conversionRate: totalBookings > 0 ? (confirmedBookings / totalBookings) * 100 : 0
@@ -141,7 +123,8 @@ export async function GET() {
           tourTitle: booking.tour.title,
           tourId: booking.tour.id,
           status: booking.status,
-          totalPrice: booking.totalPrice,
+          totalPrice: Number(booking.totalPrice),
+          currency: booking.currency,
           travelersCount: booking.travelersCount,
           tourStartDate: booking.availability?.startDate,
           createdAt: booking.createdAt
@@ -149,7 +132,7 @@ export async function GET() {
         failedPayments: failedPayments.map(payment => ({
           id: payment.id,
           bookingId: payment.bookingId,
-          amount: payment.amount,
+          amount: Number(payment.amount),
           currency: payment.currency,
           provider: payment.provider,
           customerName: payment.booking.user.name,
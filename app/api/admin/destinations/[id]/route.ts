@@ -1,37 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
 import { prisma } from '@/app/lib/prisma'
 import { DestinationValidator, UpdateDestinationData, DestinationValidationError } from '@/app/lib/models'
-import { UserRole } from '@prisma/client'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 
 // GET - Get single destination for admin
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     
     const destination = await prisma.destination.findUnique({
@@ -75,28 +56,10 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     const body = await request.json()
     const updateData: UpdateDestinationData = body
@@ -131,6 +94,14 @@ export async function PUT(
       where: { id },
       data: updateData
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'destination.update',
+      entityType: 'Destination',
+      entityId: id,
+      before: existingDestination,
+      after: updatedDestination
+    })
     
     return NextResponse.json({
       success: true,
@@ -151,28 +122,10 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     
     // Check if destination exists and has tours
@@ -191,11 +144,12 @@ export async function DELETE(
     }
     
     // Prevent deletion if there are tours
-    if (existingDestination.tours.length > 0) {
+    const { tours, ...destination } = existingDestination
+    if (tours.length > 0) {
       return NextResponse.json(
         { 
           success: false, 
-          error: `Cannot delete destination with ${existingDestination.tours.length} associated tours. Delete tours first.` 
+          error: `Cannot delete destination with ${tours.length} associated tours. Delete tours first.` 
         },
         { status: 400 }
       )
@@ -205,6 +159,13 @@ export async function DELETE(
     await prisma.destination.delete({
       where: { id }
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'destination.delete',
+      entityType: 'Destination',
+      entityId: id,
+      before: destination
+    })
     
     return NextResponse.json({
       success: true,
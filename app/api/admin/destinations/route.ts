@@ -1,34 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
 import { prisma } from '@/app/lib/prisma'
 import { DestinationValidator, CreateDestinationData, DestinationValidationError } from '@/app/lib/models'
-import { UserRole } from '@prisma/client'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 
 // GET - List all destinations for admin
 export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const destinations = await prisma.destination.findMany({
       include: {
         _count: {
@@ -58,28 +39,10 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new destination
 export async function POST(request: NextRequest) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const body = await request.json()
     const destinationData: CreateDestinationData = body
     
@@ -100,6 +63,13 @@ export async function POST(request: NextRequest) {
     const destination = await prisma.destination.create({
       data: destinationData
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'destination.create',
+      entityType: 'Destination',
+      entityId: destination.id,
+      after: destination
+    })
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { prisma } from '@/app/lib/prisma'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { ExchangeRateService } from '@/app/lib/services/exchange-rate'
+import { ExchangeRateValidationError } from '@/app/lib/models'
+
+// DELETE - Withdraw a rate that has not taken effect yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const existingRate = await prisma.exchangeRate.findUnique({
+      where: { id: id }
+    })
+    await ExchangeRateService.deleteRate(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'exchangeRate.delete',
+      entityType: 'ExchangeRate',
+      entityId: id,
+      before: existingRate
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Exchange rate deleted'
+    })
+
+  } catch (error) {
+    if (error instanceof ExchangeRateValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Exchange rate not found') {
+      return NextResponse.json(
+        { success: false, error: 'Exchange rate not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error deleting exchange rate:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete exchange rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, AuthenticatedRequest, getAuditContext } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { ExchangeRateService } from '@/app/lib/services/exchange-rate'
+import { ExchangeRateValidationError } from '@/app/lib/models'
+
+// GET - List every exchange rate, including past and scheduled ones
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const rates = await ExchangeRateService.listRates()
+
+    return NextResponse.json({
+      success: true,
+      data: rates
+    })
+
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch exchange rates' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Add a rate for a currency pair, effective now or from a later date
+export async function POST(request: NextRequest) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const body = await request.json()
+
+    const rate = await ExchangeRateService.createRate(
+      {
+        baseCurrency: body.baseCurrency,
+        quoteCurrency: body.quoteCurrency,
+        rate: Number(body.rate),
+        effectiveFrom: body.effectiveFrom || undefined
+      },
+      (request as AuthenticatedRequest).user?.id
+    )
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'exchangeRate.create',
+      entityType: 'ExchangeRate',
+      entityId: rate.id,
+      after: rate
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: rate
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ExchangeRateValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating exchange rate:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create exchange rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { prisma } from '@/app/lib/prisma'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { OutboxService } from '@/app/lib/services/outbox'
+import { OutboxValidationError } from '@/app/lib/models'
+
+// POST - Send a dead or waiting notification again now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'notifications:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const existingMessage = await prisma.outboxMessage.findUnique({
+      where: { id: id }
+    })
+    const message = await OutboxService.resend(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'outbox.resend',
+      entityType: 'OutboxMessage',
+      entityId: id,
+      before: existingMessage,
+      after: message
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: message,
+      message: message.status === 'SENT' ? 'Notification sent' : 'Sending failed again; it will be retried'
+    })
+
+  } catch (error) {
+    if (error instanceof OutboxValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Outbox message not found') {
+      return NextResponse.json(
+        { success: false, error: 'Outbox message not found' },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Outbox message was modified concurrently, please retry') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error re-sending outbox message:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to re-send notification' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { OutboxService } from '@/app/lib/services/outbox'
+import { OutboxValidationError, OutboxValidator } from '@/app/lib/models'
+
+// GET - List queued, sent and dead notifications, optionally by status or booking
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'notifications:manage')
+  if (authError) return authError
+
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const outbox = await OutboxService.listMessages({
+      status: OutboxValidator.validateStatus(searchParams.get('status')),
+      bookingId: searchParams.get('bookingId') || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: outbox
+    })
+
+  } catch (error) {
+    if (error instanceof OutboxValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching outbox:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch outbox' },
+      { status: 500 }
+    )
+  }
+}
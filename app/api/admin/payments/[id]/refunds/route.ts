@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, AuthenticatedRequest, getAuditContext } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { PaymentService } from '@/app/lib/services/payment'
+import { RefundValidationError, minorUnitsAsNumbers } from '@/app/lib/models'
+import { prisma } from '@/app/lib/prisma'
+
+// GET - List the refunds issued against a payment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'bookings:read')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const refunds = await prisma.refund.findMany({
+      where: { paymentId: id },
+      include: {
+        actor: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(refunds)
+    })
+
+  } catch (error) {
+    console.error('Error fetching refunds:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch refunds' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Refund part or all of a payment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'payments:refund')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const refund = await PaymentService.refundPayment(
+      id,
+      Number(body.amount),
+      typeof body.reason === 'string' ? body.reason : '',
+      { actorId: (request as AuthenticatedRequest).user?.id }
+    )
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'payment.refund',
+      entityType: 'Refund',
+      entityId: refund.id,
+      after: refund
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(refund),
+      message: refund.status === 'SUCCESS' ? 'Refund completed' : 'Refund submitted to the payment provider'
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof RefundValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Payment not found') {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Payment was modified concurrently, please retry') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error refunding payment:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to refund payment' },
+      { status: 500 }
+    )
+  }
+}
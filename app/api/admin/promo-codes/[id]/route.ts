@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { PromoCodeService } from '@/app/lib/services/promo-code'
+import { PromoCodeValidationError, UpdatePromoCodeData, minorUnitsAsNumbers } from '@/app/lib/models'
+
+const NOT_FOUND_ERRORS = ['Promo code not found', 'Tour not found', 'Destination not found']
+
+// GET - Get a single promo code
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const code = await PromoCodeService.getCode(id)
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(code)
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Promo code not found') {
+      return NextResponse.json(
+        { success: false, error: 'Promo code not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error fetching promo code:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch promo code' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Change a promo code's terms, or switch it on or off
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const data: UpdatePromoCodeData = {}
+    if (body.description !== undefined) data.description = body.description
+    if (body.discountType !== undefined) data.discountType = body.discountType
+    if (body.discountValue !== undefined) data.discountValue = Number(body.discountValue)
+    if (body.currency !== undefined) data.currency = body.currency || null
+    if (body.tourId !== undefined) data.tourId = body.tourId || null
+    if (body.destinationId !== undefined) data.destinationId = body.destinationId || null
+    if (body.minTravelers !== undefined) data.minTravelers = Number(body.minTravelers)
+    if (body.validFrom !== undefined) data.validFrom = body.validFrom ? new Date(body.validFrom) : null
+    if (body.validUntil !== undefined) data.validUntil = body.validUntil ? new Date(body.validUntil) : null
+    if (body.maxRedemptions !== undefined) data.maxRedemptions = body.maxRedemptions ? Number(body.maxRedemptions) : null
+    if (body.maxRedemptionsPerUser !== undefined) {
+      data.maxRedemptionsPerUser = body.maxRedemptionsPerUser ? Number(body.maxRedemptionsPerUser) : null
+    }
+    if (body.isActive !== undefined) data.isActive = Boolean(body.isActive)
+
+    const existingCode = await PromoCodeService.getCode(id)
+    const code = await PromoCodeService.updateCode(id, data)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'promoCode.update',
+      entityType: 'PromoCode',
+      entityId: id,
+      before: existingCode,
+      after: code
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(code)
+    })
+
+  } catch (error) {
+    if (error instanceof PromoCodeValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && NOT_FOUND_ERRORS.includes(error.message)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    console.error('Error updating promo code:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update promo code' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a promo code that has never been used
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const existingCode = await PromoCodeService.getCode(id)
+    await PromoCodeService.deleteCode(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'promoCode.delete',
+      entityType: 'PromoCode',
+      entityId: id,
+      before: existingCode
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Promo code deleted'
+    })
+
+  } catch (error) {
+    if (error instanceof PromoCodeValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Promo code not found') {
+      return NextResponse.json(
+        { success: false, error: 'Promo code not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error deleting promo code:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete promo code' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { PromoCodeService } from '@/app/lib/services/promo-code'
+
+// GET - Redemptions, customers, discount given and revenue per promo code
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'reports:view')
+  if (authError) return authError
+
+  try {
+    const report = await PromoCodeService.redemptionReport()
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    console.error('Error building promo code report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to build promo code report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { PromoCodeService } from '@/app/lib/services/promo-code'
+import { PromoCodeValidationError, minorUnitsAsNumbers } from '@/app/lib/models'
+
+// GET - List every promo code with its redemption count
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const codes = await PromoCodeService.listCodes()
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(codes)
+    })
+
+  } catch (error) {
+    console.error('Error fetching promo codes:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch promo codes' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a promo code; fixed discounts are given in minor units of their currency
+export async function POST(request: NextRequest) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const body = await request.json()
+
+    const code = await PromoCodeService.createCode({
+      code: body.code,
+      description: body.description,
+      discountType: body.discountType,
+      discountValue: Number(body.discountValue),
+      currency: body.currency || null,
+      tourId: body.tourId || null,
+      destinationId: body.destinationId || null,
+      minTravelers: body.minTravelers !== undefined ? Number(body.minTravelers) : undefined,
+      validFrom: body.validFrom ? new Date(body.validFrom) : null,
+      validUntil: body.validUntil ? new Date(body.validUntil) : null,
+      maxRedemptions: body.maxRedemptions ? Number(body.maxRedemptions) : null,
+      maxRedemptionsPerUser: body.maxRedemptionsPerUser ? Number(body.maxRedemptionsPerUser) : null,
+      isActive: body.isActive
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'promoCode.create',
+      entityType: 'PromoCode',
+      entityId: code.id,
+      after: code
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(code)
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof PromoCodeValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && (error.message === 'Tour not found' || error.message === 'Destination not found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      )
+    }
+    console.error('Error creating promo code:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create promo code' },
+      { status: 500 }
+    )
+  }
+}
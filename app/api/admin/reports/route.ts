@@ -1,32 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/lib/auth';
+import { requirePermission } from '@/app/lib/middleware/auth-middleware';
 import { prisma } from '@/app/lib/prisma';
+import { RevenueService } from '@/app/lib/services/revenue';
+import { Money } from '@/app/lib/models/money';
+import { BOOKED_STATUSES } from '@/app/lib/models/booking';
 
-// GET /api/admin/reports - Generate revenue and booking conversion reports (admin only)
+// GET /api/admin/reports - Generate revenue and booking conversion reports
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (user?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'reports:view');
+  if (authError) return authError;
 
+  try {
     const { searchParams } = new URL(request.url);
     const startDateParam = searchParams.get('startDate');
     const endDateParam = searchParams.get('endDate');
@@ -50,17 +34,11 @@ export async function GET(request: NextRequest) {
       previousRevenueData,
       previousBookingStats
     ] = await Promise.all([
-      // Current period revenue
-      prisma.payment.aggregate({
-        _sum: { amount: true },
-        _count: { id: true },
-        _avg: { amount: true },
-        where: {
-          status: 'SUCCESS',
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
+      // Current period revenue, per currency
+      RevenueService.paymentRevenue({
+        createdAt: {
+          gte: startDate,
+          lte: endDate
         }
       }),
       
@@ -73,7 +51,7 @@ export async function GET(request: NextRequest) {
         }),
         prisma.booking.count({
           where: {
-            status: 'CONFIRMED',
+            status: { in: BOOKED_STATUSES },
             createdAt: { gte: startDate, lte: endDate }
           }
         }),
@@ -92,34 +70,18 @@ export async function GET(request: NextRequest) {
       ]),
       
       // Tour performance in current period
-      prisma.booking.groupBy({
-        by: ['tourId'],
-        _count: { id: true },
-        _sum: { totalPrice: true },
-        where: {
-          status: 'CONFIRMED',
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        },
-        orderBy: {
-          _sum: {
-            totalPrice: 'desc'
-          }
+      RevenueService.tourRevenue({
+        createdAt: {
+          gte: startDate,
+          lte: endDate
         }
       }),
       
       // Previous period revenue for comparison
-      prisma.payment.aggregate({
-        _sum: { amount: true },
-        _count: { id: true },
-        where: {
-          status: 'SUCCESS',
-          createdAt: {
-            gte: previousStartDate,
-            lte: previousEndDate
-          }
+      RevenueService.paymentRevenue({
+        createdAt: {
+          gte: previousStartDate,
+          lte: previousEndDate
         }
       }),
       
@@ -132,7 +94,7 @@ export async function GET(request: NextRequest) {
         }),
         prisma.booking.count({
           where: {
-            status: 'CONFIRMED',
+            status: { in: BOOKED_STATUSES },
             createdAt: { gte: previousStartDate, lte: previousEndDate }
           }
         })
@@ -140,7 +102,7 @@ export async function GET(request: NextRequest) {
     ]);
 
     // Get tour details for performance report
-    const tourIds = currentTourPerformance.map(tp => tp.tourId);
+    const tourIds = [...new Set(currentTourPerformance.map(tp => tp.tourId))];
     const tourDetails = await prisma.tour.findMany({
       where: { id: { in: tourIds } },
       select: {
@@ -155,13 +117,23 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    const tourCurrencies = [...new Set(currentTourPerformance.map(tour => tour.currency))];
+
     const [totalBookings, confirmedBookings, cancelledBookings, pendingBookings] = currentBookingStats;
     const [previousTotalBookings, previousConfirmedBookings] = previousBookingStats;
 
-    // Calculate growth rates
-    const revenueGrowth = previousRevenueData._sum.amount 
-      ? ((currentRevenueData._sum.amount || 0) - (previousRevenueData._sum.amount || 0)) / (previousRevenueData._sum.amount || 1) * 100
-      : 0;
+    // Calculate growth rates; revenue is only ever compared within the same currency
+    const revenueByCurrency = currentRevenueData.map(revenue => {
+      const previous = previousRevenueData.find(p => p.currency === revenue.currency)?.total ?? Money.zero(revenue.currency);
+      return {
+        currency: revenue.currency,
+        totalRevenue: revenue.total,
+        totalTransactions: revenue.transactions,
+        averageTransactionValue: revenue.average,
+        revenueGrowth: RevenueService.growth(revenue.total, previous),
+        previousPeriodRevenue: previous
+      };
+    });
 
     const bookingGrowth = previousTotalBookings 
       ? (totalBookings - previousTotalBookings) / previousTotalBookings * 100
@@ -178,11 +150,8 @@ export async function GET(request: NextRequest) {
         type: reportType
       },
       revenueAnalysis: {
-        totalRevenue: currentRevenueData._sum.amount || 0,
-        totalTransactions: currentRevenueData._count.id || 0,
-        averageTransactionValue: currentRevenueData._avg.amount || 0,
-        revenueGrowth: Math.round(revenueGrowth * 100) / 100,
-        previousPeriodRevenue: previousRevenueData._sum.amount || 0
+        totalTransactions: currentRevenueData.reduce((sum, revenue) => sum + revenue.transactions, 0),
+        revenueByCurrency
       },
       bookingConversionMetrics: {
         totalBookings,
@@ -194,32 +163,38 @@ export async function GET(request: NextRequest) {
         bookingGrowth: Math.round(bookingGrowth * 100) / 100,
         conversionGrowth: Math.round(conversionGrowth * 100) / 100
       },
-      tourPerformance: currentTourPerformance.map(tour => {
-        const tourDetail = tourDetails.find(t => t.id === tour.tourId);
-        return {
-          tourId: tour.tourId,
-          tourTitle: tourDetail?.title || 'Unknown Tour',
-          destination: tourDetail?.destination?.name || 'Unknown',
-          country: tourDetail?.destination?.country || 'Unknown',
-          bookingCount: tour._count.id,
-          revenue: tour._sum.totalPrice || 0,
-          averageBookingValue: tour._sum.totalPrice && tour._count.id 
-            ? Math.round((tour._sum.totalPrice / tour._count.id) * 100) / 100 
-            : 0
-        };
-      }),
+      // Tours are ranked within each currency, highest revenue first
+      tourPerformanceByCurrency: tourCurrencies.map(currency => ({
+        currency,
+        tours: currentTourPerformance.filter(tour => tour.currency === currency).map(tour => {
+          const tourDetail = tourDetails.find(t => t.id === tour.tourId);
+          return {
+            tourId: tour.tourId,
+            tourTitle: tourDetail?.title || 'Unknown Tour',
+            destination: tourDetail?.destination?.name || 'Unknown',
+            country: tourDetail?.destination?.country || 'Unknown',
+            bookingCount: tour.bookings,
+            revenue: tour.revenue,
+            averageBookingValue: tour.average
+          };
+        })
+      })),
       summary: {
-        topPerformingTour: currentTourPerformance.length > 0 
-          ? {
-              tourId: currentTourPerformance[0].tourId,
-              revenue: currentTourPerformance[0]._sum.totalPrice || 0,
-              bookings: currentTourPerformance[0]._count.id
-            }
-          : null,
-        totalToursWithBookings: currentTourPerformance.length,
-        averageRevenuePerTour: currentTourPerformance.length > 0 
-          ? Math.round((currentRevenueData._sum.amount || 0) / currentTourPerformance.length * 100) / 100
-          : 0
+        topPerformingTourByCurrency: tourCurrencies.map(currency => {
+          const top = currentTourPerformance.find(tour => tour.currency === currency)!;
+          return {
+            currency,
+            tourId: top.tourId,
+            tourTitle: tourDetails.find(t => t.id === top.tourId)?.title || 'Unknown Tour',
+            revenue: top.revenue,
+            bookings: top.bookings
+          };
+        }),
+        totalToursWithBookings: new Set(currentTourPerformance.map(tour => tour.tourId)).size,
+        averageRevenuePerTour: currentRevenueData.map(revenue => RevenueService.average(
+          revenue.total,
+          currentTourPerformance.filter(tour => tour.currency === revenue.currency).length
+        ))
       }
     };
 
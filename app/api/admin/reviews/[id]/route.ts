@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/lib/auth';
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware';
 import { prisma } from '@/app/lib/prisma';
+import { AuditLogService } from '@/app/lib/services/audit-log';
 
 interface RouteParams {
   params: Promise<{
@@ -14,16 +14,10 @@ export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'reviews:moderate');
+  if (authError) return authError;
 
+  try {
     const { id } = await params;
 
     const review = await prisma.review.findUnique({
@@ -70,21 +64,15 @@ export async function GET(
   }
 }
 
-// DELETE /api/admin/reviews/[id] - Delete a review (admin only)
+// DELETE /api/admin/reviews/[id] - Delete a review
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'reviews:moderate');
+  if (authError) return authError;
 
+  try {
     const { id } = await params;
 
     // Check if review exists
@@ -108,6 +96,13 @@ export async function DELETE(
       }
     });
 
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'review.delete',
+      entityType: 'Review',
+      entityId: id,
+      before: existingReview
+    });
+
     return NextResponse.json({ 
       message: 'Review deleted successfully'
     });
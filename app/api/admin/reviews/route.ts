@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/lib/auth';
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware';
 import { prisma } from '@/app/lib/prisma';
+import { AuditLogService } from '@/app/lib/services/audit-log';
 import { z } from 'zod';
 
 // Validation schema for review approval
@@ -12,16 +12,10 @@ const approveReviewSchema = z.object({
 
 // GET /api/admin/reviews - Get all reviews for admin management
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'reviews:moderate');
+  if (authError) return authError;
 
+  try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status'); // 'pending', 'approved', 'all'
     const tourId = searchParams.get('tourId');
@@ -75,16 +69,10 @@ export async function GET(request: NextRequest) {
 
 // PATCH /api/admin/reviews - Approve or reject a review
 export async function PATCH(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+  const authError = await requirePermission(request, 'reviews:moderate');
+  if (authError) return authError;
 
+  try {
     const body = await request.json();
     const validatedData = approveReviewSchema.parse(body);
 
@@ -140,6 +128,14 @@ export async function PATCH(request: NextRequest) {
       }
     });
 
+    await AuditLogService.record(getAuditContext(request), {
+      action: validatedData.approved ? 'review.approve' : 'review.reject',
+      entityType: 'Review',
+      entityId: validatedData.reviewId,
+      before: existingReview,
+      after: updatedReview
+    });
+
     const action = validatedData.approved ? 'approved' : 'rejected';
     
     return NextResponse.json({ 
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { TravelerService } from '@/app/lib/services/traveler'
+
+// GET - Traveler manifest of a departure, as JSON or downloadable with ?format=csv or ?format=pdf
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; availabilityId: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
+  try {
+    const { id, availabilityId } = await params
+    const format = new URL(request.url).searchParams.get('format') || 'json'
+
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return NextResponse.json(
+        { success: false, error: 'Format must be json, csv or pdf' },
+        { status: 400 }
+      )
+    }
+
+    const manifest = await TravelerService.manifest(id, availabilityId)
+    const filename = `manifest-${manifest.departure.startDate.toISOString().slice(0, 10)}-${availabilityId}`
+    const headers = {
+      // Passport details must not linger in shared caches
+      'Cache-Control': 'no-store'
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(TravelerService.manifestCsv(manifest), {
+        headers: {
+          ...headers,
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`
+        }
+      })
+    }
+
+    if (format === 'pdf') {
+      return new NextResponse(new Uint8Array(TravelerService.manifestPdf(manifest)), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: manifest
+    }, { headers })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Departure not found') {
+      return NextResponse.json(
+        { success: false, error: 'Departure not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error fetching manifest:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch manifest' },
+      { status: 500 }
+    )
+  }
+}
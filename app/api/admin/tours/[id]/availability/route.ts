@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, AuthenticatedRequest, getAuditContext } from '@/app/lib/middleware/auth-middleware'
+import { prisma } from '@/app/lib/prisma'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { AvailabilityService, DepartureHasBookingsError } from '@/app/lib/services/availability'
+import { TourAvailabilityValidationError } from '@/app/lib/models'
+
+function parseDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  return new Date(value as string)
+}
+
+// GET - List all departures of a tour (including cancelled)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const departures = await AvailabilityService.listDepartures(id)
+
+    return NextResponse.json({
+      success: true,
+      data: departures
+    })
+
+  } catch (error) {
+    console.error('Error fetching departures:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch departures' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a departure
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const departure = await AvailabilityService.createDeparture({
+      tourId: id,
+      startDate: parseDate(body.startDate) as Date,
+      endDate: parseDate(body.endDate) as Date,
+      availableSlots: Number(body.capacity ?? body.availableSlots)
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'departure.create',
+      entityType: 'TourAvailability',
+      entityId: departure.id,
+      after: departure
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: departure
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof TourAvailabilityValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Tour not found') {
+      return NextResponse.json(
+        { success: false, error: 'Tour not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error creating departure:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create departure' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Update dates or capacity of a departure
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { availabilityId } = body
+
+    if (!availabilityId) {
+      return NextResponse.json(
+        { success: false, error: 'Availability ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const existingDeparture = await prisma.tourAvailability.findUnique({
+      where: { id: availabilityId }
+    })
+    const departure = await AvailabilityService.updateDeparture(id, availabilityId, {
+      startDate: parseDate(body.startDate),
+      endDate: parseDate(body.endDate),
+      capacity: body.capacity !== undefined ? Number(body.capacity) : undefined
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'departure.update',
+      entityType: 'TourAvailability',
+      entityId: availabilityId,
+      before: existingDeparture,
+      after: departure
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: departure
+    })
+
+  } catch (error) {
+    if (error instanceof TourAvailabilityValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Departure not found') {
+      return NextResponse.json(
+        { success: false, error: 'Departure not found' },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Departure was modified concurrently, please retry') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error updating departure:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update departure' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a departure, or cancel it and notify customers when it has bookings
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const availabilityId = searchParams.get('availabilityId')
+
+    if (!availabilityId) {
+      return NextResponse.json(
+        { success: false, error: 'Availability ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const existingDeparture = await prisma.tourAvailability.findUnique({
+      where: { id: availabilityId }
+    })
+    const result = await AvailabilityService.deleteDeparture(id, availabilityId, {
+      cancelBookings: searchParams.get('cancelBookings') === 'true',
+      reason: searchParams.get('reason') || undefined,
+      actorId: (request as AuthenticatedRequest).user?.id
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: result.deleted ? 'departure.delete' : 'departure.cancel',
+      entityType: 'TourAvailability',
+      entityId: availabilityId,
+      before: existingDeparture,
+      after: result.deleted
+        ? null
+        : await prisma.tourAvailability.findUnique({ where: { id: availabilityId } })
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.deleted
+        ? 'Departure deleted successfully'
+        : `Departure cancelled. ${result.cancelledBookings} bookings cancelled and customers notified.`
+    })
+
+  } catch (error) {
+    if (error instanceof DepartureHasBookingsError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Departure has ${error.activeBookings} active bookings. Confirm cancel-and-notify to proceed.`,
+          code: 'DEPARTURE_HAS_BOOKINGS',
+          activeBookings: error.activeBookings
+        },
+        { status: 409 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Departure not found') {
+      return NextResponse.json(
+        { success: false, error: 'Departure not found' },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Booking was modified concurrently, please retry') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error deleting departure:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete departure' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { CancellationService } from '@/app/lib/services/cancellation'
+import { CancellationPolicyValidationError, CancellationTier } from '@/app/lib/models'
+
+// GET - Get the cancellation policy of a tour
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const policy = await CancellationService.getPolicy(id)
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    })
+
+  } catch (error) {
+    console.error('Error fetching cancellation policy:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch cancellation policy' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Replace the cancellation tiers of a tour
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const tiers: CancellationTier[] = Array.isArray(body.tiers)
+      ? body.tiers.map((tier: { minDaysBefore: unknown; refundPercent: unknown }) => ({
+          minDaysBefore: Number(tier.minDaysBefore),
+          refundPercent: Number(tier.refundPercent)
+        }))
+      : []
+
+    const previousPolicy = await CancellationService.getPolicy(id)
+    const policy = await CancellationService.setPolicy(id, tiers)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'cancellationPolicy.update',
+      entityType: 'Tour',
+      entityId: id,
+      before: previousPolicy,
+      after: policy
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Cancellation policy updated successfully'
+    })
+
+  } catch (error) {
+    if (error instanceof CancellationPolicyValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Tour not found') {
+      return NextResponse.json(
+        { success: false, error: 'Tour not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error updating cancellation policy:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update cancellation policy' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Revert a tour to the default cancellation policy
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const previousPolicy = await CancellationService.getPolicy(id)
+    const policy = await CancellationService.resetPolicy(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'cancellationPolicy.reset',
+      entityType: 'Tour',
+      entityId: id,
+      before: previousPolicy,
+      after: policy
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Tour now uses the default cancellation policy'
+    })
+
+  } catch (error) {
+    console.error('Error resetting cancellation policy:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset cancellation policy' },
+      { status: 500 }
+    )
+  }
+}
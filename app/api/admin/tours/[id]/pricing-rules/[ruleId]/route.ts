@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { prisma } from '@/app/lib/prisma'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { PricingRuleService } from '@/app/lib/services/pricing'
+import { PricingRuleValidationError, UpdatePricingRuleData } from '@/app/lib/models'
+
+// PUT - Change a pricing rule, or switch it on or off
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id, ruleId } = await params
+    const body = await request.json()
+
+    const data: UpdatePricingRuleData = {}
+    if (body.name !== undefined) data.name = body.name
+    if (body.type !== undefined) data.type = body.type
+    if (body.adjustmentPercent !== undefined) data.adjustmentPercent = Number(body.adjustmentPercent)
+    if (body.startDate !== undefined) data.startDate = body.startDate ? new Date(body.startDate) : null
+    if (body.endDate !== undefined) data.endDate = body.endDate ? new Date(body.endDate) : null
+    if (body.minDaysBefore !== undefined) data.minDaysBefore = body.minDaysBefore !== '' ? Number(body.minDaysBefore) : null
+    if (body.maxDaysBefore !== undefined) data.maxDaysBefore = body.maxDaysBefore !== '' ? Number(body.maxDaysBefore) : null
+    if (body.travelerType !== undefined) data.travelerType = body.travelerType || null
+    if (body.minTravelers !== undefined) data.minTravelers = body.minTravelers ? Number(body.minTravelers) : null
+    if (body.isActive !== undefined) data.isActive = Boolean(body.isActive)
+
+    const existingRule = await prisma.pricingRule.findUnique({
+      where: { id: ruleId }
+    })
+    const rule = await PricingRuleService.updateRule(id, ruleId, data)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'pricingRule.update',
+      entityType: 'PricingRule',
+      entityId: ruleId,
+      before: existingRule,
+      after: rule
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    })
+
+  } catch (error) {
+    if (error instanceof PricingRuleValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Pricing rule not found') {
+      return NextResponse.json(
+        { success: false, error: 'Pricing rule not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error updating pricing rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update pricing rule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a pricing rule; bookings already made keep their prices
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id, ruleId } = await params
+    const existingRule = await prisma.pricingRule.findUnique({
+      where: { id: ruleId }
+    })
+    await PricingRuleService.deleteRule(id, ruleId)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'pricingRule.delete',
+      entityType: 'PricingRule',
+      entityId: ruleId,
+      before: existingRule
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pricing rule deleted'
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Pricing rule not found') {
+      return NextResponse.json(
+        { success: false, error: 'Pricing rule not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error deleting pricing rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete pricing rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { PricingRuleService } from '@/app/lib/services/pricing'
+import { PricingRuleValidationError } from '@/app/lib/models'
+
+// GET - List the pricing rules of a tour
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const rules = await PricingRuleService.listRules(id)
+
+    return NextResponse.json({
+      success: true,
+      data: rules
+    })
+
+  } catch (error) {
+    console.error('Error fetching pricing rules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pricing rules' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Add a pricing rule to a tour
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'pricing:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const rule = await PricingRuleService.createRule(id, {
+      name: body.name,
+      type: body.type,
+      adjustmentPercent: Number(body.adjustmentPercent),
+      startDate: body.startDate ? new Date(body.startDate) : null,
+      endDate: body.endDate ? new Date(body.endDate) : null,
+      minDaysBefore: body.minDaysBefore !== undefined && body.minDaysBefore !== '' ? Number(body.minDaysBefore) : null,
+      maxDaysBefore: body.maxDaysBefore !== undefined && body.maxDaysBefore !== '' ? Number(body.maxDaysBefore) : null,
+      travelerType: body.travelerType || null,
+      minTravelers: body.minTravelers ? Number(body.minTravelers) : null,
+      isActive: body.isActive
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'pricingRule.create',
+      entityType: 'PricingRule',
+      entityId: rule.id,
+      after: rule
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof PricingRuleValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Tour not found') {
+      return NextResponse.json(
+        { success: false, error: 'Tour not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error creating pricing rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create pricing rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,37 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
 import { prisma } from '@/app/lib/prisma'
-import { TourValidator, UpdateTourData, TourValidationError } from '@/app/lib/models'
-import { UserRole } from '@prisma/client'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { BOOKED_STATUSES, TourValidator, UpdateTourData, TourValidationError, minorUnitsAsNumbers } from '@/app/lib/models'
 
 // GET - Get single tour for admin
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     
     const tour = await prisma.tour.findUnique({
@@ -72,7 +53,7 @@ export async function GET(
     
     return NextResponse.json({
       success: true,
-      data: tour
+      data: minorUnitsAsNumbers(tour)
     })
     
   } catch (error) {
@@ -89,52 +70,21 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     const body = await request.json()
     const updateData: UpdateTourData = body
     
-    // Validate update data
-    try {
-      TourValidator.validateUpdateData(updateData)
-    } catch (error) {
-      if (error instanceof TourValidationError) {
-        return NextResponse.json(
-          { success: false, error: error.message },
-          { status: 400 }
-        )
-      }
-      throw error
-    }
-    
     // Check if tour exists
     const existingTour = await prisma.tour.findUnique({
       where: { id },
       include: {
         bookings: {
           where: {
-            status: 'CONFIRMED'
+            status: { in: BOOKED_STATUSES }
           }
         }
       }
@@ -146,6 +96,19 @@ export async function PUT(
         { status: 404 }
       )
     }
+
+    // Validate update data against the tour's current price and currency
+    try {
+      TourValidator.validateUpdateData(updateData, existingTour)
+    } catch (error) {
+      if (error instanceof TourValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
     
     // If destination is being updated, verify it exists
     if (updateData.destinationId) {
@@ -172,10 +135,18 @@ export async function PUT(
         destination: true
       }
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'tour.update',
+      entityType: 'Tour',
+      entityId: id,
+      before: existingTour,
+      after: updatedTour
+    })
     
     return NextResponse.json({
       success: true,
-      data: updatedTour,
+      data: minorUnitsAsNumbers(updatedTour),
       message: existingTour.bookings.length > 0 
         ? `Tour updated successfully. ${existingTour.bookings.length} existing bookings preserved.`
         : 'Tour updated successfully.'
@@ -195,28 +166,10 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { id } = await params
     
     // Check if tour exists and has bookings
@@ -235,8 +188,9 @@ export async function DELETE(
     }
     
     // Prevent deletion if there are confirmed bookings
-    const confirmedBookings = existingTour.bookings.filter(
-      booking => booking.status === 'CONFIRMED'
+    const { bookings, ...tour } = existingTour
+    const confirmedBookings = bookings.filter(
+      booking => BOOKED_STATUSES.includes(booking.status)
     )
     
     if (confirmedBookings.length > 0) {
@@ -253,6 +207,13 @@ export async function DELETE(
     await prisma.tour.delete({
       where: { id }
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'tour.delete',
+      entityType: 'Tour',
+      entityId: id,
+      before: tour
+    })
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { prisma } from '@/app/lib/prisma'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { DepartureScheduleService } from '@/app/lib/services/departure-schedule'
+import {
+  DepartureScheduleValidationError,
+  UpdateDepartureScheduleData,
+} from '@/app/lib/models'
+
+function parseDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  return new Date(value as string)
+}
+
+function parseDates(value: unknown): Date[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined
+  }
+  return value.map(date => new Date(date))
+}
+
+// GET - List recurring departure schedules of a tour
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const schedules = await DepartureScheduleService.listSchedules(id)
+
+    return NextResponse.json({
+      success: true,
+      data: schedules
+    })
+
+  } catch (error) {
+    console.error('Error fetching schedules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch schedules' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a schedule and generate its departures
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const result = await DepartureScheduleService.createSchedule({
+      tourId: id,
+      frequency: body.frequency,
+      interval: body.interval,
+      byWeekday: body.byWeekday,
+      byMonthDay: body.byMonthDay,
+      startDate: parseDate(body.startDate) as Date,
+      until: parseDate(body.until) ?? null,
+      blackoutDates: parseDates(body.blackoutDates),
+      slots: body.slots ?? null,
+      horizonDays: body.horizonDays
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'departureSchedule.create',
+      entityType: 'DepartureSchedule',
+      entityId: result.schedule.id,
+      after: result.schedule
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result.schedule,
+      generation: result.generation
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof DepartureScheduleValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Tour not found') {
+      return NextResponse.json(
+        { success: false, error: 'Tour not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error creating schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Update a schedule and regenerate its departures
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { scheduleId } = body
+
+    if (!scheduleId) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const updateData: UpdateDepartureScheduleData = {
+      frequency: body.frequency,
+      interval: body.interval,
+      byWeekday: body.byWeekday,
+      byMonthDay: body.byMonthDay,
+      startDate: parseDate(body.startDate),
+      until: body.until === null ? null : parseDate(body.until),
+      blackoutDates: parseDates(body.blackoutDates),
+      slots: body.slots,
+      horizonDays: body.horizonDays,
+      active: body.active
+    }
+
+    const existingSchedule = await prisma.departureSchedule.findUnique({
+      where: { id: scheduleId }
+    })
+    const result = await DepartureScheduleService.updateSchedule(id, scheduleId, updateData)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'departureSchedule.update',
+      entityType: 'DepartureSchedule',
+      entityId: scheduleId,
+      before: existingSchedule,
+      after: result.schedule
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result.schedule,
+      generation: result.generation
+    })
+
+  } catch (error) {
+    if (error instanceof DepartureScheduleValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Schedule not found') {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error updating schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a schedule, keeping any departures that already have bookings
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const scheduleId = searchParams.get('scheduleId')
+
+    if (!scheduleId) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const existingSchedule = await prisma.departureSchedule.findUnique({
+      where: { id: scheduleId }
+    })
+    const result = await DepartureScheduleService.deleteSchedule(id, scheduleId)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'departureSchedule.delete',
+      entityType: 'DepartureSchedule',
+      entityId: scheduleId,
+      before: existingSchedule
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.keptWithBookings > 0
+        ? `Schedule deleted. ${result.keptWithBookings} departures with bookings were kept.`
+        : 'Schedule deleted successfully'
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Schedule not found') {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Error deleting schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,40 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/lib/auth'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
 import { prisma } from '@/app/lib/prisma'
-import { TourValidator, CreateTourData, TourValidationError } from '@/app/lib/models'
-import { UserRole } from '@prisma/client'
+import { Prisma, TourStatus } from '@prisma/client'
+import { TourValidator, CreateTourData, TourValidationError, minorUnitsAsNumbers } from '@/app/lib/models'
+import { AuditLogService } from '@/app/lib/services/audit-log'
 
 // GET - List all tours for admin (including inactive)
 export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'tours:read')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
     
-    const where: any = {}
+    const where: Prisma.TourWhereInput = {}
     if (status) {
-      where.status = status
+      where.status = status as TourStatus
     }
     
     const tours = await prisma.tour.findMany({
@@ -56,7 +38,7 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({
       success: true,
-      data: tours
+      data: minorUnitsAsNumbers(tours)
     })
     
   } catch (error) {
@@ -70,28 +52,10 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new tour
 export async function POST(request: NextRequest) {
+  const authError = await requirePermission(request, 'tours:write')
+  if (authError) return authError
+
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Get user from database to check role
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-    
-    if (!user || user.role !== UserRole.ADMIN) {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-    
     const body = await request.json()
     const tourData: CreateTourData = body
     
@@ -130,10 +94,17 @@ export async function POST(request: NextRequest) {
         destination: true
       }
     })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'tour.create',
+      entityType: 'Tour',
+      entityId: tour.id,
+      after: tour
+    })
     
     return NextResponse.json({
       success: true,
-      data: tour
+      data: minorUnitsAsNumbers(tour)
     }, { status: 201 })
     
   } catch (error) {
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { UserService } from '@/app/lib/services/user'
+import { UserValidationError } from '@/app/lib/models'
+
+// POST - Send a pending invite again with a new link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const { user, emailSent } = await UserService.resendInvite(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.resendInvite',
+      entityType: 'User',
+      entityId: id
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: emailSent ? `Invite sent to ${user.email}` : 'The invite email could not be sent; please try again'
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error re-sending invite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send invite' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getCurrentUser, getAuditContext } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { UserService } from '@/app/lib/services/user'
+import { UserValidationError, minorUnitsAsNumbers } from '@/app/lib/models'
+
+// GET - A user with their bookings, payments and reviews
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const detail = await UserService.getUserDetail(id)
+
+    return NextResponse.json({
+      success: true,
+      data: minorUnitsAsNumbers(detail)
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Change a user's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const { role } = await request.json()
+    const existingUser = await UserService.findSummary(id)
+    const user = await UserService.changeRole(getCurrentUser(request)!.id, id, role)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.changeRole',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser,
+      after: user
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: `${user.name} is now ${user.role.toLowerCase()}`
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error changing user role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to change user role' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a user who has no bookings
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const existingUser = await UserService.findSummary(id)
+    await UserService.deleteUser(getCurrentUser(request)!.id, id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.delete',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted'
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getCurrentUser, getAuditContext } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { UserService } from '@/app/lib/services/user'
+import { UserValidationError } from '@/app/lib/models'
+
+// POST - Suspend an account, signing the user out everywhere
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const { reason } = await request.json()
+    const existingUser = await UserService.findSummary(id)
+    const user = await UserService.suspend(getCurrentUser(request)!.id, id, reason)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.suspend',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser,
+      after: user
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: `${user.name} has been suspended`
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error suspending user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to suspend user' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Lift a suspension
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { id } = await params
+    const existingUser = await UserService.findSummary(id)
+    const user = await UserService.reactivate(id)
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.reactivate',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser,
+      after: user
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: `${user.name} has been reactivated`
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error reactivating user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reactivate user' },
+      { status: 500 }
+    )
+  }
+}
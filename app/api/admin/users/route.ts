@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuditContext, requirePermission } from '@/app/lib/middleware/auth-middleware'
+import { AuditLogService } from '@/app/lib/services/audit-log'
+import { UserService } from '@/app/lib/services/user'
+import { UserValidationError, UserValidator } from '@/app/lib/models'
+
+// GET - List users a page at a time, optionally by name or email, role and status
+export async function GET(request: NextRequest) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const result = await UserService.listUsers(UserValidator.validateListFilters({
+      search: searchParams.get('search'),
+      role: searchParams.get('role'),
+      status: searchParams.get('status'),
+      page: searchParams.get('page'),
+      limit: searchParams.get('limit')
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Invite a member of staff, who sets their password from the emailed link
+export async function POST(request: NextRequest) {
+  const authError = await requirePermission(request, 'users:manage')
+  if (authError) return authError
+
+  try {
+    const body = await request.json()
+    const { user, emailSent } = await UserService.inviteUser({
+      name: body.name,
+      email: body.email,
+      role: body.role
+    })
+
+    await AuditLogService.record(getAuditContext(request), {
+      action: 'user.invite',
+      entityType: 'User',
+      entityId: user.id,
+      after: user
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      message: emailSent
+        ? `Invite sent to ${user.email}`
+        : 'The account was created but the invite email could not be sent; try sending it again'
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error inviting user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to invite user' },
+      { status: 500 }
+    )
+  }
+}
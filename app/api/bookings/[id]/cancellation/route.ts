@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/app/lib/prisma';
+import { PermissionRules } from '@/app/lib/models/permission';
+import { CancellationService } from '@/app/lib/services/cancellation';
+
+// GET /api/bookings/[id]/cancellation - Quote the refund for cancelling a booking now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: id },
+      select: { userId: true }
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns this booking or may see everyone's
+    if (booking.userId !== session.user.id && !PermissionRules.can(session.user.role, 'bookings:read')) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const quote = await CancellationService.quoteCancellation(id);
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    console.error('Error quoting cancellation:', error);
+    return NextResponse.json(
+      { error: 'Failed to quote cancellation' },
+      { status: 500 }
+    );
+  }
+}
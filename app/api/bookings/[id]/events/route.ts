@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/app/lib/prisma';
+import { PermissionRules } from '@/app/lib/models/permission';
+import { BookingService } from '@/app/lib/services/booking';
+
+// GET /api/bookings/[id]/events - Get the status history of a booking
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: id },
+      select: { userId: true }
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns this booking or may see everyone's
+    if (booking.userId !== session.user.id && !PermissionRules.can(session.user.role, 'bookings:read')) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const events = await BookingService.getBookingEvents(id);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Error fetching booking events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch booking history' },
+      { status: 500 }
+    );
+  }
+}
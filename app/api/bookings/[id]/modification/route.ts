@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/app/lib/prisma';
+import { PermissionRules } from '@/app/lib/models/permission';
+import { BookingModificationService } from '@/app/lib/services/booking-modification';
+import { BookingModificationValidationError } from '@/app/lib/models/booking-modification';
+import { PricingRuleValidationError } from '@/app/lib/models/pricing';
+
+// GET /api/bookings/[id]/modification - Quote the price difference of changing a booking
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: id },
+      select: { userId: true }
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns this booking or may see everyone's
+    if (booking.userId !== session.user.id && !PermissionRules.can(session.user.role, 'bookings:read')) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const count = (name: string) => searchParams.has(name) ? Number(searchParams.get(name)) : undefined;
+    const quote = await BookingModificationService.quoteModification(id, {
+      availabilityId: searchParams.get('availabilityId') || undefined,
+      travelersCount: count('travelersCount'),
+      childrenCount: count('childrenCount'),
+      seniorsCount: count('seniorsCount')
+    });
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    console.error('Error quoting booking change:', error);
+
+    if (error instanceof BookingModificationValidationError || error instanceof PricingRuleValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Tour availability not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Not enough available slots for this booking') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to quote booking change' },
+      { status: 500 }
+    );
+  }
+}
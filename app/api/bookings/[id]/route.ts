@@ -2,6 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/app/lib/prisma';
+import { getAuditContext, getCurrentUser, requireAuth } from '@/app/lib/middleware/auth-middleware';
+import { PermissionRules } from '@/app/lib/models/permission';
+import { AuditLogService } from '@/app/lib/services/audit-log';
+import { BookingService } from '@/app/lib/services/booking';
+import { TravelerService } from '@/app/lib/services/traveler';
+import { BookingModificationService } from '@/app/lib/services/booking-modification';
+import { CancellationService } from '@/app/lib/services/cancellation';
+import { BookingStateMachine, BookingTransitionError } from '@/app/lib/models/booking';
+import { CancellationPolicyValidationError } from '@/app/lib/models/cancellation-policy';
+import { BookingModificationRules, BookingModificationValidationError } from '@/app/lib/models/booking-modification';
+import { PricingRuleValidationError } from '@/app/lib/models/pricing';
+import { minorUnitsAsNumbers } from '@/app/lib/models/money';
+import { CAPTURED_PAYMENT_STATUSES } from '@/app/lib/models/refund';
+import { TravelerValidationError, TravelerValidator } from '@/app/lib/models/traveler';
+import { BookingStatus } from '@prisma/client';
 
 // GET /api/bookings/[id] - Get specific booking
 export async function GET(
@@ -31,7 +46,15 @@ export async function GET(
           }
         },
         availability: true,
-        payments: true,
+        payments: {
+          include: { refunds: true },
+          orderBy: { createdAt: 'desc' }
+        },
+        promoCode: {
+          select: {
+            code: true
+          }
+        },
         user: {
           select: {
             id: true,
@@ -49,19 +72,31 @@ export async function GET(
       );
     }
 
-    // Check if user owns this booking or is admin
+    // Check if user owns this booking or may see everyone's
     const user = await prisma.user.findUnique({
       where: { id: session.user.id }
     });
 
-    if (booking.userId !== session.user.id && user?.role !== 'ADMIN') {
+    if (booking.userId !== session.user.id && !PermissionRules.can(user?.role, 'bookings:read')) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
       );
     }
 
-    return NextResponse.json(booking);
+    const travelers = await TravelerService.listTravelers(booking.id);
+    const paidAmount = CancellationService.paidAmount(
+      booking.payments.filter(payment => CAPTURED_PAYMENT_STATUSES.includes(payment.status))
+    );
+
+    return NextResponse.json({
+      ...minorUnitsAsNumbers(booking),
+      travelers,
+      paidAmount,
+      // A change that raised the price of a paid booking leaves the difference to pay
+      balanceDue: booking.status === 'CONFIRMED' ? Math.max(Number(booking.totalPrice) - paidAmount, 0) : 0,
+      modificationCutoffDays: BookingModificationRules.cutoffDays(booking.tour)
+    });
   } catch (error) {
     console.error('Error fetching booking:', error);
     return NextResponse.json(
@@ -76,33 +111,25 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+  const authError = await requireAuth(request);
+  if (authError) return authError;
 
+  try {
+    const user = getCurrentUser(request)!;
     const { id } = await params;
     const body = await request.json();
-    const { status } = body;
+    const status = typeof body.status === 'string' ? body.status.toUpperCase() : '';
 
-    if (!status || !['PENDING', 'CONFIRMED', 'CANCELLED'].includes(status)) {
+    if (!BookingStateMachine.isStatus(status)) {
       return NextResponse.json(
-        { error: 'Invalid status. Must be PENDING, CONFIRMED, or CANCELLED' },
+        { error: `Invalid status. Must be one of ${Object.values(BookingStatus).join(', ')}` },
         { status: 400 }
       );
     }
 
     // Get current booking
     const currentBooking = await prisma.booking.findUnique({
-      where: { id: id },
-      include: {
-        availability: true
-      }
+      where: { id: id }
     });
 
     if (!currentBooking) {
@@ -113,94 +140,190 @@ export async function PATCH(
     }
 
     // Check permissions
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
+    const isStaff = PermissionRules.can(user.role, 'bookings:write');
 
-    if (currentBooking.userId !== session.user.id && user?.role !== 'ADMIN') {
+    if (currentBooking.userId !== user.id && !isStaff) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
       );
     }
 
-    // Handle slot management for status changes
-    let updatedBooking;
-    
-    if (status === 'CONFIRMED' && currentBooking.status === 'PENDING') {
-      // Reduce available slots when confirming
-      await prisma.$transaction(async (tx) => {
-        await tx.tourAvailability.update({
-          where: { id: currentBooking.availabilityId },
-          data: {
-            availableSlots: {
-              decrement: currentBooking.travelersCount
-            }
-          }
-        });
+    // Customers may only cancel; every other move is made by payments or staff
+    if (!isStaff && status !== 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Customers can only cancel their bookings' },
+        { status: 403 }
+      );
+    }
 
-        updatedBooking = await tx.booking.update({
-          where: { id: id },
-          data: { status },
-          include: {
-            tour: {
-              include: {
-                destination: true
-              }
-            },
-            availability: true,
-            payments: true
-          }
-        });
+    // Only those who may issue refunds may override the refund the cancellation policy gives
+    const refundOverride = PermissionRules.can(user.role, 'payments:refund') && body.refundAmount !== undefined
+      ? { refundAmount: Number(body.refundAmount), reason: body.reason }
+      : undefined;
+    const reason = typeof body.reason === 'string' ? body.reason : undefined;
+
+    await BookingService.updateBookingStatus(id, status, {
+      actorId: user.id,
+      reason
+    }, refundOverride);
+
+    // Staff acting on someone else's booking are audited like the admin bookings route
+    if (currentBooking.userId !== user.id) {
+      await AuditLogService.record(getAuditContext(request), {
+        action: status === 'CANCELLED' ? 'booking.cancel' : 'booking.status',
+        entityType: 'Booking',
+        entityId: id,
+        before: currentBooking,
+        after: {
+          status,
+          reason: reason || null,
+          ...(refundOverride ? { refundAmount: refundOverride.refundAmount } : {})
+        }
       });
-    } else if (status === 'CANCELLED' && currentBooking.status === 'CONFIRMED') {
-      // Restore available slots when cancelling confirmed booking
-      await prisma.$transaction(async (tx) => {
-        await tx.tourAvailability.update({
-          where: { id: currentBooking.availabilityId },
-          data: {
-            availableSlots: {
-              increment: currentBooking.travelersCount
-            }
+    }
+
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id: id },
+      include: {
+        tour: {
+          include: {
+            destination: true
           }
-        });
+        },
+        availability: true,
+        payments: true
+      }
+    });
+
+    return NextResponse.json(minorUnitsAsNumbers(updatedBooking));
+  } catch (error) {
+    console.error('Error updating booking:', error);
+
+    if (error instanceof BookingTransitionError || error instanceof CancellationPolicyValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Not enough available slots for this booking' ||
+      error.message === 'Booking was modified concurrently, please retry'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update booking' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/bookings/[id] - Change the departure or travelers of a booking
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAuth(request);
+  if (authError) return authError;
+
+  try {
+    const user = getCurrentUser(request)!;
+    const { id } = await params;
+    const body = await request.json();
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: id }
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns this booking or may change everyone's
+    if (booking.userId !== user.id && !PermissionRules.can(user.role, 'bookings:write')) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const result = await BookingModificationService.modifyBooking(id, {
+      availabilityId: body.availabilityId || undefined,
+      travelersCount: body.travelersCount !== undefined ? Number(body.travelersCount) : undefined,
+      childrenCount: body.childrenCount !== undefined ? Number(body.childrenCount) : undefined,
+      seniorsCount: body.seniorsCount !== undefined ? Number(body.seniorsCount) : undefined,
+      travelers: Array.isArray(body.travelers)
+        ? body.travelers.map(TravelerValidator.fromRequest)
+        : undefined
+    }, { actorId: user.id });
 
-        updatedBooking = await tx.booking.update({
-          where: { id: id },
-          data: { status },
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id: id },
+      include: {
+        tour: {
           include: {
-            tour: {
-              include: {
-                destination: true
-              }
-            },
-            availability: true,
-            payments: true
+            destination: true
           }
-        });
-      });
-    } else {
-      // Simple status update without slot changes
-      updatedBooking = await prisma.booking.update({
-        where: { id: id },
-        data: { status },
-        include: {
-          tour: {
-            include: {
-              destination: true
-            }
-          },
-          availability: true,
-          payments: true
-        }
+        },
+        availability: true,
+        payments: true
+      }
+    });
+
+    if (booking.userId !== user.id) {
+      await AuditLogService.record(getAuditContext(request), {
+        action: 'booking.modify',
+        entityType: 'Booking',
+        entityId: id,
+        before: booking,
+        after: updatedBooking
       });
     }
 
-    return NextResponse.json(updatedBooking);
+    return NextResponse.json({
+      booking: minorUnitsAsNumbers(updatedBooking),
+      modification: result
+    });
   } catch (error) {
-    console.error('Error updating booking:', error);
+    console.error('Error modifying booking:', error);
+
+    if (error instanceof BookingModificationValidationError ||
+        error instanceof PricingRuleValidationError ||
+        error instanceof TravelerValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message === 'Booking not found' || error.message === 'Tour availability not found')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Not enough available slots for this booking' ||
+      error.message === 'Booking was modified concurrently, please retry'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
-      { error: 'Failed to update booking' },
+      { error: 'Failed to modify booking' },
       { status: 500 }
     );
   }
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '../../../lib/middleware/cron-auth';
+import { BookingService } from '../../../lib/services/booking';
+import { WaitlistService } from '../../../lib/services/waitlist';
+
+export async function POST(request: NextRequest) {
+  try {
+    // This endpoint is called by a cron job to release seats held by abandoned bookings
+    // and by waitlist offers that ran out
+    const authError = requireCronSecret(request);
+    if (authError) return authError;
+
+    const expired = await BookingService.expireHolds();
+    const expiredOffers = await WaitlistService.expireOffers();
+
+    return NextResponse.json({
+      message: 'Expired seat holds released successfully',
+      expired,
+      expiredOffers,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error expiring seat holds:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
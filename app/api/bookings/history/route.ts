@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { BookingService } from '@/app/lib/services/booking';
+import { minorUnitsAsNumbers } from '@/app/lib/models/money';
 
 // GET /api/bookings/history - Get user's booking history
 export async function GET(request: NextRequest) {
@@ -34,7 +35,7 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json({
-      bookings,
+      bookings: minorUnitsAsNumbers(bookings),
       summary
     });
   } catch (error) {
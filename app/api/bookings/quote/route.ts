@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { BookingService } from '@/app/lib/services/booking';
+import { ExchangeRateValidationError, PricingRuleValidationError, PromoCodeValidationError } from '@/app/lib/models';
+
+// POST /api/bookings/quote - Price a booking, with any promo code, before making it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { tourId, availabilityId, travelersCount, childrenCount, seniorsCount, currency, promoCode } = body;
+
+    if (!tourId || !availabilityId || !travelersCount || travelersCount <= 0) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tourId, availabilityId, travelersCount' },
+        { status: 400 }
+      );
+    }
+
+    const price = await BookingService.quoteBooking({
+      userId: session.user.id,
+      tourId,
+      availabilityId,
+      travelersCount,
+      childrenCount: childrenCount ?? 0,
+      seniorsCount: seniorsCount ?? 0,
+      currency,
+      promoCode: promoCode || undefined
+    });
+
+    return NextResponse.json({
+      quote: {
+        lines: price.lines,
+        subtotal: price.subtotal,
+        discount: price.discount,
+        total: price.total,
+        promoCode: price.promoCode?.code ?? null
+      }
+    });
+  } catch (error) {
+    if (error instanceof ExchangeRateValidationError ||
+        error instanceof PromoCodeValidationError ||
+        error instanceof PricingRuleValidationError ||
+        (error instanceof Error && error.message.startsWith('No exchange rate from'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Tour availability not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error quoting booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to price booking' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/app/lib/prisma';
+import { BookingService } from '@/app/lib/services/booking';
+import {
+  ExchangeRateValidationError,
+  PricingRuleValidationError,
+  PromoCodeValidationError,
+  TravelerValidationError,
+  TravelerValidator,
+  minorUnitsAsNumbers,
+} from '@/app/lib/models';
 
 // GET /api/bookings - Get user's bookings
 export async function GET() {
@@ -33,7 +42,7 @@ export async function GET() {
       }
     });
 
-    return NextResponse.json(bookings);
+    return NextResponse.json(minorUnitsAsNumbers(bookings));
   } catch (error) {
     console.error('Error fetching bookings:', error);
     return NextResponse.json(
@@ -56,7 +65,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { tourId, availabilityId, travelersCount } = body;
+    const { tourId, availabilityId, travelersCount, childrenCount, seniorsCount, currency, promoCode, travelers } = body;
 
     // Validate required fields
     if (!tourId || !availabilityId || !travelersCount) {
@@ -73,6 +82,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!Array.isArray(travelers)) {
+      return NextResponse.json(
+        { error: 'Traveler details are required for every traveler' },
+        { status: 400 }
+      );
+    }
+
     // Check availability
     const availability = await prisma.tourAvailability.findUnique({
       where: { id: availabilityId },
@@ -88,6 +104,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (availability.cancelledAt) {
+      return NextResponse.json(
+        { error: 'This departure has been cancelled' },
+        { status: 400 }
+      );
+    }
+
     if (availability.availableSlots < travelersCount) {
       return NextResponse.json(
         { error: 'Not enough available slots' },
@@ -95,32 +118,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate total price
-    const totalPrice = availability.tour.pricePerPerson * travelersCount;
-
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        userId: session.user.id,
-        tourId,
-        availabilityId,
-        travelersCount,
-        totalPrice,
-        status: 'PENDING'
-      },
-      include: {
-        tour: {
-          include: {
-            destination: true
-          }
-        },
-        availability: true
-      }
+    // Create booking and hold its seats
+    const booking = await BookingService.createBooking({
+      userId: session.user.id,
+      tourId,
+      availabilityId,
+      travelersCount,
+      childrenCount: childrenCount ?? 0,
+      seniorsCount: seniorsCount ?? 0,
+      currency,
+      promoCode: promoCode || undefined,
+      travelers: travelers.map(TravelerValidator.fromRequest)
     });
 
-    return NextResponse.json(booking, { status: 201 });
+    return NextResponse.json(minorUnitsAsNumbers(booking), { status: 201 });
   } catch (error) {
     console.error('Error creating booking:', error);
+
+    // Another customer took the last seats between the check above and the hold
+    if (error instanceof Error && error.message === 'Not enough available slots for this booking') {
+      return NextResponse.json(
+        { error: 'Not enough available slots' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ExchangeRateValidationError ||
+        error instanceof PromoCodeValidationError ||
+        error instanceof PricingRuleValidationError ||
+        error instanceof TravelerValidationError ||
+        (error instanceof Error && error.message.startsWith('No exchange rate from'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    // Someone else redeemed the same code at the same moment
+    if (error instanceof Error && error.message === 'Promo code was modified concurrently, please retry') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to create booking' },
       { status: 500 }
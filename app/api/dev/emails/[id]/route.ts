@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CaptureTransport, isEmailCaptureBrowsable } from '@/app/lib/services/email-transports';
+
+// GET /api/dev/emails/[id] - One captured email with its HTML and plain-text bodies (development only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const email = isEmailCaptureBrowsable() ? CaptureTransport.find(id) : undefined;
+
+  if (!email) {
+    return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ email });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { CaptureTransport, isEmailCaptureBrowsable } from '@/app/lib/services/email-transports';
+
+// GET /api/dev/emails - List captured emails, newest first (development only)
+export async function GET() {
+  if (!isEmailCaptureBrowsable()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const emails = CaptureTransport.messages().map(email => ({
+    id: email.id,
+    from: email.from,
+    to: email.to,
+    subject: email.subject,
+    capturedAt: email.capturedAt
+  }));
+
+  return NextResponse.json({ emails });
+}
+
+// DELETE /api/dev/emails - Forget every captured email (development only)
+export async function DELETE() {
+  if (!isEmailCaptureBrowsable()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  CaptureTransport.clear();
+  return NextResponse.json({ message: 'Captured emails cleared' });
+}
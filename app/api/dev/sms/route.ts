@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { FakeSmsGateway, isFakeSmsBrowsable } from '@/app/lib/services/sms-gateways';
+
+// GET /api/dev/sms - List text messages kept by the fake gateway, newest first (development only)
+export async function GET() {
+  if (!isFakeSmsBrowsable()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ messages: FakeSmsGateway.messages() });
+}
+
+// DELETE /api/dev/sms - Forget every fake text message (development only)
+export async function DELETE() {
+  if (!isFakeSmsBrowsable()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  FakeSmsGateway.clear();
+  return NextResponse.json({ message: 'Fake text messages cleared' });
+}
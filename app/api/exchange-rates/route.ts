@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { ExchangeRateService } from '@/app/lib/services/exchange-rate'
+import { SUPPORTED_CURRENCIES } from '@/app/lib/models'
+
+// GET /api/exchange-rates - Rates currently in effect, for showing prices in other currencies
+export async function GET() {
+  try {
+    const rates = await ExchangeRateService.currentRates()
+
+    return NextResponse.json({
+      currencies: SUPPORTED_CURRENCIES,
+      rates: rates.map(rate => ({
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        rate: rate.rate,
+        effectiveFrom: rate.effectiveFrom
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch exchange rates' },
+      { status: 500 }
+    )
+  }
+}
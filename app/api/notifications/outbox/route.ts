@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '../../../lib/middleware/cron-auth';
+import { OutboxService } from '../../../lib/services/outbox';
+
+export async function POST(request: NextRequest) {
+  try {
+    // This endpoint is called by a cron job to deliver queued notifications and retry failed ones
+    const authError = requireCronSecret(request);
+    if (authError) return authError;
+
+    const summary = await OutboxService.deliverDue();
+
+    return NextResponse.json({
+      message: 'Queued notifications delivered',
+      ...summary,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error delivering queued notifications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { NotificationService } from '@/app/lib/services/notification';
+import { SmsSender } from '@/app/lib/services/sms-gateways';
+import { UserValidationError } from '@/app/lib/models/user';
 import { prisma } from '@/app/lib/prisma';
 
 export async function GET() {
@@ -38,7 +40,7 @@ export async function GET() {
       marketingEmails: false
     };
 
-    return NextResponse.json({ preferences });
+    return NextResponse.json({ preferences, phone: user.phone });
 
   } catch (error) {
     console.error('Error fetching notification preferences:', error);
@@ -62,6 +64,7 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
     const {
+      phone,
       emailNotifications,
       smsNotifications,
       bookingConfirmations,
@@ -85,7 +88,23 @@ export async function PUT(request: NextRequest) {
       Object.entries(preferences).filter(([, value]) => value !== undefined)
     );
 
-    if (Object.keys(validPreferences).length === 0) {
+    // Text messages go to the phone number given here, kept in E.164 form
+    let normalizedPhone: string | undefined;
+    if (typeof phone === 'string' && phone.trim()) {
+      try {
+        normalizedPhone = SmsSender.normalizePhone(phone);
+      } catch (error) {
+        if (error instanceof UserValidationError) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    if (Object.keys(validPreferences).length === 0 && !normalizedPhone) {
       return NextResponse.json(
         { error: 'No valid preferences provided' },
         { status: 400 }
@@ -95,7 +114,7 @@ export async function PUT(request: NextRequest) {
     // Get user ID
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
-      select: { id: true }
+      select: { id: true, phone: true }
     });
 
     if (!user) {
@@ -105,12 +124,29 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (validPreferences.smsNotifications && !normalizedPhone && !user.phone) {
+      return NextResponse.json(
+        { error: 'Add a phone number to get text messages' },
+        { status: 400 }
+      );
+    }
+
+    if (normalizedPhone) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { phone: normalizedPhone }
+      });
+    }
+
     // Update preferences
-    await NotificationService.updateNotificationPreferences(user.id, validPreferences);
+    if (Object.keys(validPreferences).length > 0) {
+      await NotificationService.updateNotificationPreferences(user.id, validPreferences);
+    }
 
     return NextResponse.json({ 
       message: 'Notification preferences updated successfully',
-      preferences: validPreferences
+      preferences: validPreferences,
+      phone: normalizedPhone ?? user.phone
     });
 
   } catch (error) {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { NotificationCenterService } from '@/app/lib/services/notification-center';
+import { NotificationValidationError, NotificationValidator } from '@/app/lib/models';
+
+// POST /api/notifications/read - Mark the given notifications, or all of them, as read
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const ids = NotificationValidator.validateReadIds(body.ids);
+
+    const marked = await NotificationCenterService.markRead(session.user.id, ids);
+    const unreadCount = await NotificationCenterService.unreadCount(session.user.id);
+
+    return NextResponse.json({ marked, unreadCount });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+
+    if (error instanceof NotificationValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to mark notifications as read' },
+      { status: 500 }
+    );
+  }
+}
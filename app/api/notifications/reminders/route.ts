@@ -1,26 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '../../../lib/middleware/cron-auth';
 import { NotificationService } from '../../../lib/services/notification';
 
 export async function POST(request: NextRequest) {
   try {
-    // This endpoint would typically be called by a cron job or scheduler
-    // For security, you might want to add API key authentication here
-    
-    const authHeader = request.headers.get('authorization');
-    const expectedToken = process.env.CRON_SECRET || 'your-secret-token';
-    
-    if (authHeader !== `Bearer ${expectedToken}`) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    // Called by the scheduler with the cron secret
+    const authError = requireCronSecret(request);
+    if (authError) return authError;
 
-    // Send tour reminders for upcoming tours
-    await NotificationService.sendTourReminders();
+    // Queue and send tour reminders for upcoming tours; failed ones are retried by the outbox
+    const queued = await NotificationService.sendTourReminders();
 
-    return NextResponse.json({ 
-      message: 'Tour reminders sent successfully',
+    return NextResponse.json({
+      message: 'Tour reminders queued successfully',
+      queued,
       timestamp: new Date().toISOString()
     });
 
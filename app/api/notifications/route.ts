@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { NotificationCenterService } from '@/app/lib/services/notification-center';
+import { NotificationValidationError } from '@/app/lib/models';
+
+// GET /api/notifications - Get the user's latest notifications and unread count
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = searchParams.get('limit');
+    const page = await NotificationCenterService.listNotifications(session.user.id, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit: limit ? Number(limit) : undefined
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+
+    if (error instanceof NotificationValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { PaymentService } from '@/app/lib/services/payment';
-import { PaymentMethod, PaymentProvider } from '@/app/lib/models';
+import { PaymentMethod, PaymentProvider, minorUnitsAsNumbers } from '@/app/lib/models';
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,7 +25,7 @@ export async function POST(request: NextRequest) {
     // Initialize payment
     const paymentResponse = await PaymentService.initializePayment({
       bookingId,
-      amount: parseFloat(amount),
+      amount: Number(amount),
       currency,
       method: method as PaymentMethod,
       provider: provider as PaymentProvider
@@ -61,7 +61,7 @@ export async function GET(request: NextRequest) {
     // Verify payment status
     const payment = await PaymentService.verifyPayment(paymentId);
 
-    return NextResponse.json(payment);
+    return NextResponse.json(minorUnitsAsNumbers(payment));
   } catch (error) {
     console.error('Payment verification error:', error);
     return NextResponse.json(
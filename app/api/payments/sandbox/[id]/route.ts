@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/app/lib/prisma';
+import { PaymentProviderRegistry, SandboxProvider } from '@/app/lib/services/payment-providers';
+
+// The sandbox stands in for a provider's hosted checkout, so like one it needs no session:
+// the unguessable payment id is the capability.
+async function findSandboxPayment(id: string) {
+  if (!PaymentProviderRegistry.has('SANDBOX')) return null;
+
+  const payment = await prisma.payment.findUnique({
+    where: { id },
+    include: {
+      booking: {
+        select: {
+          id: true,
+          travelersCount: true,
+          tour: { select: { title: true } }
+        }
+      }
+    }
+  });
+
+  return payment?.provider === 'SANDBOX' ? payment : null;
+}
+
+// GET - Checkout details for the sandbox payment page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const payment = await findSandboxPayment(id);
+
+    if (!payment) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      payment: {
+        id: payment.id,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        method: payment.method,
+        status: payment.status,
+        bookingId: payment.bookingId,
+        travelersCount: payment.booking.travelersCount,
+        tourTitle: payment.booking.tour.title
+      }
+    });
+  } catch (error) {
+    console.error('Sandbox checkout error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load sandbox checkout' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Approve or decline the payment, which fires the webhook back to us
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const payment = await findSandboxPayment(id);
+
+    if (!payment) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    if (payment.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'Payment has already been completed' },
+        { status: 409 }
+      );
+    }
+
+    const sandbox = PaymentProviderRegistry.get('SANDBOX');
+    if (!(sandbox instanceof SandboxProvider)) {
+      return NextResponse.json({ error: 'Sandbox provider is not available' }, { status: 404 });
+    }
+
+    await sandbox.completeCheckout(payment, body.approved === true);
+
+    return NextResponse.json({
+      success: true,
+      redirectUrl: `/bookings/${payment.bookingId}`
+    });
+  } catch (error) {
+    console.error('Sandbox checkout error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sandbox checkout failed' },
+      { status: 500 }
+    );
+  }
+}
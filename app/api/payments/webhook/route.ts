@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PaymentService, WebhookData } from '@/app/lib/services/payment';
-import { PaymentProvider, PaymentStatus } from '@/app/lib/models';
+import { PaymentProviderRegistry } from '@/app/lib/services/payment-providers';
+import { WebhookService } from '@/app/lib/services/webhook';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
     const { searchParams } = new URL(request.url);
-    const provider = searchParams.get('provider') as PaymentProvider;
+    const provider = searchParams.get('provider');
 
     if (!provider) {
       return NextResponse.json(
@@ -15,37 +14,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let webhookData;
+    if (!PaymentProviderRegistry.has(provider)) {
+      return NextResponse.json(
+        { error: 'Unsupported payment provider' },
+        { status: 400 }
+      );
+    }
 
-    // Parse webhook data based on provider
-    switch (provider) {
-      case 'STRIPE':
-        webhookData = parseStripeWebhook(body);
-        break;
-      case 'PAYSTACK':
-        webhookData = parsePaystackWebhook(body);
-        break;
-      case 'FLUTTERWAVE':
-        webhookData = parseFlutterwaveWebhook(body);
-        break;
-      default:
-        return NextResponse.json(
-          { error: 'Unsupported payment provider' },
-          { status: 400 }
-        );
+    const adapter = PaymentProviderRegistry.get(provider);
+
+    // Signatures cover the exact bytes sent, so check them before parsing
+    const rawBody = await request.text();
+    const verification = adapter.verifySignature(rawBody, request.headers);
+    if (!verification.valid) {
+      return NextResponse.json(
+        { error: verification.reason },
+        { status: 401 }
+      );
     }
 
-    if (!webhookData) {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
       return NextResponse.json(
         { error: 'Invalid webhook data' },
         { status: 400 }
       );
     }
 
-    // Process webhook
-    await PaymentService.processWebhook(webhookData);
+    // Parse webhook data based on provider
+    const event = adapter.parseWebhook(body);
 
-    return NextResponse.json({ success: true });
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Invalid webhook data' },
+        { status: 400 }
+      );
+    }
+
+    // Process webhook once, however many times the provider delivers it
+    const outcome = await WebhookService.receive(provider, event, body);
+
+    if (outcome === 'in_progress') {
+      // Another delivery of this event is being handled; ask the provider to retry later
+      return NextResponse.json(
+        { error: 'Event is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, outcome });
   } catch (error) {
     console.error('Webhook processing error:', error);
     return NextResponse.json(
@@ -54,53 +73,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function parseStripeWebhook(body: Record<string, unknown>): WebhookData | null {
-  // TODO: Implement Stripe webhook parsing with signature verification
-  // For now, return mock data structure
-  const metadata = (body.metadata as Record<string, unknown>) || {};
-  const paymentId = metadata.paymentId as string;
-  
-  if (!paymentId) return null;
-  
-  return {
-    paymentId,
-    status: body.status === 'succeeded' ? 'SUCCESS' as PaymentStatus : 'FAILED' as PaymentStatus,
-    providerTransactionId: body.id as string,
-    provider: 'STRIPE' as PaymentProvider
-  };
-}
-
-function parsePaystackWebhook(body: Record<string, unknown>): WebhookData | null {
-  // TODO: Implement Paystack webhook parsing with signature verification
-  // For now, return mock data structure
-  const data = (body.data as Record<string, unknown>) || {};
-  const metadata = (data.metadata as Record<string, unknown>) || {};
-  const paymentId = metadata.paymentId as string;
-  
-  if (!paymentId) return null;
-  
-  return {
-    paymentId,
-    status: body.event === 'charge.success' ? 'SUCCESS' as PaymentStatus : 'FAILED' as PaymentStatus,
-    providerTransactionId: data.reference as string,
-    provider: 'PAYSTACK' as PaymentProvider
-  };
-}
-
-function parseFlutterwaveWebhook(body: Record<string, unknown>): WebhookData | null {
-  // TODO: Implement Flutterwave webhook parsing with signature verification
-  // For now, return mock data structure
-  const data = (body.data as Record<string, unknown>) || {};
-  const meta = (data.meta as Record<string, unknown>) || {};
-  const paymentId = meta.paymentId as string;
-  
-  if (!paymentId) return null;
-  
-  return {
-    paymentId,
-    status: body.event === 'charge.completed' ? 'SUCCESS' as PaymentStatus : 'FAILED' as PaymentStatus,
-    providerTransactionId: data.flw_ref as string,
-    provider: 'FLUTTERWAVE' as PaymentProvider
-  };
-}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/app/lib/prisma';
+import { BOOKED_STATUSES } from '@/app/lib/models/booking';
 import { z } from 'zod';
 
 // Validation schema for review creation
@@ -73,7 +74,7 @@ export async function POST(request: NextRequest) {
       where: {
         userId: session.user.id,
         tourId: validatedData.tourId,
-        status: 'CONFIRMED'
+        status: { in: BOOKED_STATUSES }
       }
     });
 
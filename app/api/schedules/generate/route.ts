@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '../../../lib/middleware/cron-auth';
+import { DepartureScheduleService } from '../../../lib/services/departure-schedule';
+
+export async function POST(request: NextRequest) {
+  try {
+    // This endpoint is called by a cron job to roll schedule horizons forward
+    const authError = requireCronSecret(request);
+    if (authError) return authError;
+
+    const results = await DepartureScheduleService.generateAllDepartures();
+
+    return NextResponse.json({
+      message: 'Departures generated successfully',
+      schedules: results.length,
+      created: results.reduce((sum, result) => sum + result.created, 0),
+      removed: results.reduce((sum, result) => sum + result.removed, 0),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error generating departures:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
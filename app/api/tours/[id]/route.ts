@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/app/lib/prisma'
+import { minorUnitsAsNumbers } from '@/app/lib/models/money'
 
 export async function GET(
   request: NextRequest,
@@ -25,6 +26,7 @@ export async function GET(
         destination: true,
         availabilities: {
           where: {
+            cancelledAt: null,
             startDate: {
               gte: new Date()
             }
@@ -33,6 +35,24 @@ export async function GET(
             startDate: 'asc'
           }
         },
+        // The tour page prices each departure with these, the same way bookings are priced
+        pricingRules: {
+          where: {
+            isActive: true
+          },
+          select: {
+            name: true,
+            type: true,
+            adjustmentPercent: true,
+            startDate: true,
+            endDate: true,
+            minDaysBefore: true,
+            maxDaysBefore: true,
+            travelerType: true,
+            minTravelers: true,
+            isActive: true
+          }
+        },
         reviews: {
           where: {
             approved: true
@@ -79,7 +99,7 @@ export async function GET(
     return NextResponse.json({
       success: true,
       data: {
-        ...tour,
+        ...minorUnitsAsNumbers(tour),
         averageRating: Math.round(avgRating * 10) / 10,
         reviewCount: tour._count.reviews
       }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/app/lib/prisma'
 import { TourStatus, Difficulty, Prisma } from '@prisma/client'
+import { minorUnitsAsNumbers } from '@/app/lib/models/money'
 
 export async function GET(request: NextRequest) {
   try {
@@ -43,12 +44,13 @@ export async function GET(request: NextRequest) {
     
     // Price filtering
     if (minPrice || maxPrice) {
-      const priceFilter: Prisma.FloatFilter = {}
+      // Bounds are in minor units, like the stored prices
+      const priceFilter: Prisma.IntFilter = {}
       if (minPrice) {
-        priceFilter.gte = parseFloat(minPrice)
+        priceFilter.gte = parseInt(minPrice)
       }
       if (maxPrice) {
-        priceFilter.lte = parseFloat(maxPrice)
+        priceFilter.lte = parseInt(maxPrice)
       }
       where.pricePerPerson = priceFilter
     }
@@ -114,7 +116,7 @@ export async function GET(request: NextRequest) {
         {
           id: 'mock-1',
           title: 'Majestic Alps Trek',
-          pricePerPerson: 1299,
+          pricePerPerson: 129900,
           durationDays: 7,
           images: ['https://images.unsplash.com/photo-1531366936337-7c912a4589a7?w=800&q=80'],
           difficulty: Difficulty.MEDIUM,
@@ -131,7 +133,7 @@ export async function GET(request: NextRequest) {
         {
           id: 'mock-2',
           title: 'Kyoto Cultural Journey',
-          pricePerPerson: 1899,
+          pricePerPerson: 189900,
           durationDays: 10,
           images: ['https://images.unsplash.com/photo-1493976040374-85c8e12f0c0e?w=800&q=80'],
           difficulty: Difficulty.EASY,
@@ -148,7 +150,7 @@ export async function GET(request: NextRequest) {
         {
           id: 'mock-3',
           title: 'Santorini Island Escape',
-          pricePerPerson: 2499,
+          pricePerPerson: 249900,
           durationDays: 5,
           images: ['https://images.unsplash.com/photo-1613395877344-13d4c79e4284?w=800&q=80'],
           difficulty: Difficulty.EASY,
@@ -167,7 +169,7 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({
       success: true,
-      data: tours,
+      data: minorUnitsAsNumbers(tours),
       count: tours.length
     })
     
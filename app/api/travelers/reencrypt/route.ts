@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '../../../lib/middleware/cron-auth';
+import { TravelerService } from '../../../lib/services/traveler';
+
+export async function POST(request: NextRequest) {
+  try {
+    // This endpoint is called by a cron job to move passport details onto the newest encryption key
+    const authError = requireCronSecret(request);
+    if (authError) return authError;
+
+    const summary = await TravelerService.reencryptPassports();
+
+    return NextResponse.json({
+      message: 'Passport details re-encrypted',
+      ...summary,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error re-encrypting passport details:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
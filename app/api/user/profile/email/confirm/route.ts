@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountService } from '@/app/lib/services/account'
+import { AccountValidationError } from '@/app/lib/models/account'
+
+// POST - Confirm an email change with the token from the verification link. The link may be
+// opened on any device, so the token alone is enough.
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+    const { email } = await AccountService.confirmEmailChange(token)
+
+    return NextResponse.json({
+      email,
+      message: `Your email address is now ${email}; please sign in with it`
+    })
+
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error confirming email change:', error)
+    return NextResponse.json(
+      { error: 'Failed to confirm email change' },
+      { status: 500 }
+    )
+  }
+}
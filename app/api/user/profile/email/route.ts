@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, getCurrentUser } from '@/app/lib/middleware/auth-middleware'
+import { AccountService } from '@/app/lib/services/account'
+import { AccountValidationError } from '@/app/lib/models/account'
+
+// POST - Send a verification link to a new email address
+export async function POST(request: NextRequest) {
+  const authError = await requireAuth(request)
+  if (authError) return authError
+
+  try {
+    const { email, password } = await request.json()
+    const { pendingEmail, emailSent } = await AccountService.requestEmailChange(getCurrentUser(request)!.id, email, password)
+
+    return NextResponse.json({
+      pendingEmail,
+      message: emailSent
+        ? `We sent a link to ${pendingEmail}; use it to confirm the change`
+        : 'The verification email could not be sent; please try again'
+    })
+
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error requesting email change:', error)
+    return NextResponse.json(
+      { error: 'Failed to change email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, getCurrentUser } from '@/app/lib/middleware/auth-middleware'
+import { AccountService } from '@/app/lib/services/account'
+import { AccountValidationError } from '@/app/lib/models/account'
+
+// PUT - Change the password, given the current one; every session is signed out
+export async function PUT(request: NextRequest) {
+  const authError = await requireAuth(request)
+  if (authError) return authError
+
+  try {
+    const { currentPassword, newPassword } = await request.json()
+
+    await AccountService.changePassword(getCurrentUser(request)!.id, currentPassword, newPassword)
+
+    return NextResponse.json({
+      message: 'Password changed; please sign in again'
+    })
+
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error changing password:', error)
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, getCurrentUser } from '@/app/lib/middleware/auth-middleware'
+import { AccountService } from '@/app/lib/services/account'
+import { AccountValidationError } from '@/app/lib/models/account'
+import { UserValidationError } from '@/app/lib/models/user'
+
+// GET - The signed-in user's profile
+export async function GET(request: NextRequest) {
+  const authError = await requireAuth(request)
+  if (authError) return authError
+
+  try {
+    const profile = await AccountService.getProfile(getCurrentUser(request)!.id)
+
+    return NextResponse.json({ profile })
+
+  } catch (error) {
+    console.error('Error fetching profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Change the signed-in user's name or phone number
+export async function PATCH(request: NextRequest) {
+  const authError = await requireAuth(request)
+  if (authError) return authError
+
+  try {
+    const { name, phone } = await request.json()
+
+    if (name !== undefined && typeof name !== 'string') {
+      return NextResponse.json(
+        { error: 'Name must be text' },
+        { status: 400 }
+      )
+    }
+
+    if (phone !== undefined && phone !== null && typeof phone !== 'string') {
+      return NextResponse.json(
+        { error: 'Phone number must be text' },
+        { status: 400 }
+      )
+    }
+
+    const profile = await AccountService.updateProfile(getCurrentUser(request)!.id, { name, phone })
+
+    return NextResponse.json({
+      profile,
+      message: 'Profile updated'
+    })
+
+  } catch (error) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete the signed-in user's account, keeping its bookings and payments anonymised
+export async function DELETE(request: NextRequest) {
+  const authError = await requireAuth(request)
+  if (authError) return authError
+
+  try {
+    const { password } = await request.json()
+
+    await AccountService.deleteAccount(getCurrentUser(request)!.id, password)
+
+    return NextResponse.json({
+      message: 'Your account has been deleted'
+    })
+
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting account:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete account' },
+      { status: 500 }
+    )
+  }
+}
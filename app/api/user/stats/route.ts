@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/lib/auth'
 import { prisma } from '@/app/lib/prisma'
 import { BookingStatus } from '@prisma/client'
+import { Money } from '@/app/lib/models/money'
+import { BOOKED_STATUSES } from '@/app/lib/models/booking'
 
 export async function GET() {
   try {
@@ -34,7 +36,7 @@ export async function GET() {
       prisma.booking.count({
         where: { 
           userId,
-          status: BookingStatus.CONFIRMED
+          status: { in: BOOKED_STATUSES }
         }
       }),
       
@@ -46,22 +48,24 @@ export async function GET() {
         }
       }),
       
-      // Total amount spent (confirmed bookings only)
-      prisma.booking.aggregate({
+      // Total amount spent per currency (confirmed bookings and those that have run)
+      prisma.booking.groupBy({
+        by: ['currency'],
         where: { 
           userId,
-          status: BookingStatus.CONFIRMED
+          status: { in: BOOKED_STATUSES }
         },
         _sum: {
           totalPrice: true
-        }
+        },
+        orderBy: { currency: 'asc' }
       }),
       
       // Upcoming tours count (confirmed bookings with future dates)
       prisma.booking.count({
         where: {
           userId,
-          status: BookingStatus.CONFIRMED,
+          status: { in: BOOKED_STATUSES },
           availability: {
             startDate: {
               gte: new Date()
@@ -75,7 +79,7 @@ export async function GET() {
       totalBookings,
       confirmedBookings,
       pendingBookings,
-      totalSpent: totalSpentResult._sum?.totalPrice || 0,
+      totalSpent: totalSpentResult.map(spent => Money.of(spent._sum.totalPrice ?? 0, spent.currency)),
       upcomingTours
     }
 
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { WaitlistService } from '@/app/lib/services/waitlist';
+import { WaitlistValidationError } from '@/app/lib/models';
+
+// DELETE /api/waitlist/[id] - Leave a waitlist or turn down its offer
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await WaitlistService.leaveWaitlist(id, session.user.id);
+
+    return NextResponse.json({ message: 'You have left the waitlist' });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+
+    if (error instanceof WaitlistValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Waitlist entry not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Waitlist entry was modified concurrently, please retry') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to leave waitlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist/[id] - Email a new link to claim the seats held for an offer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await WaitlistService.resendOffer(id, session.user.id);
+
+    return NextResponse.json({ message: 'A new claim link is on its way to your email' });
+  } catch (error) {
+    console.error('Error resending waitlist offer:', error);
+
+    if (error instanceof WaitlistValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Waitlist entry not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to resend the claim link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { BookingService } from '@/app/lib/services/booking';
+import { WaitlistService } from '@/app/lib/services/waitlist';
+import {
+  ExchangeRateValidationError,
+  PricingRuleValidationError,
+  TravelerValidationError,
+  TravelerValidator,
+  WaitlistValidationError,
+  minorUnitsAsNumbers,
+} from '@/app/lib/models';
+
+function errorResponse(error: unknown) {
+  if (error instanceof WaitlistValidationError ||
+      error instanceof ExchangeRateValidationError ||
+      error instanceof PricingRuleValidationError ||
+      error instanceof TravelerValidationError ||
+      (error instanceof Error && error.message.startsWith('No exchange rate from'))) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && error.message === 'Waitlist offer not found') {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 404 }
+    );
+  }
+
+  return null;
+}
+
+// GET /api/waitlist/claim?token= - Get the waitlist offer a claim link is for
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const offer = await WaitlistService.findOffer(searchParams.get('token') ?? '');
+
+    if (offer.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'This offer was made to another customer' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      offer: {
+        id: offer.id,
+        tour: offer.tour,
+        availability: offer.availability,
+        travelersCount: offer.travelersCount,
+        childrenCount: offer.childrenCount,
+        seniorsCount: offer.seniorsCount,
+        offerExpiresAt: offer.offerExpiresAt
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching waitlist offer:', error);
+
+    const response = errorResponse(error);
+    if (response) return response;
+
+    return NextResponse.json(
+      { error: 'Failed to fetch waitlist offer' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist/claim - Turn a waitlist offer into a booking on the seats held for it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { token, currency, travelers } = body;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing required field: token' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(travelers)) {
+      return NextResponse.json(
+        { error: 'Traveler details are required for every traveler' },
+        { status: 400 }
+      );
+    }
+
+    const offer = await WaitlistService.findOffer(token);
+
+    if (offer.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'This offer was made to another customer' },
+        { status: 403 }
+      );
+    }
+
+    // The booking is for exactly the group the seats were held for
+    const booking = await BookingService.createBooking({
+      userId: session.user.id,
+      tourId: offer.tourId,
+      availabilityId: offer.availabilityId,
+      travelersCount: offer.travelersCount,
+      childrenCount: offer.childrenCount,
+      seniorsCount: offer.seniorsCount,
+      currency,
+      travelers: travelers.map(TravelerValidator.fromRequest),
+      waitlistEntryId: offer.id
+    });
+
+    return NextResponse.json(minorUnitsAsNumbers(booking), { status: 201 });
+  } catch (error) {
+    console.error('Error claiming waitlist offer:', error);
+
+    const response = errorResponse(error);
+    if (response) return response;
+
+    return NextResponse.json(
+      { error: 'Failed to claim waitlist offer' },
+      { status: 500 }
+    );
+  }
+}
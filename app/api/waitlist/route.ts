@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { WaitlistService } from '@/app/lib/services/waitlist';
+import { PricingRuleValidationError, WaitlistValidationError } from '@/app/lib/models';
+
+// GET /api/waitlist - Get the user's waitlist entries, optionally for one tour
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entries = await WaitlistService.listEntries(session.user.id, searchParams.get('tourId') || undefined);
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching waitlist entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch waitlist entries' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist - Join the waitlist of a full departure
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { availabilityId, travelersCount, childrenCount, seniorsCount } = body;
+
+    if (!availabilityId || !travelersCount) {
+      return NextResponse.json(
+        { error: 'Missing required fields: availabilityId, travelersCount' },
+        { status: 400 }
+      );
+    }
+
+    const waitlisted = await WaitlistService.joinWaitlist({
+      userId: session.user.id,
+      availabilityId,
+      travelersCount: Number(travelersCount),
+      childrenCount: Number(childrenCount ?? 0),
+      seniorsCount: Number(seniorsCount ?? 0)
+    });
+
+    return NextResponse.json(waitlisted, { status: 201 });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+
+    if (error instanceof WaitlistValidationError || error instanceof PricingRuleValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Tour availability not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to join waitlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -15,6 +15,8 @@ function ResetPasswordForm() {
   
   const router = useRouter()
   const searchParams = useSearchParams()
+  // Staff invites use the same links to choose a first password
+  const isInvite = searchParams.get('invite') === '1'
 
   useEffect(() => {
     const tokenParam = searchParams.get('token')
@@ -94,10 +96,10 @@ function ResetPasswordForm() {
               <CheckIcon className="h-6 w-6 text-green-600" />
             </div>
             <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
-              Password reset successful
+              {isInvite ? 'Password set' : 'Password reset successful'}
             </h2>
             <p className="mt-2 text-sm text-gray-600">
-              Your password has been reset successfully. You will be redirected to the sign in page in a few seconds.
+              Your password has been {isInvite ? 'set' : 'reset successfully'}. You will be redirected to the sign in page in a few seconds.
             </p>
             <div className="mt-6">
               <Link
@@ -118,10 +120,10 @@ function ResetPasswordForm() {
       <div className="max-w-md w-full space-y-8">
         <div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Reset your password
+            {isInvite ? 'Set your password' : 'Reset your password'}
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Enter your new password below
+            {isInvite ? 'Choose a password to finish setting up your account' : 'Enter your new password below'}
           </p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
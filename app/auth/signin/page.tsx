@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { signIn, getSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { PermissionRules } from '@/app/lib/models/permission'
 
 export default function SignIn() {
   const [email, setEmail] = useState('')
@@ -25,11 +26,12 @@ export default function SignIn() {
       })
 
       if (result?.error) {
-        setError('Invalid email or password')
+        // Wrong credentials come back as CredentialsSignin; a suspended account says so
+        setError(result.error === 'CredentialsSignin' ? 'Invalid email or password' : result.error)
       } else {
         // Get session to check user role
         const session = await getSession()
-        if (session?.user?.role === 'ADMIN') {
+        if (PermissionRules.hasAdminAccess(session?.user?.role)) {
           router.push('/admin/dashboard')
         } else {
           router.push('/dashboard')
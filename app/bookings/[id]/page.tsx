@@ -4,12 +4,36 @@ import { useState, useEffect, useCallback } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import Link from 'next/link'
+import BookingTimeline from '@/components/BookingTimeline'
+import BookingChangePanel from '@/components/BookingChangePanel'
+import { Money } from '@/app/lib/models/money'
 
 interface Booking {
   id: string
+  availabilityId: string
   travelersCount: number
+  childrenCount: number
+  seniorsCount: number
+  priceLines: Array<{
+    travelerType: 'ADULT' | 'CHILD' | 'SENIOR'
+    count: number
+    unitPrice: number
+  }>
+  subtotalPrice: number
+  discountAmount: number
   totalPrice: number
-  status: 'pending' | 'confirmed' | 'cancelled'
+  currency: string
+  baseCurrency: string
+  exchangeRate: number
+  status: 'pending' | 'confirmed' | 'cancelled' | 'expired' | 'completed' | 'no_show' | 'refunded'
+  holdExpiresAt?: string | null
+  promoCode?: {
+    code: string
+  } | null
+  refundAmount?: number | null
+  paidAmount: number
+  balanceDue: number // Left to pay after a change raised the price of a paid booking
+  modificationCutoffDays: number
   createdAt: string
   tour: {
     id: string
@@ -25,6 +49,14 @@ interface Booking {
     startDate: string
     endDate: string
   }
+  travelers: Array<{
+    travelerType: 'ADULT' | 'CHILD' | 'SENIOR'
+    firstName: string
+    lastName: string
+    dateOfBirth: string
+    passportNumber: string | null // Masked
+    dietaryRequirements: string | null
+  }>
   payment?: {
     id: string
     status: 'pending' | 'success' | 'failed'
@@ -44,6 +76,7 @@ export default function BookingDetailPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [paymentLoading, setPaymentLoading] = useState(false)
+  const [changing, setChanging] = useState(false)
 
   const fetchBookingDetails = useCallback(async () => {
     try {
@@ -51,7 +84,13 @@ export default function BookingDetailPage() {
       if (!response.ok) throw new Error('Booking not found')
       
       const data = await response.json()
-      setBooking(data.booking)
+      // Statuses come in upper case; the most recent payment is the one shown
+      const latestPayment = data.payments?.[0]
+      setBooking({
+        ...data,
+        status: data.status.toLowerCase(),
+        payment: latestPayment ? { ...latestPayment, status: latestPayment.status.toLowerCase() } : undefined
+      })
     } catch (err) {
       setError('Failed to load booking details')
       console.error(err)
@@ -83,8 +122,10 @@ export default function BookingDetailPage() {
         },
         body: JSON.stringify({
           bookingId: booking.id,
-          amount: booking.totalPrice,
-          method: 'card' // Default to card payment
+          amount: booking.status === 'confirmed' ? booking.balanceDue : booking.totalPrice,
+          currency: booking.currency,
+          method: 'CARD', // Default to card payment
+          provider: process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'SANDBOX'
         })
       })
 
@@ -94,12 +135,13 @@ export default function BookingDetailPage() {
       }
 
       const data = await response.json()
-      console.log('Payment initiated:', data)
-      
-      // In a real implementation, you would redirect to the payment provider
-      // For now, we'll simulate a successful payment
-      alert('Payment initiated successfully! In a real app, you would be redirected to the payment provider.')
-      
+
+      // Send the customer to the provider's hosted checkout
+      if (data.paymentUrl) {
+        window.location.href = data.paymentUrl
+        return
+      }
+
       // Refresh booking details
       fetchBookingDetails()
     } catch (err) {
@@ -110,9 +152,20 @@ export default function BookingDetailPage() {
   }
 
   const handleCancelBooking = async () => {
-    if (!booking || !confirm('Are you sure you want to cancel this booking?')) return
+    if (!booking) return
 
     try {
+      // Show what the cancellation policy refunds before the customer commits
+      const quoteResponse = await fetch(`/api/bookings/${booking.id}/cancellation`)
+      if (!quoteResponse.ok) throw new Error('Failed to quote cancellation')
+      const { quote } = await quoteResponse.json()
+
+      const refundMessage = quote.paidAmount > 0
+        ? `You will be refunded ${Money.of(quote.refundAmount, quote.currency).format()} (${quote.refundPercent}% of ${Money.of(quote.paidAmount, quote.currency).format()} paid).`
+        : 'No payment has been made for this booking.'
+
+      if (!confirm(`${refundMessage}\n\nAre you sure you want to cancel this booking?`)) return
+
       const response = await fetch(`/api/bookings/${booking.id}`, {
         method: 'PATCH',
         headers: {
@@ -182,6 +235,11 @@ export default function BookingDetailPage() {
     )
   }
 
+  const travelerLabels = { ADULT: 'Adults', CHILD: 'Children', SENIOR: 'Seniors' }
+
+  // Per-person price at the rate locked in when the booking was made, for bookings made before per-traveler prices were kept
+  const unitPrice = Money.of(booking.tour.pricePerPerson, booking.baseCurrency).convert(booking.exchangeRate, booking.currency)
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -235,6 +293,11 @@ export default function BookingDetailPage() {
                   <p className="mt-1 text-sm text-yellow-700">
                     Your booking is pending payment. Complete your payment to confirm your booking.
                   </p>
+                  {booking.holdExpiresAt && (
+                    <p className="mt-1 text-sm text-yellow-700">
+                      Your seats are held until {new Date(booking.holdExpiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -253,6 +316,11 @@ export default function BookingDetailPage() {
                   <p className="mt-1 text-sm text-green-700">
                     Your booking is confirmed! You&apos;ll receive a reminder email before your tour date.
                   </p>
+                  {booking.balanceDue > 0 && (
+                    <p className="mt-1 text-sm text-green-700">
+                      After your change, {Money.of(booking.balanceDue, booking.currency).format()} is left to pay.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -275,7 +343,7 @@ export default function BookingDetailPage() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Price per person:</span>
-                  <span className="font-medium">${booking.tour.pricePerPerson}</span>
+                  <span className="font-medium">{unitPrice.format()}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Number of travelers:</span>
@@ -303,11 +371,45 @@ export default function BookingDetailPage() {
                   <span>Booking Date:</span>
                   <span>{formatDate(booking.createdAt)}</span>
                 </div>
+                {booking.refundAmount !== null && booking.refundAmount !== undefined && (
+                  <div className="flex justify-between mt-1">
+                    <span>Refund Due:</span>
+                    <span>{Money.of(booking.refundAmount, booking.currency).format()}</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Travelers */}
+        {booking.travelers?.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Travelers</h2>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {booking.travelers.map((traveler, index) => (
+                <li key={index} className="py-2 flex flex-wrap justify-between gap-2">
+                  <span className="font-medium text-gray-900">
+                    {traveler.firstName} {traveler.lastName}
+                    <span className="ml-2 text-gray-500 font-normal">{traveler.travelerType.toLowerCase()}</span>
+                  </span>
+                  <span className="text-gray-600">
+                    Born {formatDate(traveler.dateOfBirth)}
+                    {traveler.passportNumber && <> · Passport {traveler.passportNumber}</>}
+                    {traveler.dietaryRequirements && <> · {traveler.dietaryRequirements}</>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Booking History */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Booking History</h2>
+          <BookingTimeline bookingId={booking.id} />
+        </div>
+
         {/* Payment Information */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Payment Information</h2>
@@ -315,15 +417,44 @@ export default function BookingDetailPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Subtotal:</span>
-                  <span className="font-medium">${booking.tour.pricePerPerson} × {booking.travelersCount}</span>
-                </div>
+                {booking.priceLines?.length > 0 ? (
+                  booking.priceLines.map((line) => (
+                    <div key={line.travelerType} className="flex justify-between">
+                      <span className="text-gray-600">{travelerLabels[line.travelerType]}:</span>
+                      <span className="font-medium">
+                        {Money.of(line.unitPrice, booking.currency).format()} × {line.count}
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Subtotal:</span>
+                    <span className="font-medium">{unitPrice.format()} × {booking.travelersCount}</span>
+                  </div>
+                )}
+                {booking.baseCurrency !== booking.currency && (
+                  <div className="flex justify-between text-sm text-gray-500">
+                    <span>Exchange rate:</span>
+                    <span>1 {booking.baseCurrency} = {booking.exchangeRate.toFixed(4)} {booking.currency}</span>
+                  </div>
+                )}
+                {booking.discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount{booking.promoCode ? ` (${booking.promoCode.code})` : ''}:</span>
+                    <span className="font-medium">−{Money.of(booking.discountAmount, booking.currency).format()}</span>
+                  </div>
+                )}
                 <div className="border-t border-gray-200 pt-2">
                   <div className="flex justify-between">
                     <span className="text-lg font-bold">Total Amount:</span>
-                    <span className="text-lg font-bold text-primary">${booking.totalPrice}</span>
+                    <span className="text-lg font-bold text-primary">{Money.of(booking.totalPrice, booking.currency).format()}</span>
                   </div>
+                  {booking.balanceDue > 0 && (
+                    <div className="flex justify-between text-sm text-yellow-700 mt-1">
+                      <span>Balance due:</span>
+                      <span className="font-medium">{Money.of(booking.balanceDue, booking.currency).format()}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -337,7 +468,7 @@ export default function BookingDetailPage() {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Amount:</span>
-                    <span className="font-medium">${booking.payment.amount}</span>
+                    <span className="font-medium">{Money.of(booking.payment.amount, booking.currency).format()}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Status:</span>
@@ -361,11 +492,51 @@ export default function BookingDetailPage() {
           </div>
         </div>
 
+        {/* Change Booking */}
+        {changing && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Change Booking</h2>
+            <BookingChangePanel
+              bookingId={booking.id}
+              tourId={booking.tour.id}
+              availabilityId={booking.availabilityId}
+              travelersCount={booking.travelersCount}
+              childrenCount={booking.childrenCount}
+              seniorsCount={booking.seniorsCount}
+              hasTravelerDetails={booking.travelers?.length > 0}
+              cutoffDays={booking.modificationCutoffDays}
+              onChanged={() => {
+                setChanging(false)
+                fetchBookingDetails()
+              }}
+            />
+          </div>
+        )}
+
         {/* Actions */}
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Actions</h2>
           
           <div className="flex flex-col sm:flex-row gap-4">
+            {booking.status === 'confirmed' && booking.balanceDue > 0 && (
+              <button
+                onClick={handlePayment}
+                disabled={paymentLoading}
+                className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-6 py-3 rounded-md font-medium"
+              >
+                {paymentLoading ? 'Processing...' : 'Pay Balance'}
+              </button>
+            )}
+
+            {(booking.status === 'pending' || booking.status === 'confirmed') && (
+              <button
+                onClick={() => setChanging(!changing)}
+                className="border border-primary text-primary hover:bg-primary/5 px-6 py-3 rounded-md font-medium"
+              >
+                {changing ? 'Keep Booking As Is' : 'Change Booking'}
+              </button>
+            )}
+
             {booking.status === 'pending' && !booking.payment && (
               <button
                 onClick={handlePayment}
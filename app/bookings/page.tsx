@@ -4,11 +4,13 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { Money } from '@/app/lib/models/money'
 
 interface Booking {
   id: string
   travelersCount: number
   totalPrice: number
+  currency: string
   status: 'pending' | 'confirmed' | 'cancelled'
   createdAt: string
   tour: {
@@ -214,7 +216,7 @@ export default function BookingsPage() {
                       <div>
                         <span className="font-medium">Total Price:</span>
                         <br />
-                        <span className="text-lg font-bold text-primary">${booking.totalPrice}</span>
+                        <span className="text-lg font-bold text-primary">{Money.of(booking.totalPrice, booking.currency).format()}</span>
                       </div>
                       <div>
                         <span className="font-medium">Booked:</span>
@@ -4,12 +4,15 @@ import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import NotificationBell from '@/components/NotificationBell'
+import { Money } from '@/app/lib/models/money'
+import { PermissionRules } from '@/app/lib/models/permission'
 
 interface DashboardStats {
   totalBookings: number
   confirmedBookings: number
   pendingBookings: number
-  totalSpent: number
+  totalSpent: Array<{ amount: number; currency: string }>
   upcomingTours: number
 }
 
@@ -27,6 +30,7 @@ interface RecentBooking {
   }
   status: string
   totalPrice: number
+  currency: string
 }
 
 export default function Dashboard() {
@@ -114,11 +118,12 @@ export default function Dashboard() {
               <Link href="/bookings" className="text-gray-700 hover:text-gray-900">
                 My Bookings
               </Link>
-              {session.user?.role === 'ADMIN' && (
+              {PermissionRules.hasAdminAccess(session.user?.role) && (
                 <Link href="/admin" className="text-gray-700 hover:text-gray-900">
                   Admin
                 </Link>
               )}
+              <NotificationBell />
               <span className="text-gray-700">
                 Welcome, {session.user?.name}
               </span>
@@ -200,7 +205,11 @@ export default function Dashboard() {
                   </div>
                   <div className="ml-4">
                     <p className="text-sm font-medium text-gray-500">Total Spent</p>
-                    <p className="text-2xl font-semibold text-gray-900">${stats.totalSpent}</p>
+                    <p className="text-2xl font-semibold text-gray-900">
+                      {stats.totalSpent.length > 0
+                        ? stats.totalSpent.map((spent) => Money.of(spent.amount, spent.currency).format()).join(' + ')
+                        : Money.zero('USD').format()}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -243,7 +252,10 @@ export default function Dashboard() {
               </div>
             </Link>
 
-            <div className="bg-white p-6 rounded-lg shadow">
+            <Link
+              href="/profile"
+              className="bg-white p-6 rounded-lg shadow hover:shadow-md transition-shadow"
+            >
               <div className="flex items-center">
                 <div className="shrink-0">
                   <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
@@ -255,7 +267,7 @@ export default function Dashboard() {
                   <p className="text-gray-600">Update your account information</p>
                 </div>
               </div>
-            </div>
+            </Link>
           </div>
 
           {/* Recent Bookings */}
@@ -310,7 +322,7 @@ export default function Dashboard() {
                               Tour Date: {formatDate(booking.availability.startDate)}
                             </p>
                             <p className="text-lg font-semibold text-primary">
-                              ${booking.totalPrice}
+                              {Money.of(booking.totalPrice, booking.currency).format()}
                             </p>
                           </div>
                         </div>
@@ -322,10 +334,10 @@ export default function Dashboard() {
             </div>
           </div>
 
-          {session.user?.role === 'ADMIN' && (
+          {PermissionRules.hasAdminAccess(session.user?.role) && (
             <div className="mt-8 p-4 bg-primary/5 rounded-lg">
               <h3 className="text-lg font-medium text-primary mb-2">Admin Features</h3>
-              <p className="text-gray-700 mb-4">You have admin access to manage tours, bookings, and users.</p>
+              <p className="text-gray-700 mb-4">You have access to the admin area for the parts of the business your role manages.</p>
               <Link
                 href="/admin"
                 className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium"
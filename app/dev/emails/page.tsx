@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface CapturedEmailSummary {
+  id: string
+  from: string
+  to: string
+  subject: string
+  capturedAt: string
+}
+
+interface CapturedEmail extends CapturedEmailSummary {
+  messageId: string
+  html: string
+  text: string
+}
+
+const formatTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+export default function CapturedEmailsPage() {
+  const [emails, setEmails] = useState<CapturedEmailSummary[]>([])
+  const [selected, setSelected] = useState<CapturedEmail | null>(null)
+  const [view, setView] = useState<'html' | 'text'>('html')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dev/emails')
+      if (!response.ok) throw new Error('Captured emails are only available in development')
+
+      const data = await response.json()
+      setEmails(data.emails)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load captured emails')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEmails()
+  }, [fetchEmails])
+
+  const handleSelect = async (id: string) => {
+    try {
+      const response = await fetch(`/api/dev/emails/${id}`)
+      if (!response.ok) throw new Error('Email not found')
+
+      const data = await response.json()
+      setSelected(data.email)
+    } catch (err) {
+      console.error(err)
+      setSelected(null)
+    }
+  }
+
+  const handleClear = async () => {
+    if (!confirm('Forget every captured email?')) return
+
+    try {
+      await fetch('/api/dev/emails', { method: 'DELETE' })
+      setSelected(null)
+      fetchEmails()
+    } catch (err) {
+      console.error(err)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Captured Emails</h1>
+              <p className="text-xs text-gray-500">Sent by the capture transport; nothing here reached a real inbox</p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={fetchEmails}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Refresh
+              </button>
+              <button
+                onClick={handleClear}
+                disabled={emails.length === 0}
+                className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error ? (
+          <p className="text-center py-12 text-red-600">{error}</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <ul className="bg-white rounded-lg shadow divide-y divide-gray-100 lg:col-span-1 max-h-[75vh] overflow-y-auto">
+              {emails.length === 0 ? (
+                <li className="px-4 py-6 text-sm text-center text-gray-500">No emails captured yet</li>
+              ) : emails.map((email) => (
+                <li key={email.id}>
+                  <button
+                    onClick={() => handleSelect(email.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selected?.id === email.id ? 'bg-primary/5' : ''}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900 truncate">{email.subject}</p>
+                    <p className="text-xs text-gray-500 truncate">To {email.to}</p>
+                    <p className="text-xs text-gray-400">{formatTime(email.capturedAt)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="bg-white rounded-lg shadow lg:col-span-2">
+              {!selected ? (
+                <p className="px-6 py-12 text-sm text-center text-gray-500">Select an email to read it</p>
+              ) : (
+                <div>
+                  <div className="px-6 py-4 border-b border-gray-100 text-sm space-y-1">
+                    <p className="text-lg font-semibold text-gray-900">{selected.subject}</p>
+                    <p className="text-gray-600"><span className="font-medium">From:</span> {selected.from}</p>
+                    <p className="text-gray-600"><span className="font-medium">To:</span> {selected.to}</p>
+                    <p className="text-gray-400 text-xs">{selected.messageId}</p>
+                    <div className="flex gap-2 pt-2">
+                      {(['html', 'text'] as const).map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => setView(option)}
+                          className={`px-3 py-1 rounded-md text-xs font-medium ${view === option ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}
+                        >
+                          {option === 'html' ? 'HTML' : 'Plain text'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {view === 'html' ? (
+                    <iframe
+                      title="Email HTML"
+                      sandbox=""
+                      srcDoc={selected.html}
+                      className="w-full h-[60vh]"
+                    />
+                  ) : (
+                    <pre className="px-6 py-4 text-sm text-gray-800 whitespace-pre-wrap">{selected.text}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
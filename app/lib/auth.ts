@@ -1,8 +1,23 @@
 import { NextAuthOptions } from 'next-auth'
+import { JWT } from 'next-auth/jwt'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import GoogleProvider from 'next-auth/providers/google'
 import bcrypt from 'bcryptjs'
 import { prisma } from './prisma'
+import { AccountSuspendedError } from './models/user'
+
+// The account a session belongs to. Sessions from before they carried the user id are
+// matched by email.
+async function findSessionAccount(token: JWT) {
+  if (!token.userId && !token.email) {
+    return null
+  }
+
+  return await prisma.user.findUnique({
+    where: token.userId ? { id: token.userId } : { email: token.email!.toLowerCase() },
+    select: { id: true, sessionVersion: true }
+  })
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -37,6 +52,11 @@ export const authOptions: NextAuthOptions = {
             return null
           }
 
+          // Only after the password matches, so the message tells nothing to anyone else
+          if (user.suspendedAt) {
+            throw new AccountSuspendedError()
+          }
+
           return {
             id: user.id,
             email: user.email,
@@ -44,6 +64,10 @@ export const authOptions: NextAuthOptions = {
             role: user.role
           }
         } catch (error) {
+          if (error instanceof AccountSuspendedError) {
+            throw error // Shown on the sign-in page
+          }
+
           console.error('Authentication error:', error)
           return null
         }
@@ -60,13 +84,25 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     async jwt({ token, user }) {
       if (user) {
+        const account = await findSessionAccount({ email: token.email })
         token.role = user.role
+        token.userId = account?.id
+        token.sessionVersion = account?.sessionVersion ?? 0
+        return token
+      }
+
+      // A password reset or change, email change, suspension or role change raises the user's
+      // version, ending every session started before it; so does deleting the account
+      const account = await findSessionAccount(token)
+      if (!account || account.sessionVersion !== (token.sessionVersion ?? 0)) {
+        throw new Error('Session has been revoked')
       }
+
       return token
     },
     async session({ session, token }) {
       if (token) {
-        session.user.id = token.sub!
+        session.user.id = token.userId ?? token.sub!
         session.user.role = token.role as string
       }
       return session
@@ -79,6 +115,10 @@ export const authOptions: NextAuthOptions = {
             where: { email: user.email! }
           })
 
+          if (existingUser?.suspendedAt) {
+            return false
+          }
+
           if (!existingUser) {
             // Create new user for Google OAuth
             await prisma.user.create({
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/lib/auth'
 import { prisma } from '@/app/lib/prisma'
 import { UserRole } from '@prisma/client'
+import { Permission, PermissionRules } from '@/app/lib/models/permission'
+import { AuditContext } from '@/app/lib/models/audit-log'
+import { extractRequestContext } from '@/app/lib/utils/error-logger'
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: {
@@ -36,7 +39,8 @@ export async function requireAuth(request: NextRequest): Promise<NextResponse |
       select: {
         id: true,
         email: true,
-        role: true
+        role: true,
+        suspendedAt: true
       }
     })
     
@@ -51,8 +55,19 @@ export async function requireAuth(request: NextRequest): Promise<NextResponse |
       )
     }
     
+    if (user.suspendedAt) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'This account has been suspended',
+          code: 'ACCOUNT_SUSPENDED'
+        },
+        { status: 403 }
+      )
+    }
+    
     // Attach user to request for downstream handlers
-    ;(request as AuthenticatedRequest).user = user
+    ;(request as AuthenticatedRequest).user = { id: user.id, email: user.email, role: user.role }
     
     return null // Continue to next handler
   } catch (error) {
@@ -69,9 +84,9 @@ export async function requireAuth(request: NextRequest): Promise<NextResponse |
 }
 
 /**
- * Middleware to require admin role
+ * Middleware to require a permission, granted by the user's role
  */
-export async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+export async function requirePermission(request: NextRequest, permission: Permission): Promise<NextResponse | null> {
   try {
     // First check authentication
     const authResult = await requireAuth(request)
@@ -81,12 +96,12 @@ export async function requireAdmin(request: NextRequest): Promise<NextResponse |
     
     const user = (request as AuthenticatedRequest).user
     
-    if (!user || user.role !== UserRole.ADMIN) {
+    if (!user || !PermissionRules.can(user.role, permission)) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Admin access required',
-          code: 'ADMIN_REQUIRED'
+          error: `You do not have permission to do this (${permission})`,
+          code: 'PERMISSION_REQUIRED'
         },
         { status: 403 }
       )
@@ -94,7 +109,7 @@ export async function requireAdmin(request: NextRequest): Promise<NextResponse |
     
     return null // Continue to next handler
   } catch (error) {
-    console.error('Admin middleware error:', error)
+    console.error('Permission middleware error:', error)
     return NextResponse.json(
       { 
         success: false, 
@@ -157,4 +172,18 @@ export async function allowGuest(request: NextRequest): Promise<NextResponse | n
  */
 export function getCurrentUser(request: NextRequest) {
   return (request as AuthenticatedRequest).user
+}
+
+/**
+ * Who is making an authenticated request and from where, for the audit log
+ */
+export function getAuditContext(request: NextRequest): AuditContext {
+  const user = getCurrentUser(request)!
+  const { ip, userAgent } = extractRequestContext(request)
+
+  return {
+    actor: { id: user.id, email: user.email },
+    ipAddress: ip,
+    userAgent
+  }
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Middleware for endpoints called by a cron job: the request must carry CRON_SECRET as a
+ * bearer token. Without a configured secret every request is refused, so a deployment that
+ * forgets to set one cannot be driven by anyone who guesses a default.
+ */
+export function requireCronSecret(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    console.error('CRON_SECRET is not set; refusing cron request')
+    return NextResponse.json(
+      { error: 'Cron endpoints are not configured' },
+      { status: 500 }
+    )
+  }
+
+  const given = Buffer.from(request.headers.get('authorization') ?? '')
+  const expected = Buffer.from(`Bearer ${secret}`)
+
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,108 @@
+import type { EmailChangeToken as PrismaEmailChangeToken, User } from '@prisma/client';
+import { PASSWORD_MIN_LENGTH } from './password-reset';
+
+export type EmailChangeToken = PrismaEmailChangeToken;
+
+// How long the link sent to a new email address works
+export const EMAIL_CHANGE_TOKEN_HOURS = 24;
+
+// What a deleted account is shown as on the bookings it keeps
+export const DELETED_USER_NAME = 'Deleted user';
+
+// What the travelers on a deleted account's bookings are left as; the columns are required
+export const DELETED_TRAVELER = {
+  firstName: 'Deleted',
+  lastName: 'traveler',
+  dateOfBirth: new Date('1900-01-01T00:00:00.000Z')
+} as const;
+
+// Stands in for a deleted account's phone number in records kept for staff
+export const DELETED_PHONE = '[deleted]';
+
+// What customers see and edit of their own account
+export type UserProfile = Pick<User, 'id' | 'name' | 'email' | 'phone' | 'role' | 'createdAt'> & {
+  hasPassword: boolean; // False for accounts made by signing in with Google
+  pendingEmail: string | null; // Waiting for the link sent to it to be used
+};
+
+export interface ProfileUpdateData {
+  name?: string;
+  phone?: string | null; // Null or empty removes the number
+}
+
+export class AccountValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountValidationError';
+  }
+}
+
+export class AccountRules {
+  static validateNewEmail(email: unknown, currentEmail: string): string {
+    if (!email || typeof email !== 'string') {
+      throw new AccountValidationError('New email address is required');
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      throw new AccountValidationError('Valid email address is required');
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (normalizedEmail === currentEmail.toLowerCase()) {
+      throw new AccountValidationError('That is already your email address');
+    }
+
+    return normalizedEmail;
+  }
+
+  static validateNewPassword(password: unknown): string {
+    if (!password || typeof password !== 'string') {
+      throw new AccountValidationError('New password is required');
+    }
+
+    if (password.trim().length < PASSWORD_MIN_LENGTH) {
+      throw new AccountValidationError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+    }
+
+    return password;
+  }
+
+  static emailChangeExpiresAt(now: Date): Date {
+    return new Date(now.getTime() + EMAIL_CHANGE_TOKEN_HOURS * 60 * 60 * 1000);
+  }
+
+  /**
+   * The address a deleted account is left with: unique, and on the reserved .invalid domain
+   * so nothing can be sent to it and nobody can register it
+   */
+  static anonymisedEmail(userId: string): string {
+    return `deleted-${userId}@deleted.invalid`;
+  }
+
+  /**
+   * A copy of some text or JSON with every whole-word occurrence of each detail replaced,
+   * ignoring case. Used on records kept after an account is deleted, such as admin alerts
+   * and audit entries, that quote the customer.
+   */
+  static redact<T>(value: T, replacements: [detail: string, replacement: string][]): T {
+    if (typeof value === 'string') {
+      return replacements.reduce((text: string, [detail, replacement]) => {
+        if (!detail) return text;
+        const escaped = detail.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu'), () => replacement);
+      }, value) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, replacements)) as T;
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redact(item, replacements)])
+      ) as T;
+    }
+
+    return value;
+  }
+}
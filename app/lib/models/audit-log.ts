@@ -0,0 +1,168 @@
+import type { AuditLog as PrismaAuditLog } from '@prisma/client';
+
+export type AuditLog = PrismaAuditLog;
+
+// Entries shown on one page of the audit viewer
+export const AUDIT_PAGE_SIZE = 50;
+export const AUDIT_MAX_PAGE_SIZE = 200;
+
+// Most entries one CSV export holds, newest first
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+// Fields every record has that say nothing about what an admin changed
+const UNAUDITED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// Recorded as changed, without the values
+const SENSITIVE_FIELD = /password|token|secret/i;
+
+export type AuditValue = string | number | boolean | null | AuditValue[] | { [key: string]: AuditValue };
+
+export type AuditChanges = Record<string, { before: AuditValue; after: AuditValue }>;
+
+/**
+ * Who made a change and from where
+ */
+export interface AuditContext {
+  actor: { id: string; email: string };
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * One admin change. Before is omitted for something created and after for something
+ * deleted; the fields recorded are those of after, or of before for a deletion.
+ */
+export interface AuditEntry {
+  action: string; // tour.update, booking.cancel, ...
+  entityType: string;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditLogFilters {
+  actor?: string; // Part of the actor's email
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  until?: Date; // Exclusive
+  page: number;
+  limit: number;
+}
+
+export class AuditLogValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditLogValidationError';
+  }
+}
+
+export class AuditRules {
+  /**
+   * The fields that differ between two versions of a record. Dates are compared and kept as
+   * ISO strings, and related records loaded alongside either version are left out.
+   */
+  static diff(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+    const beforeFields = before ? this.snapshot(before) : {};
+    const afterFields = after ? this.snapshot(after) : {};
+    const changes: AuditChanges = {};
+
+    for (const field of Object.keys(after ? afterFields : beforeFields)) {
+      if (UNAUDITED_FIELDS.includes(field)) {
+        continue;
+      }
+
+      const previous = beforeFields[field] ?? null;
+      const next = afterFields[field] ?? null;
+
+      if (JSON.stringify(previous) === JSON.stringify(next)) {
+        continue;
+      }
+
+      changes[field] = SENSITIVE_FIELD.test(field)
+        ? { before: previous === null ? null : '[REDACTED]', after: next === null ? null : '[REDACTED]' }
+        : { before: previous, after: next };
+    }
+
+    return changes;
+  }
+
+  private static snapshot(record: object): Record<string, AuditValue> {
+    // Money columns are read as bigint, which JSON cannot hold
+    const fields: Record<string, AuditValue> = JSON.parse(
+      JSON.stringify(record, (_field, value) => typeof value === 'bigint' ? Number(value) : value)
+    );
+
+    return Object.fromEntries(
+      Object.entries(fields).filter(([field, value]) => !field.startsWith('_') && !this.isRelation(value))
+    );
+  }
+
+  /**
+   * A related record, or a list of them, included by a query rather than a field of the record
+   */
+  private static isRelation(value: AuditValue): boolean {
+    const isRecord = (item: AuditValue) =>
+      typeof item === 'object' && item !== null && !Array.isArray(item) && typeof item.id === 'string';
+
+    return Array.isArray(value) ? value.length > 0 && value.every(isRecord) : isRecord(value);
+  }
+}
+
+export class AuditLogValidator {
+  static validateFilters(query: {
+    actor?: string | null;
+    action?: string | null;
+    entityType?: string | null;
+    entityId?: string | null;
+    from?: string | null;
+    to?: string | null;
+    page?: string | null;
+    limit?: string | null;
+  }): AuditLogFilters {
+    const page = query.page ? parseInt(query.page, 10) : 1;
+    const limit = query.limit ? parseInt(query.limit, 10) : AUDIT_PAGE_SIZE;
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new AuditLogValidationError('Page must be a positive whole number');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_PAGE_SIZE) {
+      throw new AuditLogValidationError(`Limit must be between 1 and ${AUDIT_MAX_PAGE_SIZE}`);
+    }
+
+    const from = query.from ? this.parseDate(query.from, 'From') : undefined;
+    const until = query.to ? this.parseDate(query.to, 'To') : undefined;
+
+    // A date without a time means the whole of that day
+    if (until && query.to && /^\d{4}-\d{2}-\d{2}$/.test(query.to.trim())) {
+      until.setUTCDate(until.getUTCDate() + 1);
+    } else if (until) {
+      until.setTime(until.getTime() + 1);
+    }
+
+    if (from && until && from >= until) {
+      throw new AuditLogValidationError('From must be before to');
+    }
+
+    return {
+      actor: query.actor?.trim() || undefined,
+      action: query.action?.trim() || undefined,
+      entityType: query.entityType?.trim() || undefined,
+      entityId: query.entityId?.trim() || undefined,
+      from,
+      until,
+      page,
+      limit
+    };
+  }
+
+  private static parseDate(value: string, label: string): Date {
+    const date = new Date(value.trim());
+    if (isNaN(date.getTime())) {
+      throw new AuditLogValidationError(`${label} must be a valid date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,130 @@
+import type { BookingStatus, PromoCode } from '@prisma/client';
+import { CancellationPolicy } from './cancellation-policy';
+import { Money } from './money';
+import { PriceLine } from './pricing';
+import { PromoCodeRules } from './promo-code';
+import { TravelerDetails } from './traveler';
+
+// Applied to tours without their own cutoff
+export const DEFAULT_MODIFICATION_CUTOFF_DAYS = 7;
+
+// Bookings that are still going ahead; anything else has to be rebooked
+export const MODIFIABLE_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED'];
+
+export interface ModifyBookingData {
+  availabilityId?: string; // Another departure of the same tour
+  travelersCount?: number;
+  childrenCount?: number;
+  seniorsCount?: number;
+  travelers?: TravelerDetails[]; // Required when the travelers change on a booking that has their details
+}
+
+/**
+ * How a change is settled: the customer pays the difference, gets part of their payment
+ * back, or nothing moves
+ */
+export type ModificationSettlement = 'NONE' | 'PAYMENT_DUE' | 'REFUND_DUE';
+
+// Amounts are in minor units of the booking currency
+export interface ModificationQuote {
+  bookingId: string;
+  currency: string;
+  fromAvailabilityId: string;
+  toAvailabilityId: string;
+  fromTravelersCount: number;
+  toTravelersCount: number;
+  childrenCount: number;
+  seniorsCount: number;
+  lines: PriceLine[];
+  subtotal: number;
+  discount: number;
+  baseTotal: number;
+  previousTotal: number;
+  newTotal: number;
+  priceDifference: number; // New total less the previous total
+  paidAmount: number;
+  balance: number; // Positive when the customer owes more, negative when they are owed a refund
+  settlement: ModificationSettlement;
+}
+
+export class BookingModificationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookingModificationValidationError';
+  }
+}
+
+export class BookingModificationRules {
+  /**
+   * A booking can be changed while it is going ahead and its departure is further away than
+   * the tour's cutoff. The departure it moves to has to be outside the cutoff too.
+   */
+  static assertModifiable(
+    booking: { status: BookingStatus; holdExpiresAt: Date | null },
+    departureStart: Date,
+    cutoffDays: number,
+    now: Date = new Date()
+  ): void {
+    if (!MODIFIABLE_STATUSES.includes(booking.status)) {
+      throw new BookingModificationValidationError(`A ${booking.status.toLowerCase()} booking cannot be changed`);
+    }
+
+    if (booking.status === 'PENDING' && (!booking.holdExpiresAt || booking.holdExpiresAt < now)) {
+      throw new BookingModificationValidationError('The seat hold on this booking has expired; please book again');
+    }
+
+    this.assertOutsideCutoff(departureStart, cutoffDays, now);
+  }
+
+  static assertOutsideCutoff(departureStart: Date, cutoffDays: number, now: Date = new Date()): void {
+    if (CancellationPolicy.daysBeforeStart(departureStart, now) < cutoffDays) {
+      throw new BookingModificationValidationError(
+        `Bookings can only be changed up to ${cutoffDays} days before departure`
+      );
+    }
+  }
+
+  static cutoffDays(tour: { modificationCutoffDays: number | null }): number {
+    return tour.modificationCutoffDays ?? DEFAULT_MODIFICATION_CUTOFF_DAYS;
+  }
+
+  /**
+   * The promo code keeps applying to a changed booking, so long as the group is still big
+   * enough. A percentage is taken of the new subtotal; a fixed amount stays what it was when
+   * booked, up to the new subtotal.
+   */
+  static discount(
+    promoCode: PromoCode | null,
+    previousDiscount: Money,
+    subtotal: Money,
+    travelersCount: number
+  ): Money {
+    if (!promoCode || travelersCount < promoCode.minTravelers) {
+      return Money.zero(subtotal.currency);
+    }
+
+    if (promoCode.discountType === 'PERCENTAGE') {
+      return PromoCodeRules.discount(promoCode, subtotal);
+    }
+
+    return previousDiscount.amount > subtotal.amount ? subtotal : previousDiscount;
+  }
+
+  /**
+   * What is left to settle once the booking costs newTotal. An unpaid booking simply costs
+   * the new amount; a paid one owes or is owed the difference from what was paid.
+   */
+  static settlement(newTotal: number, paidAmount: number, status: BookingStatus): {
+    balance: number;
+    settlement: ModificationSettlement;
+  } {
+    if (status !== 'CONFIRMED') {
+      return { balance: 0, settlement: 'NONE' };
+    }
+
+    const balance = newTotal - paidAmount;
+    if (balance > 0) return { balance, settlement: 'PAYMENT_DUE' };
+    if (balance < 0) return { balance, settlement: 'REFUND_DUE' };
+    return { balance: 0, settlement: 'NONE' };
+  }
+}
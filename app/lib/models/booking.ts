@@ -0,0 +1,77 @@
+import { Booking as PrismaBooking, BookingEvent as PrismaBookingEvent, BookingStatus } from '@prisma/client';
+
+export type Booking = PrismaBooking;
+export type BookingEvent = PrismaBookingEvent;
+
+export interface BookingTransitionOptions {
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+export class BookingTransitionError extends Error {
+  constructor(public from: BookingStatus, public to: BookingStatus) {
+    super(`Booking cannot move from ${from} to ${to}`);
+    this.name = 'BookingTransitionError';
+  }
+}
+
+// Allowed moves out of each status. COMPLETED, NO_SHOW and REFUNDED are final.
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED', 'EXPIRED'],
+  EXPIRED: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['CANCELLED', 'COMPLETED', 'NO_SHOW', 'REFUNDED'],
+  CANCELLED: ['REFUNDED'],
+  COMPLETED: [],
+  NO_SHOW: [],
+  REFUNDED: []
+};
+
+// Bookings that were paid for and kept: confirmed ones, and the final states a confirmed
+// booking reaches once its departure has run. Revenue, reports and review eligibility count these.
+export const BOOKED_STATUSES: BookingStatus[] = ['CONFIRMED', 'COMPLETED', 'NO_SHOW'];
+
+export class BookingStateMachine {
+  static allowedTransitions(from: BookingStatus): BookingStatus[] {
+    return TRANSITIONS[from];
+  }
+
+  static canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  static assertTransition(from: BookingStatus, to: BookingStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new BookingTransitionError(from, to);
+    }
+  }
+
+  /**
+   * Whether a booking in this state has its seats taken out of availableSlots.
+   * Pending bookings only do while they hold their seats.
+   */
+  static takesSeats(booking: Pick<Booking, 'status' | 'holdExpiresAt'>): boolean {
+    if (BOOKED_STATUSES.includes(booking.status)) {
+      return true;
+    }
+    return booking.status === 'PENDING' && booking.holdExpiresAt !== null;
+  }
+
+  /**
+   * Seats to take (positive) or give back (negative) when moving a booking to a new status
+   */
+  static seatDelta(
+    booking: Pick<Booking, 'status' | 'holdExpiresAt' | 'travelersCount'>,
+    to: BookingStatus
+  ): number {
+    const before = this.takesSeats(booking);
+    // Any status other than PENDING clears the hold
+    const after = this.takesSeats({ status: to, holdExpiresAt: null });
+
+    if (before === after) return 0;
+    return after ? booking.travelersCount : -booking.travelersCount;
+  }
+
+  static isStatus(value: string): value is BookingStatus {
+    return Object.prototype.hasOwnProperty.call(TRANSITIONS, value);
+  }
+}
@@ -0,0 +1,125 @@
+import { CancellationPolicyTier as PrismaCancellationPolicyTier } from '@prisma/client';
+
+export type CancellationPolicyTier = PrismaCancellationPolicyTier;
+
+export interface CancellationTier {
+  minDaysBefore: number;
+  refundPercent: number;
+}
+
+// Amounts are in minor units (cents)
+export interface RefundQuote {
+  daysBeforeStart: number;
+  refundPercent: number;
+  paidAmount: number;
+  refundAmount: number;
+  tiers: CancellationTier[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Applied to tours without their own tiers:
+// 100% more than 30 days out, 50% from 7 to 30 days, nothing under 7 days
+export const DEFAULT_CANCELLATION_TIERS: CancellationTier[] = [
+  { minDaysBefore: 31, refundPercent: 100 },
+  { minDaysBefore: 7, refundPercent: 50 },
+  { minDaysBefore: 0, refundPercent: 0 }
+];
+
+export class CancellationPolicyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancellationPolicyValidationError';
+  }
+}
+
+export class CancellationPolicyValidator {
+  static validateTiers(tiers: CancellationTier[]): void {
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      throw new CancellationPolicyValidationError('At least one cancellation tier is required');
+    }
+
+    if (tiers.length > 10) {
+      throw new CancellationPolicyValidationError('A cancellation policy can have at most 10 tiers');
+    }
+
+    tiers.forEach((tier, index) => {
+      if (!Number.isInteger(tier.minDaysBefore) || tier.minDaysBefore < 0 || tier.minDaysBefore > 365) {
+        throw new CancellationPolicyValidationError(`Tier ${index + 1}: days before departure must be an integer between 0 and 365`);
+      }
+      if (!Number.isInteger(tier.refundPercent) || tier.refundPercent < 0 || tier.refundPercent > 100) {
+        throw new CancellationPolicyValidationError(`Tier ${index + 1}: refund percentage must be an integer between 0 and 100`);
+      }
+    });
+
+    const days = tiers.map(tier => tier.minDaysBefore);
+    if (new Set(days).size !== days.length) {
+      throw new CancellationPolicyValidationError('Each tier must start at a different number of days');
+    }
+
+    // Cancelling later must never refund more than cancelling earlier
+    const sorted = CancellationPolicy.sortTiers(tiers);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].refundPercent > sorted[i - 1].refundPercent) {
+        throw new CancellationPolicyValidationError('Refund percentage cannot increase closer to departure');
+      }
+    }
+  }
+
+  static validateOverride(refundAmount: number, paidAmount: number, reason?: string): void {
+    if (!Number.isSafeInteger(refundAmount) || refundAmount < 0) {
+      throw new CancellationPolicyValidationError('Refund amount must be a non-negative whole number of minor units');
+    }
+
+    if (refundAmount > paidAmount) {
+      throw new CancellationPolicyValidationError(`Refund amount cannot exceed the ${paidAmount} minor units paid`);
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      throw new CancellationPolicyValidationError('A reason is required to override the cancellation policy');
+    }
+  }
+}
+
+export class CancellationPolicy {
+  /**
+   * Tiers ordered from furthest to closest to departure
+   */
+  static sortTiers(tiers: CancellationTier[]): CancellationTier[] {
+    return [...tiers].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+  }
+
+  /**
+   * Whole days left between now and the departure (negative once it has started)
+   */
+  static daysBeforeStart(startDate: Date, now: Date = new Date()): number {
+    return Math.floor((startDate.getTime() - now.getTime()) / DAY_MS);
+  }
+
+  /**
+   * Refund percentage of the first tier the cancellation date falls into, 0 if none applies
+   */
+  static refundPercent(tiers: CancellationTier[], daysBeforeStart: number): number {
+    const tier = this.sortTiers(tiers).find(tier => daysBeforeStart >= tier.minDaysBefore);
+    return tier ? tier.refundPercent : 0;
+  }
+
+  static quote(
+    tiers: CancellationTier[],
+    paidAmount: number,
+    startDate: Date,
+    now: Date = new Date()
+  ): RefundQuote {
+    const daysBeforeStart = this.daysBeforeStart(startDate, now);
+    const refundPercent = this.refundPercent(tiers, daysBeforeStart);
+
+    return {
+      daysBeforeStart,
+      refundPercent,
+      paidAmount,
+      // Round to the nearest minor unit
+      refundAmount: Math.round(paidAmount * refundPercent / 100),
+      tiers: this.sortTiers(tiers)
+    };
+  }
+}
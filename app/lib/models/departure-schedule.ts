@@ -0,0 +1,209 @@
+import { DepartureSchedule as PrismaDepartureSchedule, ScheduleFrequency } from '@prisma/client';
+
+export type DepartureSchedule = PrismaDepartureSchedule;
+
+export interface CreateDepartureScheduleData {
+  tourId: string;
+  frequency: ScheduleFrequency;
+  interval?: number;
+  byWeekday?: number[];
+  byMonthDay?: number[];
+  startDate: Date;
+  until?: Date | null;
+  blackoutDates?: Date[];
+  slots?: number | null;
+  horizonDays?: number;
+}
+
+export interface UpdateDepartureScheduleData {
+  frequency?: ScheduleFrequency;
+  interval?: number;
+  byWeekday?: number[];
+  byMonthDay?: number[];
+  startDate?: Date;
+  until?: Date | null;
+  blackoutDates?: Date[];
+  slots?: number | null;
+  horizonDays?: number;
+  active?: boolean;
+}
+
+export interface RecurrenceRule {
+  frequency: ScheduleFrequency;
+  interval: number;
+  byWeekday: number[];
+  byMonthDay: number[];
+  startDate: Date;
+  until: Date | null;
+  blackoutDates: Date[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DepartureScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepartureScheduleValidationError';
+  }
+}
+
+export class DepartureScheduleValidator {
+  static validateCreateData(data: CreateDepartureScheduleData): void {
+    if (!data.tourId || data.tourId.trim().length === 0) {
+      throw new DepartureScheduleValidationError('Tour ID is required');
+    }
+
+    if (!data.startDate) {
+      throw new DepartureScheduleValidationError('Start date is required');
+    }
+
+    this.validateRule({
+      frequency: data.frequency,
+      interval: data.interval ?? 1,
+      byWeekday: data.byWeekday ?? [],
+      byMonthDay: data.byMonthDay ?? [],
+      startDate: data.startDate,
+      until: data.until ?? null,
+      blackoutDates: data.blackoutDates ?? []
+    });
+
+    this.validateSlotsAndHorizon(data.slots, data.horizonDays);
+  }
+
+  static validateUpdateData(data: UpdateDepartureScheduleData, currentData: DepartureSchedule): void {
+    this.validateRule({
+      frequency: data.frequency ?? currentData.frequency,
+      interval: data.interval ?? currentData.interval,
+      byWeekday: data.byWeekday ?? currentData.byWeekday,
+      byMonthDay: data.byMonthDay ?? currentData.byMonthDay,
+      startDate: data.startDate ?? currentData.startDate,
+      until: data.until !== undefined ? data.until : currentData.until,
+      blackoutDates: data.blackoutDates ?? currentData.blackoutDates
+    });
+
+    this.validateSlotsAndHorizon(data.slots, data.horizonDays);
+  }
+
+  static validateRule(rule: RecurrenceRule): void {
+    if (!Object.values(ScheduleFrequency).includes(rule.frequency)) {
+      throw new DepartureScheduleValidationError('Frequency must be WEEKLY or MONTHLY');
+    }
+
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 12) {
+      throw new DepartureScheduleValidationError('Interval must be an integer between 1 and 12');
+    }
+
+    if (!(rule.startDate instanceof Date) || isNaN(rule.startDate.getTime())) {
+      throw new DepartureScheduleValidationError('Start date must be a valid date');
+    }
+
+    if (rule.until !== null) {
+      if (!(rule.until instanceof Date) || isNaN(rule.until.getTime())) {
+        throw new DepartureScheduleValidationError('Until date must be a valid date');
+      }
+      if (rule.until < rule.startDate) {
+        throw new DepartureScheduleValidationError('Until date must be after the start date');
+      }
+    }
+
+    if (rule.frequency === ScheduleFrequency.WEEKLY) {
+      if (rule.byWeekday.length === 0) {
+        throw new DepartureScheduleValidationError('Weekly schedules need at least one weekday');
+      }
+      rule.byWeekday.forEach(weekday => {
+        if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+          throw new DepartureScheduleValidationError('Weekdays must be integers between 0 (Sunday) and 6 (Saturday)');
+        }
+      });
+    }
+
+    if (rule.frequency === ScheduleFrequency.MONTHLY) {
+      if (rule.byMonthDay.length === 0) {
+        throw new DepartureScheduleValidationError('Monthly schedules need at least one day of the month');
+      }
+      rule.byMonthDay.forEach(monthDay => {
+        if (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31) {
+          throw new DepartureScheduleValidationError('Days of the month must be integers between 1 and 31');
+        }
+      });
+    }
+
+    rule.blackoutDates.forEach((date, index) => {
+      if (!(date instanceof Date) || isNaN(date.getTime())) {
+        throw new DepartureScheduleValidationError(`Blackout date at index ${index} must be a valid date`);
+      }
+    });
+  }
+
+  private static validateSlotsAndHorizon(slots?: number | null, horizonDays?: number): void {
+    if (slots !== undefined && slots !== null) {
+      if (!Number.isInteger(slots) || slots < 1 || slots > 1000) {
+        throw new DepartureScheduleValidationError('Slots must be an integer between 1 and 1000');
+      }
+    }
+
+    if (horizonDays !== undefined) {
+      if (!Number.isInteger(horizonDays) || horizonDays < 1 || horizonDays > 730) {
+        throw new DepartureScheduleValidationError('Horizon must be between 1 and 730 days');
+      }
+    }
+  }
+}
+
+export class ScheduleRecurrence {
+  /**
+   * Expand a recurrence rule into departure start dates (UTC midnight) within [from, to]
+   */
+  static expand(rule: RecurrenceRule, from: Date, to: Date): Date[] {
+    const start = this.startOfDay(rule.startDate);
+    let cursor = this.startOfDay(from) > start ? this.startOfDay(from) : start;
+    let end = this.startOfDay(to);
+
+    if (rule.until && this.startOfDay(rule.until) < end) {
+      end = this.startOfDay(rule.until);
+    }
+
+    const blackouts = new Set(rule.blackoutDates.map(date => this.startOfDay(date).getTime()));
+    const dates: Date[] = [];
+
+    while (cursor <= end) {
+      if (this.matches(rule, start, cursor) && !blackouts.has(cursor.getTime())) {
+        dates.push(cursor);
+      }
+      cursor = new Date(cursor.getTime() + DAY_MS);
+    }
+
+    return dates;
+  }
+
+  /**
+   * A departure ends durationDays after it starts
+   */
+  static computeEndDate(startDate: Date, durationDays: number): Date {
+    return new Date(this.startOfDay(startDate).getTime() + durationDays * DAY_MS);
+  }
+
+  static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private static matches(rule: RecurrenceRule, start: Date, date: Date): boolean {
+    if (rule.frequency === ScheduleFrequency.WEEKLY) {
+      if (!rule.byWeekday.includes(date.getUTCDay())) {
+        return false;
+      }
+      // Count whole weeks between the Sundays that begin each week
+      const startWeek = start.getTime() - start.getUTCDay() * DAY_MS;
+      const dateWeek = date.getTime() - date.getUTCDay() * DAY_MS;
+      const weeks = Math.round((dateWeek - startWeek) / (7 * DAY_MS));
+      return weeks % rule.interval === 0;
+    }
+
+    if (!rule.byMonthDay.includes(date.getUTCDate())) {
+      return false;
+    }
+    const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12
+      + (date.getUTCMonth() - start.getUTCMonth());
+    return months % rule.interval === 0;
+  }
+}
@@ -0,0 +1,115 @@
+import type { ExchangeRate as PrismaExchangeRate } from '@prisma/client';
+
+export type ExchangeRate = PrismaExchangeRate;
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'NGN', 'GHS', 'KES'] as const;
+
+export type Currency = typeof SUPPORTED_CURRENCIES[number];
+
+// Pairs without a rate of their own are converted through this currency
+export const PIVOT_CURRENCY: Currency = 'USD';
+
+export interface CreateExchangeRateData {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveFrom?: Date | string;
+}
+
+export type ExchangeRateQuote = Pick<ExchangeRate, 'baseCurrency' | 'quoteCurrency' | 'rate' | 'effectiveFrom'>;
+
+export class ExchangeRateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateValidationError';
+  }
+}
+
+export class ExchangeRateValidator {
+  static isSupportedCurrency(currency: unknown): currency is Currency {
+    return typeof currency === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+  }
+
+  static validateCurrency(currency: unknown): void {
+    if (!this.isSupportedCurrency(currency)) {
+      throw new ExchangeRateValidationError(
+        `Unsupported currency: ${currency}. Supported currencies are ${SUPPORTED_CURRENCIES.join(', ')}`
+      );
+    }
+  }
+
+  static validateCreateData(data: CreateExchangeRateData): void {
+    this.validateCurrency(data.baseCurrency);
+    this.validateCurrency(data.quoteCurrency);
+
+    if (data.baseCurrency === data.quoteCurrency) {
+      throw new ExchangeRateValidationError('Base and quote currency must be different');
+    }
+
+    if (typeof data.rate !== 'number' || !Number.isFinite(data.rate) || data.rate <= 0) {
+      throw new ExchangeRateValidationError('Exchange rate must be a positive number');
+    }
+
+    if (data.effectiveFrom !== undefined && isNaN(new Date(data.effectiveFrom).getTime())) {
+      throw new ExchangeRateValidationError('Effective date is invalid');
+    }
+  }
+}
+
+export class CurrencyConverter {
+  /**
+   * Rate for converting from one currency to another at a point in time, or null when
+   * no rate covers the pair. The most recent rate in effect wins, whichever way round
+   * it was entered; pairs with no rate of their own go through PIVOT_CURRENCY.
+   */
+  static rateAt(quotes: ExchangeRateQuote[], from: string, to: string, at: Date = new Date()): number | null {
+    if (from === to) return 1;
+
+    const direct = this.latestRate(quotes, from, to, at);
+    if (direct !== null || from === PIVOT_CURRENCY || to === PIVOT_CURRENCY) {
+      return direct;
+    }
+
+    const toPivot = this.latestRate(quotes, from, PIVOT_CURRENCY, at);
+    const fromPivot = this.latestRate(quotes, PIVOT_CURRENCY, to, at);
+    return toPivot !== null && fromPivot !== null ? toPivot * fromPivot : null;
+  }
+
+  /**
+   * The latest rate per currency pair in effect at the given time
+   */
+  static currentQuotes<T extends ExchangeRateQuote>(quotes: T[], at: Date = new Date()): T[] {
+    const latest = new Map<string, T>();
+    for (const quote of quotes) {
+      if (new Date(quote.effectiveFrom) > at) continue;
+      const key = `${quote.baseCurrency}:${quote.quoteCurrency}`;
+      const current = latest.get(key);
+      if (!current || new Date(quote.effectiveFrom) > new Date(current.effectiveFrom)) {
+        latest.set(key, quote);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  private static latestRate(quotes: ExchangeRateQuote[], from: string, to: string, at: Date): number | null {
+    let latest: { rate: number; effectiveFrom: number } | null = null;
+
+    for (const quote of quotes) {
+      const effectiveFrom = new Date(quote.effectiveFrom).getTime();
+      if (effectiveFrom > at.getTime()) continue;
+
+      let rate: number | null = null;
+      if (quote.baseCurrency === from && quote.quoteCurrency === to) {
+        rate = quote.rate;
+      } else if (quote.baseCurrency === to && quote.quoteCurrency === from) {
+        rate = 1 / quote.rate;
+      }
+
+      if (rate !== null && (!latest || effectiveFrom > latest.effectiveFrom)) {
+        latest = { rate, effectiveFrom };
+      }
+    }
+
+    return latest ? latest.rate : null;
+  }
+}
@@ -3,11 +3,18 @@ export type {
   User,
   CreateUserData,
   UpdateUserData,
+  UserSummary,
+  UserListFilters,
+  UserAccountStatus,
+  InviteUserData,
 } from './user';
 
 export {
   UserValidator,
   UserValidationError,
+  AccountSuspendedError,
+  USER_PAGE_SIZE,
+  USER_INVITE_DAYS,
 } from './user';
 
 // Destination model exports
@@ -47,6 +54,264 @@ export {
   TourAvailabilityValidationError,
 } from './tour-availability';
 
+// Booking model exports
+export type {
+  Booking,
+  BookingEvent,
+  BookingTransitionOptions,
+} from './booking';
+
+export {
+  BOOKED_STATUSES,
+  BookingStateMachine,
+  BookingTransitionError,
+} from './booking';
+
+// Cancellation policy model exports
+export type {
+  CancellationPolicyTier,
+  CancellationTier,
+  RefundQuote,
+} from './cancellation-policy';
+
+export {
+  CancellationPolicy,
+  CancellationPolicyValidator,
+  CancellationPolicyValidationError,
+  DEFAULT_CANCELLATION_TIERS,
+} from './cancellation-policy';
+
+// Payment model exports
+export type {
+  Payment,
+  WebhookEvent,
+} from './payment';
+
+export {
+  PaymentStateMachine,
+} from './payment';
+
+// Refund model exports
+export type {
+  Refund,
+  RefundAmounts,
+} from './refund';
+
+export {
+  PaymentRefunds,
+  RefundValidator,
+  RefundValidationError,
+  CAPTURED_PAYMENT_STATUSES,
+} from './refund';
+
+// Exchange rate model exports
+export type {
+  ExchangeRate,
+  ExchangeRateQuote,
+  CreateExchangeRateData,
+  Currency,
+} from './exchange-rate';
+
+export {
+  CurrencyConverter,
+  ExchangeRateValidator,
+  ExchangeRateValidationError,
+  SUPPORTED_CURRENCIES,
+  PIVOT_CURRENCY,
+} from './exchange-rate';
+
+// Money model exports
+export type { MinorUnits, MinorUnitsAsNumbers } from './money';
+
+export {
+  Money,
+  MoneyError,
+  MONEY_LIMITS,
+  minorUnitsAsNumbers,
+} from './money';
+
+// Promo code model exports
+export type {
+  PromoCode,
+  CreatePromoCodeData,
+  UpdatePromoCodeData,
+  PromoCodeContext,
+  PromoCodeUsage,
+  PriceBreakdown,
+} from './promo-code';
+
+export {
+  PromoCodeValidator,
+  PromoCodeValidationError,
+  PromoCodeRules,
+} from './promo-code';
+
+// Pricing model exports
+export type {
+  PricingRule,
+  CreatePricingRuleData,
+  UpdatePricingRuleData,
+  PricingRuleTerms,
+  TravelerMix,
+  PricingContext,
+  UnitPrices,
+  PriceLine,
+  DeparturePrice,
+} from './pricing';
+
+export {
+  PricingRuleValidator,
+  PricingRuleValidationError,
+  TourPricing,
+  PRICING_RULE_TYPES,
+  TRAVELER_TYPES,
+} from './pricing';
+
+// Booking modification model exports
+export type {
+  ModifyBookingData,
+  ModificationSettlement,
+  ModificationQuote,
+} from './booking-modification';
+
+export {
+  BookingModificationRules,
+  BookingModificationValidationError,
+  DEFAULT_MODIFICATION_CUTOFF_DAYS,
+  MODIFIABLE_STATUSES,
+} from './booking-modification';
+
+// Waitlist model exports
+export type {
+  WaitlistEntry,
+  JoinWaitlistData,
+  WaitlistDepth,
+} from './waitlist';
+
+export {
+  WaitlistRules,
+  WaitlistValidationError,
+  WAITLIST_OFFER_HOURS,
+  ACTIVE_WAITLIST_STATUSES,
+} from './waitlist';
+
+// Traveler model exports
+export type {
+  Traveler,
+  TravelerDetails,
+  TravelingDeparture,
+  ManifestEntry,
+  DepartureManifest,
+  ReencryptionSummary,
+} from './traveler';
+
+export {
+  TravelerValidator,
+  TravelerValidationError,
+  MANIFEST_COLUMNS,
+  REENCRYPT_BATCH_SIZE,
+} from './traveler';
+
+// Notification model exports
+export type {
+  Notification,
+  NotificationRecordData,
+  NotificationCenterPage,
+} from './notification';
+
+export {
+  NotificationValidator,
+  NotificationValidationError,
+  NOTIFICATION_CENTER_LIMIT,
+} from './notification';
+
+// Outbox model exports
+export type {
+  OutboxMessage,
+  OutboxMessageData,
+  OutboxKind,
+  OutboxRunSummary,
+  OutboxListFilters,
+} from './outbox';
+
+export {
+  OutboxRules,
+  OutboxValidator,
+  OutboxValidationError,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_LIST_LIMIT,
+} from './outbox';
+
+// Password reset model exports
+export type {
+  PasswordResetToken,
+} from './password-reset';
+
+export {
+  PasswordResetRules,
+  PasswordResetValidationError,
+  PasswordResetRateLimitError,
+  PASSWORD_RESET_TOKEN_MINUTES,
+} from './password-reset';
+
+// Account model exports
+export type {
+  EmailChangeToken,
+  UserProfile,
+  ProfileUpdateData,
+} from './account';
+
+export {
+  AccountRules,
+  AccountValidationError,
+  EMAIL_CHANGE_TOKEN_HOURS,
+  DELETED_USER_NAME,
+} from './account';
+
+// Permission model exports
+export type {
+  Permission,
+} from './permission';
+
+export {
+  PermissionRules,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+} from './permission';
+
+// Audit log model exports
+export type {
+  AuditLog,
+  AuditValue,
+  AuditChanges,
+  AuditContext,
+  AuditEntry,
+  AuditLogFilters,
+} from './audit-log';
+
+export {
+  AuditRules,
+  AuditLogValidator,
+  AuditLogValidationError,
+  AUDIT_PAGE_SIZE,
+  AUDIT_MAX_PAGE_SIZE,
+  AUDIT_EXPORT_LIMIT,
+} from './audit-log';
+
+// Departure schedule model exports
+export type {
+  DepartureSchedule,
+  CreateDepartureScheduleData,
+  UpdateDepartureScheduleData,
+  RecurrenceRule,
+} from './departure-schedule';
+
+export {
+  DepartureScheduleValidator,
+  DepartureScheduleValidationError,
+  ScheduleRecurrence,
+} from './departure-schedule';
+
 // Business rules exports
 export type {
   BusinessRuleError,
@@ -78,5 +343,15 @@ export {
   PaymentMethod,
   PaymentProvider,
   PaymentStatus,
+  RefundStatus,
+  WebhookEventStatus,
   ContentType,
+  ScheduleFrequency,
+  DiscountType,
+  PricingRuleType,
+  TravelerType,
+  WaitlistStatus,
+  NotificationChannel,
+  NotificationStatus,
+  OutboxStatus,
 } from '@prisma/client';
\ No newline at end of file
@@ -0,0 +1,171 @@
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+/**
+ * A whole number of minor units as the app handles it (number), or as Prisma reads it from a
+ * BIGINT money column (bigint). Numbers are exact for every amount within MONEY_LIMITS.
+ */
+export type MinorUnits = number | bigint;
+
+/**
+ * A value as a JSON response carries it, with every BIGINT money column, including those
+ * of related records loaded alongside, as a number
+ */
+export type MinorUnitsAsNumbers<T> =
+  T extends bigint ? number
+  : T extends Date ? T
+  : T extends (infer Item)[] ? MinorUnitsAsNumbers<Item>[]
+  : T extends object ? { [Key in keyof T]: MinorUnitsAsNumbers<T[Key]> }
+  : T;
+
+/**
+ * Convert the BIGINT money columns of records read through Prisma to numbers before they
+ * are sent as JSON, which has no bigint. Only arrays and plain objects are walked; an amount
+ * too large to be exact as a number is refused rather than rounded.
+ */
+export function minorUnitsAsNumbers<T>(value: T): MinorUnitsAsNumbers<T> {
+  if (typeof value === 'bigint') {
+    const minorUnits = Number(value);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new MoneyError(`Money amount ${value} is too large to send as a number`);
+    }
+    return minorUnits as MinorUnitsAsNumbers<T>;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => minorUnitsAsNumbers(item)) as MinorUnitsAsNumbers<T>;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype === null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, minorUnitsAsNumbers(item)])
+      ) as MinorUnitsAsNumbers<T>;
+    }
+  }
+
+  return value as MinorUnitsAsNumbers<T>;
+}
+
+/**
+ * The most a tour may charge per person, and the most a single payment may be, in minor
+ * units of each supported currency. The limits are set per currency because minor units
+ * are worth very different amounts: a kobo is worth a fraction of a cent, so one limit for
+ * every currency would stop a modest trip being paid for in naira.
+ */
+export const MONEY_LIMITS: Record<string, { pricePerPerson: number; payment: number }> = {
+  USD: { pricePerPerson: 10_000_000, payment: 100_000_000 }, // $100,000.00 and $1,000,000.00
+  EUR: { pricePerPerson: 10_000_000, payment: 100_000_000 },
+  GBP: { pricePerPerson: 10_000_000, payment: 100_000_000 },
+  GHS: { pricePerPerson: 150_000_000, payment: 1_500_000_000 },
+  KES: { pricePerPerson: 1_500_000_000, payment: 15_000_000_000 },
+  NGN: { pricePerPerson: 15_000_000_000, payment: 150_000_000_000 }
+};
+
+/**
+ * An amount of money held as a whole number of minor units (cents) of its currency.
+ * Sums of any number of amounts are exact; rounding only happens when an amount is
+ * multiplied, converted or entered in major units.
+ */
+export class Money {
+  private constructor(
+    readonly amount: number,
+    readonly currency: string
+  ) {}
+
+  static of(amount: MinorUnits, currency: string): Money {
+    const minorUnits = Number(amount);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new MoneyError(`Money amounts must be a whole number of minor units, got ${amount}`);
+    }
+    return new Money(minorUnits, currency);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Money from an amount in major units (e.g. 12.34 dollars), rounded to the nearest minor unit
+   */
+  static fromMajor(amount: number, currency: string): Money {
+    const factor = 10 ** this.minorUnitDigits(currency);
+    return this.of(Math.round(amount * factor), currency);
+  }
+
+  /**
+   * How many minor-unit digits the currency has (2 for USD, 0 for JPY)
+   */
+  static minorUnitDigits(currency: string): number {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount - other.amount, this.currency);
+  }
+
+  /**
+   * Multiply by a factor, rounding to the nearest minor unit
+   */
+  multiply(factor: number): Money {
+    return Money.of(Math.round(this.amount * factor), this.currency);
+  }
+
+  /**
+   * A percentage, rounding to the nearest minor unit. Multiplies before dividing, so exact
+   * halves such as 69% of 94,985.50 round up rather than losing a cent to 0.69 not being exact.
+   */
+  percent(percent: number): Money {
+    return Money.of(Math.round(this.amount * percent / 100), this.currency);
+  }
+
+  /**
+   * Convert into another currency at the given rate, rounding to its nearest minor unit
+   */
+  convert(rate: number, currency: string): Money {
+    if (currency === this.currency) return this.multiply(rate);
+    const scale = 10 ** (Money.minorUnitDigits(currency) - Money.minorUnitDigits(this.currency));
+    return Money.of(Math.round(this.amount * rate * scale), currency);
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  toMajor(): number {
+    return this.amount / 10 ** Money.minorUnitDigits(this.currency);
+  }
+
+  format(locale: string = 'en-US'): string {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: this.currency }).format(this.toMajor());
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): { amount: number; currency: string } {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new MoneyError(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { Notification as PrismaNotification, NotificationChannel, NotificationStatus } from '@prisma/client';
+
+export type Notification = PrismaNotification;
+
+// Most notifications shown in the notification center at once
+export const NOTIFICATION_CENTER_LIMIT = 20;
+
+export interface NotificationRecordData {
+  type: string;
+  channel: NotificationChannel;
+  recipient: string; // Email address, or E.164 phone number for SMS
+  userId?: string; // Looked up from the recipient when not given
+  bookingId?: string;
+  paymentId?: string;
+  subject: string;
+  content: string; // Plain text
+  status?: NotificationStatus; // Defaults to SENT
+}
+
+export interface NotificationCenterPage {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export class NotificationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+export class NotificationValidator {
+  /**
+   * The notifications a mark-as-read request is for; none given means all of them
+   */
+  static validateReadIds(ids: unknown): string[] | undefined {
+    if (ids === undefined) {
+      return undefined;
+    }
+
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || id.length === 0)) {
+      throw new NotificationValidationError('Notification ids must be a list of ids');
+    }
+
+    return ids;
+  }
+
+  static validateLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit <= 0 || limit > NOTIFICATION_CENTER_LIMIT) {
+      throw new NotificationValidationError(`Limit must be a whole number from 1 to ${NOTIFICATION_CENTER_LIMIT}`);
+    }
+  }
+}
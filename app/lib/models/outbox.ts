@@ -0,0 +1,116 @@
+import type { OutboxMessage as PrismaOutboxMessage, OutboxStatus, PaymentStatus } from '@prisma/client';
+
+export type OutboxMessage = PrismaOutboxMessage;
+
+// Attempts before a message is dead-lettered
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+// Wait before the first retry; each retry after it waits twice as long, up to the cap
+export const OUTBOX_RETRY_BASE_MS = 60 * 1000;
+export const OUTBOX_RETRY_CAP_MS = 6 * 60 * 60 * 1000;
+
+// How long a worker has a claimed message to itself before another worker may try it
+export const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+
+// Most messages one worker run delivers
+export const OUTBOX_BATCH_SIZE = 50;
+
+// Most messages shown in the admin outbox view at once
+export const OUTBOX_LIST_LIMIT = 100;
+
+export const OUTBOX_STATUSES: OutboxStatus[] = ['PENDING', 'SENT', 'DEAD'];
+
+/**
+ * A notification to send once the change it reports has committed. The payload only holds
+ * ids: the email is built from the records as they are when it is delivered.
+ */
+export type OutboxMessageData = ({ bookingId: string } & (
+  | { kind: 'BOOKING_CONFIRMATION'; payload: { bookingId: string } }
+  | { kind: 'BOOKING_CONFIRMATION_SMS'; payload: { bookingId: string } }
+  | { kind: 'BOOKING_CANCELLATION'; payload: { bookingId: string; reason: string } }
+  | { kind: 'PAYMENT_STATUS'; payload: { paymentId: string; status: PaymentStatus } }
+  | { kind: 'PAYMENT_STATUS_SMS'; payload: { paymentId: string; status: PaymentStatus } }
+  | { kind: 'REFUND'; payload: { refundId: string } }
+  | { kind: 'ADMIN_NEW_BOOKING'; payload: { bookingId: string } }
+  | { kind: 'ADMIN_BOOKING_CANCELLATION'; payload: { bookingId: string; reason?: string } }
+  | { kind: 'ADMIN_PAYMENT_FAILURE'; payload: { paymentId: string } }
+  | { kind: 'ADMIN_REFUND_FAILURE'; payload: { refundId: string } }
+  | { kind: 'ADMIN_LATE_PAYMENT'; payload: { paymentId: string } }
+  | { kind: 'TOUR_REMINDER'; payload: { bookingId: string; daysUntilTour: number } }
+  | { kind: 'TOUR_REMINDER_SMS'; payload: { bookingId: string; daysUntilTour: number } }
+))
+  // A waitlist offer has no booking until it is claimed
+  | { kind: 'WAITLIST_OFFER'; bookingId: null; payload: { entryId: string } };
+
+export type OutboxKind = OutboxMessageData['kind'];
+
+// What one worker run did
+export interface OutboxRunSummary {
+  sent: number;
+  retrying: number; // Failed and scheduled for another attempt
+  dead: number; // Failed their last attempt
+}
+
+export interface OutboxListFilters {
+  status?: OutboxStatus;
+  bookingId?: string;
+}
+
+export class OutboxValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxValidationError';
+  }
+}
+
+export class OutboxRules {
+  /**
+   * Exponential backoff: the wait before the next attempt after the given number of failed ones
+   */
+  static retryDelayMs(attempts: number): number {
+    return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RETRY_CAP_MS);
+  }
+
+  static nextAttemptAt(attempts: number, now: Date = new Date()): Date {
+    return new Date(now.getTime() + this.retryDelayMs(attempts));
+  }
+
+  /**
+   * A message that has failed this many times is given up on
+   */
+  static isExhausted(attempts: number): boolean {
+    return attempts >= OUTBOX_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Short enough to keep in the row and show an admin
+   */
+  static describeError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.length > 500 ? `${message.slice(0, 497)}...` : message;
+  }
+}
+
+export class OutboxValidator {
+  static validateStatus(status: string | null): OutboxStatus | undefined {
+    if (!status) {
+      return undefined;
+    }
+
+    const normalized = status.toUpperCase();
+    if (!OUTBOX_STATUSES.includes(normalized as OutboxStatus)) {
+      throw new OutboxValidationError(`Status must be one of ${OUTBOX_STATUSES.join(', ')}`);
+    }
+
+    return normalized as OutboxStatus;
+  }
+
+  /**
+   * A sent message is not sent twice; anything else can be re-sent now
+   */
+  static assertCanResend(message: Pick<OutboxMessage, 'status'>): void {
+    if (message.status === 'SENT') {
+      throw new OutboxValidationError('This message has already been sent');
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { PasswordResetToken as PrismaPasswordResetToken } from '@prisma/client';
+
+export type PasswordResetToken = PrismaPasswordResetToken;
+
+// How long a reset link works
+export const PASSWORD_RESET_TOKEN_MINUTES = 60;
+
+// Requests allowed per email address and per IP address within the window
+export const PASSWORD_RESET_WINDOW_MINUTES = 60;
+export const PASSWORD_RESET_MAX_PER_EMAIL = 3;
+export const PASSWORD_RESET_MAX_PER_IP = 10;
+
+// Same minimum as registration
+export const PASSWORD_MIN_LENGTH = 6;
+
+export class PasswordResetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordResetValidationError';
+  }
+}
+
+export class PasswordResetRateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Too many password reset requests, please try again later');
+    this.name = 'PasswordResetRateLimitError';
+  }
+}
+
+export class PasswordResetRules {
+  static validateEmail(email: unknown): string {
+    if (!email || typeof email !== 'string') {
+      throw new PasswordResetValidationError('Email is required');
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new PasswordResetValidationError('Valid email address is required');
+    }
+
+    return email.toLowerCase();
+  }
+
+  static validateNewPassword(password: unknown): string {
+    if (!password || typeof password !== 'string') {
+      throw new PasswordResetValidationError('Token and new password are required');
+    }
+
+    if (password.trim().length < PASSWORD_MIN_LENGTH) {
+      throw new PasswordResetValidationError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+    }
+
+    return password;
+  }
+
+  static tokenExpiresAt(now: Date): Date {
+    return new Date(now.getTime() + PASSWORD_RESET_TOKEN_MINUTES * 60 * 1000);
+  }
+
+  static windowStart(now: Date): Date {
+    return new Date(now.getTime() - PASSWORD_RESET_WINDOW_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Seconds until another request is allowed, given the times of the requests made within
+   * the window; 0 while fewer than `limit` were made
+   */
+  static retryAfterSeconds(recentRequests: Date[], limit: number, now: Date): number {
+    if (recentRequests.length < limit) {
+      return 0;
+    }
+
+    // Another request is allowed once enough of them have left the window
+    const sorted = [...recentRequests].sort((a, b) => b.getTime() - a.getTime());
+    const leavesWindowAt = sorted[limit - 1].getTime() + PASSWORD_RESET_WINDOW_MINUTES * 60 * 1000;
+
+    return Math.max(1, Math.ceil((leavesWindowAt - now.getTime()) / 1000));
+  }
+}
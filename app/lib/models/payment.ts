@@ -0,0 +1,29 @@
+import { Payment as PrismaPayment, PaymentStatus, WebhookEvent as PrismaWebhookEvent } from '@prisma/client';
+
+export type Payment = PrismaPayment;
+export type WebhookEvent = PrismaWebhookEvent;
+
+// Moves a provider report may make. A failed attempt can still be followed by a successful
+// one, but nothing the provider says about the charge can undo a success; only refunds
+// move a payment on from there.
+const PROVIDER_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['SUCCESS', 'FAILED'],
+  FAILED: ['SUCCESS'],
+  SUCCESS: [],
+  PARTIALLY_REFUNDED: [],
+  REFUNDED: []
+};
+
+export class PaymentStateMachine {
+  static canApplyProviderStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+    return PROVIDER_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Statuses a payment may be in for a provider report of `to` to apply
+   */
+  static providerSourcesFor(to: PaymentStatus): PaymentStatus[] {
+    return (Object.keys(PROVIDER_TRANSITIONS) as PaymentStatus[])
+      .filter(from => PROVIDER_TRANSITIONS[from].includes(to));
+  }
+}
@@ -0,0 +1,54 @@
+import type { UserRole } from '@prisma/client';
+
+export const PERMISSIONS = [
+  'bookings:read',
+  'bookings:write', // Confirm and cancel bookings on a customer's behalf
+  'payments:refund',
+  'tours:read', // Tours, departures and their manifests
+  'tours:write', // Tours, destinations, departures, schedules and cancellation policies
+  'pricing:manage', // Pricing rules, promo codes and exchange rates
+  'content:write', // Drafts of blog posts, guides and pages
+  'content:publish',
+  'reviews:moderate',
+  'reports:view', // Revenue, booking statistics and promo code reports
+  'notifications:manage', // The notification outbox
+  'users:manage', // Accounts, roles, suspensions and staff invites
+  'audit:view', // Who changed what in the admin area
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * What each role may do. Admins may do everything; staff run day-to-day operations but
+ * cannot change what is sold or at what price, publish, or see revenue.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  STAFF: [
+    'bookings:read',
+    'bookings:write',
+    'tours:read',
+    'content:write',
+    'reviews:moderate',
+    'notifications:manage',
+  ],
+  CUSTOMER: [],
+};
+
+export class PermissionRules {
+  static permissionsFor(role: UserRole | string | null | undefined): readonly Permission[] {
+    // Own keys only, so a role named like an Object method is not mistaken for a real one
+    return role && Object.hasOwn(ROLE_PERMISSIONS, role) ? ROLE_PERMISSIONS[role as UserRole] : [];
+  }
+
+  static can(role: UserRole | string | null | undefined, permission: Permission): boolean {
+    return this.permissionsFor(role).includes(permission);
+  }
+
+  /**
+   * Whether the role may use any part of the admin area
+   */
+  static hasAdminAccess(role: UserRole | string | null | undefined): boolean {
+    return this.permissionsFor(role).length > 0;
+  }
+}
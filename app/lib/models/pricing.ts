@@ -0,0 +1,273 @@
+import type { PricingRule as PrismaPricingRule, PricingRuleType, TravelerType } from '@prisma/client';
+import { CancellationPolicy } from './cancellation-policy';
+import { Money } from './money';
+
+export type PricingRule = PrismaPricingRule;
+
+export const PRICING_RULE_TYPES: PricingRuleType[] = ['SEASONAL', 'EARLY_BIRD', 'LAST_MINUTE', 'TRAVELER_TYPE', 'GROUP'];
+
+export const TRAVELER_TYPES: TravelerType[] = ['ADULT', 'CHILD', 'SENIOR'];
+
+export interface CreatePricingRuleData {
+  name: string;
+  type: PricingRuleType;
+  adjustmentPercent: number; // Negative for a discount, positive for a surcharge
+  startDate?: Date | null;
+  endDate?: Date | null;
+  minDaysBefore?: number | null;
+  maxDaysBefore?: number | null;
+  travelerType?: TravelerType | null;
+  minTravelers?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdatePricingRuleData = Partial<CreatePricingRuleData>;
+
+// What the price of a departure depends on; rules sent to the browser only need these
+export type PricingRuleTerms = Pick<
+  PricingRule,
+  'type' | 'adjustmentPercent' | 'startDate' | 'endDate' | 'minDaysBefore' | 'maxDaysBefore' | 'travelerType' | 'minTravelers' | 'isActive'
+>;
+
+export interface TravelerMix {
+  adults: number;
+  children: number;
+  seniors: number;
+}
+
+export interface PricingContext {
+  departureDate: Date;
+  travelersCount: number;
+  bookedAt?: Date;
+}
+
+export type UnitPrices = Record<TravelerType, Money>;
+
+// One line of a booking's price, stored on the booking in minor units of its currency
+export interface PriceLine {
+  travelerType: TravelerType;
+  count: number;
+  unitPrice: number;
+}
+
+export interface DeparturePrice<Rule extends PricingRuleTerms = PricingRuleTerms> {
+  unitPrices: UnitPrices;
+  adjustmentPercent: number; // Applied to every traveler before traveler type rules
+  rules: Rule[];
+}
+
+const MIN_ADJUSTMENT_PERCENT = -100;
+const MAX_ADJUSTMENT_PERCENT = 500;
+
+export class PricingRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingRuleValidationError';
+  }
+}
+
+export class PricingRuleValidator {
+  static validateCreateData(data: CreatePricingRuleData): void {
+    if (!data.name || data.name.trim().length === 0 || data.name.length > 100) {
+      throw new PricingRuleValidationError('Rule name is required and must be at most 100 characters');
+    }
+
+    if (!PRICING_RULE_TYPES.includes(data.type)) {
+      throw new PricingRuleValidationError(`Rule type must be one of ${PRICING_RULE_TYPES.join(', ')}`);
+    }
+
+    if (!Number.isInteger(data.adjustmentPercent) ||
+        data.adjustmentPercent < MIN_ADJUSTMENT_PERCENT ||
+        data.adjustmentPercent > MAX_ADJUSTMENT_PERCENT ||
+        data.adjustmentPercent === 0) {
+      throw new PricingRuleValidationError(
+        `Adjustment must be a non-zero whole percentage between ${MIN_ADJUSTMENT_PERCENT} and ${MAX_ADJUSTMENT_PERCENT}`
+      );
+    }
+
+    switch (data.type) {
+      case 'SEASONAL':
+        if (!this.isValidDate(data.startDate) || !this.isValidDate(data.endDate)) {
+          throw new PricingRuleValidationError('Seasonal rules need a start and end date');
+        }
+        if (new Date(data.endDate) < new Date(data.startDate)) {
+          throw new PricingRuleValidationError('A season cannot end before it starts');
+        }
+        break;
+      case 'EARLY_BIRD':
+        if (!Number.isInteger(data.minDaysBefore) || data.minDaysBefore! < 1 || data.minDaysBefore! > 730) {
+          throw new PricingRuleValidationError('Early bird rules need a number of days before departure between 1 and 730');
+        }
+        break;
+      case 'LAST_MINUTE':
+        if (!Number.isInteger(data.maxDaysBefore) || data.maxDaysBefore! < 0 || data.maxDaysBefore! > 365) {
+          throw new PricingRuleValidationError('Last minute rules need a number of days before departure between 0 and 365');
+        }
+        break;
+      case 'TRAVELER_TYPE':
+        if (data.travelerType !== 'CHILD' && data.travelerType !== 'SENIOR') {
+          throw new PricingRuleValidationError('Traveler type rules apply to CHILD or SENIOR travelers');
+        }
+        break;
+      case 'GROUP':
+        if (!Number.isInteger(data.minTravelers) || data.minTravelers! < 2) {
+          throw new PricingRuleValidationError('Group rules need a group size of at least 2 travelers');
+        }
+        break;
+    }
+  }
+
+  static validateUpdateData(data: UpdatePricingRuleData, currentData: PricingRule): void {
+    this.validateCreateData({ ...currentData, ...data });
+  }
+
+  /**
+   * Only the fields of the rule's type are kept, so a rule never carries conditions it does not check
+   */
+  static termsFor(data: CreatePricingRuleData): Omit<CreatePricingRuleData, 'name' | 'isActive'> {
+    return {
+      type: data.type,
+      adjustmentPercent: data.adjustmentPercent,
+      startDate: data.type === 'SEASONAL' ? new Date(data.startDate!) : null,
+      endDate: data.type === 'SEASONAL' ? new Date(data.endDate!) : null,
+      minDaysBefore: data.type === 'EARLY_BIRD' ? data.minDaysBefore : null,
+      maxDaysBefore: data.type === 'LAST_MINUTE' ? data.maxDaysBefore : null,
+      travelerType: data.type === 'TRAVELER_TYPE' ? data.travelerType : null,
+      minTravelers: data.type === 'GROUP' ? data.minTravelers : null
+    };
+  }
+
+  private static isValidDate(date: Date | null | undefined): date is Date {
+    return !!date && !isNaN(new Date(date).getTime());
+  }
+}
+
+export class TourPricing {
+  /**
+   * The rules that set a departure's price. Where several rules of one type match, the most
+   * specific wins: the shortest season, the furthest early bird threshold, the closest last
+   * minute threshold and the largest group; ties go to the lower price.
+   */
+  static applicableRules<Rule extends PricingRuleTerms>(rules: Rule[], context: PricingContext): Rule[] {
+    const daysBefore = CancellationPolicy.daysBeforeStart(context.departureDate, context.bookedAt ?? new Date());
+    const departureDay = this.day(context.departureDate);
+
+    const matching = rules.filter(rule => {
+      if (!rule.isActive) return false;
+      switch (rule.type) {
+        case 'SEASONAL':
+          return !!rule.startDate && !!rule.endDate &&
+            this.day(rule.startDate) <= departureDay && departureDay <= this.day(rule.endDate);
+        case 'EARLY_BIRD':
+          return rule.minDaysBefore !== null && daysBefore >= rule.minDaysBefore;
+        case 'LAST_MINUTE':
+          return rule.maxDaysBefore !== null && daysBefore <= rule.maxDaysBefore;
+        case 'GROUP':
+          return rule.minTravelers !== null && context.travelersCount >= rule.minTravelers;
+        case 'TRAVELER_TYPE':
+          return rule.travelerType !== null;
+      }
+    });
+
+    const specificity = (rule: PricingRuleTerms): number => {
+      switch (rule.type) {
+        case 'SEASONAL': return -(this.day(rule.endDate!) - this.day(rule.startDate!));
+        case 'EARLY_BIRD': return rule.minDaysBefore!;
+        case 'LAST_MINUTE': return -rule.maxDaysBefore!;
+        case 'GROUP': return rule.minTravelers!;
+        case 'TRAVELER_TYPE': return 0;
+      }
+    };
+
+    const winners = new Map<string, Rule>();
+    for (const rule of matching) {
+      const key = rule.type === 'TRAVELER_TYPE' ? `${rule.type}:${rule.travelerType}` : rule.type;
+      const current = winners.get(key);
+      if (!current ||
+          specificity(rule) > specificity(current) ||
+          (specificity(rule) === specificity(current) && rule.adjustmentPercent < current.adjustmentPercent)) {
+        winners.set(key, rule);
+      }
+    }
+
+    return Array.from(winners.values());
+  }
+
+  /**
+   * Per-traveler prices of a departure, in the tour's currency. Seasonal, early bird, last minute
+   * and group adjustments add up and apply to everyone; child and senior adjustments then apply
+   * to those travelers. The tour page and booking both price through here.
+   */
+  static departurePrice<Rule extends PricingRuleTerms>(
+    pricePerPerson: Money,
+    rules: Rule[],
+    context: PricingContext
+  ): DeparturePrice<Rule> {
+    const applied = this.applicableRules(rules, context);
+
+    const adjustmentPercent = Math.max(
+      MIN_ADJUSTMENT_PERCENT,
+      applied
+        .filter(rule => rule.type !== 'TRAVELER_TYPE')
+        .reduce((sum, rule) => sum + rule.adjustmentPercent, 0)
+    );
+    const adult = pricePerPerson.percent(100 + adjustmentPercent);
+
+    const forType = (travelerType: TravelerType): Money => {
+      const rule = applied.find(rule => rule.type === 'TRAVELER_TYPE' && rule.travelerType === travelerType);
+      return rule ? adult.percent(100 + rule.adjustmentPercent) : adult;
+    };
+
+    return {
+      unitPrices: { ADULT: adult, CHILD: forType('CHILD'), SENIOR: forType('SENIOR') },
+      adjustmentPercent,
+      rules: applied
+    };
+  }
+
+  /**
+   * Unit prices converted into another currency, each rounded to its nearest minor unit
+   */
+  static convert(unitPrices: UnitPrices, rate: number, currency: string): UnitPrices {
+    return {
+      ADULT: unitPrices.ADULT.convert(rate, currency),
+      CHILD: unitPrices.CHILD.convert(rate, currency),
+      SENIOR: unitPrices.SENIOR.convert(rate, currency)
+    };
+  }
+
+  static travelerMix(travelersCount: number, children: number = 0, seniors: number = 0): TravelerMix {
+    if (!Number.isInteger(children) || !Number.isInteger(seniors) || children < 0 || seniors < 0) {
+      throw new PricingRuleValidationError('Children and seniors must be whole numbers of travelers');
+    }
+    if (children + seniors > travelersCount) {
+      throw new PricingRuleValidationError('Children and seniors cannot outnumber the travelers');
+    }
+
+    return { adults: travelersCount - children - seniors, children, seniors };
+  }
+
+  static lines(unitPrices: UnitPrices, mix: TravelerMix): PriceLine[] {
+    const counts: Record<TravelerType, number> = { ADULT: mix.adults, CHILD: mix.children, SENIOR: mix.seniors };
+
+    return TRAVELER_TYPES
+      .filter(travelerType => counts[travelerType] > 0)
+      .map(travelerType => ({
+        travelerType,
+        count: counts[travelerType],
+        unitPrice: unitPrices[travelerType].amount
+      }));
+  }
+
+  static subtotal(unitPrices: UnitPrices, mix: TravelerMix): Money {
+    return Money.sum(
+      this.lines(unitPrices, mix).map(line => unitPrices[line.travelerType].multiply(line.count)),
+      unitPrices.ADULT.currency
+    );
+  }
+
+  // Calendar day (UTC) as a day number, so seasons include the whole of their first and last day
+  private static day(date: Date): number {
+    return Math.floor(new Date(date).getTime() / (24 * 60 * 60 * 1000));
+  }
+}
@@ -0,0 +1,184 @@
+import { DiscountType, PromoCode as PrismaPromoCode } from '@prisma/client';
+import { ExchangeRateValidator } from './exchange-rate';
+import { Money } from './money';
+
+export type PromoCode = PrismaPromoCode;
+
+export interface CreatePromoCodeData {
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue: number; // Percentage, or minor units of currency for FIXED_AMOUNT
+  currency?: string | null;
+  tourId?: string | null;
+  destinationId?: string | null;
+  minTravelers?: number;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerUser?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdatePromoCodeData = Partial<Omit<CreatePromoCodeData, 'code'>>;
+
+// What a code is being applied to
+export interface PromoCodeContext {
+  tourId: string;
+  destinationId: string;
+  travelersCount: number;
+  now?: Date;
+}
+
+// Redemptions already made, not counting bookings whose hold expired unpaid
+export interface PromoCodeUsage {
+  total: number;
+  byUser: number;
+}
+
+export interface PriceBreakdown {
+  subtotal: Money;
+  discount: Money;
+  total: Money;
+}
+
+export class PromoCodeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeValidationError';
+  }
+}
+
+export class PromoCodeValidator {
+  /**
+   * Codes are matched case-insensitively and stored upper case
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static validateCreateData(data: CreatePromoCodeData): void {
+    if (!data.code || !/^[A-Z0-9_-]{3,32}$/.test(this.normalizeCode(data.code))) {
+      throw new PromoCodeValidationError('Code must be 3 to 32 letters, digits, dashes or underscores');
+    }
+
+    this.validateTerms(data);
+  }
+
+  static validateUpdateData(data: UpdatePromoCodeData, currentData: PromoCode): void {
+    this.validateTerms({
+      discountType: data.discountType ?? currentData.discountType,
+      discountValue: data.discountValue ?? Number(currentData.discountValue),
+      currency: data.currency !== undefined ? data.currency : currentData.currency,
+      minTravelers: data.minTravelers ?? currentData.minTravelers,
+      validFrom: data.validFrom !== undefined ? data.validFrom : currentData.validFrom,
+      validUntil: data.validUntil !== undefined ? data.validUntil : currentData.validUntil,
+      maxRedemptions: data.maxRedemptions !== undefined ? data.maxRedemptions : currentData.maxRedemptions,
+      maxRedemptionsPerUser: data.maxRedemptionsPerUser !== undefined
+        ? data.maxRedemptionsPerUser
+        : currentData.maxRedemptionsPerUser,
+      tourId: data.tourId !== undefined ? data.tourId : currentData.tourId,
+      destinationId: data.destinationId !== undefined ? data.destinationId : currentData.destinationId
+    });
+  }
+
+  private static validateTerms(data: Omit<CreatePromoCodeData, 'code'>): void {
+    if (!Object.values(DiscountType).includes(data.discountType)) {
+      throw new PromoCodeValidationError('Discount type must be PERCENTAGE or FIXED_AMOUNT');
+    }
+
+    if (data.discountType === DiscountType.PERCENTAGE) {
+      if (!Number.isInteger(data.discountValue) || data.discountValue < 1 || data.discountValue > 100) {
+        throw new PromoCodeValidationError('Percentage discounts must be an integer between 1 and 100');
+      }
+      if (data.currency) {
+        throw new PromoCodeValidationError('Percentage discounts do not have a currency');
+      }
+    } else {
+      if (!Number.isSafeInteger(data.discountValue) || data.discountValue < 1) {
+        throw new PromoCodeValidationError('Fixed discounts must be a positive whole number of minor units');
+      }
+      if (!ExchangeRateValidator.isSupportedCurrency(data.currency)) {
+        throw new PromoCodeValidationError('Fixed discounts need a supported currency');
+      }
+    }
+
+    if (data.tourId && data.destinationId) {
+      throw new PromoCodeValidationError('A code can be limited to a tour or a destination, not both');
+    }
+
+    if (data.minTravelers !== undefined && (!Number.isInteger(data.minTravelers) || data.minTravelers < 1)) {
+      throw new PromoCodeValidationError('Minimum travelers must be a positive integer');
+    }
+
+    for (const date of [data.validFrom, data.validUntil]) {
+      if (date && isNaN(new Date(date).getTime())) {
+        throw new PromoCodeValidationError('Validity dates must be valid dates');
+      }
+    }
+
+    if (data.validFrom && data.validUntil && new Date(data.validUntil) <= new Date(data.validFrom)) {
+      throw new PromoCodeValidationError('A code must end after it starts');
+    }
+
+    for (const limit of [data.maxRedemptions, data.maxRedemptionsPerUser]) {
+      if (limit !== undefined && limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+        throw new PromoCodeValidationError('Redemption limits must be positive integers');
+      }
+    }
+  }
+}
+
+export class PromoCodeRules {
+  /**
+   * Throws a PromoCodeValidationError saying why the code cannot be used, if it cannot
+   */
+  static assertApplicable(promo: PromoCode, context: PromoCodeContext, usage: PromoCodeUsage): void {
+    const now = context.now ?? new Date();
+
+    if (!promo.isActive) {
+      throw new PromoCodeValidationError('This promo code is no longer active');
+    }
+
+    if (promo.validFrom && now < promo.validFrom) {
+      throw new PromoCodeValidationError('This promo code is not valid yet');
+    }
+
+    if (promo.validUntil && now > promo.validUntil) {
+      throw new PromoCodeValidationError('This promo code has expired');
+    }
+
+    if ((promo.tourId && promo.tourId !== context.tourId) ||
+        (promo.destinationId && promo.destinationId !== context.destinationId)) {
+      throw new PromoCodeValidationError('This promo code does not apply to this tour');
+    }
+
+    if (context.travelersCount < promo.minTravelers) {
+      throw new PromoCodeValidationError(`This promo code needs at least ${promo.minTravelers} travelers`);
+    }
+
+    if (promo.maxRedemptions !== null && usage.total >= promo.maxRedemptions) {
+      throw new PromoCodeValidationError('This promo code has been fully redeemed');
+    }
+
+    if (promo.maxRedemptionsPerUser !== null && usage.byUser >= promo.maxRedemptionsPerUser) {
+      throw new PromoCodeValidationError('You have already used this promo code');
+    }
+  }
+
+  /**
+   * Discount off a subtotal, never more than the subtotal. Fixed discounts are converted
+   * into the subtotal's currency at rate (1 unit of the code's currency in the subtotal's).
+   */
+  static discount(promo: PromoCode, subtotal: Money, rate: number = 1): Money {
+    const discount = promo.discountType === DiscountType.PERCENTAGE
+      ? subtotal.percent(Number(promo.discountValue))
+      : Money.of(promo.discountValue, promo.currency ?? subtotal.currency).convert(rate, subtotal.currency);
+
+    return discount.amount > subtotal.amount ? subtotal : discount;
+  }
+
+  static breakdown(subtotal: Money, discount: Money = Money.zero(subtotal.currency)): PriceBreakdown {
+    return { subtotal, discount, total: subtotal.subtract(discount) };
+  }
+}
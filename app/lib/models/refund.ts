@@ -0,0 +1,97 @@
+import { BookingStatus, PaymentStatus, Refund as PrismaRefund, RefundStatus } from '@prisma/client';
+import { MinorUnits } from './money';
+
+export type Refund = PrismaRefund;
+
+export interface RefundAmounts {
+  amount: MinorUnits;
+  status: RefundStatus;
+}
+
+// Payments that took money from the customer, whether or not some of it went back
+export const CAPTURED_PAYMENT_STATUSES: PaymentStatus[] = ['SUCCESS', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+export class RefundValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundValidationError';
+  }
+}
+
+export class RefundValidator {
+  static validateRefund(amount: number, refundableAmount: number, reason?: string): void {
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new RefundValidationError('Refund amount must be a positive whole number of minor units');
+    }
+
+    if (amount > refundableAmount) {
+      throw new RefundValidationError(`Refund amount cannot exceed the ${refundableAmount} minor units still refundable`);
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      throw new RefundValidationError('A reason is required for a refund');
+    }
+  }
+}
+
+export class PaymentRefunds {
+  /**
+   * Money already returned to the customer
+   */
+  static refundedAmount(refunds: RefundAmounts[]): number {
+    return this.sum(refunds.filter(refund => refund.status === 'SUCCESS'));
+  }
+
+  /**
+   * Returned or on its way back; pending refunds count so they cannot be issued twice
+   */
+  static committedAmount(refunds: RefundAmounts[]): number {
+    return this.sum(refunds.filter(refund => refund.status !== 'FAILED'));
+  }
+
+  static refundableAmount(payment: { amount: MinorUnits; status: PaymentStatus }, refunds: RefundAmounts[]): number {
+    if (!CAPTURED_PAYMENT_STATUSES.includes(payment.status)) {
+      return 0;
+    }
+    return Math.max(0, Number(payment.amount) - this.committedAmount(refunds));
+  }
+
+  /**
+   * Payment status once its successful refunds are taken into account
+   */
+  static paymentStatus(payment: { amount: MinorUnits; status: PaymentStatus }, refunds: RefundAmounts[]): PaymentStatus {
+    if (!CAPTURED_PAYMENT_STATUSES.includes(payment.status)) {
+      return payment.status;
+    }
+
+    const refunded = this.refundedAmount(refunds);
+    if (refunded <= 0) return 'SUCCESS';
+    return refunded >= Number(payment.amount) ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+  }
+
+  /**
+   * Whether the booking has been paid back in full: the refund due on a cancelled
+   * booking, or everything paid on a booking that is still going ahead
+   */
+  static settlesBooking(
+    booking: { status: BookingStatus; refundAmount: MinorUnits | null },
+    paidAmount: number,
+    refundedAmount: number
+  ): boolean {
+    if (refundedAmount <= 0) return false;
+
+    switch (booking.status) {
+      case 'CANCELLED':
+        return refundedAmount >= Number(booking.refundAmount ?? paidAmount);
+      case 'CONFIRMED':
+        return refundedAmount >= paidAmount;
+      default:
+        return false;
+    }
+  }
+
+  // Amounts are integer minor units, so the sum is exact
+  private static sum(refunds: RefundAmounts[]): number {
+    return refunds.reduce((total, refund) => total + Number(refund.amount), 0);
+  }
+}
@@ -1,4 +1,6 @@
 import { Tour as PrismaTour, TourStatus, Difficulty } from '@prisma/client';
+import { ExchangeRateValidator, SUPPORTED_CURRENCIES } from './exchange-rate';
+import { Money, MONEY_LIMITS } from './money';
 
 export type Tour = PrismaTour;
 
@@ -14,6 +16,7 @@ export interface CreateTourData {
   description: string;
   durationDays: number;
   pricePerPerson: number;
+  currency?: string;
   maxGroupSize: number;
   difficulty?: Difficulty;
   inclusions: string[];
@@ -21,6 +24,7 @@ export interface CreateTourData {
   itinerary: ItineraryDay[];
   images: string[];
   status?: TourStatus;
+  modificationCutoffDays?: number | null;
 }
 
 export interface UpdateTourData {
@@ -29,6 +33,7 @@ export interface UpdateTourData {
   description?: string;
   durationDays?: number;
   pricePerPerson?: number;
+  currency?: string;
   maxGroupSize?: number;
   difficulty?: Difficulty;
   inclusions?: string[];
@@ -36,6 +41,7 @@ export interface UpdateTourData {
   itinerary?: ItineraryDay[];
   images?: string[];
   status?: TourStatus;
+  modificationCutoffDays?: number | null;
 }
 
 export class TourValidationError extends Error {
@@ -80,13 +86,11 @@ export class TourValidator {
     }
 
     // Validate pricing
-    if (typeof data.pricePerPerson !== 'number' || data.pricePerPerson <= 0 || isNaN(data.pricePerPerson)) {
-      throw new TourValidationError('Price per person must be a positive number');
+    if (data.currency !== undefined && !ExchangeRateValidator.isSupportedCurrency(data.currency)) {
+      throw new TourValidationError(`Currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}`);
     }
 
-    if (data.pricePerPerson > 100000) {
-      throw new TourValidationError('Price per person cannot exceed $100,000');
-    }
+    this.validatePrice(data.pricePerPerson, data.currency ?? 'USD');
 
     // Validate group size
     if (!Number.isInteger(data.maxGroupSize) || data.maxGroupSize <= 0) {
@@ -97,6 +101,8 @@ export class TourValidator {
       throw new TourValidationError('Max group size cannot exceed 100');
     }
 
+    this.validateModificationCutoff(data.modificationCutoffDays);
+
     // Validate difficulty
     if (data.difficulty && !Object.values(Difficulty).includes(data.difficulty)) {
       throw new TourValidationError('Invalid difficulty level');
@@ -164,7 +170,7 @@ export class TourValidator {
     }
   }
 
-  static validateUpdateData(data: UpdateTourData): void {
+  static validateUpdateData(data: UpdateTourData, currentData?: Pick<Tour, 'pricePerPerson' | 'currency'>): void {
     if (data.destinationId !== undefined) {
       if (!data.destinationId || data.destinationId.trim().length === 0) {
         throw new TourValidationError('Destination ID cannot be empty');
@@ -198,13 +204,14 @@ export class TourValidator {
       }
     }
 
-    if (data.pricePerPerson !== undefined) {
-      if (typeof data.pricePerPerson !== 'number' || data.pricePerPerson <= 0 || isNaN(data.pricePerPerson)) {
-        throw new TourValidationError('Price per person must be a positive number');
-      }
-      if (data.pricePerPerson > 100000) {
-        throw new TourValidationError('Price per person cannot exceed $100,000');
-      }
+    if (data.currency !== undefined && !ExchangeRateValidator.isSupportedCurrency(data.currency)) {
+      throw new TourValidationError(`Currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+
+    // A new price, or the current one in a new currency, must be within that currency's limit
+    const pricePerPerson = data.pricePerPerson ?? (currentData && Number(currentData.pricePerPerson));
+    if ((data.pricePerPerson !== undefined || data.currency !== undefined) && pricePerPerson !== undefined) {
+      this.validatePrice(pricePerPerson, data.currency ?? currentData?.currency ?? 'USD');
     }
 
     if (data.maxGroupSize !== undefined) {
@@ -216,6 +223,8 @@ export class TourValidator {
       }
     }
 
+    this.validateModificationCutoff(data.modificationCutoffDays);
+
     if (data.difficulty !== undefined && data.difficulty !== null) {
       if (!Object.values(Difficulty).includes(data.difficulty)) {
         throw new TourValidationError('Invalid difficulty level');
@@ -315,6 +324,27 @@ export class TourValidator {
     }
   }
 
+  // Null falls back to the default cutoff
+  private static validateModificationCutoff(days: number | null | undefined): void {
+    if (days === undefined || days === null) return;
+
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      throw new TourValidationError('Modification cutoff must be a whole number of days between 0 and 365');
+    }
+  }
+
+  // The most a tour may charge depends on its currency
+  private static validatePrice(pricePerPerson: number, currency: string): void {
+    if (!Number.isSafeInteger(pricePerPerson) || pricePerPerson <= 0) {
+      throw new TourValidationError('Price per person must be a positive whole number of minor units');
+    }
+
+    const limit = MONEY_LIMITS[currency].pricePerPerson;
+    if (pricePerPerson > limit) {
+      throw new TourValidationError(`Price per person cannot exceed ${Money.of(limit, currency).format()}`);
+    }
+  }
+
   private static isValidImageUrl(url: string): boolean {
     try {
       new URL(url);
@@ -0,0 +1,226 @@
+import type { Traveler as PrismaTraveler, TravelerType, BookingStatus } from '@prisma/client';
+import { TravelerMix } from './pricing';
+
+export type Traveler = PrismaTraveler;
+
+// A traveler as entered on the booking flow, with passport fields in the clear
+export interface TravelerDetails {
+  travelerType: TravelerType;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date;
+  nationality?: string | null;
+  passportNumber?: string | null;
+  passportExpiry?: Date | null;
+  dietaryRequirements?: string | null;
+  emergencyContactName?: string | null;
+  emergencyContactPhone?: string | null;
+}
+
+export interface TravelingDeparture {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ManifestEntry extends TravelerDetails {
+  bookingId: string;
+  bookingStatus: BookingStatus;
+  bookedBy: string;
+}
+
+// Everyone travelling on one departure, for guides and hotels
+export interface DepartureManifest {
+  departure: {
+    id: string;
+    tourTitle: string;
+    startDate: Date;
+    endDate: Date;
+  };
+  travelers: ManifestEntry[];
+  missingTravelers: number; // Seats booked without traveler details
+}
+
+// Outcome of a run of the passport re-encryption job
+export interface ReencryptionSummary {
+  reencrypted: number;
+  skipped: number; // Changed while the job ran; the next run picks them up
+  failed: number; // No configured key decrypts them
+}
+
+// Travelers read per query by the re-encryption job
+export const REENCRYPT_BATCH_SIZE = 200;
+
+export const MANIFEST_COLUMNS: { header: string; value: (entry: ManifestEntry) => string }[] = [
+  { header: 'Last name', value: entry => entry.lastName },
+  { header: 'First name', value: entry => entry.firstName },
+  { header: 'Type', value: entry => entry.travelerType },
+  { header: 'Date of birth', value: entry => isoDay(entry.dateOfBirth) },
+  { header: 'Nationality', value: entry => entry.nationality ?? '' },
+  { header: 'Passport', value: entry => entry.passportNumber ?? '' },
+  { header: 'Passport expiry', value: entry => entry.passportExpiry ? isoDay(entry.passportExpiry) : '' },
+  { header: 'Dietary requirements', value: entry => entry.dietaryRequirements ?? '' },
+  { header: 'Emergency contact', value: entry => entry.emergencyContactName ?? '' },
+  { header: 'Emergency phone', value: entry => entry.emergencyContactPhone ?? '' },
+  { header: 'Booking', value: entry => entry.bookingId },
+  { header: 'Status', value: entry => entry.bookingStatus },
+  { header: 'Booked by', value: entry => entry.bookedBy }
+];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 500;
+const ADULT_AGE = 18;
+const SENIOR_AGE = 65;
+const PASSPORT_NUMBER = /^[A-Z0-9]{5,20}$/;
+const PHONE_NUMBER = /^\+?[0-9 ()-]{6,20}$/;
+
+function isoDay(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+export class TravelerValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TravelerValidationError';
+  }
+}
+
+export class TravelerValidator {
+  /**
+   * One set of details per traveler on the booking, with the same number of children and
+   * seniors the booking was priced for, each old enough or young enough on the departure date
+   */
+  static validateTravelers(travelers: TravelerDetails[], mix: TravelerMix, departure: TravelingDeparture): void {
+    const travelersCount = mix.adults + mix.children + mix.seniors;
+    if (!Array.isArray(travelers) || travelers.length !== travelersCount) {
+      throw new TravelerValidationError(`Details are required for each of the ${travelersCount} travelers`);
+    }
+
+    const count = (travelerType: TravelerType) => travelers.filter(traveler => traveler.travelerType === travelerType).length;
+    if (count('ADULT') !== mix.adults || count('CHILD') !== mix.children || count('SENIOR') !== mix.seniors) {
+      throw new TravelerValidationError(
+        `Travelers must be ${mix.adults} adults, ${mix.children} children and ${mix.seniors} seniors, as booked`
+      );
+    }
+
+    travelers.forEach((traveler, index) => this.validateTraveler(traveler, departure, index + 1));
+  }
+
+  static validateTraveler(traveler: TravelerDetails, departure: TravelingDeparture, position: number = 1): void {
+    const label = `Traveler ${position}`;
+
+    for (const [field, value] of [['First name', traveler.firstName], ['Last name', traveler.lastName]] as const) {
+      if (!value || value.trim().length === 0 || value.length > MAX_NAME_LENGTH) {
+        throw new TravelerValidationError(`${label}: ${field} is required and must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+
+    if (!this.isValidDate(traveler.dateOfBirth) || new Date(traveler.dateOfBirth) >= new Date()) {
+      throw new TravelerValidationError(`${label}: Date of birth must be a date in the past`);
+    }
+
+    const age = this.ageOn(traveler.dateOfBirth, departure.startDate);
+    if (traveler.travelerType === 'CHILD' && age >= ADULT_AGE) {
+      throw new TravelerValidationError(`${label}: Children must be under ${ADULT_AGE} on the departure date`);
+    }
+    if (traveler.travelerType === 'ADULT' && age < ADULT_AGE) {
+      throw new TravelerValidationError(`${label}: Travelers under ${ADULT_AGE} on the departure date must be booked as children`);
+    }
+    if (traveler.travelerType === 'SENIOR' && age < SENIOR_AGE) {
+      throw new TravelerValidationError(`${label}: Seniors must be at least ${SENIOR_AGE} on the departure date`);
+    }
+
+    if (traveler.nationality && traveler.nationality.length > MAX_NAME_LENGTH) {
+      throw new TravelerValidationError(`${label}: Nationality must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (traveler.passportNumber) {
+      if (!PASSPORT_NUMBER.test(this.normalizePassportNumber(traveler.passportNumber))) {
+        throw new TravelerValidationError(`${label}: Passport number must be 5 to 20 letters and digits`);
+      }
+      if (!this.isValidDate(traveler.passportExpiry)) {
+        throw new TravelerValidationError(`${label}: Passport expiry date is required with a passport number`);
+      }
+      if (new Date(traveler.passportExpiry) <= new Date(departure.endDate)) {
+        throw new TravelerValidationError(`${label}: Passport must be valid until after the tour ends`);
+      }
+    } else if (traveler.passportExpiry) {
+      throw new TravelerValidationError(`${label}: Passport expiry date given without a passport number`);
+    }
+
+    if (traveler.dietaryRequirements && traveler.dietaryRequirements.length > MAX_NOTE_LENGTH) {
+      throw new TravelerValidationError(`${label}: Dietary requirements must be at most ${MAX_NOTE_LENGTH} characters`);
+    }
+
+    if (traveler.emergencyContactName && traveler.emergencyContactName.length > MAX_NAME_LENGTH) {
+      throw new TravelerValidationError(`${label}: Emergency contact name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (traveler.emergencyContactPhone && !PHONE_NUMBER.test(traveler.emergencyContactPhone.trim())) {
+      throw new TravelerValidationError(`${label}: Emergency contact phone is not a valid phone number`);
+    }
+  }
+
+  /**
+   * Details as they arrive in a request body, with dates still as strings
+   */
+  static fromRequest(traveler: Record<string, string | undefined>): TravelerDetails {
+    return {
+      travelerType: traveler.travelerType as TravelerType,
+      firstName: traveler.firstName ?? '',
+      lastName: traveler.lastName ?? '',
+      dateOfBirth: new Date(traveler.dateOfBirth ?? ''),
+      nationality: traveler.nationality,
+      passportNumber: traveler.passportNumber,
+      passportExpiry: traveler.passportExpiry ? new Date(traveler.passportExpiry) : null,
+      dietaryRequirements: traveler.dietaryRequirements,
+      emergencyContactName: traveler.emergencyContactName,
+      emergencyContactPhone: traveler.emergencyContactPhone
+    };
+  }
+
+  /**
+   * Details as they are stored, with whitespace trimmed and passport numbers in upper case
+   */
+  static normalize(traveler: TravelerDetails): TravelerDetails {
+    const optional = (value: string | null | undefined) => value?.trim() || null;
+
+    return {
+      travelerType: traveler.travelerType,
+      firstName: traveler.firstName.trim(),
+      lastName: traveler.lastName.trim(),
+      dateOfBirth: new Date(traveler.dateOfBirth),
+      nationality: optional(traveler.nationality),
+      passportNumber: traveler.passportNumber ? this.normalizePassportNumber(traveler.passportNumber) : null,
+      passportExpiry: traveler.passportExpiry ? new Date(traveler.passportExpiry) : null,
+      dietaryRequirements: optional(traveler.dietaryRequirements),
+      emergencyContactName: optional(traveler.emergencyContactName),
+      emergencyContactPhone: optional(traveler.emergencyContactPhone)
+    };
+  }
+
+  static normalizePassportNumber(passportNumber: string): string {
+    return passportNumber.replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  /**
+   * A passport number showing only its last three characters, for the customer's own pages
+   */
+  static maskPassportNumber(passportNumber: string): string {
+    return '•'.repeat(Math.max(passportNumber.length - 3, 0)) + passportNumber.slice(-3);
+  }
+
+  // Whole years of age on a date, counting birthdays by UTC calendar day
+  static ageOn(dateOfBirth: Date, date: Date): number {
+    const born = new Date(dateOfBirth);
+    const on = new Date(date);
+    const age = on.getUTCFullYear() - born.getUTCFullYear();
+    const hadBirthday = on.getUTCMonth() > born.getUTCMonth() ||
+      (on.getUTCMonth() === born.getUTCMonth() && on.getUTCDate() >= born.getUTCDate());
+
+    return hadBirthday ? age : age - 1;
+  }
+
+  private static isValidDate(date: Date | null | undefined): date is Date {
+    return !!date && !isNaN(new Date(date).getTime());
+  }
+}
@@ -2,6 +2,46 @@ import { User as PrismaUser, UserRole } from '@prisma/client';
 
 export type User = PrismaUser;
 
+// E.164: a plus, then the country code and number, 8 to 15 digits in all
+const E164_PHONE = /^\+[1-9]\d{7,14}$/;
+
+// Separators people write phone numbers with
+const PHONE_SEPARATORS = /[\s\-().]/g;
+
+// Users shown per page in the admin console, and the most one page may hold
+export const USER_PAGE_SIZE = 20;
+export const USER_MAX_PAGE_SIZE = 100;
+
+// How long the set-password link in a staff invite works
+export const USER_INVITE_DAYS = 7;
+
+export const USER_ACCOUNT_STATUSES = ['active', 'suspended', 'invited', 'deleted'] as const;
+
+// Invited users have not chosen a password yet; deleted accounts are kept, anonymised, for their bookings
+export type UserAccountStatus = typeof USER_ACCOUNT_STATUSES[number];
+
+// What the admin console shows of an account; never the password hash
+export type UserSummary = Pick<
+  User,
+  'id' | 'name' | 'email' | 'role' | 'phone' | 'suspendedAt' | 'suspensionReason' | 'invitedAt' | 'deletedAt' | 'createdAt'
+> & {
+  status: UserAccountStatus;
+};
+
+export interface UserListFilters {
+  search?: string; // Part of a name or email address
+  role?: UserRole;
+  status?: UserAccountStatus;
+  page: number;
+  limit: number;
+}
+
+export interface InviteUserData {
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
 export interface CreateUserData {
   name: string;
   email: string;
@@ -24,6 +64,16 @@ export class UserValidationError extends Error {
   }
 }
 
+/**
+ * Thrown when a suspended user signs in with the right password, so they are told why
+ */
+export class AccountSuspendedError extends Error {
+  constructor() {
+    super('This account has been suspended');
+    this.name = 'AccountSuspendedError';
+  }
+}
+
 export class UserValidator {
   static validateCreateData(data: CreateUserData): void {
     if (!data.name || data.name.trim().length === 0) {
@@ -50,8 +100,8 @@ export class UserValidator {
       throw new UserValidationError('Password must be at least 8 characters long');
     }
 
-    if (data.phone && !this.isValidPhone(data.phone)) {
-      throw new UserValidationError('Invalid phone number format');
+    if (data.phone) {
+      this.normalizePhone(data.phone);
     }
 
     if (data.role && !Object.values(UserRole).includes(data.role)) {
@@ -78,8 +128,8 @@ export class UserValidator {
       }
     }
 
-    if (data.phone !== undefined && data.phone !== null && !this.isValidPhone(data.phone)) {
-      throw new UserValidationError('Invalid phone number format');
+    if (data.phone !== undefined && data.phone !== null) {
+      this.normalizePhone(data.phone);
     }
 
     if (data.role !== undefined && !Object.values(UserRole).includes(data.role)) {
@@ -87,6 +137,106 @@ export class UserValidator {
     }
   }
 
+  static validateRole(role: unknown): UserRole {
+    if (typeof role !== 'string' || !Object.values(UserRole).includes(role.toUpperCase() as UserRole)) {
+      throw new UserValidationError(`Role must be one of ${Object.values(UserRole).join(', ')}`);
+    }
+
+    return role.toUpperCase() as UserRole;
+  }
+
+  static validateListFilters(query: {
+    search?: string | null;
+    role?: string | null;
+    status?: string | null;
+    page?: string | null;
+    limit?: string | null;
+  }): UserListFilters {
+    const page = query.page ? parseInt(query.page, 10) : 1;
+    const limit = query.limit ? parseInt(query.limit, 10) : USER_PAGE_SIZE;
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new UserValidationError('Page must be a positive whole number');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > USER_MAX_PAGE_SIZE) {
+      throw new UserValidationError(`Limit must be between 1 and ${USER_MAX_PAGE_SIZE}`);
+    }
+
+    const status = query.status?.toLowerCase();
+    if (status && !USER_ACCOUNT_STATUSES.includes(status as UserAccountStatus)) {
+      throw new UserValidationError(`Status must be one of ${USER_ACCOUNT_STATUSES.join(', ')}`);
+    }
+
+    return {
+      search: query.search?.trim() || undefined,
+      role: query.role ? this.validateRole(query.role) : undefined,
+      status: status ? status as UserAccountStatus : undefined,
+      page,
+      limit
+    };
+  }
+
+  /**
+   * Invites bring in staff and admins; customers sign up for themselves
+   */
+  static validateInviteData(data: Partial<InviteUserData>): InviteUserData {
+    if (!data.name || data.name.trim().length < 2) {
+      throw new UserValidationError('Name must be at least 2 characters long');
+    }
+
+    if (!data.email || !this.isValidEmail(data.email.trim())) {
+      throw new UserValidationError('Invalid email format');
+    }
+
+    const role = this.validateRole(data.role ?? UserRole.STAFF);
+    if (role === UserRole.CUSTOMER) {
+      throw new UserValidationError('Only staff and admins can be invited');
+    }
+
+    return {
+      name: data.name.trim(),
+      email: data.email.trim().toLowerCase(),
+      role
+    };
+  }
+
+  static validateSuspensionReason(reason: unknown): string {
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new UserValidationError('A reason for the suspension is required');
+    }
+
+    if (reason.trim().length > 500) {
+      throw new UserValidationError('Suspension reason must be 500 characters or fewer');
+    }
+
+    return reason.trim();
+  }
+
+  /**
+   * Where an account stands: deleted, suspended, invited and still to choose a password, or active
+   */
+  static accountStatus(user: Pick<User, 'suspendedAt' | 'invitedAt' | 'deletedAt' | 'passwordHash'>): UserAccountStatus {
+    if (user.deletedAt) {
+      return 'deleted';
+    }
+
+    if (user.suspendedAt) {
+      return 'suspended';
+    }
+
+    return user.invitedAt && !user.passwordHash ? 'invited' : 'active';
+  }
+
+  /**
+   * Admins cannot demote, suspend or delete themselves, so they cannot lock themselves out
+   */
+  static assertNotSelf(actorId: string, userId: string, action: string): void {
+    if (actorId === userId) {
+      throw new UserValidationError(`You cannot ${action} your own account`);
+    }
+  }
+
   static hasPermission(user: User, requiredRole: UserRole): boolean {
     const roleHierarchy = {
       [UserRole.CUSTOMER]: 0,
@@ -105,14 +255,32 @@ export class UserValidator {
     return user.role === UserRole.STAFF || user.role === UserRole.ADMIN;
   }
 
+  /**
+   * A phone number in E.164 form, e.g. "+233 (0)24-123 4567" as "+233241234567".
+   * "00" works as the international prefix. A number without one is only accepted with a
+   * default country code, which replaces its leading trunk 0.
+   */
+  static normalizePhone(phone: string, defaultCountryCode?: string): string {
+    let digits = phone.trim().replace(/\(0\)/g, '').replace(PHONE_SEPARATORS, '');
+
+    if (digits.startsWith('00')) {
+      digits = `+${digits.slice(2)}`;
+    } else if (!digits.startsWith('+')) {
+      if (!defaultCountryCode) {
+        throw new UserValidationError('Phone number must include the country code, e.g. +233 24 123 4567');
+      }
+      digits = `+${defaultCountryCode.replace(/^\+/, '')}${digits.replace(/^0/, '')}`;
+    }
+
+    if (!E164_PHONE.test(digits)) {
+      throw new UserValidationError('Invalid phone number format');
+    }
+
+    return digits;
+  }
+
   private static isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
   }
-
-  private static isValidPhone(phone: string): boolean {
-    // Basic phone validation - accepts various international formats
-    const phoneRegex = /^\+?[\d\s\-\(\)]{10,}$/;
-    return phoneRegex.test(phone);
-  }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import type { WaitlistEntry as PrismaWaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { TourPricing } from './pricing';
+
+export type WaitlistEntry = PrismaWaitlistEntry;
+
+// How long released seats are held for a waitlisted customer to claim them
+export const WAITLIST_OFFER_HOURS = 24;
+
+// Entries still in line or holding an offer; a customer has at most one per departure
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+export interface JoinWaitlistData {
+  userId: string;
+  availabilityId: string;
+  travelersCount: number;
+  childrenCount?: number; // Of travelersCount; the rest are adults
+  seniorsCount?: number;
+}
+
+// Waitlist depth of one departure, for the admin departures view
+export interface WaitlistDepth {
+  waiting: number; // Entries in line
+  waitingTravelers: number; // Seats they are waiting for
+  offered: number; // Entries holding an offer
+  offeredSlots: number; // Seats held for those offers
+}
+
+export class WaitlistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaitlistValidationError';
+  }
+}
+
+export class WaitlistRules {
+  static validateJoinData(data: JoinWaitlistData): void {
+    if (!Number.isInteger(data.travelersCount) || data.travelersCount <= 0) {
+      throw new WaitlistValidationError('Travelers count must be a positive whole number');
+    }
+
+    TourPricing.travelerMix(data.travelersCount, data.childrenCount, data.seniorsCount);
+  }
+
+  /**
+   * Only a departure that is going ahead and has too few seats for the group can be waited for;
+   * one with enough seats is simply booked
+   */
+  static assertCanJoin(
+    departure: { availableSlots: number; startDate: Date; cancelledAt: Date | null },
+    travelersCount: number,
+    now: Date = new Date()
+  ): void {
+    if (departure.cancelledAt) {
+      throw new WaitlistValidationError('This departure has been cancelled');
+    }
+
+    if (departure.startDate <= now) {
+      throw new WaitlistValidationError('This departure has already left');
+    }
+
+    if (departure.availableSlots >= travelersCount) {
+      throw new WaitlistValidationError('This departure still has seats for your group; book them directly');
+    }
+  }
+
+  /**
+   * The waiting entries to offer seats to, first come first served. An entry whose group does
+   * not fit the seats left keeps its place while smaller groups behind it are offered seats.
+   */
+  static nextOffers<Entry extends { travelersCount: number }>(waiting: Entry[], availableSlots: number): Entry[] {
+    const offers: Entry[] = [];
+    let seatsLeft = availableSlots;
+
+    for (const entry of waiting) {
+      if (entry.travelersCount <= seatsLeft) {
+        offers.push(entry);
+        seatsLeft -= entry.travelersCount;
+      }
+    }
+
+    return offers;
+  }
+
+  // Offers run for WAITLIST_OFFER_HOURS, but never past the departure itself
+  static offerExpiresAt(departureStart: Date, now: Date = new Date()): Date {
+    const expiresAt = new Date(now.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000);
+    return expiresAt < departureStart ? expiresAt : new Date(departureStart);
+  }
+}
@@ -0,0 +1,436 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Mailer } from './email-transports';
+import { SmsSender } from './sms-gateways';
+import { WaitlistService } from './waitlist';
+import { EmailTemplates } from '../templates/email-templates';
+import { UserValidator } from '../models/user';
+import { ACTIVE_WAITLIST_STATUSES } from '../models/waitlist';
+import {
+  AccountRules,
+  AccountValidationError,
+  DELETED_PHONE,
+  DELETED_TRAVELER,
+  DELETED_USER_NAME,
+  EMAIL_CHANGE_TOKEN_HOURS,
+  ProfileUpdateData,
+  UserProfile,
+} from '../models/account';
+
+const appUrl = () => process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+// What the profile shows, plus the password hash only to tell whether the account has one
+const profileFields = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  role: true,
+  createdAt: true,
+  passwordHash: true
+} as const;
+
+export class AccountService {
+  static async getProfile(userId: string, now: Date = new Date()): Promise<UserProfile> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: profileFields
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const pending = await prisma.emailChangeToken.findFirst({
+      where: { userId, usedAt: null, expiresAt: { gt: now } },
+      orderBy: { createdAt: 'desc' },
+      select: { newEmail: true }
+    });
+
+    const { passwordHash, ...profile } = user;
+
+    return {
+      ...profile,
+      hasPassword: passwordHash !== '',
+      pendingEmail: pending?.newEmail ?? null
+    };
+  }
+
+  /**
+   * Change the user's name or phone number; an empty phone number removes it
+   */
+  static async updateProfile(userId: string, data: ProfileUpdateData): Promise<UserProfile> {
+    UserValidator.validateUpdateData({ name: data.name });
+    const phone = data.phone === undefined ? undefined : data.phone?.trim() ? SmsSender.normalizePhone(data.phone) : null;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(phone !== undefined ? { phone } : {})
+      }
+    });
+
+    return await this.getProfile(userId);
+  }
+
+  /**
+   * Change the password, given the current one. Every session the user has open is signed
+   * out, this one included, and reset links sent before it stop working.
+   */
+  static async changePassword(
+    userId: string,
+    currentPassword: unknown,
+    newPassword: unknown,
+    now: Date = new Date()
+  ): Promise<void> {
+    const user = await this.findWithPassword(userId);
+
+    if (!user.passwordHash) {
+      throw new AccountValidationError('This account has no password yet; use "Forgot password" to set one');
+    }
+
+    await this.assertPassword(user.passwordHash, currentPassword);
+    const password = AccountRules.validateNewPassword(newPassword);
+
+    if (await bcrypt.compare(password, user.passwordHash)) {
+      throw new AccountValidationError('New password must be different from the current one');
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now }
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          passwordHash,
+          sessionVersion: { increment: 1 }
+        }
+      });
+    });
+  }
+
+  /**
+   * Email a link to the new address that makes it the account's email once used. Accounts
+   * with a password must give it. Links sent for earlier requests stop working.
+   */
+  static async requestEmailChange(
+    userId: string,
+    newEmail: unknown,
+    currentPassword: unknown,
+    now: Date = new Date()
+  ): Promise<{ pendingEmail: string; emailSent: boolean }> {
+    const user = await this.findWithPassword(userId);
+
+    if (user.passwordHash) {
+      await this.assertPassword(user.passwordHash, currentPassword);
+    }
+
+    const email = AccountRules.validateNewEmail(newEmail, user.email);
+    await this.assertEmailAvailable(email);
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await prisma.$transaction(async (tx) => {
+      await tx.emailChangeToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now }
+      });
+
+      await tx.emailChangeToken.create({
+        data: {
+          userId,
+          newEmail: email,
+          tokenHash: this.hashToken(token),
+          expiresAt: AccountRules.emailChangeExpiresAt(now),
+          createdAt: now
+        }
+      });
+    });
+
+    try {
+      await Mailer.send({
+        to: email,
+        ...EmailTemplates.emailChangeVerification({
+          customerName: user.name,
+          newEmail: email,
+          verifyUrl: `${appUrl()}/profile/confirm-email?token=${token}`,
+          expiresInHours: EMAIL_CHANGE_TOKEN_HOURS
+        })
+      });
+    } catch (error) {
+      console.error('Failed to send email change verification:', error);
+      return { pendingEmail: email, emailSent: false };
+    }
+
+    return { pendingEmail: email, emailSent: true };
+  }
+
+  /**
+   * Make the new address the account's email with the token from the verification link.
+   * The user is signed out everywhere and signs in again with the new address; the old
+   * address is told of the change.
+   */
+  static async confirmEmailChange(token: unknown, now: Date = new Date()): Promise<{ email: string }> {
+    if (!token || typeof token !== 'string') {
+      throw new AccountValidationError('Verification token is required');
+    }
+
+    const tokenHash = this.hashToken(token);
+
+    const { previous, email } = await prisma.$transaction(async (tx) => {
+      // Using the token and checking it is still usable is one step, so a link works only once
+      const claimed = await tx.emailChangeToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now }
+      });
+
+      const changeToken = await tx.emailChangeToken.findUnique({
+        where: { tokenHash }
+      });
+
+      if (claimed.count === 0 || !changeToken) {
+        throw new AccountValidationError(
+          changeToken?.usedAt && changeToken.expiresAt > now
+            ? 'This link has already been used'
+            : 'Invalid or expired verification link'
+        );
+      }
+
+      // Someone may have registered the address since the link was sent
+      const taken = await tx.user.findUnique({
+        where: { email: changeToken.newEmail },
+        select: { id: true }
+      });
+
+      if (taken) {
+        throw new AccountValidationError('That email address is already in use');
+      }
+
+      const previous = await tx.user.findUnique({
+        where: { id: changeToken.userId },
+        select: { name: true, email: true }
+      });
+
+      if (!previous) {
+        throw new Error('User not found');
+      }
+
+      await tx.user.update({
+        where: { id: changeToken.userId },
+        data: {
+          email: changeToken.newEmail,
+          sessionVersion: { increment: 1 }
+        }
+      });
+
+      return { previous, email: changeToken.newEmail };
+    });
+
+    try {
+      await Mailer.send({
+        to: previous.email,
+        ...EmailTemplates.emailChanged({ customerName: previous.name, newEmail: email })
+      });
+    } catch (error) {
+      console.error('Failed to send email changed notice:', error);
+    }
+
+    return { email };
+  }
+
+  /**
+   * Delete a customer's account. Their bookings and payments stay on record for accounting,
+   * attached to the account anonymised: no name, email, phone or password is left, nor their
+   * reviews, notifications, waitlist places or the travel documents of their travelers.
+   * Accounts with upcoming bookings must cancel them first.
+   */
+  static async deleteAccount(userId: string, currentPassword: unknown, now: Date = new Date()): Promise<void> {
+    const user = await this.findWithPassword(userId);
+
+    if (user.role !== 'CUSTOMER') {
+      throw new AccountValidationError('Staff and admin accounts are closed by an admin');
+    }
+
+    if (user.passwordHash) {
+      await this.assertPassword(user.passwordHash, currentPassword);
+    }
+
+    const upcoming = await prisma.booking.count({
+      where: {
+        userId,
+        status: { in: ['PENDING', 'CONFIRMED'] },
+        availability: { endDate: { gte: now } }
+      }
+    });
+
+    if (upcoming > 0) {
+      throw new AccountValidationError('Cancel your upcoming bookings before deleting your account');
+    }
+
+    // Leaving first gives any seats held for the user to the next in line
+    const waiting = await prisma.waitlistEntry.findMany({
+      where: { userId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+      select: { id: true }
+    });
+    for (const entry of waiting) {
+      await WaitlistService.leaveWaitlist(entry.id, userId);
+    }
+
+    const anonymisedEmail = AccountRules.anonymisedEmail(userId);
+    const replacements: [string, string][] = [
+      [user.email, anonymisedEmail],
+      [user.name, DELETED_USER_NAME],
+      [user.phone ?? '', DELETED_PHONE]
+    ];
+
+    await prisma.$transaction(async (tx) => {
+      const bookings = await tx.booking.findMany({
+        where: { userId },
+        select: { id: true, payments: { select: { id: true, refunds: { select: { id: true } } } } }
+      });
+      const bookingIds = bookings.map(booking => booking.id);
+      const payments = bookings.flatMap(booking => booking.payments);
+      const paymentIds = payments.map(payment => payment.id);
+      const refundIds = payments.flatMap(payment => payment.refunds.map(refund => refund.id));
+      const reviewIds = (await tx.review.findMany({ where: { userId }, select: { id: true } })).map(review => review.id);
+
+      await tx.review.deleteMany({ where: { userId } });
+      await tx.waitlistEntry.deleteMany({ where: { userId } });
+      await tx.notificationPreferences.deleteMany({ where: { userId } });
+      await tx.passwordResetToken.deleteMany({ where: { userId } });
+      await tx.emailChangeToken.deleteMany({ where: { userId } });
+      await tx.passwordResetRequest.deleteMany({ where: { email: { equals: user.email, mode: 'insensitive' } } });
+      await tx.notification.deleteMany({
+        where: {
+          OR: [
+            { userId },
+            { recipient: { in: [user.email, ...(user.phone ? [user.phone] : [])] } }
+          ]
+        }
+      });
+
+      // What staff were sent about the customer's bookings stays, without naming them
+      const alerts = await tx.notification.findMany({
+        where: {
+          OR: [
+            { bookingId: { in: bookingIds } },
+            { paymentId: { in: paymentIds } },
+            { subject: { contains: user.email, mode: 'insensitive' } },
+            { content: { contains: user.email, mode: 'insensitive' } }
+          ]
+        },
+        select: { id: true, subject: true, content: true }
+      });
+      for (const alert of alerts) {
+        await tx.notification.update({
+          where: { id: alert.id },
+          data: {
+            subject: AccountRules.redact(alert.subject, replacements),
+            content: AccountRules.redact(alert.content, replacements)
+          }
+        });
+      }
+
+      // The audit trail keeps who changed what, but not the customer's details in the changes
+      const entries = await tx.auditLog.findMany({
+        where: {
+          OR: [
+            { entityId: { in: [userId, ...bookingIds, ...paymentIds, ...refundIds, ...reviewIds] } },
+            { actorId: userId }
+          ]
+        },
+        select: { id: true, actorEmail: true, changes: true }
+      });
+      for (const entry of entries) {
+        await tx.auditLog.update({
+          where: { id: entry.id },
+          data: {
+            actorEmail: AccountRules.redact(entry.actorEmail, replacements),
+            changes: entry.changes === null ? Prisma.JsonNull : AccountRules.redact(entry.changes, replacements)
+          }
+        });
+      }
+
+      await tx.traveler.updateMany({
+        where: { booking: { userId } },
+        data: {
+          firstName: DELETED_TRAVELER.firstName,
+          lastName: DELETED_TRAVELER.lastName,
+          dateOfBirth: DELETED_TRAVELER.dateOfBirth,
+          nationality: null,
+          passportNumber: null,
+          passportExpiry: null,
+          dietaryRequirements: null,
+          emergencyContactName: null,
+          emergencyContactPhone: null
+        }
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          name: DELETED_USER_NAME,
+          email: anonymisedEmail,
+          phone: null,
+          passwordHash: '',
+          deletedAt: now,
+          sessionVersion: { increment: 1 }
+        }
+      });
+    });
+  }
+
+  private static async findWithPassword(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, phone: true, role: true, passwordHash: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  private static async assertPassword(passwordHash: string, password: unknown): Promise<void> {
+    if (!password || typeof password !== 'string') {
+      throw new AccountValidationError('Current password is required');
+    }
+
+    if (!(await bcrypt.compare(password, passwordHash))) {
+      throw new AccountValidationError('Current password is incorrect');
+    }
+  }
+
+  private static async assertEmailAvailable(email: string): Promise<void> {
+    const existing = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true }
+    });
+
+    if (existing) {
+      throw new AccountValidationError('That email address is already in use');
+    }
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,10 +1,15 @@
+import type { NotificationStatus } from '@prisma/client';
 import { prisma } from '../prisma';
+import { EmailTemplate, EmailTemplates } from '../templates/email-templates';
+import { Mailer } from './email-transports';
+import { NotificationCenterService } from './notification-center';
 
 export interface AdminNotificationData {
-  type: 'PAYMENT_FAILURE' | 'PAYMENT_DISPUTE' | 'NEW_BOOKING' | 'BOOKING_CANCELLATION';
+  type: 'PAYMENT_FAILURE' | 'PAYMENT_DISPUTE' | 'REFUND_FAILURE' | 'LATE_PAYMENT' | 'NEW_BOOKING' | 'BOOKING_CANCELLATION';
   paymentId?: string;
   bookingId: string;
-  amount?: number;
+  amount?: number; // Minor units of currency
+  currency?: string;
   customerName: string;
   customerEmail: string;
   tourTitle: string;
@@ -21,7 +26,7 @@ export class AdminNotificationService {
       // Get all admin users
       const adminUsers = await prisma.user.findMany({
         where: { role: 'ADMIN' },
-        select: { email: true, name: true }
+        select: { id: true, email: true, name: true }
       });
 
       if (adminUsers.length === 0) {
@@ -29,22 +34,21 @@ export class AdminNotificationService {
         return;
       }
 
-      // In a real implementation, this would integrate with an email service
-      // For now, we'll log the notification and store it in the database
-      const notificationContent = this.generateNotificationContent(data);
-      
-      console.log('Admin Notification:', {
-        type: data.type,
-        recipients: adminUsers.map(admin => admin.email),
-        content: notificationContent
-      });
+      const email = this.generateAlertEmail(data);
 
-      // Store notification in database for audit trail
-      await this.storeNotification(data, adminUsers);
+      // Every admin is emailed and gets the alert in their own notification center
+      const failures: unknown[] = [];
+      for (const admin of adminUsers) {
+        try {
+          await this.deliverAlert(data, email, admin);
+        } catch (deliveryError) {
+          failures.push(deliveryError);
+        }
+      }
 
-      // TODO: Integrate with actual email service (SendGrid, AWS SES, etc.)
-      // await this.sendEmail(adminUsers, notificationContent);
-      
+      if (failures.length > 0) {
+        throw failures[0];
+      }
     } catch (error) {
       console.error('Error sending admin notification:', error);
       throw error;
@@ -71,7 +75,8 @@ export class AdminNotificationService {
       const notificationData: AdminNotificationData = {
         type: 'NEW_BOOKING',
         bookingId: booking.id,
-        amount: booking.totalPrice,
+        amount: Number(booking.totalPrice),
+        currency: booking.currency,
         customerName: booking.user.name || 'Unknown',
         customerEmail: booking.user.email,
         tourTitle: booking.tour.title
@@ -84,119 +89,117 @@ export class AdminNotificationService {
     }
   }
 
+  private static formatAmount(data: AdminNotificationData): string {
+    return data.amount === undefined ? 'Not specified' : EmailTemplates.formatAmount(data.amount, data.currency ?? 'USD');
+  }
+
   /**
-   * Generate notification content based on type
+   * Generate the alert email for a notification type
    */
-  private static generateNotificationContent(data: AdminNotificationData): string {
+  private static generateAlertEmail(data: AdminNotificationData): EmailTemplate {
+    const customer = `${data.customerName} (${data.customerEmail})`;
+    const paymentDetails: [string, string][] = [
+      ['Customer', customer],
+      ['Tour', data.tourTitle],
+      ['Amount', this.formatAmount(data)],
+      ['Payment Provider', data.provider ?? 'Not specified'],
+      ['Payment ID', data.paymentId ?? 'Not specified']
+    ];
+
     switch (data.type) {
       case 'PAYMENT_FAILURE':
-        return `
-          Payment Failure Alert
-          
-          A payment has failed for booking ${data.bookingId}.
-          
-          Details:
-          - Customer: ${data.customerName} (${data.customerEmail})
-          - Tour: ${data.tourTitle}
-          - Amount: $${data.amount}
-          - Payment Provider: ${data.provider}
-          - Payment ID: ${data.paymentId}
-          
-          Please review and take appropriate action.
-        `;
-      
+        return EmailTemplates.adminAlert({
+          subject: `Payment failed - ${data.tourTitle}`,
+          heading: 'Payment Failure Alert',
+          summary: `A payment has failed for booking ${data.bookingId}.`,
+          details: paymentDetails,
+          action: 'Please review and take appropriate action.'
+        });
+
       case 'PAYMENT_DISPUTE':
-        return `
-          Payment Dispute Alert
-          
-          A payment dispute has been raised for booking ${data.bookingId}.
-          
-          Details:
-          - Customer: ${data.customerName} (${data.customerEmail})
-          - Tour: ${data.tourTitle}
-          - Amount: $${data.amount}
-          - Payment Provider: ${data.provider}
-          - Payment ID: ${data.paymentId}
-          
-          Please investigate and respond to the dispute.
-        `;
-      
+        return EmailTemplates.adminAlert({
+          subject: `Payment disputed - ${data.tourTitle}`,
+          heading: 'Payment Dispute Alert',
+          summary: `A payment dispute has been raised for booking ${data.bookingId}.`,
+          details: paymentDetails,
+          action: 'Please investigate and respond to the dispute.'
+        });
+
+      case 'REFUND_FAILURE':
+        return EmailTemplates.adminAlert({
+          subject: `Refund failed - ${data.tourTitle}`,
+          heading: 'Refund Failure Alert',
+          summary: `A refund could not be completed for booking ${data.bookingId}.`,
+          details: [...paymentDetails, ['Reason', data.reason || 'Not specified']],
+          action: 'The customer has not been paid back. Please retry the refund or settle it manually.'
+        });
+
+      case 'LATE_PAYMENT':
+        return EmailTemplates.adminAlert({
+          subject: `Payment after seats released - ${data.tourTitle}`,
+          heading: 'Late Payment Alert',
+          summary: `A payment succeeded for booking ${data.bookingId} after its seat hold expired and the seats were no longer free.`,
+          details: [...paymentDetails, ['Refund', data.reason || 'Not specified']],
+          action: 'The booking stays expired. Please contact the customer and make sure the payment is returned.'
+        });
+
       case 'NEW_BOOKING':
-        return `
-          New Booking Alert
-          
-          A new booking has been created.
-          
-          Details:
-          - Customer: ${data.customerName} (${data.customerEmail})
-          - Tour: ${data.tourTitle}
-          - Amount: $${data.amount}
-          - Booking ID: ${data.bookingId}
-          
-          Please monitor payment status.
-        `;
-      
+        return EmailTemplates.adminAlert({
+          subject: `New booking - ${data.tourTitle}`,
+          heading: 'New Booking Alert',
+          summary: 'A new booking has been created.',
+          details: [
+            ['Customer', customer],
+            ['Tour', data.tourTitle],
+            ['Amount', this.formatAmount(data)],
+            ['Booking ID', data.bookingId]
+          ],
+          action: 'Please monitor payment status.'
+        });
+
       case 'BOOKING_CANCELLATION':
-        return `
-          Booking Cancellation Alert
-          
-          A booking has been cancelled.
-          
-          Details:
-          - Customer: ${data.customerName} (${data.customerEmail})
-          - Tour: ${data.tourTitle}
-          - Booking ID: ${data.bookingId}
-          - Reason: ${data.reason || 'Not specified'}
-          
-          Please review cancellation policy compliance.
-        `;
-      
-      default:
-        return `
-          Admin Notification
-          
-          Type: ${data.type}
-          Booking ID: ${data.bookingId}
-          Customer: ${data.customerName} (${data.customerEmail})
-          Tour: ${data.tourTitle}
-        `;
+        return EmailTemplates.adminAlert({
+          subject: `Booking cancelled - ${data.tourTitle}`,
+          heading: 'Booking Cancellation Alert',
+          summary: 'A booking has been cancelled.',
+          details: [
+            ['Customer', customer],
+            ['Tour', data.tourTitle],
+            ['Booking ID', data.bookingId],
+            ['Reason', data.reason || 'Not specified']
+          ],
+          action: 'Please review cancellation policy compliance.'
+        });
     }
   }
 
   /**
-   * Store notification in database for audit trail
+   * Email one admin the alert and record it, whether or not it went out, for the audit
+   * trail and their notification center
    */
-  private static async storeNotification(
-    data: AdminNotificationData, 
-    adminUsers: { email: string; name: string | null }[]
+  private static async deliverAlert(
+    data: AdminNotificationData,
+    email: EmailTemplate,
+    admin: { id: string; email: string; name: string | null }
   ): Promise<void> {
+    let status: NotificationStatus = 'SENT';
     try {
-      // Create notification record
-      // Note: This assumes a notifications table exists
-      // In a real implementation, you might want to create this table
-      console.log('Storing notification:', {
+      await Mailer.send({ to: admin.email, ...email });
+    } catch (error) {
+      status = 'FAILED';
+      throw error;
+    } finally {
+      await NotificationCenterService.record({
         type: data.type,
+        channel: 'EMAIL',
+        recipient: admin.email,
+        userId: admin.id,
         bookingId: data.bookingId,
         paymentId: data.paymentId,
-        recipients: adminUsers.length,
-        timestamp: new Date()
+        subject: email.subject,
+        content: email.text,
+        status
       });
-      
-      // TODO: Implement actual database storage
-      // await prisma.notification.create({
-      //   data: {
-      //     type: data.type,
-      //     bookingId: data.bookingId,
-      //     paymentId: data.paymentId,
-      //     content: this.generateNotificationContent(data),
-      //     recipients: adminUsers.map(admin => admin.email),
-      //     sentAt: new Date()
-      //   }
-      // });
-      
-    } catch (error) {
-      console.error('Error storing notification:', error);
-      // Don't throw here as notification storage failure shouldn't break the main flow
     }
   }
 
@@ -228,7 +231,8 @@ export class AdminNotificationService {
           type: 'PAYMENT_FAILURE',
           paymentId: payment.id,
           bookingId: payment.bookingId,
-          amount: payment.amount,
+          amount: Number(payment.amount),
+          currency: payment.currency,
           customerName: payment.booking.user.name || 'Unknown',
           customerEmail: payment.booking.user.email,
           tourTitle: payment.booking.tour.title,
@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { toCsv } from '../utils/csv';
+import {
+  AUDIT_EXPORT_LIMIT,
+  AuditContext,
+  AuditEntry,
+  AuditLog,
+  AuditLogFilters,
+  AuditRules,
+} from '../models/audit-log';
+
+const filterWhere = (filters: Omit<AuditLogFilters, 'page' | 'limit'>): Prisma.AuditLogWhereInput => ({
+  ...(filters.actor ? { actorEmail: { contains: filters.actor, mode: 'insensitive' } } : {}),
+  ...(filters.action ? { action: filters.action } : {}),
+  ...(filters.entityType ? { entityType: filters.entityType } : {}),
+  ...(filters.entityId ? { entityId: filters.entityId } : {}),
+  ...(filters.from || filters.until ? {
+    createdAt: {
+      ...(filters.from ? { gte: filters.from } : {}),
+      ...(filters.until ? { lt: filters.until } : {})
+    }
+  } : {})
+});
+
+export class AuditLogService {
+  /**
+   * Record an admin change once it has been made. Failing to record it is logged rather
+   * than thrown, so the admin is still told that the change itself succeeded.
+   */
+  static async record(context: AuditContext, entry: AuditEntry): Promise<AuditLog | null> {
+    const changes = AuditRules.diff(entry.before, entry.after);
+
+    try {
+      return await prisma.auditLog.create({
+        data: {
+          actorId: context.actor.id,
+          actorEmail: context.actor.email,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          changes: Object.keys(changes).length > 0 ? changes : Prisma.JsonNull,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to record audit log entry ${entry.action} ${entry.entityType} ${entry.entityId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * One page of entries, newest first
+   */
+  static async list(filters: AuditLogFilters) {
+    const where = filterWhere(filters);
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit)
+      }
+    };
+  }
+
+  /**
+   * Every entry matching the filters, newest first and up to the export limit, one per row
+   */
+  static async exportCsv(filters: AuditLogFilters): Promise<string> {
+    const entries = await prisma.auditLog.findMany({
+      where: filterWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_LIMIT
+    });
+
+    return toCsv(
+      ['Time', 'Actor', 'Action', 'Entity type', 'Entity id', 'Changes', 'IP address', 'User agent'],
+      entries.map(entry => [
+        entry.createdAt.toISOString(),
+        entry.actorEmail,
+        entry.action,
+        entry.entityType,
+        entry.entityId,
+        entry.changes === null ? '' : JSON.stringify(entry.changes),
+        entry.ipAddress || '',
+        entry.userAgent || ''
+      ])
+    );
+  }
+}
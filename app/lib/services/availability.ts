@@ -1,18 +1,74 @@
 import { prisma } from '../prisma';
 import { Prisma } from '@prisma/client';
+import {
+  CreateTourAvailabilityData,
+  TourAvailabilityValidator,
+  TourAvailabilityValidationError,
+} from '../models/tour-availability';
+import { BOOKED_STATUSES } from '../models/booking';
+import { CAPTURED_PAYMENT_STATUSES } from '../models/refund';
+import { ACTIVE_WAITLIST_STATUSES, WaitlistDepth } from '../models/waitlist';
+import { OutboxService } from './outbox';
+import { BookingService } from './booking';
+import { CancellationService } from './cancellation';
 
 export interface AvailabilityInfo {
   availabilityId: string;
   startDate: Date;
   endDate: Date;
   availableSlots: number;
+  heldSlots: number;
   maxGroupSize: number;
   canBook: boolean;
 }
 
+export interface DepartureSummary {
+  id: string;
+  tourId: string;
+  startDate: Date;
+  endDate: Date;
+  availableSlots: number;
+  bookedSlots: number;
+  heldSlots: number;
+  capacity: number;
+  activeBookings: number;
+  waitlist: WaitlistDepth;
+  cancelledAt: Date | null;
+}
+
+export interface UpdateDepartureData {
+  startDate?: Date;
+  endDate?: Date;
+  capacity?: number;
+}
+
+export interface DeleteDepartureResult {
+  deleted: boolean;
+  cancelledBookings: number;
+}
+
+export type SlotClient = Prisma.TransactionClient;
+
+// Bookings whose seats are already taken out of availableSlots
+// (mirrors BookingStateMachine.takesSeats)
+const SEAT_TAKING_BOOKINGS: Prisma.BookingWhereInput = {
+  OR: [
+    { status: { in: BOOKED_STATUSES } },
+    { status: 'PENDING', holdExpiresAt: { not: null } }
+  ]
+};
+
+export class DepartureHasBookingsError extends Error {
+  constructor(public activeBookings: number) {
+    super(`Departure has ${activeBookings} active bookings`);
+    this.name = 'DepartureHasBookingsError';
+  }
+}
+
 export class AvailabilityService {
   /**
-   * Check availability for a specific tour and date range
+   * Check availability for a specific tour and date range.
+   * Full departures are listed too, with canBook unset, so customers can join their waitlist.
    */
   static async checkAvailability(
     tourId: string,
@@ -22,9 +78,7 @@ export class AvailabilityService {
     try {
       const whereClause: Prisma.TourAvailabilityWhereInput = {
         tourId,
-        availableSlots: {
-          gt: 0
-        }
+        cancelledAt: null
       };
 
       if (startDate) {
@@ -53,11 +107,25 @@ export class AvailabilityService {
         }
       });
 
+      const holds = await prisma.booking.groupBy({
+        by: ['availabilityId'],
+        where: {
+          availabilityId: { in: availabilities.map(availability => availability.id) },
+          status: 'PENDING',
+          holdExpiresAt: { not: null }
+        },
+        _sum: { travelersCount: true }
+      });
+      const heldByAvailability = new Map(
+        holds.map(hold => [hold.availabilityId, hold._sum.travelersCount ?? 0])
+      );
+
       return availabilities.map(availability => ({
         availabilityId: availability.id,
         startDate: availability.startDate,
         endDate: availability.endDate,
         availableSlots: availability.availableSlots,
+        heldSlots: heldByAvailability.get(availability.id) ?? 0,
         maxGroupSize: availability.tour.maxGroupSize,
         canBook: availability.availableSlots > 0
       }));
@@ -79,7 +147,7 @@ export class AvailabilityService {
         where: { id: availabilityId }
       });
 
-      if (!availability) {
+      if (!availability || availability.cancelledAt) {
         return false;
       }
 
@@ -91,24 +159,30 @@ export class AvailabilityService {
   }
 
   /**
-   * Reserve slots for a booking (reduce available slots)
+   * Reserve slots for a booking (reduce available slots).
+   * The decrement is conditional, so concurrent reservations can never
+   * push availableSlots below zero.
    */
   static async reserveSlots(
     availabilityId: string,
-    travelersCount: number
+    travelersCount: number,
+    client: SlotClient = prisma
   ): Promise<void> {
-    try {
-      await prisma.tourAvailability.update({
-        where: { id: availabilityId },
-        data: {
-          availableSlots: {
-            decrement: travelersCount
-          }
+    const result = await client.tourAvailability.updateMany({
+      where: {
+        id: availabilityId,
+        cancelledAt: null,
+        availableSlots: { gte: travelersCount }
+      },
+      data: {
+        availableSlots: {
+          decrement: travelersCount
         }
-      });
-    } catch (error) {
-      console.error('Error reserving slots:', error);
-      throw new Error('Failed to reserve slots');
+      }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Not enough available slots for this booking');
     }
   }
 
@@ -117,10 +191,11 @@ export class AvailabilityService {
    */
   static async releaseSlots(
     availabilityId: string,
-    travelersCount: number
+    travelersCount: number,
+    client: SlotClient = prisma
   ): Promise<void> {
     try {
-      await prisma.tourAvailability.update({
+      await client.tourAvailability.update({
         where: { id: availabilityId },
         data: {
           availableSlots: {
@@ -147,4 +222,273 @@ export class AvailabilityService {
     const allAvailabilities = await this.checkAvailability(tourId, now);
     return allAvailabilities.slice(0, limit);
   }
+
+  /**
+   * List all departures of a tour with their booked seats (admin view)
+   */
+  static async listDepartures(tourId: string): Promise<DepartureSummary[]> {
+    const availabilities = await prisma.tourAvailability.findMany({
+      where: { tourId },
+      include: {
+        bookings: {
+          where: { status: { in: ['PENDING', ...BOOKED_STATUSES] } },
+          select: { status: true, travelersCount: true, holdExpiresAt: true }
+        }
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    });
+
+    const waitlists = await prisma.waitlistEntry.groupBy({
+      by: ['availabilityId', 'status'],
+      where: {
+        availabilityId: { in: availabilities.map(availability => availability.id) },
+        status: { in: ACTIVE_WAITLIST_STATUSES }
+      },
+      _count: { _all: true },
+      _sum: { travelersCount: true }
+    });
+    const waitlistOf = (availabilityId: string): WaitlistDepth => {
+      const group = (status: string) => waitlists.find(
+        waitlist => waitlist.availabilityId === availabilityId && waitlist.status === status
+      );
+      const waiting = group('WAITING');
+      const offered = group('OFFERED');
+
+      return {
+        waiting: waiting?._count._all ?? 0,
+        waitingTravelers: waiting?._sum.travelersCount ?? 0,
+        offered: offered?._count._all ?? 0,
+        offeredSlots: offered?._sum.travelersCount ?? 0
+      };
+    };
+
+    return availabilities.map(availability => {
+      const bookedSlots = availability.bookings
+        .filter(booking => BOOKED_STATUSES.includes(booking.status))
+        .reduce((sum, booking) => sum + booking.travelersCount, 0);
+      const heldSlots = availability.bookings
+        .filter(booking => booking.status === 'PENDING' && booking.holdExpiresAt !== null)
+        .reduce((sum, booking) => sum + booking.travelersCount, 0);
+      const waitlist = waitlistOf(availability.id);
+
+      return {
+        id: availability.id,
+        tourId: availability.tourId,
+        startDate: availability.startDate,
+        endDate: availability.endDate,
+        availableSlots: availability.availableSlots,
+        bookedSlots,
+        heldSlots,
+        // Seats held for waitlist offers are out of availableSlots too
+        capacity: availability.availableSlots + bookedSlots + heldSlots + waitlist.offeredSlots,
+        activeBookings: availability.bookings
+          .filter(booking => booking.status === 'PENDING' || booking.status === 'CONFIRMED').length,
+        waitlist,
+        cancelledAt: availability.cancelledAt
+      };
+    });
+  }
+
+  /**
+   * Create a new departure for a tour
+   */
+  static async createDeparture(data: CreateTourAvailabilityData) {
+    TourAvailabilityValidator.validateCreateData(data);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id: data.tourId },
+      select: { id: true }
+    });
+
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    return await prisma.tourAvailability.create({
+      data: {
+        tourId: data.tourId,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        availableSlots: data.availableSlots
+      }
+    });
+  }
+
+  /**
+   * Update dates or total capacity of a departure.
+   * Capacity may never drop below the seats already taken by confirmed bookings, holds
+   * and waitlist offers.
+   */
+  static async updateDeparture(
+    tourId: string,
+    availabilityId: string,
+    data: UpdateDepartureData
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      const current = await tx.tourAvailability.findUnique({
+        where: { id: availabilityId }
+      });
+
+      if (!current || current.tourId !== tourId) {
+        throw new Error('Departure not found');
+      }
+
+      if (current.cancelledAt) {
+        throw new TourAvailabilityValidationError('Cancelled departures cannot be edited');
+      }
+
+      let availableSlots: number | undefined;
+
+      if (data.capacity !== undefined) {
+        const taken = await tx.booking.aggregate({
+          where: { availabilityId, ...SEAT_TAKING_BOOKINGS },
+          _sum: { travelersCount: true }
+        });
+        const offered = await tx.waitlistEntry.aggregate({
+          where: { availabilityId, status: 'OFFERED' },
+          _sum: { travelersCount: true }
+        });
+        const takenSlots = (taken._sum.travelersCount ?? 0) + (offered._sum.travelersCount ?? 0);
+
+        if (!Number.isInteger(data.capacity) || data.capacity < takenSlots) {
+          throw new TourAvailabilityValidationError(
+            `Capacity cannot be lower than the ${takenSlots} seats taken by bookings, holds and waitlist offers`
+          );
+        }
+
+        availableSlots = data.capacity - takenSlots;
+      }
+
+      const updateData = {
+        startDate: data.startDate,
+        endDate: data.endDate,
+        availableSlots
+      };
+
+      TourAvailabilityValidator.validateUpdateData(updateData, current);
+
+      // Only write over the seat count we read: a booking that reserved seats meanwhile
+      // changed it, and the capacity has to be worked out again with that booking counted
+      const updated = await tx.tourAvailability.updateMany({
+        where: { id: availabilityId, availableSlots: current.availableSlots },
+        data: updateData
+      });
+
+      if (updated.count === 0) {
+        throw new Error('Departure was modified concurrently, please retry');
+      }
+
+      return await tx.tourAvailability.findUniqueOrThrow({
+        where: { id: availabilityId }
+      });
+    });
+  }
+
+  /**
+   * Delete a departure. Departures with bookings are never removed outright:
+   * their active bookings are cancelled (and customers notified) only when
+   * cancelBookings is set, and the row is kept as cancelled so booking and
+   * payment history survives.
+   */
+  static async deleteDeparture(
+    tourId: string,
+    availabilityId: string,
+    options: { cancelBookings: boolean; reason?: string; actorId?: string }
+  ): Promise<DeleteDepartureResult> {
+    const result = await prisma.$transaction(async (tx) => {
+      const departure = await tx.tourAvailability.findUnique({
+        where: { id: availabilityId }
+      });
+
+      if (!departure || departure.tourId !== tourId) {
+        throw new Error('Departure not found');
+      }
+
+      // Stop sales first: this waits for bookings already reserving seats, and makes any
+      // new booking wait for us, so the bookings read below are all the departure has
+      await tx.tourAvailability.update({
+        where: { id: availabilityId },
+        data: { availableSlots: 0 }
+      });
+
+      const bookings = await tx.booking.findMany({
+        where: { availabilityId },
+        include: {
+          payments: {
+            where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+            select: {
+              amount: true,
+              refunds: { select: { amount: true, status: true } }
+            }
+          }
+        }
+      });
+
+      if (bookings.length === 0) {
+        // Black out the date so the schedule does not regenerate this departure
+        if (departure.scheduleId) {
+          await tx.departureSchedule.update({
+            where: { id: departure.scheduleId },
+            data: { blackoutDates: { push: departure.startDate } }
+          });
+        }
+
+        await tx.tourAvailability.delete({
+          where: { id: availabilityId }
+        });
+        return { deleted: true, cancelledBookings: [] as string[] };
+      }
+
+      const activeBookings = bookings.filter(
+        booking => booking.status === 'PENDING' || booking.status === 'CONFIRMED'
+      );
+
+      if (activeBookings.length > 0 && !options.cancelBookings) {
+        throw new DepartureHasBookingsError(activeBookings.length);
+      }
+
+      // The operator cancelled, so customers get back everything they paid regardless of policy
+      for (const booking of activeBookings) {
+        await BookingService.transitionWithin(
+          booking.id,
+          'CANCELLED',
+          { actorId: options.actorId, reason: options.reason || 'Departure cancelled' },
+          { refundAmount: CancellationService.paidAmount(booking.payments) },
+          [{
+            kind: 'BOOKING_CANCELLATION',
+            bookingId: booking.id,
+            payload: {
+              bookingId: booking.id,
+              reason: options.reason || 'The departure has been cancelled by the tour operator'
+            }
+          }],
+          tx
+        );
+      }
+
+      // Nobody can be offered seats on a departure that is not going ahead
+      await tx.waitlistEntry.updateMany({
+        where: { availabilityId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+        data: { status: 'CANCELLED', claimTokenHash: null }
+      });
+
+      await tx.tourAvailability.update({
+        where: { id: availabilityId },
+        data: {
+          cancelledAt: new Date(),
+          availableSlots: 0
+        }
+      });
+
+      return { deleted: false, cancelledBookings: activeBookings.map(booking => booking.id) };
+    });
+
+    for (const bookingId of result.cancelledBookings) {
+      await OutboxService.deliverQueuedQuietly(bookingId);
+    }
+
+    return { deleted: result.deleted, cancelledBookings: result.cancelledBookings.length };
+  }
 }
@@ -0,0 +1,308 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { AvailabilityService } from './availability';
+import { CancellationService } from './cancellation';
+import { PaymentService } from './payment';
+import { PricingRuleService } from './pricing';
+import { TravelerService } from './traveler';
+import { WaitlistService } from './waitlist';
+import { BookingTransitionOptions } from '../models/booking';
+import {
+  BookingModificationRules,
+  BookingModificationValidationError,
+  ModificationQuote,
+  ModifyBookingData,
+} from '../models/booking-modification';
+import { Money } from '../models/money';
+import { TourPricing } from '../models/pricing';
+import { CAPTURED_PAYMENT_STATUSES, PaymentRefunds } from '../models/refund';
+import { TravelerValidator } from '../models/traveler';
+
+export interface ModificationResult {
+  quote: ModificationQuote;
+  refundedAmount: number; // Minor units sent back to the customer's payments
+  refundError?: string; // Set when the refund could not be issued and needs staff attention
+}
+
+const bookingForModification = {
+  availability: true,
+  tour: {
+    select: {
+      id: true,
+      pricePerPerson: true,
+      currency: true,
+      modificationCutoffDays: true
+    }
+  },
+  promoCode: true,
+  payments: {
+    where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+    include: { refunds: true },
+    orderBy: { createdAt: 'desc' as const }
+  },
+  _count: { select: { travelers: true } }
+} satisfies Prisma.BookingInclude;
+
+export class BookingModificationService {
+  /**
+   * What a booking would cost after a change, and what would be left to pay or refund.
+   * The change is priced under the tour's current pricing rules for the new departure and
+   * group, at the exchange rate locked in when the booking was made.
+   */
+  static async quoteModification(
+    bookingId: string,
+    data: ModifyBookingData,
+    client: Prisma.TransactionClient = prisma,
+    now: Date = new Date()
+  ): Promise<ModificationQuote> {
+    const { quote } = await this.prepare(bookingId, data, client, now);
+    return quote;
+  }
+
+  /**
+   * Move a booking to another departure of its tour or change its travelers.
+   * Seats are swapped between departures in the same transaction as the booking changes.
+   * A paid booking that now costs less is refunded the difference; one that costs more is
+   * left with a balance to pay. Seats given up are offered to the departure's waitlist.
+   */
+  static async modifyBooking(
+    bookingId: string,
+    data: ModifyBookingData,
+    options: BookingTransitionOptions = {}
+  ): Promise<ModificationResult> {
+    const quote = await prisma.$transaction(async (tx) => {
+      const { booking, quote, departure } = await this.prepare(bookingId, data, tx);
+
+      const travelersChanged = quote.toTravelersCount !== booking.travelersCount ||
+        quote.childrenCount !== booking.childrenCount ||
+        quote.seniorsCount !== booking.seniorsCount;
+      if (data.travelers) {
+        TravelerValidator.validateTravelers(
+          data.travelers,
+          TourPricing.travelerMix(quote.toTravelersCount, quote.childrenCount, quote.seniorsCount),
+          departure
+        );
+      } else if (travelersChanged && booking._count.travelers > 0) {
+        throw new BookingModificationValidationError('Traveler details are required for the changed travelers');
+      }
+
+      // Only change the booking as we read it, so a concurrent change or payment cannot be overwritten
+      const updated = await tx.booking.updateMany({
+        where: { id: bookingId, status: booking.status, updatedAt: booking.updatedAt },
+        data: {
+          availabilityId: quote.toAvailabilityId,
+          travelersCount: quote.toTravelersCount,
+          childrenCount: quote.childrenCount,
+          seniorsCount: quote.seniorsCount,
+          priceLines: JSON.parse(JSON.stringify(quote.lines)),
+          subtotalPrice: quote.subtotal,
+          discountAmount: quote.discount,
+          totalPrice: quote.newTotal,
+          baseTotalPrice: quote.baseTotal
+        }
+      });
+
+      if (updated.count === 0) {
+        throw new Error('Booking was modified concurrently, please retry');
+      }
+
+      // Both modifiable statuses hold seats, so give the old ones back and take the new ones
+      if (quote.fromAvailabilityId === quote.toAvailabilityId) {
+        const seatDelta = quote.toTravelersCount - quote.fromTravelersCount;
+        if (seatDelta > 0) {
+          await AvailabilityService.reserveSlots(quote.toAvailabilityId, seatDelta, tx);
+        } else if (seatDelta < 0) {
+          await AvailabilityService.releaseSlots(quote.fromAvailabilityId, -seatDelta, tx);
+        }
+      } else {
+        await AvailabilityService.releaseSlots(quote.fromAvailabilityId, quote.fromTravelersCount, tx);
+        await AvailabilityService.reserveSlots(quote.toAvailabilityId, quote.toTravelersCount, tx);
+      }
+
+      if (data.travelers) {
+        await tx.traveler.deleteMany({ where: { bookingId } });
+        await TravelerService.createTravelers(bookingId, data.travelers, tx);
+      }
+
+      await tx.bookingEvent.create({
+        data: {
+          bookingId,
+          fromStatus: booking.status,
+          toStatus: booking.status,
+          actorId: options.actorId ?? null,
+          reason: this.describe(quote, booking.availability.startDate, departure.startDate)
+        }
+      });
+
+      return quote;
+    });
+
+    if (quote.fromAvailabilityId !== quote.toAvailabilityId || quote.toTravelersCount < quote.fromTravelersCount) {
+      await WaitlistService.offerReleasedSeatsQuietly(quote.fromAvailabilityId);
+    }
+
+    if (quote.settlement !== 'REFUND_DUE') {
+      return { quote, refundedAmount: 0 };
+    }
+
+    return await this.refundDifference(bookingId, -quote.balance, quote, options);
+  }
+
+  private static async prepare(
+    bookingId: string,
+    data: ModifyBookingData,
+    client: Prisma.TransactionClient,
+    now: Date = new Date()
+  ) {
+    const booking = await client.booking.findUnique({
+      where: { id: bookingId },
+      include: bookingForModification
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const cutoffDays = BookingModificationRules.cutoffDays(booking.tour);
+    BookingModificationRules.assertModifiable(booking, booking.availability.startDate, cutoffDays, now);
+
+    let departure = booking.availability;
+    if (data.availabilityId && data.availabilityId !== booking.availabilityId) {
+      const target = await client.tourAvailability.findUnique({
+        where: { id: data.availabilityId }
+      });
+
+      if (!target || target.tourId !== booking.tourId) {
+        throw new Error('Tour availability not found');
+      }
+      if (target.cancelledAt) {
+        throw new BookingModificationValidationError('This departure has been cancelled');
+      }
+
+      BookingModificationRules.assertOutsideCutoff(target.startDate, cutoffDays, now);
+      departure = target;
+    }
+
+    const travelersCount = data.travelersCount ?? booking.travelersCount;
+    if (!Number.isInteger(travelersCount) || travelersCount <= 0) {
+      throw new BookingModificationValidationError('Travelers count must be a positive whole number');
+    }
+
+    const travelers = TourPricing.travelerMix(
+      travelersCount,
+      data.childrenCount ?? (data.travelersCount === undefined ? booking.childrenCount : 0),
+      data.seniorsCount ?? (data.travelersCount === undefined ? booking.seniorsCount : 0)
+    );
+
+    if (departure.id === booking.availabilityId &&
+        travelersCount === booking.travelersCount &&
+        travelers.children === booking.childrenCount &&
+        travelers.seniors === booking.seniorsCount) {
+      throw new BookingModificationValidationError('The change leaves the booking as it is');
+    }
+
+    // Seats this booking already holds on the departure are free to it
+    const ownSeats = departure.id === booking.availabilityId ? booking.travelersCount : 0;
+    if (departure.availableSlots + ownSeats < travelersCount) {
+      throw new Error('Not enough available slots for this booking');
+    }
+
+    const rules = await PricingRuleService.activeRules(booking.tour.id, client);
+    const { unitPrices: baseUnitPrices } = TourPricing.departurePrice(
+      Money.of(booking.tour.pricePerPerson, booking.baseCurrency),
+      rules,
+      { departureDate: departure.startDate, travelersCount, bookedAt: now }
+    );
+    const unitPrices = TourPricing.convert(baseUnitPrices, booking.exchangeRate, booking.currency);
+    const subtotal = TourPricing.subtotal(unitPrices, travelers);
+    const discount = BookingModificationRules.discount(
+      booking.promoCode,
+      Money.of(booking.discountAmount, booking.currency),
+      subtotal,
+      travelersCount
+    );
+    const newTotal = subtotal.subtract(discount).amount;
+
+    const paidAmount = CancellationService.paidAmount(booking.payments);
+    const quote: ModificationQuote = {
+      bookingId,
+      currency: booking.currency,
+      fromAvailabilityId: booking.availabilityId,
+      toAvailabilityId: departure.id,
+      fromTravelersCount: booking.travelersCount,
+      toTravelersCount: travelersCount,
+      childrenCount: travelers.children,
+      seniorsCount: travelers.seniors,
+      lines: TourPricing.lines(unitPrices, travelers),
+      subtotal: subtotal.amount,
+      discount: discount.amount,
+      baseTotal: TourPricing.subtotal(baseUnitPrices, travelers).amount,
+      previousTotal: Number(booking.totalPrice),
+      newTotal,
+      priceDifference: newTotal - Number(booking.totalPrice),
+      paidAmount,
+      ...BookingModificationRules.settlement(newTotal, paidAmount, booking.status)
+    };
+
+    return { booking, quote, departure };
+  }
+
+  /**
+   * Send the difference back to the customer's payments, most recent first. The change has
+   * already been made, so a refund that fails is reported for staff to retry rather than undone.
+   */
+  private static async refundDifference(
+    bookingId: string,
+    amount: number,
+    quote: ModificationQuote,
+    options: BookingTransitionOptions
+  ): Promise<ModificationResult> {
+    const payments = await prisma.payment.findMany({
+      where: { bookingId, status: { in: CAPTURED_PAYMENT_STATUSES } },
+      include: { refunds: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    let remaining = amount;
+    try {
+      for (const payment of payments) {
+        if (remaining <= 0) break;
+
+        const refundable = Math.min(remaining, PaymentRefunds.refundableAmount(payment, payment.refunds));
+        if (refundable <= 0) continue;
+
+        await PaymentService.refundPayment(payment.id, refundable, 'Price difference after booking change', {
+          actorId: options.actorId ?? undefined
+        });
+        remaining -= refundable;
+      }
+    } catch (error) {
+      console.error(`Error refunding price difference for booking ${bookingId}:`, error);
+      return {
+        quote,
+        refundedAmount: amount - remaining,
+        refundError: error instanceof Error ? error.message : 'Refund failed'
+      };
+    }
+
+    return { quote, refundedAmount: amount - remaining };
+  }
+
+  private static describe(quote: ModificationQuote, fromStart: Date, toStart: Date): string {
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    const changes: string[] = [];
+
+    if (quote.fromAvailabilityId !== quote.toAvailabilityId) {
+      changes.push(`moved from ${day(fromStart)} to ${day(toStart)}`);
+    }
+    if (quote.fromTravelersCount !== quote.toTravelersCount) {
+      changes.push(`travelers ${quote.fromTravelersCount} → ${quote.toTravelersCount}`);
+    }
+    if (changes.length === 0) {
+      changes.push('traveler types changed');
+    }
+
+    const total = `total ${Money.of(quote.previousTotal, quote.currency).format()} → ${Money.of(quote.newTotal, quote.currency).format()}`;
+    return `Booking changed: ${changes.join(', ')}; ${total}`;
+  }
+}
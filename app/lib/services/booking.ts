@@ -1,14 +1,67 @@
-import { BookingStatus } from '@prisma/client';
+import { BookingStatus, Prisma } from '@prisma/client';
 import { AvailabilityService } from './availability';
-import { NotificationService } from './notification';
-import { AdminNotificationService } from './admin-notification';
+import { CancellationService } from './cancellation';
+import { ExchangeRateService } from './exchange-rate';
+import { OutboxService } from './outbox';
+import { PromoCodeService } from './promo-code';
+import { PricingRuleService } from './pricing';
+import { TravelerService } from './traveler';
+import { WaitlistService } from './waitlist';
 import { prisma } from '../prisma';
+import {
+  Booking,
+  BookingStateMachine,
+  BookingTransitionError,
+  BookingTransitionOptions,
+} from '../models/booking';
+import { CancellationPolicyValidator } from '../models/cancellation-policy';
+import { ExchangeRateValidator } from '../models/exchange-rate';
+import { MinorUnits, Money } from '../models/money';
+import { OutboxMessageData } from '../models/outbox';
+import { PriceBreakdown, PromoCode, PromoCodeRules } from '../models/promo-code';
+import { PriceLine, TourPricing, TravelerMix } from '../models/pricing';
+import { TravelerDetails, TravelerValidator } from '../models/traveler';
 
 export interface CreateBookingData {
   userId: string;
   tourId: string;
   availabilityId: string;
   travelersCount: number;
+  childrenCount?: number; // Of travelersCount; the rest are adults
+  seniorsCount?: number;
+  currency?: string; // Defaults to the tour's own currency
+  promoCode?: string;
+  travelers?: TravelerDetails[]; // One per traveler, matching the children and seniors counts
+  waitlistEntryId?: string; // Takes the seats held for this waitlist offer instead of free ones
+}
+
+// What a booking costs, in the currency it is made in
+export interface BookingPrice extends PriceBreakdown {
+  currency: string;
+  baseCurrency: string;
+  baseTotal: Money;
+  exchangeRate: number;
+  promoCode: PromoCode | null;
+  travelers: TravelerMix;
+  lines: PriceLine[];
+}
+
+type PricedDeparture = {
+  startDate: Date;
+  tour: {
+    id: string;
+    destinationId: string;
+    pricePerPerson: MinorUnits;
+    currency: string;
+  };
+};
+
+// How long a pending booking keeps its seats while the customer pays
+export const SEAT_HOLD_MINUTES = 15;
+
+export interface RefundOverride {
+  refundAmount: number; // Minor units of the booking currency
+  reason: string;
 }
 
 export interface BookingWithDetails {
@@ -17,14 +70,27 @@ export interface BookingWithDetails {
   tourId: string;
   availabilityId: string;
   travelersCount: number;
-  totalPrice: number;
+  childrenCount: number;
+  seniorsCount: number;
+  subtotalPrice: bigint;
+  discountAmount: bigint;
+  totalPrice: bigint;
+  currency: string;
+  promoCodeId: string | null;
+  baseCurrency: string;
+  baseTotalPrice: bigint;
+  exchangeRate: number;
   status: BookingStatus;
+  holdExpiresAt: Date | null;
+  refundAmount: bigint | null;
+  refundOverrideReason: string | null;
   createdAt: Date;
   updatedAt: Date;
   tour: {
     id: string;
     title: string;
-    pricePerPerson: number;
+    pricePerPerson: bigint;
+    currency: string;
     destination: {
       id: string;
       name: string;
@@ -41,20 +107,13 @@ export interface BookingWithDetails {
 
 export class BookingService {
   /**
-   * Create a new booking
+   * Create a new booking.
+   * The booking holds its seats for SEAT_HOLD_MINUTES until it is paid for. When it is
+   * made in another currency than the tour's, today's rate is locked onto the booking.
+   * A booking claiming a waitlist offer takes over the seats held for the offer.
    */
   static async createBooking(data: CreateBookingData): Promise<BookingWithDetails> {
     try {
-      // Validate availability
-      const canAccommodate = await AvailabilityService.canAccommodateBooking(
-        data.availabilityId,
-        data.travelersCount
-      );
-
-      if (!canAccommodate) {
-        throw new Error('Not enough available slots for this booking');
-      }
-
       // Get tour details for price calculation
       const availability = await prisma.tourAvailability.findUnique({
         where: { id: data.availabilityId },
@@ -71,39 +130,88 @@ export class BookingService {
         throw new Error('Tour availability not found');
       }
 
-      // Calculate total price
-      const totalPrice = availability.tour.pricePerPerson * data.travelersCount;
+      if (data.travelers) {
+        TravelerValidator.validateTravelers(
+          data.travelers,
+          TourPricing.travelerMix(data.travelersCount, data.childrenCount, data.seniorsCount),
+          availability
+        );
+      }
 
-      // Create booking
-      const booking = await prisma.booking.create({
-        data: {
-          userId: data.userId,
-          tourId: data.tourId,
-          availabilityId: data.availabilityId,
-          travelersCount: data.travelersCount,
-          totalPrice,
-          status: 'PENDING'
-        },
-        include: {
-          tour: {
-            include: {
-              destination: true
-            }
+      const holdExpiresAt = new Date(Date.now() + SEAT_HOLD_MINUTES * 60 * 1000);
+
+      // Hold the seats, redeem the promo code and create the booking with its travelers atomically
+      const booking = await prisma.$transaction(async (tx) => {
+        if (!data.waitlistEntryId) {
+          await AvailabilityService.reserveSlots(data.availabilityId, data.travelersCount, tx);
+        }
+
+        const price = await this.priceBooking(data, availability, tx);
+        if (price.promoCode) {
+          await PromoCodeService.claimRedemption(price.promoCode, tx);
+        }
+
+        const created = await tx.booking.create({
+          data: {
+            userId: data.userId,
+            tourId: data.tourId,
+            availabilityId: data.availabilityId,
+            travelersCount: data.travelersCount,
+            childrenCount: price.travelers.children,
+            seniorsCount: price.travelers.seniors,
+            priceLines: JSON.parse(JSON.stringify(price.lines)),
+            subtotalPrice: price.subtotal.amount,
+            discountAmount: price.discount.amount,
+            totalPrice: price.total.amount,
+            currency: price.currency,
+            promoCodeId: price.promoCode?.id ?? null,
+            baseCurrency: price.baseCurrency,
+            baseTotalPrice: price.baseTotal.amount,
+            exchangeRate: price.exchangeRate,
+            status: 'PENDING',
+            holdExpiresAt
           },
-          availability: true,
-          user: {
-            select: { name: true, email: true }
+          include: {
+            tour: {
+              include: {
+                destination: true
+              }
+            },
+            availability: true,
+            user: {
+              select: { name: true, email: true }
+            }
           }
+        });
+
+        if (data.travelers) {
+          await TravelerService.createTravelers(created.id, data.travelers, tx);
+        }
+
+        if (data.waitlistEntryId) {
+          await WaitlistService.claimSeats(data.waitlistEntryId, created, tx);
         }
+
+        await tx.bookingEvent.create({
+          data: {
+            bookingId: created.id,
+            fromStatus: null,
+            toStatus: 'PENDING',
+            actorId: data.userId,
+            reason: data.waitlistEntryId ? 'Claimed from the waitlist' : null
+          }
+        });
+
+        await OutboxService.enqueue({
+          kind: 'ADMIN_NEW_BOOKING',
+          bookingId: created.id,
+          payload: { bookingId: created.id }
+        }, tx);
+
+        return created;
       });
 
-      // Send admin notification for new booking
-      try {
-        await AdminNotificationService.sendNewBookingNotification(booking.id);
-      } catch (notificationError) {
-        console.error('Failed to send new booking notification:', notificationError);
-        // Don't fail the booking creation if notification fails
-      }
+      await OutboxService.deliverQueuedQuietly(booking.id);
 
       return booking as BookingWithDetails;
     } catch (error) {
@@ -113,85 +221,187 @@ export class BookingService {
   }
 
   /**
-   * Confirm a booking (usually after successful payment)
+   * Price a booking without making it, e.g. to show a promo code's discount before booking
    */
-  static async confirmBooking(bookingId: string): Promise<BookingWithDetails> {
-    try {
-      const booking = await prisma.booking.findUnique({
-        where: { id: bookingId },
-        include: {
-          availability: true,
-          user: { select: { name: true, email: true } },
-          tour: { select: { title: true } }
-        }
-      });
+  static async quoteBooking(data: CreateBookingData): Promise<BookingPrice> {
+    const availability = await prisma.tourAvailability.findUnique({
+      where: { id: data.availabilityId },
+      include: { tour: true }
+    });
 
-      if (!booking) {
-        throw new Error('Booking not found');
-      }
+    if (!availability || availability.tourId !== data.tourId) {
+      throw new Error('Tour availability not found');
+    }
+
+    return await this.priceBooking(data, availability);
+  }
 
-      if (booking.status !== 'PENDING') {
-        throw new Error('Only pending bookings can be confirmed');
+  /**
+   * The departure's price under the tour's pricing rules, converted into the booking currency,
+   * less any promo code. Unit prices are converted first, so the subtotal is always a whole
+   * number of unit prices.
+   */
+  static async priceBooking(
+    data: CreateBookingData,
+    departure: PricedDeparture,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<BookingPrice> {
+    const { tour } = departure;
+    const baseCurrency = tour.currency;
+    const currency = data.currency ?? baseCurrency;
+    if (data.currency !== undefined) {
+      ExchangeRateValidator.validateCurrency(data.currency);
+    }
+
+    const travelers = TourPricing.travelerMix(data.travelersCount, data.childrenCount, data.seniorsCount);
+    const rules = await PricingRuleService.activeRules(tour.id, client);
+    const { unitPrices: baseUnitPrices } = TourPricing.departurePrice(
+      Money.of(tour.pricePerPerson, baseCurrency),
+      rules,
+      { departureDate: departure.startDate, travelersCount: data.travelersCount }
+    );
+
+    const exchangeRate = await ExchangeRateService.getRate(baseCurrency, currency);
+    const unitPrices = TourPricing.convert(baseUnitPrices, exchangeRate, currency);
+    const subtotal = TourPricing.subtotal(unitPrices, travelers);
+
+    let promoCode: PromoCode | null = null;
+    let discount = Money.zero(currency);
+    if (data.promoCode) {
+      const applied = await PromoCodeService.applyCode(
+        data.promoCode,
+        {
+          userId: data.userId,
+          tourId: tour.id,
+          destinationId: tour.destinationId,
+          travelersCount: data.travelersCount
+        },
+        subtotal,
+        client
+      );
+      promoCode = applied.promoCode;
+      discount = applied.discount;
+    }
+
+    return {
+      ...PromoCodeRules.breakdown(subtotal, discount),
+      currency,
+      baseCurrency,
+      baseTotal: TourPricing.subtotal(baseUnitPrices, travelers),
+      exchangeRate,
+      promoCode,
+      travelers,
+      lines: TourPricing.lines(unitPrices, travelers)
+    };
+  }
+
+  /**
+   * Move a booking to a new status.
+   * Every status change goes through here: the move is checked against the
+   * state machine, seats are taken or given back, a BookingEvent is recorded and
+   * the notifications given are queued to go out once the move commits.
+   */
+  static async transition(
+    bookingId: string,
+    to: BookingStatus,
+    options: BookingTransitionOptions = {},
+    changes: Pick<Prisma.BookingUpdateManyMutationInput, 'refundAmount' | 'refundOverrideReason'> = {},
+    notifications: OutboxMessageData[] = []
+  ): Promise<Booking> {
+    return await prisma.$transaction(async (tx) =>
+      await this.transitionWithin(bookingId, to, options, changes, notifications, tx)
+    );
+  }
+
+  /**
+   * Move a booking to a new status as part of a transaction the caller already has open
+   */
+  static async transitionWithin(
+    bookingId: string,
+    to: BookingStatus,
+    options: BookingTransitionOptions,
+    changes: Pick<Prisma.BookingUpdateManyMutationInput, 'refundAmount' | 'refundOverrideReason'>,
+    notifications: OutboxMessageData[],
+    client: Prisma.TransactionClient
+  ): Promise<Booking> {
+    const booking = await client.booking.findUnique({
+      where: { id: bookingId }
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    BookingStateMachine.assertTransition(booking.status, to);
+
+    // Only move from the state we read, so a concurrent transition cannot move the seats underneath us
+    const transitioned = await client.booking.updateMany({
+      where: { id: bookingId, status: booking.status, holdExpiresAt: booking.holdExpiresAt },
+      data: { ...changes, status: to, holdExpiresAt: null }
+    });
+
+    if (transitioned.count === 0) {
+      throw new Error('Booking was modified concurrently, please retry');
+    }
+
+    const seatDelta = BookingStateMachine.seatDelta(booking, to);
+    if (seatDelta > 0) {
+      await AvailabilityService.reserveSlots(booking.availabilityId, seatDelta, client);
+    } else if (seatDelta < 0) {
+      await AvailabilityService.releaseSlots(booking.availabilityId, -seatDelta, client);
+    }
+
+    await client.bookingEvent.create({
+      data: {
+        bookingId,
+        fromStatus: booking.status,
+        toStatus: to,
+        actorId: options.actorId ?? null,
+        reason: options.reason ?? null
       }
+    });
 
-      // Use transaction to ensure atomicity
-      const confirmedBooking = await prisma.$transaction(async (tx) => {
-        // Reduce available slots
-        await tx.tourAvailability.update({
-          where: { id: booking.availabilityId },
-          data: {
-            availableSlots: {
-              decrement: booking.travelersCount
-            }
-          }
-        });
+    for (const notification of notifications) {
+      await OutboxService.enqueue(notification, client);
+    }
 
-        // Update booking status
-        return await tx.booking.update({
-          where: { id: bookingId },
-          data: { status: 'CONFIRMED' },
-          include: {
-            tour: {
-              include: {
-                destination: true
-              }
-            },
-            availability: true,
-            user: { select: { name: true, email: true } },
-            payments: {
-              where: { status: 'SUCCESS' },
-              orderBy: { createdAt: 'desc' },
-              take: 1
-            }
-          }
-        });
-      });
+    return await client.booking.findUniqueOrThrow({
+      where: { id: bookingId }
+    });
+  }
 
-      // Send booking confirmation email
-      try {
-        const payment = confirmedBooking.payments[0];
-        if (payment) {
-          await NotificationService.sendBookingConfirmationEmail({
-            customerEmail: confirmedBooking.user.email,
-            customerName: confirmedBooking.user.name || 'Valued Customer',
-            bookingId: confirmedBooking.id,
-            tourTitle: confirmedBooking.tour.title,
-            travelersCount: confirmedBooking.travelersCount,
-            totalPrice: confirmedBooking.totalPrice,
-            tourStartDate: confirmedBooking.availability.startDate,
-            paymentReceipt: {
-              id: payment.id,
-              amount: payment.amount,
-              currency: payment.currency,
-              method: payment.method,
-              provider: payment.provider
+  /**
+   * Confirm a booking (usually after successful payment).
+   * A booking whose hold already expired is confirmed only if its seats are still free.
+   */
+  static async confirmBooking(
+    bookingId: string,
+    options: BookingTransitionOptions = {}
+  ): Promise<BookingWithDetails> {
+    try {
+      await this.transition(bookingId, 'CONFIRMED', options, {}, [
+        { kind: 'BOOKING_CONFIRMATION', bookingId, payload: { bookingId } },
+        { kind: 'BOOKING_CONFIRMATION_SMS', bookingId, payload: { bookingId } }
+      ]);
+      await OutboxService.deliverQueuedQuietly(bookingId);
+
+      const confirmedBooking = await prisma.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: {
+          tour: {
+            include: {
+              destination: true
             }
-          });
+          },
+          availability: true,
+          user: { select: { name: true, email: true } },
+          payments: {
+            where: { status: 'SUCCESS' },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          }
         }
-      } catch (notificationError) {
-        console.error('Failed to send booking confirmation email:', notificationError);
-        // Don't fail the booking confirmation if notification fails
-      }
+      });
 
       return confirmedBooking as BookingWithDetails;
     } catch (error) {
@@ -201,58 +411,86 @@ export class BookingService {
   }
 
   /**
-   * Cancel a booking
+   * Cancel a booking and record the refund due under the tour's cancellation policy.
+   * Admins may override the policy amount with a reason. The seats given back are offered
+   * to the departure's waitlist.
    */
-  static async cancelBooking(bookingId: string): Promise<BookingWithDetails> {
+  static async cancelBooking(
+    bookingId: string,
+    options: BookingTransitionOptions = {},
+    refundOverride?: RefundOverride
+  ): Promise<BookingWithDetails> {
     try {
-      const booking = await prisma.booking.findUnique({
-        where: { id: bookingId }
-      });
+      const quote = await CancellationService.quoteCancellation(bookingId);
 
-      if (!booking) {
-        throw new Error('Booking not found');
+      if (refundOverride) {
+        CancellationPolicyValidator.validateOverride(
+          refundOverride.refundAmount,
+          quote.paidAmount,
+          refundOverride.reason
+        );
       }
 
-      if (booking.status === 'CANCELLED') {
-        throw new Error('Booking is already cancelled');
-      }
-
-      // Use transaction to ensure atomicity
-      const cancelledBooking = await prisma.$transaction(async (tx) => {
-        // If booking was confirmed, restore available slots
-        if (booking.status === 'CONFIRMED') {
-          await tx.tourAvailability.update({
-            where: { id: booking.availabilityId },
-            data: {
-              availableSlots: {
-                increment: booking.travelersCount
-              }
-            }
-          });
-        }
+      const reason = refundOverride?.reason ?? options.reason;
+      const cancelled = await this.transition(
+        bookingId,
+        'CANCELLED',
+        { ...options, reason },
+        {
+          refundAmount: refundOverride ? refundOverride.refundAmount : quote.refundAmount,
+          refundOverrideReason: refundOverride?.reason ?? null
+        },
+        [{
+          kind: 'ADMIN_BOOKING_CANCELLATION',
+          bookingId,
+          payload: { bookingId, reason: reason ?? undefined }
+        }]
+      );
 
-        // Update booking status
-        return await tx.booking.update({
-          where: { id: bookingId },
-          data: { status: 'CANCELLED' },
-          include: {
-            tour: {
-              include: {
-                destination: true
-              }
-            },
-            availability: true
-          }
-        });
-      });
+      await OutboxService.deliverQueuedQuietly(bookingId);
+      await WaitlistService.offerReleasedSeatsQuietly(cancelled.availabilityId);
 
-      return cancelledBooking as BookingWithDetails;
+      return await this.getBookingWithDetails(bookingId);
     } catch (error) {
       console.error('Error cancelling booking:', error);
       throw error;
     }
   }
 
+  /**
+   * Expire pending bookings whose seat hold ran out and release their seats to the waitlist
+   * (called by the scheduler)
+   */
+  static async expireHolds(now: Date = new Date()): Promise<number> {
+    const expiredHolds = await prisma.booking.findMany({
+      where: {
+        status: 'PENDING',
+        holdExpiresAt: { lt: now }
+      },
+      select: { id: true, availabilityId: true }
+    });
+
+    let expired = 0;
+    const released = new Set<string>();
+    for (const booking of expiredHolds) {
+      try {
+        await this.transition(booking.id, 'EXPIRED', { reason: 'Seat hold expired before payment' });
+        expired++;
+        released.add(booking.availabilityId);
+      } catch (error) {
+        // Paid or cancelled since we looked
+        if (error instanceof BookingTransitionError) continue;
+        console.error(`Error expiring hold for booking ${booking.id}:`, error);
+      }
+    }
+
+    for (const availabilityId of released) {
+      await WaitlistService.offerReleasedSeatsQuietly(availabilityId);
+    }
+
+    return expired;
+  }
+
   /**
    * Get bookings for a user
    */
@@ -310,42 +548,54 @@ export class BookingService {
    */
   static async updateBookingStatus(
     bookingId: string,
-    status: BookingStatus
+    status: BookingStatus,
+    options: BookingTransitionOptions = {},
+    refundOverride?: RefundOverride
   ): Promise<BookingWithDetails> {
     try {
-      const currentBooking = await prisma.booking.findUnique({
-        where: { id: bookingId }
-      });
+      if (status === 'CONFIRMED') {
+        return await this.confirmBooking(bookingId, options);
+      }
 
-      if (!currentBooking) {
-        throw new Error('Booking not found');
+      if (status === 'CANCELLED') {
+        return await this.cancelBooking(bookingId, options, refundOverride);
       }
 
-      // Handle slot management based on status change
-      if (status === 'CONFIRMED' && currentBooking.status === 'PENDING') {
-        return await this.confirmBooking(bookingId);
-      } else if (status === 'CANCELLED') {
-        return await this.cancelBooking(bookingId);
-      } else {
-        // Simple status update
-        const updatedBooking = await prisma.booking.update({
-          where: { id: bookingId },
-          data: { status },
-          include: {
-            tour: {
-              include: {
-                destination: true
-              }
-            },
-            availability: true
-          }
-        });
+      await this.transition(bookingId, status, options);
 
-        return updatedBooking as BookingWithDetails;
-      }
+      return await this.getBookingWithDetails(bookingId);
     } catch (error) {
       console.error('Error updating booking status:', error);
       throw error;
     }
   }
+
+  /**
+   * Status history of a booking, oldest first
+   */
+  static async getBookingEvents(bookingId: string) {
+    return await prisma.bookingEvent.findMany({
+      where: { bookingId },
+      include: {
+        actor: { select: { id: true, name: true, role: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  private static async getBookingWithDetails(bookingId: string): Promise<BookingWithDetails> {
+    const booking = await prisma.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: {
+        tour: {
+          include: {
+            destination: true
+          }
+        },
+        availability: true
+      }
+    });
+
+    return booking as BookingWithDetails;
+  }
 }
@@ -0,0 +1,122 @@
+import { prisma } from '../prisma';
+import {
+  CancellationTier,
+  RefundQuote,
+  CancellationPolicy,
+  CancellationPolicyValidator,
+  DEFAULT_CANCELLATION_TIERS,
+} from '../models/cancellation-policy';
+import { MinorUnits } from '../models/money';
+import { CAPTURED_PAYMENT_STATUSES, PaymentRefunds, RefundAmounts } from '../models/refund';
+
+export interface TourCancellationPolicy {
+  tourId: string;
+  tiers: CancellationTier[];
+  isDefault: boolean;
+}
+
+export interface BookingRefundQuote extends RefundQuote {
+  bookingId: string;
+  currency: string;
+}
+
+export class CancellationService {
+  /**
+   * Cancellation tiers of a tour, falling back to the default policy
+   */
+  static async getPolicy(tourId: string): Promise<TourCancellationPolicy> {
+    const tiers = await prisma.cancellationPolicyTier.findMany({
+      where: { tourId },
+      orderBy: { minDaysBefore: 'desc' }
+    });
+
+    if (tiers.length === 0) {
+      return { tourId, tiers: DEFAULT_CANCELLATION_TIERS, isDefault: true };
+    }
+
+    return {
+      tourId,
+      tiers: tiers.map(tier => ({ minDaysBefore: tier.minDaysBefore, refundPercent: tier.refundPercent })),
+      isDefault: false
+    };
+  }
+
+  /**
+   * Replace the cancellation tiers of a tour
+   */
+  static async setPolicy(tourId: string, tiers: CancellationTier[]): Promise<TourCancellationPolicy> {
+    CancellationPolicyValidator.validateTiers(tiers);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: { id: true }
+    });
+
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    await prisma.$transaction([
+      prisma.cancellationPolicyTier.deleteMany({ where: { tourId } }),
+      prisma.cancellationPolicyTier.createMany({
+        data: tiers.map(tier => ({
+          tourId,
+          minDaysBefore: tier.minDaysBefore,
+          refundPercent: tier.refundPercent
+        }))
+      })
+    ]);
+
+    return await this.getPolicy(tourId);
+  }
+
+  /**
+   * Drop the tour's own tiers so the default policy applies again
+   */
+  static async resetPolicy(tourId: string): Promise<TourCancellationPolicy> {
+    await prisma.cancellationPolicyTier.deleteMany({ where: { tourId } });
+    return await this.getPolicy(tourId);
+  }
+
+  /**
+   * What the customer would get back if the booking were cancelled now
+   */
+  static async quoteCancellation(bookingId: string, now: Date = new Date()): Promise<BookingRefundQuote> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        availability: { select: { startDate: true } },
+        payments: {
+          where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+          select: {
+            amount: true,
+            refunds: { select: { amount: true, status: true } }
+          }
+        }
+      }
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const policy = await this.getPolicy(booking.tourId);
+    const paidAmount = this.paidAmount(booking.payments);
+
+    return {
+      bookingId,
+      currency: booking.currency,
+      ...CancellationPolicy.quote(policy.tiers, paidAmount, booking.availability.startDate, now)
+    };
+  }
+
+  /**
+   * Total of captured payments less what has already been refunded, in minor units
+   */
+  static paidAmount(payments: { amount: MinorUnits; refunds?: RefundAmounts[] }[]): number {
+    return payments.reduce(
+      (sum, payment) => sum + Number(payment.amount) - PaymentRefunds.refundedAmount(payment.refunds ?? []),
+      0
+    );
+  }
+}
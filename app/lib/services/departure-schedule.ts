@@ -0,0 +1,225 @@
+import { prisma } from '../prisma';
+import {
+  DepartureSchedule,
+  CreateDepartureScheduleData,
+  UpdateDepartureScheduleData,
+  DepartureScheduleValidator,
+  ScheduleRecurrence,
+} from '../models/departure-schedule';
+
+export interface GenerationResult {
+  scheduleId: string;
+  created: number;
+  removed: number;
+  keptWithBookings: number;
+}
+
+export class DepartureScheduleService {
+  /**
+   * List schedules of a tour
+   */
+  static async listSchedules(tourId: string): Promise<DepartureSchedule[]> {
+    return await prisma.departureSchedule.findMany({
+      where: { tourId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Create a schedule and materialise its first horizon of departures
+   */
+  static async createSchedule(
+    data: CreateDepartureScheduleData
+  ): Promise<{ schedule: DepartureSchedule; generation: GenerationResult }> {
+    DepartureScheduleValidator.validateCreateData(data);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id: data.tourId },
+      select: { id: true }
+    });
+
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    const schedule = await prisma.departureSchedule.create({
+      data: {
+        tourId: data.tourId,
+        frequency: data.frequency,
+        interval: data.interval ?? 1,
+        byWeekday: data.byWeekday ?? [],
+        byMonthDay: data.byMonthDay ?? [],
+        startDate: ScheduleRecurrence.startOfDay(data.startDate),
+        until: data.until ?? null,
+        blackoutDates: (data.blackoutDates ?? []).map(date => ScheduleRecurrence.startOfDay(date)),
+        slots: data.slots ?? null,
+        horizonDays: data.horizonDays ?? 90
+      }
+    });
+
+    const generation = await this.generateDepartures(schedule.id);
+
+    return { schedule, generation };
+  }
+
+  /**
+   * Update a schedule and regenerate its departures
+   */
+  static async updateSchedule(
+    tourId: string,
+    scheduleId: string,
+    data: UpdateDepartureScheduleData
+  ): Promise<{ schedule: DepartureSchedule; generation: GenerationResult }> {
+    const current = await prisma.departureSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!current || current.tourId !== tourId) {
+      throw new Error('Schedule not found');
+    }
+
+    DepartureScheduleValidator.validateUpdateData(data, current);
+
+    const schedule = await prisma.departureSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        ...data,
+        startDate: data.startDate ? ScheduleRecurrence.startOfDay(data.startDate) : undefined,
+        blackoutDates: data.blackoutDates?.map(date => ScheduleRecurrence.startOfDay(date))
+      }
+    });
+
+    const generation = await this.generateDepartures(schedule.id);
+
+    return { schedule, generation };
+  }
+
+  /**
+   * Delete a schedule. Future departures without bookings go with it;
+   * departures with bookings are kept as standalone departures.
+   */
+  static async deleteSchedule(tourId: string, scheduleId: string): Promise<GenerationResult> {
+    const schedule = await prisma.departureSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!schedule || schedule.tourId !== tourId) {
+      throw new Error('Schedule not found');
+    }
+
+    const result = await this.generateDepartures(scheduleId, new Date(), { remove: true });
+
+    await prisma.departureSchedule.delete({
+      where: { id: scheduleId }
+    });
+
+    return result;
+  }
+
+  /**
+   * Materialise departures for the schedule's rolling horizon.
+   * Idempotent: existing departures are left untouched, missing ones are created,
+   * and departures that no longer match the rule are removed only when they have no bookings.
+   */
+  static async generateDepartures(
+    scheduleId: string,
+    now: Date = new Date(),
+    options: { remove?: boolean } = {}
+  ): Promise<GenerationResult> {
+    const schedule = await prisma.departureSchedule.findUnique({
+      where: { id: scheduleId },
+      include: {
+        tour: { select: { durationDays: true, maxGroupSize: true } }
+      }
+    });
+
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    const today = ScheduleRecurrence.startOfDay(now);
+    const horizonEnd = new Date(today.getTime() + schedule.horizonDays * 24 * 60 * 60 * 1000);
+
+    const wantedDates = schedule.active && !options.remove
+      ? ScheduleRecurrence.expand(schedule, today, horizonEnd)
+      : [];
+    const wanted = new Set(wantedDates.map(date => date.getTime()));
+
+    const existing = await prisma.tourAvailability.findMany({
+      where: {
+        scheduleId,
+        startDate: { gte: today }
+      },
+      include: {
+        _count: { select: { bookings: true } }
+      }
+    });
+    const existingDates = new Set(existing.map(availability => availability.startDate.getTime()));
+
+    const slots = schedule.slots ?? schedule.tour.maxGroupSize;
+    const toCreate = wantedDates.filter(date => !existingDates.has(date.getTime()));
+
+    const stale = existing.filter(availability => !wanted.has(availability.startDate.getTime()));
+    const removable = stale.filter(availability => availability._count.bookings === 0);
+
+    const removed = await prisma.$transaction(async (tx) => {
+      if (toCreate.length > 0) {
+        await tx.tourAvailability.createMany({
+          data: toCreate.map(startDate => ({
+            tourId: schedule.tourId,
+            scheduleId,
+            startDate,
+            endDate: ScheduleRecurrence.computeEndDate(startDate, schedule.tour.durationDays),
+            availableSlots: slots
+          })),
+          skipDuplicates: true
+        });
+      }
+
+      // Re-check bookings inside the transaction so a booking made meanwhile is never lost
+      const deleted = removable.length > 0
+        ? await tx.tourAvailability.deleteMany({
+            where: {
+              id: { in: removable.map(availability => availability.id) },
+              bookings: { none: {} }
+            }
+          })
+        : { count: 0 };
+
+      await tx.departureSchedule.update({
+        where: { id: scheduleId },
+        data: { lastGeneratedAt: now }
+      });
+
+      return deleted.count;
+    });
+
+    return {
+      scheduleId,
+      created: toCreate.length,
+      removed,
+      keptWithBookings: stale.length - removed
+    };
+  }
+
+  /**
+   * Roll the horizon forward for every active schedule (called by the scheduler)
+   */
+  static async generateAllDepartures(now: Date = new Date()): Promise<GenerationResult[]> {
+    const schedules = await prisma.departureSchedule.findMany({
+      where: { active: true },
+      select: { id: true }
+    });
+
+    const results: GenerationResult[] = [];
+    for (const schedule of schedules) {
+      try {
+        results.push(await this.generateDepartures(schedule.id, now));
+      } catch (error) {
+        console.error(`Error generating departures for schedule ${schedule.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+}
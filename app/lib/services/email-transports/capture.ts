@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailDelivery, EmailMessage, EmailTransport } from './types';
+import { buildMimeMessage, createMessageId } from './mime';
+
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  from: string;
+  messageId: string;
+  capturedAt: Date;
+}
+
+// Most messages kept in memory; older ones are dropped
+export const CAPTURE_LIMIT = 200;
+
+// Captured messages, kept across hot reloads like the Prisma client
+const globalForCapture = globalThis as unknown as {
+  capturedEmails: CapturedEmail[] | undefined
+};
+
+const capturedEmails = globalForCapture.capturedEmails ?? [];
+globalForCapture.capturedEmails = capturedEmails;
+
+/**
+ * Keeps emails instead of delivering them, so development and tests never reach a real
+ * inbox. Messages can be browsed at /dev/emails and, with a directory, are also written
+ * out as .eml files that any mail client opens.
+ */
+export class CaptureTransport implements EmailTransport {
+  readonly name = 'capture';
+
+  constructor(
+    private readonly from: string,
+    private readonly directory?: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailDelivery> {
+    const messageId = createMessageId(this.from);
+    const captured: CapturedEmail = {
+      ...message,
+      id: crypto.randomUUID(),
+      from: this.from,
+      messageId,
+      capturedAt: new Date()
+    };
+
+    if (this.directory) {
+      const document = buildMimeMessage(message, this.from, messageId, captured.capturedAt);
+      const fileName = `${captured.capturedAt.toISOString().replace(/[:.]/g, '-')}-${captured.id}.eml`;
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(path.join(this.directory, fileName), document);
+    }
+
+    capturedEmails.unshift(captured);
+    capturedEmails.splice(CAPTURE_LIMIT);
+    console.log(`Captured email to ${message.to}: ${message.subject}`);
+
+    return { messageId };
+  }
+
+  /**
+   * Captured messages, newest first
+   */
+  static messages(): CapturedEmail[] {
+    return [...capturedEmails];
+  }
+
+  static find(id: string): CapturedEmail | undefined {
+    return capturedEmails.find(email => email.id === id);
+  }
+
+  static clear(): void {
+    capturedEmails.splice(0);
+  }
+}
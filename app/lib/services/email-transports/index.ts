@@ -0,0 +1,54 @@
+import { EmailDelivery, EmailMessage, EmailTransport } from './types';
+import { CaptureTransport } from './capture';
+import { DEFAULT_EMAIL_FROM, SmtpTransport } from './smtp';
+
+export type { EmailDelivery, EmailMessage, EmailTransport } from './types';
+export type { CapturedEmail } from './capture';
+export type { SmtpConfig } from './smtp';
+
+export { CaptureTransport, CAPTURE_LIMIT } from './capture';
+export { SmtpTransport, SmtpError, DEFAULT_EMAIL_FROM } from './smtp';
+export { buildMimeMessage, EmailHeaderError } from './mime';
+
+// Captured emails hold live links (password resets, waitlist claims), so they are only browsable outside production
+export const isEmailCaptureBrowsable = (): boolean => process.env.NODE_ENV !== 'production';
+
+export class Mailer {
+  private static transport: EmailTransport | null = null;
+
+  /**
+   * The transport named by EMAIL_TRANSPORT ("smtp" or "capture"). Production defaults to
+   * SMTP so mail is never silently kept; everywhere else defaults to capturing it.
+   */
+  static current(): EmailTransport {
+    if (!this.transport) {
+      const name = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'capture');
+
+      switch (name) {
+        case 'smtp':
+          this.transport = SmtpTransport.fromEnv();
+          break;
+        case 'capture':
+          this.transport = new CaptureTransport(
+            process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+            process.env.EMAIL_CAPTURE_DIR || undefined
+          );
+          break;
+        default:
+          throw new Error(`Unsupported email transport: ${name}`);
+      }
+    }
+    return this.transport;
+  }
+
+  /**
+   * Send through a given transport instead of the configured one
+   */
+  static use(transport: EmailTransport | null): void {
+    this.transport = transport;
+  }
+
+  static async send(message: EmailMessage): Promise<EmailDelivery> {
+    return await this.current().send(message);
+  }
+}
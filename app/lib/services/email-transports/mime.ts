@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { EmailMessage } from './types';
+
+// Longest line RFC 5322 recommends; body parts are base64 wrapped to fit
+const LINE_LENGTH = 76;
+
+export class EmailHeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailHeaderError';
+  }
+}
+
+/**
+ * The bare address of a mailbox such as "Travel & Tour Team <hello@example.com>"
+ */
+export function emailAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+export function createMessageId(from: string): string {
+  const domain = emailAddress(from).split('@')[1] || 'localhost';
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+// A header value must stay on its own line, or it could smuggle in headers of its own
+function headerValue(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new EmailHeaderError(`${name} header cannot contain line breaks`);
+  }
+  return value;
+}
+
+// Non-ASCII header text is sent as an RFC 2047 encoded word
+function encodeHeaderText(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+/**
+ * Render a message as a multipart/alternative MIME document with CRLF line endings,
+ * the plain-text part first so clients fall back to it
+ */
+export function buildMimeMessage(
+  message: EmailMessage,
+  from: string,
+  messageId: string,
+  date: Date = new Date()
+): string {
+  const boundary = `alt-${crypto.randomBytes(12).toString('hex')}`;
+
+  return [
+    `From: ${headerValue('From', from)}`,
+    `To: ${headerValue('To', message.to)}`,
+    `Subject: ${encodeHeaderText(headerValue('Subject', message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,220 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { EmailDelivery, EmailMessage, EmailTransport } from './types';
+import { buildMimeMessage, createMessageId, emailAddress } from './mime';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  allowInsecureAuth: boolean; // Send the credentials even when the connection is not encrypted
+  from: string;
+  timeoutMs: number;
+}
+
+export const DEFAULT_EMAIL_FROM = 'Travel & Tour Team <no-reply@localhost>';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * One conversation with an SMTP server: commands go out one at a time and each
+ * waits for the server's (possibly multi-line) reply
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.listen();
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: config.host, port: config.port, servername: config.host };
+      const socket = config.secure ? tls.connect(options) : net.connect(options);
+      const ready = config.secure ? 'secureConnect' : 'connect';
+
+      socket.once(ready, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, config.timeoutMs));
+      });
+      socket.once('error', reject);
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new SmtpError(`Timed out connecting to ${config.host}`)));
+    });
+  }
+
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return await this.expect(...codes);
+  }
+
+  /**
+   * Switch the connection to TLS after the server has agreed to STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.removeAllListeners('timeout');
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secured = tls.connect({ socket: this.socket, servername: host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private listen(): void {
+    this.socket.setEncoding('utf8');
+    this.socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new SmtpError('SMTP server timed out'));
+      this.socket.destroy();
+    });
+    this.socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.parse();
+    });
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () => this.fail(new SmtpError('SMTP server closed the connection')));
+  }
+
+  private parse(): void {
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    this.deliver();
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+}
+
+/**
+ * Delivers through any SMTP relay (SendGrid, SES, Postfix, Mailpit, ...)
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  static fromEnv(): SmtpTransport {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new SmtpError('SMTP_HOST must be set to send email over SMTP');
+    }
+
+    const port = Number(process.env.SMTP_PORT || 587);
+    return new SmtpTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+      timeoutMs: Number(process.env.SMTP_TIMEOUT_MS || 30_000)
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailDelivery> {
+    const messageId = createMessageId(this.config.from);
+    const document = buildMimeMessage(message, this.config.from, messageId);
+    const connection = await SmtpConnection.open(this.config);
+
+    try {
+      await connection.expect(220);
+      const greeting = await connection.command(`EHLO ${os.hostname()}`, 250);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && greeting.lines.some(line => /^\d{3}[- ]STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${os.hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        // Without STARTTLS, whether the server lacks it or someone in between stripped it,
+        // the password would cross the network in the clear
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new SmtpError(
+            `${this.config.host} did not offer STARTTLS; refusing to send credentials unencrypted (set SMTP_ALLOW_INSECURE_AUTH=true to allow it)`
+          );
+        }
+
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${emailAddress(this.config.from)}>`, 250);
+      await connection.command(`RCPT TO:<${emailAddress(message.to)}>`, 250, 251);
+      await connection.command('DATA', 354);
+      // A line holding a lone dot would end the message early, so leading dots are doubled
+      await connection.command(`${document.replace(/^\./gm, '..')}\r\n.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId };
+  }
+}
@@ -0,0 +1,23 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string; // Plain-text alternative for clients that do not show HTML
+}
+
+export interface EmailDelivery {
+  messageId: string;
+}
+
+/**
+ * Everything the app needs to hand an email over for delivery. Mailer picks the
+ * transport from the environment; each transport lives in its own module.
+ */
+export interface EmailTransport {
+  readonly name: string;
+
+  /**
+   * Deliver one message, resolving once the transport has accepted it
+   */
+  send(message: EmailMessage): Promise<EmailDelivery>;
+}
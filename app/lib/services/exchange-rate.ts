@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import {
+  CreateExchangeRateData,
+  CurrencyConverter,
+  ExchangeRate,
+  ExchangeRateValidationError,
+  ExchangeRateValidator,
+  PIVOT_CURRENCY,
+} from '../models/exchange-rate';
+import { Money } from '../models/money';
+
+export interface CurrencyConversion {
+  money: Money;
+  rate: number;
+}
+
+export class ExchangeRateService {
+  /**
+   * Every rate ever entered, newest first
+   */
+  static async listRates(): Promise<ExchangeRate[]> {
+    return await prisma.exchangeRate.findMany({
+      include: {
+        createdBy: { select: { id: true, name: true } }
+      },
+      orderBy: [{ effectiveFrom: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }]
+    });
+  }
+
+  /**
+   * The rate in effect for each pair right now
+   */
+  static async currentRates(at: Date = new Date()): Promise<ExchangeRate[]> {
+    const rates = await prisma.exchangeRate.findMany({
+      where: { effectiveFrom: { lte: at } }
+    });
+    return CurrencyConverter.currentQuotes(rates, at);
+  }
+
+  /**
+   * Add a rate for a pair. Rates are never edited; a new rate with a later
+   * effective date replaces the old one from that date on.
+   */
+  static async createRate(data: CreateExchangeRateData, actorId?: string): Promise<ExchangeRate> {
+    ExchangeRateValidator.validateCreateData(data);
+
+    try {
+      return await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: data.baseCurrency,
+          quoteCurrency: data.quoteCurrency,
+          rate: data.rate,
+          effectiveFrom: data.effectiveFrom ? new Date(data.effectiveFrom) : new Date(),
+          createdById: actorId ?? null
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ExchangeRateValidationError('A rate for this pair already takes effect at that time');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a rate that has not taken effect yet
+   */
+  static async deleteRate(id: string, now: Date = new Date()): Promise<void> {
+    const rate = await prisma.exchangeRate.findUnique({ where: { id } });
+
+    if (!rate) {
+      throw new Error('Exchange rate not found');
+    }
+
+    // Rates that were in effect may have priced bookings, so they stay as the record
+    if (rate.effectiveFrom <= now) {
+      throw new ExchangeRateValidationError('Rates already in effect cannot be deleted; add a newer rate instead');
+    }
+
+    await prisma.exchangeRate.delete({ where: { id } });
+  }
+
+  /**
+   * Rate for converting between two currencies at a point in time
+   */
+  static async getRate(from: string, to: string, at: Date = new Date()): Promise<number> {
+    if (from === to) return 1;
+
+    const currencies = [from, to, PIVOT_CURRENCY];
+    const quotes = await prisma.exchangeRate.findMany({
+      where: {
+        baseCurrency: { in: currencies },
+        quoteCurrency: { in: currencies },
+        effectiveFrom: { lte: at }
+      }
+    });
+
+    const rate = CurrencyConverter.rateAt(quotes, from, to, at);
+    if (rate === null) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return rate;
+  }
+
+  /**
+   * Convert an amount, returning the rate used so it can be recorded
+   */
+  static async convert(money: Money, to: string, at: Date = new Date()): Promise<CurrencyConversion> {
+    const rate = await this.getRate(money.currency, to, at);
+    return { money: money.convert(rate, to), rate };
+  }
+}
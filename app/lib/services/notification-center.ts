@@ -0,0 +1,92 @@
+import { prisma } from '../prisma';
+import {
+  NOTIFICATION_CENTER_LIMIT,
+  NotificationCenterPage,
+  NotificationRecordData,
+  NotificationValidator,
+} from '../models/notification';
+
+export class NotificationCenterService {
+  /**
+   * Keep a notification for the audit trail and the recipient's notification center.
+   * Failing to record a notification never fails the send.
+   */
+  static async record(data: NotificationRecordData, sentAt: Date = new Date()): Promise<void> {
+    try {
+      let userId = data.userId;
+      if (!userId) {
+        const user = await prisma.user.findUnique({
+          where: { email: data.recipient },
+          select: { id: true }
+        });
+        userId = user?.id;
+      }
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          recipient: data.recipient,
+          type: data.type,
+          channel: data.channel,
+          bookingId: data.bookingId,
+          paymentId: data.paymentId,
+          subject: data.subject,
+          content: data.content,
+          status: data.status ?? 'SENT',
+          sentAt: data.status === 'FAILED' ? null : sentAt
+        }
+      });
+    } catch (error) {
+      console.error('Error storing notification record:', error);
+      // Don't throw here as notification storage failure shouldn't break the main flow
+    }
+  }
+
+  /**
+   * A user's latest notifications, newest first, with how many they have not read
+   */
+  static async listNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<NotificationCenterPage> {
+    const limit = options.limit ?? NOTIFICATION_CENTER_LIMIT;
+    NotificationValidator.validateLimit(limit);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(options.unreadOnly ? { readAt: null } : {})
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      this.unreadCount(userId)
+    ]);
+
+    return { notifications, unreadCount };
+  }
+
+  static async unreadCount(userId: string): Promise<number> {
+    return await prisma.notification.count({
+      where: { userId, readAt: null }
+    });
+  }
+
+  /**
+   * Mark some or, without ids, all of a user's unread notifications as read.
+   * Returns the number marked.
+   */
+  static async markRead(userId: string, ids?: string[], readAt: Date = new Date()): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids ? { id: { in: ids } } : {})
+      },
+      data: { readAt }
+    });
+
+    return result.count;
+  }
+}
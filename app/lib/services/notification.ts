@@ -1,4 +1,12 @@
+import type { NotificationStatus } from '@prisma/client';
 import { prisma } from '../prisma';
+import { EmailTemplate, EmailTemplates } from '../templates/email-templates';
+import { SmsTemplate, SmsTemplates } from '../templates/sms-templates';
+import { UserValidationError } from '../models/user';
+import { Mailer } from './email-transports';
+import { SmsSender } from './sms-gateways';
+import { NotificationCenterService } from './notification-center';
+import { OutboxService } from './outbox';
 
 export interface BookingConfirmationData {
   customerEmail: string;
@@ -6,7 +14,7 @@ export interface BookingConfirmationData {
   bookingId: string;
   tourTitle: string;
   travelersCount: number;
-  totalPrice: number;
+  totalPrice: number; // Minor units, like every amount below
   tourStartDate: Date;
   paymentReceipt: {
     id: string;
@@ -33,10 +41,42 @@ export interface PaymentStatusData {
   bookingId: string;
   tourTitle: string;
   amount: number;
+  currency: string;
   status: string;
   provider: string;
 }
 
+export interface RefundNotificationData {
+  customerEmail: string;
+  customerName: string;
+  refundId: string;
+  paymentId: string;
+  bookingId: string;
+  tourTitle: string;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export interface BookingCancellationData {
+  customerEmail: string;
+  customerName: string;
+  bookingId: string;
+  tourTitle: string;
+  tourStartDate: Date;
+  reason: string;
+}
+
+export interface WaitlistOfferData {
+  customerEmail: string;
+  customerName: string;
+  tourTitle: string;
+  tourStartDate: Date;
+  travelersCount: number;
+  claimUrl: string;
+  offerExpiresAt: Date;
+}
+
 export interface NotificationPreferences {
   emailNotifications: boolean;
   smsNotifications: boolean;
@@ -46,6 +86,9 @@ export interface NotificationPreferences {
   marketingEmails: boolean;
 }
 
+// Preferences that can be texted as well as emailed
+type SmsPreference = 'bookingConfirmations' | 'paymentUpdates' | 'tourReminders';
+
 export class NotificationService {
   /**
    * Send booking confirmation email to customer
@@ -63,22 +106,26 @@ export class NotificationService {
         return;
       }
 
-      const emailContent = this.generateBookingConfirmationEmail(data);
-      
-      // TODO: Integrate with actual email service (SendGrid, AWS SES, etc.)
-      console.log('Booking Confirmation Email:', {
-        to: data.customerEmail,
-        subject: `Booking Confirmation - ${data.tourTitle}`,
-        content: emailContent
+      const email = EmailTemplates.bookingConfirmation({
+        customerName: data.customerName,
+        bookingId: data.bookingId,
+        tourTitle: data.tourTitle,
+        travelersCount: data.travelersCount,
+        totalPrice: data.totalPrice,
+        currency: data.paymentReceipt.currency,
+        tourStartDate: data.tourStartDate.toDateString(),
+        paymentId: data.paymentReceipt.id,
+        paymentAmount: data.paymentReceipt.amount,
+        paymentMethod: data.paymentReceipt.method,
+        paymentProvider: data.paymentReceipt.provider
       });
 
-      // Store notification record for audit trail
-      await this.storeNotificationRecord({
+      await this.deliverEmail({
         type: 'BOOKING_CONFIRMATION',
         recipientEmail: data.customerEmail,
-        bookingId: data.bookingId,
-        content: emailContent
-      });
+        userId: user.id,
+        bookingId: data.bookingId
+      }, email);
 
     } catch (error) {
       console.error('Error sending booking confirmation email:', error);
@@ -102,22 +149,20 @@ export class NotificationService {
         return;
       }
 
-      const emailContent = this.generateTourReminderEmail(data);
-      
-      // TODO: Integrate with actual email service
-      console.log('Tour Reminder Email:', {
-        to: data.customerEmail,
-        subject: `Tour Reminder - ${data.tourTitle} in ${data.daysUntilTour} days`,
-        content: emailContent
+      const email = EmailTemplates.tourReminder({
+        customerName: data.customerName,
+        bookingId: data.bookingId,
+        tourTitle: data.tourTitle,
+        tourStartDate: data.tourStartDate.toDateString(),
+        daysUntilTour: data.daysUntilTour
       });
 
-      // Store notification record
-      await this.storeNotificationRecord({
+      await this.deliverEmail({
         type: 'TOUR_REMINDER',
         recipientEmail: data.customerEmail,
-        bookingId: data.bookingId,
-        content: emailContent
-      });
+        userId: user.id,
+        bookingId: data.bookingId
+      }, email);
 
     } catch (error) {
       console.error('Error sending tour reminder email:', error);
@@ -141,23 +186,15 @@ export class NotificationService {
         return;
       }
 
-      const emailContent = this.generatePaymentStatusEmail(data);
-      
-      // TODO: Integrate with actual email service
-      console.log('Payment Status Email:', {
-        to: data.customerEmail,
-        subject: `Payment ${data.status} - ${data.tourTitle}`,
-        content: emailContent
-      });
+      const email = EmailTemplates.paymentStatus(data);
 
-      // Store notification record
-      await this.storeNotificationRecord({
+      await this.deliverEmail({
         type: 'PAYMENT_STATUS',
         recipientEmail: data.customerEmail,
+        userId: user.id,
         bookingId: data.bookingId,
-        paymentId: data.paymentId,
-        content: emailContent
-      });
+        paymentId: data.paymentId
+      }, email);
 
     } catch (error) {
       console.error('Error sending payment status email:', error);
@@ -165,6 +202,182 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send refund confirmation email to customer
+   */
+  static async sendRefundEmail(data: RefundNotificationData): Promise<void> {
+    try {
+      // Check user notification preferences
+      const user = await prisma.user.findUnique({
+        where: { email: data.customerEmail },
+        include: { notificationPreferences: true }
+      });
+
+      if (!user?.notificationPreferences?.paymentUpdates) {
+        console.log(`Refund email skipped for ${data.customerEmail} - disabled in preferences`);
+        return;
+      }
+
+      const email = EmailTemplates.refund(data);
+
+      await this.deliverEmail({
+        type: 'REFUND',
+        recipientEmail: data.customerEmail,
+        userId: user.id,
+        bookingId: data.bookingId,
+        paymentId: data.paymentId
+      }, email);
+
+    } catch (error) {
+      console.error('Error sending refund email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send booking cancellation notice to customer
+   */
+  static async sendBookingCancellationEmail(data: BookingCancellationData): Promise<void> {
+    try {
+      // Check user notification preferences
+      const user = await prisma.user.findUnique({
+        where: { email: data.customerEmail },
+        include: { notificationPreferences: true }
+      });
+
+      if (!user?.notificationPreferences?.bookingConfirmations) {
+        console.log(`Booking cancellation email skipped for ${data.customerEmail} - disabled in preferences`);
+        return;
+      }
+
+      const email = EmailTemplates.bookingCancellation({
+        ...data,
+        tourStartDate: data.tourStartDate.toDateString()
+      });
+
+      await this.deliverEmail({
+        type: 'BOOKING_CANCELLATION',
+        recipientEmail: data.customerEmail,
+        userId: user.id,
+        bookingId: data.bookingId
+      }, email);
+
+    } catch (error) {
+      console.error('Error sending booking cancellation email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a waitlisted customer the claim link for seats held for them.
+   * They asked to be told, so the offer goes out whatever their email preferences.
+   */
+  static async sendWaitlistOfferEmail(data: WaitlistOfferData): Promise<void> {
+    try {
+      const email = EmailTemplates.waitlistOffer({
+        ...data,
+        tourStartDate: data.tourStartDate.toDateString(),
+        offerExpiresAt: data.offerExpiresAt.toUTCString()
+      });
+
+      await this.deliverEmail({
+        type: 'WAITLIST_OFFER',
+        recipientEmail: data.customerEmail
+      }, email);
+
+    } catch (error) {
+      console.error('Error sending waitlist offer email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Text the customer a short booking confirmation if they opted in to SMS
+   */
+  static async sendBookingConfirmationSms(data: BookingConfirmationData): Promise<void> {
+    try {
+      const recipient = await this.smsRecipient(data.customerEmail, 'bookingConfirmations');
+      if (!recipient) {
+        console.log(`Booking confirmation SMS skipped for ${data.customerEmail} - not opted in`);
+        return;
+      }
+
+      const sms = SmsTemplates.bookingConfirmation({
+        bookingId: data.bookingId,
+        tourTitle: data.tourTitle,
+        travelersCount: data.travelersCount,
+        totalPrice: data.totalPrice,
+        currency: data.paymentReceipt.currency,
+        tourStartDate: data.tourStartDate.toDateString()
+      });
+
+      await this.deliverSms({
+        type: 'BOOKING_CONFIRMATION',
+        ...recipient,
+        bookingId: data.bookingId
+      }, sms);
+
+    } catch (error) {
+      console.error('Error sending booking confirmation SMS:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Text the customer a payment update if they opted in to SMS
+   */
+  static async sendPaymentStatusSms(data: PaymentStatusData): Promise<void> {
+    try {
+      const recipient = await this.smsRecipient(data.customerEmail, 'paymentUpdates');
+      if (!recipient) {
+        console.log(`Payment status SMS skipped for ${data.customerEmail} - not opted in`);
+        return;
+      }
+
+      const sms = SmsTemplates.paymentStatus(data);
+
+      await this.deliverSms({
+        type: 'PAYMENT_STATUS',
+        ...recipient,
+        bookingId: data.bookingId,
+        paymentId: data.paymentId
+      }, sms);
+
+    } catch (error) {
+      console.error('Error sending payment status SMS:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Text the customer the day before their tour if they opted in to SMS
+   */
+  static async sendTourReminderSms(data: TourReminderData): Promise<void> {
+    try {
+      const recipient = await this.smsRecipient(data.customerEmail, 'tourReminders');
+      if (!recipient) {
+        console.log(`Tour reminder SMS skipped for ${data.customerEmail} - not opted in`);
+        return;
+      }
+
+      const sms = SmsTemplates.tourReminder({
+        bookingId: data.bookingId,
+        tourTitle: data.tourTitle,
+        tourStartDate: data.tourStartDate.toDateString()
+      });
+
+      await this.deliverSms({
+        type: 'TOUR_REMINDER',
+        ...recipient,
+        bookingId: data.bookingId
+      }, sms);
+
+    } catch (error) {
+      console.error('Error sending tour reminder SMS:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update user notification preferences
    */
@@ -200,14 +413,17 @@ export class NotificationService {
   }
 
   /**
-   * Check for upcoming tours and send reminders
+   * Queue reminders for upcoming tours, one per booking and channel, and send them. A
+   * reminder is only queued once however often this runs, and one that fails is retried
+   * by the outbox without holding up the rest. Returns the number of reminders queued.
    */
-  static async sendTourReminders(): Promise<void> {
+  static async sendTourReminders(now: Date = new Date()): Promise<number> {
     try {
       const reminderDays = [7, 3, 1]; // Send reminders 7, 3, and 1 day before tour
+      const queued: string[] = [];
 
       for (const days of reminderDays) {
-        const targetDate = new Date();
+        const targetDate = new Date(now);
         targetDate.setDate(targetDate.getDate() + days);
         targetDate.setHours(0, 0, 0, 0);
 
@@ -224,24 +440,32 @@ export class NotificationService {
               }
             }
           },
-          include: {
-            user: { select: { name: true, email: true } },
-            tour: { select: { title: true } },
-            availability: { select: { startDate: true, endDate: true } }
-          }
+          select: { id: true }
         });
 
+        // Only the last reminder is worth a text message
+        const kinds = days === 1 ? ['TOUR_REMINDER', 'TOUR_REMINDER_SMS'] as const : ['TOUR_REMINDER'] as const;
+
         for (const booking of upcomingBookings) {
-          await this.sendTourReminderEmail({
-            customerEmail: booking.user.email,
-            customerName: booking.user.name || 'Valued Customer',
-            bookingId: booking.id,
-            tourTitle: booking.tour.title,
-            tourStartDate: booking.availability.startDate,
-            daysUntilTour: days
-          });
+          for (const kind of kinds) {
+            const message = await OutboxService.enqueueOnce(
+              { kind, bookingId: booking.id, payload: { bookingId: booking.id, daysUntilTour: days } },
+              `${kind}:${booking.id}:${days}`,
+              prisma
+            );
+
+            if (message) {
+              queued.push(message.id);
+            }
+          }
         }
       }
+
+      if (queued.length > 0) {
+        await OutboxService.deliverDue(new Date(), { ids: queued }, queued.length);
+      }
+
+      return queued.length;
     } catch (error) {
       console.error('Error sending tour reminders:', error);
       throw error;
@@ -249,124 +473,102 @@ export class NotificationService {
   }
 
   /**
-   * Generate booking confirmation email content
+   * Where to text a customer about one kind of update, or null if they have not opted in
+   * to SMS for it or have no usable phone number
    */
-  private static generateBookingConfirmationEmail(data: BookingConfirmationData): string {
-    return `
-      Dear ${data.customerName},
-
-      Thank you for booking with us! Your tour reservation has been confirmed.
-
-      Booking Details:
-      - Booking ID: ${data.bookingId}
-      - Tour: ${data.tourTitle}
-      - Number of Travelers: ${data.travelersCount}
-      - Total Amount: ${data.paymentReceipt.currency} ${data.totalPrice}
-      - Tour Start Date: ${data.tourStartDate.toDateString()}
-
-      Payment Receipt:
-      - Payment ID: ${data.paymentReceipt.id}
-      - Amount: ${data.paymentReceipt.currency} ${data.paymentReceipt.amount}
-      - Method: ${data.paymentReceipt.method}
-      - Provider: ${data.paymentReceipt.provider}
-
-      We look forward to providing you with an amazing travel experience!
-
-      Best regards,
-      Travel & Tour Team
-    `;
-  }
-
-  /**
-   * Generate tour reminder email content
-   */
-  private static generateTourReminderEmail(data: TourReminderData): string {
-    return `
-      Dear ${data.customerName},
-
-      This is a friendly reminder that your tour is coming up soon!
-
-      Tour Details:
-      - Booking ID: ${data.bookingId}
-      - Tour: ${data.tourTitle}
-      - Start Date: ${data.tourStartDate.toDateString()}
-      - Days Until Tour: ${data.daysUntilTour}
-
-      Please make sure you have all necessary documents and preparations ready.
-
-      If you have any questions, please don't hesitate to contact us.
+  private static async smsRecipient(
+    customerEmail: string,
+    preference: SmsPreference
+  ): Promise<{ userId: string; phone: string } | null> {
+    const user = await prisma.user.findUnique({
+      where: { email: customerEmail },
+      include: { notificationPreferences: true }
+    });
+
+    const preferences = user?.notificationPreferences;
+    if (!user?.phone || !preferences?.smsNotifications || !preferences[preference]) {
+      return null;
+    }
 
-      Best regards,
-      Travel & Tour Team
-    `;
+    try {
+      return { userId: user.id, phone: SmsSender.normalizePhone(user.phone) };
+    } catch (error) {
+      if (error instanceof UserValidationError) {
+        // Retrying cannot fix a number the customer has to correct themselves
+        console.warn(`SMS skipped for user ${user.id} - phone number unusable: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
   }
 
   /**
-   * Generate payment status email content
+   * Text a message through the configured gateway and record it, whether or not it went
+   * out, for the audit trail and the recipient's notification center
    */
-  private static generatePaymentStatusEmail(data: PaymentStatusData): string {
-    const statusMessage = data.status === 'SUCCESS' 
-      ? 'Your payment has been successfully processed.'
-      : data.status === 'FAILED'
-      ? 'Unfortunately, your payment could not be processed. Please try again or contact support.'
-      : 'Your payment is currently being processed.';
-
-    return `
-      Dear ${data.customerName},
-
-      Payment Status Update
-
-      ${statusMessage}
-
-      Payment Details:
-      - Payment ID: ${data.paymentId}
-      - Booking ID: ${data.bookingId}
-      - Tour: ${data.tourTitle}
-      - Amount: ${data.amount}
-      - Status: ${data.status}
-      - Provider: ${data.provider}
-
-      ${data.status === 'FAILED' ? 'Please contact our support team if you need assistance.' : ''}
-
-      Best regards,
-      Travel & Tour Team
-    `;
+  private static async deliverSms(
+    record: {
+      type: string;
+      userId: string;
+      phone: string;
+      bookingId?: string;
+      paymentId?: string;
+    },
+    sms: SmsTemplate
+  ): Promise<void> {
+    let status: NotificationStatus = 'SENT';
+    try {
+      await SmsSender.send({ to: record.phone, body: sms.body });
+    } catch (error) {
+      status = 'FAILED';
+      throw error;
+    } finally {
+      await NotificationCenterService.record({
+        type: record.type,
+        channel: 'SMS',
+        recipient: record.phone,
+        userId: record.userId,
+        bookingId: record.bookingId,
+        paymentId: record.paymentId,
+        subject: sms.subject,
+        content: sms.body,
+        status
+      });
+    }
   }
 
   /**
-   * Store notification record for audit trail
+   * Send an email through the configured transport and record it, whether or not it
+   * went out, for the audit trail and the recipient's notification center
    */
-  private static async storeNotificationRecord(data: {
-    type: string;
-    recipientEmail: string;
-    bookingId: string;
-    paymentId?: string;
-    content: string;
-  }): Promise<void> {
+  private static async deliverEmail(
+    record: {
+      type: string;
+      recipientEmail: string;
+      userId?: string;
+      bookingId?: string;
+      paymentId?: string;
+    },
+    email: EmailTemplate
+  ): Promise<void> {
+    let status: NotificationStatus = 'SENT';
     try {
-      // TODO: Create notifications table in database schema
-      console.log('Storing notification record:', {
-        type: data.type,
-        recipient: data.recipientEmail,
-        bookingId: data.bookingId,
-        paymentId: data.paymentId,
-        timestamp: new Date()
-      });
-
-      // In a real implementation, this would store in a notifications table:
-      // await prisma.notification.create({
-      //   data: {
-      //     type: data.type,
-      //     recipientEmail: data.recipientEmail,
-      //     bookingId: data.bookingId,
-      //     paymentId: data.paymentId,
-      //     content: data.content,
-      //     sentAt: new Date()
-      //   }
-      // });
+      await Mailer.send({ to: record.recipientEmail, ...email });
     } catch (error) {
-      console.error('Error storing notification record:', error);
-      // Don't throw here as notification storage failure shouldn't break the main flow
+      status = 'FAILED';
+      throw error;
+    } finally {
+      await NotificationCenterService.record({
+        type: record.type,
+        channel: 'EMAIL',
+        recipient: record.recipientEmail,
+        userId: record.userId,
+        bookingId: record.bookingId,
+        paymentId: record.paymentId,
+        subject: email.subject,
+        content: email.text,
+        status
+      });
     }
   }
 }
\ No newline at end of file
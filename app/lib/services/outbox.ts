@@ -0,0 +1,460 @@
+import { Prisma } from '@prisma/client';
+import type { OutboxStatus, PaymentStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import { AdminNotificationService } from './admin-notification';
+import { BookingConfirmationData, NotificationService, PaymentStatusData, TourReminderData } from './notification';
+import { WaitlistService } from './waitlist';
+import {
+  OUTBOX_BATCH_SIZE,
+  OUTBOX_LEASE_MS,
+  OUTBOX_LIST_LIMIT,
+  OUTBOX_STATUSES,
+  OutboxListFilters,
+  OutboxMessage,
+  OutboxMessageData,
+  OutboxRules,
+  OutboxRunSummary,
+  OutboxValidator,
+} from '../models/outbox';
+
+type DeliveryOutcome = 'sent' | 'retrying' | 'dead' | 'skipped';
+
+const bookingDetails = {
+  user: { select: { name: true, email: true } },
+  tour: { select: { title: true } },
+  availability: { select: { startDate: true } }
+} as const;
+
+const paymentDetails = {
+  booking: {
+    include: {
+      user: { select: { name: true, email: true } },
+      tour: { select: { title: true } }
+    }
+  }
+} as const;
+
+export class OutboxService {
+  /**
+   * Queue a notification inside the transaction making the change it reports, so it is
+   * only sent if the change commits and is not lost if sending fails
+   */
+  static async enqueue(data: OutboxMessageData, client: Prisma.TransactionClient): Promise<OutboxMessage> {
+    return await client.outboxMessage.create({
+      data: {
+        kind: data.kind,
+        bookingId: data.bookingId,
+        payload: data.payload
+      }
+    });
+  }
+
+  /**
+   * Queue a notification unless one with the same key has been queued before, so a job
+   * that runs twice does not send it twice. Returns null if it was already queued.
+   */
+  static async enqueueOnce(
+    data: OutboxMessageData,
+    dedupeKey: string,
+    client: Prisma.TransactionClient
+  ): Promise<OutboxMessage | null> {
+    const [message] = await client.outboxMessage.createManyAndReturn({
+      data: [{
+        kind: data.kind,
+        bookingId: data.bookingId,
+        payload: data.payload,
+        dedupeKey
+      }],
+      skipDuplicates: true
+    });
+
+    return message ?? null;
+  }
+
+  /**
+   * Deliver the messages that are due, oldest first (called by the scheduler).
+   * A failed message is retried with exponential backoff until it runs out of attempts
+   * and is dead-lettered. Delivery is at least once: a message can go out twice if its
+   * worker dies between sending it and marking it sent.
+   */
+  static async deliverDue(
+    now: Date = new Date(),
+    filters: { bookingId?: string; ids?: string[] } = {},
+    limit: number = OUTBOX_BATCH_SIZE
+  ): Promise<OutboxRunSummary> {
+    const due = await prisma.outboxMessage.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+        ...(filters.bookingId ? { bookingId: filters.bookingId } : {}),
+        ...(filters.ids ? { id: { in: filters.ids } } : {})
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    });
+
+    const summary: OutboxRunSummary = { sent: 0, retrying: 0, dead: 0 };
+    for (const message of due) {
+      const outcome = await this.deliver(message, now);
+      if (outcome !== 'skipped') {
+        summary[outcome]++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Try a booking's queued messages straight after the change that queued them commits,
+   * without failing the caller; whatever does not go out is left to the scheduler
+   */
+  static async deliverQueuedQuietly(bookingId: string): Promise<void> {
+    try {
+      await this.deliverDue(new Date(), { bookingId });
+    } catch (error) {
+      console.error(`Error delivering queued notifications for booking ${bookingId}:`, error);
+    }
+  }
+
+  /**
+   * Messages for the admin outbox view, newest first, with how many are in each status
+   */
+  static async listMessages(
+    filters: OutboxListFilters = {},
+    limit: number = OUTBOX_LIST_LIMIT
+  ): Promise<{ messages: OutboxMessage[]; counts: Record<OutboxStatus, number> }> {
+    const [messages, ...counts] = await Promise.all([
+      prisma.outboxMessage.findMany({
+        where: {
+          ...(filters.status ? { status: filters.status } : {}),
+          ...(filters.bookingId ? { bookingId: filters.bookingId } : {})
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      ...OUTBOX_STATUSES.map(status => prisma.outboxMessage.count({ where: { status } }))
+    ]);
+
+    return {
+      messages,
+      counts: Object.fromEntries(OUTBOX_STATUSES.map((status, index) => [status, counts[index]])) as Record<OutboxStatus, number>
+    };
+  }
+
+  /**
+   * Send a dead or waiting message again now, with a fresh set of attempts
+   */
+  static async resend(id: string, now: Date = new Date()): Promise<OutboxMessage> {
+    const message = await prisma.outboxMessage.findUnique({
+      where: { id }
+    });
+
+    if (!message) {
+      throw new Error('Outbox message not found');
+    }
+
+    OutboxValidator.assertCanResend(message);
+
+    // Only reset the message as we read it, so a worker delivering it right now keeps it
+    const reset = await prisma.outboxMessage.updateMany({
+      where: { id, status: message.status, nextAttemptAt: message.nextAttemptAt },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: now }
+    });
+
+    if (reset.count === 0) {
+      throw new Error('Outbox message was modified concurrently, please retry');
+    }
+
+    await this.deliver({ ...message, status: 'PENDING', attempts: 0, nextAttemptAt: now }, now);
+
+    return await prisma.outboxMessage.findUniqueOrThrow({
+      where: { id }
+    });
+  }
+
+  /**
+   * Claim a message, send it and record the outcome
+   */
+  private static async deliver(message: OutboxMessage, now: Date): Promise<DeliveryOutcome> {
+    // Push the next attempt past the lease so no other worker picks the message up meanwhile
+    const claimed = await prisma.outboxMessage.updateMany({
+      where: { id: message.id, status: 'PENDING', nextAttemptAt: message.nextAttemptAt },
+      data: {
+        nextAttemptAt: new Date(now.getTime() + OUTBOX_LEASE_MS),
+        attempts: { increment: 1 }
+      }
+    });
+
+    if (claimed.count === 0) {
+      return 'skipped';
+    }
+
+    const attempts = message.attempts + 1;
+    try {
+      await this.send(message);
+    } catch (error) {
+      const dead = OutboxRules.isExhausted(attempts);
+      console.error(`Error delivering outbox message ${message.id} (attempt ${attempts}):`, error);
+
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: dead
+          ? { status: 'DEAD', lastError: OutboxRules.describeError(error) }
+          : { nextAttemptAt: OutboxRules.nextAttemptAt(attempts, now), lastError: OutboxRules.describeError(error) }
+      });
+
+      return dead ? 'dead' : 'retrying';
+    }
+
+    await prisma.outboxMessage.update({
+      where: { id: message.id },
+      data: { status: 'SENT', sentAt: now, lastError: null }
+    });
+
+    return 'sent';
+  }
+
+  /**
+   * Build the notification from the records the message points at and send it
+   */
+  private static async send(message: OutboxMessage): Promise<void> {
+    // The payload was written from OutboxMessageData by enqueue
+    const data = { kind: message.kind, payload: message.payload } as unknown as OutboxMessageData;
+
+    switch (data.kind) {
+      case 'BOOKING_CONFIRMATION':
+      case 'BOOKING_CONFIRMATION_SMS': {
+        const confirmation = await this.bookingConfirmation(data.payload.bookingId);
+
+        // A booking confirmed by staff without a payment has no receipt to send
+        if (!confirmation) {
+          return;
+        }
+
+        return data.kind === 'BOOKING_CONFIRMATION'
+          ? await NotificationService.sendBookingConfirmationEmail(confirmation)
+          : await NotificationService.sendBookingConfirmationSms(confirmation);
+      }
+
+      case 'BOOKING_CANCELLATION': {
+        const booking = await prisma.booking.findUniqueOrThrow({
+          where: { id: data.payload.bookingId },
+          include: bookingDetails
+        });
+
+        return await NotificationService.sendBookingCancellationEmail({
+          customerEmail: booking.user.email,
+          customerName: booking.user.name || 'Valued Customer',
+          bookingId: booking.id,
+          tourTitle: booking.tour.title,
+          tourStartDate: booking.availability.startDate,
+          reason: data.payload.reason
+        });
+      }
+
+      case 'PAYMENT_STATUS':
+      case 'PAYMENT_STATUS_SMS': {
+        const update = await this.paymentStatus(data.payload.paymentId, data.payload.status);
+
+        return data.kind === 'PAYMENT_STATUS'
+          ? await NotificationService.sendPaymentStatusEmail(update)
+          : await NotificationService.sendPaymentStatusSms(update);
+      }
+
+      case 'REFUND': {
+        const refund = await prisma.refund.findUniqueOrThrow({
+          where: { id: data.payload.refundId },
+          include: { payment: { include: paymentDetails } }
+        });
+        const { booking } = refund.payment;
+
+        return await NotificationService.sendRefundEmail({
+          customerEmail: booking.user.email,
+          customerName: booking.user.name || 'Valued Customer',
+          refundId: refund.id,
+          paymentId: refund.paymentId,
+          bookingId: booking.id,
+          tourTitle: booking.tour.title,
+          amount: Number(refund.amount),
+          currency: refund.currency,
+          reason: refund.reason
+        });
+      }
+
+      case 'TOUR_REMINDER':
+      case 'TOUR_REMINDER_SMS': {
+        const booking = await prisma.booking.findUniqueOrThrow({
+          where: { id: data.payload.bookingId },
+          include: bookingDetails
+        });
+
+        // Cancelled since the reminder was queued, or retried until the tour had left
+        if (booking.status !== 'CONFIRMED' || booking.availability.startDate <= new Date()) {
+          return;
+        }
+
+        const reminder: TourReminderData = {
+          customerEmail: booking.user.email,
+          customerName: booking.user.name || 'Valued Customer',
+          bookingId: booking.id,
+          tourTitle: booking.tour.title,
+          tourStartDate: booking.availability.startDate,
+          daysUntilTour: data.payload.daysUntilTour
+        };
+
+        return data.kind === 'TOUR_REMINDER'
+          ? await NotificationService.sendTourReminderEmail(reminder)
+          : await NotificationService.sendTourReminderSms(reminder);
+      }
+
+      case 'ADMIN_NEW_BOOKING':
+        return await AdminNotificationService.sendNewBookingNotification(data.payload.bookingId);
+
+      case 'ADMIN_BOOKING_CANCELLATION': {
+        const booking = await prisma.booking.findUniqueOrThrow({
+          where: { id: data.payload.bookingId },
+          include: bookingDetails
+        });
+
+        return await AdminNotificationService.sendPaymentFailureNotification({
+          type: 'BOOKING_CANCELLATION',
+          bookingId: booking.id,
+          customerName: booking.user.name || 'Unknown',
+          customerEmail: booking.user.email,
+          tourTitle: booking.tour.title,
+          reason: data.payload.reason
+        });
+      }
+
+      case 'ADMIN_PAYMENT_FAILURE': {
+        const payment = await prisma.payment.findUniqueOrThrow({
+          where: { id: data.payload.paymentId },
+          include: paymentDetails
+        });
+
+        return await AdminNotificationService.sendPaymentFailureNotification({
+          type: 'PAYMENT_FAILURE',
+          paymentId: payment.id,
+          bookingId: payment.bookingId,
+          amount: Number(payment.amount),
+          currency: payment.currency,
+          customerName: payment.booking.user.name || 'Unknown',
+          customerEmail: payment.booking.user.email,
+          tourTitle: payment.booking.tour.title,
+          provider: payment.provider
+        });
+      }
+
+      case 'ADMIN_REFUND_FAILURE': {
+        const refund = await prisma.refund.findUniqueOrThrow({
+          where: { id: data.payload.refundId },
+          include: { payment: { include: paymentDetails } }
+        });
+        const { booking } = refund.payment;
+
+        return await AdminNotificationService.sendPaymentFailureNotification({
+          type: 'REFUND_FAILURE',
+          paymentId: refund.paymentId,
+          bookingId: booking.id,
+          amount: Number(refund.amount),
+          currency: refund.currency,
+          customerName: booking.user.name || 'Unknown',
+          customerEmail: booking.user.email,
+          tourTitle: booking.tour.title,
+          provider: refund.payment.provider,
+          reason: refund.reason
+        });
+      }
+
+      case 'ADMIN_LATE_PAYMENT': {
+        const payment = await prisma.payment.findUniqueOrThrow({
+          where: { id: data.payload.paymentId },
+          include: { ...paymentDetails, refunds: true }
+        });
+        const refunding = payment.refunds.some(refund => refund.status !== 'FAILED');
+
+        return await AdminNotificationService.sendPaymentFailureNotification({
+          type: 'LATE_PAYMENT',
+          paymentId: payment.id,
+          bookingId: payment.bookingId,
+          amount: Number(payment.amount),
+          currency: payment.currency,
+          customerName: payment.booking.user.name || 'Unknown',
+          customerEmail: payment.booking.user.email,
+          tourTitle: payment.booking.tour.title,
+          provider: payment.provider,
+          reason: refunding
+            ? 'Refunded automatically'
+            : 'Not refunded automatically; it has to be refunded through the provider directly'
+        });
+      }
+
+      case 'WAITLIST_OFFER':
+        return await WaitlistService.sendOffer(data.payload.entryId);
+
+      default:
+        throw new Error(`Unknown outbox message kind ${message.kind}`);
+    }
+  }
+
+  /**
+   * The confirmation with the receipt of the booking's latest successful payment, or null if it has none
+   */
+  private static async bookingConfirmation(bookingId: string): Promise<BookingConfirmationData | null> {
+    const booking = await prisma.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: {
+        ...bookingDetails,
+        payments: {
+          where: { status: 'SUCCESS' },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    const payment = booking.payments[0];
+    if (!payment) {
+      return null;
+    }
+
+    return {
+      customerEmail: booking.user.email,
+      customerName: booking.user.name || 'Valued Customer',
+      bookingId: booking.id,
+      tourTitle: booking.tour.title,
+      travelersCount: booking.travelersCount,
+      totalPrice: Number(booking.totalPrice),
+      tourStartDate: booking.availability.startDate,
+      paymentReceipt: {
+        id: payment.id,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        method: payment.method,
+        provider: payment.provider
+      }
+    };
+  }
+
+  /**
+   * The update for the status the payment moved to, even if it has moved on since
+   */
+  private static async paymentStatus(paymentId: string, status: PaymentStatus): Promise<PaymentStatusData> {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: paymentDetails
+    });
+
+    return {
+      customerEmail: payment.booking.user.email,
+      customerName: payment.booking.user.name || 'Valued Customer',
+      paymentId: payment.id,
+      bookingId: payment.bookingId,
+      tourTitle: payment.booking.tour.title,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      status,
+      provider: payment.provider
+    };
+  }
+}
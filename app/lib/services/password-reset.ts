@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Mailer } from './email-transports';
+import { EmailTemplates } from '../templates/email-templates';
+import {
+  PASSWORD_RESET_MAX_PER_EMAIL,
+  PASSWORD_RESET_MAX_PER_IP,
+  PASSWORD_RESET_TOKEN_MINUTES,
+  PasswordResetRateLimitError,
+  PasswordResetRules,
+  PasswordResetValidationError,
+} from '../models/password-reset';
+
+const appUrl = () => process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+export class PasswordResetService {
+  /**
+   * Email a reset link if the address has an account. Answers the same whether or not it
+   * does, so callers cannot tell which addresses are registered; only the rate limit,
+   * which counts every request, can turn a request away.
+   */
+  static async requestReset(email: unknown, ipAddress: string, now: Date = new Date()): Promise<void> {
+    const normalizedEmail = PasswordResetRules.validateEmail(email);
+    const windowStart = PasswordResetRules.windowStart(now);
+
+    const [byEmail, byIp] = await Promise.all([
+      prisma.passwordResetRequest.findMany({
+        where: { email: normalizedEmail, createdAt: { gt: windowStart } },
+        select: { createdAt: true }
+      }),
+      prisma.passwordResetRequest.findMany({
+        where: { ipAddress, createdAt: { gt: windowStart } },
+        select: { createdAt: true }
+      })
+    ]);
+
+    const retryAfterSeconds = Math.max(
+      PasswordResetRules.retryAfterSeconds(byEmail.map(request => request.createdAt), PASSWORD_RESET_MAX_PER_EMAIL, now),
+      PasswordResetRules.retryAfterSeconds(byIp.map(request => request.createdAt), PASSWORD_RESET_MAX_PER_IP, now)
+    );
+
+    if (retryAfterSeconds > 0) {
+      throw new PasswordResetRateLimitError(retryAfterSeconds);
+    }
+
+    // Requests that have left the window no longer count towards any limit
+    await prisma.passwordResetRequest.deleteMany({
+      where: { createdAt: { lte: windowStart } }
+    });
+    await prisma.passwordResetRequest.create({
+      data: { email: normalizedEmail, ipAddress, createdAt: now }
+    });
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizedEmail }
+    });
+
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issueToken(user.id, PasswordResetRules.tokenExpiresAt(now), now);
+
+    try {
+      await Mailer.send({
+        to: user.email,
+        ...EmailTemplates.passwordReset({
+          customerName: user.name,
+          resetUrl: `${appUrl()}/auth/reset-password?token=${token}`,
+          expiresInMinutes: PASSWORD_RESET_TOKEN_MINUTES
+        })
+      });
+    } catch (error) {
+      // Answer the same either way, so the response never tells whether the account exists
+      console.error('Failed to send password reset email:', error);
+    }
+  }
+
+  /**
+   * Set a new password with the token from a reset link. Every other link sent to the user
+   * stops working and every session they have open is signed out.
+   */
+  static async resetPassword(token: unknown, newPassword: unknown, now: Date = new Date()): Promise<void> {
+    if (!token || typeof token !== 'string') {
+      throw new PasswordResetValidationError('Token and new password are required');
+    }
+
+    const password = PasswordResetRules.validateNewPassword(newPassword);
+    const passwordHash = await bcrypt.hash(password, 12);
+    const tokenHash = this.hashToken(token);
+
+    await prisma.$transaction(async (tx) => {
+      // Using the token and checking it is still usable is one step, so a link works only once
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now }
+      });
+
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash }
+      });
+
+      if (claimed.count === 0 || !resetToken) {
+        throw new PasswordResetValidationError(
+          resetToken?.usedAt && resetToken.expiresAt > now
+            ? 'Reset token has already been used'
+            : 'Invalid or expired reset token'
+        );
+      }
+
+      await tx.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: now }
+      });
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: {
+          passwordHash,
+          sessionVersion: { increment: 1 }
+        }
+      });
+    });
+  }
+
+  /**
+   * Store a new set-password token for the user and return it for the link; only its hash
+   * is kept. Staff invites use the same links, with a longer expiry.
+   */
+  static async issueToken(
+    userId: string,
+    expiresAt: Date,
+    now: Date = new Date(),
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    await client.passwordResetToken.create({
+      data: {
+        userId,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+        createdAt: now
+      }
+    });
+
+    return token;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,105 @@
+import { PaymentProvider, PaymentStatus, RefundStatus } from '@prisma/client';
+import {
+  PaymentProviderAdapter,
+  ProviderPaymentSession,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './types';
+import { WebhookVerification, hmac, safeEqual } from './signature';
+
+const CHARGE_STATUSES: Record<string, PaymentStatus> = {
+  successful: 'SUCCESS',
+  failed: 'FAILED'
+};
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  completed: 'SUCCESS',
+  failed: 'FAILED'
+};
+
+export class FlutterwaveProvider implements PaymentProviderAdapter {
+  readonly provider: PaymentProvider = 'FLUTTERWAVE';
+  readonly supportsCheckout = false;
+  readonly supportsRefunds = false;
+
+  constructor(private readonly secretHash: string = process.env.FLUTTERWAVE_SECRET_HASH || '') {}
+
+  async initialize(): Promise<ProviderPaymentSession> {
+    // PaymentService checks supportsCheckout first, so this is only reached by a caller that skipped it
+    throw new Error('Flutterwave checkout is not implemented');
+  }
+
+  async verify(): Promise<PaymentStatus> {
+    throw new Error('Flutterwave payment verification is not implemented');
+  }
+
+  async refund(): Promise<ProviderRefundResult> {
+    // PaymentService checks supportsRefunds first, so this is only reached by a caller that skipped it
+    throw new Error('Flutterwave refunds are not implemented');
+  }
+
+  /**
+   * Flutterwave reports the outcome in data.status rather than in the event name
+   */
+  parseWebhook(body: Record<string, unknown>): ProviderWebhookEvent | null {
+    const eventType = body.event as string;
+    const data = (body.data as Record<string, unknown>) || {};
+    if (!eventType || data.id === undefined) return null;
+
+    // The same transaction is reported again as its status changes
+    const eventId = `${eventType}:${data.id}:${data.status}`;
+    const meta = (data.meta as Record<string, unknown>) || {};
+
+    if (eventType === 'charge.completed' && meta.paymentId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'payment',
+          data: {
+            paymentId: meta.paymentId as string,
+            status: CHARGE_STATUSES[data.status as string] ?? 'PENDING',
+            providerTransactionId: data.flw_ref as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    if (eventType.startsWith('refund.') && meta.refundId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'refund',
+          data: {
+            refundId: meta.refundId as string,
+            status: REFUND_STATUSES[data.status as string] ?? 'PENDING',
+            providerRefundId: String(data.id),
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    return { eventId, eventType, update: null };
+  }
+
+  /**
+   * flutterwave-signature is a base64 HMAC-SHA256 of the raw body keyed with the secret hash
+   */
+  verifySignature(rawBody: string, headers: Headers): WebhookVerification {
+    if (!this.secretHash) {
+      return { valid: false, reason: 'Flutterwave secret hash is not configured' };
+    }
+
+    const signature = headers.get('flutterwave-signature');
+    if (!signature) {
+      return { valid: false, reason: 'Missing webhook signature' };
+    }
+
+    return safeEqual(hmac('sha256', this.secretHash, rawBody, 'base64'), signature)
+      ? { valid: true }
+      : { valid: false, reason: 'Invalid webhook signature' };
+  }
+}
@@ -0,0 +1,63 @@
+import { PaymentProvider } from '@prisma/client';
+import { PaymentProviderAdapter } from './types';
+import { StripeProvider } from './stripe';
+import { PaystackProvider } from './paystack';
+import { FlutterwaveProvider } from './flutterwave';
+import { SandboxProvider } from './sandbox';
+
+export type {
+  PaymentProviderAdapter,
+  ProviderPaymentSession,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+  ProviderWebhookUpdate,
+} from './types';
+export type { WebhookVerification } from './signature';
+export { WEBHOOK_TOLERANCE_SECONDS } from './signature';
+
+export { StripeProvider } from './stripe';
+export { PaystackProvider } from './paystack';
+export { FlutterwaveProvider } from './flutterwave';
+export { SandboxProvider, SANDBOX_SIGNATURE_HEADER } from './sandbox';
+export type { SandboxEvent, SandboxEventType } from './sandbox';
+
+// The sandbox takes no real money, so it is off in production unless explicitly enabled
+export const isSandboxEnabled = (): boolean =>
+  process.env.NODE_ENV !== 'production' || process.env.PAYMENT_SANDBOX_ENABLED === 'true';
+
+export class PaymentProviderRegistry {
+  private static adapters = new Map<PaymentProvider, PaymentProviderAdapter>();
+
+  static register(adapter: PaymentProviderAdapter): void {
+    this.adapters.set(adapter.provider, adapter);
+  }
+
+  static has(provider: string): provider is PaymentProvider {
+    return this.adapters.has(provider as PaymentProvider);
+  }
+
+  static get(provider: PaymentProvider): PaymentProviderAdapter {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported payment provider: ${provider}`);
+    }
+    return adapter;
+  }
+
+  static providers(): PaymentProvider[] {
+    return [...this.adapters.keys()];
+  }
+}
+
+PaymentProviderRegistry.register(new StripeProvider());
+PaymentProviderRegistry.register(new PaystackProvider());
+PaymentProviderRegistry.register(new FlutterwaveProvider());
+
+// Anyone holding the sandbox secret can mark payments paid, so without one the sandbox stays off
+if (isSandboxEnabled()) {
+  if (process.env.SANDBOX_WEBHOOK_SECRET) {
+    PaymentProviderRegistry.register(new SandboxProvider());
+  } else {
+    console.error('SANDBOX_WEBHOOK_SECRET is not set; the sandbox payment provider is disabled');
+  }
+}
@@ -0,0 +1,109 @@
+import { PaymentProvider, PaymentStatus, RefundStatus } from '@prisma/client';
+import {
+  PaymentProviderAdapter,
+  ProviderPaymentSession,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './types';
+import { WebhookVerification, hmac, safeEqual } from './signature';
+
+const CHARGE_STATUSES: Record<string, PaymentStatus> = {
+  'charge.success': 'SUCCESS',
+  'charge.failed': 'FAILED'
+};
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  'refund.processed': 'SUCCESS',
+  'refund.failed': 'FAILED',
+  'refund.pending': 'PENDING',
+  'refund.processing': 'PENDING'
+};
+
+export class PaystackProvider implements PaymentProviderAdapter {
+  readonly provider: PaymentProvider = 'PAYSTACK';
+  readonly supportsCheckout = false;
+  readonly supportsRefunds = false;
+
+  constructor(private readonly secretKey: string = process.env.PAYSTACK_SECRET_KEY || '') {}
+
+  async initialize(): Promise<ProviderPaymentSession> {
+    // PaymentService checks supportsCheckout first, so this is only reached by a caller that skipped it
+    throw new Error('Paystack checkout is not implemented');
+  }
+
+  async verify(): Promise<PaymentStatus> {
+    throw new Error('Paystack payment verification is not implemented');
+  }
+
+  async refund(): Promise<ProviderRefundResult> {
+    // PaymentService checks supportsRefunds first, so this is only reached by a caller that skipped it
+    throw new Error('Paystack refunds are not implemented');
+  }
+
+  /**
+   * Paystack events carry no id of their own, so the event name and the id of the
+   * transaction or refund it concerns identify them
+   */
+  parseWebhook(body: Record<string, unknown>): ProviderWebhookEvent | null {
+    const eventType = body.event as string;
+    const data = (body.data as Record<string, unknown>) || {};
+    if (!eventType || data.id === undefined) return null;
+
+    const eventId = `${eventType}:${data.id}`;
+    const metadata = (data.metadata as Record<string, unknown>) || {};
+
+    const paymentStatus = CHARGE_STATUSES[eventType];
+    if (paymentStatus && metadata.paymentId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'payment',
+          data: {
+            paymentId: metadata.paymentId as string,
+            status: paymentStatus,
+            providerTransactionId: data.reference as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    const refundStatus = REFUND_STATUSES[eventType];
+    if (refundStatus && metadata.refundId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'refund',
+          data: {
+            refundId: metadata.refundId as string,
+            status: refundStatus,
+            providerRefundId: String(data.refund_reference ?? data.id),
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    return { eventId, eventType, update: null };
+  }
+
+  /**
+   * x-paystack-signature is an HMAC-SHA512 of the raw body keyed with the secret key
+   */
+  verifySignature(rawBody: string, headers: Headers): WebhookVerification {
+    if (!this.secretKey) {
+      return { valid: false, reason: 'Paystack secret key is not configured' };
+    }
+
+    const signature = headers.get('x-paystack-signature');
+    if (!signature) {
+      return { valid: false, reason: 'Missing webhook signature' };
+    }
+
+    return safeEqual(hmac('sha512', this.secretKey, rawBody), signature)
+      ? { valid: true }
+      : { valid: false, reason: 'Invalid webhook signature' };
+  }
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { Payment, PaymentProvider, PaymentStatus, Refund, RefundStatus } from '@prisma/client';
+import {
+  PaymentProviderAdapter,
+  ProviderPaymentSession,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './types';
+import { WebhookVerification, hmac, verifyTimestampedSignature } from './signature';
+
+export type SandboxEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+
+export interface SandboxEvent {
+  id: string;
+  type: SandboxEventType;
+  created: number;
+  data: {
+    paymentId: string;
+    refundId?: string;
+    reference: string;
+  };
+}
+
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature';
+
+// What the pretend provider remembers about each charge, kept across hot reloads like the Prisma client
+const globalForSandbox = globalThis as unknown as {
+  sandboxCharges: Map<string, PaymentStatus> | undefined
+};
+
+const sandboxCharges = globalForSandbox.sandboxCharges ?? new Map<string, PaymentStatus>();
+globalForSandbox.sandboxCharges = sandboxCharges;
+
+const appUrl = () => process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+/**
+ * A provider that runs entirely inside the app: it hosts its own checkout page at
+ * /payments/sandbox/[id] and reports outcomes through signed webhooks, so the whole
+ * payment flow works in development and tests without an external account.
+ */
+export class SandboxProvider implements PaymentProviderAdapter {
+  readonly provider: PaymentProvider = 'SANDBOX';
+  readonly supportsCheckout = true;
+  readonly supportsRefunds = true;
+
+  constructor(
+    private readonly secret: string = process.env.SANDBOX_WEBHOOK_SECRET || '',
+    private readonly webhookUrl: string = process.env.SANDBOX_WEBHOOK_URL || `${appUrl()}/api/payments/webhook?provider=SANDBOX`
+  ) {}
+
+  async initialize(payment: Payment): Promise<ProviderPaymentSession> {
+    return {
+      paymentUrl: `${appUrl()}/payments/sandbox/${payment.id}`,
+      providerTransactionId: `sandbox_${payment.id}`
+    };
+  }
+
+  async verify(payment: Payment): Promise<PaymentStatus> {
+    return sandboxCharges.get(payment.id) ?? payment.status;
+  }
+
+  async refund(payment: Payment, refund: Refund): Promise<ProviderRefundResult> {
+    const providerRefundId = `sandbox_rf_${refund.id}`;
+
+    // The sandbox approves every refund, but reports it by webhook like a real provider would
+    this.deliver(this.createEvent('refund.succeeded', {
+      paymentId: payment.id,
+      refundId: refund.id,
+      reference: providerRefundId
+    })).catch(error => console.error('Sandbox refund webhook failed:', error));
+
+    return { status: 'PENDING', providerRefundId };
+  }
+
+  parseWebhook(body: Record<string, unknown>): ProviderWebhookEvent | null {
+    const eventId = body.id as string;
+    const eventType = body.type as string;
+    if (!eventId || !eventType) return null;
+
+    const data = (body.data as Record<string, unknown>) || {};
+
+    if ((eventType === 'refund.succeeded' || eventType === 'refund.failed') && data.refundId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'refund',
+          data: {
+            refundId: data.refundId as string,
+            status: eventType === 'refund.succeeded' ? 'SUCCESS' as RefundStatus : 'FAILED' as RefundStatus,
+            providerRefundId: data.reference as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    if ((eventType === 'payment.succeeded' || eventType === 'payment.failed') && data.paymentId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'payment',
+          data: {
+            paymentId: data.paymentId as string,
+            status: eventType === 'payment.succeeded' ? 'SUCCESS' as PaymentStatus : 'FAILED' as PaymentStatus,
+            providerTransactionId: data.reference as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    return { eventId, eventType, update: null };
+  }
+
+  verifySignature(rawBody: string, headers: Headers, now: Date = new Date()): WebhookVerification {
+    if (!this.secret) {
+      return { valid: false, reason: 'Sandbox webhook secret is not configured' };
+    }
+    return verifyTimestampedSignature(headers.get(SANDBOX_SIGNATURE_HEADER), this.secret, rawBody, now);
+  }
+
+  /**
+   * Called from the hosted checkout page once the customer approves or declines
+   */
+  async completeCheckout(payment: Payment, approved: boolean): Promise<void> {
+    const status: PaymentStatus = approved ? 'SUCCESS' : 'FAILED';
+    sandboxCharges.set(payment.id, status);
+
+    await this.deliver(this.createEvent(approved ? 'payment.succeeded' : 'payment.failed', {
+      paymentId: payment.id,
+      reference: payment.providerTransactionId || `sandbox_${payment.id}`
+    }));
+  }
+
+  createEvent(type: SandboxEventType, data: SandboxEvent['data']): SandboxEvent {
+    return {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data
+    };
+  }
+
+  /**
+   * Signature header in the same `t=...,v1=...` form Stripe uses
+   */
+  sign(rawBody: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    if (!this.secret) {
+      throw new Error('Sandbox webhook secret is not configured');
+    }
+    return `t=${timestamp},v1=${hmac('sha256', this.secret, `${timestamp}.${rawBody}`)}`;
+  }
+
+  /**
+   * POST a signed event to our own webhook endpoint
+   */
+  private async deliver(event: SandboxEvent): Promise<void> {
+    const rawBody = JSON.stringify(event);
+
+    const response = await fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SANDBOX_SIGNATURE_HEADER]: this.sign(rawBody)
+      },
+      body: rawBody
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sandbox webhook ${event.id} was rejected with status ${response.status}`);
+    }
+  }
+}
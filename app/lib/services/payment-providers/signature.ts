@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+
+// How far a signed webhook timestamp may drift from our clock before it is treated as a replay
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+export function hmac(
+  algorithm: 'sha256' | 'sha512',
+  secret: string,
+  payload: string,
+  encoding: 'hex' | 'base64' = 'hex'
+): string {
+  return crypto.createHmac(algorithm, secret).update(payload, 'utf8').digest(encoding);
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Parse a `t=<unix seconds>,v1=<signature>[,v1=...]` header as used by Stripe and the sandbox
+ */
+export function parseTimestampedSignature(header: string): { timestamp: number; signatures: string[] } | null {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2).map(item => item.trim());
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify a timestamped HMAC-SHA256 signature over `${timestamp}.${rawBody}` and reject
+ * timestamps outside the tolerance so a captured request cannot be replayed later
+ */
+export function verifyTimestampedSignature(
+  header: string | null,
+  secret: string,
+  rawBody: string,
+  now: Date = new Date()
+): WebhookVerification {
+  if (!header) {
+    return { valid: false, reason: 'Missing webhook signature' };
+  }
+
+  const parsed = parseTimestampedSignature(header);
+  if (!parsed) {
+    return { valid: false, reason: 'Malformed webhook signature' };
+  }
+
+  const expected = hmac('sha256', secret, `${parsed.timestamp}.${rawBody}`);
+  if (!parsed.signatures.some(signature => safeEqual(expected, signature))) {
+    return { valid: false, reason: 'Invalid webhook signature' };
+  }
+
+  if (Math.abs(Math.floor(now.getTime() / 1000) - parsed.timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Webhook timestamp outside tolerance' };
+  }
+
+  return { valid: true };
+}
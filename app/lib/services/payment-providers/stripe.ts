@@ -0,0 +1,103 @@
+import { PaymentProvider, PaymentStatus, RefundStatus } from '@prisma/client';
+import {
+  PaymentProviderAdapter,
+  ProviderPaymentSession,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './types';
+import { WebhookVerification, verifyTimestampedSignature } from './signature';
+
+const PAYMENT_INTENT_STATUSES: Record<string, PaymentStatus> = {
+  'payment_intent.succeeded': 'SUCCESS',
+  'payment_intent.payment_failed': 'FAILED',
+  'payment_intent.canceled': 'FAILED',
+  'payment_intent.processing': 'PENDING'
+};
+
+const REFUND_EVENTS = ['refund.created', 'refund.updated', 'refund.failed', 'charge.refund.updated'];
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  succeeded: 'SUCCESS',
+  failed: 'FAILED',
+  canceled: 'FAILED',
+  pending: 'PENDING',
+  requires_action: 'PENDING'
+};
+
+export class StripeProvider implements PaymentProviderAdapter {
+  readonly provider: PaymentProvider = 'STRIPE';
+  readonly supportsCheckout = false;
+  readonly supportsRefunds = false;
+
+  constructor(private readonly webhookSecret: string = process.env.STRIPE_WEBHOOK_SECRET || '') {}
+
+  async initialize(): Promise<ProviderPaymentSession> {
+    // PaymentService checks supportsCheckout first, so this is only reached by a caller that skipped it
+    throw new Error('Stripe checkout is not implemented');
+  }
+
+  async verify(): Promise<PaymentStatus> {
+    throw new Error('Stripe payment verification is not implemented');
+  }
+
+  async refund(): Promise<ProviderRefundResult> {
+    // PaymentService checks supportsRefunds first, so this is only reached by a caller that skipped it
+    throw new Error('Stripe refunds are not implemented');
+  }
+
+  /**
+   * Stripe sends an event envelope whose data.object is the payment intent or refund
+   */
+  parseWebhook(body: Record<string, unknown>): ProviderWebhookEvent | null {
+    const eventId = body.id as string;
+    const eventType = body.type as string;
+    if (!eventId || !eventType) return null;
+
+    const data = (body.data as Record<string, unknown>) || {};
+    const object = (data.object as Record<string, unknown>) || {};
+    const metadata = (object.metadata as Record<string, unknown>) || {};
+
+    const paymentStatus = PAYMENT_INTENT_STATUSES[eventType];
+    if (paymentStatus && metadata.paymentId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'payment',
+          data: {
+            paymentId: metadata.paymentId as string,
+            status: paymentStatus,
+            providerTransactionId: object.id as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    const refundStatus = REFUND_STATUSES[object.status as string];
+    if (REFUND_EVENTS.includes(eventType) && refundStatus && metadata.refundId) {
+      return {
+        eventId,
+        eventType,
+        update: {
+          kind: 'refund',
+          data: {
+            refundId: metadata.refundId as string,
+            status: refundStatus,
+            providerRefundId: object.id as string,
+            provider: this.provider
+          }
+        }
+      };
+    }
+
+    return { eventId, eventType, update: null };
+  }
+
+  verifySignature(rawBody: string, headers: Headers, now: Date = new Date()): WebhookVerification {
+    if (!this.webhookSecret) {
+      return { valid: false, reason: 'Stripe webhook secret is not configured' };
+    }
+    return verifyTimestampedSignature(headers.get('stripe-signature'), this.webhookSecret, rawBody, now);
+  }
+}
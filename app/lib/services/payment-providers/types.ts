@@ -0,0 +1,64 @@
+import { Payment, PaymentProvider, PaymentStatus, Refund, RefundStatus } from '@prisma/client';
+import type { PaymentInitData, RefundWebhookData, WebhookData } from '../payment';
+import type { WebhookVerification } from './signature';
+
+export interface ProviderPaymentSession {
+  paymentUrl?: string;
+  providerTransactionId?: string;
+}
+
+export interface ProviderRefundResult {
+  status: RefundStatus;
+  providerRefundId?: string;
+}
+
+export type ProviderWebhookUpdate =
+  | { kind: 'payment'; data: WebhookData }
+  | { kind: 'refund'; data: RefundWebhookData };
+
+export interface ProviderWebhookEvent {
+  // The provider's own id for the event, used to drop redeliveries
+  eventId: string;
+  eventType: string;
+  // Null for event types we receive but do not act on
+  update: ProviderWebhookUpdate | null;
+}
+
+/**
+ * Everything PaymentService needs from a payment provider. Each provider lives in its
+ * own module and is registered with PaymentProviderRegistry.
+ */
+export interface PaymentProviderAdapter {
+  readonly provider: PaymentProvider;
+
+  // False until the provider's checkout API is wired up; such providers cannot take payments
+  readonly supportsCheckout: boolean;
+
+  // False until the provider's refund API is wired up; such payments are refunded in its dashboard
+  readonly supportsRefunds: boolean;
+
+  /**
+   * Start a checkout for a payment that has been recorded as pending
+   */
+  initialize(payment: Payment, data: PaymentInitData): Promise<ProviderPaymentSession>;
+
+  /**
+   * Ask the provider where a payment stands
+   */
+  verify(payment: Payment): Promise<PaymentStatus>;
+
+  /**
+   * Send money back; the outcome may only be known once the provider's webhook arrives
+   */
+  refund(payment: Payment, refund: Refund): Promise<ProviderRefundResult>;
+
+  /**
+   * Turn a webhook body into an event, null if the body is not a well-formed event
+   */
+  parseWebhook(body: Record<string, unknown>): ProviderWebhookEvent | null;
+
+  /**
+   * Check that a webhook really comes from the provider, using the raw request body
+   */
+  verifySignature(rawBody: string, headers: Headers, now?: Date): WebhookVerification;
+}
@@ -1,12 +1,17 @@
 import { prisma } from '@/app/lib/prisma';
-import { PaymentMethod, PaymentProvider, PaymentStatus, Payment } from '@prisma/client';
+import { PaymentMethod, PaymentProvider, PaymentStatus, Payment, Refund, RefundStatus } from '@prisma/client';
 import { BusinessRuleValidator } from '@/app/lib/validation/business-rules';
-import { AdminNotificationService } from './admin-notification';
-import { NotificationService } from './notification';
+import { CAPTURED_PAYMENT_STATUSES, PaymentRefunds, RefundValidationError, RefundValidator } from '@/app/lib/models/refund';
+import { PaymentStateMachine } from '@/app/lib/models/payment';
+import { Money } from '@/app/lib/models/money';
+import { OutboxService } from './outbox';
+import { BookingService } from './booking';
+import { CancellationService } from './cancellation';
+import { PaymentProviderRegistry, ProviderRefundResult } from './payment-providers';
 
 export interface PaymentInitData {
   bookingId: string;
-  amount: number;
+  amount: number; // Minor units of currency
   currency: string;
   method: PaymentMethod;
   provider: PaymentProvider;
@@ -26,6 +31,17 @@ export interface WebhookData {
   provider: PaymentProvider;
 }
 
+export interface RefundWebhookData {
+  refundId: string;
+  status: RefundStatus;
+  providerRefundId: string;
+  provider: PaymentProvider;
+}
+
+export interface RefundOptions {
+  actorId?: string;
+}
+
 export class PaymentService {
   /**
    * Initialize a payment for a booking
@@ -33,19 +49,50 @@ export class PaymentService {
   static async initializePayment(data: PaymentInitData): Promise<PaymentResponse> {
     // Validate payment business rules
     BusinessRuleValidator.validatePayment(data.amount, data.currency, data.method, data.provider);
+    const adapter = PaymentProviderRegistry.get(data.provider);
+    if (!adapter.supportsCheckout) {
+      throw new Error(`Unsupported payment provider: ${data.provider}`);
+    }
 
-    // Verify booking exists and is in pending status
+    // Verify booking exists and is in pending status, or owes a balance after a change
     const booking = await prisma.booking.findUnique({
       where: { id: data.bookingId },
-      include: { payments: true }
+      include: {
+        payments: {
+          include: { refunds: true }
+        }
+      }
     });
 
     if (!booking) {
       throw new Error('Booking not found');
     }
 
-    if (booking.status !== 'PENDING') {
+    if (booking.status === 'CONFIRMED') {
+      const balanceDue = Number(booking.totalPrice) - CancellationService.paidAmount(
+        booking.payments.filter(payment => CAPTURED_PAYMENT_STATUSES.includes(payment.status))
+      );
+
+      if (balanceDue <= 0) {
+        throw new Error('Booking is not in pending status');
+      }
+      if (data.amount !== balanceDue) {
+        throw new Error(`Payment amount must match the balance due (${balanceDue} minor units)`);
+      }
+    } else if (booking.status !== 'PENDING') {
       throw new Error('Booking is not in pending status');
+    } else if (data.amount !== Number(booking.totalPrice)) {
+      throw new Error(`Payment amount must match the booking total (${Number(booking.totalPrice)} minor units)`);
+    }
+
+    if (booking.holdExpiresAt && booking.holdExpiresAt < new Date()) {
+      throw new Error('Booking hold has expired');
+    }
+
+    // The booking's price was locked in its own currency, so it has to be paid in that currency
+    const currency = data.currency.toUpperCase();
+    if (currency !== booking.currency) {
+      throw new Error(`Payment currency must match the booking currency (${booking.currency})`);
     }
 
     // Create payment record
@@ -53,7 +100,7 @@ export class PaymentService {
       data: {
         bookingId: data.bookingId,
         amount: data.amount,
-        currency: data.currency,
+        currency,
         method: data.method,
         provider: data.provider,
         status: 'PENDING'
@@ -61,7 +108,7 @@ export class PaymentService {
     });
 
     // Initialize payment with provider
-    const providerResponse = await this.initializeWithProvider(payment, data);
+    const providerResponse = await adapter.initialize(payment, data);
 
     // Update payment with provider transaction ID if available
     if (providerResponse.providerTransactionId) {
@@ -94,7 +141,8 @@ export class PaymentService {
 
     // Verify with provider if still pending
     if (payment.status === 'PENDING' && payment.providerTransactionId) {
-      const providerStatus = await this.verifyWithProvider(payment);
+      const adapter = PaymentProviderRegistry.get(payment.provider);
+      const providerStatus = adapter.supportsCheckout ? await adapter.verify(payment) : payment.status;
       
       if (providerStatus !== payment.status) {
         return await this.updatePaymentStatus(paymentId, providerStatus, payment.providerTransactionId);
@@ -130,95 +178,267 @@ export class PaymentService {
   }
 
   /**
-   * Update payment status and handle booking confirmation
+   * Refund part or all of a captured payment through its provider
    */
-  static async updatePaymentStatus(
+  static async refundPayment(
     paymentId: string,
-    status: PaymentStatus,
-    providerTransactionId?: string
-  ): Promise<Payment> {
-    const payment = await prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status,
-        providerTransactionId: providerTransactionId || undefined
-      },
-      include: { 
-        booking: {
+    amount: number,
+    reason: string,
+    options: RefundOptions = {}
+  ): Promise<Refund> {
+    const { payment, refund } = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { refunds: true }
+      });
+
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+
+      if (!PaymentProviderRegistry.get(payment.provider).supportsRefunds) {
+        throw new RefundValidationError(`${payment.provider} refunds are not supported yet; refund this payment from the provider's dashboard`);
+      }
+
+      RefundValidator.validateRefund(amount, PaymentRefunds.refundableAmount(payment, payment.refunds), reason);
+
+      // Touch the payment so a concurrent refund that read the same balance matches nothing
+      const claimed = await tx.payment.updateMany({
+        where: { id: paymentId, updatedAt: payment.updatedAt },
+        data: { updatedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Payment was modified concurrently, please retry');
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId,
+          amount,
+          currency: payment.currency,
+          reason: reason.trim(),
+          actorId: options.actorId
+        }
+      });
+
+      return { payment, refund };
+    });
+
+    let providerResponse: ProviderRefundResult;
+    try {
+      providerResponse = await PaymentProviderRegistry.get(payment.provider).refund(payment, refund);
+    } catch (error) {
+      // Free the amount up again so the refund can be retried
+      await this.updateRefundStatus(refund.id, 'FAILED');
+      throw error;
+    }
+
+    return await this.updateRefundStatus(refund.id, providerResponse.status, providerResponse.providerRefundId);
+  }
+
+  /**
+   * Process refund webhook from payment provider
+   */
+  static async processRefundWebhook(webhookData: RefundWebhookData): Promise<void> {
+    const refund = await prisma.refund.findUnique({
+      where: { id: webhookData.refundId },
+      include: { payment: { select: { provider: true } } }
+    });
+
+    if (!refund) {
+      throw new Error('Refund not found for webhook');
+    }
+
+    if (refund.payment.provider !== webhookData.provider) {
+      throw new Error('Provider mismatch in webhook');
+    }
+
+    await this.updateRefundStatus(webhookData.refundId, webhookData.status, webhookData.providerRefundId);
+  }
+
+  /**
+   * Settle a refund, then bring the payment and booking in line with what has been paid back.
+   * Only pending refunds move, so a late or repeated webhook cannot undo a settled one.
+   */
+  static async updateRefundStatus(
+    refundId: string,
+    status: RefundStatus,
+    providerRefundId?: string
+  ): Promise<Refund> {
+    const settled = await prisma.$transaction(async (tx) => {
+      const settled = await tx.refund.updateMany({
+        where: { id: refundId, status: 'PENDING' },
+        data: {
+          status,
+          providerRefundId: providerRefundId || undefined
+        }
+      });
+
+      // The customer hears of a completed refund, admins of a failed one
+      if (settled.count > 0 && status !== 'PENDING') {
+        const { payment } = await tx.refund.findUniqueOrThrow({
+          where: { id: refundId },
+          select: { payment: { select: { bookingId: true } } }
+        });
+
+        await OutboxService.enqueue(status === 'SUCCESS'
+          ? { kind: 'REFUND', bookingId: payment.bookingId, payload: { refundId } }
+          : { kind: 'ADMIN_REFUND_FAILURE', bookingId: payment.bookingId, payload: { refundId } }, tx);
+      }
+
+      return settled;
+    });
+
+    const refund = await prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        payment: {
           include: {
-            user: { select: { name: true, email: true } },
-            tour: { select: { title: true } }
+            refunds: true,
+            booking: {
+              include: {
+                payments: {
+                  where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+                  include: { refunds: true }
+                }
+              }
+            }
           }
         }
       }
     });
 
-    // Send payment status notification to customer
-    try {
-      await NotificationService.sendPaymentStatusEmail({
-        customerEmail: payment.booking.user.email,
-        customerName: payment.booking.user.name || 'Valued Customer',
-        paymentId: payment.id,
-        bookingId: payment.bookingId,
-        tourTitle: payment.booking.tour.title,
-        amount: payment.amount,
-        status: payment.status,
-        provider: payment.provider
+    if (settled.count === 0 || status === 'PENDING') {
+      return refund;
+    }
+
+    const { payment } = refund;
+    const booking = payment.booking;
+
+    if (status === 'SUCCESS') {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentRefunds.paymentStatus(payment, payment.refunds) }
       });
-    } catch (notificationError) {
-      console.error('Failed to send payment status notification:', notificationError);
-      // Don't fail the payment update if notification fails
+
+      const paidAmount = booking.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+      const refundedAmount = booking.payments.reduce(
+        (sum, p) => sum + PaymentRefunds.refundedAmount(p.refunds),
+        0
+      );
+
+      if (PaymentRefunds.settlesBooking(booking, paidAmount, refundedAmount)) {
+        try {
+          await BookingService.transition(booking.id, 'REFUNDED', {
+            actorId: refund.actorId ?? undefined,
+            reason: `Refund ${refund.id} completed`
+          });
+        } catch (transitionError) {
+          console.error('Failed to mark booking as refunded:', transitionError);
+          // Don't fail the refund, the money has already gone back
+        }
+      }
     }
 
-    // Update booking status based on payment status
-    if (status === 'SUCCESS' && payment.booking.status === 'PENDING') {
-      await this.confirmBooking(payment.bookingId);
+    await OutboxService.deliverQueuedQuietly(booking.id);
+
+    return refund;
+  }
+
+  /**
+   * Update payment status and handle booking confirmation.
+   * Provider reports can arrive late or out of order, so the update only applies from a
+   * status it may follow: a stale "failed" cannot overwrite a payment that already succeeded.
+   */
+  static async updatePaymentStatus(
+    paymentId: string,
+    status: PaymentStatus,
+    providerTransactionId?: string
+  ): Promise<Payment> {
+    const applied = await prisma.$transaction(async (tx) => {
+      const applied = await tx.payment.updateMany({
+        where: {
+          id: paymentId,
+          status: { in: PaymentStateMachine.providerSourcesFor(status) }
+        },
+        data: {
+          status,
+          providerTransactionId: providerTransactionId || undefined
+        }
+      });
+
+      if (applied.count > 0) {
+        const { bookingId } = await tx.payment.findUniqueOrThrow({
+          where: { id: paymentId },
+          select: { bookingId: true }
+        });
+
+        await OutboxService.enqueue({ kind: 'PAYMENT_STATUS', bookingId, payload: { paymentId, status } }, tx);
+        await OutboxService.enqueue({ kind: 'PAYMENT_STATUS_SMS', bookingId, payload: { paymentId, status } }, tx);
+
+        if (status === 'FAILED') {
+          await OutboxService.enqueue({ kind: 'ADMIN_PAYMENT_FAILURE', bookingId, payload: { paymentId } }, tx);
+        }
+      }
+
+      return applied;
+    });
+
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { booking: true }
+    });
+
+    if (applied.count === 0) {
+      // Stale, repeated or merely in-progress report; nothing changed
+      return payment;
     }
 
-    // Send admin notification for failed payments
-    if (status === 'FAILED') {
+    // Update booking status based on payment status.
+    // A payment that lands after the hold expired still confirms if the seats are free.
+    if (status === 'SUCCESS' && (payment.booking.status === 'PENDING' || payment.booking.status === 'EXPIRED')) {
       try {
-        await AdminNotificationService.sendPaymentFailureNotification({
-          type: 'PAYMENT_FAILURE',
-          paymentId: payment.id,
-          bookingId: payment.bookingId,
-          amount: payment.amount,
-          customerName: payment.booking.user.name || 'Unknown',
-          customerEmail: payment.booking.user.email,
-          tourTitle: payment.booking.tour.title,
-          provider: payment.provider
+        await BookingService.confirmBooking(payment.bookingId, { reason: `Payment ${payment.id} succeeded` });
+      } catch (error) {
+        const { status: bookingStatus } = await prisma.booking.findUniqueOrThrow({
+          where: { id: payment.bookingId },
+          select: { status: true }
         });
-      } catch (notificationError) {
-        console.error('Failed to send payment failure notification:', notificationError);
-        // Don't fail the payment update if notification fails
+
+        // The payment has been recorded, so a redelivered webhook would not confirm the booking either
+        if (bookingStatus !== 'EXPIRED') {
+          throw error;
+        }
+
+        await this.handleLatePayment(payment, error);
       }
     }
 
+    await OutboxService.deliverQueuedQuietly(payment.bookingId);
+
     return payment;
   }
 
   /**
-   * Confirm booking after successful payment
+   * A payment that succeeded after its booking expired and the seats went to someone else.
+   * Admins are alerted, and the money is sent back where the provider can refund it.
    */
-  private static async confirmBooking(bookingId: string): Promise<void> {
-    await prisma.$transaction(async (tx) => {
-      // Update booking status
-      const booking = await tx.booking.update({
-        where: { id: bookingId },
-        data: { status: 'CONFIRMED' },
-        include: { availability: true }
-      });
+  private static async handleLatePayment(payment: Payment, error: unknown): Promise<void> {
+    console.error(`Payment ${payment.id} succeeded after booking ${payment.bookingId} expired:`, error);
 
-      // Reduce available slots
-      await tx.tourAvailability.update({
-        where: { id: booking.availabilityId },
-        data: {
-          availableSlots: {
-            decrement: booking.travelersCount
-          }
-        }
-      });
-    });
+    await OutboxService.enqueue({ kind: 'ADMIN_LATE_PAYMENT', bookingId: payment.bookingId, payload: { paymentId: payment.id } }, prisma);
+
+    if (!PaymentProviderRegistry.get(payment.provider).supportsRefunds) {
+      return;
+    }
+
+    try {
+      await this.refundPayment(payment.id, Number(payment.amount), 'Seats were released before the payment arrived');
+    } catch (refundError) {
+      // A failed provider call has already alerted admins; anything else is left to the alert above
+      console.error(`Error refunding late payment ${payment.id}:`, refundError);
+    }
   }
 
   /**
@@ -233,8 +453,7 @@ export class PaymentService {
     destination: string;
     tourDate: Date;
     travelersCount: number;
-    totalAmount: number;
-    currency: string;
+    total: Money;
     paymentMethod: PaymentMethod;
     paymentDate: Date;
     status: string;
@@ -245,7 +464,7 @@ export class PaymentService {
         user: true,
         tour: { include: { destination: true } },
         availability: true,
-        payments: { where: { status: 'SUCCESS' } }
+        payments: { where: { status: { in: CAPTURED_PAYMENT_STATUSES } } }
       }
     });
 
@@ -253,7 +472,8 @@ export class PaymentService {
       throw new Error('Booking not found');
     }
 
-    const successfulPayment = booking.payments.find(p => p.status === 'SUCCESS');
+    // A payment that was later refunded in part or in full was still paid
+    const successfulPayment = booking.payments.find(p => CAPTURED_PAYMENT_STATUSES.includes(p.status));
     if (!successfulPayment) {
       throw new Error('No successful payment found for booking');
     }
@@ -267,118 +487,10 @@ export class PaymentService {
       destination: booking.tour.destination.name,
       tourDate: booking.availability.startDate,
       travelersCount: booking.travelersCount,
-      totalAmount: booking.totalPrice,
-      currency: successfulPayment.currency,
+      total: Money.of(booking.totalPrice, booking.currency),
       paymentMethod: successfulPayment.method,
       paymentDate: successfulPayment.updatedAt,
       status: booking.status
     };
   }
-
-  /**
-   * Initialize payment with specific provider
-   */
-  private static async initializeWithProvider(
-    payment: Payment,
-    data: PaymentInitData
-  ): Promise<{ paymentUrl?: string; providerTransactionId?: string }> {
-    switch (data.provider) {
-      case 'STRIPE':
-        return await this.initializeStripePayment(payment, data);
-      case 'PAYSTACK':
-        return await this.initializePaystackPayment(payment, data);
-      case 'FLUTTERWAVE':
-        return await this.initializeFlutterwavePayment(payment, data);
-      default:
-        throw new Error(`Unsupported payment provider: ${data.provider}`);
-    }
-  }
-
-  /**
-   * Verify payment with specific provider
-   */
-  private static async verifyWithProvider(payment: Payment): Promise<PaymentStatus> {
-    switch (payment.provider) {
-      case 'STRIPE':
-        return await this.verifyStripePayment(payment);
-      case 'PAYSTACK':
-        return await this.verifyPaystackPayment(payment);
-      case 'FLUTTERWAVE':
-        return await this.verifyFlutterwavePayment(payment);
-      default:
-        throw new Error(`Unsupported payment provider: ${payment.provider}`);
-    }
-  }
-
-  /**
-   * Stripe payment initialization
-   */
-  private static async initializeStripePayment(
-    payment: Payment,
-    _data: PaymentInitData
-  ): Promise<{ paymentUrl?: string; providerTransactionId?: string }> {
-    // TODO: Implement Stripe integration
-    // For now, return mock response
-    return {
-      paymentUrl: `https://checkout.stripe.com/pay/${payment.id}`,
-      providerTransactionId: `stripe_${payment.id}`
-    };
-  }
-
-  /**
-   * Paystack payment initialization
-   */
-  private static async initializePaystackPayment(
-    payment: Payment,
-    _data: PaymentInitData
-  ): Promise<{ paymentUrl?: string; providerTransactionId?: string }> {
-    // TODO: Implement Paystack integration
-    // For now, return mock response
-    return {
-      paymentUrl: `https://checkout.paystack.com/pay/${payment.id}`,
-      providerTransactionId: `paystack_${payment.id}`
-    };
-  }
-
-  /**
-   * Flutterwave payment initialization
-   */
-  private static async initializeFlutterwavePayment(
-    payment: Payment,
-    _data: PaymentInitData
-  ): Promise<{ paymentUrl?: string; providerTransactionId?: string }> {
-    // TODO: Implement Flutterwave integration
-    // For now, return mock response
-    return {
-      paymentUrl: `https://checkout.flutterwave.com/pay/${payment.id}`,
-      providerTransactionId: `flutterwave_${payment.id}`
-    };
-  }
-
-  /**
-   * Stripe payment verification
-   */
-  private static async verifyStripePayment(payment: Payment): Promise<PaymentStatus> {
-    // TODO: Implement Stripe verification
-    // For now, return current status
-    return payment.status;
-  }
-
-  /**
-   * Paystack payment verification
-   */
-  private static async verifyPaystackPayment(payment: Payment): Promise<PaymentStatus> {
-    // TODO: Implement Paystack verification
-    // For now, return current status
-    return payment.status;
-  }
-
-  /**
-   * Flutterwave payment verification
-   */
-  private static async verifyFlutterwavePayment(payment: Payment): Promise<PaymentStatus> {
-    // TODO: Implement Flutterwave verification
-    // For now, return current status
-    return payment.status;
-  }
 }
\ No newline at end of file
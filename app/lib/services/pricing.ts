@@ -0,0 +1,83 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import {
+  PricingRule,
+  CreatePricingRuleData,
+  UpdatePricingRuleData,
+  PricingRuleValidator,
+} from '../models/pricing';
+
+export class PricingRuleService {
+  static async listRules(tourId: string): Promise<PricingRule[]> {
+    return await prisma.pricingRule.findMany({
+      where: { tourId },
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * The rules that currently set a tour's prices
+   */
+  static async activeRules(tourId: string, client: Prisma.TransactionClient = prisma): Promise<PricingRule[]> {
+    return await client.pricingRule.findMany({
+      where: { tourId, isActive: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  static async createRule(tourId: string, data: CreatePricingRuleData): Promise<PricingRule> {
+    PricingRuleValidator.validateCreateData(data);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: { id: true }
+    });
+
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    return await prisma.pricingRule.create({
+      data: {
+        tourId,
+        name: data.name.trim(),
+        ...PricingRuleValidator.termsFor(data),
+        isActive: data.isActive ?? true
+      }
+    });
+  }
+
+  /**
+   * Change a rule. Bookings already made keep the prices they were made at.
+   */
+  static async updateRule(tourId: string, ruleId: string, data: UpdatePricingRuleData): Promise<PricingRule> {
+    const current = await this.getRule(tourId, ruleId);
+
+    PricingRuleValidator.validateUpdateData(data, current);
+    const merged = { ...current, ...data };
+
+    return await prisma.pricingRule.update({
+      where: { id: ruleId },
+      data: {
+        name: merged.name.trim(),
+        ...PricingRuleValidator.termsFor(merged),
+        isActive: merged.isActive
+      }
+    });
+  }
+
+  static async deleteRule(tourId: string, ruleId: string): Promise<void> {
+    await this.getRule(tourId, ruleId);
+    await prisma.pricingRule.delete({ where: { id: ruleId } });
+  }
+
+  private static async getRule(tourId: string, ruleId: string): Promise<PricingRule> {
+    const rule = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+
+    if (!rule || rule.tourId !== tourId) {
+      throw new Error('Pricing rule not found');
+    }
+
+    return rule;
+  }
+}
@@ -0,0 +1,253 @@
+import { BookingStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ExchangeRateService } from './exchange-rate';
+import { Money } from '../models/money';
+import {
+  PromoCode,
+  CreatePromoCodeData,
+  UpdatePromoCodeData,
+  PromoCodeContext,
+  PromoCodeUsage,
+  PromoCodeRules,
+  PromoCodeValidator,
+  PromoCodeValidationError,
+} from '../models/promo-code';
+
+export interface PromoCodeWithUsage extends PromoCode {
+  redemptions: number;
+  tour: { id: string; title: string } | null;
+  destination: { id: string; name: string } | null;
+}
+
+export interface AppliedPromoCode {
+  promoCode: PromoCode;
+  discount: Money;
+}
+
+export interface PromoCodeRedemptionReport {
+  promoCodeId: string;
+  code: string;
+  isActive: boolean;
+  redemptions: number;
+  customers: number;
+  // Discount given and revenue taken, per booking currency
+  byCurrency: {
+    currency: string;
+    bookings: number;
+    discount: Money;
+    revenue: Money;
+  }[];
+}
+
+// A booking whose seat hold lapsed unpaid gives its redemption back
+const RELEASED_STATUSES: BookingStatus[] = ['EXPIRED'];
+
+export class PromoCodeService {
+  /**
+   * Every code with how often it has been redeemed, newest first
+   */
+  static async listCodes(): Promise<PromoCodeWithUsage[]> {
+    const codes = await prisma.promoCode.findMany({
+      include: {
+        tour: { select: { id: true, title: true } },
+        destination: { select: { id: true, name: true } },
+        _count: {
+          select: { bookings: { where: { status: { notIn: RELEASED_STATUSES } } } }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return codes.map(({ _count, ...code }) => ({ ...code, redemptions: _count.bookings }));
+  }
+
+  static async getCode(id: string): Promise<PromoCode> {
+    const code = await prisma.promoCode.findUnique({ where: { id } });
+
+    if (!code) {
+      throw new Error('Promo code not found');
+    }
+
+    return code;
+  }
+
+  static async createCode(data: CreatePromoCodeData): Promise<PromoCode> {
+    PromoCodeValidator.validateCreateData(data);
+    await this.assertScopeExists(data.tourId, data.destinationId);
+
+    try {
+      return await prisma.promoCode.create({
+        data: {
+          code: PromoCodeValidator.normalizeCode(data.code),
+          description: data.description?.trim() || null,
+          discountType: data.discountType,
+          discountValue: data.discountValue,
+          currency: data.currency ?? null,
+          tourId: data.tourId ?? null,
+          destinationId: data.destinationId ?? null,
+          minTravelers: data.minTravelers ?? 1,
+          validFrom: data.validFrom ?? null,
+          validUntil: data.validUntil ?? null,
+          maxRedemptions: data.maxRedemptions ?? null,
+          maxRedemptionsPerUser: data.maxRedemptionsPerUser ?? null,
+          isActive: data.isActive ?? true
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new PromoCodeValidationError('A promo code with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Change the terms of a code. Bookings already made keep the discount they got.
+   */
+  static async updateCode(id: string, data: UpdatePromoCodeData): Promise<PromoCode> {
+    const current = await this.getCode(id);
+
+    PromoCodeValidator.validateUpdateData(data, current);
+    await this.assertScopeExists(data.tourId, data.destinationId);
+
+    return await prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...data,
+        description: data.description !== undefined ? data.description?.trim() || null : undefined
+      }
+    });
+  }
+
+  /**
+   * Delete a code nobody has used; used codes are kept for the record and can be deactivated
+   */
+  static async deleteCode(id: string): Promise<void> {
+    await this.getCode(id);
+
+    const bookings = await prisma.booking.count({ where: { promoCodeId: id } });
+    if (bookings > 0) {
+      throw new PromoCodeValidationError('Promo codes that have been used cannot be deleted; deactivate them instead');
+    }
+
+    await prisma.promoCode.delete({ where: { id } });
+  }
+
+  /**
+   * Check a code against a booking and work out its discount off the subtotal.
+   * Pass the booking transaction so the redemption limits are checked against it.
+   */
+  static async applyCode(
+    code: string,
+    context: PromoCodeContext & { userId: string },
+    subtotal: Money,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<AppliedPromoCode> {
+    const promoCode = await client.promoCode.findUnique({
+      where: { code: PromoCodeValidator.normalizeCode(code) }
+    });
+
+    if (!promoCode) {
+      throw new PromoCodeValidationError('Promo code not found');
+    }
+
+    const usage = await this.usage(promoCode.id, context.userId, client);
+    PromoCodeRules.assertApplicable(promoCode, context, usage);
+
+    const rate = promoCode.currency && promoCode.currency !== subtotal.currency
+      ? await ExchangeRateService.getRate(promoCode.currency, subtotal.currency)
+      : 1;
+
+    return { promoCode, discount: PromoCodeRules.discount(promoCode, subtotal, rate) };
+  }
+
+  /**
+   * Take a redemption of a code inside the booking transaction. The code is touched so a
+   * concurrent booking that counted the same redemptions matches nothing.
+   */
+  static async claimRedemption(promoCode: PromoCode, client: Prisma.TransactionClient): Promise<void> {
+    const claimed = await client.promoCode.updateMany({
+      where: { id: promoCode.id, updatedAt: promoCode.updatedAt },
+      data: { updatedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Promo code was modified concurrently, please retry');
+    }
+  }
+
+  static async usage(
+    promoCodeId: string,
+    userId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PromoCodeUsage> {
+    const [total, byUser] = await Promise.all([
+      client.booking.count({ where: { promoCodeId, status: { notIn: RELEASED_STATUSES } } }),
+      client.booking.count({ where: { promoCodeId, userId, status: { notIn: RELEASED_STATUSES } } })
+    ]);
+
+    return { total, byUser };
+  }
+
+  /**
+   * Redemptions, customers, discount given and revenue taken per code
+   */
+  static async redemptionReport(): Promise<PromoCodeRedemptionReport[]> {
+    const where: Prisma.BookingWhereInput = {
+      promoCodeId: { not: null },
+      status: { notIn: RELEASED_STATUSES }
+    };
+
+    const [codes, byCurrency, byCustomer] = await Promise.all([
+      prisma.promoCode.findMany({
+        select: { id: true, code: true, isActive: true },
+        orderBy: { code: 'asc' }
+      }),
+      prisma.booking.groupBy({
+        by: ['promoCodeId', 'currency'],
+        where,
+        _count: { id: true },
+        _sum: { discountAmount: true, totalPrice: true },
+        orderBy: { currency: 'asc' }
+      }),
+      prisma.booking.groupBy({
+        by: ['promoCodeId', 'userId'],
+        where,
+        orderBy: { promoCodeId: 'asc' }
+      })
+    ]);
+
+    return codes.map(code => {
+      const totals = byCurrency.filter(group => group.promoCodeId === code.id);
+      return {
+        promoCodeId: code.id,
+        code: code.code,
+        isActive: code.isActive,
+        redemptions: totals.reduce((sum, group) => sum + group._count.id, 0),
+        customers: byCustomer.filter(group => group.promoCodeId === code.id).length,
+        byCurrency: totals.map(group => ({
+          currency: group.currency,
+          bookings: group._count.id,
+          discount: Money.of(group._sum.discountAmount ?? 0, group.currency),
+          revenue: Money.of(group._sum.totalPrice ?? 0, group.currency)
+        }))
+      };
+    });
+  }
+
+  private static async assertScopeExists(tourId?: string | null, destinationId?: string | null): Promise<void> {
+    if (tourId) {
+      const tour = await prisma.tour.findUnique({ where: { id: tourId }, select: { id: true } });
+      if (!tour) {
+        throw new Error('Tour not found');
+      }
+    }
+
+    if (destinationId) {
+      const destination = await prisma.destination.findUnique({ where: { id: destinationId }, select: { id: true } });
+      if (!destination) {
+        throw new Error('Destination not found');
+      }
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Money } from '../models/money';
+import { BOOKED_STATUSES } from '../models/booking';
+import { CAPTURED_PAYMENT_STATUSES } from '../models/refund';
+
+export interface CurrencyRevenue {
+  currency: string;
+  total: Money;
+  transactions: number;
+  average: Money;
+}
+
+export interface TourRevenue {
+  tourId: string;
+  currency: string;
+  revenue: Money;
+  bookings: number;
+  average: Money;
+}
+
+export class RevenueService {
+  /**
+   * Captured payments totalled per currency, less what has been refunded from them.
+   * Amounts in different currencies are never added together, and the database sums
+   * whole minor units, so totals are exact.
+   */
+  static async paymentRevenue(where: Prisma.PaymentWhereInput = {}): Promise<CurrencyRevenue[]> {
+    const captured: Prisma.PaymentWhereInput = { ...where, status: { in: CAPTURED_PAYMENT_STATUSES } };
+
+    const [groups, refunds] = await Promise.all([
+      prisma.payment.groupBy({
+        by: ['currency'],
+        where: captured,
+        _sum: { amount: true },
+        _count: { id: true },
+        orderBy: { currency: 'asc' }
+      }),
+      prisma.refund.groupBy({
+        by: ['currency'],
+        where: { status: 'SUCCESS', payment: captured },
+        _sum: { amount: true },
+        orderBy: { currency: 'asc' }
+      })
+    ]);
+
+    const refunded = new Map(refunds.map(group => [group.currency, group._sum.amount ?? 0]));
+
+    return groups.map(group => {
+      const total = Money.of(group._sum.amount ?? 0, group.currency)
+        .subtract(Money.of(refunded.get(group.currency) ?? 0, group.currency));
+      return {
+        currency: group.currency,
+        total,
+        transactions: group._count.id,
+        average: this.average(total, group._count.id)
+      };
+    });
+  }
+
+  /**
+   * Booked value per tour and currency, counting confirmed bookings and those that have
+   * since run, by currency and highest first within each. Minor units of different
+   * currencies are worth different amounts, so tours are only ever ranked against tours
+   * earning in the same currency.
+   */
+  static async tourRevenue(where: Prisma.BookingWhereInput = {}): Promise<TourRevenue[]> {
+    const groups = await prisma.booking.groupBy({
+      by: ['tourId', 'currency'],
+      where: { ...where, status: { in: BOOKED_STATUSES } },
+      _sum: { totalPrice: true },
+      _count: { id: true },
+      orderBy: [{ currency: 'asc' }, { _sum: { totalPrice: 'desc' } }]
+    });
+
+    return groups.map(group => {
+      const revenue = Money.of(group._sum.totalPrice ?? 0, group.currency);
+      return {
+        tourId: group.tourId,
+        currency: group.currency,
+        revenue,
+        bookings: group._count.id,
+        average: this.average(revenue, group._count.id)
+      };
+    });
+  }
+
+  /**
+   * Mean of count amounts adding up to total, rounded to the nearest minor unit
+   */
+  static average(total: Money, count: number): Money {
+    return count > 0 ? Money.of(Math.round(total.amount / count), total.currency) : Money.zero(total.currency);
+  }
+
+  /**
+   * Percentage change from the previous amount, to two decimals; 0 without a previous amount
+   */
+  static growth(current: Money, previous: Money): number {
+    if (previous.isZero()) return 0;
+    return Math.round(current.subtract(previous).amount / previous.amount * 10000) / 100;
+  }
+}
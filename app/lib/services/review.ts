@@ -1,4 +1,5 @@
 import { prisma } from '../prisma';
+import { BOOKED_STATUSES } from '../models/booking';
 
 export interface CreateReviewData {
   userId: string;
@@ -18,14 +19,14 @@ export interface ReviewFilters {
 export class ReviewService {
   /**
    * Check if a user is eligible to review a tour
-   * User must have a confirmed booking for the tour
+   * User must have a confirmed booking for the tour, or one that has since run
    */
   static async checkReviewEligibility(userId: string, tourId: string): Promise<boolean> {
     const confirmedBooking = await prisma.booking.findFirst({
       where: {
         userId: userId,
         tourId: tourId,
-        status: 'CONFIRMED'
+        status: { in: BOOKED_STATUSES }
       }
     });
 
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { SmsDelivery, SmsGateway, SmsMessage } from './types';
+import { measureSms } from './length';
+
+export interface FakeSms extends SmsMessage {
+  id: string;
+  segments: number;
+  sentAt: Date;
+}
+
+// Most messages kept in memory; older ones are dropped
+export const FAKE_SMS_LIMIT = 200;
+
+// Sent messages, kept across hot reloads like the Prisma client
+const globalForFakeSms = globalThis as unknown as {
+  fakeSmsMessages: FakeSms[] | undefined
+};
+
+const fakeSmsMessages = globalForFakeSms.fakeSmsMessages ?? [];
+globalForFakeSms.fakeSmsMessages = fakeSmsMessages;
+
+/**
+ * Keeps text messages instead of sending them, so development and tests never reach a
+ * real phone. Messages can be listed from /api/dev/sms.
+ */
+export class FakeSmsGateway implements SmsGateway {
+  readonly name = 'fake';
+
+  async send(message: SmsMessage): Promise<SmsDelivery> {
+    const sent: FakeSms = {
+      ...message,
+      id: crypto.randomUUID(),
+      segments: measureSms(message.body).segments,
+      sentAt: new Date()
+    };
+
+    fakeSmsMessages.unshift(sent);
+    fakeSmsMessages.splice(FAKE_SMS_LIMIT);
+    console.log(`Fake SMS to ${message.to} (${sent.segments} part${sent.segments === 1 ? '' : 's'}): ${message.body}`);
+
+    return { messageId: sent.id, segments: sent.segments };
+  }
+
+  /**
+   * Sent messages, newest first
+   */
+  static messages(): FakeSms[] {
+    return [...fakeSmsMessages];
+  }
+
+  static clear(): void {
+    fakeSmsMessages.splice(0);
+  }
+}
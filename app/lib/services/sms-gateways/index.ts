@@ -0,0 +1,61 @@
+import { UserValidator } from '../../models/user';
+import { SmsDelivery, SmsGateway, SmsMessage } from './types';
+import { FakeSmsGateway } from './fake';
+import { TwilioGateway } from './twilio';
+
+export type { SmsDelivery, SmsGateway, SmsMessage } from './types';
+export type { FakeSms } from './fake';
+export type { TwilioConfig } from './twilio';
+export type { SmsEncoding, SmsLength } from './length';
+
+export { FakeSmsGateway, FAKE_SMS_LIMIT } from './fake';
+export { TwilioGateway, SmsGatewayError } from './twilio';
+export { measureSms, truncateSms, fitSms } from './length';
+
+// Fake messages can hold booking details, so they are only browsable outside production
+export const isFakeSmsBrowsable = (): boolean => process.env.NODE_ENV !== 'production';
+
+export class SmsSender {
+  private static gateway: SmsGateway | null = null;
+
+  /**
+   * The gateway named by SMS_GATEWAY ("twilio" or "fake"). Production defaults to Twilio
+   * so messages are never silently kept; everywhere else defaults to the fake gateway.
+   */
+  static current(): SmsGateway {
+    if (!this.gateway) {
+      const name = process.env.SMS_GATEWAY || (process.env.NODE_ENV === 'production' ? 'twilio' : 'fake');
+
+      switch (name) {
+        case 'twilio':
+          this.gateway = TwilioGateway.fromEnv();
+          break;
+        case 'fake':
+          this.gateway = new FakeSmsGateway();
+          break;
+        default:
+          throw new Error(`Unsupported SMS gateway: ${name}`);
+      }
+    }
+    return this.gateway;
+  }
+
+  /**
+   * Send through a given gateway instead of the configured one
+   */
+  static use(gateway: SmsGateway | null): void {
+    this.gateway = gateway;
+  }
+
+  /**
+   * A phone number as gateways take it. Numbers written without a country code are read
+   * as local to SMS_DEFAULT_COUNTRY_CODE (e.g. 233) when that is set.
+   */
+  static normalizePhone(phone: string): string {
+    return UserValidator.normalizePhone(phone, process.env.SMS_DEFAULT_COUNTRY_CODE || undefined);
+  }
+
+  static async send(message: SmsMessage): Promise<SmsDelivery> {
+    return await this.current().send(message);
+  }
+}
@@ -0,0 +1,88 @@
+// Characters of the GSM 03.38 default alphabet, one septet each
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// Characters of its extension table, sent as an escape plus a septet
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+// Units a single message holds, and each part of a message split into several
+const LIMITS = {
+  'GSM-7': { single: 160, part: 153 },
+  'UCS-2': { single: 70, part: 67 }
+} as const;
+
+export type SmsEncoding = keyof typeof LIMITS;
+
+export interface SmsLength {
+  encoding: SmsEncoding;
+  units: number; // Septets for GSM-7, UTF-16 code units for UCS-2
+  segments: number;
+}
+
+const ELLIPSIS = '...';
+
+/**
+ * How long a message is on the wire. A single character outside the GSM alphabet sends the
+ * whole message as UCS-2, which more than halves what fits in each part.
+ */
+export function measureSms(body: string): SmsLength {
+  let septets = 0;
+  let gsm = true;
+
+  for (const char of body) {
+    if (GSM_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      gsm = false;
+      break;
+    }
+  }
+
+  const encoding: SmsEncoding = gsm ? 'GSM-7' : 'UCS-2';
+  const units = gsm ? septets : body.length;
+  const { single, part } = LIMITS[encoding];
+
+  return {
+    encoding,
+    units,
+    segments: units === 0 ? 1 : units <= single ? 1 : Math.ceil(units / part)
+  };
+}
+
+/**
+ * Cut a message down to at most the given number of parts, marking the cut
+ */
+export function truncateSms(body: string, maxSegments: number): string {
+  if (measureSms(body).segments <= maxSegments) {
+    return body;
+  }
+
+  const chars = Array.from(body);
+  let length = chars.length;
+  while (length > 0 && measureSms(chars.slice(0, length).join('').trimEnd() + ELLIPSIS).segments > maxSegments) {
+    length--;
+  }
+
+  return chars.slice(0, length).join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Fit a message built around one free-text part (usually a tour title) into the given
+ * number of parts, shortening that part first so the rest of the message stays whole.
+ * If no length of it fits, the whole message is cut instead.
+ */
+export function fitSms(build: (text: string) => string, text: string, maxSegments: number): string {
+  const chars = Array.from(text);
+
+  for (let length = chars.length; length > 0; length--) {
+    const shortened = length === chars.length ? text : chars.slice(0, length).join('').trimEnd() + ELLIPSIS;
+    const body = build(shortened);
+    if (measureSms(body).segments <= maxSegments) {
+      return body;
+    }
+  }
+
+  return truncateSms(build(text), maxSegments);
+}
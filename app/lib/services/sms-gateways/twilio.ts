@@ -0,0 +1,66 @@
+import { SmsDelivery, SmsGateway, SmsMessage } from './types';
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string; // E.164 number or messaging service sender id
+  timeoutMs: number;
+}
+
+export class SmsGatewayError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'SmsGatewayError';
+  }
+}
+
+/**
+ * Sends through Twilio's Programmable Messaging REST API
+ */
+export class TwilioGateway implements SmsGateway {
+  readonly name = 'twilio';
+
+  constructor(private readonly config: TwilioConfig) {}
+
+  /**
+   * Configuration from TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM
+   */
+  static fromEnv(): TwilioGateway {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM;
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM must be set to send SMS through Twilio');
+    }
+
+    return new TwilioGateway({
+      accountSid,
+      authToken,
+      from,
+      timeoutMs: Number(process.env.SMS_TIMEOUT_MS) || 10_000
+    });
+  }
+
+  async send(message: SmsMessage): Promise<SmsDelivery> {
+    const { accountSid, authToken, from, timeoutMs } = this.config;
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    const result = await response.json().catch(() => ({})) as { sid?: string; num_segments?: string; message?: string };
+
+    if (!response.ok || !result.sid) {
+      throw new SmsGatewayError(`Twilio replied ${response.status}: ${result.message || response.statusText}`, response.status);
+    }
+
+    return { messageId: result.sid, segments: Number(result.num_segments) || 1 };
+  }
+}
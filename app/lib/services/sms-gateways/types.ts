@@ -0,0 +1,22 @@
+export interface SmsMessage {
+  to: string; // E.164 phone number
+  body: string;
+}
+
+export interface SmsDelivery {
+  messageId: string;
+  segments: number; // Parts the carrier splits the message into, each billed separately
+}
+
+/**
+ * Everything the app needs to hand a text message over for delivery. SmsSender picks
+ * the gateway from the environment; each gateway lives in its own module.
+ */
+export interface SmsGateway {
+  readonly name: string;
+
+  /**
+   * Deliver one message, resolving once the gateway has accepted it
+   */
+  send(message: SmsMessage): Promise<SmsDelivery>;
+}
@@ -0,0 +1,219 @@
+import { BookingStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { encrypt, decrypt, reencrypt, currentEnvelopePrefix } from '../utils/encryption';
+import { toCsv } from '../utils/csv';
+import { toPdf, PDF_LINE_WIDTH } from '../utils/pdf';
+import {
+  Traveler,
+  TravelerDetails,
+  TravelerValidator,
+  DepartureManifest,
+  MANIFEST_COLUMNS,
+  REENCRYPT_BATCH_SIZE,
+  ReencryptionSummary,
+} from '../models/traveler';
+
+// Bookings whose travelers are expected on the departure, including those still being paid for
+const MANIFEST_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED', 'COMPLETED', 'NO_SHOW'];
+
+export class TravelerService {
+  /**
+   * Store a booking's travelers, encrypting their passport details
+   */
+  static async createTravelers(
+    bookingId: string,
+    travelers: TravelerDetails[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.traveler.createMany({
+      data: travelers.map(traveler => {
+        const details = TravelerValidator.normalize(traveler);
+        return {
+          bookingId,
+          ...details,
+          passportNumber: details.passportNumber ? encrypt(details.passportNumber) : null,
+          passportExpiry: details.passportExpiry ? encrypt(details.passportExpiry.toISOString()) : null
+        };
+      })
+    });
+  }
+
+  /**
+   * A booking's travelers with passport numbers masked, for the customer's own pages
+   */
+  static async listTravelers(bookingId: string): Promise<TravelerDetails[]> {
+    const travelers = await prisma.traveler.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return travelers.map(traveler => {
+      const details = this.decryptTraveler(traveler);
+      return {
+        ...details,
+        passportNumber: details.passportNumber ? TravelerValidator.maskPassportNumber(details.passportNumber) : null
+      };
+    });
+  }
+
+  /**
+   * Everyone travelling on a departure, in full, for guides and hotels
+   */
+  static async manifest(tourId: string, availabilityId: string): Promise<DepartureManifest> {
+    const availability = await prisma.tourAvailability.findUnique({
+      where: { id: availabilityId },
+      include: {
+        tour: { select: { title: true } },
+        bookings: {
+          where: { status: { in: MANIFEST_STATUSES } },
+          include: {
+            travelers: true,
+            user: { select: { name: true, email: true } }
+          }
+        }
+      }
+    });
+
+    if (!availability || availability.tourId !== tourId) {
+      throw new Error('Departure not found');
+    }
+
+    const travelers = availability.bookings
+      .flatMap(booking => booking.travelers.map(traveler => ({
+        ...this.decryptTraveler(traveler),
+        bookingId: booking.id,
+        bookingStatus: booking.status,
+        bookedBy: `${booking.user.name} <${booking.user.email}>`
+      })))
+      .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+    const missingTravelers = availability.bookings.reduce(
+      (missing, booking) => missing + Math.max(booking.travelersCount - booking.travelers.length, 0),
+      0
+    );
+
+    return {
+      departure: {
+        id: availability.id,
+        tourTitle: availability.tour.title,
+        startDate: availability.startDate,
+        endDate: availability.endDate
+      },
+      travelers,
+      missingTravelers
+    };
+  }
+
+  static manifestCsv(manifest: DepartureManifest): string {
+    return toCsv(
+      MANIFEST_COLUMNS.map(column => column.header),
+      manifest.travelers.map(entry => MANIFEST_COLUMNS.map(column => column.value(entry)))
+    );
+  }
+
+  /**
+   * The manifest as a printable table. Columns are sized to their widest value and the
+   * least essential ones are dropped when the table is wider than the page.
+   */
+  static manifestPdf(manifest: DepartureManifest): Buffer {
+    const rows = manifest.travelers.map(entry => MANIFEST_COLUMNS.map(column => column.value(entry)));
+    const widths = MANIFEST_COLUMNS.map((column, index) =>
+      Math.min(32, Math.max(column.header.length, ...rows.map(row => row[index].length)))
+    );
+
+    let columnCount = MANIFEST_COLUMNS.length;
+    const tableWidth = (count: number) => widths.slice(0, count).reduce((sum, width) => sum + width + 2, 0);
+    while (columnCount > 1 && tableWidth(columnCount) > PDF_LINE_WIDTH) {
+      columnCount--;
+    }
+
+    const line = (cells: string[]) => cells
+      .slice(0, columnCount)
+      .map((cell, index) => cell.slice(0, widths[index]).padEnd(widths[index]))
+      .join('  ')
+      .trimEnd();
+
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    const header = line(MANIFEST_COLUMNS.map(column => column.header));
+
+    return toPdf([
+      `Manifest: ${manifest.departure.tourTitle}`,
+      `Departure ${day(manifest.departure.startDate)} to ${day(manifest.departure.endDate)}, ` +
+        `${manifest.travelers.length} travelers` +
+        (manifest.missingTravelers > 0 ? `, ${manifest.missingTravelers} without details` : ''),
+      '',
+      header,
+      '-'.repeat(header.length),
+      ...rows.map(line)
+    ]);
+  }
+
+  /**
+   * Re-encrypt passport details written before envelopes or under an older key with the
+   * current key (called by the scheduler after a key is added). Once a run reports nothing
+   * failed, the older keys can be removed from the configuration.
+   */
+  static async reencryptPassports(batchSize: number = REENCRYPT_BATCH_SIZE): Promise<ReencryptionSummary> {
+    const prefix = currentEnvelopePrefix();
+    const summary: ReencryptionSummary = { reencrypted: 0, skipped: 0, failed: 0 };
+    let cursor: string | undefined;
+    let page: number;
+
+    do {
+      const travelers = await prisma.traveler.findMany({
+        where: {
+          ...(cursor ? { id: { gt: cursor } } : {}),
+          OR: [
+            { passportNumber: { not: null }, NOT: { passportNumber: { startsWith: prefix } } },
+            { passportExpiry: { not: null }, NOT: { passportExpiry: { startsWith: prefix } } }
+          ]
+        },
+        select: { id: true, passportNumber: true, passportExpiry: true },
+        orderBy: { id: 'asc' },
+        take: batchSize
+      });
+
+      for (const traveler of travelers) {
+        let data: { passportNumber: string | null; passportExpiry: string | null };
+        try {
+          data = {
+            passportNumber: traveler.passportNumber && reencrypt(traveler.passportNumber),
+            passportExpiry: traveler.passportExpiry && reencrypt(traveler.passportExpiry)
+          };
+        } catch {
+          console.error(`Could not re-encrypt passport details of traveler ${traveler.id}`);
+          summary.failed++;
+          continue;
+        }
+
+        // Only replace the ciphertext as it was read, so a concurrent edit is never undone
+        const updated = await prisma.traveler.updateMany({
+          where: { id: traveler.id, passportNumber: traveler.passportNumber, passportExpiry: traveler.passportExpiry },
+          data
+        });
+
+        summary[updated.count > 0 ? 'reencrypted' : 'skipped']++;
+      }
+
+      page = travelers.length;
+      cursor = travelers[page - 1]?.id;
+    } while (page === batchSize);
+
+    return summary;
+  }
+
+  private static decryptTraveler(traveler: Traveler): TravelerDetails {
+    return {
+      travelerType: traveler.travelerType,
+      firstName: traveler.firstName,
+      lastName: traveler.lastName,
+      dateOfBirth: traveler.dateOfBirth,
+      nationality: traveler.nationality,
+      passportNumber: traveler.passportNumber ? decrypt(traveler.passportNumber) : null,
+      passportExpiry: traveler.passportExpiry ? new Date(decrypt(traveler.passportExpiry)) : null,
+      dietaryRequirements: traveler.dietaryRequirements,
+      emergencyContactName: traveler.emergencyContactName,
+      emergencyContactPhone: traveler.emergencyContactPhone
+    };
+  }
+}
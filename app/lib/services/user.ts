@@ -0,0 +1,347 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Mailer } from './email-transports';
+import { PasswordResetService } from './password-reset';
+import { EmailTemplates } from '../templates/email-templates';
+import {
+  InviteUserData,
+  USER_INVITE_DAYS,
+  UserAccountStatus,
+  UserListFilters,
+  UserSummary,
+  UserValidationError,
+  UserValidator,
+} from '../models/user';
+
+const appUrl = () => process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+// What the console shows, plus the password hash only to tell whether an invite is still open
+const summaryFields = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  phone: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  invitedAt: true,
+  deletedAt: true,
+  createdAt: true,
+  passwordHash: true
+} as const;
+
+type SummaryRow = Prisma.UserGetPayload<{ select: typeof summaryFields }>;
+
+const toSummary = ({ passwordHash, ...user }: SummaryRow): UserSummary => ({
+  ...user,
+  status: UserValidator.accountStatus({ ...user, passwordHash })
+});
+
+// The same conditions as UserValidator.accountStatus, for filtering in the database
+const statusWhere: Record<UserAccountStatus, Prisma.UserWhereInput> = {
+  deleted: { deletedAt: { not: null } },
+  suspended: { deletedAt: null, suspendedAt: { not: null } },
+  invited: { deletedAt: null, suspendedAt: null, invitedAt: { not: null }, passwordHash: '' },
+  active: { deletedAt: null, suspendedAt: null, NOT: { invitedAt: { not: null }, passwordHash: '' } }
+};
+
+export class UserService {
+  /**
+   * One page of users, newest first, matching a name or email search, role and status
+   */
+  static async listUsers(filters: UserListFilters) {
+    const where: Prisma.UserWhereInput = {
+      ...(filters.role ? { role: filters.role } : {}),
+      ...(filters.status ? statusWhere[filters.status] : {}),
+      ...(filters.search ? {
+        OR: [
+          { name: { contains: filters.search, mode: 'insensitive' } },
+          { email: { contains: filters.search, mode: 'insensitive' } }
+        ]
+      } : {})
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: summaryFields,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    return {
+      users: users.map(toSummary),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit)
+      }
+    };
+  }
+
+  /**
+   * A user with their bookings, the payments made for them and their reviews
+   */
+  static async getUserDetail(id: string) {
+    const [user, payments] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id },
+        select: {
+          ...summaryFields,
+          bookings: {
+            include: {
+              tour: { select: { id: true, title: true } },
+              availability: { select: { startDate: true, endDate: true } }
+            },
+            orderBy: { createdAt: 'desc' }
+          },
+          reviews: {
+            include: {
+              tour: { select: { id: true, title: true } }
+            },
+            orderBy: { createdAt: 'desc' }
+          }
+        }
+      }),
+      prisma.payment.findMany({
+        where: { booking: { userId: id } },
+        include: {
+          refunds: true,
+          booking: { select: { id: true, tour: { select: { title: true } } } }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { bookings, reviews, ...account } = user;
+
+    return {
+      user: toSummary(account),
+      bookings,
+      payments,
+      reviews
+    };
+  }
+
+  /**
+   * Change a user's role. Their open sessions end, so the new role applies from their next
+   * sign-in rather than whenever their session happens to refresh.
+   */
+  static async changeRole(actorId: string, userId: string, role: unknown): Promise<UserSummary> {
+    const newRole = UserValidator.validateRole(role);
+    UserValidator.assertNotSelf(actorId, userId, 'change the role of');
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: summaryFields
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.role === newRole) {
+      return toSummary(user);
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        role: newRole,
+        sessionVersion: { increment: 1 }
+      },
+      select: summaryFields
+    });
+
+    return toSummary(updated);
+  }
+
+  /**
+   * Suspend an account: the user is signed out everywhere and cannot sign in again until it
+   * is reactivated
+   */
+  static async suspend(actorId: string, userId: string, reason: unknown, now: Date = new Date()): Promise<UserSummary> {
+    const suspensionReason = UserValidator.validateSuspensionReason(reason);
+    UserValidator.assertNotSelf(actorId, userId, 'suspend');
+
+    const suspended = await prisma.user.updateMany({
+      where: { id: userId, suspendedAt: null },
+      data: {
+        suspendedAt: now,
+        suspensionReason,
+        sessionVersion: { increment: 1 }
+      }
+    });
+
+    if (suspended.count === 0) {
+      await this.findSummary(userId);
+      throw new UserValidationError('This account is already suspended');
+    }
+
+    return await this.findSummary(userId);
+  }
+
+  static async reactivate(userId: string): Promise<UserSummary> {
+    const reactivated = await prisma.user.updateMany({
+      where: { id: userId, suspendedAt: { not: null } },
+      data: {
+        suspendedAt: null,
+        suspensionReason: null
+      }
+    });
+
+    if (reactivated.count === 0) {
+      await this.findSummary(userId);
+      throw new UserValidationError('This account is not suspended');
+    }
+
+    return await this.findSummary(userId);
+  }
+
+  /**
+   * Delete an account. Users with bookings keep their account, so the bookings and payments
+   * stay on record; suspend them instead.
+   */
+  static async deleteUser(actorId: string, userId: string): Promise<void> {
+    UserValidator.assertNotSelf(actorId, userId, 'delete');
+
+    await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { id: true, _count: { select: { bookings: true } } }
+      });
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      if (user._count.bookings > 0) {
+        throw new UserValidationError('Users with bookings cannot be deleted; suspend the account instead');
+      }
+
+      await tx.user.delete({
+        where: { id: userId }
+      });
+    });
+  }
+
+  /**
+   * Create a staff or admin account and email them a link to choose their password. The
+   * account is created even if the email cannot be sent; the invite can be sent again.
+   */
+  static async inviteUser(
+    data: Partial<InviteUserData>,
+    now: Date = new Date()
+  ): Promise<{ user: UserSummary; emailSent: boolean }> {
+    const invite = UserValidator.validateInviteData(data);
+
+    const { user, token } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUnique({
+        where: { email: invite.email },
+        select: { id: true }
+      });
+
+      if (existing) {
+        throw new UserValidationError('A user with this email already exists');
+      }
+
+      const user = await tx.user.create({
+        data: {
+          ...invite,
+          passwordHash: '', // Set from the invite link
+          invitedAt: now
+        },
+        select: summaryFields
+      });
+
+      const token = await PasswordResetService.issueToken(user.id, this.inviteExpiresAt(now), now, tx);
+
+      return { user, token };
+    });
+
+    return {
+      user: toSummary(user),
+      emailSent: await this.sendInvite(user, token)
+    };
+  }
+
+  /**
+   * Send a pending invite again with a new link; links sent before it stop working
+   */
+  static async resendInvite(userId: string, now: Date = new Date()): Promise<{ user: UserSummary; emailSent: boolean }> {
+    const { user, token } = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: summaryFields
+      });
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      if (UserValidator.accountStatus(user) !== 'invited') {
+        throw new UserValidationError('Only pending invites can be sent again');
+      }
+
+      await tx.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now }
+      });
+
+      const token = await PasswordResetService.issueToken(userId, this.inviteExpiresAt(now), now, tx);
+
+      return { user, token };
+    });
+
+    return {
+      user: toSummary(user),
+      emailSent: await this.sendInvite(user, token)
+    };
+  }
+
+  /**
+   * A user as the console lists them
+   */
+  static async findSummary(userId: string): Promise<UserSummary> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: summaryFields
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return toSummary(user);
+  }
+
+  private static inviteExpiresAt(now: Date): Date {
+    return new Date(now.getTime() + USER_INVITE_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private static async sendInvite(user: Pick<SummaryRow, 'name' | 'email' | 'role'>, token: string): Promise<boolean> {
+    try {
+      await Mailer.send({
+        to: user.email,
+        ...EmailTemplates.staffInvite({
+          name: user.name,
+          role: user.role,
+          setPasswordUrl: `${appUrl()}/auth/reset-password?token=${token}&invite=1`,
+          expiresInDays: USER_INVITE_DAYS
+        })
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to send staff invite email:', error);
+      return false;
+    }
+  }
+}
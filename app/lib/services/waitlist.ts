@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { AvailabilityService } from './availability';
+import { NotificationService } from './notification';
+import { OutboxService } from './outbox';
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  JoinWaitlistData,
+  WaitlistEntry,
+  WaitlistRules,
+  WaitlistValidationError,
+} from '../models/waitlist';
+
+export interface WaitlistPosition {
+  entry: WaitlistEntry;
+  position: number | null; // Place in line while waiting; null once seats are offered
+}
+
+// The booking a waitlist offer is claimed as
+export interface ClaimingBooking {
+  id: string;
+  userId: string;
+  availabilityId: string;
+  travelersCount: number;
+}
+
+const appUrl = () => process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+export class WaitlistService {
+  /**
+   * Put a customer in line for a departure that has too few seats for their group
+   */
+  static async joinWaitlist(data: JoinWaitlistData, now: Date = new Date()): Promise<WaitlistPosition> {
+    WaitlistRules.validateJoinData(data);
+
+    const availability = await prisma.tourAvailability.findUnique({
+      where: { id: data.availabilityId }
+    });
+
+    if (!availability) {
+      throw new Error('Tour availability not found');
+    }
+
+    WaitlistRules.assertCanJoin(availability, data.travelersCount, now);
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        userId: data.userId,
+        availabilityId: data.availabilityId,
+        status: { in: ACTIVE_WAITLIST_STATUSES }
+      }
+    });
+
+    if (existing) {
+      throw new WaitlistValidationError('You are already on the waitlist for this departure');
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        userId: data.userId,
+        tourId: availability.tourId,
+        availabilityId: data.availabilityId,
+        travelersCount: data.travelersCount,
+        childrenCount: data.childrenCount ?? 0,
+        seniorsCount: data.seniorsCount ?? 0
+      }
+    });
+
+    return { entry, position: await this.position(entry) };
+  }
+
+  /**
+   * A customer's waitlist entries that are still in line or holding an offer
+   */
+  static async listEntries(userId: string, tourId?: string): Promise<WaitlistPosition[]> {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { userId, tourId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return await Promise.all(entries.map(async entry => ({ entry, position: await this.position(entry) })));
+  }
+
+  /**
+   * Take a customer off a waitlist. Turning down an offer gives its seats to the next in line.
+   */
+  static async leaveWaitlist(entryId: string, userId: string): Promise<void> {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: entryId }
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      throw new WaitlistValidationError('You are no longer on this waitlist');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const left = await tx.waitlistEntry.updateMany({
+        where: { id: entryId, status: entry.status },
+        data: { status: 'LEFT', claimTokenHash: null }
+      });
+
+      if (left.count === 0) {
+        throw new Error('Waitlist entry was modified concurrently, please retry');
+      }
+
+      if (entry.status === 'OFFERED') {
+        await AvailabilityService.releaseSlots(entry.availabilityId, entry.travelersCount, tx);
+      }
+    });
+
+    if (entry.status === 'OFFERED') {
+      await this.offerReleasedSeatsQuietly(entry.availabilityId);
+    }
+  }
+
+  /**
+   * Offer a departure's free seats to the customers waiting for it. The seats are held for
+   * each offer, so nobody else can book them while the customer decides, and the customer
+   * is emailed a claim link through the outbox. Returns the number of offers made.
+   */
+  static async offerReleasedSeats(availabilityId: string, now: Date = new Date()): Promise<number> {
+    const messageIds = await prisma.$transaction(async (tx) => {
+      const availability = await tx.tourAvailability.findUnique({
+        where: { id: availabilityId }
+      });
+
+      if (!availability || availability.cancelledAt || availability.startDate <= now) {
+        return [];
+      }
+
+      const waiting = await tx.waitlistEntry.findMany({
+        where: { availabilityId, status: 'WAITING' },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const offerExpiresAt = WaitlistRules.offerExpiresAt(availability.startDate, now);
+      const made: string[] = [];
+      for (const entry of WaitlistRules.nextOffers(waiting, availability.availableSlots)) {
+        await AvailabilityService.reserveSlots(availabilityId, entry.travelersCount, tx);
+
+        const offered = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: 'WAITING' },
+          data: {
+            status: 'OFFERED',
+            offeredAt: now,
+            offerExpiresAt
+          }
+        });
+
+        if (offered.count === 0) {
+          throw new Error('Waitlist entry was modified concurrently, please retry');
+        }
+
+        const message = await OutboxService.enqueue({ kind: 'WAITLIST_OFFER', bookingId: null, payload: { entryId: entry.id } }, tx);
+        made.push(message.id);
+      }
+
+      return made;
+    });
+
+    if (messageIds.length > 0) {
+      try {
+        await OutboxService.deliverDue(new Date(), { ids: messageIds });
+      } catch (error) {
+        // The offers stand and their emails stay queued for the scheduler
+        console.error(`Error sending waitlist offers on departure ${availabilityId}:`, error);
+      }
+    }
+
+    return messageIds.length;
+  }
+
+  /**
+   * Email the customer a new link to claim the seats held for them, for when the first
+   * email never arrived. The link in any earlier email stops working.
+   */
+  static async resendOffer(entryId: string, userId: string): Promise<void> {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: entryId }
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    if (entry.status !== 'OFFERED') {
+      throw new WaitlistValidationError('This waitlist offer is no longer available');
+    }
+
+    const message = await OutboxService.enqueue({ kind: 'WAITLIST_OFFER', bookingId: null, payload: { entryId } }, prisma);
+    await OutboxService.deliverDue(new Date(), { ids: [message.id] });
+  }
+
+  /**
+   * Email an open offer its claim link (called by the outbox). Only a hash of the token is
+   * kept, so each attempt issues a fresh one: a retried email carries a link that works,
+   * and the link in any earlier email stops working.
+   */
+  static async sendOffer(entryId: string, now: Date = new Date()): Promise<void> {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: entryId },
+      include: {
+        user: { select: { name: true, email: true } },
+        tour: { select: { title: true } },
+        availability: { select: { startDate: true } }
+      }
+    });
+
+    // Claimed, turned down or lapsed before the email went out
+    if (!entry || entry.status !== 'OFFERED' || !entry.offerExpiresAt || entry.offerExpiresAt <= now) {
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const issued = await prisma.waitlistEntry.updateMany({
+      where: { id: entryId, status: 'OFFERED' },
+      data: { claimTokenHash: this.hashToken(token) }
+    });
+
+    if (issued.count === 0) {
+      return;
+    }
+
+    await NotificationService.sendWaitlistOfferEmail({
+      customerEmail: entry.user.email,
+      customerName: entry.user.name || 'Valued Customer',
+      tourTitle: entry.tour.title,
+      tourStartDate: entry.availability.startDate,
+      travelersCount: entry.travelersCount,
+      claimUrl: `${appUrl()}/waitlist/claim?token=${token}`,
+      offerExpiresAt: entry.offerExpiresAt
+    });
+  }
+
+  /**
+   * Offer released seats without failing the caller, whose own change has already been made
+   */
+  static async offerReleasedSeatsQuietly(availabilityId: string, now: Date = new Date()): Promise<void> {
+    try {
+      await this.offerReleasedSeats(availabilityId, now);
+    } catch (error) {
+      console.error(`Error offering released seats on departure ${availabilityId}:`, error);
+    }
+  }
+
+  /**
+   * Give back the seats of offers that ran out unclaimed and offer them to the next in line
+   * (called by the scheduler)
+   */
+  static async expireOffers(now: Date = new Date()): Promise<number> {
+    const lapsedOffers = await prisma.waitlistEntry.findMany({
+      where: {
+        status: 'OFFERED',
+        offerExpiresAt: { lt: now }
+      },
+      select: { id: true, availabilityId: true, travelersCount: true }
+    });
+
+    let expired = 0;
+    const released = new Set<string>();
+    for (const entry of lapsedOffers) {
+      try {
+        const lapsed = await prisma.$transaction(async (tx) => {
+          const updated = await tx.waitlistEntry.updateMany({
+            where: { id: entry.id, status: 'OFFERED', offerExpiresAt: { lt: now } },
+            data: { status: 'EXPIRED', claimTokenHash: null }
+          });
+
+          // Claimed or turned down since we looked
+          if (updated.count === 0) return false;
+
+          await AvailabilityService.releaseSlots(entry.availabilityId, entry.travelersCount, tx);
+          return true;
+        });
+
+        if (lapsed) {
+          expired++;
+          released.add(entry.availabilityId);
+        }
+      } catch (error) {
+        console.error(`Error expiring waitlist offer ${entry.id}:`, error);
+      }
+    }
+
+    for (const availabilityId of released) {
+      await this.offerReleasedSeatsQuietly(availabilityId, now);
+    }
+
+    return expired;
+  }
+
+  /**
+   * The open offer a claim link is for
+   */
+  static async findOffer(token: string, now: Date = new Date()) {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { claimTokenHash: this.hashToken(token) },
+      include: {
+        tour: { select: { id: true, title: true, currency: true } },
+        availability: true
+      }
+    });
+
+    // Claimed, expired and turned-down offers lose their token
+    if (!entry) {
+      throw new Error('Waitlist offer not found');
+    }
+
+    if (entry.status !== 'OFFERED' || !entry.offerExpiresAt || entry.offerExpiresAt <= now) {
+      throw new WaitlistValidationError('This offer has expired');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Hand an offer's held seats to the booking it is claimed as, in the booking's transaction.
+   * The booking must be for the offered customer, departure and group.
+   */
+  static async claimSeats(
+    entryId: string,
+    booking: ClaimingBooking,
+    client: Prisma.TransactionClient,
+    now: Date = new Date()
+  ): Promise<void> {
+    const claimed = await client.waitlistEntry.updateMany({
+      where: {
+        id: entryId,
+        userId: booking.userId,
+        availabilityId: booking.availabilityId,
+        travelersCount: booking.travelersCount,
+        status: 'OFFERED',
+        offerExpiresAt: { gt: now }
+      },
+      data: { status: 'CLAIMED', bookingId: booking.id, claimTokenHash: null }
+    });
+
+    if (claimed.count === 0) {
+      throw new WaitlistValidationError('This waitlist offer is no longer available');
+    }
+  }
+
+  private static async position(entry: WaitlistEntry): Promise<number | null> {
+    if (entry.status !== 'WAITING') return null;
+
+    const ahead = await prisma.waitlistEntry.count({
+      where: {
+        availabilityId: entry.availabilityId,
+        status: 'WAITING',
+        createdAt: { lt: entry.createdAt }
+      }
+    });
+
+    return ahead + 1;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
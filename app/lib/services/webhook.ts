@@ -0,0 +1,114 @@
+import { PaymentProvider, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { PaymentService } from './payment';
+import { ProviderWebhookEvent } from './payment-providers';
+
+export type WebhookOutcome = 'processed' | 'ignored' | 'duplicate' | 'in_progress';
+
+// An event still marked RECEIVED after this long was dropped mid-way and may be claimed again
+export const WEBHOOK_STALE_MINUTES = 5;
+
+export class WebhookService {
+  /**
+   * Record a verified webhook and apply it once. Redeliveries of an event that was already
+   * handled are acknowledged without being applied again; events that failed are retried.
+   */
+  static async receive(
+    provider: PaymentProvider,
+    event: ProviderWebhookEvent,
+    payload: Record<string, unknown>,
+    now: Date = new Date()
+  ): Promise<WebhookOutcome> {
+    const claim = await this.claim(provider, event, payload, now);
+    if (claim !== 'claimed') {
+      return claim;
+    }
+
+    const where = { provider_eventId: { provider, eventId: event.eventId } };
+
+    try {
+      if (!event.update) {
+        await prisma.webhookEvent.update({
+          where,
+          data: { status: 'IGNORED', processedAt: new Date() }
+        });
+        return 'ignored';
+      }
+
+      if (event.update.kind === 'refund') {
+        await PaymentService.processRefundWebhook(event.update.data);
+      } else {
+        await PaymentService.processWebhook(event.update.data);
+      }
+
+      await prisma.webhookEvent.update({
+        where,
+        data: { status: 'PROCESSED', processedAt: new Date(), error: null }
+      });
+      return 'processed';
+    } catch (error) {
+      await prisma.webhookEvent.update({
+        where,
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the event, or take over an earlier delivery of it that failed or stalled
+   */
+  private static async claim(
+    provider: PaymentProvider,
+    event: ProviderWebhookEvent,
+    payload: Record<string, unknown>,
+    now: Date
+  ): Promise<'claimed' | 'duplicate' | 'in_progress'> {
+    try {
+      await prisma.webhookEvent.create({
+        data: {
+          provider,
+          eventId: event.eventId,
+          eventType: event.eventType,
+          payload: payload as Prisma.InputJsonObject
+        }
+      });
+      return 'claimed';
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const staleBefore = new Date(now.getTime() - WEBHOOK_STALE_MINUTES * 60 * 1000);
+    const retried = await prisma.webhookEvent.updateMany({
+      where: {
+        provider,
+        eventId: event.eventId,
+        OR: [
+          { status: 'FAILED' },
+          { status: 'RECEIVED', updatedAt: { lt: staleBefore } }
+        ]
+      },
+      data: {
+        status: 'RECEIVED',
+        attempts: { increment: 1 },
+        error: null
+      }
+    });
+
+    if (retried.count > 0) {
+      return 'claimed';
+    }
+
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { provider_eventId: { provider, eventId: event.eventId } },
+      select: { status: true }
+    });
+
+    return existing?.status === 'RECEIVED' ? 'in_progress' : 'duplicate';
+  }
+}
@@ -1,3 +1,5 @@
+import { Money } from '../models/money';
+
 export interface EmailTemplate {
   subject: string;
   html: string;
@@ -5,6 +7,13 @@ export interface EmailTemplate {
 }
 
 export class EmailTemplates {
+  /**
+   * Format an amount in minor units for display, e.g. 123456 USD as "$1,234.56"
+   */
+  static formatAmount(amount: number, currency: string): string {
+    return Money.of(amount, currency).format();
+  }
+
   /**
    * Booking confirmation email template
    */
@@ -44,22 +53,22 @@ export class EmailTemplates {
             <h1>Booking Confirmed!</h1>
           </div>
           <div class="content">
-            <p>Dear ${data.customerName},</p>
+            <p>Dear ${this.escape(data.customerName)},</p>
             <p>Thank you for booking with us! Your tour reservation has been confirmed.</p>
             
             <div class="booking-details">
               <h3>Booking Details</h3>
               <p><strong>Booking ID:</strong> ${data.bookingId}</p>
-              <p><strong>Tour:</strong> ${data.tourTitle}</p>
+              <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
               <p><strong>Number of Travelers:</strong> ${data.travelersCount}</p>
-              <p><strong>Total Amount:</strong> ${data.currency} ${data.totalPrice}</p>
+              <p><strong>Total Amount:</strong> ${this.formatAmount(data.totalPrice, data.currency)}</p>
               <p><strong>Tour Start Date:</strong> ${data.tourStartDate}</p>
             </div>
 
             <div class="booking-details">
               <h3>Payment Receipt</h3>
               <p><strong>Payment ID:</strong> ${data.paymentId}</p>
-              <p><strong>Amount:</strong> ${data.currency} ${data.paymentAmount}</p>
+              <p><strong>Amount:</strong> ${this.formatAmount(data.paymentAmount, data.currency)}</p>
               <p><strong>Method:</strong> ${data.paymentMethod}</p>
               <p><strong>Provider:</strong> ${data.paymentProvider}</p>
             </div>
@@ -83,12 +92,12 @@ export class EmailTemplates {
       - Booking ID: ${data.bookingId}
       - Tour: ${data.tourTitle}
       - Number of Travelers: ${data.travelersCount}
-      - Total Amount: ${data.currency} ${data.totalPrice}
+      - Total Amount: ${this.formatAmount(data.totalPrice, data.currency)}
       - Tour Start Date: ${data.tourStartDate}
 
       Payment Receipt:
       - Payment ID: ${data.paymentId}
-      - Amount: ${data.currency} ${data.paymentAmount}
+      - Amount: ${this.formatAmount(data.paymentAmount, data.currency)}
       - Method: ${data.paymentMethod}
       - Provider: ${data.paymentProvider}
 
@@ -98,7 +107,7 @@ export class EmailTemplates {
       Travel & Tour Team
     `;
 
-    return { subject, html, text };
+    return { subject, html, text: this.plainText(text) };
   }
 
   /**
@@ -135,7 +144,7 @@ export class EmailTemplates {
             <h1>Tour Reminder</h1>
           </div>
           <div class="content">
-            <p>Dear ${data.customerName},</p>
+            <p>Dear ${this.escape(data.customerName)},</p>
             <p>This is a friendly reminder that your tour is coming up soon!</p>
             
             <div class="countdown">
@@ -145,7 +154,7 @@ export class EmailTemplates {
             <div class="tour-details">
               <h3>Tour Details</h3>
               <p><strong>Booking ID:</strong> ${data.bookingId}</p>
-              <p><strong>Tour:</strong> ${data.tourTitle}</p>
+              <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
               <p><strong>Start Date:</strong> ${data.tourStartDate}</p>
             </div>
 
@@ -179,7 +188,7 @@ export class EmailTemplates {
       Travel & Tour Team
     `;
 
-    return { subject, html, text };
+    return { subject, html, text: this.plainText(text) };
   }
 
   /**
@@ -227,7 +236,7 @@ export class EmailTemplates {
             <h1>Payment Status Update</h1>
           </div>
           <div class="content">
-            <p>Dear ${data.customerName},</p>
+            <p>Dear ${this.escape(data.customerName)},</p>
             
             <div class="status">
               ${statusMessage}
@@ -237,8 +246,8 @@ export class EmailTemplates {
               <h3>Payment Details</h3>
               <p><strong>Payment ID:</strong> ${data.paymentId}</p>
               <p><strong>Booking ID:</strong> ${data.bookingId}</p>
-              <p><strong>Tour:</strong> ${data.tourTitle}</p>
-              <p><strong>Amount:</strong> ${data.currency} ${data.amount}</p>
+              <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
+              <p><strong>Amount:</strong> ${this.formatAmount(data.amount, data.currency)}</p>
               <p><strong>Status:</strong> ${data.status}</p>
               <p><strong>Provider:</strong> ${data.provider}</p>
             </div>
@@ -264,7 +273,7 @@ export class EmailTemplates {
       - Payment ID: ${data.paymentId}
       - Booking ID: ${data.bookingId}
       - Tour: ${data.tourTitle}
-      - Amount: ${data.currency} ${data.amount}
+      - Amount: ${this.formatAmount(data.amount, data.currency)}
       - Status: ${data.status}
       - Provider: ${data.provider}
 
@@ -274,6 +283,391 @@ export class EmailTemplates {
       Travel & Tour Team
     `;
 
-    return { subject, html, text };
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Refund confirmation email template
+   */
+  static refund(data: {
+    customerName: string;
+    refundId: string;
+    paymentId: string;
+    bookingId: string;
+    tourTitle: string;
+    amount: number;
+    currency: string;
+    reason: string;
+  }): EmailTemplate {
+    const subject = `Refund Processed - ${data.tourTitle}`;
+    const amount = this.formatAmount(data.amount, data.currency);
+
+    const html = this.layout('Refund Processed', '#17a2b8', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>We have refunded <strong>${amount}</strong> to your original payment method.
+        Depending on your bank or provider, it can take a few days to appear on your statement.</p>
+
+      <div class="details">
+        <h3>Refund Details</h3>
+        <p><strong>Refund ID:</strong> ${data.refundId}</p>
+        <p><strong>Payment ID:</strong> ${data.paymentId}</p>
+        <p><strong>Booking ID:</strong> ${data.bookingId}</p>
+        <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
+        <p><strong>Reason:</strong> ${this.escape(data.reason)}</p>
+      </div>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      We have refunded ${amount} to your original payment method.
+      Depending on your bank or provider, it can take a few days to appear on your statement.
+
+      Refund Details:
+      - Refund ID: ${data.refundId}
+      - Payment ID: ${data.paymentId}
+      - Booking ID: ${data.bookingId}
+      - Tour: ${data.tourTitle}
+      - Reason: ${data.reason}
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Booking cancellation email template
+   */
+  static bookingCancellation(data: {
+    customerName: string;
+    bookingId: string;
+    tourTitle: string;
+    tourStartDate: string;
+    reason: string;
+  }): EmailTemplate {
+    const subject = `Booking Cancelled - ${data.tourTitle}`;
+
+    const html = this.layout('Booking Cancelled', '#dc3545', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>We are sorry to let you know that your booking has been cancelled.</p>
+
+      <div class="details">
+        <h3>Booking Details</h3>
+        <p><strong>Booking ID:</strong> ${data.bookingId}</p>
+        <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
+        <p><strong>Start Date:</strong> ${data.tourStartDate}</p>
+        <p><strong>Reason:</strong> ${this.escape(data.reason)}</p>
+      </div>
+
+      <p>If you have already paid for this booking, our team will contact you about your refund.</p>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      We are sorry to let you know that your booking has been cancelled.
+
+      Booking Details:
+      - Booking ID: ${data.bookingId}
+      - Tour: ${data.tourTitle}
+      - Start Date: ${data.tourStartDate}
+      - Reason: ${data.reason}
+
+      If you have already paid for this booking, our team will contact you about your refund.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Waitlist offer email template
+   */
+  static waitlistOffer(data: {
+    customerName: string;
+    tourTitle: string;
+    tourStartDate: string;
+    travelersCount: number;
+    claimUrl: string;
+    offerExpiresAt: string;
+  }): EmailTemplate {
+    const subject = `Seats available - ${data.tourTitle}`;
+
+    const html = this.layout('Seats Available', '#28a745', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>Good news: seats have opened up on a departure you were waiting for, and we are holding
+        ${data.travelersCount} of them for you until ${data.offerExpiresAt}.</p>
+
+      <div class="details">
+        <h3>Tour Details</h3>
+        <p><strong>Tour:</strong> ${this.escape(data.tourTitle)}</p>
+        <p><strong>Start Date:</strong> ${data.tourStartDate}</p>
+        <p><strong>Travelers:</strong> ${data.travelersCount}</p>
+      </div>
+
+      <p class="action"><a class="button" href="${this.escape(data.claimUrl)}">Claim Your Seats</a></p>
+      <p>If you no longer need them, you can turn the offer down from the same link so the next
+        customer in line gets them.</p>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      Good news: seats have opened up on a departure you were waiting for, and we are holding
+      ${data.travelersCount} of them for you until ${data.offerExpiresAt}.
+
+      Tour Details:
+      - Tour: ${data.tourTitle}
+      - Start Date: ${data.tourStartDate}
+      - Travelers: ${data.travelersCount}
+
+      Claim your seats here: ${data.claimUrl}
+
+      If you no longer need them, you can turn the offer down from the same link so the next
+      customer in line gets them.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Password reset email template
+   */
+  static passwordReset(data: {
+    customerName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  }): EmailTemplate {
+    const subject = 'Reset your password';
+
+    const html = this.layout('Reset Your Password', '#007bff', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>We received a request to reset the password for your account. The link below works once
+        and expires in ${data.expiresInMinutes} minutes.</p>
+
+      <p class="action"><a class="button" href="${this.escape(data.resetUrl)}">Reset Password</a></p>
+      <p>If you did not ask to reset your password, you can ignore this email; your password stays the same.</p>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      We received a request to reset the password for your account. The link below works once
+      and expires in ${data.expiresInMinutes} minutes.
+
+      Reset your password: ${data.resetUrl}
+
+      If you did not ask to reset your password, you can ignore this email; your password stays the same.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
   }
-}
\ No newline at end of file
+
+  /**
+   * Staff invite email template
+   */
+  static staffInvite(data: {
+    name: string;
+    role: string;
+    setPasswordUrl: string;
+    expiresInDays: number;
+  }): EmailTemplate {
+    const subject = 'You have been invited to the Travel & Tour admin';
+    const role = data.role.toLowerCase();
+
+    const html = this.layout('You Are Invited', '#007bff', `
+      <p>Dear ${this.escape(data.name)},</p>
+      <p>An administrator has set up a ${this.escape(role)} account for you. Choose a password to
+        start using it; the link below works once and expires in ${data.expiresInDays} days.</p>
+
+      <p class="action"><a class="button" href="${this.escape(data.setPasswordUrl)}">Set Your Password</a></p>
+      <p>If you were not expecting this invitation, you can ignore this email.</p>
+    `);
+
+    const text = `
+      Dear ${data.name},
+
+      An administrator has set up a ${role} account for you. Choose a password to
+      start using it; the link below works once and expires in ${data.expiresInDays} days.
+
+      Set your password: ${data.setPasswordUrl}
+
+      If you were not expecting this invitation, you can ignore this email.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Email change verification template, sent to the new address
+   */
+  static emailChangeVerification(data: {
+    customerName: string;
+    newEmail: string;
+    verifyUrl: string;
+    expiresInHours: number;
+  }): EmailTemplate {
+    const subject = 'Confirm your new email address';
+
+    const html = this.layout('Confirm Your New Email', '#007bff', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>You asked to change the email address of your account to ${this.escape(data.newEmail)}. The link
+        below confirms the change; it works once and expires in ${data.expiresInHours} hours.</p>
+
+      <p class="action"><a class="button" href="${this.escape(data.verifyUrl)}">Confirm Email Address</a></p>
+      <p>If you did not ask for this change, you can ignore this email; your account keeps its current address.</p>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      You asked to change the email address of your account to ${data.newEmail}. The link
+      below confirms the change; it works once and expires in ${data.expiresInHours} hours.
+
+      Confirm your email address: ${data.verifyUrl}
+
+      If you did not ask for this change, you can ignore this email; your account keeps its current address.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Email changed template, sent to the old address once the change is made
+   */
+  static emailChanged(data: {
+    customerName: string;
+    newEmail: string;
+  }): EmailTemplate {
+    const subject = 'Your email address has been changed';
+
+    const html = this.layout('Email Address Changed', '#343a40', `
+      <p>Dear ${this.escape(data.customerName)},</p>
+      <p>The email address of your account has been changed to ${this.escape(data.newEmail)}. Sign in
+        with the new address from now on.</p>
+      <p>If you did not make this change, please contact us straight away.</p>
+    `);
+
+    const text = `
+      Dear ${data.customerName},
+
+      The email address of your account has been changed to ${data.newEmail}. Sign in
+      with the new address from now on.
+
+      If you did not make this change, please contact us straight away.
+
+      Best regards,
+      Travel & Tour Team
+    `;
+
+    return { subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Alert email template for admins; the text is written by AdminNotificationService
+   */
+  static adminAlert(data: {
+    subject: string;
+    heading: string;
+    summary: string;
+    details: [label: string, value: string][];
+    action: string;
+  }): EmailTemplate {
+    const html = this.layout(this.escape(data.heading), '#343a40', `
+      <p>${this.escape(data.summary)}</p>
+
+      <div class="details">
+        <h3>Details</h3>
+        ${data.details.map(([label, value]) => `<p><strong>${label}:</strong> ${this.escape(value)}</p>`).join('\n        ')}
+      </div>
+
+      <p>${this.escape(data.action)}</p>
+    `);
+
+    const text = `
+      ${data.heading}
+
+      ${data.summary}
+
+      Details:
+      ${data.details.map(([label, value]) => `- ${label}: ${value}`).join('\n      ')}
+
+      ${data.action}
+    `;
+
+    return { subject: data.subject, html, text: this.plainText(text) };
+  }
+
+  /**
+   * Escape text for use in email HTML
+   */
+  static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Strip the source indentation from a plain-text body
+   */
+  private static plainText(text: string): string {
+    return text.replace(/^[ \t]+/gm, '').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+  }
+
+  /**
+   * The frame every email shares: a coloured header, the content and the sign-off
+   */
+  private static layout(title: string, headerColor: string, content: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${title}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: ${headerColor}; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .details { background-color: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .action { text-align: center; margin: 25px 0; }
+          .button { background-color: ${headerColor}; color: white; padding: 12px 24px; border-radius: 5px; text-decoration: none; }
+          .footer { text-align: center; padding: 20px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${title}</h1>
+          </div>
+          <div class="content">
+            ${content}
+          </div>
+          <div class="footer">
+            <p>Best regards,<br>Travel & Tour Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+}
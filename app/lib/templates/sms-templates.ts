@@ -0,0 +1,86 @@
+import { fitSms } from '../services/sms-gateways';
+import { EmailTemplates } from './email-templates';
+
+export interface SmsTemplate {
+  subject: string; // Shown for the message in the notification center
+  body: string;
+}
+
+// Parts each kind of message may take; every part is billed
+const SEGMENT_BUDGETS = {
+  bookingConfirmation: 2,
+  paymentStatus: 1,
+  tourReminder: 1
+} as const;
+
+const SENDER = 'Travel & Tour';
+
+export class SmsTemplates {
+  /**
+   * Booking confirmation text message template
+   */
+  static bookingConfirmation(data: {
+    bookingId: string;
+    tourTitle: string;
+    travelersCount: number;
+    totalPrice: number;
+    currency: string;
+    tourStartDate: string;
+  }): SmsTemplate {
+    const travelers = `${data.travelersCount} traveler${data.travelersCount === 1 ? '' : 's'}`;
+    const total = EmailTemplates.formatAmount(data.totalPrice, data.currency);
+
+    return {
+      subject: `Booking confirmed - ${data.tourTitle}`,
+      body: fitSms(
+        title => `${SENDER}: booking ${data.bookingId} confirmed. ${title}, ${data.tourStartDate}, ${travelers}, ${total} paid.`,
+        data.tourTitle,
+        SEGMENT_BUDGETS.bookingConfirmation
+      )
+    };
+  }
+
+  /**
+   * Payment status text message template
+   */
+  static paymentStatus(data: {
+    tourTitle: string;
+    amount: number;
+    currency: string;
+    status: string;
+  }): SmsTemplate {
+    const amount = EmailTemplates.formatAmount(data.amount, data.currency);
+    const outcome = data.status === 'SUCCESS'
+      ? 'was received'
+      : data.status === 'FAILED'
+      ? 'failed. Please try again or contact support'
+      : 'is being processed';
+
+    return {
+      subject: `Payment ${data.status} - ${data.tourTitle}`,
+      body: fitSms(
+        title => `${SENDER}: your ${amount} payment for ${title} ${outcome}.`,
+        data.tourTitle,
+        SEGMENT_BUDGETS.paymentStatus
+      )
+    };
+  }
+
+  /**
+   * Day-before tour reminder text message template
+   */
+  static tourReminder(data: {
+    bookingId: string;
+    tourTitle: string;
+    tourStartDate: string;
+  }): SmsTemplate {
+    return {
+      subject: `Tour tomorrow - ${data.tourTitle}`,
+      body: fitSms(
+        title => `${SENDER}: ${title} starts tomorrow, ${data.tourStartDate}. Booking ${data.bookingId}. Have a great trip!`,
+        data.tourTitle,
+        SEGMENT_BUDGETS.tourReminder
+      )
+    };
+  }
+}
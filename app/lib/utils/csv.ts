@@ -0,0 +1,28 @@
+/**
+ * Characters that make spreadsheet applications treat a cell as a formula. A value that
+ * already starts with quotes before one is quoted again, so dropping the added quote
+ * always gives back the value as written.
+ */
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/
+
+/**
+ * Quote a CSV cell, neutralising values that a spreadsheet would run as a formula
+ */
+export function csvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+
+  if (/[",\r\n]/.test(safe) || safe !== value) {
+    return `"${safe.replace(/"/g, '""')}"`
+  }
+
+  return safe
+}
+
+/**
+ * Build a CSV document from a header row and data rows (RFC 4180, CRLF line endings)
+ */
+export function toCsv(headers: string[], rows: string[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n'
+}
@@ -1,21 +1,144 @@
 import crypto from 'crypto'
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-key-for-development-only-change-in-production'
 const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const KEY_LENGTH = 32
+
+// Envelopes start with the format version, so the format can change without guessing
+const ENVELOPE_VERSION = 'v1'
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+// Only outside production, so development data stays readable without any setup
+const DEVELOPMENT_SECRET = 'default-key-for-development-only-change-in-production'
+
+// Id given to the key in ENCRYPTION_KEY, the single-key setting used before key ids
+const SINGLE_KEY_ID = 'default'
+
+interface EncryptionKey {
+  id: string
+  key: Buffer
+  legacyKey: Buffer // How the same secret was turned into a key before envelopes
+}
+
+export class EncryptionConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EncryptionConfigError'
+  }
+}
+
+let configured: string | null = null
+let keyRing: EncryptionKey[] | null = null
+
+function deriveKey(id: string, secret: string): EncryptionKey {
+  return {
+    id,
+    key: Buffer.from(crypto.hkdfSync('sha256', secret, '', `travel-tour-booking:encryption:${id}`, KEY_LENGTH)),
+    legacyKey: crypto.createHash('sha256').update(secret).digest()
+  }
+}
+
+/**
+ * Keys from ENCRYPTION_KEYS ("id:secret,id:secret", newest first) followed by the key in
+ * ENCRYPTION_KEY. The first key encrypts; all of them decrypt, so ciphertext under an older
+ * key stays readable until it is re-encrypted.
+ */
+function parseKeys(keys: string | undefined, singleKey: string | undefined): EncryptionKey[] {
+  const entries = (keys || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':')
+      const id = separator > 0 ? entry.slice(0, separator) : ''
+      const secret = separator > 0 ? entry.slice(separator + 1) : ''
+
+      if (!KEY_ID_PATTERN.test(id) || secret.length === 0) {
+        throw new EncryptionConfigError('ENCRYPTION_KEYS must be a comma-separated list of id:secret pairs')
+      }
+
+      return { id, secret }
+    })
+
+  if (singleKey) {
+    entries.push({ id: SINGLE_KEY_ID, secret: singleKey })
+  }
+
+  const ids = entries.map(entry => entry.id)
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index)
+  if (duplicate) {
+    throw new EncryptionConfigError(`Encryption key id ${duplicate} is configured more than once`)
+  }
+
+  return entries.map(entry => deriveKey(entry.id, entry.secret))
+}
+
+function keys(): EncryptionKey[] {
+  if (!keyRing) {
+    const ring = configured !== null
+      ? parseKeys(configured, undefined)
+      : parseKeys(process.env.ENCRYPTION_KEYS, process.env.ENCRYPTION_KEY)
+
+    if (ring.length === 0) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new EncryptionConfigError('No encryption key is configured; set ENCRYPTION_KEYS or ENCRYPTION_KEY')
+      }
+
+      ring.push(deriveKey(SINGLE_KEY_ID, DEVELOPMENT_SECRET))
+    }
+
+    keyRing = ring
+  }
+
+  return keyRing
+}
 
 /**
- * Encrypt sensitive data
+ * Use the given keys ("id:secret,...", newest first) instead of the environment; null goes
+ * back to the environment
+ */
+export function configureEncryptionKeys(encryptionKeys: string | null): void {
+  configured = encryptionKeys
+  keyRing = null
+}
+
+/**
+ * Fail fast when the keys are missing or malformed (called once at server startup)
+ */
+export function assertEncryptionConfigured(): void {
+  keys()
+}
+
+/**
+ * Id of the key new data is encrypted with
+ */
+export function currentKeyId(): string {
+  return keys()[0].id
+}
+
+/**
+ * How every envelope written with the current key starts, for finding data to re-encrypt
+ */
+export function currentEnvelopePrefix(): string {
+  return `${ENVELOPE_VERSION}:${currentKeyId()}:`
+}
+
+/**
+ * Encrypt sensitive data into an envelope of version, key id, IV, ciphertext and auth tag
  */
 export function encrypt(text: string): string {
+  const { id, key } = keys()[0]
+
   try {
-    const iv = crypto.randomBytes(16)
-    const cipher = crypto.createCipher(ALGORITHM, ENCRYPTION_KEY)
-    
-    let encrypted = cipher.update(text, 'utf8', 'hex')
-    encrypted += cipher.final('hex')
-    
-    // Combine IV and encrypted data
-    return iv.toString('hex') + ':' + encrypted
+    const iv = crypto.randomBytes(IV_LENGTH)
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+    // The header is authenticated too, so an envelope cannot be relabelled with another key id
+    cipher.setAAD(Buffer.from(`${ENVELOPE_VERSION}:${id}`))
+
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+
+    return [ENVELOPE_VERSION, id, iv.toString('hex'), encrypted.toString('hex'), cipher.getAuthTag().toString('hex')].join(':')
   } catch (error) {
     console.error('Encryption error:', error)
     throw new Error('Failed to encrypt data')
@@ -23,30 +146,73 @@ export function encrypt(text: string): string {
 }
 
 /**
- * Decrypt sensitive data
+ * Decrypt sensitive data written by encrypt, including data written before envelopes
+ * (iv:ciphertext+tag) under any configured key
  */
 export function decrypt(encryptedText: string): string {
+  const ring = keys()
+
   try {
     const parts = encryptedText.split(':')
-    if (parts.length !== 2) {
-      throw new Error('Invalid encrypted data format')
+
+    if (parts.length === 5 && parts[0] === ENVELOPE_VERSION) {
+      const [version, id, iv, encrypted, authTag] = parts
+      const key = ring.find(candidate => candidate.id === id)
+      if (!key) {
+        throw new Error(`Encryption key ${id} is not configured`)
+      }
+
+      return decryptWith(key.key, iv, encrypted, authTag, `${version}:${id}`)
+    }
+
+    if (parts.length === 2) {
+      const [iv, sealed] = parts
+      const encrypted = sealed.slice(0, -AUTH_TAG_LENGTH * 2)
+      const authTag = sealed.slice(-AUTH_TAG_LENGTH * 2)
+
+      // Legacy data does not say which key wrote it; only the right key passes the auth tag
+      for (const { legacyKey } of ring) {
+        try {
+          return decryptWith(legacyKey, iv, encrypted, authTag)
+        } catch {
+          continue
+        }
+      }
+
+      throw new Error('No configured key decrypts this data')
     }
-    
-    const iv = Buffer.from(parts[0], 'hex')
-    const encrypted = parts[1]
-    
-    const decipher = crypto.createDecipher(ALGORITHM, ENCRYPTION_KEY)
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8')
-    decrypted += decipher.final('utf8')
-    
-    return decrypted
+
+    throw new Error('Invalid encrypted data format')
   } catch (error) {
     console.error('Decryption error:', error)
     throw new Error('Failed to decrypt data')
   }
 }
 
+function decryptWith(key: Buffer, iv: string, encrypted: string, authTag: string, header?: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'hex'))
+  decipher.setAuthTag(Buffer.from(authTag, 'hex'))
+  if (header) {
+    decipher.setAAD(Buffer.from(header))
+  }
+
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Whether encrypted data should be re-encrypted: it predates envelopes or uses an older key
+ */
+export function needsReencryption(encryptedText: string): boolean {
+  return !encryptedText.startsWith(currentEnvelopePrefix())
+}
+
+/**
+ * The same data encrypted with the current key
+ */
+export function reencrypt(encryptedText: string): string {
+  return needsReencryption(encryptedText) ? encrypt(decrypt(encryptedText)) : encryptedText
+}
+
 /**
  * Hash sensitive data (one-way)
  */
@@ -68,14 +234,22 @@ export function maskSensitiveData(data: string, visibleChars: number = 4): strin
   if (data.length <= visibleChars) {
     return '*'.repeat(data.length)
   }
-  
+
   const masked = '*'.repeat(data.length - visibleChars)
   return data.substring(0, visibleChars) + masked
 }
 
 /**
- * Check if data appears to be encrypted
+ * Check if data has the shape of an envelope, or of data encrypted before envelopes
  */
 export function isEncrypted(data: string): boolean {
-  return data.includes(':') && data.split(':').length === 2
-}
\ No newline at end of file
+  const hex = (value: string, length?: number) =>
+    /^([0-9a-f]{2})*$/.test(value) && (length === undefined || value.length === length * 2)
+  const parts = data.split(':')
+
+  if (parts.length === 5 && parts[0] === ENVELOPE_VERSION) {
+    return KEY_ID_PATTERN.test(parts[1]) && hex(parts[2], IV_LENGTH) && hex(parts[3]) && hex(parts[4], AUTH_TAG_LENGTH)
+  }
+
+  return parts.length === 2 && hex(parts[0], IV_LENGTH) && hex(parts[1]) && parts[1].length >= AUTH_TAG_LENGTH * 2
+}
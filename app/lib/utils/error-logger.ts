@@ -213,9 +213,23 @@ export function extractRequestContext(request: Request): LogContext {
     endpoint: new URL(request.url).pathname,
     method: request.method,
     userAgent: request.headers.get('user-agent') || undefined,
-    ip: request.headers.get('x-forwarded-for') || 
-        request.headers.get('x-real-ip') || 
+    // The first address in X-Forwarded-For is the client; the proxies append theirs after it
+    ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+        request.headers.get('x-real-ip') ||
         'unknown',
     timestamp: new Date()
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The client address as the proxy in front of the app saw it: the last X-Forwarded-For hop,
+ * which that proxy appends itself, or the X-Real-IP it sets. Earlier hops are whatever the
+ * client sent, so rate limits must not be keyed on them.
+ */
+export function trustedClientIp(request: Request): string {
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean)
+
+  return hops?.[hops.length - 1] ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal PDF writer for plain text documents such as manifests.
+ * Pages are landscape A4 in a monospaced font, so columns can be laid out with spaces.
+ */
+
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const MARGIN = 36
+const FONT_SIZE = 8
+const LINE_HEIGHT = 10
+
+/**
+ * Characters per line that fit on a page
+ */
+export const PDF_LINE_WIDTH = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6))
+
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT)
+
+/**
+ * Escape text for a PDF string literal. The built-in fonts only cover ASCII reliably,
+ * so anything else is replaced.
+ */
+function pdfText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`)
+}
+
+/**
+ * Render lines of text as a PDF document, starting a new page whenever one fills up
+ */
+export function toPdf(lines: string[]): Buffer {
+  const pages: string[][] = []
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE))
+  }
+
+  // Objects 1-3 are the catalog, page tree and font; each page then has a page and a content object
+  const pageIds = pages.map((_, index) => 4 + index * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'
+  ]
+
+  pages.forEach((pageLines, index) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(line => `(${pdfText(line.slice(0, PDF_LINE_WIDTH))}) '`),
+      'ET'
+    ].join('\n')
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Everything written is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'ascii')
+}
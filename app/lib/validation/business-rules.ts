@@ -2,6 +2,8 @@ import { UserRole } from '@prisma/client';
 import { User } from '../models/user';
 import { Tour, ItineraryDay } from '../models/tour';
 import { TourAvailability } from '../models/tour-availability';
+import { ExchangeRateValidator } from '../models/exchange-rate';
+import { Money, MONEY_LIMITS } from '../models/money';
 
 export class BusinessRuleError extends Error {
   constructor(message: string) {
@@ -36,17 +38,26 @@ export class BusinessRuleValidator {
   }
 
   /**
-   * Validates pricing business rules
+   * Validates pricing business rules. Prices are in minor units (cents) of the tour currency.
    */
-  static validatePricing(pricePerPerson: number, maxGroupSize: number): void {
+  static validatePricing(pricePerPerson: number, maxGroupSize: number, currency: string = 'USD'): void {
+    if (!Number.isSafeInteger(pricePerPerson)) {
+      throw new BusinessRuleError('Price per person must be a whole number of minor units');
+    }
+
+    const limits = MONEY_LIMITS[currency];
+    if (!limits) {
+      throw new BusinessRuleError(`Unsupported currency: ${currency}`);
+    }
+
     // Minimum price validation
-    if (pricePerPerson < 1) {
-      throw new BusinessRuleError('Price per person must be at least $1');
+    if (pricePerPerson < 100) {
+      throw new BusinessRuleError('Price per person must be at least 1.00');
     }
 
     // Maximum price validation
-    if (pricePerPerson > 100000) {
-      throw new BusinessRuleError('Price per person cannot exceed $100,000');
+    if (pricePerPerson > limits.pricePerPerson) {
+      throw new BusinessRuleError(`Price per person cannot exceed ${Money.of(limits.pricePerPerson, currency).format()}`);
     }
 
     // Group size validation
@@ -58,10 +69,10 @@ export class BusinessRuleValidator {
       throw new BusinessRuleError('Maximum group size cannot exceed 100');
     }
 
-    // Price should be reasonable for group size
+    // A full group's booking must still be payable
     const totalMaxRevenue = pricePerPerson * maxGroupSize;
-    if (totalMaxRevenue > 1000000) {
-      throw new BusinessRuleError('Total maximum revenue per tour cannot exceed $1,000,000');
+    if (totalMaxRevenue > limits.payment) {
+      throw new BusinessRuleError(`Total maximum revenue per tour cannot exceed ${Money.of(limits.payment, currency).format()}`);
     }
   }
 
@@ -109,11 +120,12 @@ export class BusinessRuleValidator {
   static validateTourCreation(tourData: {
     durationDays: number;
     pricePerPerson: number;
+    currency?: string;
     maxGroupSize: number;
     itinerary: ItineraryDay[];
   }): void {
     // Validate pricing
-    this.validatePricing(tourData.pricePerPerson, tourData.maxGroupSize);
+    this.validatePricing(tourData.pricePerPerson, tourData.maxGroupSize, tourData.currency);
 
     // Validate duration constraints
     if (tourData.durationDays < 1) {
@@ -170,11 +182,11 @@ export class BusinessRuleValidator {
       );
     }
 
-    // Validate price calculation
-    const expectedPrice = tour.pricePerPerson * travelersCount;
-    if (Math.abs(totalPrice - expectedPrice) > 0.01) {
+    // Validate price calculation; amounts are integer minor units, so they must match exactly
+    const expectedPrice = Money.of(tour.pricePerPerson, tour.currency).multiply(travelersCount);
+    if (totalPrice !== expectedPrice.amount) {
       throw new BusinessRuleError(
-        `Price mismatch. Expected: $${expectedPrice.toFixed(2)}, Provided: $${totalPrice.toFixed(2)}`
+        `Price mismatch. Expected: ${expectedPrice.format()}, Provided: ${Number.isSafeInteger(totalPrice) ? Money.of(totalPrice, tour.currency).format() : totalPrice}`
       );
     }
   }
@@ -221,19 +233,19 @@ export class BusinessRuleValidator {
     method: string,
     provider: string
   ): void {
-    // Validate amount
-    if (typeof amount !== 'number' || amount <= 0) {
-      throw new BusinessRuleError('Payment amount must be a positive number');
+    // Validate currency
+    if (!ExchangeRateValidator.isSupportedCurrency(currency.toUpperCase())) {
+      throw new BusinessRuleError(`Unsupported currency: ${currency}`);
     }
 
-    if (amount > 1000000) {
-      throw new BusinessRuleError('Payment amount cannot exceed $1,000,000');
+    // Validate amount, in minor units of the currency
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new BusinessRuleError('Payment amount must be a positive whole number of minor units');
     }
 
-    // Validate currency
-    const supportedCurrencies = ['USD', 'EUR', 'GBP', 'NGN', 'GHS', 'KES'];
-    if (!supportedCurrencies.includes(currency.toUpperCase())) {
-      throw new BusinessRuleError(`Unsupported currency: ${currency}`);
+    const limit = MONEY_LIMITS[currency.toUpperCase()].payment;
+    if (amount > limit) {
+      throw new BusinessRuleError(`Payment amount cannot exceed ${Money.of(limit, currency.toUpperCase()).format()}`);
     }
 
     // Validate method and provider combination
@@ -241,6 +253,7 @@ export class BusinessRuleValidator {
       STRIPE: ['CARD'],
       PAYSTACK: ['CARD', 'MOBILE_MONEY', 'BANK'],
       FLUTTERWAVE: ['CARD', 'MOBILE_MONEY', 'BANK'],
+      SANDBOX: ['CARD', 'MOBILE_MONEY', 'BANK'],
     };
 
     if (!validCombinations[provider as keyof typeof validCombinations]) {
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Money } from '@/app/lib/models/money'
+
+interface SandboxPayment {
+  id: string
+  amount: number
+  currency: string
+  method: string
+  status: string
+  bookingId: string
+  travelersCount: number
+  tourTitle: string
+}
+
+export default function SandboxCheckoutPage() {
+  const params = useParams()
+  const router = useRouter()
+  const paymentId = params.id as string
+
+  const [payment, setPayment] = useState<SandboxPayment | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const fetchPayment = async () => {
+      try {
+        const response = await fetch(`/api/payments/sandbox/${paymentId}`)
+        if (!response.ok) throw new Error('Payment not found')
+
+        const data = await response.json()
+        setPayment(data.payment)
+      } catch (err) {
+        setError('This sandbox payment could not be found')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPayment()
+  }, [paymentId])
+
+  const handleComplete = async (approved: boolean) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/payments/sandbox/${paymentId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ approved })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Sandbox checkout failed')
+
+      router.push(data.redirectUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sandbox checkout failed')
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow p-8">
+        <div className="mb-6 rounded-md bg-yellow-50 border border-yellow-200 px-4 py-2 text-sm text-yellow-800">
+          Sandbox checkout. No real money is taken.
+        </div>
+
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : payment && (
+          <>
+            <h1 className="text-xl font-semibold text-gray-900 mb-1">{payment.tourTitle}</h1>
+            <p className="text-sm text-gray-500 mb-6">
+              {payment.travelersCount} traveler{payment.travelersCount === 1 ? '' : 's'} · {payment.method.toLowerCase().replace('_', ' ')}
+            </p>
+
+            <div className="flex justify-between items-center border-t border-b border-gray-200 py-4 mb-6">
+              <span className="text-gray-600">Amount due</span>
+              <span className="text-2xl font-bold text-primary">
+                {Money.of(payment.amount, payment.currency).format()}
+              </span>
+            </div>
+
+            {payment.status !== 'PENDING' ? (
+              <p className="text-sm text-gray-600">
+                This payment has already been completed ({payment.status.toLowerCase()}).
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <button
+                  onClick={() => handleComplete(true)}
+                  disabled={submitting}
+                  className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium"
+                >
+                  {submitting ? 'Processing...' : 'Approve Payment'}
+                </button>
+                <button
+                  onClick={() => handleComplete(false)}
+                  disabled={submitting}
+                  className="w-full border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 py-3 px-4 rounded-md font-medium"
+                >
+                  Decline Payment
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
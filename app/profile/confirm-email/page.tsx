@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import { signOut } from 'next-auth/react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { CheckIcon } from '@heroicons/react/24/outline'
+
+function ConfirmEmailForm() {
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [email, setEmail] = useState('')
+  const [token, setToken] = useState('')
+
+  const searchParams = useSearchParams()
+
+  useEffect(() => {
+    const tokenParam = searchParams.get('token')
+    if (!tokenParam) {
+      setError('Invalid verification link')
+      return
+    }
+    setToken(tokenParam)
+  }, [searchParams])
+
+  // Confirmed with a button rather than on load, so link scanners in mail clients cannot use the link
+  const handleConfirm = async () => {
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/user/profile/email/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ token })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to confirm email address')
+        return
+      }
+
+      setEmail(data.email)
+    } catch (error) {
+      console.error(error)
+      setError('An error occurred while confirming your email address')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (email) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-green-100">
+              <CheckIcon className="h-6 w-6 text-green-600" />
+            </div>
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Email address changed</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              Your account now uses {email}. You have been signed out everywhere; sign in again with the new address.
+            </p>
+            <div className="mt-6">
+              {/* Any session ended with the change; signing out clears it from this browser */}
+              <button
+                onClick={() => signOut({ callbackUrl: '/auth/signin' })}
+                className="font-medium text-primary hover:text-primary/90"
+              >
+                Sign in now
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Confirm your new email
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Confirm to make this address the one you sign in with
+          </p>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm text-center">{error}</div>
+        )}
+
+        <div>
+          <button
+            onClick={handleConfirm}
+            disabled={loading || !token}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50"
+          >
+            {loading ? 'Confirming...' : 'Confirm email address'}
+          </button>
+        </div>
+
+        <div className="text-center">
+          <Link
+            href="/profile"
+            className="font-medium text-primary hover:text-primary/90"
+          >
+            Back to profile
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ConfirmEmail() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <ConfirmEmailForm />
+    </Suspense>
+  )
+}
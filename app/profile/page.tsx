@@ -0,0 +1,374 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession, signOut } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+
+interface Profile {
+  id: string
+  name: string
+  email: string
+  phone: string | null
+  role: string
+  createdAt: string
+  hasPassword: boolean
+  pendingEmail: string | null
+}
+
+type Message = { type: 'success' | 'error'; text: string } | null
+
+const inputClass = 'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-primary focus:border-primary'
+
+const StatusMessage = ({ message }: { message: Message }) =>
+  message ? (
+    <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+  ) : null
+
+export default function ProfilePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const [details, setDetails] = useState({ name: '', phone: '' })
+  const [detailsMessage, setDetailsMessage] = useState<Message>(null)
+  const [emailForm, setEmailForm] = useState({ email: '', password: '' })
+  const [emailMessage, setEmailMessage] = useState<Message>(null)
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' })
+  const [passwordMessage, setPasswordMessage] = useState<Message>(null)
+  const [deletePassword, setDeletePassword] = useState('')
+  const [deleteMessage, setDeleteMessage] = useState<Message>(null)
+  const [saving, setSaving] = useState('')
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/user/profile')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch profile')
+
+      setProfile(data.profile)
+      setDetails({ name: data.profile.name, phone: data.profile.phone || '' })
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load profile')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    fetchProfile()
+  }, [session, status, router, fetchProfile])
+
+  // Sends a form to the profile API; returns the response body, or null after showing the error
+  const submit = async (
+    url: string,
+    method: string,
+    body: object,
+    setMessage: (message: Message) => void,
+    fallbackError: string
+  ) => {
+    setMessage(null)
+    setSaving(url + method)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || fallbackError })
+        return null
+      }
+      return data
+    } catch (err) {
+      console.error(err)
+      setMessage({ type: 'error', text: fallbackError })
+      return null
+    } finally {
+      setSaving('')
+    }
+  }
+
+  const handleDetails = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await submit('/api/user/profile', 'PATCH', details, setDetailsMessage, 'Failed to update profile')
+    if (!data) return
+
+    setProfile(data.profile)
+    setDetails({ name: data.profile.name, phone: data.profile.phone || '' })
+    setDetailsMessage({ type: 'success', text: data.message })
+  }
+
+  const handleEmail = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await submit('/api/user/profile/email', 'POST', emailForm, setEmailMessage, 'Failed to change email')
+    if (!data) return
+
+    setProfile(profile && { ...profile, pendingEmail: data.pendingEmail })
+    setEmailForm({ email: '', password: '' })
+    setEmailMessage({ type: 'success', text: data.message })
+  }
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setPasswordMessage({ type: 'error', text: 'Passwords do not match' })
+      return
+    }
+
+    const data = await submit(
+      '/api/user/profile/password',
+      'PUT',
+      { currentPassword: passwordForm.currentPassword, newPassword: passwordForm.newPassword },
+      setPasswordMessage,
+      'Failed to change password'
+    )
+    if (!data) return
+
+    // Every session was signed out, this one included
+    alert(data.message)
+    signOut({ callbackUrl: '/auth/signin' })
+  }
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!confirm('Delete your account? Your details are removed for good; past bookings and payments are kept anonymously for our records.')) return
+
+    const data = await submit('/api/user/profile', 'DELETE', { password: deletePassword }, setDeleteMessage, 'Failed to delete account')
+    if (!data) return
+
+    alert(data.message)
+    signOut({ callbackUrl: '/' })
+  }
+
+  if (status === 'loading' || (loading && !profile)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // Will redirect to sign in
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 h-16">
+            <Link href="/dashboard" className="text-primary hover:text-primary/80 flex items-center gap-2">
+              <ArrowLeftIcon className="w-4 h-4" />
+              <span>Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Profile</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error || !profile ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error || 'Failed to load profile'}</p>
+            <button
+              onClick={fetchProfile}
+              className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Details */}
+            <form onSubmit={handleDetails} className="bg-white shadow sm:rounded-md p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">Your details</h2>
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  id="name"
+                  required
+                  value={details.name}
+                  onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                <input
+                  id="phone"
+                  type="tel"
+                  value={details.phone}
+                  onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                  placeholder="+233 24 123 4567"
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Include the country code. Leave empty to remove your number.</p>
+              </div>
+              <StatusMessage message={detailsMessage} />
+              <button
+                type="submit"
+                disabled={saving !== ''}
+                className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+
+            {/* Email */}
+            <form onSubmit={handleEmail} className="bg-white shadow sm:rounded-md p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">Email address</h2>
+              <p className="text-sm text-gray-600">
+                Currently <span className="font-medium">{profile.email}</span>.
+                {profile.pendingEmail && (
+                  <> Waiting for confirmation of <span className="font-medium">{profile.pendingEmail}</span>.</>
+                )}
+              </p>
+              <div>
+                <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700 mb-1">New email address</label>
+                <input
+                  id="newEmail"
+                  type="email"
+                  required
+                  value={emailForm.email}
+                  onChange={(e) => setEmailForm({ ...emailForm, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {profile.hasPassword && (
+                <div>
+                  <label htmlFor="emailPassword" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+                  <input
+                    id="emailPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={emailForm.password}
+                    onChange={(e) => setEmailForm({ ...emailForm, password: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-gray-500">We will send a link to the new address; the change is made once you use it.</p>
+              <StatusMessage message={emailMessage} />
+              <button
+                type="submit"
+                disabled={saving !== ''}
+                className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                Send Verification Link
+              </button>
+            </form>
+
+            {/* Password */}
+            <form onSubmit={handlePassword} className="bg-white shadow sm:rounded-md p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">Password</h2>
+              {profile.hasPassword ? (
+                <>
+                  <div>
+                    <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+                    <input
+                      id="currentPassword"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={passwordForm.currentPassword}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">New password</label>
+                    <input
+                      id="newPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      required
+                      value={passwordForm.newPassword}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                      placeholder="Min. 6 characters"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-1">Confirm new password</label>
+                    <input
+                      id="confirmNewPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      required
+                      value={passwordForm.confirmPassword}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">You will be signed out everywhere and sign in again with the new password.</p>
+                  <StatusMessage message={passwordMessage} />
+                  <button
+                    type="submit"
+                    disabled={saving !== ''}
+                    className="bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                  >
+                    Change Password
+                  </button>
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  You sign in with Google, so your account has no password. To add one, use{' '}
+                  <Link href="/auth/forgot-password" className="text-primary hover:text-primary/80">Forgot password</Link>.
+                </p>
+              )}
+            </form>
+
+            {/* Delete account */}
+            {profile.role === 'CUSTOMER' && (
+              <form onSubmit={handleDelete} className="bg-white shadow sm:rounded-md p-6 space-y-4 border border-red-200">
+                <h2 className="text-lg font-medium text-red-700">Delete account</h2>
+                <p className="text-sm text-gray-600">
+                  Your name, email address, phone number, reviews and notifications are removed for good. Bookings and
+                  payments are kept without your details, as we must keep them for our accounts. Cancel any upcoming
+                  bookings first.
+                </p>
+                {profile.hasPassword && (
+                  <div>
+                    <label htmlFor="deletePassword" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+                    <input
+                      id="deletePassword"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={deletePassword}
+                      onChange={(e) => setDeletePassword(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <StatusMessage message={deleteMessage} />
+                <button
+                  type="submit"
+                  disabled={saving !== ''}
+                  className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                >
+                  Delete My Account
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,12 +5,18 @@ import { useParams, useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import Image from 'next/image'
 import Link from 'next/link'
+import CurrencySelector, { useDisplayCurrency } from '@/components/CurrencySelector'
+import TravelerDetailsForm, { TravelerFormEntry, travelerEntries } from '@/components/TravelerDetailsForm'
+import { Money } from '@/app/lib/models/money'
+import { PricingRuleTerms, TourPricing, UnitPrices } from '@/app/lib/models/pricing'
+import { TravelerDetails, TravelerValidator } from '@/app/lib/models/traveler'
 
 interface Tour {
   id: string
   title: string
   description: string
   pricePerPerson: number
+  currency: string
   durationDays: number
   maxGroupSize: number
   difficulty?: 'easy' | 'medium' | 'hard'
@@ -24,6 +30,11 @@ interface Tour {
     country: string
     description: string
   }
+  pricingRules: Array<Omit<PricingRuleTerms, 'startDate' | 'endDate'> & {
+    name: string
+    startDate: string | null
+    endDate: string | null
+  }>
 }
 
 interface TourAvailability {
@@ -33,6 +44,16 @@ interface TourAvailability {
   availableSlots: number
 }
 
+interface WaitlistPosition {
+  entry: {
+    id: string
+    availabilityId: string
+    travelersCount: number
+    status: 'WAITING' | 'OFFERED'
+  }
+  position: number | null
+}
+
 interface Review {
   id: string
   rating: number
@@ -58,7 +79,19 @@ export default function TourDetailPage() {
   // Booking state
   const [selectedAvailability, setSelectedAvailability] = useState<string>('')
   const [travelersCount, setTravelersCount] = useState(1)
+  const [childrenCount, setChildrenCount] = useState(0)
+  const [seniorsCount, setSeniorsCount] = useState(0)
   const [bookingLoading, setBookingLoading] = useState(false)
+  const [promoCode, setPromoCode] = useState('')
+  const [promoError, setPromoError] = useState('')
+  const [promoLoading, setPromoLoading] = useState(false)
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; discount: Money; total: Money } | null>(null)
+  const [bookingStep, setBookingStep] = useState<'trip' | 'travelers'>('trip')
+  const [travelerForms, setTravelerForms] = useState<TravelerFormEntry[]>([])
+  const [travelerError, setTravelerError] = useState('')
+  const [waitlist, setWaitlist] = useState<WaitlistPosition[]>([])
+  const [waitlistLoading, setWaitlistLoading] = useState(false)
+  const { currency: displayCurrency, setCurrency: setDisplayCurrency, displayPrice } = useDisplayCurrency()
 
   const fetchTourDetails = useCallback(async () => {
     try {
@@ -66,7 +99,7 @@ export default function TourDetailPage() {
       if (!response.ok) throw new Error('Tour not found')
       
       const data = await response.json()
-      setTour(data.tour)
+      setTour(data.data)
     } catch (err) {
       setError('Failed to load tour details')
       console.error(err)
@@ -80,13 +113,30 @@ export default function TourDetailPage() {
       const response = await fetch(`/api/tours/${tourId}/availability`)
       if (response.ok) {
         const data = await response.json()
-        setAvailability(data.availability || [])
+        setAvailability((data.availabilities || []).map((slot: TourAvailability & { availabilityId: string }) => ({
+          id: slot.availabilityId,
+          startDate: slot.startDate,
+          endDate: slot.endDate,
+          availableSlots: slot.availableSlots
+        })))
       }
     } catch (err) {
       console.error('Failed to fetch availability:', err)
     }
   }, [tourId])
 
+  const fetchWaitlist = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/waitlist?tourId=${tourId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setWaitlist(data.entries || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch waitlist:', err)
+    }
+  }, [tourId])
+
   const fetchReviews = useCallback(async () => {
     try {
       const response = await fetch(`/api/tours/${tourId}/reviews`)
@@ -107,17 +157,94 @@ export default function TourDetailPage() {
     }
   }, [tourId, fetchTourDetails, fetchAvailability, fetchReviews])
 
-  const handleBooking = async () => {
+  useEffect(() => {
+    if (tourId && session) {
+      fetchWaitlist()
+    }
+  }, [tourId, session, fetchWaitlist])
+
+  // A quote is only good for the date, group size and currency it was made for
+  useEffect(() => {
+    setAppliedPromo(null)
+  }, [selectedAvailability, travelersCount, childrenCount, seniorsCount, displayCurrency])
+
+  const handleApplyPromo = async () => {
     if (!session) {
       router.push('/auth/signin')
       return
     }
 
     if (!selectedAvailability) {
+      setPromoError('Choose a date before applying a code')
+      return
+    }
+
+    setPromoLoading(true)
+    setPromoError('')
+    try {
+      const response = await fetch('/api/bookings/quote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          tourId,
+          availabilityId: selectedAvailability,
+          travelersCount,
+          childrenCount,
+          seniorsCount,
+          currency: tour ? displayPrice(tour.pricePerPerson, tour.currency).currency : undefined,
+          promoCode
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not apply promo code')
+
+      setAppliedPromo({
+        code: data.quote.promoCode,
+        discount: Money.of(data.quote.discount.amount, data.quote.discount.currency),
+        total: Money.of(data.quote.total.amount, data.quote.total.currency)
+      })
+    } catch (err) {
+      setAppliedPromo(null)
+      setPromoError(err instanceof Error ? err.message : 'Could not apply promo code')
+    } finally {
+      setPromoLoading(false)
+    }
+  }
+
+  const handleBooking = async () => {
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    const slot = availability.find((departure) => departure.id === selectedAvailability)
+    if (!slot) {
       alert('Please select a date')
       return
     }
 
+    // Check the travelers here first, with the same rules the server applies
+    const entries = travelerEntries(travelerForms, TourPricing.travelerMix(travelersCount, childrenCount, seniorsCount))
+    const details: TravelerDetails[] = entries.map((entry) => ({
+      ...entry,
+      dateOfBirth: new Date(entry.dateOfBirth),
+      passportExpiry: entry.passportExpiry ? new Date(entry.passportExpiry) : null
+    }))
+    try {
+      TravelerValidator.validateTravelers(
+        details,
+        TourPricing.travelerMix(travelersCount, childrenCount, seniorsCount),
+        { startDate: new Date(slot.startDate), endDate: new Date(slot.endDate) }
+      )
+      setTravelerError('')
+    } catch (err) {
+      setTravelerError(err instanceof Error ? err.message : 'Please check the traveler details')
+      return
+    }
+
     setBookingLoading(true)
     try {
       const response = await fetch('/api/bookings', {
@@ -128,7 +255,13 @@ export default function TourDetailPage() {
         body: JSON.stringify({
           tourId,
           availabilityId: selectedAvailability,
-          travelersCount
+          travelersCount,
+          childrenCount,
+          seniorsCount,
+          // Book in the currency the price was shown in; the server locks in its own rate
+          currency: tour ? displayPrice(tour.pricePerPerson, tour.currency).currency : undefined,
+          promoCode: appliedPromo?.code,
+          travelers: entries
         })
       })
 
@@ -137,8 +270,8 @@ export default function TourDetailPage() {
         throw new Error(error.error || 'Booking failed')
       }
 
-      const data = await response.json()
-      router.push(`/bookings/${data.booking.id}`)
+      const booking = await response.json()
+      router.push(`/bookings/${booking.id}`)
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Booking failed')
     } finally {
@@ -146,6 +279,65 @@ export default function TourDetailPage() {
     }
   }
 
+  const handleJoinWaitlist = async () => {
+    setWaitlistLoading(true)
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          availabilityId: selectedAvailability,
+          travelersCount,
+          childrenCount,
+          seniorsCount
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not join the waitlist')
+
+      fetchWaitlist()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not join the waitlist')
+    } finally {
+      setWaitlistLoading(false)
+    }
+  }
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    setWaitlistLoading(true)
+    try {
+      const response = await fetch(`/api/waitlist/${entryId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not leave the waitlist')
+
+      fetchWaitlist()
+      fetchAvailability()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not leave the waitlist')
+    } finally {
+      setWaitlistLoading(false)
+    }
+  }
+
+  const handleResendWaitlistOffer = async (entryId: string) => {
+    setWaitlistLoading(true)
+    try {
+      const response = await fetch(`/api/waitlist/${entryId}`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not resend the claim link')
+
+      alert(data.message)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not resend the claim link')
+      fetchWaitlist()
+    } finally {
+      setWaitlistLoading(false)
+    }
+  }
+
   const getDifficultyColor = (difficulty?: string) => {
     switch (difficulty) {
       case 'easy': return 'bg-green-100 text-green-800'
@@ -192,7 +384,41 @@ export default function TourDetailPage() {
     )
   }
 
-  const totalPrice = tour.pricePerPerson * travelersCount
+  // Priced the way the booking will be: the departure's unit prices under the tour's rules,
+  // each converted into the display currency, times the travelers of each type
+  const basePrice = Money.of(tour.pricePerPerson, tour.currency)
+  const pricingRules = (tour.pricingRules || []).map((rule) => ({
+    ...rule,
+    startDate: rule.startDate ? new Date(rule.startDate) : null,
+    endDate: rule.endDate ? new Date(rule.endDate) : null
+  }))
+  const toDisplay = (price: Money) => displayPrice(price.amount, price.currency)
+  const priceDeparture = (slot: TourAvailability, count: number) => TourPricing.departurePrice(
+    basePrice,
+    pricingRules,
+    { departureDate: new Date(slot.startDate), travelersCount: count }
+  )
+
+  const selectedSlot = availability.find((slot) => slot.id === selectedAvailability)
+  // Too few seats for the group: the customer can wait for some to be released instead
+  const soldOut = !!selectedSlot && selectedSlot.availableSlots < travelersCount
+  const waitlisted = waitlist.find((waiting) => waiting.entry.availabilityId === selectedAvailability)
+  const departure = selectedSlot ? priceDeparture(selectedSlot, travelersCount) : null
+  const baseUnitPrices: UnitPrices = departure
+    ? departure.unitPrices
+    : { ADULT: basePrice, CHILD: basePrice, SENIOR: basePrice }
+  const unitPrices: UnitPrices = {
+    ADULT: toDisplay(baseUnitPrices.ADULT),
+    CHILD: toDisplay(baseUnitPrices.CHILD),
+    SENIOR: toDisplay(baseUnitPrices.SENIOR)
+  }
+  const travelers = TourPricing.travelerMix(travelersCount, childrenCount, seniorsCount)
+  const priceLines = TourPricing.lines(unitPrices, travelers)
+  const totalPrice = TourPricing.subtotal(unitPrices, travelers)
+  // Child and senior rules only matter when someone of that type is coming
+  const appliedRules = (departure?.rules || []).filter((rule) => rule.type !== 'TRAVELER_TYPE' ||
+    priceLines.some((line) => line.travelerType === rule.travelerType))
+  const travelerLabels = { ADULT: ['Adult', 'Adults'], CHILD: ['Child', 'Children'], SENIOR: ['Senior', 'Seniors'] }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -278,7 +504,7 @@ export default function TourDetailPage() {
                   <div className="text-sm text-gray-500">Max Group</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-primary">${tour.pricePerPerson}</div>
+                  <div className="text-2xl font-bold text-primary">{toDisplay(basePrice).format()}</div>
                   <div className="text-sm text-gray-500">Per Person</div>
                 </div>
                 <div className="text-center">
@@ -361,7 +587,7 @@ export default function TourDetailPage() {
 
           {/* Booking Sidebar */}
           <div className="lg:col-span-1">
-            <div className="bg-white rounded-lg shadow p-6 sticky top-8">
+            <div className={`bg-white rounded-lg shadow p-6 ${bookingStep === 'trip' ? 'sticky top-8' : ''}`}>
               <h2 className="text-xl font-bold text-gray-900 mb-4">Book This Tour</h2>
               
               {!session ? (
@@ -376,68 +602,252 @@ export default function TourDetailPage() {
                 </div>
               ) : (
                 <>
-                  {/* Date Selection */}
-                  <div className="mb-4">
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Select Date
-                    </label>
-                    <select
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
-                      value={selectedAvailability}
-                      onChange={(e) => setSelectedAvailability(e.target.value)}
-                    >
-                      <option value="">Choose a date</option>
-                      {availability.map((slot) => (
-                        <option key={slot.id} value={slot.id}>
-                          {formatDate(slot.startDate)} - {formatDate(slot.endDate)} 
-                          ({slot.availableSlots} slots available)
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                  {bookingStep === 'travelers' ? (
+                    <div className="mb-6">
+                      <div className="flex justify-between items-center mb-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Who&apos;s travelling</h3>
+                        <button
+                          type="button"
+                          onClick={() => setBookingStep('trip')}
+                          className="text-sm text-primary hover:text-primary/80"
+                        >
+                          ← Change trip
+                        </button>
+                      </div>
+                      <TravelerDetailsForm
+                        travelers={travelerEntries(travelerForms, travelers)}
+                        onChange={setTravelerForms}
+                      />
+                      {travelerError && <p className="text-sm text-red-600 mt-3">{travelerError}</p>}
+                    </div>
+                  ) : (
+                    <>
+                      {/* Date Selection */}
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Select Date
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                          value={selectedAvailability}
+                          onChange={(e) => setSelectedAvailability(e.target.value)}
+                        >
+                          <option value="">Choose a date</option>
+                          {availability.map((slot) => (
+                            <option key={slot.id} value={slot.id}>
+                              {formatDate(slot.startDate)} - {formatDate(slot.endDate)} 
+                              ({slot.availableSlots > 0 ? `${slot.availableSlots} slots available` : 'full, join the waitlist'}) · {toDisplay(priceDeparture(slot, travelersCount).unitPrices.ADULT).format()}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
 
-                  {/* Travelers Count */}
-                  <div className="mb-4">
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Number of Travelers
-                    </label>
-                    <select
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
-                      value={travelersCount}
-                      onChange={(e) => setTravelersCount(parseInt(e.target.value))}
-                    >
-                      {Array.from({ length: Math.min(tour.maxGroupSize, 10) }, (_, i) => (
-                        <option key={i + 1} value={i + 1}>
-                          {i + 1} {i === 0 ? 'Traveler' : 'Travelers'}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                      {/* Travelers Count */}
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Number of Travelers
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                          value={travelersCount}
+                          onChange={(e) => {
+                            const count = parseInt(e.target.value)
+                            setTravelersCount(count)
+                            setChildrenCount(Math.min(childrenCount, count))
+                            setSeniorsCount(Math.min(seniorsCount, count - Math.min(childrenCount, count)))
+                          }}
+                        >
+                          {Array.from({ length: Math.min(tour.maxGroupSize, 10) }, (_, i) => (
+                            <option key={i + 1} value={i + 1}>
+                              {i + 1} {i === 0 ? 'Traveler' : 'Travelers'}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Traveler Types */}
+                      <div className="mb-4 grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="childrenCount">
+                            Of whom children
+                          </label>
+                          <select
+                            id="childrenCount"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                            value={childrenCount}
+                            onChange={(e) => setChildrenCount(parseInt(e.target.value))}
+                          >
+                            {Array.from({ length: travelersCount - seniorsCount + 1 }, (_, i) => (
+                              <option key={i} value={i}>{i}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="seniorsCount">
+                            Of whom seniors
+                          </label>
+                          <select
+                            id="seniorsCount"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                            value={seniorsCount}
+                            onChange={(e) => setSeniorsCount(parseInt(e.target.value))}
+                          >
+                            {Array.from({ length: travelersCount - childrenCount + 1 }, (_, i) => (
+                              <option key={i} value={i}>{i}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {/* Currency */}
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="currency">
+                          Currency
+                        </label>
+                        <CurrencySelector
+                          id="currency"
+                          value={displayCurrency}
+                          onChange={setDisplayCurrency}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                        />
+                      </div>
+
+                      {/* Promo Code */}
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="promoCode">
+                          Promo Code
+                        </label>
+                        <div className="flex gap-2">
+                          <input
+                            id="promoCode"
+                            type="text"
+                            value={promoCode}
+                            onChange={(e) => {
+                              setPromoCode(e.target.value.toUpperCase())
+                              setAppliedPromo(null)
+                              setPromoError('')
+                            }}
+                            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary"
+                          />
+                          <button
+                            type="button"
+                            onClick={handleApplyPromo}
+                            disabled={!promoCode.trim() || promoLoading}
+                            className="px-4 py-2 border border-primary text-primary rounded-md font-medium hover:bg-primary/5 disabled:border-gray-300 disabled:text-gray-400"
+                          >
+                            {promoLoading ? 'Checking...' : 'Apply'}
+                          </button>
+                        </div>
+                        {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
+                        {appliedPromo && (
+                          <p className="text-sm text-green-700 mt-1">Code {appliedPromo.code} applied</p>
+                        )}
+                      </div>
+                    </>
+                  )}
 
                   {/* Price Summary */}
                   <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-                    <div className="flex justify-between items-center mb-2">
-                      <span className="text-gray-600">
-                        ${tour.pricePerPerson} × {travelersCount} traveler{travelersCount !== 1 ? 's' : ''}
-                      </span>
-                      <span className="font-medium">${totalPrice}</span>
-                    </div>
+                    {priceLines.map((line) => (
+                      <div key={line.travelerType} className="flex justify-between items-center mb-2">
+                        <span className="text-gray-600">
+                          {unitPrices[line.travelerType].format()} × {line.count} {travelerLabels[line.travelerType][line.count === 1 ? 0 : 1]}
+                        </span>
+                        <span className="font-medium">{unitPrices[line.travelerType].multiply(line.count).format()}</span>
+                      </div>
+                    ))}
+                    {appliedRules.length > 0 && (
+                      <ul className="mb-2 text-xs text-gray-500 space-y-1">
+                        {appliedRules.map((rule) => (
+                          <li key={`${rule.type}-${rule.name}`}>
+                            {rule.name}: {rule.adjustmentPercent > 0 ? '+' : ''}{rule.adjustmentPercent}%
+                            {rule.type === 'TRAVELER_TYPE' ? ` for ${rule.travelerType === 'CHILD' ? 'children' : 'seniors'}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {!selectedSlot && (
+                      <p className="mb-2 text-xs text-gray-500">Prices vary by departure. Choose a date to see yours.</p>
+                    )}
+                    {appliedPromo && (
+                      <div className="flex justify-between items-center mb-2 text-green-700">
+                        <span>Discount ({appliedPromo.code})</span>
+                        <span className="font-medium">−{appliedPromo.discount.format()}</span>
+                      </div>
+                    )}
                     <div className="border-t border-gray-200 pt-2">
                       <div className="flex justify-between items-center">
                         <span className="text-lg font-bold">Total</span>
-                        <span className="text-lg font-bold text-primary">${totalPrice}</span>
+                        <span className="text-lg font-bold text-primary">
+                          {(appliedPromo ? appliedPromo.total : totalPrice).format()}
+                        </span>
                       </div>
                     </div>
+                    {totalPrice.currency !== tour.currency && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Converted from {tour.currency} at today&apos;s rate. The rate is locked in when you book.
+                      </p>
+                    )}
                   </div>
 
                   {/* Book Button */}
-                  <button
-                    onClick={handleBooking}
-                    disabled={!selectedAvailability || bookingLoading}
-                    className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium transition-colors"
-                  >
-                    {bookingLoading ? 'Booking...' : 'Book Now'}
-                  </button>
+                  {waitlisted ? (
+                    <div className="text-sm text-gray-700 space-y-3">
+                      <p>
+                        {waitlisted.entry.status === 'OFFERED'
+                          ? 'Seats have opened up and are being held for you. We have emailed you a link to claim them; if it has not arrived, we can send a new one.'
+                          : `You are number ${waitlisted.position} on the waitlist for ${waitlisted.entry.travelersCount} ${waitlisted.entry.travelersCount === 1 ? 'traveler' : 'travelers'}. We will email you if seats open up.`}
+                      </p>
+                      {waitlisted.entry.status === 'OFFERED' && (
+                        <button
+                          onClick={() => handleResendWaitlistOffer(waitlisted.entry.id)}
+                          disabled={waitlistLoading}
+                          className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium transition-colors"
+                        >
+                          Email Me a New Claim Link
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleLeaveWaitlist(waitlisted.entry.id)}
+                        disabled={waitlistLoading}
+                        className="w-full border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 py-3 px-4 rounded-md font-medium transition-colors"
+                      >
+                        {waitlisted.entry.status === 'OFFERED' ? 'Turn Down Seats' : 'Leave Waitlist'}
+                      </button>
+                    </div>
+                  ) : soldOut ? (
+                    <div className="text-sm text-gray-700 space-y-3">
+                      <p>
+                        {selectedSlot.availableSlots === 0
+                          ? 'This date is full.'
+                          : `Only ${selectedSlot.availableSlots} ${selectedSlot.availableSlots === 1 ? 'seat is' : 'seats are'} left on this date.`}
+                        {' '}Join the waitlist and we will hold seats for your group and email you if enough open up.
+                      </p>
+                      <button
+                        onClick={handleJoinWaitlist}
+                        disabled={waitlistLoading}
+                        className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium transition-colors"
+                      >
+                        {waitlistLoading ? 'Joining...' : 'Join Waitlist'}
+                      </button>
+                    </div>
+                  ) : bookingStep === 'trip' ? (
+                    <button
+                      onClick={() => setBookingStep('travelers')}
+                      disabled={!selectedAvailability}
+                      className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium transition-colors"
+                    >
+                      Continue to Traveler Details
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleBooking}
+                      disabled={!selectedAvailability || bookingLoading}
+                      className="w-full bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white py-3 px-4 rounded-md font-medium transition-colors"
+                    >
+                      {bookingLoading ? 'Booking...' : 'Book Now'}
+                    </button>
+                  )}
 
                   <p className="text-xs text-gray-500 mt-2 text-center">
                     You won&apos;t be charged yet. Review your booking details first.
@@ -4,12 +4,14 @@ import { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { useSession } from 'next-auth/react'
+import CurrencySelector, { useDisplayCurrency } from '@/components/CurrencySelector'
 
 interface Tour {
   id: string
   title: string
   description: string
   pricePerPerson: number
+  currency: string
   durationDays: number
   difficulty?: 'easy' | 'medium' | 'hard'
   images: string[]
@@ -41,6 +43,7 @@ export default function ToursPage() {
     activityLevel: []
   })
   const [sortBy, setSortBy] = useState('featured')
+  const { currency: displayCurrency, setCurrency: setDisplayCurrency, formatPrice } = useDisplayCurrency()
 
   const fetchTours = useCallback(async () => {
     try {
@@ -82,18 +85,19 @@ export default function ToursPage() {
 
   const handlePriceRangeChange = (range: string) => {
     setFilters(prev => {
+      // Prices are filtered in minor units (cents)
       let minPrice, maxPrice
       switch (range) {
         case 'under-500':
           minPrice = undefined
-          maxPrice = 500
+          maxPrice = 50000
           break
         case '500-1000':
-          minPrice = 500
-          maxPrice = 1000
+          minPrice = 50000
+          maxPrice = 100000
           break
         case '1000+':
-          minPrice = 1000
+          minPrice = 100000
           maxPrice = undefined
           break
         default:
@@ -130,7 +134,7 @@ export default function ToursPage() {
   const getBadgeForTour = (tour: Tour, index: number) => {
     if (index === 0) return { text: 'Best Seller', className: 'bg-white/90 dark:bg-slate-900/90 backdrop-blur text-slate-900 dark:text-white' }
     if (index === 1) return { text: 'Trending', className: 'bg-blue-500/90 backdrop-blur text-white' }
-    if (tour.pricePerPerson > 1000) return { text: 'Premium', className: 'bg-purple-500/90 backdrop-blur text-white' }
+    if (tour.pricePerPerson > 100000) return { text: 'Premium', className: 'bg-purple-500/90 backdrop-blur text-white' }
     return null
   }
 
@@ -387,6 +391,15 @@ export default function ToursPage() {
                 Showing {tours.length} results
               </p>
               <div className="flex items-center gap-3">
+                <label className="text-sm text-slate-500 dark:text-slate-400 font-medium" htmlFor="currency">
+                  Currency:
+                </label>
+                <CurrencySelector
+                  id="currency"
+                  value={displayCurrency}
+                  onChange={setDisplayCurrency}
+                  className="pl-3 pr-8 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-900 dark:text-white focus:ring-blue-600 focus:border-blue-600 cursor-pointer"
+                />
                 <label className="text-sm text-slate-500 dark:text-slate-400 font-medium" htmlFor="sort">
                   Sort by:
                 </label>
@@ -498,7 +511,7 @@ export default function ToursPage() {
                         
                         <div className="mt-auto pt-3 flex items-center justify-between border-t border-slate-100 dark:border-slate-800">
                           <span className="text-lg font-bold text-blue-600">
-                            ${tour.pricePerPerson}
+                            {formatPrice(tour.pricePerPerson, tour.currency)}
                             <span className="text-sm font-normal text-slate-500 dark:text-slate-400">/person</span>
                           </span>
                           <Link
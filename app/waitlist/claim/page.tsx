@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useEffect, useCallback, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import TravelerDetailsForm, { TravelerFormEntry, travelerEntries } from '@/components/TravelerDetailsForm'
+import { TourPricing } from '@/app/lib/models/pricing'
+import { TravelerDetails, TravelerValidator } from '@/app/lib/models/traveler'
+
+interface WaitlistOffer {
+  id: string
+  tour: {
+    id: string
+    title: string
+  }
+  availability: {
+    startDate: string
+    endDate: string
+  }
+  travelersCount: number
+  childrenCount: number
+  seniorsCount: number
+  offerExpiresAt: string
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+function ClaimOffer() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { data: session, status } = useSession()
+  const token = searchParams.get('token') ?? ''
+
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [travelerForms, setTravelerForms] = useState<TravelerFormEntry[]>([])
+  const [travelerError, setTravelerError] = useState('')
+  const [claiming, setClaiming] = useState(false)
+  const [declined, setDeclined] = useState(false)
+
+  const fetchOffer = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/waitlist/claim?token=${encodeURIComponent(token)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'This offer is no longer available')
+
+      setOffer(data.offer)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This offer is no longer available')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    fetchOffer()
+  }, [session, status, router, fetchOffer])
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (declined || error || !offer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className={declined ? 'text-gray-700 mb-4' : 'text-red-600 mb-4'}>
+            {declined ? 'You have turned down the seats. We have offered them to the next customer in line.' : error || 'This offer is no longer available'}
+          </p>
+          <Link href="/tours" className="text-primary hover:text-primary/80">
+            Browse Tours
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const mix = TourPricing.travelerMix(offer.travelersCount, offer.childrenCount, offer.seniorsCount)
+  const entries = travelerEntries(travelerForms, mix)
+
+  const handleClaim = async () => {
+    // Check the travelers here first, with the same rules the server applies
+    const details: TravelerDetails[] = entries.map((entry) => ({
+      ...entry,
+      dateOfBirth: new Date(entry.dateOfBirth),
+      passportExpiry: entry.passportExpiry ? new Date(entry.passportExpiry) : null
+    }))
+    try {
+      TravelerValidator.validateTravelers(details, mix, {
+        startDate: new Date(offer.availability.startDate),
+        endDate: new Date(offer.availability.endDate)
+      })
+      setTravelerError('')
+    } catch (err) {
+      setTravelerError(err instanceof Error ? err.message : 'Please check the traveler details')
+      return
+    }
+
+    setClaiming(true)
+    try {
+      const response = await fetch('/api/waitlist/claim', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ token, travelers: entries })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not claim the seats')
+
+      router.push(`/bookings/${data.id}`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not claim the seats')
+    } finally {
+      setClaiming(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    if (!confirm('Turn down these seats? They will go to the next customer on the waitlist.')) return
+
+    try {
+      const response = await fetch(`/api/waitlist/${offer.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not turn down the seats')
+
+      setDeclined(true)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not turn down the seats')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Seats Are Waiting</h1>
+          <p className="text-gray-600">
+            We are holding {offer.travelersCount} {offer.travelersCount === 1 ? 'seat' : 'seats'} on{' '}
+            <Link href={`/tours/${offer.tour.id}`} className="text-primary hover:text-primary/80">{offer.tour.title}</Link>{' '}
+            from {formatDate(offer.availability.startDate)} to {formatDate(offer.availability.endDate)} for you until{' '}
+            {new Date(offer.offerExpiresAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}.
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Claiming them makes a booking at today&apos;s price, which you then pay for like any other booking.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Who&apos;s travelling</h2>
+          <TravelerDetailsForm travelers={entries} onChange={setTravelerForms} />
+          {travelerError && <p className="text-sm text-red-600 mt-3">{travelerError}</p>}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={handleClaim}
+            disabled={claiming}
+            className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-6 py-3 rounded-md font-medium"
+          >
+            {claiming ? 'Claiming...' : 'Claim Seats'}
+          </button>
+          <button
+            onClick={handleDecline}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-6 py-3 rounded-md font-medium"
+          >
+            Turn Down
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ClaimWaitlistOfferPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <ClaimOffer />
+    </Suspense>
+  )
+}
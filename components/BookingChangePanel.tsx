@@ -0,0 +1,282 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import TravelerDetailsForm, { TravelerFormEntry, travelerEntries } from '@/components/TravelerDetailsForm'
+import { Money } from '@/app/lib/models/money'
+
+interface Departure {
+  id: string
+  startDate: string
+  endDate: string
+  availableSlots: number
+}
+
+interface ModificationQuote {
+  currency: string
+  toTravelersCount: number
+  childrenCount: number
+  seniorsCount: number
+  previousTotal: number
+  newTotal: number
+  priceDifference: number
+  balance: number
+  settlement: 'NONE' | 'PAYMENT_DUE' | 'REFUND_DUE'
+}
+
+interface BookingChangePanelProps {
+  bookingId: string
+  tourId: string
+  availabilityId: string
+  travelersCount: number
+  childrenCount: number
+  seniorsCount: number
+  hasTravelerDetails: boolean
+  cutoffDays: number
+  onChanged: () => void
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary'
+
+export default function BookingChangePanel({
+  bookingId,
+  tourId,
+  availabilityId,
+  travelersCount,
+  childrenCount,
+  seniorsCount,
+  hasTravelerDetails,
+  cutoffDays,
+  onChanged
+}: BookingChangePanelProps) {
+  const [departures, setDepartures] = useState<Departure[]>([])
+  const [form, setForm] = useState({ availabilityId, travelersCount, childrenCount, seniorsCount })
+  const [travelers, setTravelers] = useState<TravelerFormEntry[]>([])
+  const [quote, setQuote] = useState<ModificationQuote | null>(null)
+  const [error, setError] = useState('')
+  const [quoting, setQuoting] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchDepartures = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tours/${tourId}/availability`)
+      if (!response.ok) throw new Error('Failed to fetch departures')
+
+      const data = await response.json()
+      setDepartures((data.availabilities || []).map((slot: Departure & { availabilityId: string }) => ({
+        id: slot.availabilityId,
+        startDate: slot.startDate,
+        endDate: slot.endDate,
+        availableSlots: slot.availableSlots
+      })))
+    } catch (err) {
+      console.error(err)
+    }
+  }, [tourId])
+
+  useEffect(() => {
+    fetchDepartures()
+  }, [fetchDepartures])
+
+  // A quote is only good for the change it was made for
+  useEffect(() => {
+    setQuote(null)
+    setError('')
+  }, [form])
+
+  const travelersChanged = form.travelersCount !== travelersCount ||
+    form.childrenCount !== childrenCount ||
+    form.seniorsCount !== seniorsCount
+  const needsTravelers = hasTravelerDetails && travelersChanged
+  const mix = {
+    adults: form.travelersCount - form.childrenCount - form.seniorsCount,
+    children: form.childrenCount,
+    seniors: form.seniorsCount
+  }
+
+  const handleQuote = async () => {
+    setQuoting(true)
+    setError('')
+    try {
+      const query = new URLSearchParams({
+        availabilityId: form.availabilityId,
+        travelersCount: String(form.travelersCount),
+        childrenCount: String(form.childrenCount),
+        seniorsCount: String(form.seniorsCount)
+      })
+      const response = await fetch(`/api/bookings/${bookingId}/modification?${query}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not price this change')
+
+      setQuote(data.quote)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not price this change')
+    } finally {
+      setQuoting(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    setSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...form,
+          travelers: needsTravelers ? travelerEntries(travelers, mix) : undefined
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Could not change booking')
+
+      if (data.modification.refundError) {
+        alert('Your booking was changed, but the refund could not be issued yet. Our team has been notified and will send it shortly.')
+      }
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change booking')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const money = (amount: number) => Money.of(amount, quote!.currency).format()
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        You can move to another date or change who is travelling up to {cutoffDays} days before departure.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="changeDeparture">
+          Departure
+        </label>
+        <select
+          id="changeDeparture"
+          className={selectClass}
+          value={form.availabilityId}
+          onChange={(e) => setForm({ ...form, availabilityId: e.target.value })}
+        >
+          {!departures.some((departure) => departure.id === availabilityId) && (
+            <option value={availabilityId}>Current departure</option>
+          )}
+          {departures.map((departure) => (
+            <option key={departure.id} value={departure.id}>
+              {formatDate(departure.startDate)} - {formatDate(departure.endDate)}
+              {departure.id === availabilityId ? ' (current)' : ` (${departure.availableSlots} slots available)`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="changeTravelers">
+            Travelers
+          </label>
+          <select
+            id="changeTravelers"
+            className={selectClass}
+            value={form.travelersCount}
+            onChange={(e) => {
+              const count = parseInt(e.target.value)
+              const children = Math.min(form.childrenCount, count)
+              setForm({ ...form, travelersCount: count, childrenCount: children, seniorsCount: Math.min(form.seniorsCount, count - children) })
+            }}
+          >
+            {Array.from({ length: 10 }, (_, i) => (
+              <option key={i + 1} value={i + 1}>{i + 1}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="changeChildren">
+            Of whom children
+          </label>
+          <select
+            id="changeChildren"
+            className={selectClass}
+            value={form.childrenCount}
+            onChange={(e) => setForm({ ...form, childrenCount: parseInt(e.target.value) })}
+          >
+            {Array.from({ length: form.travelersCount - form.seniorsCount + 1 }, (_, i) => (
+              <option key={i} value={i}>{i}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="changeSeniors">
+            Of whom seniors
+          </label>
+          <select
+            id="changeSeniors"
+            className={selectClass}
+            value={form.seniorsCount}
+            onChange={(e) => setForm({ ...form, seniorsCount: parseInt(e.target.value) })}
+          >
+            {Array.from({ length: form.travelersCount - form.childrenCount + 1 }, (_, i) => (
+              <option key={i} value={i}>{i}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {needsTravelers && (
+        <TravelerDetailsForm travelers={travelerEntries(travelers, mix)} onChange={setTravelers} />
+      )}
+
+      {quote && (
+        <div className="p-4 bg-gray-50 rounded-lg text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Current total:</span>
+            <span>{money(quote.previousTotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">New total:</span>
+            <span className="font-medium">{money(quote.newTotal)}</span>
+          </div>
+          {quote.settlement === 'PAYMENT_DUE' && (
+            <p className="text-yellow-700">You will be asked to pay the difference of {money(quote.balance)}.</p>
+          )}
+          {quote.settlement === 'REFUND_DUE' && (
+            <p className="text-green-700">{money(-quote.balance)} will be refunded to your original payment.</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleQuote}
+          disabled={quoting}
+          className="px-4 py-2 border border-primary text-primary rounded-md font-medium hover:bg-primary/5 disabled:border-gray-300 disabled:text-gray-400"
+        >
+          {quoting ? 'Checking...' : 'Check Price'}
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={!quote || saving}
+          className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-2 rounded-md font-medium"
+        >
+          {saving ? 'Saving...' : 'Confirm Change'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PermissionRules } from '@/app/lib/models/permission'
+
+interface BookingEvent {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  reason: string | null
+  createdAt: string
+  actor: {
+    id: string
+    name: string
+    role: string
+  } | null
+}
+
+interface BookingTimelineProps {
+  bookingId: string
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'CONFIRMED':
+    case 'COMPLETED': return 'bg-green-500'
+    case 'PENDING': return 'bg-yellow-500'
+    case 'CANCELLED':
+    case 'NO_SHOW': return 'bg-red-500'
+    default: return 'bg-gray-400'
+  }
+}
+
+const formatStatus = (status: string) => status.toLowerCase().replace('_', '-')
+
+export default function BookingTimeline({ bookingId }: BookingTimelineProps) {
+  const [events, setEvents] = useState<BookingEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/events`)
+        if (!response.ok) throw new Error('Failed to fetch booking history')
+
+        const data = await response.json()
+        setEvents(data.events || [])
+      } catch (err) {
+        setError('Failed to load booking history')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [bookingId])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => (
+        <li key={event.id} className="mb-6 ml-4 last:mb-0">
+          <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${getStatusColor(event.toStatus)}`}></span>
+          <p className="text-sm font-medium text-gray-900">
+            {!event.fromStatus
+              ? `Booked (${formatStatus(event.toStatus)})`
+              : event.fromStatus === event.toStatus
+                ? 'Changed'
+                : `${formatStatus(event.fromStatus)} → ${formatStatus(event.toStatus)}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatDate(event.createdAt)}
+            {' · '}
+            {event.actor ? `${event.actor.name}${PermissionRules.hasAdminAccess(event.actor.role) ? ' (staff)' : ''}` : 'System'}
+          </p>
+          {event.reason && (
+            <p className="text-sm text-gray-600 mt-1">{event.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
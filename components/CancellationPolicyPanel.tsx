@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { DEFAULT_MODIFICATION_CUTOFF_DAYS } from '@/app/lib/models/booking-modification'
+
+interface Tier {
+  minDaysBefore: number
+  refundPercent: number
+}
+
+interface CancellationPolicyPanelProps {
+  tourId: string
+  modificationCutoffDays: number | null
+}
+
+export default function CancellationPolicyPanel({ tourId, modificationCutoffDays }: CancellationPolicyPanelProps) {
+  const [tiers, setTiers] = useState<Tier[]>([])
+  const [isDefault, setIsDefault] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [cutoffDays, setCutoffDays] = useState(modificationCutoffDays === null ? '' : String(modificationCutoffDays))
+  const [savingCutoff, setSavingCutoff] = useState(false)
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/tours/${tourId}/cancellation-policy`)
+      if (!response.ok) throw new Error('Failed to fetch cancellation policy')
+
+      const data = await response.json()
+      setTiers(data.data.tiers)
+      setIsDefault(data.data.isDefault)
+      setError('')
+    } catch (err) {
+      setError('Failed to load cancellation policy')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [tourId])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const updateTier = (index: number, field: keyof Tier, value: string) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, [field]: parseInt(value) || 0 } : tier)))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/cancellation-policy`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ tiers })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save cancellation policy')
+
+      fetchPolicy()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save cancellation policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Revert this tour to the default cancellation policy?')) return
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/cancellation-policy`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) throw new Error('Failed to reset cancellation policy')
+
+      fetchPolicy()
+    } catch (err) {
+      alert('Failed to reset cancellation policy')
+      console.error(err)
+    }
+  }
+
+  const handleSaveCutoff = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingCutoff(true)
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ modificationCutoffDays: cutoffDays === '' ? null : parseInt(cutoffDays) })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save change cutoff')
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save change cutoff')
+    } finally {
+      setSavingCutoff(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3">
+        Cancellation Policy
+        {isDefault && !loading && (
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            default
+          </span>
+        )}
+      </h4>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading policy...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-2">
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+              <span>At least</span>
+              <input
+                type="number"
+                min={0}
+                value={tier.minDaysBefore}
+                onChange={(e) => updateTier(index, 'minDaysBefore', e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 w-20"
+              />
+              <span>days before departure:</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={tier.refundPercent}
+                onChange={(e) => updateTier(index, 'refundPercent', e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 w-20"
+              />
+              <span>% refund</span>
+              <button
+                type="button"
+                onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-500 font-medium"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => setTiers([...tiers, { minDaysBefore: 0, refundPercent: 0 }])}
+              className="text-primary hover:text-primary/80 text-sm font-medium"
+            >
+              Add Tier
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-1.5 rounded-md text-sm font-medium"
+            >
+              {saving ? 'Saving...' : 'Save Policy'}
+            </button>
+            {!isDefault && (
+              <button
+                type="button"
+                onClick={handleReset}
+                className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+              >
+                Use Default
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handleSaveCutoff} className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+        <span>Customers can change bookings up to</span>
+        <input
+          type="number"
+          min={0}
+          max={365}
+          placeholder={String(DEFAULT_MODIFICATION_CUTOFF_DAYS)}
+          value={cutoffDays}
+          onChange={(e) => setCutoffDays(e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1 w-20"
+        />
+        <span>days before departure</span>
+        <button
+          type="submit"
+          disabled={savingCutoff}
+          className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-1.5 rounded-md text-sm font-medium"
+        >
+          {savingCutoff ? 'Saving...' : 'Save Cutoff'}
+        </button>
+      </form>
+    </div>
+  )
+}
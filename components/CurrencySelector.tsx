@@ -0,0 +1,85 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { CurrencyConverter, ExchangeRateQuote, SUPPORTED_CURRENCIES } from '@/app/lib/models/exchange-rate'
+import { Money } from '@/app/lib/models/money'
+
+const STORAGE_KEY = 'displayCurrency'
+
+/**
+ * The currency the visitor wants prices shown in, remembered across pages.
+ * An empty currency shows every tour in its own currency.
+ */
+export function useDisplayCurrency() {
+  const [currency, setCurrencyState] = useState('')
+  const [rates, setRates] = useState<ExchangeRateQuote[]>([])
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      try {
+        const response = await fetch('/api/exchange-rates')
+        if (response.ok) {
+          const data = await response.json()
+          setRates((data.rates || []).map((rate: ExchangeRateQuote) => ({
+            ...rate,
+            effectiveFrom: new Date(rate.effectiveFrom)
+          })))
+        }
+      } catch (err) {
+        console.error('Failed to fetch exchange rates:', err)
+      } finally {
+        // Restored once rates are in, so the saved currency is never shown unconverted
+        setCurrencyState(localStorage.getItem(STORAGE_KEY) || '')
+      }
+    }
+
+    fetchRates()
+  }, [])
+
+  const setCurrency = useCallback((value: string) => {
+    setCurrencyState(value)
+    if (value) {
+      localStorage.setItem(STORAGE_KEY, value)
+    } else {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }, [])
+
+  // Amounts are in minor units. Falls back to the tour's own currency when there is no rate to convert with
+  const displayPrice = useCallback((amount: number, from: string): Money => {
+    const price = Money.of(amount, from)
+    const to = currency || from
+    const rate = CurrencyConverter.rateAt(rates, from, to)
+    return rate === null ? price : price.convert(rate, to)
+  }, [currency, rates])
+
+  const formatPrice = useCallback((amount: number, from: string) => {
+    return displayPrice(amount, from).format()
+  }, [displayPrice])
+
+  return { currency, setCurrency, displayPrice, formatPrice }
+}
+
+interface CurrencySelectorProps {
+  id?: string
+  value: string
+  onChange: (currency: string) => void
+  className?: string
+}
+
+export default function CurrencySelector({ id, value, onChange, className = '' }: CurrencySelectorProps) {
+  return (
+    <select
+      id={id}
+      aria-label="Display currency"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      <option value="">Tour currency</option>
+      {SUPPORTED_CURRENCIES.map((currency) => (
+        <option key={currency} value={currency}>{currency}</option>
+      ))}
+    </select>
+  )
+}
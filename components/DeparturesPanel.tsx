@@ -0,0 +1,287 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+
+interface Departure {
+  id: string
+  startDate: string
+  endDate: string
+  availableSlots: number
+  bookedSlots: number
+  heldSlots: number
+  capacity: number
+  activeBookings: number
+  waitlist: {
+    waiting: number
+    waitingTravelers: number
+    offered: number
+    offeredSlots: number
+  }
+  cancelledAt: string | null
+}
+
+interface DeparturesPanelProps {
+  tourId: string
+  durationDays: number
+  maxGroupSize: number
+}
+
+const toInputDate = (dateString: string) => dateString.slice(0, 10)
+
+export default function DeparturesPanel({ tourId, durationDays, maxGroupSize }: DeparturesPanelProps) {
+  const [departures, setDepartures] = useState<Departure[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState({ startDate: '', endDate: '', capacity: maxGroupSize })
+
+  const fetchDepartures = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/tours/${tourId}/availability`)
+      if (!response.ok) throw new Error('Failed to fetch departures')
+
+      const data = await response.json()
+      setDepartures(data.data || [])
+      setError('')
+    } catch (err) {
+      setError('Failed to load departures')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [tourId])
+
+  useEffect(() => {
+    fetchDepartures()
+  }, [fetchDepartures])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm({ startDate: '', endDate: '', capacity: maxGroupSize })
+  }
+
+  const handleStartDateChange = (startDate: string) => {
+    // Default the end date from the tour duration when creating a new departure
+    if (!editingId && startDate) {
+      const end = new Date(startDate)
+      end.setDate(end.getDate() + durationDays)
+      setForm({ ...form, startDate, endDate: end.toISOString().slice(0, 10) })
+    } else {
+      setForm({ ...form, startDate })
+    }
+  }
+
+  const handleEdit = (departure: Departure) => {
+    setEditingId(departure.id)
+    setForm({
+      startDate: toInputDate(departure.startDate),
+      endDate: toInputDate(departure.endDate),
+      capacity: departure.capacity
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/availability`, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          availabilityId: editingId || undefined,
+          startDate: form.startDate,
+          endDate: form.endDate,
+          capacity: form.capacity
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save departure')
+
+      resetForm()
+      fetchDepartures()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save departure')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (departure: Departure) => {
+    let cancelBookings = false
+
+    if (departure.activeBookings > 0) {
+      cancelBookings = confirm(
+        `This departure has ${departure.activeBookings} active bookings. ` +
+        'Cancel all of them and notify the customers?'
+      )
+      if (!cancelBookings) return
+    } else if (!confirm('Are you sure you want to delete this departure?')) {
+      return
+    }
+
+    try {
+      const params = new URLSearchParams({ availabilityId: departure.id })
+      if (cancelBookings) params.append('cancelBookings', 'true')
+
+      const response = await fetch(`/api/admin/tours/${tourId}/availability?${params.toString()}`, {
+        method: 'DELETE'
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete departure')
+
+      fetchDepartures()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete departure')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3">Departures</h4>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading departures...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : departures.length === 0 ? (
+        <p className="text-sm text-gray-500">No departures scheduled yet.</p>
+      ) : (
+        <table className="min-w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">Dates</th>
+              <th className="py-2 pr-4 font-medium">Booked</th>
+              <th className="py-2 pr-4 font-medium">Held</th>
+              <th className="py-2 pr-4 font-medium">Available</th>
+              <th className="py-2 pr-4 font-medium">Capacity</th>
+              <th className="py-2 pr-4 font-medium">Waitlist</th>
+              <th className="py-2 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {departures.map((departure) => (
+              <tr key={departure.id} className={departure.cancelledAt ? 'text-gray-400' : 'text-gray-700'}>
+                <td className="py-2 pr-4">
+                  {formatDate(departure.startDate)} - {formatDate(departure.endDate)}
+                  {departure.cancelledAt && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      cancelled
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4">{departure.bookedSlots}</td>
+                <td className="py-2 pr-4">{departure.heldSlots}</td>
+                <td className="py-2 pr-4">{departure.availableSlots}</td>
+                <td className="py-2 pr-4">{departure.capacity}</td>
+                <td className="py-2 pr-4">
+                  {departure.waitlist.waiting === 0 && departure.waitlist.offered === 0 ? (
+                    <span className="text-gray-400">—</span>
+                  ) : (
+                    <>
+                      {departure.waitlist.waiting} waiting ({departure.waitlist.waitingTravelers} seats)
+                      {departure.waitlist.offered > 0 && (
+                        <span className="block text-xs text-gray-500">{departure.waitlist.offeredSlots} seats offered</span>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td className="py-2 text-right space-x-2">
+                  {departure.activeBookings > 0 && (
+                    <Link
+                      href={`/admin/tours/${tourId}/manifest/${departure.id}`}
+                      className="text-primary hover:text-primary/80 font-medium"
+                    >
+                      Manifest
+                    </Link>
+                  )}
+                  {!departure.cancelledAt && (
+                    <>
+                      <button
+                        onClick={() => handleEdit(departure)}
+                        className="text-primary hover:text-primary/80 font-medium"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(departure)}
+                        className="text-red-600 hover:text-red-500 font-medium"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Start date</span>
+          <input
+            type="date"
+            required
+            value={form.startDate}
+            onChange={(e) => handleStartDateChange(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">End date</span>
+          <input
+            type="date"
+            required
+            value={form.endDate}
+            onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Capacity</span>
+          <input
+            type="number"
+            min={0}
+            required
+            value={form.capacity}
+            onChange={(e) => setForm({ ...form, capacity: parseInt(e.target.value) || 0 })}
+            className="border border-gray-300 rounded-md px-2 py-1 w-24"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-1.5 rounded-md text-sm font-medium"
+        >
+          {saving ? 'Saving...' : editingId ? 'Update Departure' : 'Add Departure'}
+        </button>
+        {editingId && (
+          <button
+            type="button"
+            onClick={resetForm}
+            className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+          >
+            Cancel
+          </button>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 
 import React from 'react';
 import { SunIcon, MoonIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import NotificationBell from './NotificationBell';
 
 interface NavbarProps {
   toggleDarkMode: () => void;
@@ -45,6 +46,7 @@ const Navbar: React.FC<NavbarProps> = ({ toggleDarkMode, isDarkMode }) => {
                 <MoonIcon className="w-6 h-6" />
               )}
             </button>
+            <NotificationBell />
             <button 
               className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-all border border-gray-200 dark:border-gray-700 shadow-sm"
               aria-label="User profile"
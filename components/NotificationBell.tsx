@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { BellIcon } from '@heroicons/react/24/outline'
+
+interface NotificationItem {
+  id: string
+  type: string
+  subject: string
+  content: string
+  createdAt: string
+  readAt: string | null
+}
+
+// How often the unread count is refreshed while the page is open
+const REFRESH_INTERVAL_MS = 60_000
+
+const formatTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+export default function NotificationBell() {
+  const { data: session } = useSession()
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [open, setOpen] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (!response.ok) throw new Error('Failed to fetch notifications')
+
+      const data = await response.json()
+      setNotifications(data.notifications)
+      setUnreadCount(data.unreadCount)
+    } catch (err) {
+      console.error(err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!session) return
+
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [session, fetchNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ids })
+      })
+      if (!response.ok) throw new Error('Failed to mark notifications as read')
+
+      const data = await response.json()
+      const readAt = new Date().toISOString()
+      setNotifications((current) => current.map((notification) =>
+        !ids || ids.includes(notification.id) ? { ...notification, readAt: notification.readAt ?? readAt } : notification
+      ))
+      setUnreadCount(data.unreadCount)
+    } catch (err) {
+      console.error(err)
+    }
+  }
+
+  const handleOpen = (notification: NotificationItem) => {
+    setExpandedId(expandedId === notification.id ? null : notification.id)
+    if (!notification.readAt) {
+      markRead([notification.id])
+    }
+  }
+
+  if (!session) return null
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <BellIcon className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-semibold">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white dark:bg-slate-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-xs font-medium text-primary hover:text-primary/80"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800"
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.readAt && <span className="mt-1.5 w-2 h-2 shrink-0 rounded-full bg-primary" />}
+                      <div className="min-w-0">
+                        <p className={`text-sm ${notification.readAt ? 'text-gray-600 dark:text-gray-400' : 'font-medium text-gray-900 dark:text-white'}`}>
+                          {notification.subject}
+                        </p>
+                        <p className="text-xs text-gray-500">{formatTime(notification.createdAt)}</p>
+                      </div>
+                    </div>
+                    {expandedId === notification.id && (
+                      <p className="mt-2 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-line">
+                        {notification.content.trim().replace(/^ +/gm, '')}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+type RuleType = 'SEASONAL' | 'EARLY_BIRD' | 'LAST_MINUTE' | 'TRAVELER_TYPE' | 'GROUP'
+
+interface PricingRule {
+  id: string
+  name: string
+  type: RuleType
+  adjustmentPercent: number
+  startDate?: string | null
+  endDate?: string | null
+  minDaysBefore?: number | null
+  maxDaysBefore?: number | null
+  travelerType?: 'CHILD' | 'SENIOR' | null
+  minTravelers?: number | null
+  isActive: boolean
+}
+
+interface PricingRulesPanelProps {
+  tourId: string
+}
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  SEASONAL: 'Season',
+  EARLY_BIRD: 'Early bird',
+  LAST_MINUTE: 'Last minute',
+  TRAVELER_TYPE: 'Child / senior',
+  GROUP: 'Group'
+}
+
+const emptyForm = {
+  name: '',
+  type: 'SEASONAL' as RuleType,
+  adjustmentPercent: '',
+  startDate: '',
+  endDate: '',
+  minDaysBefore: '',
+  maxDaysBefore: '',
+  travelerType: 'CHILD',
+  minTravelers: ''
+}
+
+export default function PricingRulesPanel({ tourId }: PricingRulesPanelProps) {
+  const [rules, setRules] = useState<PricingRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/tours/${tourId}/pricing-rules`)
+      if (!response.ok) throw new Error('Failed to fetch pricing rules')
+
+      const data = await response.json()
+      setRules(data.data || [])
+      setError('')
+    } catch (err) {
+      setError('Failed to load pricing rules')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [tourId])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/pricing-rules`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          name: form.name,
+          type: form.type,
+          adjustmentPercent: parseInt(form.adjustmentPercent),
+          startDate: form.type === 'SEASONAL' ? form.startDate : null,
+          endDate: form.type === 'SEASONAL' ? form.endDate : null,
+          minDaysBefore: form.type === 'EARLY_BIRD' ? form.minDaysBefore : '',
+          maxDaysBefore: form.type === 'LAST_MINUTE' ? form.maxDaysBefore : '',
+          travelerType: form.type === 'TRAVELER_TYPE' ? form.travelerType : null,
+          minTravelers: form.type === 'GROUP' ? form.minTravelers : null
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add pricing rule')
+
+      setForm(emptyForm)
+      fetchRules()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add pricing rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: PricingRule) => {
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/pricing-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ isActive: !rule.isActive })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update pricing rule')
+
+      fetchRules()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update pricing rule')
+    }
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    if (!confirm('Delete this pricing rule? Existing bookings keep their prices.')) return
+
+    try {
+      const response = await fetch(`/api/admin/tours/${tourId}/pricing-rules/${ruleId}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) throw new Error('Failed to delete pricing rule')
+
+      fetchRules()
+    } catch (err) {
+      alert('Failed to delete pricing rule')
+      console.error(err)
+    }
+  }
+
+  const describeCondition = (rule: PricingRule) => {
+    switch (rule.type) {
+      case 'SEASONAL':
+        return `Departures ${new Date(rule.startDate!).toLocaleDateString()} – ${new Date(rule.endDate!).toLocaleDateString()}`
+      case 'EARLY_BIRD':
+        return `Booked ${rule.minDaysBefore}+ days before departure`
+      case 'LAST_MINUTE':
+        return `Booked ${rule.maxDaysBefore} or fewer days before departure`
+      case 'TRAVELER_TYPE':
+        return rule.travelerType === 'CHILD' ? 'Children' : 'Seniors'
+      case 'GROUP':
+        return `Groups of ${rule.minTravelers}+`
+    }
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-1">Pricing Rules</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Season, early bird, last minute and group adjustments add up; child and senior adjustments then apply to those travelers.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading rules...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <>
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">Every departure costs the tour price.</p>
+          ) : (
+            <ul className="space-y-2 mb-4 text-sm">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center gap-3 text-gray-700">
+                  <span className={`font-medium ${rule.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {rule.name}
+                  </span>
+                  <span>{RULE_TYPE_LABELS[rule.type]}: {describeCondition(rule)}</span>
+                  <span className={rule.adjustmentPercent < 0 ? 'text-green-700' : 'text-red-700'}>
+                    {rule.adjustmentPercent > 0 ? '+' : ''}{rule.adjustmentPercent}%
+                  </span>
+                  <button
+                    onClick={() => handleToggle(rule)}
+                    className="text-primary hover:text-primary/80 font-medium"
+                  >
+                    {rule.isActive ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    className="text-red-600 hover:text-red-500 font-medium"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2 text-sm text-gray-700">
+            <input
+              type="text"
+              required
+              placeholder="Rule name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="border border-gray-300 rounded-md px-2 py-1 w-40"
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as RuleType })}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              {Object.entries(RULE_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+
+            {form.type === 'SEASONAL' && (
+              <>
+                <input
+                  type="date"
+                  required
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  className="border border-gray-300 rounded-md px-2 py-1"
+                />
+                <span>to</span>
+                <input
+                  type="date"
+                  required
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  className="border border-gray-300 rounded-md px-2 py-1"
+                />
+              </>
+            )}
+            {form.type === 'EARLY_BIRD' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  required
+                  value={form.minDaysBefore}
+                  onChange={(e) => setForm({ ...form, minDaysBefore: e.target.value })}
+                  className="border border-gray-300 rounded-md px-2 py-1 w-20"
+                />
+                <span>+ days out</span>
+              </>
+            )}
+            {form.type === 'LAST_MINUTE' && (
+              <>
+                <span>within</span>
+                <input
+                  type="number"
+                  min={0}
+                  required
+                  value={form.maxDaysBefore}
+                  onChange={(e) => setForm({ ...form, maxDaysBefore: e.target.value })}
+                  className="border border-gray-300 rounded-md px-2 py-1 w-20"
+                />
+                <span>days</span>
+              </>
+            )}
+            {form.type === 'TRAVELER_TYPE' && (
+              <select
+                value={form.travelerType}
+                onChange={(e) => setForm({ ...form, travelerType: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              >
+                <option value="CHILD">Children</option>
+                <option value="SENIOR">Seniors</option>
+              </select>
+            )}
+            {form.type === 'GROUP' && (
+              <>
+                <input
+                  type="number"
+                  min={2}
+                  required
+                  value={form.minTravelers}
+                  onChange={(e) => setForm({ ...form, minTravelers: e.target.value })}
+                  className="border border-gray-300 rounded-md px-2 py-1 w-20"
+                />
+                <span>+ travelers</span>
+              </>
+            )}
+
+            <input
+              type="number"
+              min={-100}
+              max={500}
+              required
+              placeholder="±%"
+              value={form.adjustmentPercent}
+              onChange={(e) => setForm({ ...form, adjustmentPercent: e.target.value })}
+              className="border border-gray-300 rounded-md px-2 py-1 w-20"
+            />
+            <span>%</span>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary hover:bg-primary/90 disabled:bg-gray-400 text-white px-4 py-1.5 rounded-md text-sm font-medium"
+            >
+              {saving ? 'Saving...' : 'Add Rule'}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+type TravelerType = 'ADULT' | 'CHILD' | 'SENIOR'
+
+export interface TravelerFormEntry {
+  travelerType: TravelerType
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  nationality: string
+  passportNumber: string
+  passportExpiry: string
+  dietaryRequirements: string
+  emergencyContactName: string
+  emergencyContactPhone: string
+}
+
+interface TravelerDetailsFormProps {
+  travelers: TravelerFormEntry[]
+  onChange: (travelers: TravelerFormEntry[]) => void
+}
+
+const TRAVELER_TYPE_LABELS: Record<TravelerType, string> = {
+  ADULT: 'Adult',
+  CHILD: 'Child',
+  SENIOR: 'Senior'
+}
+
+const emptyTraveler = (travelerType: TravelerType): TravelerFormEntry => ({
+  travelerType,
+  firstName: '',
+  lastName: '',
+  dateOfBirth: '',
+  nationality: '',
+  passportNumber: '',
+  passportExpiry: '',
+  dietaryRequirements: '',
+  emergencyContactName: '',
+  emergencyContactPhone: ''
+})
+
+/**
+ * One entry per traveler in the booked mix (adults, then children, then seniors), keeping
+ * whatever was already typed in for travelers of the same type
+ */
+export function travelerEntries(
+  current: TravelerFormEntry[],
+  mix: { adults: number; children: number; seniors: number }
+): TravelerFormEntry[] {
+  const counts: [TravelerType, number][] = [['ADULT', mix.adults], ['CHILD', mix.children], ['SENIOR', mix.seniors]]
+
+  return counts.flatMap(([travelerType, count]) => {
+    const existing = current.filter((traveler) => traveler.travelerType === travelerType)
+    return Array.from({ length: count }, (_, i) => existing[i] ?? emptyTraveler(travelerType))
+  })
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary focus:border-primary'
+
+export default function TravelerDetailsForm({ travelers, onChange }: TravelerDetailsFormProps) {
+  const update = (index: number, field: keyof TravelerFormEntry, value: string) => {
+    onChange(travelers.map((traveler, i) => (i === index ? { ...traveler, [field]: value } : traveler)))
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500">
+        Names as they appear on each traveler&apos;s passport. Passport details are stored encrypted and only shared with the tour&apos;s guides and hotels.
+      </p>
+
+      {travelers.map((traveler, index) => (
+        <fieldset key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <legend className="px-1 text-sm font-semibold text-gray-900">
+            Traveler {index + 1} · {TRAVELER_TYPE_LABELS[traveler.travelerType]}
+          </legend>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">First name</span>
+              <input
+                type="text"
+                required
+                value={traveler.firstName}
+                onChange={(e) => update(index, 'firstName', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Last name</span>
+              <input
+                type="text"
+                required
+                value={traveler.lastName}
+                onChange={(e) => update(index, 'lastName', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Date of birth</span>
+              <input
+                type="date"
+                required
+                value={traveler.dateOfBirth}
+                onChange={(e) => update(index, 'dateOfBirth', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Nationality</span>
+              <input
+                type="text"
+                value={traveler.nationality}
+                onChange={(e) => update(index, 'nationality', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Passport number</span>
+              <input
+                type="text"
+                autoComplete="off"
+                value={traveler.passportNumber}
+                onChange={(e) => update(index, 'passportNumber', e.target.value.toUpperCase())}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Passport expiry</span>
+              <input
+                type="date"
+                required={traveler.passportNumber.trim() !== ''}
+                value={traveler.passportExpiry}
+                onChange={(e) => update(index, 'passportExpiry', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Dietary requirements</span>
+            <input
+              type="text"
+              placeholder="e.g. vegetarian, nut allergy"
+              value={traveler.dietaryRequirements}
+              onChange={(e) => update(index, 'dietaryRequirements', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Emergency contact</span>
+              <input
+                type="text"
+                value={traveler.emergencyContactName}
+                onChange={(e) => update(index, 'emergencyContactName', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Emergency phone</span>
+              <input
+                type="tel"
+                value={traveler.emergencyContactPhone}
+                onChange={(e) => update(index, 'emergencyContactPhone', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts, before it handles any request
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Refuse to start without the keys sensitive data is encrypted with
+    const { assertEncryptionConfigured } = await import('./app/lib/utils/encryption')
+    assertEncryptionConfigured()
+  }
+}
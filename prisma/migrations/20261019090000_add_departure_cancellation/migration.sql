@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tour_availabilities" ADD COLUMN     "cancelledAt" TIMESTAMP(3);
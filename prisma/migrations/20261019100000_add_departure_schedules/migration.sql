@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ScheduleFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "tour_availabilities" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "departure_schedules" (
+    "id" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "frequency" "ScheduleFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "byWeekday" INTEGER[],
+    "byMonthDay" INTEGER[],
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "until" TIMESTAMP(3),
+    "blackoutDates" TIMESTAMP(3)[],
+    "slots" INTEGER,
+    "horizonDays" INTEGER NOT NULL DEFAULT 90,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastGeneratedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "departure_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tour_availabilities_scheduleId_startDate_key" ON "tour_availabilities"("scheduleId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "tour_availabilities" ADD CONSTRAINT "tour_availabilities_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "departure_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "departure_schedules" ADD CONSTRAINT "departure_schedules_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
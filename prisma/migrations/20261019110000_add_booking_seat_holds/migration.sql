@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bookings_status_holdExpiresAt_idx" ON "bookings"("status", "holdExpiresAt");
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'COMPLETED';
+ALTER TYPE "BookingStatus" ADD VALUE 'NO_SHOW';
+ALTER TYPE "BookingStatus" ADD VALUE 'REFUNDED';
+
+-- CreateTable
+CREATE TABLE "booking_events" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "fromStatus" "BookingStatus",
+    "toStatus" "BookingStatus" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_events_bookingId_createdAt_idx" ON "booking_events"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "refundAmount" DOUBLE PRECISION,
+ADD COLUMN     "refundOverrideReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "cancellation_policy_tiers" (
+    "id" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "minDaysBefore" INTEGER NOT NULL,
+    "refundPercent" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cancellation_policy_tiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cancellation_policy_tiers_tourId_minDaysBefore_key" ON "cancellation_policy_tiers"("tourId", "minDaysBefore");
+
+-- AddForeignKey
+ALTER TABLE "cancellation_policy_tiers" ADD CONSTRAINT "cancellation_policy_tiers_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
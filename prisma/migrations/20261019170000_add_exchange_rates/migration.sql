@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "tours" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN "baseCurrency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN "baseTotalPrice" DOUBLE PRECISION,
+ADD COLUMN "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- Existing bookings were all priced in USD without conversion
+UPDATE "bookings" SET "baseTotalPrice" = "totalPrice";
+
+ALTER TABLE "bookings" ALTER COLUMN "baseTotalPrice" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_baseCurrency_quoteCurrency_effectiveFrom_key" ON "exchange_rates"("baseCurrency", "quoteCurrency", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
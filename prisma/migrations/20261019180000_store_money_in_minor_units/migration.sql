@@ -0,0 +1,15 @@
+-- Money is stored as integer minor units (cents); every supported currency has two decimal places
+
+-- AlterTable
+ALTER TABLE "tours" ALTER COLUMN "pricePerPerson" SET DATA TYPE INTEGER USING ROUND("pricePerPerson" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "bookings" ALTER COLUMN "totalPrice" SET DATA TYPE INTEGER USING ROUND("totalPrice" * 100)::INTEGER,
+ALTER COLUMN "baseTotalPrice" SET DATA TYPE INTEGER USING ROUND("baseTotalPrice" * 100)::INTEGER,
+ALTER COLUMN "refundAmount" SET DATA TYPE INTEGER USING ROUND("refundAmount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "refunds" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT');
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "DiscountType" NOT NULL,
+    "discountValue" INTEGER NOT NULL,
+    "currency" TEXT,
+    "tourId" TEXT,
+    "destinationId" TEXT,
+    "minTravelers" INTEGER NOT NULL DEFAULT 1,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "maxRedemptions" INTEGER,
+    "maxRedemptionsPerUser" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_destinationId_fkey" FOREIGN KEY ("destinationId") REFERENCES "destinations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "subtotalPrice" INTEGER,
+ADD COLUMN "discountAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "promoCodeId" TEXT;
+
+-- Existing bookings were never discounted
+UPDATE "bookings" SET "subtotalPrice" = "totalPrice";
+
+ALTER TABLE "bookings" ALTER COLUMN "subtotalPrice" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "bookings_promoCodeId_idx" ON "bookings"("promoCodeId");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "promo_codes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
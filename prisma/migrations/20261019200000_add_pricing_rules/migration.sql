@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PricingRuleType" AS ENUM ('SEASONAL', 'EARLY_BIRD', 'LAST_MINUTE', 'TRAVELER_TYPE', 'GROUP');
+
+-- CreateEnum
+CREATE TYPE "TravelerType" AS ENUM ('ADULT', 'CHILD', 'SENIOR');
+
+-- CreateTable
+CREATE TABLE "pricing_rules" (
+    "id" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PricingRuleType" NOT NULL,
+    "adjustmentPercent" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "minDaysBefore" INTEGER,
+    "maxDaysBefore" INTEGER,
+    "travelerType" "TravelerType",
+    "minTravelers" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_tourId_idx" ON "pricing_rules"("tourId");
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "childrenCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "seniorsCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "priceLines" JSONB NOT NULL DEFAULT '[]';
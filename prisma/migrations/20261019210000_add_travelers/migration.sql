@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "travelers" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "travelerType" "TravelerType" NOT NULL DEFAULT 'ADULT',
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "dateOfBirth" TIMESTAMP(3) NOT NULL,
+    "nationality" TEXT,
+    "passportNumber" TEXT,
+    "passportExpiry" TEXT,
+    "dietaryRequirements" TEXT,
+    "emergencyContactName" TEXT,
+    "emergencyContactPhone" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "travelers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "travelers_bookingId_idx" ON "travelers"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "travelers" ADD CONSTRAINT "travelers_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
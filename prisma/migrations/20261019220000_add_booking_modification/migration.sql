@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tours" ADD COLUMN "modificationCutoffDays" INTEGER;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'LEFT', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "availabilityId" TEXT NOT NULL,
+    "travelersCount" INTEGER NOT NULL,
+    "childrenCount" INTEGER NOT NULL DEFAULT 0,
+    "seniorsCount" INTEGER NOT NULL DEFAULT 0,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "claimTokenHash" TEXT,
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_entries_claimTokenHash_key" ON "waitlist_entries"("claimTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_entries_bookingId_key" ON "waitlist_entries"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_availabilityId_status_createdAt_idx" ON "waitlist_entries"("availabilityId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_status_offerExpiresAt_idx" ON "waitlist_entries"("status", "offerExpiresAt");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_availabilityId_fkey" FOREIGN KEY ("availabilityId") REFERENCES "tour_availabilities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "suspendedAt" TIMESTAMP(3),
+ADD COLUMN "suspensionReason" TEXT,
+ADD COLUMN "invitedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "notification_outbox" ADD COLUMN "dedupeKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_outbox_dedupeKey_key" ON "notification_outbox"("dedupeKey");
@@ -0,0 +1,20 @@
+-- Money columns become 64-bit: in minor units, a large booking in naira or shillings overflows a 32-bit INTEGER
+
+-- AlterTable
+ALTER TABLE "tours" ALTER COLUMN "pricePerPerson" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "bookings" ALTER COLUMN "subtotalPrice" SET DATA TYPE BIGINT,
+ALTER COLUMN "discountAmount" SET DATA TYPE BIGINT,
+ALTER COLUMN "totalPrice" SET DATA TYPE BIGINT,
+ALTER COLUMN "baseTotalPrice" SET DATA TYPE BIGINT,
+ALTER COLUMN "refundAmount" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "amount" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "refunds" ALTER COLUMN "amount" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "promo_codes" ALTER COLUMN "discountValue" SET DATA TYPE BIGINT;
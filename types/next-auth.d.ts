@@ -23,5 +23,7 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT {
     role?: string
+    userId?: string // The account's id; token.sub is the provider's id for Google sign-ins
+    sessionVersion?: number // The user's session version when they signed in
   }
 }
\ No newline at end of file